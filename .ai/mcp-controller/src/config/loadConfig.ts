@@ -45,6 +45,10 @@ export async function loadGatewayConfig(): Promise<GatewayConfig> {
       username: process.env.NEO4J_USERNAME ?? merged.neo4j.username,
       password: process.env.NEO4J_PASSWORD ?? merged.neo4j.password,
       database: process.env.NEO4J_DATABASE ?? merged.neo4j.database
+    },
+    graph: {
+      ...merged.graph,
+      backend: (process.env.MCP_GRAPH_BACKEND ?? merged.graph.backend) as GatewayConfig["graph"]["backend"]
     }
   };
 
@@ -1,8 +1,24 @@
+import { DEFAULT_BUDGET_THRESHOLD_PERCENT, DEFAULT_MAX_TOKENS } from "../shared/constants";
+
+/** Budget limits that a strategy or initialize_work may override per work item */
+export interface BudgetLimits {
+  maxTokens?: number;
+  thresholdPercent?: number;
+}
+
 export interface GatewayConfig {
   dashboardPort: number;
   repo: {
     root: string;
     worktreeRoot: string;
+    /**
+     * How initialize_work isolates a work item: a git worktree on a per-work
+     * branch, a copy-on-write clone, or none (patch the target repo in place).
+     * Defaults to none; .ai/config/base.json opts in to git_worktree.
+     */
+    isolation: "git_worktree" | "copy" | "none";
+    /** Prefix of per-work branches; the ticket key (or workId) follows */
+    branchPrefix: string;
   };
   neo4j: {
     uri: string;
@@ -14,6 +30,13 @@ export interface GatewayConfig {
     seedRoot: string;
     outRoot: string;
     cypherRoot: string;
+    /**
+     * Store answering graph queries: "neo4j" requires a live server, "embedded"
+     * uses the file-backed store loaded from seedRoot, "auto" tries Neo4j first
+     */
+    backend: "neo4j" | "embedded" | "auto";
+    /** Snapshot file of the embedded store */
+    storePath: string;
   };
   jira: {
     baseUrl: string;
@@ -43,13 +66,70 @@ export interface GatewayConfig {
     includes: string[];
     excludes: string[];
   };
+  indexing: {
+    /** Persist extracted facts under .ai/tmp/index so restarts only re-parse changed files */
+    persistCache: boolean;
+    /** Watch the ingestion roots and re-index changed files in place */
+    watch: boolean;
+    /** Quiet period before a batch of watched changes is applied */
+    watchDebounceMs: number;
+  };
+  sandbox: {
+    /** Minimum isolation for run_sandboxed_code; a request may only ask for a stricter one */
+    defaultIsolation: "vm" | "process";
+    /** Specifiers the process sandbox's `require` may load */
+    allowedModules: string[];
+    /** Environment variables passed through to the sandbox process; all others are dropped */
+    envAllowlist: string[];
+    /** Extra paths (repo-relative or absolute) the sandbox process may read besides the worktree */
+    extraReadPaths: string[];
+    /**
+     * Command lines `exec()` may start from the process sandbox. A validate node's
+     * command hooks only run when they equal one of these word for word.
+     */
+    allowedCommands: string[];
+  };
+  budget: {
+    /** Token ceiling per session */
+    maxTokens: number;
+    /** Fraction of maxTokens at which the session moves to BLOCKED_BUDGET */
+    thresholdPercent: number;
+    /** Fractions of the blocking threshold at which responses carry a soft warning */
+    warningPercents: number[];
+    /** Token counter id: "char_ratio", "word_piece", or one added with registerTokenCounter */
+    tokenizer: string;
+    /** Upper bound on tokens request_budget_extension may grant one session, summed over grants */
+    maxExtensionTokens: number;
+    /** Per-strategy limits applied at initialize_work, keyed by strategyId */
+    strategies: Record<string, BudgetLimits>;
+  };
+  coordination: {
+    /** How long a plan-node claim and its file/symbol leases last without activity from the holder */
+    leaseTtlMs: number;
+  };
+  mcpHttp: {
+    /** Mount the Streamable HTTP MCP endpoint on the dashboard server */
+    enabled: boolean;
+    /** Endpoint path: POST carries JSON-RPC, GET opens the notification stream, DELETE ends the session */
+    path: string;
+    /** Browser origins allowed besides localhost; requests without an Origin header are always allowed */
+    allowedOrigins: string[];
+    /** MCP sessions without requests or open streams for this long are forgotten */
+    sessionIdleMs: number;
+  };
+  migration: {
+    /** SDF components.d.ts files (target-repo relative) whose contracts decide which props migrate_adp_to_sdf may emit */
+    sdfContractFiles: string[];
+  };
 }
 
 export const DEFAULT_CONFIG: GatewayConfig = {
   dashboardPort: 8722,
   repo: {
     root: ".",
-    worktreeRoot: ".ai/tmp/work"
+    worktreeRoot: ".ai/tmp/work",
+    isolation: "none",
+    branchPrefix: "mcp/"
   },
   neo4j: {
     uri: "bolt://127.0.0.1:7687",
@@ -60,7 +140,9 @@ export const DEFAULT_CONFIG: GatewayConfig = {
   graph: {
     seedRoot: ".ai/graph/seed",
     outRoot: ".ai/graph/out",
-    cypherRoot: ".ai/graph/cypher"
+    cypherRoot: ".ai/graph/cypher",
+    backend: "auto",
+    storePath: ".ai/tmp/graph/store.json"
   },
   jira: {
     baseUrl: "",
@@ -94,5 +176,37 @@ export const DEFAULT_CONFIG: GatewayConfig = {
       "packages/**/*.{ts,tsx,js,mjs,cjs,html,json,yaml,yml}"
     ],
     excludes: ["**/dist/**", "**/node_modules/**", "**/.angular/**"]
+  },
+  indexing: {
+    persistCache: true,
+    watch: false,
+    watchDebounceMs: 200
+  },
+  sandbox: {
+    defaultIsolation: "vm",
+    allowedModules: ["node:path", "node:util", "node:assert", "node:url", "path", "util", "assert", "url"],
+    envAllowlist: ["PATH", "HOME", "LANG", "TERM", "SystemRoot"],
+    extraReadPaths: [],
+    allowedCommands: ["npx tsc --noEmit", "npx ng test --watch=false", "npx eslint ."]
+  },
+  budget: {
+    maxTokens: DEFAULT_MAX_TOKENS,
+    thresholdPercent: DEFAULT_BUDGET_THRESHOLD_PERCENT,
+    warningPercents: [0.75, 0.9],
+    tokenizer: "char_ratio",
+    maxExtensionTokens: DEFAULT_MAX_TOKENS,
+    strategies: {}
+  },
+  coordination: {
+    leaseTtlMs: 900_000
+  },
+  mcpHttp: {
+    enabled: true,
+    path: "/mcp",
+    allowedOrigins: [],
+    sessionIdleMs: 3_600_000
+  },
+  migration: {
+    sdfContractFiles: []
   }
 };
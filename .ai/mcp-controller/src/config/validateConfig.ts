@@ -19,9 +19,19 @@ export function validateGatewayConfig(config: GatewayConfig): { ok: boolean; err
   validateNonEmptyString(config.graph.seedRoot, "graph.seedRoot", errors);
   validateNonEmptyString(config.graph.outRoot, "graph.outRoot", errors);
   validateNonEmptyString(config.graph.cypherRoot, "graph.cypherRoot", errors);
+  if (!["neo4j", "embedded", "auto"].includes(config.graph.backend)) {
+    errors.push("graph.backend must be 'neo4j', 'embedded' or 'auto'.");
+  }
+  validateNonEmptyString(config.graph.storePath, "graph.storePath", errors);
 
   validateNonEmptyString(config.repo.root, "repo.root", errors);
   validateNonEmptyString(config.repo.worktreeRoot, "repo.worktreeRoot", errors);
+  if (!["git_worktree", "copy", "none"].includes(config.repo.isolation)) {
+    errors.push("repo.isolation must be 'git_worktree', 'copy' or 'none'.");
+  }
+  if (typeof config.repo.branchPrefix !== "string" || /\s|\.\.|^[-/]/.test(config.repo.branchPrefix)) {
+    errors.push("repo.branchPrefix must be a valid git ref prefix (no spaces or '..', not starting with '-' or '/').");
+  }
 
   if (!config.ingestion.includes.length) {
     errors.push("ingestion.includes must contain at least one glob.");
@@ -40,6 +50,58 @@ export function validateGatewayConfig(config: GatewayConfig): { ok: boolean; err
     errors.push("parserTargets.templates must include at least one root path.");
   }
 
+  if (!Number.isFinite(config.indexing.watchDebounceMs) || config.indexing.watchDebounceMs < 0) {
+    errors.push("indexing.watchDebounceMs must be a non-negative number.");
+  }
+
+  if (config.sandbox.defaultIsolation !== "vm" && config.sandbox.defaultIsolation !== "process") {
+    errors.push("sandbox.defaultIsolation must be 'vm' or 'process'.");
+  }
+  if (config.sandbox.envAllowlist.some((key) => /^(NEO4J_|JIRA_)/.test(key))) {
+    errors.push("sandbox.envAllowlist must not pass NEO4J_* or JIRA_* credentials into the sandbox.");
+  }
+  config.sandbox.allowedCommands.forEach((command, index) => {
+    validateNonEmptyString(command, `sandbox.allowedCommands[${index}]`, errors);
+    if (/[;&|<>`$()\r\n]/.test(command)) {
+      errors.push(`sandbox.allowedCommands[${index}] must be a plain command line without shell syntax.`);
+    }
+  });
+
+  if (!Number.isFinite(config.budget.maxTokens) || config.budget.maxTokens <= 0) {
+    errors.push("budget.maxTokens must be a positive number.");
+  }
+  if (!isFraction(config.budget.thresholdPercent)) {
+    errors.push("budget.thresholdPercent must be greater than 0 and at most 1.");
+  }
+  if (config.budget.warningPercents.some((value) => !isFraction(value))) {
+    errors.push("budget.warningPercents entries must be greater than 0 and at most 1.");
+  }
+  validateNonEmptyString(config.budget.tokenizer, "budget.tokenizer", errors);
+  if (!Number.isFinite(config.budget.maxExtensionTokens) || config.budget.maxExtensionTokens < 0) {
+    errors.push("budget.maxExtensionTokens must be a non-negative number.");
+  }
+  for (const [strategyId, limits] of Object.entries(config.budget.strategies)) {
+    if (limits.maxTokens !== undefined && (!Number.isFinite(limits.maxTokens) || limits.maxTokens <= 0)) {
+      errors.push(`budget.strategies.${strategyId}.maxTokens must be a positive number.`);
+    }
+    if (limits.thresholdPercent !== undefined && !isFraction(limits.thresholdPercent)) {
+      errors.push(`budget.strategies.${strategyId}.thresholdPercent must be greater than 0 and at most 1.`);
+    }
+  }
+
+  if (!Number.isFinite(config.coordination.leaseTtlMs) || config.coordination.leaseTtlMs <= 0) {
+    errors.push("coordination.leaseTtlMs must be a positive number.");
+  }
+  if (!config.mcpHttp.path.startsWith("/") || config.mcpHttp.path.length < 2) {
+    errors.push("mcpHttp.path must be an absolute URL path such as '/mcp'.");
+  }
+  if (!Number.isFinite(config.mcpHttp.sessionIdleMs) || config.mcpHttp.sessionIdleMs <= 0) {
+    errors.push("mcpHttp.sessionIdleMs must be a positive number.");
+  }
+  if (config.migration.sdfContractFiles.some((file) => typeof file !== "string" || file.trim().length === 0)) {
+    errors.push("migration.sdfContractFiles entries must be non-empty paths.");
+  }
+
   validateNonEmptyString(config.recipes.manifestPath, "recipes.manifestPath", errors);
   validateNonEmptyString(config.jira.patFilePath, "jira.patFilePath", errors);
 
@@ -60,6 +122,10 @@ function validateNonEmptyString(value: string, field: string, errors: string[]):
   }
 }
 
+function isFraction(value: number): boolean {
+  return Number.isFinite(value) && value > 0 && value <= 1;
+}
+
 function normalizeSlash(value: string): string {
   return value.split(path.sep).join("/");
 }
@@ -20,6 +20,18 @@ export interface TurnRequest {
   traceMeta?: Record<string, unknown>;
 }
 
+/** A step of a long-running turn (initialize_work), reported while the turn is still running. */
+export interface TurnProgress {
+  stage: string;
+  progress: number;
+  total: number;
+  message: string;
+}
+
+export interface TurnOptions {
+  onProgress?: (update: TurnProgress) => void;
+}
+
 export interface PackInsufficiency {
   missingAnchors: Array<{
     anchorType: string;
@@ -75,6 +87,14 @@ export interface TurnResponse {
     usedTokens: number;
     thresholdTokens: number;
     blocked: boolean;
+    /** Tokens left before the BLOCKED_BUDGET transition */
+    remainingTokens: number;
+    /** Token counter used for accounting */
+    tokenizer: string;
+    /** Tokens charged for this turn: the request, and the response once it was serialized */
+    lastTurn?: { requestTokens: number; responseTokens: number };
+    /** Soft warning once usage passes one of budget.warningPercents of the threshold */
+    warning?: string;
   };
   traceRef: string;
   schemaVersion: string;
@@ -9,7 +9,7 @@ export function capabilitiesForState(state: RunState): string[] {
     return [...POST_PLAN_CAPABILITIES];
   }
   if (state === "BLOCKED_BUDGET") {
-    return ["initialize_work", "escalate", "signal_task_complete"];
+    return ["initialize_work", "escalate", "request_budget_extension", "signal_task_complete"];
   }
   if (state === "FAILED" || state === "COMPLETED") {
     return ["signal_task_complete"];
@@ -1,4 +1,9 @@
 import { runAsyncIife } from "../../infrastructure/vm/safeVmRunner";
+import {
+  runInChildProcess,
+  type ChildProcessRunResult,
+  type ChildProcessSandboxPolicy
+} from "../../infrastructure/vm/childProcessSandbox";
 
 export interface CodeRunRequest {
   nodeId: string;
@@ -11,6 +16,13 @@ export interface CodeRunRequest {
     type: "object" | "string" | "number" | "array" | "boolean";
     requiredKeys?: string[];
   };
+  /** "vm" (default) runs in-process; "process" uses the child-process sandbox */
+  isolation?: "vm" | "process";
+  /** Worktree-relative paths the process sandbox may read/write (in addition to the worktree for reads) */
+  declaredPaths?: {
+    read?: string[];
+    write?: string[];
+  };
 }
 
 export interface CodeRunExecutionResult {
@@ -18,14 +30,33 @@ export interface CodeRunExecutionResult {
   rejectionCode?: "PLAN_MISSING_REQUIRED_FIELDS" | "PLAN_VERIFICATION_WEAK";
   reason?: string;
   value?: unknown;
+  /** Present for process isolation: captured output, exit status and exec'd commands */
+  processRun?: Omit<ChildProcessRunResult, "value">;
 }
 
-export async function executeCodeRun(request: CodeRunRequest): Promise<CodeRunExecutionResult> {
+export async function executeCodeRun(
+  request: CodeRunRequest,
+  options: {
+    /** Required for isolation="process"; timeoutMs/memoryCapMb come from the request */
+    processPolicy?: Omit<ChildProcessSandboxPolicy, "timeoutMs" | "memoryCapMb">;
+  } = {}
+): Promise<CodeRunExecutionResult> {
   const preflight = validatePreflight(request);
   if (!preflight.ok) {
     return preflight;
   }
 
+  if (request.isolation === "process") {
+    if (!options.processPolicy) {
+      return {
+        ok: false,
+        rejectionCode: "PLAN_MISSING_REQUIRED_FIELDS",
+        reason: "Process isolation requires a sandbox policy."
+      };
+    }
+    return executeInChildProcess(request, options.processPolicy);
+  }
+
   try {
     const value = await runAsyncIife({
       iife: request.iife,
@@ -57,6 +88,39 @@ export async function executeCodeRun(request: CodeRunRequest): Promise<CodeRunEx
   }
 }
 
+async function executeInChildProcess(
+  request: CodeRunRequest,
+  policy: Omit<ChildProcessSandboxPolicy, "timeoutMs" | "memoryCapMb">
+): Promise<CodeRunExecutionResult> {
+  const run = await runInChildProcess({
+    iife: request.iife,
+    context: request.declaredInputs,
+    policy: { ...policy, timeoutMs: request.timeoutMs, memoryCapMb: request.memoryCapMb }
+  });
+  const { value, ...processRun } = run;
+  if (!run.ok) {
+    return {
+      ok: false,
+      rejectionCode: "PLAN_VERIFICATION_WEAK",
+      reason: run.error ?? "CODE_RUN_FAILED",
+      processRun
+    };
+  }
+  const shape = validateReturnShape(value, request.expectedReturnShape);
+  if (!shape.ok) {
+    return { ...shape, processRun };
+  }
+  if (isPlaceholderOrNonSubstantive(value)) {
+    return {
+      ok: false,
+      rejectionCode: "PLAN_VERIFICATION_WEAK",
+      reason: "Code run returned placeholder or non-substantive result.",
+      processRun
+    };
+  }
+  return { ok: true, value, processRun };
+}
+
 function validatePreflight(request: CodeRunRequest): CodeRunExecutionResult {
   if (!request.iife.includes("(async () =>") || !request.iife.includes(")()")) {
     return {
@@ -1,5 +1,10 @@
+import path from "node:path";
+import { existsSync } from "node:fs";
+import { readFile } from "node:fs/promises";
 import type { GatewayConfig } from "../../config/types";
+import { resolveTargetRepoRoot } from "../../shared/fsPaths";
 import { replaceWithGuard } from "../../shared/replaceGuard";
+import { loadOpenApiSpecs, parseOpenApiDocument, parseOpenApiSource, type ApiSpecDocument, type ApiSpecLoadResult } from "../indexing/openApiParser";
 import { ConnectorKernel } from "./connectorKernel";
 
 export interface ConnectorArtifact {
@@ -9,8 +14,25 @@ export interface ConnectorArtifact {
   metadata: Record<string, unknown>;
 }
 
-export class ConnectorRegistry {
+export interface JiraCommentReceipt {
+  ref: string;
+  issueKey: string;
+  /** "placeholder" when jira.baseUrl is empty: nothing left the machine */
+  mode: "posted" | "placeholder";
+  commentId?: string;
+  traceRef?: string;
+  postedAt: string;
+}
+
+/** The slice of the registry side-effect drivers use; tests substitute their own. */
+export interface JiraCommentConnector {
+  postJiraComment(issueKey: string, body: string): Promise<JiraCommentReceipt>;
+}
+
+export class ConnectorRegistry implements JiraCommentConnector {
   private readonly kernel = new ConnectorKernel();
+  /** Specs parsed from registerSwaggerRef payloads, keyed by ref */
+  private readonly registeredSpecs = new Map<string, ApiSpecDocument>();
 
   constructor(private readonly config: GatewayConfig) {}
 
@@ -64,6 +86,40 @@ export class ConnectorRegistry {
     }
   }
 
+  async postJiraComment(issueKey: string, body: string): Promise<JiraCommentReceipt> {
+    const baseUrl = this.config.jira.baseUrl.trim();
+    if (!baseUrl) {
+      return { ref: `jira:${issueKey}#comment`, issueKey, mode: "placeholder", postedAt: new Date().toISOString() };
+    }
+
+    const pat = await this.kernel.readPatToken(this.config.jira.patFilePath);
+    try {
+      const sanitizedBaseUrl = replaceWithGuard(baseUrl, /\/$/, "", "ConnectorRegistry:postJiraComment:base-url");
+      const url = `${sanitizedBaseUrl}/rest/api/2/issue/${encodeURIComponent(issueKey)}/comment`;
+      const response = await this.kernel.fetchJson(url, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${pat}`,
+          Accept: "application/json",
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({ body })
+      });
+      const commentId = String((response.payload as { id?: unknown } | null)?.id ?? "");
+      return {
+        ref: `jira:${issueKey}#comment-${commentId}`,
+        issueKey,
+        mode: "posted",
+        commentId,
+        traceRef: response.traceRef,
+        postedAt: new Date().toISOString()
+      };
+    } catch (error) {
+      const normalized = this.kernel.normalizeError(error);
+      throw new Error(`${normalized.code}: ${normalized.message}`);
+    }
+  }
+
   async registerSwaggerRef(swaggerRef: string): Promise<ConnectorArtifact> {
     if (swaggerRef.startsWith("http://") || swaggerRef.startsWith("https://")) {
       try {
@@ -73,17 +129,19 @@ export class ConnectorRegistry {
             Accept: "application/json"
           }
         });
+        const spec = this.rememberSpec(swaggerRef, () => parseOpenApiDocument(response.payload, swaggerRef));
         return {
           source: "swagger",
           ref: `swagger:${swaggerRef}`,
-          summary: "Swagger artifact reference",
+          summary: spec ? `Swagger spec ${spec.title || swaggerRef} (${spec.endpoints.length} endpoints)` : "Swagger artifact reference",
           metadata: {
             swaggerRef,
             roots: this.config.swagger.roots,
             fetchedAt: new Date().toISOString(),
             traceRef: response.traceRef,
             cacheHit: response.cacheHit,
-            payload: response.payload
+            payload: response.payload,
+            ...(spec ? { openApi: summarizeSpec(spec) } : {})
           }
         };
       } catch (error) {
@@ -92,15 +150,58 @@ export class ConnectorRegistry {
       }
     }
 
+    // Local spec files are read relative to the target repo and parsed in place
+    const repoRoot = resolveTargetRepoRoot();
+    const specPath = path.resolve(repoRoot, swaggerRef);
+    const specFile = path.relative(repoRoot, specPath).replace(/\\/g, "/");
+    const source = existsSync(specPath) ? await readFile(specPath, "utf8").catch(() => null) : null;
+    const spec = source === null ? null : this.rememberSpec(swaggerRef, () => parseOpenApiSource(source, specFile));
     return {
       source: "swagger",
       ref: `swagger:${swaggerRef}`,
-      summary: "Swagger artifact reference",
+      summary: spec ? `Swagger spec ${spec.title || specFile} (${spec.endpoints.length} endpoints)` : "Swagger artifact reference",
       metadata: {
         swaggerRef,
         roots: this.config.swagger.roots,
-        fetchedAt: new Date().toISOString()
+        fetchedAt: new Date().toISOString(),
+        ...(spec ? { specFile, openApi: summarizeSpec(spec) } : {})
       }
     };
   }
+
+  /**
+   * Every OpenAPI spec known to this controller: files under
+   * `config.swagger.roots` plus specs parsed from registered Swagger refs.
+   */
+  async loadApiSpecs(): Promise<ApiSpecLoadResult> {
+    const loaded = await loadOpenApiSpecs(resolveTargetRepoRoot(), this.config.swagger.roots);
+    const known = new Set(loaded.specs.map((spec) => spec.specFile));
+    for (const spec of this.registeredSpecs.values()) {
+      if (!known.has(spec.specFile)) loaded.specs.push(spec);
+    }
+    return loaded;
+  }
+
+  /** Parse failures are non-fatal: the ref is still recorded, just without contract facts. */
+  private rememberSpec(swaggerRef: string, parse: () => ApiSpecDocument | null): ApiSpecDocument | null {
+    try {
+      const spec = parse();
+      if (spec) this.registeredSpecs.set(swaggerRef, spec);
+      return spec;
+    } catch {
+      return null;
+    }
+  }
+}
+
+function summarizeSpec(spec: ApiSpecDocument): Record<string, unknown> {
+  return {
+    title: spec.title,
+    version: spec.version,
+    specVersion: spec.specVersion,
+    basePath: spec.basePath,
+    endpointCount: spec.endpoints.length,
+    schemaCount: spec.schemas.length,
+    endpoints: spec.endpoints.slice(0, 50).map((endpoint) => `${endpoint.method} ${endpoint.fullPath}`),
+  };
 }
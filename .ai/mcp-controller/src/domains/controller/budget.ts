@@ -1,35 +1,209 @@
-import type { TurnRequest, TurnResponse } from "../../contracts/controller";
-import type { SessionState } from "./types";
-import { DEFAULT_BUDGET_THRESHOLD_PERCENT, DEFAULT_MAX_TOKENS } from "../../shared/constants";
+import type { RunState, TurnRequest, TurnResponse } from "../../contracts/controller";
+import type { SessionBudget, SessionState } from "./types";
+import { DEFAULT_CONFIG, type BudgetLimits, type GatewayConfig } from "../../config/types";
 
+export type BudgetConfig = GatewayConfig["budget"];
+
+/** Counts tokens in a serialized request or response. */
+export type TokenCounter = (text: string) => number;
+
+const BUILTIN_TOKEN_COUNTERS: Record<string, TokenCounter> = {
+  /** The historical estimate: four characters per token */
+  char_ratio: (text) => Math.ceil(text.length / 4),
+  /**
+   * Closer to BPE on code: letter runs cost one token per four characters,
+   * digit runs one per three, each punctuation mark one, and indentation or
+   * line breaks one per run (single spaces merge into the next word).
+   */
+  word_piece: (text) => {
+    let tokens = 0;
+    for (const piece of text.match(/[A-Za-z]+|[0-9]+|\s+|[^\sA-Za-z0-9]/g) ?? []) {
+      if (/^[A-Za-z]/.test(piece)) tokens += Math.ceil(piece.length / 4);
+      else if (/^[0-9]/.test(piece)) tokens += Math.ceil(piece.length / 3);
+      else if (/^\s/.test(piece)) tokens += piece === " " ? 0 : 1;
+      else tokens += 1;
+    }
+    return tokens;
+  },
+};
+
+const customTokenCounters = new Map<string, TokenCounter>();
+
+/** Add a token counter selectable through `budget.tokenizer`; built-in ids cannot be replaced. */
+export function registerTokenCounter(id: string, counter: TokenCounter): void {
+  if (id in BUILTIN_TOKEN_COUNTERS) {
+    throw new Error("PLAN_POLICY_VIOLATION");
+  }
+  customTokenCounters.set(id, counter);
+}
+
+export function clearTokenCounters(): void {
+  customTokenCounters.clear();
+}
+
+/** Unknown ids fall back to char_ratio so a typo never disables accounting. */
+export function resolveTokenCounter(id: string): { id: string; count: TokenCounter } {
+  const counter = BUILTIN_TOKEN_COUNTERS[id] ?? customTokenCounters.get(id);
+  return counter ? { id, count: counter } : { id: "char_ratio", count: BUILTIN_TOKEN_COUNTERS.char_ratio };
+}
+
+export function initialSessionBudget(config: BudgetConfig): SessionBudget {
+  return {
+    maxTokens: config.maxTokens,
+    thresholdPercent: config.thresholdPercent,
+    source: "config",
+    extensionTokens: 0,
+    warnedPercents: [],
+  };
+}
+
+/**
+ * Resolve the work item's limits after initialize_work: initialize_work args
+ * win over the strategy's configured limits, which win over the config
+ * defaults. Granted extensions and usage carry over. Returns the override
+ * fields that were ignored as invalid.
+ */
+export function applyWorkBudget(
+  session: SessionState,
+  config: BudgetConfig,
+  input: { strategyId?: string; override?: unknown }
+): { ignored: string[] } {
+  const budget = ensureSessionBudget(session, config);
+  const strategyLimits = input.strategyId ? config.strategies[input.strategyId] : undefined;
+  const ignored: string[] = [];
+  const override: BudgetLimits = {};
+  if (input.override && typeof input.override === "object" && !Array.isArray(input.override)) {
+    const raw = input.override as Record<string, unknown>;
+    if (raw.maxTokens !== undefined) {
+      if (typeof raw.maxTokens === "number" && Number.isFinite(raw.maxTokens) && raw.maxTokens > 0) override.maxTokens = raw.maxTokens;
+      else ignored.push("maxTokens");
+    }
+    if (raw.thresholdPercent !== undefined) {
+      if (typeof raw.thresholdPercent === "number" && raw.thresholdPercent > 0 && raw.thresholdPercent <= 1) override.thresholdPercent = raw.thresholdPercent;
+      else ignored.push("thresholdPercent");
+    }
+  }
+
+  budget.maxTokens = override.maxTokens ?? strategyLimits?.maxTokens ?? config.maxTokens;
+  budget.thresholdPercent = override.thresholdPercent ?? strategyLimits?.thresholdPercent ?? config.thresholdPercent;
+  budget.source = override.maxTokens !== undefined || override.thresholdPercent !== undefined
+    ? "initialize_work"
+    : strategyLimits ? "strategy" : "config";
+  return { ignored };
+}
+
+/** Charge the serialized request and report the budget the gate decides on. */
 export function consumeBudget(
   session: SessionState,
-  request: TurnRequest
+  request: TurnRequest,
+  config: BudgetConfig = DEFAULT_CONFIG.budget
 ): TurnResponse["budgetStatus"] {
-  session.usedTokens += estimateTokenCost(request);
-  const thresholdTokens = Math.floor(DEFAULT_MAX_TOKENS * DEFAULT_BUDGET_THRESHOLD_PERCENT);
-  return {
-    maxTokens: DEFAULT_MAX_TOKENS,
+  ensureSessionBudget(session, config);
+  const requestTokens = resolveTokenCounter(config.tokenizer).count(serializeRequest(request));
+  session.usedTokens += Math.max(1, requestTokens);
+  return budgetStatusFor(session, config, { requestTokens: Math.max(1, requestTokens), responseTokens: 0 });
+}
+
+/**
+ * Charge the response payload the agent receives (file contents, context
+ * packs, catalogs). The turn's `blocked` flag is kept: crossing the
+ * threshold here blocks the next turn, not this one.
+ */
+export function chargeResponse(session: SessionState, response: TurnResponse, config: BudgetConfig): void {
+  const counter = resolveTokenCounter(config.tokenizer);
+  let serialized = "";
+  try {
+    serialized = JSON.stringify(response);
+  } catch {
+    serialized = JSON.stringify(response.result ?? {});
+  }
+  const responseTokens = counter.count(serialized);
+  session.usedTokens += responseTokens;
+  const requestTokens = response.budgetStatus.lastTurn?.requestTokens ?? 0;
+  response.budgetStatus = {
+    ...budgetStatusFor(session, config, { requestTokens, responseTokens }),
+    blocked: response.budgetStatus.blocked,
+  };
+}
+
+export function budgetStatusFor(
+  session: SessionState,
+  config: BudgetConfig,
+  lastTurn?: { requestTokens: number; responseTokens: number }
+): TurnResponse["budgetStatus"] {
+  const budget = ensureSessionBudget(session, config);
+  const thresholdTokens = Math.floor(budget.maxTokens * budget.thresholdPercent) + budget.extensionTokens;
+  const status: TurnResponse["budgetStatus"] = {
+    maxTokens: budget.maxTokens + budget.extensionTokens,
     usedTokens: session.usedTokens,
     thresholdTokens,
     blocked: session.usedTokens >= thresholdTokens,
+    remainingTokens: Math.max(0, thresholdTokens - session.usedTokens),
+    tokenizer: resolveTokenCounter(config.tokenizer).id,
   };
+  if (lastTurn) status.lastTurn = lastTurn;
+  const crossed = crossedWarningPercents(session, config);
+  if (crossed.length > 0 && !status.blocked) {
+    const percent = Math.round((session.usedTokens / thresholdTokens) * 100);
+    status.warning = `Token budget at ${percent}% of the blocking threshold (${session.usedTokens}/${thresholdTokens}). Narrow reads, finish the current node, or call request_budget_extension before BLOCKED_BUDGET.`;
+  }
+  return status;
+}
+
+/** Warning fractions crossed since they were last reported; marks them reported. */
+export function takeNewBudgetWarnings(session: SessionState, config: BudgetConfig): number[] {
+  const budget = ensureSessionBudget(session, config);
+  const fresh = crossedWarningPercents(session, config).filter((percent) => !budget.warnedPercents.includes(percent));
+  budget.warnedPercents.push(...fresh);
+  return fresh;
+}
+
+/**
+ * Grant up to `requested` extra tokens within budget.maxExtensionTokens.
+ * Returns the tokens granted (0 when the allowance is spent).
+ */
+export function grantBudgetExtension(session: SessionState, config: BudgetConfig, requested: number): number {
+  const budget = ensureSessionBudget(session, config);
+  const granted = Math.max(0, Math.min(Math.floor(requested), config.maxExtensionTokens - budget.extensionTokens));
+  budget.extensionTokens += granted;
+  // Warnings re-arm relative to the raised threshold
+  budget.warnedPercents = budget.warnedPercents.filter((percent) => crossedWarningPercents(session, config).includes(percent));
+  return granted;
+}
+
+/** Remember where to resume once the session leaves BLOCKED_BUDGET. */
+export function noteBudgetBlock(session: SessionState, config: BudgetConfig, intendedState: RunState): void {
+  if (intendedState !== "BLOCKED_BUDGET") {
+    ensureSessionBudget(session, config).resumeState = intendedState;
+  }
 }
 
 export function isBudgetSafeVerb(verb: string): boolean {
-  return verb === "initialize_work" || verb === "escalate" || verb === "signal_task_complete";
+  return verb === "initialize_work" || verb === "escalate" || verb === "signal_task_complete" || verb === "request_budget_extension";
 }
 
-function estimateTokenCost(request: TurnRequest): number {
-  let serialized = "";
+function ensureSessionBudget(session: SessionState, config: BudgetConfig): SessionBudget {
+  if (!session.budget) {
+    session.budget = initialSessionBudget(config);
+  }
+  return session.budget;
+}
+
+function crossedWarningPercents(session: SessionState, config: BudgetConfig): number[] {
+  const budget = ensureSessionBudget(session, config);
+  const thresholdTokens = Math.floor(budget.maxTokens * budget.thresholdPercent) + budget.extensionTokens;
+  const ratio = thresholdTokens > 0 ? session.usedTokens / thresholdTokens : 1;
+  return config.warningPercents.filter((percent) => ratio >= percent).sort((a, b) => a - b);
+}
+
+function serializeRequest(request: TurnRequest): string {
   try {
-    serialized = JSON.stringify({
+    return JSON.stringify({
       verb: request.verb,
       originalPrompt: request.originalPrompt ?? "",
       args: request.args ?? {},
     });
   } catch {
-    serialized = request.verb;
+    return request.verb;
   }
-  return Math.max(1, Math.ceil(serialized.length / 4));
 }
@@ -0,0 +1,60 @@
+import type { VerbResult, SessionState } from "../types";
+import type { EventStore } from "../../observability/eventStore";
+import { budgetStatusFor, grantBudgetExtension, type BudgetConfig } from "../budget";
+
+/**
+ * request_budget_extension — raise the session's token threshold within
+ * budget.maxExtensionTokens. When the grant lifts a BLOCKED_BUDGET session
+ * back under its threshold, the session resumes the state it was blocked in.
+ */
+export async function handleRequestBudgetExtension(
+  args: Record<string, unknown> | undefined,
+  session: SessionState,
+  events: EventStore,
+  config: BudgetConfig
+): Promise<VerbResult> {
+  const denyReasons: string[] = [];
+  const result: Record<string, unknown> = {};
+
+  const requested = Number(args?.additionalTokens ?? 0);
+  const reason = String(args?.reason ?? "").trim();
+  if (!Number.isFinite(requested) || requested <= 0 || !reason) {
+    denyReasons.push("PLAN_MISSING_REQUIRED_FIELDS");
+    result.error = "request_budget_extension requires additionalTokens (a positive number) and reason (why the remaining work needs more tokens).";
+    result.missingFields = [!(Number.isFinite(requested) && requested > 0) && "additionalTokens", !reason && "reason"].filter(Boolean);
+    return { result, denyReasons };
+  }
+
+  const granted = grantBudgetExtension(session, config, requested);
+  const status = budgetStatusFor(session, config);
+  const extensionTokens = session.budget?.extensionTokens ?? 0;
+  result.budgetExtension = {
+    requested: Math.floor(requested),
+    granted,
+    remainingExtensionTokens: Math.max(0, config.maxExtensionTokens - extensionTokens),
+    thresholdTokens: status.thresholdTokens,
+    remainingTokens: status.remainingTokens,
+  };
+
+  await events.append({
+    ts: new Date().toISOString(),
+    type: "budget_extension",
+    runSessionId: session.runSessionId,
+    workId: session.workId,
+    agentId: session.agentId,
+    payload: { requested: Math.floor(requested), granted, reason, extensionTokens, usedTokens: session.usedTokens },
+  });
+
+  if (granted === 0) {
+    denyReasons.push("BUDGET_EXTENSION_DENIED");
+    result.error = `The extension allowance of ${config.maxExtensionTokens} tokens is spent. Finish with signal_task_complete, or hand the remaining nodes to a new session.`;
+    return { result, denyReasons };
+  }
+
+  if (session.state === "BLOCKED_BUDGET" && !status.blocked) {
+    const resumeState = session.budget?.resumeState
+      ?? (session.planGraph ? "PLAN_ACCEPTED" : session.contextPack ? "PLANNING" : "UNINITIALIZED");
+    return { result, denyReasons, stateOverride: resumeState };
+  }
+  return { result, denyReasons };
+}
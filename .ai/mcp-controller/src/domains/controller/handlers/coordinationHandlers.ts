@@ -0,0 +1,155 @@
+import type { VerbResult, SessionState } from "../types";
+import type { EventStore } from "../../observability/eventStore";
+import type { CoordinationConflict, WorkScopeCoordinator } from "../../coordination/workScopeCoordinator";
+import { asStringArray } from "../turnHelpers";
+
+/**
+ * Verbs that mutate under a plan node and therefore claim it first.
+ * run_automation_recipe claims in its handler, once its steps are expanded.
+ */
+export const COORDINATED_VERBS = [
+  "apply_code_patch",
+  "revert_code_patch",
+  "run_sandboxed_code",
+  "execute_gated_side_effect",
+] as const;
+
+/**
+ * Claim the plan node a mutation works under, and lease the files it may
+ * touch, before the verb handler runs. Returns a denial when a sibling agent
+ * holds the node or an overlapping lease; null when the call may proceed,
+ * including calls the handler will reject on its own (no plan, unknown node).
+ */
+export function claimForMutation(
+  verb: string,
+  args: Record<string, unknown> | undefined,
+  session: SessionState,
+  coordinator: WorkScopeCoordinator,
+  scopeKey: string
+): VerbResult | null {
+  if (!(COORDINATED_VERBS as readonly string[]).includes(verb) || !session.planGraph) return null;
+
+  const nodeId = String(args?.nodeId ?? args?.planNodeId ?? "").trim();
+  if (verb === "revert_code_patch" && !nodeId) {
+    const foreign = coordinator.snapshot(scopeKey).claims.filter((claim) => claim.agentId !== session.agentId);
+    if (foreign.length === 0) return null;
+    return {
+      result: {
+        error: `A plan-wide revert would undo nodes sibling agents are working on: [${foreign.map((claim) => `${claim.nodeId} (${claim.agentId})`).join(", ")}]. Revert your own nodes by nodeId, or wait until those nodes complete or are handed off.`,
+        coordinationConflict: foreign.map((claim) => ({ kind: "claim", nodeId: claim.nodeId, holderAgentId: claim.agentId, expiresAt: claim.expiresAt })),
+      },
+      denyReasons: ["EXEC_SIDE_EFFECT_COLLISION"],
+    };
+  }
+
+  return claimNodes([{ nodeId, targetFile: args?.targetFile, targetSymbols: args?.targetSymbols }], session, coordinator, scopeKey);
+}
+
+/**
+ * Claim every listed plan node with the leases it needs (the node's own
+ * target plus the file the call names), all or nothing: when one of them is
+ * held by a sibling nothing is taken and the denial names the conflict.
+ * Nodes that are not in the plan are skipped; their handler rejects them.
+ */
+export function claimNodes(
+  wanted: Array<{ nodeId: string; targetFile?: unknown; targetSymbols?: unknown }>,
+  session: SessionState,
+  coordinator: WorkScopeCoordinator,
+  scopeKey: string
+): VerbResult | null {
+  const requests: Array<{ agentId: string; nodeId: string; files: Array<{ file: string; symbols: string[] }> }> = [];
+  for (const entry of wanted) {
+    const node = session.planGraph?.nodes?.find((candidate) => candidate.nodeId === entry.nodeId);
+    if (!node) continue;
+    let request = requests.find((item) => item.nodeId === entry.nodeId);
+    if (!request) {
+      request = { agentId: session.agentId, nodeId: entry.nodeId, files: node.kind === "change" ? [{ file: node.targetFile, symbols: node.targetSymbols ?? [] }] : [] };
+      requests.push(request);
+    }
+    const targetFile = typeof entry.targetFile === "string" ? entry.targetFile.trim() : "";
+    if (targetFile && !request.files.some((file) => file.file === targetFile)) {
+      request.files.push({ file: targetFile, symbols: asStringArray(entry.targetSymbols) ?? [] });
+    }
+  }
+
+  for (const request of requests) {
+    const conflict = coordinator.conflictFor(scopeKey, request);
+    if (conflict) return coordinationDenial(request.nodeId, conflict);
+  }
+  for (const request of requests) {
+    const claimed = coordinator.acquire(scopeKey, request);
+    if (!claimed.ok) return coordinationDenial(request.nodeId, claimed.conflict);
+  }
+  return null;
+}
+
+function coordinationDenial(nodeId: string, conflict: CoordinationConflict): VerbResult {
+  return {
+    result: {
+      error: conflict.kind === "claim"
+        ? `Node '${nodeId}' is claimed by agent '${conflict.holderAgentId}' until ${conflict.expiresAt}. Work on another node, or ask that agent to pass it to you with handoff.`
+        : `File '${conflict.file}' is leased by agent '${conflict.holderAgentId}' for node '${conflict.nodeId}' until ${conflict.expiresAt}, and the symbols overlap. Wait until that node completes or work on another node.`,
+      coordinationConflict: conflict,
+    },
+    denyReasons: ["EXEC_SIDE_EFFECT_COLLISION"],
+  };
+}
+
+/**
+ * handoff — pass a plan node the caller has claimed, with its file leases,
+ * to another agent of the same work scope. The note is delivered in the
+ * recipient's next response under `coordination.handoffs`.
+ */
+export async function handleHandoff(
+  args: Record<string, unknown> | undefined,
+  session: SessionState,
+  coordinator: WorkScopeCoordinator,
+  scopeKey: string,
+  events: EventStore
+): Promise<VerbResult> {
+  const denyReasons: string[] = [];
+  const result: Record<string, unknown> = {};
+
+  const nodeId = String(args?.nodeId ?? "").trim();
+  const toAgentId = String(args?.toAgentId ?? "").trim();
+  const note = typeof args?.note === "string" && args.note.trim() ? args.note.trim() : undefined;
+  if (!nodeId || !toAgentId) {
+    denyReasons.push("PLAN_MISSING_REQUIRED_FIELDS");
+    result.error = "handoff requires nodeId (a plan node you have claimed) and toAgentId (the sibling agent taking it over). Add a note with what is done and what is left.";
+    result.missingFields = [!nodeId && "nodeId", !toAgentId && "toAgentId"].filter(Boolean);
+    return { result, denyReasons };
+  }
+  if (toAgentId === session.agentId) {
+    denyReasons.push("PLAN_SCOPE_VIOLATION");
+    result.error = "toAgentId is your own agentId. Hand the node to a different agent of this work item.";
+    return { result, denyReasons };
+  }
+  if (!session.planGraph?.nodes?.some((node) => node.nodeId === nodeId)) {
+    denyReasons.push("PLAN_SCOPE_VIOLATION");
+    result.error = `No node with nodeId='${nodeId}' exists in the accepted plan.`;
+    return { result, denyReasons };
+  }
+  if (session.planGraphProgress?.completedNodeIds.includes(nodeId)) {
+    denyReasons.push("PLAN_SCOPE_VIOLATION");
+    result.error = `Node '${nodeId}' is already completed; there is nothing to hand off.`;
+    return { result, denyReasons };
+  }
+
+  const outcome = coordinator.handoff(scopeKey, { nodeId, fromAgentId: session.agentId, toAgentId, note });
+  if (!outcome.ok) {
+    denyReasons.push("PLAN_SCOPE_VIOLATION");
+    result.error = outcome.reason;
+    return { result, denyReasons };
+  }
+
+  result.handoff = { nodeId, fromAgentId: session.agentId, toAgentId, expiresAt: outcome.claim.expiresAt };
+  await events.append({
+    ts: new Date().toISOString(),
+    type: "node_handoff",
+    runSessionId: session.runSessionId,
+    workId: session.workId,
+    agentId: session.agentId,
+    payload: { nodeId, toAgentId, note: note ?? "" },
+  });
+  return { result, denyReasons };
+}
@@ -71,7 +71,7 @@ export async function handleEscalate(
     for (const term of searchTerms) {
       // Symbol search — uses searchSymbol (not lookupSymbol which doesn't exist)
       try {
-        const symbolResults = deps.indexing.searchSymbol(term, 20);
+        const symbolResults = deps.indexing.searchSymbol(term, 20, session.worktree?.root);
         for (const match of symbolResults) {
           if (match.filePath && !addedFiles.includes(match.filePath)) {
             addedFiles.push(match.filePath);
@@ -86,7 +86,7 @@ export async function handleEscalate(
 
       // Text search — uses searchLexical (not grepLexeme which doesn't exist)
       try {
-        const lexicalResults = deps.indexing.searchLexical(term, 20);
+        const lexicalResults = deps.indexing.searchLexical(term, 20, {}, session.worktree?.root);
         for (const hit of lexicalResults) {
           const filePath = (hit as { filePath?: string }).filePath;
           if (filePath && !addedFiles.includes(filePath)) {
@@ -102,52 +102,7 @@ export async function handleEscalate(
   /* ── Monotonic pack growth via enrichContextPack (persists to disk) ── */
   const packRef = session.contextPack?.ref ?? "";
   const previousFiles = session.contextPack?.files ?? [];
-  const previousHash = session.contextPack?.hash ?? "";
-
-  let enrichResult: { contextPackHash: string; addedFiles: string[]; totalFiles: number; hashChanged: boolean };
-
-  if (packRef && addedFiles.length > 0) {
-    // Persist updated pack to disk via the enrichContextPack helper
-    try {
-      enrichResult = await enrichContextPack({
-        packRef,
-        newFiles: addedFiles,
-        newSymbols: addedSymbols,
-      });
-    } catch {
-      // If disk persistence fails, fall back to in-memory merge with canonical hash
-      const newFiles = addedFiles.filter((f) => !previousFiles.includes(f));
-      const mergedFiles = [...previousFiles, ...newFiles];
-      const canonicalPayload = JSON.stringify({ scope: { allowedFiles: mergedFiles.sort() } });
-      const newHash = computePackHash(canonicalPayload);
-      enrichResult = {
-        contextPackHash: newHash,
-        addedFiles: newFiles,
-        totalFiles: mergedFiles.length,
-        hashChanged: newHash !== previousHash,
-      };
-    }
-  } else {
-    // No pack ref or no files to add — compute in-memory delta with canonical hash
-    const newFiles = addedFiles.filter((f) => !previousFiles.includes(f));
-    const mergedFiles = [...previousFiles, ...newFiles];
-    const canonicalPayload = JSON.stringify({ scope: { allowedFiles: mergedFiles.sort() } });
-    const newHash = computePackHash(canonicalPayload);
-    enrichResult = {
-      contextPackHash: newHash,
-      addedFiles: newFiles,
-      totalFiles: mergedFiles.length,
-      hashChanged: newHash !== previousHash,
-    };
-  }
-
-  // Update session contextPack with merged result
-  const mergedFiles = [...previousFiles, ...enrichResult.addedFiles];
-  session.contextPack = {
-    ref: packRef || `pack:${session.workId}`,
-    hash: enrichResult.contextPackHash,
-    files: mergedFiles,
-  };
+  const enrichResult = await growContextPack(session, addedFiles, addedSymbols);
 
   /* ── Record escalation event ── */
   await deps.eventStore.append({
@@ -223,3 +178,71 @@ function asStringArray(value: unknown): string[] {
   if (typeof value === "string" && value.trim().length > 0) return [value];
   return [];
 }
+
+export interface ContextPackGrowth {
+  contextPackHash: string;
+  addedFiles: string[];
+  totalFiles: number;
+  hashChanged: boolean;
+}
+
+/**
+ * Merge files into session.contextPack (monotonic — never removes files),
+ * persisting through enrichContextPack() when the pack has a ref.
+ */
+export async function growContextPack(
+  session: SessionState,
+  addedFiles: string[],
+  addedSymbols: string[] = []
+): Promise<ContextPackGrowth> {
+  const packRef = session.contextPack?.ref ?? "";
+  const previousFiles = session.contextPack?.files ?? [];
+  const previousHash = session.contextPack?.hash ?? "";
+
+  let enrichResult: ContextPackGrowth;
+
+  if (packRef && addedFiles.length > 0) {
+    // Persist updated pack to disk via the enrichContextPack helper
+    try {
+      enrichResult = await enrichContextPack({
+        packRef,
+        newFiles: addedFiles,
+        newSymbols: addedSymbols,
+      });
+    } catch {
+      // If disk persistence fails, fall back to in-memory merge with canonical hash
+      const newFiles = addedFiles.filter((f) => !previousFiles.includes(f));
+      const mergedFiles = [...previousFiles, ...newFiles];
+      const canonicalPayload = JSON.stringify({ scope: { allowedFiles: mergedFiles.sort() } });
+      const newHash = computePackHash(canonicalPayload);
+      enrichResult = {
+        contextPackHash: newHash,
+        addedFiles: newFiles,
+        totalFiles: mergedFiles.length,
+        hashChanged: newHash !== previousHash,
+      };
+    }
+  } else {
+    // No pack ref or no files to add — compute in-memory delta with canonical hash
+    const newFiles = addedFiles.filter((f) => !previousFiles.includes(f));
+    const mergedFiles = [...previousFiles, ...newFiles];
+    const canonicalPayload = JSON.stringify({ scope: { allowedFiles: mergedFiles.sort() } });
+    const newHash = computePackHash(canonicalPayload);
+    enrichResult = {
+      contextPackHash: newHash,
+      addedFiles: newFiles,
+      totalFiles: mergedFiles.length,
+      hashChanged: newHash !== previousHash,
+    };
+  }
+
+  // Update session contextPack with merged result
+  const mergedFiles = [...previousFiles, ...enrichResult.addedFiles];
+  session.contextPack = {
+    ref: packRef || `pack:${session.workId}`,
+    hash: enrichResult.contextPackHash,
+    files: mergedFiles,
+  };
+
+  return enrichResult;
+}
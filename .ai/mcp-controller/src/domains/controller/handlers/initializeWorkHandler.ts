@@ -12,12 +12,14 @@ import { createHash } from "node:crypto";
 import { mkdirSync, existsSync, readdirSync, copyFileSync, statSync } from "node:fs";
 
 import type { VerbResult, SessionState } from "../types";
+import type { TurnOptions } from "../../../contracts/controller";
 import type { EventStore } from "../../observability/eventStore";
 import type { IndexingService } from "../../indexing/indexingService";
 import type { MemoryService } from "../../memory/memoryService";
 import type { ConnectorRegistry } from "../../connectors/connectorRegistry";
 import type { ProofChainBuilder } from "../../proof-chains/proofChainBuilder";
 import type { StrategySelection } from "../../strategy/strategySelector";
+import type { WorktreeManager } from "../../../infrastructure/git/worktreeManager";
 
 import { capabilitiesForState } from "../../capability-gating/capabilityMatrix";
 import { createContextPack } from "../../context-pack/contextPackService";
@@ -26,6 +28,7 @@ import { selectStrategy, selectStrategyFromSignature, recommendedSubAgentSplits
 import { listAllowedFiles } from "../../worktree-scope/worktreeScopeService";
 import { listPatchApplyOptions } from "../../patch-exec/patchExecService";
 import { computeEnforcementBundle, type GraphPolicyNode, type MigrationRuleNode } from "../../plan-graph/enforcementBundle";
+import { linkApiContracts, type ApiContractLinks, type ApiSpecDocument } from "../../indexing/openApiParser";
 import { resolveTargetRepoRoot, workRoot, scratchRoot } from "../../../shared/fsPaths";
 import { writeText } from "../../../shared/fileStore";
 import { verbDescriptionsForCapabilities } from "../../../shared/verbCatalog";
@@ -38,6 +41,27 @@ export interface InitializeWorkDeps {
   memoryService: MemoryService;
   connectors?: ConnectorRegistry;
   proofChainBuilder: ProofChainBuilder | null;
+  /** Creates the per-work checkout; null keeps reads and patches on the target repo */
+  worktrees?: WorktreeManager | null;
+  /** Receives a TurnProgress as each stage starts (MCP progress notifications) */
+  onProgress?: TurnOptions["onProgress"];
+}
+
+const TICKET_KEY_PATTERN = /[A-Z][A-Z0-9]+-\d+/;
+
+/** Stages reported through deps.onProgress, in order. */
+const INITIALIZE_STAGES = {
+  checkout: "Preparing the work checkout",
+  memories: "Loading memories for the touched anchors",
+  connectors: "Fetching Jira and Swagger context",
+  retrieval: "Searching the index for context",
+  context_pack: "Building the context pack",
+  response: "Assembling the response",
+} as const;
+
+function reportStage(deps: InitializeWorkDeps, stage: keyof typeof INITIALIZE_STAGES): void {
+  const stages = Object.keys(INITIALIZE_STAGES);
+  deps.onProgress?.({ stage, progress: stages.indexOf(stage) + 1, total: stages.length, message: INITIALIZE_STAGES[stage] });
 }
 
 export async function handleInitializeWork(
@@ -52,6 +76,7 @@ export async function handleInitializeWork(
   const lexemes = asStringArray(args?.lexemes) ?? [];
 
   /* ── 1. Create workspace directory ─────────────────────── */
+  reportStage(deps, "checkout");
   const workDir = workRoot(session.workId);
   try {
     mkdirSync(workDir, { recursive: true });
@@ -83,11 +108,37 @@ export async function handleInitializeWork(
     }
   }
 
+  /* ── 1d. Isolated checkout on a per-work branch (repo.isolation) ── */
+  let worktreeError: string | undefined;
+  if (deps.worktrees?.enabled) {
+    try {
+      const ticketKey = originalPrompt.match(TICKET_KEY_PATTERN)?.[0]
+        ?? lexemes.map((l) => l.match(TICKET_KEY_PATTERN)?.[0]).find(Boolean);
+      const worktree = await deps.worktrees.provision({ workId: session.workId, ticketKey });
+      if (worktree) {
+        session.worktree = worktree;
+        // A checkout recorded before a restart may already differ from the live repo
+        await deps.worktrees.changedFiles(worktree)
+          .then((files) => deps.indexing?.updateWorktreeFiles(worktree.root, files))
+          .catch(() => undefined);
+        await deps.eventStore.append({
+          ts: new Date().toISOString(), type: "worktree_provisioned",
+          runSessionId: session.runSessionId, workId: session.workId, agentId: session.agentId,
+          payload: { root: worktree.root, branch: worktree.branch, baseRef: worktree.baseRef, mode: worktree.mode, ...(worktree.fallbackReason ? { fallbackReason: worktree.fallbackReason } : {}) },
+        });
+      }
+    } catch (error) {
+      // Non-fatal, but the agent is told it is working on the live repo
+      worktreeError = error instanceof Error ? error.message : String(error);
+    }
+  }
+
   /* ── 2. Ingest override files FIRST (§4 line 196, §15 gotcha #3) ── */
+  reportStage(deps, "memories");
   await deps.memoryService.ingestOverrideFiles();
 
   /* ── 3. Query active memories SECOND ────────────────────── */
-  const worktreeRoot = resolveTargetRepoRoot();
+  const worktreeRoot = session.worktree?.root ?? resolveTargetRepoRoot();
   let scopeFiles = listAllowedFiles(session.workId, session.scopeAllowlist, worktreeRoot);
 
   // Derive anchor IDs properly using repo-relative paths
@@ -121,10 +172,10 @@ export async function handleInitializeWork(
   } : undefined;
 
   // Auto-fetch Jira if prompt/lexemes match ticket pattern (§4 lines 201-202)
+  reportStage(deps, "connectors");
   if (!jiraFields && deps.connectors) {
-    const ticketPattern = /[A-Z][A-Z0-9]+-\d+/;
-    const promptTicket = originalPrompt.match(ticketPattern)?.[0];
-    const lexemeTicket = lexemes.find((l) => ticketPattern.test(l));
+    const promptTicket = originalPrompt.match(TICKET_KEY_PATTERN)?.[0];
+    const lexemeTicket = lexemes.find((l) => TICKET_KEY_PATTERN.test(l));
     const ticketKey = promptTicket ?? lexemeTicket;
     if (ticketKey) {
       try {
@@ -189,6 +240,7 @@ export async function handleInitializeWork(
   const strategy = applyStrategySignalOverrides(baseStrategy, strategySignalMemories);
 
   /* ── 6. Build contextPack via retrieval lanes ──────────── */
+  reportStage(deps, "retrieval");
   const retrievalLanes = await collectRetrievalLanes({
     queryText: `${originalPrompt}\n${lexemes.join(" ")}`,
     symbolHints: asStringArray(args?.symbolHints) ?? [],
@@ -294,6 +346,26 @@ export async function handleInitializeWork(
     }
   }
 
+  // API-contract work anchors on parsed OpenAPI endpoints, the HttpClient call
+  // sites that hit them and the DTO symbols their schemas map to
+  let apiContracts: ApiContractAnchors | undefined;
+  if (strategy.strategyId === "api_contract_feature" && deps.connectors) {
+    try {
+      const loaded = await deps.connectors.loadApiSpecs();
+      const links = linkApiContracts(
+        loaded.specs,
+        deps.indexing?.getHttpClientCalls() ?? [],
+        deps.indexing?.getSymbolHeaders(5000) ?? [],
+      );
+      apiContracts = buildApiContractAnchors(loaded.specs, links);
+      const existingFiles = new Set(scopeFiles);
+      for (const file of apiContracts.files) {
+        if (!existingFiles.has(file)) scopeFiles.push(file);
+      }
+    } catch { /* spec load failures are non-fatal */ }
+  }
+
+  reportStage(deps, "context_pack");
   const packOutput = await createContextPack({
     runSessionId: session.runSessionId,
     workId: session.workId,
@@ -385,6 +457,7 @@ export async function handleInitializeWork(
   };
 
   /* ── 9. Build response ─────────────────────────────────── */
+  reportStage(deps, "response");
 
   // Warn if scope is empty — this means the pack has no files and reads will fail (#4 fix)
   if (scopeFiles.length === 0) {
@@ -457,6 +530,9 @@ export async function handleInitializeWork(
           isStructural: u.isStructural,
         }))
       : [],
+    ...(apiContracts
+      ? { apiContracts: { specs: apiContracts.specs, endpoints: apiContracts.endpoints, schemas: apiContracts.schemas } }
+      : {}),
   };
 
   if (packOutput.insufficiency) {
@@ -464,6 +540,25 @@ export async function handleInitializeWork(
   }
 
   result.planGraphSchema = planGraphSchema;
+  if (session.worktree) {
+    result.worktree = {
+      root: session.worktree.root,
+      branch: session.worktree.branch,
+      baseRef: session.worktree.baseRef,
+      mode: session.worktree.mode,
+      note: "Use root as planGraph.worktreeRoot. Reads, patches and sandboxed runs stay in this checkout; "
+        + "a side_effect node with sideEffectType='finalize' commits them to the branch for review.",
+      ...(session.worktree.fallbackReason
+        ? { warning: `No git worktree could be added, so the checkout is a standalone copy; its branch is not in the target repository. (${session.worktree.fallbackReason})` }
+        : {}),
+    };
+  } else if (worktreeError) {
+    result.worktree = {
+      isolated: false,
+      error: worktreeError,
+      note: "No isolated checkout could be created; patches will be written to the target repository.",
+    };
+  }
   result.strategy = {
     strategyId: strategy.strategyId,
     approach: describeApproach(strategy.strategyId),
@@ -531,7 +626,7 @@ function describeApproach(strategyId: string): string {
     case "debug_symptom_trace":
       return "Trace symptom to root cause via behavior chain, identify candidates, generate targeted validation";
     case "api_contract_feature":
-      return "Anchor on Swagger endpoints and DTO symbol mappings, validate contract conformance";
+      return "Anchor on contextPack.apiContracts endpoints (OpenAPI operations, their HttpClient call sites and mapped DTO symbols), validate contract conformance";
     case "ui_aggrid_feature":
     default:
       return "Build origin proof chain for component, separate layer concerns, validate with shadow-aware hooks";
@@ -552,6 +647,64 @@ function describeEscalationGuidance(strategyId: string): string {
   }
 }
 
+interface ApiContractAnchors {
+  specs: Array<{ specFile: string; title: string; version: string; endpointCount: number }>;
+  endpoints: Array<{
+    method: string;
+    path: string;
+    operationId: string;
+    specFile: string;
+    requestSchema: string | null;
+    responseSchemas: string[];
+    callSites: Array<{ filePath: string; line: number; className: string | null; memberName: string | null }>;
+  }>;
+  schemas: Array<{ name: string; specFile: string; properties: string[]; symbols: Array<{ symbol: string; filePath: string; match: string }> }>;
+  /** Call-site, DTO and local spec files to add to the pack scope */
+  files: string[];
+}
+
+/** Summarize linked specs for the context pack: endpoints with call sites first, 100 of each at most. */
+function buildApiContractAnchors(specs: ApiSpecDocument[], links: ApiContractLinks): ApiContractAnchors {
+  const endpoints = specs.flatMap((spec) => spec.endpoints.map((endpoint) => {
+    const callSites = links.endpointCalls
+      .filter((link) => link.specFile === spec.specFile && link.endpoint === endpoint)
+      .map((link) => ({ filePath: link.call.filePath, line: link.call.line, className: link.call.className, memberName: link.call.memberName }));
+    return {
+      method: endpoint.method,
+      path: endpoint.fullPath,
+      operationId: endpoint.operationId,
+      specFile: spec.specFile,
+      requestSchema: endpoint.requestSchema,
+      responseSchemas: endpoint.responses.flatMap((response) => (response.schema ? [response.schema] : [])),
+      callSites,
+    };
+  }));
+  endpoints.sort((a, b) => Number(b.callSites.length > 0) - Number(a.callSites.length > 0));
+
+  const schemas = specs.flatMap((spec) => spec.schemas.map((schema) => ({
+    name: schema.name,
+    specFile: spec.specFile,
+    properties: schema.properties.map((property) => `${property.name}${property.required ? "" : "?"}: ${property.type}`),
+    symbols: links.schemaSymbols
+      .filter((link) => link.specFile === spec.specFile && link.schema === schema.name)
+      .map((link) => ({ symbol: link.symbol.symbol, filePath: link.symbol.filePath, match: link.match })),
+  })));
+
+  const repoRoot = resolveTargetRepoRoot();
+  const files = new Set<string>([
+    ...links.endpointCalls.map((link) => link.call.filePath),
+    ...links.schemaSymbols.map((link) => link.symbol.filePath),
+    ...specs.filter((spec) => !/^https?:\/\//i.test(spec.specFile)).map((spec) => path.resolve(repoRoot, spec.specFile)),
+  ]);
+
+  return {
+    specs: specs.map((spec) => ({ specFile: spec.specFile, title: spec.title, version: spec.version, endpointCount: spec.endpoints.length })),
+    endpoints: endpoints.slice(0, 100),
+    schemas: schemas.slice(0, 100),
+    files: [...files],
+  };
+}
+
 function extractChainSeed(
   args: Record<string, unknown> | undefined,
   lexemes: string[],
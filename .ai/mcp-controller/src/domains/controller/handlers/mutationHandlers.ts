@@ -1,13 +1,32 @@
+import path from "node:path";
+import { realpath } from "node:fs/promises";
 import type { RunState } from "../../../contracts/controller";
+import type { GatewayConfig } from "../../../config/types";
 import type { VerbResult, SessionState } from "../types";
+import type { ChangePlanNode, ValidatePlanNode } from "../../../contracts/planGraph";
 import { canExecuteMutation } from "../../capability-gating/capabilityMatrix";
 import { CollisionGuard, type IntendedEffectSet } from "../../patch-exec/collisionGuard";
 import { codemodCitationToken } from "../../patch-exec/astCodemodCatalog";
 import { applyStructuredPatch, type PatchApplyRequest } from "../../patch-exec/patchExecService";
-import { executeCodeRun } from "../../code-run/codeRunService";
+import { PatchJournal } from "../../patch-exec/patchJournal";
+import type { IndexingService } from "../../indexing/indexingService";
+import { executeCodeRun, type CodeRunRequest } from "../../code-run/codeRunService";
+import { commandArgv, isCommandAllowed, scrubEnv, type ChildProcessSandboxPolicy, type SandboxCommandRecord } from "../../../infrastructure/vm/childProcessSandbox";
+import { resolveVerificationHooks, runVerificationHooks, type VerificationHookOutcome } from "../../verification/verificationHookRegistry";
 import { scopeAllowsFile, scopeAllowsSymbols } from "../../worktree-scope/worktreeScopeService";
-import { writeArtifactBundle } from "../../../shared/artifacts";
+import { resolveRunOutputDir, writeArtifactBundle, writeRunOutputArtifacts } from "../../../shared/artifacts";
+import { ensureDir, writeText } from "../../../shared/fileStore";
+import { normalizeSafePath, resolveRepoRoot, workRoot } from "../../../shared/fsPaths";
 import { traceRef } from "../../../shared/ids";
+import {
+  SideEffectLedger,
+  loadSideEffectPayload,
+  sideEffectDenial,
+  sideEffectIdempotencyKey,
+  type SideEffectContext,
+  type SideEffectDriverRegistry,
+  type SideEffectOutcome,
+} from "../../side-effects/sideEffectRegistry";
 import { isInPack } from "./readHandlers";
 import {
   parsePatchApplyRequest,
@@ -35,6 +54,23 @@ function markNodeCompleted(session: SessionState, nodeId: string): void {
   markEligibleValidateNodes(session);
 }
 
+/**
+ * Return reverted nodes to "not completed". Validate nodes mapping to any of
+ * them lose both completed and eligible status, since what they validated is gone.
+ */
+export function markNodesIncomplete(session: SessionState, nodeIds: string[]): void {
+  const progress = session.planGraphProgress;
+  if (!progress) return;
+  const reverted = new Set(nodeIds);
+  for (const node of session.planGraph?.nodes ?? []) {
+    if (node.kind !== "validate") continue;
+    if (node.mapsToNodeIds.some((id) => reverted.has(id))) reverted.add(node.nodeId);
+  }
+  progress.completedNodeIds = progress.completedNodeIds.filter((id) => !reverted.has(id));
+  progress.completedNodes = progress.completedNodeIds.length;
+  progress.eligibleValidateNodeIds = progress.eligibleValidateNodeIds.filter((id) => !reverted.has(id));
+}
+
 /**
  * Attach an advisory to the result if there are validate nodes now eligible for explicit validation.
  * Agents must call `run_sandboxed_code` with the validate nodeId to complete them.
@@ -43,7 +79,7 @@ function attachValidateAdvisory(session: SessionState, result: Record<string, un
   const eligible = session.planGraphProgress?.eligibleValidateNodeIds ?? [];
   if (eligible.length > 0) {
     result.pendingValidation = {
-      message: "Validate nodes are eligible. Run run_sandboxed_code with each validate nodeId to complete them.",
+      message: "Validate nodes are eligible. Run run_sandboxed_code with each validate nodeId to complete them; their verification hooks must pass.",
       eligibleValidateNodeIds: [...eligible],
     };
   }
@@ -55,7 +91,7 @@ function attachValidateAdvisory(session: SessionState, result: Record<string, un
  * marked "eligible" — the agent must explicitly run validation via
  * `run_sandboxed_code` referencing the validate nodeId to complete them.
  */
-function markEligibleValidateNodes(session: SessionState): void {
+export function markEligibleValidateNodes(session: SessionState): void {
   if (!session.planGraph?.nodes || !session.planGraphProgress) return;
   const completed = new Set(session.planGraphProgress.completedNodeIds);
   const eligible = new Set(session.planGraphProgress.eligibleValidateNodeIds);
@@ -77,7 +113,8 @@ export async function handlePatchApply(
   args: Record<string, unknown> | undefined,
   session: SessionState,
   collisionGuard: CollisionGuard,
-  state: RunState
+  state: RunState,
+  indexing: IndexingService | null = null
 ): Promise<VerbResult> {
   const denyReasons: string[] = [];
   const result: Record<string, unknown> = {};
@@ -93,7 +130,7 @@ export async function handlePatchApply(
   const request = parsePatchApplyRequest(args);
   if (!request) {
     denyReasons.push("PLAN_MISSING_REQUIRED_FIELDS");
-    result.error = "patch_apply requires args: { nodeId: string, targetFile: string, targetSymbols: string[], operation: 'replace_text'|'ast_codemod', find?: string, replace?: string, codemodId?: string, codemodParams?: object }. Check that all required fields are non-empty strings.";
+    result.error = "patch_apply requires args: { nodeId: string, targetFile: string, targetSymbols: string[], operation: 'replace_text'|'unified_diff'|'ast_codemod', find?: string, replace?: string, diff?: string, codemodId?: string, codemodParams?: object }. Check that all required fields are non-empty strings.";
     result.missingFields = ["nodeId", "targetFile", "targetSymbols", "operation"];
     return { result, denyReasons };
   }
@@ -167,7 +204,61 @@ export async function handlePatchApply(
       worktreeRoot: session.planGraph.worktreeRoot,
       request,
       approvedNode: node,
+      journal: new PatchJournal(session.workId),
+      migrationRules: session.enforcementBundle?.migrationRules,
+      // Multi-file codemods: every extra file gets the same pack/scope/collision checks as targetFile
+      authorizeFile: (file) => {
+        if (!isInPack(file, session)) {
+          return { ok: false, rejectionCode: "PACK_SCOPE_VIOLATION", reason: `File '${file}' is not in the current context pack. Add it via escalate before patching.` };
+        }
+        const extraFileScope = scopeAllowsFile({
+          workId: session.workId,
+          targetFile: file,
+          worktreeRoot: session.planGraph!.worktreeRoot,
+          allowlist: session.scopeAllowlist,
+        });
+        if (!extraFileScope.ok) {
+          return { ok: false, rejectionCode: extraFileScope.rejectionCode ?? "PLAN_SCOPE_VIOLATION", reason: extraFileScope.reason ?? "File out of scope." };
+        }
+        const extraSymbolScope = scopeAllowsSymbols({
+          targetFile: file,
+          requestedSymbols: request.targetSymbols,
+          allowlist: session.scopeAllowlist,
+        });
+        if (!extraSymbolScope.ok) {
+          return { ok: false, rejectionCode: extraSymbolScope.rejectionCode ?? "PLAN_SCOPE_VIOLATION", reason: extraSymbolScope.reason ?? "Symbols out of scope." };
+        }
+        const extraCollision = collisionGuard.check({
+          sessionKey: collisionScopeKey,
+          operationId: `patch:${request.nodeId}`,
+          effects: { files: [file], symbols: [], graphMutations: [], externalSideEffects: [] },
+          approvedExternalGates: approvedCommitGates(session.planGraph!),
+        });
+        return extraCollision.ok ? { ok: true } : { ok: false, rejectionCode: extraCollision.rejectionCode, reason: extraCollision.reason };
+      },
+      // Reserved only once every extra file passed, so a rejected codemod holds nothing beyond targetFile
+      reserveFiles: (files) => {
+        const reserved = collisionGuard.assertAndReserve({
+          sessionKey: collisionScopeKey,
+          operationId: `patch:${request.nodeId}`,
+          effects: { files, symbols: [], graphMutations: [], externalSideEffects: [] },
+          approvedExternalGates: approvedCommitGates(session.planGraph!),
+        });
+        return reserved.ok ? { ok: true } : { ok: false, rejectionCode: reserved.rejectionCode, reason: reserved.reason };
+      },
     });
+    if (patchResult.scopeViolations && patchResult.scopeViolations.length > 0) {
+      denyReasons.push(patchResult.scopeViolations[0].rejectionCode);
+      result.patchApplyError = `${patchResult.scopeViolations.length} file(s) touched by ${request.operation === "ast_codemod" ? request.codemodId : request.operation} are outside this node's scope. No changes were written.`;
+      result.scopeViolations = patchResult.scopeViolations;
+      return { result, denyReasons };
+    }
+    if (patchResult.rejectedHunks && patchResult.rejectedHunks.length > 0) {
+      denyReasons.push("PLAN_VERIFICATION_WEAK");
+      result.patchApplyError = `${patchResult.rejectedHunks.length} hunk(s) did not match '${request.targetFile}'. No changes were written. Re-read the file and regenerate the diff against its current content.`;
+      result.rejectedHunks = patchResult.rejectedHunks;
+      return { result, denyReasons };
+    }
     const trace = traceRef();
     const bundle = await writeArtifactBundle({
       workId: session.workId,
@@ -175,7 +266,7 @@ export async function handlePatchApply(
       nodeId: request.nodeId,
       operation: "apply_code_patch",
       result: { ...patchResult },
-      opLog: `apply_code_patch ${request.targetFile} replacements=${patchResult.replacements}`,
+      opLog: `apply_code_patch ${request.targetFile} replacements=${patchResult.replacements}${patchResult.files ? ` files=${patchResult.files.length}` : ""}`,
       traceRefs: [trace],
       validation: {
         nodeId: request.nodeId,
@@ -188,7 +279,9 @@ export async function handlePatchApply(
         changed: patchResult.changed,
         replacements: patchResult.replacements,
         lineDelta: patchResult.lineDelta,
+        files: patchResult.files,
       },
+      migrationReport: patchResult.migrationReport ? { ...patchResult.migrationReport } : undefined,
     });
 
     result.patchApply = {
@@ -196,7 +289,15 @@ export async function handlePatchApply(
       artifactBundleRef: bundle.bundleDir,
       resultRef: bundle.resultRef,
       diffSummaryRef: bundle.diffSummaryRef,
+      ...(bundle.migrationReportRef ? { migrationReportRef: bundle.migrationReportRef } : {}),
     };
+    // Re-index what was written so lookups don't see pre-patch content
+    await reindexWrittenFiles(
+      indexing,
+      session,
+      (patchResult.files?.map((file) => file.targetFile) ?? [patchResult.targetFile])
+        .map((file) => path.resolve(session.planGraph!.worktreeRoot, file))
+    );
     markNodeCompleted(session, request.nodeId);
     attachValidateAdvisory(session, result);
     return { result, denyReasons, stateOverride: "PLAN_ACCEPTED" };
@@ -208,12 +309,79 @@ export async function handlePatchApply(
   }
 }
 
+export async function handleRevertPatch(
+  collisionScopeKey: string,
+  args: Record<string, unknown> | undefined,
+  session: SessionState,
+  collisionGuard: CollisionGuard,
+  state: RunState,
+  indexing: IndexingService | null = null
+): Promise<VerbResult> {
+  const denyReasons: string[] = [];
+  const result: Record<string, unknown> = {};
+
+  if (!canExecuteMutation(state) || !session.planGraph) {
+    denyReasons.push("PLAN_SCOPE_VIOLATION");
+    result.error = !session.planGraph
+      ? "No plan has been submitted yet. revert_code_patch only rolls back edits made by apply_code_patch under an accepted plan. Current state: " + state
+      : `Current state '${state}' does not allow mutations. revert_code_patch requires state PLAN_ACCEPTED.`;
+    return { result, denyReasons };
+  }
+
+  const nodeId = typeof args?.nodeId === "string" && args.nodeId.trim().length > 0 ? args.nodeId.trim() : undefined;
+  if (nodeId && !findChangeNode(session.planGraph, nodeId)) {
+    denyReasons.push("PLAN_SCOPE_VIOLATION");
+    result.error = `No 'change' node with nodeId='${nodeId}' exists in the accepted plan. Omit nodeId to revert every journaled edit in the plan.`;
+    return { result, denyReasons };
+  }
+
+  try {
+    const outcome = await new PatchJournal(session.workId).revert({ nodeId });
+    if (!outcome.ok) {
+      denyReasons.push(outcome.rejectionCode);
+      result.revertError = outcome.reason;
+      if (outcome.conflicts) result.conflicts = outcome.conflicts;
+      return { result, denyReasons };
+    }
+
+    const bundle = await writeArtifactBundle({
+      workId: session.workId,
+      runSessionId: session.runSessionId,
+      nodeId: nodeId ?? "plan",
+      operation: "revert_code_patch",
+      result: { ...outcome },
+      opLog: `revert_code_patch scope=${nodeId ? "node" : "plan"} entries=${outcome.revertedEntryIds.length} files=${outcome.restoredFiles.length}`,
+      traceRefs: [traceRef()],
+      validation: { scope: nodeId ? "node" : "plan", nodeId, hashesChecked: true },
+    });
+
+    await reindexWrittenFiles(indexing, session, outcome.restoredFiles.map((file) => file.absolutePath));
+    markNodesIncomplete(session, outcome.revertedNodeIds);
+    // The reverted edits are gone, so their file/symbol reservations must not block other nodes
+    collisionGuard.release(collisionScopeKey, outcome.revertedNodeIds.map((id) => `patch:${id}`));
+    result.revertPatch = {
+      scope: nodeId ? "node" : "plan",
+      revertedNodeIds: outcome.revertedNodeIds,
+      revertedEntryIds: outcome.revertedEntryIds,
+      restoredFiles: outcome.restoredFiles.map((file) => file.targetFile),
+      artifactBundleRef: bundle.bundleDir,
+    };
+    return { result, denyReasons, stateOverride: "PLAN_ACCEPTED" };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "REVERT_FAILED";
+    result.revertError = message;
+    denyReasons.push(isRejectionCode(message) ? message : "PLAN_VERIFICATION_WEAK");
+    return { result, denyReasons };
+  }
+}
+
 export async function handleCodeRun(
   collisionScopeKey: string,
   args: Record<string, unknown> | undefined,
   session: SessionState,
   collisionGuard: CollisionGuard,
-  state: RunState
+  state: RunState,
+  sandboxConfig: GatewayConfig["sandbox"]
 ): Promise<VerbResult> {
   const denyReasons: string[] = [];
   const result: Record<string, unknown> = {};
@@ -236,7 +404,7 @@ export async function handleCodeRun(
 
   // #7: Verify nodeId exists in the accepted plan as a change or validate node
   const planNode = session.planGraph!.nodes?.find(
-    (n: any) => n.nodeId === request.nodeId && (n.kind === "change" || n.kind === "validate")
+    (n): n is ChangePlanNode | ValidatePlanNode => n.nodeId === request.nodeId && (n.kind === "change" || n.kind === "validate")
   );
   if (!planNode) {
     denyReasons.push("PLAN_SCOPE_VIOLATION");
@@ -244,6 +412,14 @@ export async function handleCodeRun(
     return { result, denyReasons };
   }
 
+  try {
+    resolveRunOutputDir({ workId: session.workId, runSessionId: session.runSessionId, nodeId: request.nodeId, artifactOutputRef: request.artifactOutputRef });
+  } catch {
+    denyReasons.push("PLAN_SCOPE_VIOLATION");
+    result.error = `artifactOutputRef '${request.artifactOutputRef}' must resolve inside the run's artifact directory.`;
+    return { result, denyReasons };
+  }
+
   const externalSideEffects = asStringArray(args?.externalSideEffects) ?? [];
   const collision = collisionGuard.assertAndReserve({
     sessionKey: collisionScopeKey,
@@ -262,12 +438,58 @@ export async function handleCodeRun(
     return { result, denyReasons };
   }
 
-  const execution = await executeCodeRun(request);
+  // The configured isolation is a floor: a request may ask for "process" but never relax it to "vm"
+  const isolation = request.isolation === "process" ? "process" : sandboxConfig.defaultIsolation;
+  let processPolicy: Omit<ChildProcessSandboxPolicy, "timeoutMs" | "memoryCapMb"> | undefined;
+  if (isolation === "process") {
+    try {
+      processPolicy = await buildProcessPolicy(session, request, hooksForNode(session, planNode), sandboxConfig);
+    } catch (error) {
+      denyReasons.push("PLAN_SCOPE_VIOLATION");
+      result.codeRunError = `declaredPaths must stay inside the worktree (${error instanceof Error ? error.message : String(error)}).`;
+      return { result, denyReasons };
+    }
+  }
+
+  const execution = await executeCodeRun({ ...request, isolation }, { processPolicy });
+  const outputs = await writeRunOutputArtifacts({
+    workId: session.workId,
+    runSessionId: session.runSessionId,
+    nodeId: request.nodeId,
+    artifactOutputRef: request.artifactOutputRef,
+    files: {
+      "value.json": JSON.stringify(execution.value ?? null, null, 2),
+      "stdout.log": execution.processRun?.stdout ?? "",
+      "stderr.log": execution.processRun?.stderr ?? "",
+      "commands.json": JSON.stringify(execution.processRun?.commands ?? [], null, 2),
+    },
+  });
+  const failedCommands = (execution.processRun?.commands ?? []).filter((command) => command.exitCode !== 0);
   if (!execution.ok) {
     denyReasons.push(execution.rejectionCode ?? "PLAN_VERIFICATION_WEAK");
     result.codeRunError = execution.reason;
+    result.codeRunOutputRef = outputs.outputDir;
+    return { result, denyReasons };
+  }
+  // A validate node only passes when every check it ran actually passed
+  if (planNode.kind === "validate" && failedCommands.length > 0) {
+    denyReasons.push("PLAN_VERIFICATION_WEAK");
+    result.codeRunError = `Verification command(s) failed: ${failedCommands.map((command) => `${command.command} (exit ${command.exitCode})`).join(", ")}.`;
+    result.codeRunOutputRef = outputs.outputDir;
     return { result, denyReasons };
   }
+  let verification: VerificationHookOutcome[] | undefined;
+  if (planNode.kind === "validate") {
+    verification = await verifyValidateNode(session, planNode, execution.processRun?.commands ?? [], sandboxConfig);
+    result.verificationHooks = verification;
+    const failedHooks = verification.filter((outcome) => !outcome.ok);
+    if (failedHooks.length > 0) {
+      denyReasons.push("PLAN_VERIFICATION_WEAK");
+      result.codeRunError = `Verification hook(s) did not pass: ${failedHooks.map((outcome) => outcome.hook).join(", ")}. The validate node stays incomplete.`;
+      result.codeRunOutputRef = outputs.outputDir;
+      return { result, denyReasons };
+    }
+  }
 
   const trace = traceRef();
   const bundle = await writeArtifactBundle({
@@ -275,34 +497,157 @@ export async function handleCodeRun(
     runSessionId: session.runSessionId,
     nodeId: request.nodeId,
     operation: "run_sandboxed_code",
-    result: { artifactOutputRef: request.artifactOutputRef, value: execution.value },
-    opLog: `run_sandboxed_code node=${request.nodeId} timeoutMs=${request.timeoutMs}`,
+    result: { artifactOutputRef: request.artifactOutputRef, value: execution.value, outputRefs: outputs.refs },
+    opLog: `run_sandboxed_code node=${request.nodeId} isolation=${isolation} timeoutMs=${request.timeoutMs}`,
     traceRefs: [trace],
     validation: {
       preflight: "passed",
       expectedReturnShape: request.expectedReturnShape,
       artifactOutputRef: request.artifactOutputRef,
+      isolation,
+      fsPolicyEnforced: execution.processRun?.fsPolicyEnforced,
+      commands: execution.processRun?.commands.map((command) => ({ command: command.command, exitCode: command.exitCode })),
+      verificationHooks: verification?.map((outcome) => ({ hook: outcome.hook, ok: outcome.ok, summary: outcome.summary })),
     },
   });
 
   result.codeRun = {
     preflight: "accepted",
+    isolation,
     artifactOutputRef: request.artifactOutputRef,
     artifactBundleRef: bundle.bundleDir,
     resultRef: bundle.resultRef,
+    outputRef: outputs.outputDir,
     valueSummary: summarizeValue(execution.value),
+    ...(execution.processRun
+      ? {
+          exitCode: execution.processRun.exitCode,
+          durationMs: execution.processRun.durationMs,
+          fsPolicyEnforced: execution.processRun.fsPolicyEnforced,
+          commands: execution.processRun.commands.map((command) => ({ command: command.command, exitCode: command.exitCode })),
+        }
+      : {}),
   };
   markNodeCompleted(session, request.nodeId);
   attachValidateAdvisory(session, result);
   return { result, denyReasons, stateOverride: "PLAN_ACCEPTED" };
 }
 
+/**
+ * Re-index files a patch or revert wrote: into the session checkout's overlay
+ * when the work item has one, else the live index. The write already landed,
+ * so an index hiccup must not turn it into a failure.
+ */
+async function reindexWrittenFiles(indexing: IndexingService | null, session: SessionState, files: string[]): Promise<void> {
+  if (!indexing) return;
+  const update = session.worktree ? indexing.updateWorktreeFiles(session.worktree.root, files) : indexing.updateFiles(files);
+  await update.catch(() => undefined);
+}
+
+/**
+ * Hooks a node must satisfy. A validate node inherits the hooks of the change
+ * nodes it maps to, so a check declared on a change is actually run.
+ */
+export function hooksForNode(session: SessionState, planNode: ChangePlanNode | ValidatePlanNode): string[] {
+  const own = planNode.verificationHooks ?? [];
+  if (planNode.kind !== "validate") return own;
+  const mapped = new Set(planNode.mapsToNodeIds ?? []);
+  const inherited = (session.planGraph?.nodes ?? [])
+    .filter((node): node is ChangePlanNode | ValidatePlanNode => mapped.has(node.nodeId) && (node.kind === "change" || node.kind === "validate"))
+    .flatMap((node) => node.verificationHooks ?? []);
+  return [...new Set([...own, ...inherited].map((hook) => hook.trim()).filter(Boolean))];
+}
+
+/**
+ * Command hooks the process sandbox may exec: the plan only narrows the
+ * operator's `sandbox.allowedCommands`, it can never add to it.
+ */
+export function sandboxCommandsFor(hooks: string[], sandboxConfig: GatewayConfig["sandbox"]): string[] {
+  return resolveVerificationHooks(hooks).commands.filter((hook) => isCommandAllowed(commandArgv(hook), sandboxConfig.allowedCommands));
+}
+
+/**
+ * Run a validate node's hooks. Registered `hook:<id>` runners execute here
+ * against the files the mapped change nodes touched; command hooks only pass
+ * when they are configured in `sandbox.allowedCommands` and the run exec'd
+ * that exact command with exit 0.
+ */
+async function verifyValidateNode(
+  session: SessionState,
+  planNode: ValidatePlanNode,
+  commands: SandboxCommandRecord[],
+  sandboxConfig: GatewayConfig["sandbox"]
+): Promise<VerificationHookOutcome[]> {
+  const hooks = hooksForNode(session, planNode);
+  const mapped = new Set(planNode.mapsToNodeIds ?? []);
+  const changedFiles = new Set<string>();
+  for (const node of session.planGraph?.nodes ?? []) {
+    if (node.kind === "change" && mapped.has(node.nodeId)) changedFiles.add(node.targetFile);
+  }
+  for (const entry of await new PatchJournal(session.workId).activeEntries()) {
+    if (mapped.has(entry.nodeId)) changedFiles.add(entry.targetFile);
+  }
+  const outcomes = await runVerificationHooks(hooks, {
+    worktreeRoot: session.planGraph!.worktreeRoot,
+    changedFiles: [...changedFiles].map((file) => file.replace(/\\/g, "/")),
+  });
+  const runnable = new Set(sandboxCommandsFor(hooks, sandboxConfig));
+  for (const hook of resolveVerificationHooks(hooks).commands) {
+    const runs = commands.filter((command) => isCommandAllowed(commandArgv(command.command), [hook]));
+    const passed = runnable.has(hook) && runs.some((command) => command.exitCode === 0);
+    outcomes.push({
+      hook,
+      hookId: "command",
+      ok: passed,
+      summary: !runnable.has(hook)
+        ? "Command is not in sandbox.allowedCommands, so the sandbox cannot run it."
+        : passed
+          ? "Command ran in the process sandbox and exited 0."
+          : runs.length > 0
+            ? `Command exited ${runs[runs.length - 1].exitCode}.`
+            : "Command was not run. Use run_sandboxed_code with isolation=\"process\" and exec() it.",
+      diagnostics: [],
+    });
+  }
+  return outcomes;
+}
+
+/**
+ * Policy for the child-process sandbox: reads are rooted at the worktree,
+ * writes are limited to declared paths plus a per-node temp dir, and only the
+ * plan node's command hooks that the config allows may be exec'd.
+ */
+async function buildProcessPolicy(
+  session: SessionState,
+  request: CodeRunRequest,
+  verificationHooks: string[],
+  sandboxConfig: GatewayConfig["sandbox"]
+): Promise<Omit<ChildProcessSandboxPolicy, "timeoutMs" | "memoryCapMb">> {
+  const worktreeRoot = path.resolve(session.planGraph!.worktreeRoot);
+  const tmpDir = path.join(workRoot(session.workId), "sandbox-tmp", request.nodeId);
+  await ensureDir(tmpDir);
+  const declaredReads = (request.declaredPaths?.read ?? []).map((item) => normalizeSafePath(worktreeRoot, item));
+  const declaredWrites = (request.declaredPaths?.write ?? []).map((item) => normalizeSafePath(worktreeRoot, item));
+  const extraReads = sandboxConfig.extraReadPaths.map((item) => path.resolve(resolveRepoRoot(), item));
+  // The checkout links the target's node_modules; the permission model checks the link's real path
+  const linkedDependencies = session.worktree ? await realpath(path.join(session.worktree.root, "node_modules")).catch(() => null) : null;
+  return {
+    worktreeRoot,
+    readPaths: [worktreeRoot, ...declaredReads, ...extraReads, ...(linkedDependencies ? [linkedDependencies] : [])],
+    writePaths: [...declaredWrites, tmpDir],
+    allowedModules: sandboxConfig.allowedModules,
+    allowedCommands: sandboxCommandsFor(verificationHooks, sandboxConfig),
+    env: scrubEnv(sandboxConfig.envAllowlist, { TMPDIR: tmpDir, TMP: tmpDir, TEMP: tmpDir }),
+  };
+}
+
 export async function handleSideEffect(
   collisionScopeKey: string,
   args: Record<string, unknown> | undefined,
   session: SessionState,
   collisionGuard: CollisionGuard,
-  state: RunState
+  state: RunState,
+  drivers: SideEffectDriverRegistry | null = null
 ): Promise<VerbResult> {
   const denyReasons: string[] = [];
   const result: Record<string, unknown> = {};
@@ -352,6 +697,82 @@ export async function handleSideEffect(
     return { result, denyReasons };
   }
 
+  const driver = drivers?.get(node.sideEffectType);
+  if (!driver) {
+    denyReasons.push("EXEC_SIDE_EFFECT_FAILED");
+    result.sideEffectError = `No driver performs sideEffectType='${node.sideEffectType}'. Available types: [${(drivers?.list() ?? []).map((item) => item.type).join(", ")}]. Nothing was changed.`;
+    return { result, denyReasons };
+  }
+
+  let loaded: Awaited<ReturnType<typeof loadSideEffectPayload>>;
+  try {
+    loaded = await loadSideEffectPayload(session.workId, node.sideEffectPayloadRef, args?.payload);
+  } catch (error) {
+    const denial = sideEffectDenial(error);
+    denyReasons.push(denial.code);
+    result.sideEffectError = denial.reason;
+    return { result, denyReasons };
+  }
+  const { payload, source: payloadSource } = loaded;
+  const context: SideEffectContext = {
+    workId: session.workId,
+    runSessionId: session.runSessionId,
+    nodeId,
+    planGraph: session.planGraph,
+    worktree: session.worktree ?? null,
+    payload,
+  };
+  const idempotencyKey = String(args?.idempotencyKey ?? "").trim()
+    || sideEffectIdempotencyKey({ workId: session.workId, nodeId, sideEffectType: driver.type, payload });
+  const ledger = new SideEffectLedger(session.workId);
+  const previous = await ledger.read(idempotencyKey);
+  // A key only replays the effect it was recorded for; reusing it for another node or type is denied
+  if (previous && (previous.nodeId !== nodeId || previous.sideEffectType !== driver.type)) {
+    denyReasons.push("EXEC_SIDE_EFFECT_COLLISION");
+    result.sideEffectError = `idempotencyKey '${idempotencyKey}' already recorded ${previous.sideEffectType} for node '${previous.nodeId}'. Omit idempotencyKey or use one of this node's own.`;
+    return { result, denyReasons };
+  }
+
+  /* ── dryRun: preview only; nothing changes and the node stays open ── */
+  if (args?.dryRun === true) {
+    try {
+      const preview = await driver.preview(context);
+      result.sideEffect = { dryRun: true, sideEffectType: driver.type, idempotencyKey, alreadyApplied: Boolean(previous), payloadSource, ...preview };
+      return { result, denyReasons };
+    } catch (error) {
+      const denial = sideEffectDenial(error);
+      denyReasons.push(denial.code);
+      result.sideEffectError = `${driver.type} preview failed: ${denial.reason}`;
+      return { result, denyReasons };
+    }
+  }
+
+  /* ── A key that already ran replays its recorded outcome instead of acting twice ── */
+  if (previous) {
+    result.sideEffect = {
+      accepted: true,
+      replayed: true,
+      sideEffectType: previous.sideEffectType,
+      idempotencyKey,
+      artifactBundleRef: previous.artifactBundleRef,
+      summary: previous.summary,
+      outcome: previous.outcome,
+    };
+    markNodeCompleted(session, nodeId);
+    attachValidateAdvisory(session, result);
+    return { result, denyReasons, stateOverride: "PLAN_ACCEPTED" };
+  }
+
+  let outcome: SideEffectOutcome;
+  try {
+    outcome = await driver.execute(context);
+  } catch (error) {
+    const denial = sideEffectDenial(error);
+    denyReasons.push(denial.code);
+    result.sideEffectError = `${driver.type} failed: ${denial.reason}`;
+    return { result, denyReasons };
+  }
+
   const trace = traceRef();
   const bundle = await writeArtifactBundle({
     workId: session.workId,
@@ -361,14 +782,42 @@ export async function handleSideEffect(
     result: {
       sideEffectType: node.sideEffectType,
       sideEffectPayloadRef: node.sideEffectPayloadRef,
+      payloadSource,
+      payload,
       commitGateId: node.commitGateId,
+      idempotencyKey,
+      summary: outcome.summary,
+      outcome: outcome.detail,
     },
-    opLog: `execute_gated_side_effect node=${nodeId} gate=${gateId}`,
+    opLog: `execute_gated_side_effect node=${nodeId} gate=${gateId} type=${driver.type} key=${idempotencyKey}`,
     traceRefs: [trace],
-    validation: { sideEffectNode: true, commitGateChecked: true },
+    validation: { sideEffectNode: true, commitGateChecked: true, driver: driver.type, idempotencyKey, outcome: "applied" },
+  });
+  const recordedOutcome: Record<string, unknown> = { ...outcome.detail };
+  for (const artifact of outcome.artifacts ?? []) {
+    const ref = path.join(bundle.bundleDir, artifact.fileName);
+    await writeText(ref, artifact.content);
+    recordedOutcome[artifact.key] = ref;
+  }
+  await ledger.record({
+    idempotencyKey,
+    sideEffectType: driver.type,
+    nodeId,
+    runSessionId: session.runSessionId,
+    executedAt: new Date().toISOString(),
+    artifactBundleRef: bundle.bundleDir,
+    summary: outcome.summary,
+    outcome: recordedOutcome,
   });
 
-  result.sideEffect = { accepted: true, artifactBundleRef: bundle.bundleDir };
+  result.sideEffect = {
+    accepted: true,
+    sideEffectType: driver.type,
+    idempotencyKey,
+    artifactBundleRef: bundle.bundleDir,
+    summary: outcome.summary,
+    outcome: recordedOutcome,
+  };
   markNodeCompleted(session, nodeId);
   attachValidateAdvisory(session, result);
   return { result, denyReasons, stateOverride: "PLAN_ACCEPTED" };
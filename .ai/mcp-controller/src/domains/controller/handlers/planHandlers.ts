@@ -1,14 +1,20 @@
 import type { RunState } from "../../../contracts/controller";
-import type { PlanGraphDocument } from "../../../contracts/planGraph";
+import { DEFAULT_CONFIG, type GatewayConfig } from "../../../config/types";
+import type { PlanGraphDocument, PlanNode, ValidatePlanNode } from "../../../contracts/planGraph";
+import type { MemoryRecord } from "../../../contracts/memoryRecord";
 import type { VerbResult, SessionState } from "../types";
-import { validatePlanGraph } from "../../plan-graph/planGraphValidator";
+import { validatePlanGraph, type ValidationResult } from "../../plan-graph/planGraphValidator";
 import type { MemoryService } from "../../memory/memoryService";
-import { loadScopeAllowlist } from "../../worktree-scope/worktreeScopeService";
+import type { EventStore } from "../../observability/eventStore";
+import { loadScopeAllowlist, scopeAllowsFile } from "../../worktree-scope/worktreeScopeService";
 import { repoSnapshotId } from "../../../infrastructure/git/repoSnapshot";
 import { normalizeSafePath, scratchRoot } from "../../../shared/fsPaths";
 import { writeText } from "../../../shared/fileStore";
-import { validatePlanWorktreeRoot } from "../turnHelpers";
+import { asStringArray, validatePlanWorktreeRoot } from "../turnHelpers";
 import { computePackHash } from "../../context-pack/contextPackService";
+import { resolveVerificationHooks } from "../../verification/verificationHookRegistry";
+import { hooksForNode, markEligibleValidateNodes, markNodesIncomplete, sandboxCommandsFor } from "./mutationHandlers";
+import { growContextPack } from "./escalateHandler";
 
 /**
  * Maps each plan rejection code to a concrete, actionable fix instruction.
@@ -41,11 +47,88 @@ function planRejectionFix(code: string): string {
   }
 }
 
+/**
+ * Active memories anchored on the plan's target files; their plan rules take
+ * part in validation. Memory query failures are non-fatal.
+ */
+async function activeMemoriesFor(planGraph: PlanGraphDocument, memoryService?: MemoryService): Promise<MemoryRecord[]> {
+  if (!memoryService) return [];
+  try {
+    // Derive anchor IDs from plan's target files
+    const targetFiles = planGraph.nodes
+      .filter((n): n is import("../../../contracts/planGraph").ChangePlanNode => n.kind === "change")
+      .map((n) => n.targetFile);
+    const anchorIds = [...new Set(targetFiles.map((f) => {
+      const parts = f.replace(/\\/g, "/").split("/");
+      return parts.length > 1 ? `anchor:${parts.slice(0, 2).join("/")}` : `anchor:${parts[0]}`;
+    }))];
+    return await memoryService.findActiveForAnchors(anchorIds);
+  } catch {
+    return [];
+  }
+}
+
+/** Copy a failed validation into the result: error summary, per-code fixes, failed memory rules and graph policies. */
+function describeRejection(validation: ValidationResult, result: Record<string, unknown>, denyReasons: string[]): void {
+  denyReasons.push(...validation.rejectionCodes);
+  result.error = `Plan rejected: ${validation.rejectionCodes.length} issue(s). See result.fixes for what to change.`;
+  result.fixes = validation.rejectionCodes.map((code) => ({
+    code,
+    fix: planRejectionFix(code),
+  }));
+  if (validation.memoryRuleResults?.some((r) => !r.satisfied)) {
+    result.failedMemoryRules = validation.memoryRuleResults
+      .filter((r) => !r.satisfied)
+      .map((r) => ({ memoryId: r.memoryId, condition: r.condition, denyCode: r.denyCode }));
+  }
+  if (validation.graphPolicyResults?.some((r) => !r.satisfied)) {
+    result.failedGraphPolicies = validation.graphPolicyResults
+      .filter((r) => !r.satisfied)
+      .map((r) => ({ sourceNodeId: r.sourceNodeId, condition: r.condition, denyCode: r.denyCode }));
+  }
+}
+
+/**
+ * Command hooks (no `hook:` prefix) only pass when run_sandboxed_code exec's
+ * them in a child process, and only if `sandbox.allowedCommands` lists them.
+ * Under a "vm" default the agent has to ask for `isolation: "process"` on
+ * those validate nodes, so say both up front.
+ */
+function attachCommandHookWarning(session: SessionState, sandboxConfig: GatewayConfig["sandbox"], result: Record<string, unknown>): void {
+  const nodes = (session.planGraph?.nodes ?? [])
+    .filter((node): node is ValidatePlanNode => node.kind === "validate")
+    .map((node) => ({ nodeId: node.nodeId, commands: resolveVerificationHooks(hooksForNode(session, node)).commands }))
+    .filter((entry) => entry.commands.length > 0);
+  const disallowed = nodes
+    .map((entry) => {
+      const runnable = new Set(sandboxCommandsFor(entry.commands, sandboxConfig));
+      return { nodeId: entry.nodeId, commands: entry.commands.filter((command) => !runnable.has(command)) };
+    })
+    .filter((entry) => entry.commands.length > 0);
+  if (disallowed.length > 0) {
+    result.disallowedCommandHooks = {
+      message: "These command hooks are not in sandbox.allowedCommands, so exec() refuses them and the validate nodes cannot pass. Use hook:<id> checks or an allowed command.",
+      nodes: disallowed,
+    };
+  }
+  if (sandboxConfig.defaultIsolation === "process" || nodes.length === 0) return;
+  result.commandHookWarning = {
+    message: "These validate nodes have command hooks, which only pass when exec()'d by run_sandboxed_code with isolation=\"process\". The configured default is \"vm\"; pass isolation: \"process\" when running them.",
+    nodes,
+  };
+}
+
+/** Nodes that count toward progress (escalate nodes do not). */
+function countActionableNodes(nodes: PlanNode[]): number {
+  return nodes.filter((n) => n.kind === "change" || n.kind === "validate" || n.kind === "side_effect").length;
+}
+
 export async function handleSubmitPlan(
   args: Record<string, unknown> | undefined,
   session: SessionState,
   currentState: RunState,
   memoryService?: MemoryService,
+  sandboxConfig: GatewayConfig["sandbox"] = DEFAULT_CONFIG.sandbox,
 ): Promise<VerbResult> {
   const denyReasons: string[] = [];
   const result: Record<string, unknown> = {};
@@ -59,44 +142,14 @@ export async function handleSubmitPlan(
   }
 
   // Query active memories for plan rule validation [REF:MEMORY-PLAN-RULES]
-  let activeMemories: import("../../../contracts/memoryRecord").MemoryRecord[] = [];
-  if (memoryService) {
-    try {
-      // Derive anchor IDs from plan's target files
-      const targetFiles = planGraph.nodes
-        .filter((n): n is import("../../../contracts/planGraph").ChangePlanNode => n.kind === "change")
-        .map((n) => n.targetFile);
-      const anchorIds = [...new Set(targetFiles.map((f) => {
-        const parts = f.replace(/\\/g, "/").split("/");
-        return parts.length > 1 ? `anchor:${parts.slice(0, 2).join("/")}` : `anchor:${parts[0]}`;
-      }))];
-      activeMemories = await memoryService.findActiveForAnchors(anchorIds);
-    } catch {
-      // Memory query failures are non-fatal
-    }
-  }
+  const activeMemories = await activeMemoriesFor(planGraph, memoryService);
 
   // Use enforcement bundle computed during initialize_work (now a proper SessionState field)
   const enforcementBundle = session.enforcementBundle;
 
   const validation = validatePlanGraph(planGraph, activeMemories, enforcementBundle);
   if (!validation.ok) {
-    denyReasons.push(...validation.rejectionCodes);
-    result.error = `Plan rejected: ${validation.rejectionCodes.length} issue(s). See result.fixes for what to change.`;
-    result.fixes = validation.rejectionCodes.map((code) => ({
-      code,
-      fix: planRejectionFix(code),
-    }));
-    if (validation.memoryRuleResults?.some((r) => !r.satisfied)) {
-      result.failedMemoryRules = validation.memoryRuleResults
-        .filter((r) => !r.satisfied)
-        .map((r) => ({ memoryId: r.memoryId, condition: r.condition, denyCode: r.denyCode }));
-    }
-    if (validation.graphPolicyResults?.some((r) => !r.satisfied)) {
-      result.failedGraphPolicies = validation.graphPolicyResults
-        .filter((r) => !r.satisfied)
-        .map((r) => ({ sourceNodeId: r.sourceNodeId, condition: r.condition, denyCode: r.denyCode }));
-    }
+    describeRejection(validation, result, denyReasons);
     return { result, denyReasons, stateOverride: "PLANNING" };
   }
 
@@ -132,7 +185,7 @@ export async function handleSubmitPlan(
     result.agentIdNote = `Plan submitted by agent '${planGraph.agentId}' into session owned by '${session.agentId}'. This is allowed for sub-agent collaboration.`;
   }
 
-  const worktreeCheck = validatePlanWorktreeRoot(planGraph.worktreeRoot, session.workId);
+  const worktreeCheck = validatePlanWorktreeRoot(planGraph.worktreeRoot, session.workId, session.worktree?.root);
   if (!worktreeCheck.ok) {
     denyReasons.push("PLAN_SCOPE_VIOLATION");
     result.planValidationError = worktreeCheck.reason;
@@ -143,21 +196,162 @@ export async function handleSubmitPlan(
   session.scopeAllowlist = await loadScopeAllowlist(planGraph.scopeAllowlistRef);
 
   // Initialize progress tracking (Architecture v2 §8)
-  const actionableNodes = planGraph.nodes.filter(
-    (n: { kind: string }) => n.kind === "change" || n.kind === "validate" || n.kind === "side_effect"
-  );
   session.planGraphProgress = {
-    totalNodes: actionableNodes.length,
+    totalNodes: countActionableNodes(planGraph.nodes),
     completedNodes: 0,
     completedNodeIds: [],
     eligibleValidateNodeIds: [],
   };
+  session.planRevision = (session.planRevision ?? 0) + 1;
 
   result.planValidation = "passed";
+  result.planRevision = session.planRevision;
   result.repoSnapshotId = await repoSnapshotId();
+  attachCommandHookWarning(session, sandboxConfig, result);
   return { result, denyReasons, stateOverride: "PLAN_ACCEPTED" };
 }
 
+/**
+ * amend_execution_plan — revise the accepted plan with a delta instead of a
+ * full resubmission: `addNodes`, `removeNodeIds`, and `updateNodes` entries
+ * changing `targetSymbols` (change nodes), `mapsToNodeIds` (validate nodes) or
+ * `dependsOn`. Only added and updated nodes are re-validated; graph integrity
+ * is checked across the whole plan. Untouched nodes keep their completion
+ * state, while updated nodes (and validate nodes mapping to them) reopen.
+ * `baseRevision`, when given, must match the current plan revision so an agent
+ * cannot amend over a sibling's amendment it has not seen.
+ */
+export async function handleAmendPlan(
+  args: Record<string, unknown> | undefined,
+  session: SessionState,
+  events: EventStore,
+  memoryService?: MemoryService,
+  sandboxConfig: GatewayConfig["sandbox"] = DEFAULT_CONFIG.sandbox,
+): Promise<VerbResult> {
+  const denyReasons: string[] = [];
+  const result: Record<string, unknown> = {};
+
+  const plan = session.planGraph;
+  const progress = session.planGraphProgress;
+  if (!plan || !progress) {
+    denyReasons.push("PLAN_SCOPE_VIOLATION");
+    result.error = "There is no accepted plan to amend. Submit one with submit_execution_plan first.";
+    return { result, denyReasons };
+  }
+
+  const reason = String(args?.reason ?? "").trim();
+  const addNodes = Array.isArray(args?.addNodes) ? args.addNodes as PlanNode[] : [];
+  const removeNodeIds = asStringArray(args?.removeNodeIds) ?? [];
+  const updateNodes = Array.isArray(args?.updateNodes) ? args.updateNodes as Array<Record<string, unknown>> : [];
+  if (!reason || addNodes.length + removeNodeIds.length + updateNodes.length === 0) {
+    denyReasons.push("PLAN_MISSING_REQUIRED_FIELDS");
+    result.error = "amend_execution_plan requires reason (why the plan changes) and a non-empty delta: addNodes (full plan nodes), removeNodeIds, and/or updateNodes ({ nodeId, targetSymbols?, mapsToNodeIds?, dependsOn? }).";
+    result.missingFields = [!reason && "reason", addNodes.length + removeNodeIds.length + updateNodes.length === 0 && "addNodes|removeNodeIds|updateNodes"].filter(Boolean);
+    return { result, denyReasons };
+  }
+
+  const revision = session.planRevision ?? 1;
+  result.planRevision = revision;
+  if (args?.baseRevision !== undefined && Number(args.baseRevision) !== revision) {
+    denyReasons.push("PLAN_SCOPE_VIOLATION");
+    result.error = `baseRevision ${String(args.baseRevision)} is stale: the plan is at revision ${revision}, so another agent has amended it. Rebuild the delta against the current plan.`;
+    return { result, denyReasons };
+  }
+
+  const existing = new Set(plan.nodes.map((node) => node.nodeId));
+  const updateIds = updateNodes.map((update) => String(update.nodeId ?? ""));
+  const unknown = [...removeNodeIds, ...updateIds].filter((nodeId) => !existing.has(nodeId));
+  if (unknown.length > 0) {
+    denyReasons.push("PLAN_SCOPE_VIOLATION");
+    result.error = `Unknown nodeIds in removeNodeIds/updateNodes: [${unknown.join(", ")}]. Plan nodes: [${[...existing].join(", ")}].`;
+    return { result, denyReasons };
+  }
+  const completedRemovals = removeNodeIds.filter((nodeId) => progress.completedNodeIds.includes(nodeId));
+  if (completedRemovals.length > 0) {
+    denyReasons.push("PLAN_SCOPE_VIOLATION");
+    result.error = `Nodes [${completedRemovals.join(", ")}] are already completed. Undo them with revert_code_patch before removing them from the plan.`;
+    return { result, denyReasons };
+  }
+
+  // The allowlist was approved with the plan; an amendment may only add targets inside it
+  const addedTargets = [...new Set(addNodes.flatMap((node) => node.kind === "change" ? [node.targetFile] : []))];
+  const outOfScope = addedTargets.filter((targetFile) => !scopeAllowsFile({
+    workId: session.workId,
+    targetFile,
+    worktreeRoot: plan.worktreeRoot,
+    allowlist: session.scopeAllowlist,
+  }).ok);
+  if (outOfScope.length > 0) {
+    denyReasons.push("PLAN_SCOPE_VIOLATION");
+    result.error = `Added change nodes target files outside the approved scope allowlist: [${outOfScope.join(", ")}]. Amendments cannot widen the allowlist; get the files approved and resubmit the plan with an updated scopeAllowlistRef.`;
+    result.outOfScopeFiles = outOfScope;
+    return { result, denyReasons };
+  }
+
+  const removed = new Set(removeNodeIds);
+  const touched = new Set<string>();
+  const nodes: PlanNode[] = plan.nodes
+    .filter((node) => !removed.has(node.nodeId))
+    .map((node) => {
+      const update = updateNodes.find((candidate) => candidate.nodeId === node.nodeId);
+      if (!update) return node;
+      touched.add(node.nodeId);
+      const dependsOn = asStringArray(update.dependsOn) ?? node.dependsOn;
+      if (node.kind === "change") return { ...node, dependsOn, targetSymbols: asStringArray(update.targetSymbols) ?? node.targetSymbols };
+      if (node.kind === "validate") return { ...node, dependsOn, mapsToNodeIds: asStringArray(update.mapsToNodeIds) ?? node.mapsToNodeIds };
+      return { ...node, dependsOn };
+    });
+  for (const node of addNodes) {
+    nodes.push(node);
+    touched.add(node.nodeId);
+  }
+
+  const amended: PlanGraphDocument = { ...plan, nodes };
+  const validation = validatePlanGraph(amended, await activeMemoriesFor(amended, memoryService), session.enforcementBundle, { onlyNodeIds: touched });
+  result.revalidatedNodeIds = [...touched];
+  if (!validation.ok) {
+    describeRejection(validation, result, denyReasons);
+    result.error = `Amendment rejected: ${validation.rejectionCodes.length} issue(s); the plan is unchanged at revision ${revision}. See result.fixes for what to change.`;
+    return { result, denyReasons };
+  }
+
+  const completedBefore = [...progress.completedNodeIds];
+  session.planGraph = amended;
+  progress.completedNodeIds = progress.completedNodeIds.filter((nodeId) => !removed.has(nodeId));
+  progress.eligibleValidateNodeIds = progress.eligibleValidateNodeIds.filter((nodeId) => !removed.has(nodeId));
+  markNodesIncomplete(session, updateIds);
+  progress.totalNodes = countActionableNodes(nodes);
+  markEligibleValidateNodes(session);
+  session.planRevision = revision + 1;
+
+  // Added targets already passed the allowlist; pack them so they are patchable
+  const packGrowth = addedTargets.length > 0 ? await growContextPack(session, addedTargets) : null;
+
+  const amendment = {
+    planRevision: session.planRevision,
+    added: addNodes.map((node) => node.nodeId),
+    removed: removeNodeIds,
+    updated: updateIds,
+    reopenedNodeIds: completedBefore.filter((nodeId) => !removed.has(nodeId) && !progress.completedNodeIds.includes(nodeId)),
+    addedPackFiles: packGrowth?.addedFiles ?? [],
+    contextPackHash: session.contextPack?.hash,
+  };
+  result.planValidation = "passed";
+  result.planRevision = session.planRevision;
+  result.amendment = amendment;
+  attachCommandHookWarning(session, sandboxConfig, result);
+
+  await events.append({
+    ts: new Date().toISOString(),
+    type: "plan_amended",
+    runSessionId: session.runSessionId,
+    workId: session.workId,
+    agentId: session.agentId,
+    payload: { ...amendment, reason, revalidatedNodeIds: [...touched] },
+  });
+  return { result, denyReasons };
+}
+
 export async function handleWriteTmp(
   workId: string,
   args: Record<string, unknown> | undefined
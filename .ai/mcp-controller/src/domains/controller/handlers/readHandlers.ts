@@ -2,6 +2,7 @@ import path from "node:path";
 import { readdirSync, statSync } from "node:fs";
 import type { VerbResult, SessionState } from "../types";
 import type { IndexingService } from "../../indexing/indexingService";
+import { DEPENDENCY_RELATIONS, type DependencyRelation } from "../../indexing/dependencyGraph";
 import type { MemoryService } from "../../memory/memoryService";
 import { MEMORY_CONFIG } from "../../memory/config";
 import { readText } from "../../../shared/fileStore";
@@ -9,6 +10,7 @@ import { normalizeSafePath, resolveTargetRepoRoot } from "../../../shared/fsPath
 import {
   scopeAllowsFile,
 } from "../../worktree-scope/worktreeScopeService";
+import { sessionWorktreeRoot } from "../turnHelpers";
 
 /** Like normalizeSafePath but allows the directory to equal the root itself. */
 function normalizeSafeDir(root: string, relativeTarget: string): string {
@@ -110,7 +112,7 @@ export async function handleReadRange(
     return { result, denyReasons };
   }
 
-  const readRoot = session.planGraph?.worktreeRoot ?? resolveTargetRepoRoot();
+  const readRoot = sessionWorktreeRoot(session);
   const scopeCheck = scopeAllowsFile({
     workId: session.workId,
     targetFile,
@@ -162,7 +164,7 @@ export async function handleReadSymbol(
   }
 
   const limit = Math.max(1, Number(args?.limit ?? 12));
-  let matches = indexing.searchSymbol(symbol, limit);
+  let matches = indexing.searchSymbol(symbol, limit, session?.worktree?.root);
 
   // Pack-scope filter: only return symbols from contextPack files
   if (session?.contextPack) {
@@ -208,7 +210,17 @@ export async function handleGrepLexeme(
   }
 
   const limit = Math.max(1, Number(args?.limit ?? 20));
-  let hits = indexing.searchLexical(query, limit);
+  const include = globList(args?.include);
+  const exclude = globList(args?.exclude);
+  let hits: ReturnType<IndexingService["searchLexical"]>;
+  try {
+    hits = indexing.searchLexical(query, limit, { include, exclude }, session?.worktree?.root);
+  } catch (error) {
+    denyReasons.push("PLAN_MISSING_REQUIRED_FIELDS");
+    result.error = `Query '${query}' is not a valid /regex/: ${error instanceof Error ? error.message : String(error)}. Fix the pattern or drop the slashes to run a ranked term search.`;
+    result.missingFields = ["query"];
+    return { result, denyReasons };
+  }
 
   // Pack-scope filter: only return hits from contextPack files
   if (session?.contextPack) {
@@ -228,10 +240,18 @@ export async function handleGrepLexeme(
     }
   }
 
-  result.grepLexeme = { query, hits };
+  result.grepLexeme = { query, hits, ...(include.length > 0 ? { include } : {}), ...(exclude.length > 0 ? { exclude } : {}) };
   return { result, denyReasons };
 }
 
+/** include/exclude accept a single glob or a list of globs. */
+function globList(value: unknown): string[] {
+  if (typeof value === "string") {
+    return value.trim() ? [value.trim()] : [];
+  }
+  return Array.isArray(value) ? value.map((item) => String(item).trim()).filter(Boolean) : [];
+}
+
 export async function handleListDir(
   args: Record<string, unknown> | undefined,
   session: SessionState
@@ -254,7 +274,7 @@ export async function handleListDir(
     return { result, denyReasons };
   }
 
-  const readRoot = session.planGraph?.worktreeRoot ?? resolveTargetRepoRoot();
+  const readRoot = sessionWorktreeRoot(session);
 
   // For directories we do our own containment check rather than using scopeAllowsFile
   // (which is designed for file paths and rejects root-level "." due to path.sep suffix check).
@@ -291,6 +311,9 @@ export async function handleListDir(
   return { result, denyReasons };
 }
 
+/** Upper bound on trace_symbol_graph hops, keeping transitive queries bounded. */
+const MAX_TRACE_DEPTH = 6;
+
 export async function handleReadNeighbors(
   args: Record<string, unknown> | undefined,
   indexing: IndexingService | null,
@@ -310,6 +333,16 @@ export async function handleReadNeighbors(
   const targetFile = String(args?.targetFile ?? "").trim();
   const query = String(args?.query ?? "").trim();
   const limit = Math.max(1, Number(args?.limit ?? 12));
+  const relationArg = String(args?.relation ?? "").trim();
+  const depth = Math.min(MAX_TRACE_DEPTH, Math.max(1, Number(args?.depth ?? 1) || 1));
+
+  if (relationArg && !DEPENDENCY_RELATIONS.includes(relationArg as DependencyRelation)) {
+    denyReasons.push("PLAN_MISSING_REQUIRED_FIELDS");
+    result.error = `Unknown relation '${relationArg}'. Use one of: ${DEPENDENCY_RELATIONS.join(", ")} (e.g. 'callers' for who calls X, 'importers' with depth for transitive importers).`;
+    result.missingFields = ["relation"];
+    return { result, denyReasons };
+  }
+  const relation = (relationArg || "neighbors") as DependencyRelation;
 
   if (!symbol && !targetFile && !query) {
     denyReasons.push("PLAN_MISSING_REQUIRED_FIELDS");
@@ -318,9 +351,14 @@ export async function handleReadNeighbors(
     return { result, denyReasons };
   }
 
-  let symbolMatches = symbol ? indexing.searchSymbol(symbol, limit) : [];
+  let symbolMatches = symbol ? indexing.searchSymbol(symbol, limit, session?.worktree?.root) : [];
+  // Text matches only back the default neighbour lookup; directional queries answer from the graph alone
   const lexicalQuery = query || symbol || path.basename(targetFile);
-  let lexicalMatches = indexing.searchLexical(lexicalQuery, limit);
+  let lexicalMatches = relationArg ? [] : indexing.searchLexical(lexicalQuery, limit, {}, session?.worktree?.root);
+  const graph = (symbol || targetFile)
+    ? indexing.queryDependencies({ symbol: symbol || undefined, filePath: targetFile || undefined, relation, depth, limit: Math.max(limit, 50) }, session?.worktree?.root)
+    : null;
+  let edges = graph?.edges ?? [];
 
   // Pack-scope filter: only return neighbors within contextPack files
   if (session?.contextPack) {
@@ -332,8 +370,11 @@ export async function handleReadNeighbors(
     lexicalMatches = lexicalMatches.filter((h: { filePath?: string }) =>
       h.filePath ? isInPack(h.filePath, session) : true
     );
-    const totalFiltered = (preSymbolCount - symbolMatches.length) + (preLexicalCount - lexicalMatches.length);
-    if (symbolMatches.length === 0 && lexicalMatches.length === 0 && totalFiltered > 0) {
+    const preEdgeCount = edges.length;
+    // An edge stays when the file it is written in is in the pack
+    edges = edges.filter((edge) => isInPack(edge.filePath, session));
+    const totalFiltered = (preSymbolCount - symbolMatches.length) + (preLexicalCount - lexicalMatches.length) + (preEdgeCount - edges.length);
+    if (symbolMatches.length === 0 && lexicalMatches.length === 0 && edges.length === 0 && totalFiltered > 0) {
       denyReasons.push("PACK_SCOPE_VIOLATION");
       result.error = `Neighbors for '${symbol || targetFile || query}' found in ${totalFiltered} result(s) but all are outside the contextPack. Call 'escalate' with { need: '${symbol || targetFile || query}', type: 'graph_expand' } to discover and add the relevant files.`;
       result.filteredOutCount = totalFiltered;
@@ -344,7 +385,17 @@ export async function handleReadNeighbors(
     }
   }
 
-  result.readNeighbors = { anchor: symbol || targetFile || query, symbolMatches, lexicalMatches };
+  const nodeIds = new Set([...(graph?.anchors ?? []), ...edges.flatMap((edge) => [edge.from, edge.to])]);
+  result.readNeighbors = {
+    anchor: symbol || targetFile || query,
+    symbolMatches,
+    lexicalMatches,
+    relation,
+    depth,
+    edges,
+    nodes: (graph?.nodes ?? []).filter((node) => nodeIds.has(node.id)),
+    truncated: graph?.truncated ?? false,
+  };
 
   /* ── Few-shot injection from active memories ──────────── */
   if (memoryService && MEMORY_CONFIG.enableFewShotInjection) {
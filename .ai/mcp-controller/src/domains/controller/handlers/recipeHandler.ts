@@ -1,49 +1,148 @@
+import type { RunState } from "../../../contracts/controller";
+import type { GatewayConfig } from "../../../config/types";
 import type { VerbResult, SessionState } from "../types";
 import type { EventStore } from "../../observability/eventStore";
-import { RecipeRegistry, buildRecipeUsageEvent } from "../../recipes/recipeRegistry";
+import type { IndexingService } from "../../indexing/indexingService";
+import type { CollisionGuard } from "../../patch-exec/collisionGuard";
+import type { WorkScopeCoordinator } from "../../coordination/workScopeCoordinator";
+import { canExecuteMutation } from "../../capability-gating/capabilityMatrix";
+import { RecipeRegistry, buildRecipeUsageEvent, expandRecipeSteps, type RecipeStep } from "../../recipes/recipeRegistry";
+import { writeArtifactBundle } from "../../../shared/artifacts";
+import { traceRef } from "../../../shared/ids";
 import { isRecord } from "../turnHelpers";
+import { handleCodeRun, handlePatchApply } from "./mutationHandlers";
+import { claimNodes } from "./coordinationHandlers";
 
+export interface RecipeRunDeps {
+  events: EventStore;
+  recipes: RecipeRegistry;
+  collisionGuard: CollisionGuard;
+  coordinator: WorkScopeCoordinator;
+  indexing: IndexingService | null;
+  sandboxConfig: GatewayConfig["sandbox"];
+}
+
+/** Fixed validation script; the command travels as declared input, never as code. */
+const VALIDATE_IIFE = "(async () => { const record = await exec(recipeCommand, recipeArgs); return { command: record.command, exitCode: record.exitCode }; })()";
+const VALIDATE_TIMEOUT_MS = 120_000;
+const VALIDATE_MEMORY_CAP_MB = 128;
+
+interface RecipeStepOutcome {
+  index: number;
+  op: RecipeStep["op"];
+  nodeId: string;
+  ok: boolean;
+  denyReasons: string[];
+  error?: string;
+  targetFile?: string;
+  replacements?: number;
+  commands?: Array<{ command: string; exitCode: number | null }>;
+  artifactBundleRef?: string;
+  outputRef?: string;
+}
+
+/**
+ * run_automation_recipe — expand the recipe's steps with the validated params
+ * and run them in order through apply_code_patch / run_sandboxed_code, so each
+ * step gets the same pack, scope, collision and plan-node checks. Every step's
+ * node and file are claimed up front, so a recipe is denied before its first
+ * step when a sibling agent holds any of them. The first failing step stops
+ * the run; earlier patch steps stay applied (undo them with revert_code_patch).
+ * The run writes its own artifact bundle and usage event.
+ */
 export async function handleRunRecipe(
+  collisionScopeKey: string,
   args: Record<string, unknown> | undefined,
   session: SessionState,
-  events: EventStore,
-  recipes: RecipeRegistry
+  state: RunState,
+  deps: RecipeRunDeps
 ): Promise<VerbResult> {
   const denyReasons: string[] = [];
   const result: Record<string, unknown> = {};
 
+  if (!canExecuteMutation(state) || !session.planGraph) {
+    denyReasons.push("PLAN_SCOPE_VIOLATION");
+    result.error = !session.planGraph
+      ? "No plan has been submitted yet. You must call verb='submit_execution_plan' with a valid PlanGraphDocument before using run_automation_recipe. Current state: " + state
+      : `Current state '${state}' does not allow mutations. run_automation_recipe requires state PLAN_ACCEPTED. Submit and get a plan accepted first.`;
+    return { result, denyReasons };
+  }
+
   const recipeId = String(args?.recipeId ?? "");
   const planNodeId = String(args?.planNodeId ?? "");
   const validatedParams = isRecord(args?.validatedParams) ? args?.validatedParams : {};
-  const artifactBundleRef = String(args?.artifactBundleRef ?? "");
-  const diffSummaryRef = String(args?.diffSummaryRef ?? "");
 
-  if (!recipeId || !planNodeId || !artifactBundleRef || !diffSummaryRef) {
+  if (!recipeId || !planNodeId) {
     denyReasons.push("PLAN_MISSING_REQUIRED_FIELDS");
-    result.error = `run_recipe requires all of: recipeId, planNodeId, artifactBundleRef, diffSummaryRef. Missing: ${[!recipeId && "recipeId", !planNodeId && "planNodeId", !artifactBundleRef && "artifactBundleRef", !diffSummaryRef && "diffSummaryRef"].filter(Boolean).join(", ")}. Available recipe IDs: 'replace_lexeme_in_file', 'run_targeted_validation'.`;
-    result.missingFields = [!recipeId && "recipeId", !planNodeId && "planNodeId", !artifactBundleRef && "artifactBundleRef", !diffSummaryRef && "diffSummaryRef"].filter(Boolean);
+    result.error = `run_automation_recipe requires recipeId and planNodeId. Missing: ${[!recipeId && "recipeId", !planNodeId && "planNodeId"].filter(Boolean).join(", ")}. Available recipe IDs: ${deps.recipes.list().map((recipe) => `'${recipe.id}'`).join(", ")}.`;
+    result.missingFields = [!recipeId && "recipeId", !planNodeId && "planNodeId"].filter(Boolean);
     return { result, denyReasons };
   }
 
-  const validation = recipes.validate(recipeId, validatedParams);
-  if (!validation.ok) {
+  const validation = deps.recipes.validate(recipeId, validatedParams);
+  const recipe = deps.recipes.get(recipeId);
+  if (!validation.ok || !recipe) {
     denyReasons.push("PLAN_POLICY_VIOLATION");
     result.recipeError = validation.reason;
     return { result, denyReasons };
   }
 
+  const expanded = expandRecipeSteps(recipe, validatedParams);
+  const claimDenial = claimNodes(
+    [
+      { nodeId: planNodeId },
+      ...expanded.map((step) => ({
+        nodeId: stepNodeId(step, planNodeId),
+        targetFile: step.op === "validate" ? undefined : step.targetFile,
+        targetSymbols: step.op === "validate" ? undefined : step.targetSymbols,
+      })),
+    ],
+    session,
+    deps.coordinator,
+    collisionScopeKey
+  );
+  if (claimDenial) return claimDenial;
+
+  const steps: RecipeStepOutcome[] = [];
+  const diffFiles: Array<Record<string, unknown>> = [];
+  let pendingValidation: unknown;
+  for (const [position, step] of expanded.entries()) {
+    const outcome = await runRecipeStep(recipe.id, position + 1, step, planNodeId, collisionScopeKey, session, state, deps);
+    steps.push(outcome.summary);
+    if (outcome.diffFile) diffFiles.push(outcome.diffFile);
+    pendingValidation = outcome.pendingValidation ?? pendingValidation;
+    if (!outcome.summary.ok) break;
+  }
+
+  const failed = steps.find((step) => !step.ok);
+  const validationOutcome = failed ? "failed" : "passed";
+  const failureSignature = failed ? `${failed.denyReasons[0] ?? "PLAN_VERIFICATION_WEAK"}@step${failed.index}:${failed.op}` : undefined;
+
+  const bundle = await writeArtifactBundle({
+    workId: session.workId,
+    runSessionId: session.runSessionId,
+    nodeId: planNodeId,
+    operation: "run_automation_recipe",
+    result: { recipeId, validatedParams, steps },
+    opLog: steps.map((step) => `step ${step.index} ${step.op} node=${step.nodeId} ${step.ok ? "ok" : `denied ${step.denyReasons.join(",")}`}`).join("\n"),
+    traceRefs: [traceRef()],
+    validation: { recipeId, validationOutcome, failureSignature, stepsRun: steps.length, stepsTotal: recipe.steps.length },
+    diffSummary: { recipeId, files: diffFiles },
+  });
+
   const usageEvent = buildRecipeUsageEvent({
     recipeId,
     validatedParams,
     workId: session.workId,
     runSessionId: session.runSessionId,
     planNodeId,
-    artifactBundleRef,
-    diffSummaryRef,
-    validationOutcome: "passed",
+    artifactBundleRef: bundle.bundleDir,
+    diffSummaryRef: bundle.diffSummaryRef ?? "",
+    validationOutcome,
+    failureSignature,
   });
 
-  await events.append({
+  await deps.events.append({
     ts: new Date().toISOString(),
     type: "recipe_usage",
     runSessionId: session.runSessionId,
@@ -52,6 +151,111 @@ export async function handleRunRecipe(
     payload: { ...usageEvent },
   });
 
-  result.recipe = { accepted: true, recipeId, planNodeId };
-  return { result, denyReasons };
+  result.recipe = {
+    accepted: !failed,
+    recipeId,
+    planNodeId,
+    steps,
+    artifactBundleRef: bundle.bundleDir,
+    resultRef: bundle.resultRef,
+    diffSummaryRef: bundle.diffSummaryRef,
+    validationOutcome,
+    failureSignature,
+  };
+  if (pendingValidation) result.pendingValidation = pendingValidation;
+
+  if (failed) {
+    denyReasons.push(...(failed.denyReasons.length > 0 ? failed.denyReasons : ["PLAN_VERIFICATION_WEAK"]));
+    const applied = steps.filter((step) => step.ok && step.op !== "validate");
+    result.recipeError = `Step ${failed.index} (${failed.op}) of '${recipeId}' failed: ${failed.error ?? "denied"}`
+      + (applied.length > 0
+        ? ` Steps ${applied.map((step) => step.index).join(", ")} stay applied; revert_code_patch with their nodeId undoes them.`
+        : "");
+    return { result, denyReasons };
+  }
+  return { result, denyReasons, stateOverride: "PLAN_ACCEPTED" };
+}
+
+async function runRecipeStep(
+  recipeId: string,
+  index: number,
+  step: RecipeStep,
+  planNodeId: string,
+  collisionScopeKey: string,
+  session: SessionState,
+  state: RunState,
+  deps: RecipeRunDeps
+): Promise<{ summary: RecipeStepOutcome; diffFile?: Record<string, unknown>; pendingValidation?: unknown }> {
+  const nodeId = stepNodeId(step, planNodeId);
+
+  if (step.op === "validate") {
+    const [command, ...commandArgs] = String(step.command).trim().split(/\s+/);
+    const outcome = await handleCodeRun(collisionScopeKey, {
+      nodeId,
+      iife: VALIDATE_IIFE,
+      declaredInputs: { recipeCommand: command, recipeArgs: commandArgs },
+      timeoutMs: Number(step.timeoutMs ?? VALIDATE_TIMEOUT_MS),
+      memoryCapMb: VALIDATE_MEMORY_CAP_MB,
+      artifactOutputRef: String(step.artifactOutputRef ?? `artifact://recipe/${recipeId}/step-${index}`),
+      expectedReturnShape: { type: "object", requiredKeys: ["exitCode"] },
+      isolation: "process",
+    }, session, deps.collisionGuard, state, deps.sandboxConfig);
+    const codeRun = outcome.result.codeRun as { commands?: Array<{ command: string; exitCode: number | null }>; artifactBundleRef?: string; outputRef?: string } | undefined;
+    const commands = codeRun?.commands ?? [];
+    // The step passes on actual exit codes, whichever node kind it ran under
+    const commandsPassed = commands.length > 0 && commands.every((item) => item.exitCode === 0);
+    const ok = outcome.denyReasons.length === 0 && commandsPassed;
+    return {
+      summary: {
+        index,
+        op: step.op,
+        nodeId,
+        ok,
+        denyReasons: ok ? [] : outcome.denyReasons.length > 0 ? outcome.denyReasons : ["PLAN_VERIFICATION_WEAK"],
+        error: ok ? undefined : stepError(outcome) ?? `Command exited ${commands[commands.length - 1]?.exitCode ?? "without running"}.`,
+        commands,
+        artifactBundleRef: codeRun?.artifactBundleRef,
+        outputRef: codeRun?.outputRef ?? (outcome.result.codeRunOutputRef as string | undefined),
+      },
+      pendingValidation: outcome.result.pendingValidation,
+    };
+  }
+
+  const outcome = await handlePatchApply(collisionScopeKey, {
+    nodeId,
+    targetFile: step.targetFile,
+    targetSymbols: Array.isArray(step.targetSymbols) ? step.targetSymbols : [],
+    ...(step.op === "codemod"
+      ? { operation: "ast_codemod", codemodId: step.codemodId, codemodParams: isRecord(step.codemodParams) ? step.codemodParams : {} }
+      : { operation: step.operation ?? "replace_text", find: step.find, replace: step.replace, diff: step.diff }),
+  }, session, deps.collisionGuard, state, deps.indexing);
+  const patchApply = outcome.result.patchApply as { targetFile?: string; changed?: boolean; replacements?: number; lineDelta?: number; files?: unknown; artifactBundleRef?: string } | undefined;
+  const ok = outcome.denyReasons.length === 0;
+  return {
+    summary: {
+      index,
+      op: step.op,
+      nodeId,
+      ok,
+      denyReasons: outcome.denyReasons,
+      error: ok ? undefined : stepError(outcome),
+      targetFile: step.targetFile,
+      replacements: patchApply?.replacements,
+      artifactBundleRef: patchApply?.artifactBundleRef,
+    },
+    diffFile: patchApply
+      ? { step: index, nodeId, file: patchApply.targetFile, changed: patchApply.changed, replacements: patchApply.replacements, lineDelta: patchApply.lineDelta, files: patchApply.files }
+      : undefined,
+    pendingValidation: outcome.result.pendingValidation,
+  };
+}
+
+/** The plan node a step runs under: its own `nodeId`, else the recipe's planNodeId. */
+function stepNodeId(step: RecipeStep, planNodeId: string): string {
+  return String(step.nodeId ?? planNodeId);
+}
+
+function stepError(outcome: VerbResult): string | undefined {
+  const message = outcome.result.patchApplyError ?? outcome.result.codeRunError ?? outcome.result.error;
+  return message === undefined ? undefined : String(message);
 }
@@ -0,0 +1,126 @@
+import path from "node:path";
+import { readdir, rename, unlink } from "node:fs/promises";
+import type { SessionState } from "./types";
+import { readText, writeText } from "../../shared/fileStore";
+import { sessionsRoot } from "../../shared/fsPaths";
+
+/** Bump when the persisted SessionState shape changes incompatibly. */
+export const SESSION_SNAPSHOT_SCHEMA_VERSION = 1;
+
+/** Number of versioned snapshots kept per session (latest.json is always kept). */
+const SNAPSHOT_RETENTION = 5;
+
+export interface SessionSnapshot {
+  snapshotSchemaVersion: number;
+  /** Monotonic per-session counter, incremented on every save. */
+  version: number;
+  savedAt: string;
+  session: SessionState;
+}
+
+/**
+ * File-backed session persistence.
+ *
+ * Layout: `<root>/<runSessionId>/<workId>/<agentId>/`
+ *   - `v000001.json`, `v000002.json`, … — versioned snapshots (pruned to the last few)
+ *   - `latest.json` — copy of the newest snapshot, replaced atomically via rename
+ *
+ * The controller writes a snapshot after each finalized turn and reloads on a
+ * session-cache miss, so a restarted stdio server resumes the same
+ * `runSessionId`/`workId` with its accepted plan, progress and scope intact.
+ */
+export class SessionStore {
+  constructor(private readonly rootDir: string = sessionsRoot()) {}
+
+  async save(session: SessionState): Promise<SessionSnapshot> {
+    const dir = this.sessionDir(session.runSessionId, session.workId, session.agentId);
+    const version = (session.snapshotVersion ?? 0) + 1;
+    session.snapshotVersion = version;
+
+    const snapshot: SessionSnapshot = {
+      snapshotSchemaVersion: SESSION_SNAPSHOT_SCHEMA_VERSION,
+      version,
+      savedAt: new Date().toISOString(),
+      session,
+    };
+    const serialized = JSON.stringify(snapshot, null, 2);
+
+    await writeText(path.join(dir, snapshotFileName(version)), serialized);
+    const tmpPath = path.join(dir, `latest.json.${process.pid}.tmp`);
+    await writeText(tmpPath, serialized);
+    await rename(tmpPath, path.join(dir, "latest.json"));
+    await this.prune(dir);
+
+    return snapshot;
+  }
+
+  async load(runSessionId: string, workId: string, agentId: string): Promise<SessionState | null> {
+    const snapshot = await this.readSnapshot(
+      path.join(this.sessionDir(runSessionId, workId, agentId), "latest.json"),
+    );
+    return snapshot?.session ?? null;
+  }
+
+  /** Load a specific snapshot version (for inspection or manual rollback). */
+  async loadVersion(runSessionId: string, workId: string, agentId: string, version: number): Promise<SessionSnapshot | null> {
+    return this.readSnapshot(
+      path.join(this.sessionDir(runSessionId, workId, agentId), snapshotFileName(version)),
+    );
+  }
+
+  /** Load the latest snapshot of every agent persisted under `runSessionId:workId`. */
+  async loadWorkScope(runSessionId: string, workId: string): Promise<SessionState[]> {
+    const scopeDir = path.join(this.rootDir, encodeSegment(runSessionId), encodeSegment(workId));
+    let entries;
+    try {
+      entries = await readdir(scopeDir, { withFileTypes: true });
+    } catch {
+      return [];
+    }
+    const sessions: SessionState[] = [];
+    for (const entry of entries) {
+      if (!entry.isDirectory()) continue;
+      const snapshot = await this.readSnapshot(path.join(scopeDir, entry.name, "latest.json"));
+      if (snapshot) sessions.push(snapshot.session);
+    }
+    return sessions;
+  }
+
+  private sessionDir(runSessionId: string, workId: string, agentId: string): string {
+    return path.join(this.rootDir, encodeSegment(runSessionId), encodeSegment(workId), encodeSegment(agentId));
+  }
+
+  private async readSnapshot(filePath: string): Promise<SessionSnapshot | null> {
+    try {
+      const parsed = JSON.parse(await readText(filePath)) as Partial<SessionSnapshot>;
+      if (parsed.snapshotSchemaVersion !== SESSION_SNAPSHOT_SCHEMA_VERSION || !parsed.session) {
+        return null;
+      }
+      return parsed as SessionSnapshot;
+    } catch {
+      return null;
+    }
+  }
+
+  private async prune(dir: string): Promise<void> {
+    try {
+      const versioned = (await readdir(dir))
+        .filter((name) => /^v\d+\.json$/.test(name))
+        .sort();
+      for (const name of versioned.slice(0, Math.max(0, versioned.length - SNAPSHOT_RETENTION))) {
+        await unlink(path.join(dir, name));
+      }
+    } catch {
+      // Pruning failures are non-fatal — stale snapshots only cost disk space
+    }
+  }
+}
+
+function snapshotFileName(version: number): string {
+  return `v${String(version).padStart(6, "0")}.json`;
+}
+
+/** Percent-encode an id for use as a path segment ("." is encoded too so ".." cannot escape the root). */
+function encodeSegment(value: string): string {
+  return encodeURIComponent(value).replace(/\./g, "%2E");
+}
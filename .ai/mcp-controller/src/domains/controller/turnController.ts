@@ -1,35 +1,47 @@
+import path from "node:path";
 import { capabilitiesForState } from "../capability-gating/capabilityMatrix";
 import { ConnectorRegistry } from "../connectors/connectorRegistry";
 import { MemoryService } from "../memory/memoryService";
 import { EventStore } from "../observability/eventStore";
 import { CollisionGuard } from "../patch-exec/collisionGuard";
+import { WorkScopeCoordinator } from "../coordination/workScopeCoordinator";
 import { RecipeRegistry } from "../recipes/recipeRegistry";
+import { SideEffectDriverRegistry } from "../side-effects/sideEffectRegistry";
+import { createBuiltinSideEffectDrivers } from "../side-effects/builtinDrivers";
 import { recommendedSubAgentSplits, selectStrategy, type StrategySelection, type StrategyId } from "../strategy/strategySelector";
 import { ProofChainBuilder } from "../proof-chains/proofChainBuilder";
-import type { RunState, TurnRequest, TurnResponse } from "../../contracts/controller";
+import type { RunState, TurnOptions, TurnRequest, TurnResponse } from "../../contracts/controller";
 import type { IndexingService } from "../indexing/indexingService";
+import type { WorktreeManager } from "../../infrastructure/git/worktreeManager";
+import { DEFAULT_CONFIG, type GatewayConfig } from "../../config/types";
 import { SCHEMA_VERSION } from "../../shared/constants";
-import { resolveTargetRepoRoot, scratchRoot } from "../../shared/fsPaths";
+import { resolveRepoRoot, scratchRoot } from "../../shared/fsPaths";
 import { ensureId, traceRef } from "../../shared/ids";
 import { verbDescriptionsForCapabilities } from "../../shared/verbCatalog";
 
 import type { SessionState, VerbResult } from "./types";
 import { createSession, resolveOriginalPrompt, extractLexemes, trackRejections, resolveAgentId } from "./session";
-import { consumeBudget, isBudgetSafeVerb } from "./budget";
-import { extractAnchors, asStringArray, moduleHint } from "./turnHelpers";
+import type { SessionStore } from "./sessionStore";
+import { applyWorkBudget, budgetStatusFor, chargeResponse, consumeBudget, isBudgetSafeVerb, noteBudgetBlock, takeNewBudgetWarnings } from "./budget";
+import { extractAnchors, asStringArray, moduleHint, sessionWorktreeRoot } from "./turnHelpers";
 import { handleReadRange, handleReadSymbol, handleGrepLexeme, handleReadNeighbors } from "./handlers/readHandlers";
-import { handleSubmitPlan, handleWriteTmp } from "./handlers/planHandlers";
-import { handlePatchApply, handleCodeRun, handleSideEffect } from "./handlers/mutationHandlers";
+import { handleAmendPlan, handleSubmitPlan, handleWriteTmp } from "./handlers/planHandlers";
+import { handlePatchApply, handleRevertPatch, handleCodeRun, handleSideEffect } from "./handlers/mutationHandlers";
 import { handleRunRecipe } from "./handlers/recipeHandler";
 import { handleEscalate } from "./handlers/escalateHandler";
 import { handleSignalTaskComplete } from "./handlers/retrospectiveHandler";
 import { handleInitializeWork } from "./handlers/initializeWorkHandler";
+import { handleRequestBudgetExtension } from "./handlers/budgetHandler";
+import { claimForMutation, handleHandoff } from "./handlers/coordinationHandlers";
+import { validateVerbArgs } from "./verbArgSchemas";
 
 export class TurnController {
   private readonly sessions = new Map<string, SessionState>();
   private readonly collisionGuard = new CollisionGuard();
   private readonly memoryService: MemoryService;
   private readonly recipes: RecipeRegistry;
+  private readonly sideEffectDrivers: SideEffectDriverRegistry;
+  private readonly coordinator: WorkScopeCoordinator;
   private readonly proofChainBuilder: ProofChainBuilder | null;
 
   constructor(
@@ -39,24 +51,45 @@ export class TurnController {
     memoryService?: MemoryService,
     recipes?: RecipeRegistry,
     private readonly neo4jConfig?: { uri: string; username: string; password: string; database: string },
+    /** When provided, sessions are snapshotted after every turn and reloaded after a restart. */
+    private readonly sessionStore: SessionStore | null = null,
+    /** Policy defaults for run_sandboxed_code (isolation mode, module/env allowlists). */
+    private readonly sandboxConfig: GatewayConfig["sandbox"] = DEFAULT_CONFIG.sandbox,
+    /** Default token limits, warning levels, tokenizer and extension allowance per session. */
+    private readonly budgetConfig: GatewayConfig["budget"] = DEFAULT_CONFIG.budget,
+    /** When provided, initialize_work gives each workId its own checkout and branch. */
+    private readonly worktrees: WorktreeManager | null = null,
+    /** Performs execute_gated_side_effect actions; defaults to the built-in drivers. */
+    sideEffectDrivers?: SideEffectDriverRegistry,
+    /** Node claims, file leases and handoffs shared by the agents of a work scope. */
+    coordinator?: WorkScopeCoordinator,
+    /** Graph backend for proof chains and graph policies; paths are repo-relative. */
+    graphConfig?: GatewayConfig["graph"],
   ) {
     this.memoryService = memoryService ?? new MemoryService();
     this.recipes = recipes ?? new RecipeRegistry();
+    this.sideEffectDrivers = sideEffectDrivers ?? new SideEffectDriverRegistry(createBuiltinSideEffectDrivers({
+      worktrees,
+      jira: connectors ?? null,
+      indexing,
+      seedRoot: path.resolve(resolveRepoRoot(), DEFAULT_CONFIG.graph.seedRoot),
+    }));
+    this.coordinator = coordinator ?? new WorkScopeCoordinator(DEFAULT_CONFIG.coordination);
     this.proofChainBuilder = neo4jConfig
-      ? new ProofChainBuilder({ neo4j: neo4jConfig }, indexing)
+      ? new ProofChainBuilder({ neo4j: neo4jConfig, graph: graphConfig && resolveGraphPaths(graphConfig) }, indexing)
       : null;
   }
 
   /* ── Main dispatch ─────────────────────────────────────── */
 
-  async handleTurn(request: TurnRequest): Promise<TurnResponse> {
+  async handleTurn(request: TurnRequest, options: TurnOptions = {}): Promise<TurnResponse> {
     const runSessionId = ensureId(request.runSessionId, "run");
     const workId = ensureId(request.workId, "work");
     const agentId = resolveAgentId(request.agentId) || ensureId(request.agentId, "agent");
     const sessionKey = `${runSessionId}:${workId}:${agentId}`;
     const collisionScopeKey = `${runSessionId}:${workId}`;
-    const session = this.ensureSession(sessionKey, runSessionId, workId, agentId, collisionScopeKey);
-    const worktreeRoot = (): string => session.planGraph?.worktreeRoot ?? resolveTargetRepoRoot();
+    const session = await this.ensureSession(sessionKey, runSessionId, workId, agentId, collisionScopeKey);
+    const worktreeRoot = (): string => sessionWorktreeRoot(session);
 
     const originalPrompt = resolveOriginalPrompt(session, request.originalPrompt, this.eventStore);
     const lexemes = extractLexemes(request);
@@ -76,7 +109,7 @@ export class TurnController {
         description: jiraSlice.description,
       } : undefined,
     });
-    const budgetStatus = consumeBudget(session, request);
+    const budgetStatus = consumeBudget(session, request, this.budgetConfig);
 
     await this.logInput(runSessionId, workId, agentId, request);
 
@@ -95,24 +128,47 @@ export class TurnController {
         previousState: session.state,
       });
       trackRejections(session, response.denyReasons);
+      noteBudgetBlock(session, this.budgetConfig, session.state);
       session.state = "BLOCKED_BUDGET";
       this.sessions.set(sessionKey, session);
+      await this.chargeResponseTokens(session, response);
       await this.finalizeTurn(session, request, response);
       return response;
     }
 
     /* ── Verb dispatch ────────────────────────────────────── */
     const state = budgetStatus.blocked ? "BLOCKED_BUDGET" : session.state;
-    const verbResult = await this.dispatchVerb(request.verb, request.args, session, state, collisionScopeKey, workId, worktreeRoot(), this.memoryService);
+    const completedBefore = new Set(session.planGraphProgress?.completedNodeIds ?? []);
+    const verbResult = await this.dispatchVerb(request.verb, request.args, session, state, collisionScopeKey, workId, worktreeRoot(), this.memoryService, options.onProgress);
+    const planChanged = (request.verb === "submit_execution_plan" && verbResult.stateOverride === "PLAN_ACCEPTED")
+      || (request.verb === "amend_execution_plan" && verbResult.denyReasons.length === 0);
+    await this.settleWorkScope(session, collisionScopeKey, completedBefore, planChanged);
 
     const mergedResult: Record<string, unknown> = { ...verbResult.result };
 
+    // Work-item budget: initialize_work args > strategy limits > config defaults
+    if (request.verb === "initialize_work" && verbResult.denyReasons.length === 0) {
+      const strategyId = (mergedResult.strategy as { strategyId?: string } | undefined)?.strategyId;
+      const { ignored } = applyWorkBudget(session, this.budgetConfig, { strategyId, override: request.args?.budget });
+      mergedResult.budget = {
+        maxTokens: session.budget?.maxTokens,
+        thresholdPercent: session.budget?.thresholdPercent,
+        source: session.budget?.source,
+        ...(ignored.length > 0 ? { ignoredOverrides: ignored } : {}),
+      };
+    }
+    // Limits may have moved during dispatch (initialize_work, request_budget_extension)
+    const turnBudgetStatus = budgetStatusFor(session, this.budgetConfig, budgetStatus.lastTurn);
+
     // #15 fix: If budget is blocked, clamp state to BLOCKED_BUDGET unless terminal (COMPLETED/FAILED)
     let finalState = verbResult.stateOverride ?? state;
-    if (budgetStatus.blocked && finalState !== "COMPLETED" && finalState !== "FAILED") {
+    if (turnBudgetStatus.blocked && finalState !== "COMPLETED" && finalState !== "FAILED") {
+      noteBudgetBlock(session, this.budgetConfig, finalState);
       finalState = "BLOCKED_BUDGET";
     }
     trackRejections(session, verbResult.denyReasons);
+    const coordination = this.coordinationView(session, collisionScopeKey, finalState);
+    if (coordination) mergedResult.coordination = coordination;
 
     // #12 fix: For initialize_work, use the handler's strategy (single source of truth)
     // instead of the pre-computed envelope strategy that doesn't include overrides
@@ -129,7 +185,7 @@ export class TurnController {
       state: finalState, strategy: responseStrategy,
       result: mergedResult,
       denyReasons: verbResult.denyReasons,
-      budgetStatus, scopeWorktreeRoot: worktreeRoot(),
+      budgetStatus: turnBudgetStatus, scopeWorktreeRoot: worktreeRoot(),
       session,
       verb: request.verb,
       previousState: state,
@@ -137,6 +193,7 @@ export class TurnController {
 
     session.state = finalState;
     this.sessions.set(sessionKey, session);
+    await this.chargeResponseTokens(session, response);
     await this.finalizeTurn(session, request, response);
     return response;
   }
@@ -164,6 +221,7 @@ export class TurnController {
     workId: string,
     worktreeRoot: string,
     memoryService?: MemoryService,
+    onProgress?: TurnOptions["onProgress"],
   ): Promise<VerbResult> {
     /* ── Hard capability gate (Architecture v2 invariant #1 + #3) ── */
     const allowed = capabilitiesForState(state);
@@ -178,6 +236,21 @@ export class TurnController {
       };
     }
 
+    const argErrors = validateVerbArgs(verb, args);
+    if (argErrors.length > 0) {
+      return {
+        result: {
+          error: `Invalid args for '${verb}': ${argErrors.map((item) => `${item.path} ${item.message}`).join("; ")}. Fix those fields and call again; verbCatalog lists each verb's args.`,
+          argErrors,
+          missingFields: [...new Set(argErrors.filter((item) => item.message === "is required").map((item) => item.path.replace(/^args\./, "")))],
+        },
+        denyReasons: ["PLAN_MISSING_REQUIRED_FIELDS"],
+      };
+    }
+
+    const claimDenial = claimForMutation(verb, args, session, this.coordinator, collisionScopeKey);
+    if (claimDenial) return claimDenial;
+
     switch (verb) {
       case "initialize_work":
         return handleInitializeWork(args, session, {
@@ -186,9 +259,13 @@ export class TurnController {
           memoryService: this.memoryService,
           connectors: this.connectors,
           proofChainBuilder: this.proofChainBuilder,
+          worktrees: this.worktrees,
+          onProgress,
         });
       case "submit_execution_plan":
-        return handleSubmitPlan(args, session, state, memoryService);
+        return handleSubmitPlan(args, session, state, memoryService, this.sandboxConfig);
+      case "amend_execution_plan":
+        return handleAmendPlan(args, session, this.eventStore, memoryService, this.sandboxConfig);
       case "write_scratch_file":
         return handleWriteTmp(workId, args);
       case "read_file_lines":
@@ -200,11 +277,13 @@ export class TurnController {
       case "trace_symbol_graph":
         return handleReadNeighbors(args, this.indexing, this.memoryService, session);
       case "apply_code_patch":
-        return handlePatchApply(collisionScopeKey, args, session, this.collisionGuard, state);
+        return handlePatchApply(collisionScopeKey, args, session, this.collisionGuard, state, this.indexing);
+      case "revert_code_patch":
+        return handleRevertPatch(collisionScopeKey, args, session, this.collisionGuard, state, this.indexing);
       case "run_sandboxed_code":
-        return handleCodeRun(collisionScopeKey, args, session, this.collisionGuard, state);
+        return handleCodeRun(collisionScopeKey, args, session, this.collisionGuard, state, this.sandboxConfig);
       case "execute_gated_side_effect":
-        return handleSideEffect(collisionScopeKey, args, session, this.collisionGuard, state);
+        return handleSideEffect(collisionScopeKey, args, session, this.collisionGuard, state, this.sideEffectDrivers);
       case "escalate": {
         const escalateResult = await handleEscalate(args, session, { eventStore: this.eventStore, indexing: this.indexing });
         // Propagate updated contextPack to sibling sessions in the same work scope
@@ -214,9 +293,20 @@ export class TurnController {
         return escalateResult;
       }
       case "run_automation_recipe":
-        return handleRunRecipe(args, session, this.eventStore, this.recipes);
+        return handleRunRecipe(collisionScopeKey, args, session, state, {
+          events: this.eventStore,
+          recipes: this.recipes,
+          collisionGuard: this.collisionGuard,
+          coordinator: this.coordinator,
+          indexing: this.indexing,
+          sandboxConfig: this.sandboxConfig,
+        });
       case "signal_task_complete":
         return handleSignalTaskComplete(args, session, this.eventStore, this.memoryService);
+      case "request_budget_extension":
+        return handleRequestBudgetExtension(args, session, this.eventStore, this.budgetConfig);
+      case "handoff":
+        return handleHandoff(args, session, this.coordinator, collisionScopeKey, this.eventStore);
       default: {
         // Pre-gate already confirmed the verb is allowed in current state,
         // so reaching here means the verb is valid but has no handler implementation.
@@ -233,19 +323,28 @@ export class TurnController {
 
   /* ── Private: session helpers ──────────────────────────── */
 
-  private ensureSession(key: string, runSessionId: string, workId: string, agentId: string, workScopeKey?: string): SessionState {
+  private async ensureSession(key: string, runSessionId: string, workId: string, agentId: string, workScopeKey?: string): Promise<SessionState> {
     const existing = this.sessions.get(key);
     if (existing) return existing;
 
+    // Resume a session persisted by a previous controller process
+    const restored = await this.restoreSession(runSessionId, workId, agentId);
+    if (restored) {
+      this.sessions.set(key, restored);
+      return restored;
+    }
+
     const session = createSession(runSessionId, workId, agentId);
 
     // Phase 7: Share contextPack and planGraph from sibling agents in the same workId
     if (workScopeKey) {
+      await this.restoreWorkScope(runSessionId, workId);
       for (const [siblingKey, siblingSession] of this.sessions) {
         if (siblingKey.startsWith(workScopeKey + ":") && siblingKey !== key) {
-          // Copy shared state from sibling (contextPack, planGraph, planGraphProgress, state, originalPrompt)
+          // Copy shared state from sibling (contextPack, planGraph, worktree, planGraphProgress, state, originalPrompt)
           if (siblingSession.contextPack) session.contextPack = siblingSession.contextPack;
           if (siblingSession.planGraph) session.planGraph = siblingSession.planGraph;
+          if (siblingSession.worktree) session.worktree = siblingSession.worktree;
           if (siblingSession.planGraphProgress) session.planGraphProgress = { ...siblingSession.planGraphProgress };
           if (siblingSession.originalPrompt) session.originalPrompt = siblingSession.originalPrompt;
           if (siblingSession.scopeAllowlist) session.scopeAllowlist = siblingSession.scopeAllowlist;
@@ -260,6 +359,48 @@ export class TurnController {
     return session;
   }
 
+  private async restoreSession(runSessionId: string, workId: string, agentId: string): Promise<SessionState | null> {
+    if (!this.sessionStore) return null;
+    try {
+      const restored = await this.sessionStore.load(runSessionId, workId, agentId);
+      if (restored) {
+        await this.eventStore.append({
+          ts: new Date().toISOString(), type: "session_restored",
+          runSessionId, workId, agentId,
+          payload: { state: restored.state, snapshotVersion: restored.snapshotVersion ?? 0 },
+        });
+        // The index overlay for the checkout lived in memory; rebuild it from the branch's changes
+        const { worktree } = restored;
+        if (worktree && this.indexing && this.worktrees) {
+          const indexing = this.indexing;
+          await this.worktrees.changedFiles(worktree)
+            .then((files) => indexing.updateWorktreeFiles(worktree.root, files))
+            .catch(() => undefined);
+        }
+      }
+      return restored;
+    } catch {
+      // Snapshot read failures are non-fatal — the agent starts a fresh session
+      return null;
+    }
+  }
+
+  /**
+   * Pull persisted sibling sessions for a work scope into the cache so a new
+   * agent joining after a restart inherits the scope's plan and state.
+   */
+  private async restoreWorkScope(runSessionId: string, workId: string): Promise<void> {
+    if (!this.sessionStore) return;
+    try {
+      for (const sibling of await this.sessionStore.loadWorkScope(runSessionId, workId)) {
+        const siblingKey = `${sibling.runSessionId}:${sibling.workId}:${sibling.agentId}`;
+        if (!this.sessions.has(siblingKey)) this.sessions.set(siblingKey, sibling);
+      }
+    } catch {
+      // Snapshot read failures are non-fatal
+    }
+  }
+
   /**
    * After an escalation enriches a session's contextPack, propagate the updated
    * pack to all sibling sessions sharing the same workScopeKey (runSessionId:workId).
@@ -295,6 +436,62 @@ export class TurnController {
     }
   }
 
+  /** Other cached sessions of the same work scope (runSessionId:workId). */
+  private siblingsOf(session: SessionState): SessionState[] {
+    const prefix = `${session.runSessionId}:${session.workId}:`;
+    return [...this.sessions.entries()]
+      .filter(([key, sibling]) => key.startsWith(prefix) && sibling.agentId !== session.agentId)
+      .map(([, sibling]) => sibling);
+  }
+
+  /**
+   * Keep the work scope coherent after a turn: nodes the turn completed give
+   * up their claim, leases and collision reservations, and siblings working
+   * on the same plan take over the acting session's progress (which already
+   * includes their own, since every turn syncs it). An accepted or amended
+   * plan is shared with all siblings; those still planning move on with it.
+   */
+  private async settleWorkScope(session: SessionState, scopeKey: string, completedBefore: Set<string>, planChanged: boolean): Promise<void> {
+    const planNodeIds = new Set((session.planGraph?.nodes ?? []).map((node) => node.nodeId));
+    const finished = (session.planGraphProgress?.completedNodeIds ?? []).filter((nodeId) => !completedBefore.has(nodeId));
+    // Nodes an amendment removed are finished as far as the work scope is concerned
+    const dropped = planChanged ? this.coordinator.snapshot(scopeKey).claims.map((claim) => claim.nodeId).filter((nodeId) => !planNodeIds.has(nodeId)) : [];
+    for (const nodeId of [...finished, ...dropped]) {
+      this.coordinator.complete(scopeKey, nodeId);
+      this.collisionGuard.release(scopeKey, [`patch:${nodeId}`, `code_run:${nodeId}`, `side_effect:${nodeId}`]);
+    }
+    for (const sibling of this.siblingsOf(session)) {
+      if (planChanged && session.planGraph) {
+        sibling.planGraph = session.planGraph;
+        sibling.planRevision = session.planRevision;
+        sibling.scopeAllowlist = session.scopeAllowlist;
+        if (sibling.state === "PLANNING") sibling.state = "PLAN_ACCEPTED";
+      }
+      const samePlan = session.planGraph && sibling.planGraph?.planFingerprint === session.planGraph.planFingerprint;
+      if (!samePlan || !session.planGraphProgress) continue;
+      sibling.planGraphProgress = {
+        ...session.planGraphProgress,
+        completedNodeIds: [...session.planGraphProgress.completedNodeIds],
+        eligibleValidateNodeIds: [...session.planGraphProgress.eligibleValidateNodeIds],
+      };
+      await this.persistSession(sibling);
+    }
+  }
+
+  /** What the agent sees of its siblings: their state, live claims and leases, and handoffs addressed to it. */
+  private coordinationView(session: SessionState, scopeKey: string, state: RunState): Record<string, unknown> | undefined {
+    const siblings = this.siblingsOf(session);
+    const handoffs = this.coordinator.takeHandoffs(scopeKey, session.agentId);
+    if (siblings.length === 0 && handoffs.length === 0) return undefined;
+    const { claims, leases } = this.coordinator.snapshot(scopeKey);
+    return {
+      agents: [{ agentId: session.agentId, state }, ...siblings.map((sibling) => ({ agentId: sibling.agentId, state: sibling.state }))],
+      claims,
+      leases,
+      ...(handoffs.length > 0 ? { handoffs } : {}),
+    };
+  }
+
   /* ── Private: response construction ────────────────────── */
 
   private makeResponse(input: {
@@ -381,11 +578,37 @@ export class TurnController {
 
   /* ── Private: observability & memory ───────────────────── */
 
+  /** Charge the response payload to the session and report newly crossed warning levels. */
+  private async chargeResponseTokens(session: SessionState, response: TurnResponse): Promise<void> {
+    chargeResponse(session, response, this.budgetConfig);
+    for (const percent of takeNewBudgetWarnings(session, this.budgetConfig)) {
+      await this.eventStore.append({
+        ts: new Date().toISOString(), type: "budget_warning",
+        runSessionId: session.runSessionId, workId: session.workId, agentId: session.agentId,
+        payload: { percent, usedTokens: session.usedTokens, thresholdTokens: response.budgetStatus.thresholdTokens },
+      });
+    }
+  }
+
   private async finalizeTurn(session: SessionState, request: TurnRequest, response: TurnResponse): Promise<void> {
     await this.logTurn("turn", request.verb, response, request.args);
     await this.emitCorrectionCandidateIfNeeded(session, response);
     await this.runMemoryPromotionLane(session);
     await this.logOutput(response, request.verb);
+    await this.persistSession(session);
+  }
+
+  private async persistSession(session: SessionState): Promise<void> {
+    if (!this.sessionStore) return;
+    try {
+      await this.sessionStore.save(session);
+    } catch (error) {
+      await this.eventStore.append({
+        ts: new Date().toISOString(), type: "session_persist_failed",
+        runSessionId: session.runSessionId, workId: session.workId, agentId: session.agentId,
+        payload: { reason: error instanceof Error ? error.message : String(error) },
+      });
+    }
   }
 
   private async emitCorrectionCandidateIfNeeded(session: SessionState, response: TurnResponse): Promise<void> {
@@ -479,6 +702,18 @@ export class TurnController {
 
 /* ── Module-level helpers ────────────────────────────────── */
 
+/** Anchors the repo-relative graph paths from config at the controller's repo root. */
+function resolveGraphPaths(graph: GatewayConfig["graph"]): GatewayConfig["graph"] {
+  const root = resolveRepoRoot();
+  return {
+    ...graph,
+    seedRoot: path.resolve(root, graph.seedRoot),
+    outRoot: path.resolve(root, graph.outRoot),
+    cypherRoot: path.resolve(root, graph.cypherRoot),
+    storePath: path.resolve(root, graph.storePath),
+  };
+}
+
 /**
  * Given a set of deny reasons, tell the agent what verb to call next.
  * This is the "you should escalate" signal the spec requires.
@@ -2,6 +2,7 @@ import path from "node:path";
 import type { CodeRunRequest } from "../code-run/codeRunService";
 import type { PatchApplyRequest } from "../patch-exec/patchExecService";
 import type { ChangePlanNode, PlanGraphDocument, SideEffectPlanNode } from "../../contracts/planGraph";
+import type { SessionState } from "./types";
 import { resolveTargetRepoRoot, workRoot } from "../../shared/fsPaths";
 
 /* ── Request parsing ───────────────────────────────────────── */
@@ -25,6 +26,12 @@ export function parsePatchApplyRequest(
     return { nodeId, targetFile, targetSymbols, operation: "replace_text", find, replace };
   }
 
+  if (operationRaw === "unified_diff") {
+    const diff = String(args.diff ?? "");
+    if (!diff.trim()) return null;
+    return { nodeId, targetFile, targetSymbols, operation: "unified_diff", diff };
+  }
+
   if (operationRaw !== "ast_codemod") return null;
   const codemodId = String(args.codemodId ?? "").trim();
   const codemodParams = isRecord(args.codemodParams) ? args.codemodParams : {};
@@ -50,6 +57,12 @@ export function parseCodeRunRequest(
   if (!nodeId || !iife || !artifactOutputRef || timeoutMs <= 0 || memoryCapMb <= 0) return null;
   if (!isExpectedType(expectedType)) return null;
 
+  const isolationRaw = args.isolation === undefined ? undefined : String(args.isolation);
+  if (isolationRaw !== undefined && isolationRaw !== "vm" && isolationRaw !== "process") return null;
+  const declaredPaths = isRecord(args.declaredPaths)
+    ? { read: asStringArray(args.declaredPaths.read) ?? [], write: asStringArray(args.declaredPaths.write) ?? [] }
+    : undefined;
+
   return {
     nodeId,
     iife,
@@ -58,6 +71,8 @@ export function parseCodeRunRequest(
     memoryCapMb,
     artifactOutputRef,
     expectedReturnShape: { type: expectedType, requiredKeys },
+    isolation: isolationRaw,
+    declaredPaths,
   };
 }
 
@@ -85,14 +100,24 @@ export function approvedCommitGates(plan: PlanGraphDocument): string[] {
 
 /* ── Worktree validation ───────────────────────────────────── */
 
+/**
+ * With an isolated checkout (session.worktree) the plan must stay inside it,
+ * so patches can never reach the live repository.
+ */
 export function validatePlanWorktreeRoot(
   worktreeRoot: string,
-  workId: string
+  workId: string,
+  isolatedRoot?: string
 ): { ok: true } | { ok: false; reason: string } {
   if (!worktreeRoot || worktreeRoot.trim().length === 0) {
     return { ok: false, reason: "Plan worktreeRoot is required." };
   }
   const resolved = path.resolve(worktreeRoot);
+  if (isolatedRoot) {
+    return isPathWithin(resolved, path.resolve(isolatedRoot))
+      ? { ok: true }
+      : { ok: false, reason: `Plan worktreeRoot must stay within this work item's isolated worktree '${isolatedRoot}'.` };
+  }
   const targetRoot = path.resolve(resolveTargetRepoRoot());
   const scopedWorkRoot = path.resolve(workRoot(workId));
 
@@ -102,6 +127,11 @@ export function validatePlanWorktreeRoot(
   return { ok: false, reason: "Plan worktreeRoot must stay within MCP target repo root or .ai scoped work root." };
 }
 
+/** Root that reads, patches and sandboxed runs resolve against for this session. */
+export function sessionWorktreeRoot(session: SessionState): string {
+  return session.planGraph?.worktreeRoot ?? session.worktree?.root ?? resolveTargetRepoRoot();
+}
+
 /* ── Anchor extraction ─────────────────────────────────────── */
 
 export function extractAnchors(args: Record<string, unknown> | undefined): {
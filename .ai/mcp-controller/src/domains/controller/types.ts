@@ -3,6 +3,7 @@ import type { PlanGraphDocument } from "../../contracts/planGraph";
 import type { ConnectorArtifact } from "../connectors/connectorRegistry";
 import type { EnforcementBundle } from "../plan-graph/enforcementBundle";
 import type { ScopeAllowlist } from "../worktree-scope/worktreeScopeService";
+import type { WorkWorktree } from "../../infrastructure/git/worktreeManager";
 
 export interface SessionState {
   runSessionId: string;
@@ -13,7 +14,11 @@ export interface SessionState {
   rejectionCounts: Record<string, number>;
   actionCounts: Record<string, number>;
   usedTokens: number;
+  /** Token budget resolved for this work item; absent on snapshots taken before budgets were per-session */
+  budget?: SessionBudget;
   planGraph?: PlanGraphDocument;
+  /** Isolated checkout created by initialize_work; absent when repo.isolation is "none" */
+  worktree?: WorkWorktree;
   scopeAllowlist: ScopeAllowlist | null;
   artifacts: ConnectorArtifact[];
   contextPack?: {
@@ -21,6 +26,8 @@ export interface SessionState {
     hash: string;
     files: string[];
   };
+  /** Bumped by every accepted submit_execution_plan and amend_execution_plan; absent before the first plan */
+  planRevision?: number;
   planGraphProgress?: {
     totalNodes: number;
     completedNodes: number;
@@ -30,6 +37,21 @@ export interface SessionState {
   };
   /** Enforcement bundle computed from memories + graph policies during initialize_work */
   enforcementBundle?: EnforcementBundle;
+  /** Version of the last persisted snapshot (see SessionStore); absent until first save */
+  snapshotVersion?: number;
+}
+
+export interface SessionBudget {
+  maxTokens: number;
+  thresholdPercent: number;
+  /** Where maxTokens/thresholdPercent came from */
+  source: "config" | "strategy" | "initialize_work";
+  /** Tokens granted by request_budget_extension; raises both the ceiling and the threshold */
+  extensionTokens: number;
+  /** Warning fractions already reported as budget_warning events */
+  warnedPercents: number[];
+  /** State to return to once an extension lifts BLOCKED_BUDGET */
+  resumeState?: RunState;
 }
 
 export interface VerbResult {
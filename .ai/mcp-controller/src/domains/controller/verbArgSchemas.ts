@@ -0,0 +1,172 @@
+import { validateJsonSchema, type JsonSchema, type SchemaViolation } from "../../shared/jsonSchema";
+import { PLAN_GRAPH_JSON_SCHEMA, PLAN_NODE_JSON_SCHEMA } from "../plan-graph/planGraphSchema";
+import { DEPENDENCY_RELATIONS } from "../indexing/dependencyGraph";
+import { listAstCodemods } from "../patch-exec/astCodemodCatalog";
+
+/*
+ * JSON Schemas for the `args` of every controller verb. The controller checks
+ * incoming args against them before dispatch, and the MCP layer publishes
+ * them as inputSchema when verbs are exposed as individual tools. Each schema
+ * lists the properties a handler reads; unlisted args (e.g. `anchors`) pass
+ * through untouched.
+ */
+
+const text = (description?: string): JsonSchema => ({ type: "string", minLength: 1, ...(description ? { description } : {}) });
+const optionalText = (description?: string): JsonSchema => ({ type: "string", ...(description ? { description } : {}) });
+const stringList = (description?: string): JsonSchema => ({ type: "array", items: { type: "string" }, ...(description ? { description } : {}) });
+const positive = (description?: string): JsonSchema => ({ type: "number", minimum: 1, ...(description ? { description } : {}) });
+const globs: JsonSchema = { type: ["string", "array"], items: { type: "string" }, description: "Path glob or list of globs." };
+
+function objectArgs(properties: Record<string, JsonSchema>, required: string[] = [], extra: Partial<JsonSchema> = {}): JsonSchema {
+  return { type: "object", properties, required, ...extra };
+}
+
+function patchArgsSchema(): JsonSchema {
+  // Built per call so codemods registered at runtime get their params checked too
+  const codemodRules: JsonSchema[] = listAstCodemods().map((codemod) => ({
+    if: { properties: { operation: { const: "ast_codemod" }, codemodId: { const: codemod.id } }, required: ["operation", "codemodId"] },
+    then: {
+      required: ["codemodParams"],
+      properties: {
+        codemodParams: {
+          type: "object",
+          required: codemod.requiredParams,
+          properties: Object.fromEntries(codemod.requiredParams.map((param) => [param, text()])),
+        },
+      },
+    },
+  }));
+  return objectArgs({
+    nodeId: text("change node the edit belongs to"),
+    targetFile: text("worktree-relative file path"),
+    targetSymbols: stringList(),
+    operation: { enum: ["replace_text", "unified_diff", "ast_codemod"], description: "Defaults to replace_text." },
+    find: text("replace_text: exact text to find"),
+    replace: optionalText("replace_text: replacement text"),
+    diff: text("unified_diff: the diff to apply"),
+    codemodId: text("ast_codemod: codemod id from the codemod catalog"),
+    codemodParams: { type: "object", description: "ast_codemod: the codemod's requiredParams" },
+  }, ["nodeId", "targetFile"], {
+    allOf: [
+      { if: { properties: { operation: { const: "replace_text" } } }, then: { required: ["find"] } },
+      { if: { properties: { operation: { const: "unified_diff" } }, required: ["operation"] }, then: { required: ["diff"] } },
+      { if: { properties: { operation: { const: "ast_codemod" } }, required: ["operation"] }, then: { required: ["codemodId"] } },
+      ...codemodRules,
+    ],
+  });
+}
+
+const SCHEMAS: Record<string, () => JsonSchema> = {
+  initialize_work: () => objectArgs({
+    lexemes: stringList("search terms taken from the task"),
+    attachments: { type: "array", items: { type: "object" } },
+    budget: objectArgs({ maxTokens: { type: "number" }, thresholdPercent: { type: "number" } }),
+    symbolHints: stringList(),
+    activePolicies: stringList(),
+    taskConstraints: stringList(),
+    conflicts: stringList(),
+    validationPlan: stringList(),
+    missingness: stringList(),
+    policyVersionSet: { type: "object" },
+    chainSeed: optionalText(),
+  }),
+  read_file_lines: () => objectArgs({
+    targetFile: text("worktree-relative file path"),
+    startLine: positive("1-based first line"),
+    endLine: positive("1-based last line"),
+  }, ["targetFile"]),
+  lookup_symbol_definition: () => objectArgs({ symbol: text(), limit: positive() }, ["symbol"]),
+  trace_symbol_graph: () => objectArgs({
+    symbol: text(),
+    targetFile: text(),
+    query: text(),
+    relation: { enum: [...DEPENDENCY_RELATIONS, "neighbors"] },
+    depth: positive(),
+    limit: positive(),
+  }, [], { anyOf: [{ required: ["symbol"] }, { required: ["targetFile"] }, { required: ["query"] }] }),
+  search_codebase_text: () => objectArgs({
+    query: text("words, \"quoted phrase\" or /regex/flags"),
+    lexeme: text("alias of query"),
+    limit: positive(),
+    include: globs,
+    exclude: globs,
+  }, [], { anyOf: [{ required: ["query"] }, { required: ["lexeme"] }] }),
+  request_budget_extension: () => objectArgs({ additionalTokens: positive(), reason: text() }, ["additionalTokens", "reason"]),
+  escalate: () => objectArgs({
+    need: text("what context is missing"),
+    type: optionalText("artifact_fetch, graph_expand, pack_rebuild or scope_expand (default)"),
+    requestedEvidence: {
+      type: "array",
+      items: objectArgs({ type: optionalText(), detail: optionalText() }),
+    },
+    blockingReasons: stringList(),
+  }, [], { anyOf: [{ required: ["need"] }, { required: ["blockingReasons"] }, { required: ["requestedEvidence"] }] }),
+  write_scratch_file: () => objectArgs({ target: text("path relative to the scratch directory"), content: optionalText() }, ["target", "content"]),
+  submit_execution_plan: () => objectArgs({ planGraph: PLAN_GRAPH_JSON_SCHEMA }, ["planGraph"]),
+  amend_execution_plan: () => objectArgs({
+    reason: text("why the plan changes"),
+    addNodes: { type: "array", items: PLAN_NODE_JSON_SCHEMA },
+    removeNodeIds: stringList(),
+    updateNodes: {
+      type: "array",
+      items: objectArgs({
+        nodeId: text(),
+        targetSymbols: stringList(),
+        mapsToNodeIds: stringList(),
+        dependsOn: stringList(),
+      }, ["nodeId"]),
+    },
+    baseRevision: { type: "number", description: "planRevision the delta was built against" },
+  }, ["reason"]),
+  apply_code_patch: patchArgsSchema,
+  revert_code_patch: () => objectArgs({ nodeId: text("change node to roll back; omit for the whole plan") }),
+  run_sandboxed_code: () => objectArgs({
+    nodeId: text(),
+    iife: text("self-invoking function source"),
+    declaredInputs: { type: "object" },
+    timeoutMs: positive(),
+    memoryCapMb: positive(),
+    artifactOutputRef: text(),
+    expectedReturnShape: {
+      type: ["string", "object"],
+      properties: {
+        type: { enum: ["object", "string", "number", "array", "boolean"] },
+        requiredKeys: stringList(),
+      },
+    },
+    isolation: { enum: ["vm", "process"] },
+    declaredPaths: objectArgs({ read: stringList(), write: stringList() }),
+    externalSideEffects: stringList(),
+    graphMutations: stringList(),
+  }, ["nodeId", "iife", "declaredInputs", "timeoutMs", "memoryCapMb", "artifactOutputRef", "expectedReturnShape"]),
+  execute_gated_side_effect: () => objectArgs({
+    nodeId: text("side_effect node to execute"),
+    commitGateId: text("the node's commitGateId"),
+    dryRun: { type: "boolean" },
+    idempotencyKey: optionalText(),
+    payload: { type: "object" },
+    files: stringList(),
+    symbols: stringList(),
+    graphMutations: stringList(),
+    externalSideEffects: stringList(),
+  }, ["nodeId", "commitGateId"]),
+  run_automation_recipe: () => objectArgs({
+    recipeId: text(),
+    planNodeId: text(),
+    validatedParams: { type: "object" },
+  }, ["recipeId", "planNodeId"]),
+  handoff: () => objectArgs({ nodeId: text(), toAgentId: text(), note: optionalText() }, ["nodeId", "toAgentId"]),
+  signal_task_complete: () => objectArgs({ summary: optionalText(), lessonsLearned: { type: ["string", "array", "object"] } }),
+};
+
+/** The args schema of `verb`, or undefined for verbs the controller does not know. */
+export function verbArgSchema(verb: string): JsonSchema | undefined {
+  return SCHEMAS[verb]?.();
+}
+
+/** Schema violations of `args` for `verb`, with paths rooted at `args`. Unknown verbs are not checked. */
+export function validateVerbArgs(verb: string, args: Record<string, unknown> | undefined): SchemaViolation[] {
+  const schema = verbArgSchema(verb);
+  if (!schema) return [];
+  return validateJsonSchema(args ?? {}, schema, "args");
+}
@@ -0,0 +1,195 @@
+import type { GatewayConfig } from "../../config/types";
+
+/** An agent's hold on a plan node; only the holder may mutate under it until it expires. */
+export interface NodeClaim {
+  nodeId: string;
+  agentId: string;
+  claimedAt: string;
+  expiresAt: string;
+  /** Agent that handed the node over, when the claim came from a handoff */
+  handedOffFrom?: string;
+}
+
+/** A claim's hold on a file; `symbols` narrows it, an empty list covers the whole file. */
+export interface FileLease {
+  file: string;
+  symbols: string[];
+  agentId: string;
+  nodeId: string;
+  expiresAt: string;
+}
+
+export interface HandoffNote {
+  nodeId: string;
+  fromAgentId: string;
+  toAgentId: string;
+  note?: string;
+  at: string;
+}
+
+export interface CoordinationConflict {
+  kind: "claim" | "lease";
+  nodeId: string;
+  holderAgentId: string;
+  expiresAt: string;
+  file?: string;
+}
+
+interface ScopeState {
+  claims: Map<string, NodeClaim>;
+  leases: FileLease[];
+  handoffs: HandoffNote[];
+}
+
+/**
+ * Shared bookkeeping for all agents of one work scope (`runSessionId:workId`):
+ * who holds which plan node, which files/symbols those claims lease, and the
+ * handoff notes waiting for their recipient. Claims and leases expire after
+ * `coordination.leaseTtlMs` without activity, so a vanished agent never
+ * blocks its siblings for long. State is in-memory; after a restart agents
+ * simply claim again.
+ */
+export class WorkScopeCoordinator {
+  private readonly scopes = new Map<string, ScopeState>();
+
+  constructor(
+    private readonly config: GatewayConfig["coordination"],
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * Claim (or renew) `nodeId` for `agentId` and lease its files. Fails when a
+   * sibling holds a live claim on the node or a live lease overlapping one of
+   * the files; nothing is taken in that case.
+   */
+  acquire(
+    scopeKey: string,
+    input: { agentId: string; nodeId: string; files: Array<{ file: string; symbols: string[] }> }
+  ): { ok: true; claim: NodeClaim } | { ok: false; conflict: CoordinationConflict } {
+    const conflict = this.conflictFor(scopeKey, input);
+    if (conflict) return { ok: false, conflict };
+
+    const scope = this.scope(scopeKey);
+    const held = scope.claims.get(input.nodeId);
+    const expiresAt = this.expiry();
+    const claim: NodeClaim = held
+      ? { ...held, expiresAt }
+      : { nodeId: input.nodeId, agentId: input.agentId, claimedAt: new Date(this.now()).toISOString(), expiresAt };
+    scope.claims.set(input.nodeId, claim);
+    for (const lease of scope.leases) {
+      if (lease.nodeId === input.nodeId) lease.expiresAt = expiresAt;
+    }
+    for (const wanted of input.files) {
+      const own = scope.leases.find((lease) => lease.nodeId === input.nodeId && lease.file === wanted.file);
+      if (own) {
+        own.symbols = own.symbols.length === 0 || wanted.symbols.length === 0 ? [] : [...new Set([...own.symbols, ...wanted.symbols])];
+      } else {
+        scope.leases.push({ file: wanted.file, symbols: [...wanted.symbols], agentId: input.agentId, nodeId: input.nodeId, expiresAt });
+      }
+    }
+    return { ok: true, claim };
+  }
+
+  /** What `acquire` would fail on, without taking anything; null when it would succeed. */
+  conflictFor(
+    scopeKey: string,
+    input: { agentId: string; nodeId: string; files: Array<{ file: string; symbols: string[] }> }
+  ): CoordinationConflict | null {
+    const scope = this.scope(scopeKey);
+    const held = scope.claims.get(input.nodeId);
+    if (held && held.agentId !== input.agentId) {
+      return { kind: "claim", nodeId: input.nodeId, holderAgentId: held.agentId, expiresAt: held.expiresAt };
+    }
+    for (const wanted of input.files) {
+      const blocking = scope.leases.find((lease) => lease.agentId !== input.agentId
+        && lease.file === wanted.file
+        && symbolsOverlap(lease.symbols, wanted.symbols));
+      if (blocking) {
+        return { kind: "lease", nodeId: blocking.nodeId, holderAgentId: blocking.agentId, expiresAt: blocking.expiresAt, file: blocking.file };
+      }
+    }
+    return null;
+  }
+
+  /** Drop the node's claim and leases once it is completed. */
+  complete(scopeKey: string, nodeId: string): { claimReleased: boolean; leasesReleased: number } {
+    const scope = this.scope(scopeKey);
+    const claimReleased = scope.claims.delete(nodeId);
+    const before = scope.leases.length;
+    scope.leases = scope.leases.filter((lease) => lease.nodeId !== nodeId);
+    return { claimReleased, leasesReleased: before - scope.leases.length };
+  }
+
+  /** Move a node the caller holds, with its leases, to another agent and leave that agent a note. */
+  handoff(
+    scopeKey: string,
+    input: { nodeId: string; fromAgentId: string; toAgentId: string; note?: string }
+  ): { ok: true; claim: NodeClaim } | { ok: false; reason: string } {
+    const scope = this.scope(scopeKey);
+    const held = scope.claims.get(input.nodeId);
+    if (!held || held.agentId !== input.fromAgentId) {
+      return {
+        ok: false,
+        reason: held
+          ? `Node '${input.nodeId}' is claimed by agent '${held.agentId}', not by you.`
+          : `You hold no live claim on node '${input.nodeId}'. Claims are taken by mutating under the node (apply_code_patch, run_sandboxed_code, ...).`,
+      };
+    }
+    const expiresAt = this.expiry();
+    const claim: NodeClaim = { ...held, agentId: input.toAgentId, expiresAt, handedOffFrom: input.fromAgentId };
+    scope.claims.set(input.nodeId, claim);
+    for (const lease of scope.leases) {
+      if (lease.nodeId === input.nodeId) {
+        lease.agentId = input.toAgentId;
+        lease.expiresAt = expiresAt;
+      }
+    }
+    scope.handoffs.push({
+      nodeId: input.nodeId,
+      fromAgentId: input.fromAgentId,
+      toAgentId: input.toAgentId,
+      ...(input.note ? { note: input.note } : {}),
+      at: new Date(this.now()).toISOString(),
+    });
+    return { ok: true, claim };
+  }
+
+  /** Handoff notes addressed to `agentId`; each is delivered once. */
+  takeHandoffs(scopeKey: string, agentId: string): HandoffNote[] {
+    const scope = this.scope(scopeKey);
+    const mine = scope.handoffs.filter((note) => note.toAgentId === agentId);
+    scope.handoffs = scope.handoffs.filter((note) => note.toAgentId !== agentId);
+    return mine;
+  }
+
+  /** Live claims and leases of the scope. */
+  snapshot(scopeKey: string): { claims: NodeClaim[]; leases: FileLease[] } {
+    const scope = this.scope(scopeKey);
+    return { claims: [...scope.claims.values()], leases: scope.leases.map((lease) => ({ ...lease, symbols: [...lease.symbols] })) };
+  }
+
+  /** The scope's state with expired claims and leases pruned. */
+  private scope(scopeKey: string): ScopeState {
+    let scope = this.scopes.get(scopeKey);
+    if (!scope) {
+      scope = { claims: new Map(), leases: [], handoffs: [] };
+      this.scopes.set(scopeKey, scope);
+    }
+    const now = this.now();
+    for (const [nodeId, claim] of scope.claims) {
+      if (Date.parse(claim.expiresAt) <= now) scope.claims.delete(nodeId);
+    }
+    scope.leases = scope.leases.filter((lease) => Date.parse(lease.expiresAt) > now);
+    return scope;
+  }
+
+  private expiry(): string {
+    return new Date(this.now() + this.config.leaseTtlMs).toISOString();
+  }
+}
+
+function symbolsOverlap(left: string[], right: string[]): boolean {
+  if (left.length === 0 || right.length === 0) return true;
+  const set = new Set(left);
+  return right.some((symbol) => set.has(symbol));
+}
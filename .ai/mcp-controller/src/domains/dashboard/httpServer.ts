@@ -1,8 +1,11 @@
 import express from "express";
 import path from "node:path";
 import { readdir } from "node:fs/promises";
+import { DEFAULT_CONFIG, type GatewayConfig } from "../../config/types";
 import { DEFAULT_DASHBOARD_PORT } from "../../shared/constants";
+import { McpHttpTransport } from "../../mcp/httpTransport";
 import { observabilityRoot, resolveRepoRoot, workRoot } from "../../shared/fsPaths";
+import { readWorktreeRecord } from "../../infrastructure/git/worktreeManager";
 import { TurnController } from "../controller/turnController";
 import { EventStore } from "../observability/eventStore";
 import type { TurnRequest } from "../../contracts/controller";
@@ -11,10 +14,17 @@ export async function startHttpServer(input: {
   controller: TurnController;
   events: EventStore;
   port?: number;
+  /** Streamable HTTP MCP endpoint settings; defaults mount it at /mcp */
+  mcpHttp?: GatewayConfig["mcpHttp"];
 }): Promise<void> {
   const app = express();
   app.use(express.json({ limit: "2mb" }));
 
+  const mcpHttp = input.mcpHttp ?? DEFAULT_CONFIG.mcpHttp;
+  if (mcpHttp.enabled) {
+    new McpHttpTransport({ controller: input.controller, config: mcpHttp }).mount(app);
+  }
+
   app.get("/health", (_req, res) => {
     res.json({ ok: true });
   });
@@ -36,12 +46,18 @@ export async function startHttpServer(input: {
     const workBase = path.join(resolveRepoRoot(), ".ai", "tmp", "work");
     try {
       const entries = await readdir(workBase, { withFileTypes: true });
-      res.json({
-        worktrees: entries.filter((entry) => entry.isDirectory()).map((entry) => ({
+      const worktrees = [];
+      for (const entry of entries.filter((item) => item.isDirectory())) {
+        // Work dirs without a worktree.json only hold scratch files (repo.isolation "none")
+        const record = await readWorktreeRecord(entry.name);
+        worktrees.push({
           workId: entry.name,
-          path: workRoot(entry.name)
-        }))
-      });
+          path: workRoot(entry.name),
+          isolated: record !== null,
+          ...(record ? { root: record.root, branch: record.branch, baseRef: record.baseRef, mode: record.mode } : {})
+        });
+      }
+      res.json({ worktrees });
     } catch {
       res.json({ worktrees: [] });
     }
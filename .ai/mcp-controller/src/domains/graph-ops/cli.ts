@@ -1,9 +1,10 @@
 import path from "node:path";
 import { loadGatewayConfig } from "../../config/loadConfig";
-import { GraphOpsService } from "./graphOpsService";
+import { GraphOpsService, type GraphSyncResult } from "./graphOpsService";
 import { resolveRepoRoot, resolveTargetRepoRoot } from "../../shared/fsPaths";
 import { generateFactSeedFiles } from "./seedFactsFromIndex";
 import { IndexingService } from "../indexing/indexingService";
+import { loadOpenApiSpecs } from "../indexing/openApiParser";
 
 async function main(): Promise<void> {
   const command = process.argv[2] ?? "sync";
@@ -13,20 +14,21 @@ async function main(): Promise<void> {
     seedRoot: path.join(repoRoot, config.graph.seedRoot),
     outRoot: path.join(repoRoot, config.graph.outRoot),
     cypherRoot: path.join(repoRoot, config.graph.cypherRoot),
-    neo4j: config.neo4j
+    neo4j: config.neo4j,
+    backend: config.graph.backend,
+    storePath: path.join(repoRoot, config.graph.storePath)
   });
 
+  const full = process.argv.includes("--full");
+
   if (command === "sync") {
-    const result = await service.sync();
-    process.stdout.write(
-      `graphops sync complete. appliedCypherStatements=${result.appliedCypherStatements} seededRows=${result.seededRows}\n`
-    );
+    writeSyncSummary(await service.sync({ full }));
     return;
   }
 
   if (command === "check") {
-    await service.checkConnectivity();
-    process.stdout.write("graphops connectivity check passed.\n");
+    const backend = await service.checkConnectivity();
+    process.stdout.write(`graphops connectivity check passed. backend=${backend}\n`);
     return;
   }
 
@@ -52,40 +54,71 @@ async function main(): Promise<void> {
     const directiveUsages = indexing.getDirectiveUsages();
     const resolvedGuards = indexing.getResolvedGuards();
     const resolvedDirectives = indexing.getResolvedDirectives();
+    const httpCalls = indexing.getHttpClientCalls();
+    const angularDi = {
+      modules: indexing.getNgModules(),
+      declarables: indexing.getAngularDeclarables(),
+      injectables: indexing.getInjectables(),
+      injectionTokens: indexing.getInjectionTokens(),
+      standaloneDefault: indexing.getAngularStandaloneDefault(),
+    };
+    const selectorResolutions = indexing.getTemplateSelectorResolutions();
+    const apiSpecs = await loadOpenApiSpecs(targetRoot, config.swagger.roots);
+    for (const failure of apiSpecs.failures) {
+      process.stdout.write(`graphops seed-facts: skipped swagger root ${failure.specFile}: ${failure.reason}\n`);
+    }
     const seedRoot = path.join(repoRoot, config.graph.seedRoot);
 
     process.stdout.write(
       `graphops seed-facts: extracted ${symbols.length} symbols, ${usageFacts.length} template usage facts, ` +
       `${routes.length} routes, ${routerLinks.length} routerLinks, ${routerOutletFiles.length} router-outlet files, ` +
       `${directiveUsages.length} directive usages, ${resolvedGuards.length} resolved guards, ` +
-      `${resolvedDirectives.length} resolved directives\n`
+      `${resolvedDirectives.length} resolved directives, ${apiSpecs.specs.length} OpenAPI specs, ` +
+      `${httpCalls.length} HttpClient calls, ${angularDi.modules.length} NgModules, ` +
+      `${angularDi.declarables.length} components/directives/pipes, ${angularDi.injectables.length} injectables\n`
     );
 
     const result = await generateFactSeedFiles(
       targetRoot, seedRoot, symbols, usageFacts, routes, routerLinks,
-      routerOutletFiles, directiveUsages, resolvedGuards, resolvedDirectives,
+      routerOutletFiles, directiveUsages, resolvedGuards, resolvedDirectives, apiSpecs.specs, httpCalls,
+      angularDi, selectorResolutions,
     );
     process.stdout.write(
       `graphops seed-facts complete. anchors=${result.anchorCount} symbols=${result.symbolCount} ` +
       `components=${result.componentCount} usageExamples=${result.usageExampleCount} ` +
-      `routes=${result.routeCount} edges=${result.edgeCount}\n`
+      `routes=${result.routeCount} apiEndpoints=${result.apiEndpointCount} apiSchemas=${result.apiSchemaCount} ` +
+      `ngModules=${result.ngModuleCount} declarables=${result.angularDeclarableCount} edges=${result.edgeCount}\n`
     );
+    for (const resolution of selectorResolutions.filter((item) => item.status === "not_in_scope")) {
+      process.stdout.write(
+        `graphops seed-facts: ${resolution.kind === "element" ? `<${resolution.name}>` : `[${resolution.name}]`} used in ${path.relative(targetRoot, resolution.filePath)}:${resolution.line + 1} ` +
+        `is not in ${resolution.host}'s scope (import ${resolution.candidates.join(" or ") || resolution.declarable})\n`
+      );
+    }
     process.stdout.write(`  files written: ${result.files.join(", ")}\n`);
 
     const doSync = process.argv.includes("--sync");
     if (doSync) {
-      process.stdout.write("graphops seed-facts: running sync to load into Neo4j...\n");
-      const syncResult = await service.sync();
-      process.stdout.write(
-        `graphops sync complete. appliedCypherStatements=${syncResult.appliedCypherStatements} seededRows=${syncResult.seededRows}\n`
-      );
+      process.stdout.write("graphops seed-facts: running sync to load into the graph...\n");
+      writeSyncSummary(await service.sync({ full }));
     } else {
-      process.stdout.write("graphops seed-facts: JSONL written. Run with --sync to also load into Neo4j.\n");
+      process.stdout.write("graphops seed-facts: JSONL written. Run with --sync to also load into the graph.\n");
     }
     return;
   }
 
-  process.stdout.write("usage: tsx src/domains/graph-ops/cli.ts <check|sync|export|seed-facts> [--sync]\n");
+  process.stdout.write("usage: tsx src/domains/graph-ops/cli.ts <check|sync|export|seed-facts> [--sync] [--full]\n");
+}
+
+function writeSyncSummary(result: GraphSyncResult): void {
+  const { changes } = result;
+  process.stdout.write(
+    `graphops sync complete. mode=${result.mode}${result.fullReason ? ` (${result.fullReason})` : ""} ` +
+    `appliedCypherStatements=${result.appliedCypherStatements} seededRows=${result.seededRows}\n` +
+    `  nodesUpserted=${changes.nodesUpserted} nodesDeleted=${changes.nodesDeleted} ` +
+    `relationshipsUpserted=${changes.relationshipsUpserted} relationshipsDeleted=${changes.relationshipsDeleted} ` +
+    `queriesApplied=${changes.queriesApplied} unchangedRows=${changes.unchangedRows}\n`
+  );
 }
 
 main().catch((error) => {
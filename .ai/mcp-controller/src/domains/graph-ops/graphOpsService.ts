@@ -1,8 +1,10 @@
 import path from "node:path";
-import { readdir, readFile, writeFile } from "node:fs/promises";
+import { createHash } from "node:crypto";
+import { readdir, readFile, stat, writeFile } from "node:fs/promises";
 import { ensureDir } from "../../shared/fileStore";
 import { replaceWithGuard } from "../../shared/replaceGuard";
-import { Neo4jClient, type Neo4jConnectionConfig } from "../../infrastructure/neo4j/client";
+import { Neo4jClient, type GraphClient, type Neo4jConnectionConfig } from "../../infrastructure/neo4j/client";
+import { EmbeddedGraphStore } from "../../infrastructure/graph-store/embeddedGraphStore";
 
 type SeedRow =
   | {
@@ -27,16 +29,80 @@ type SeedRow =
       properties?: Record<string, unknown>;
     };
 
+type KeyedSeedRow = Extract<SeedRow, { kind: "node" | "relationship" | "rel" }>;
+type QuerySeedRow = Extract<SeedRow, { kind: "cypher" | "query" }>;
+
+/** Everything a sync loads: schema scripts, direct queries and the conflict-resolved keyed rows. */
+interface SeedContents {
+  cypherStatements: string[];
+  directQueries: QuerySeedRow[];
+  keyedRows: Map<string, KeyedSeedRow>;
+}
+
+/**
+ * What the last sync loaded into each graph, keyed by graph target, so the
+ * next sync can apply only the seed diff.
+ * [REF:GRAPH-INCREMENTAL-SYNC]
+ */
+interface SyncManifest {
+  version: 1;
+  targets: Record<string, SyncedGraph>;
+}
+
+interface SyncedGraph {
+  syncedAt: string;
+  cypherHash: string;
+  /** Hashes of the direct query rows already run */
+  queries: string[];
+  /** Keyed by seedRowKey */
+  rows: Record<string, SyncedRow>;
+}
+
+interface SyncedRow {
+  hash: string;
+  /** Property keys the row set; keys later dropped from the seed are removed from the graph */
+  keys: string[];
+  /** Conflict version when the row carried version metadata */
+  version: number | null;
+  /** The row without its properties — enough to delete it once it leaves the seed */
+  ref: KeyedSeedRow;
+}
+
+/**
+ * Which store answers graph queries: a live Neo4j, the file-backed embedded
+ * store, or Neo4j when reachable and the embedded store otherwise.
+ * [REF:EMBEDDED-GRAPH]
+ */
+export type GraphBackend = "neo4j" | "embedded" | "auto";
+
 export interface GraphOpsConfig {
   seedRoot: string;
   outRoot: string;
   cypherRoot: string;
   neo4j: Neo4jConnectionConfig;
+  backend: GraphBackend;
+  /** Snapshot file of the embedded store; its directory also holds the sync manifest */
+  storePath: string;
+}
+
+export interface GraphSyncChanges {
+  nodesUpserted: number;
+  nodesDeleted: number;
+  relationshipsUpserted: number;
+  relationshipsDeleted: number;
+  queriesApplied: number;
+  unchangedRows: number;
 }
 
 export interface GraphSyncResult {
+  /** "full" dropped and reloaded the graph; "incremental" applied only the seed diff */
+  mode: "full" | "incremental";
+  /** Why a full sync ran, when it did */
+  fullReason?: string;
   appliedCypherStatements: number;
+  /** Seed rows written (queries plus upserts) */
   seededRows: number;
+  changes: GraphSyncChanges;
 }
 
 export class GraphOpsService {
@@ -51,35 +117,53 @@ export class GraphOpsService {
     this.assertPathIsolation();
   }
 
-  async checkConnectivity(): Promise<void> {
-    const client = new Neo4jClient(this.config.neo4j);
+  /** Verifies the configured backend answers and reports which one did. */
+  async checkConnectivity(): Promise<"neo4j" | "embedded"> {
+    const client = await this.openClient();
     try {
-      await client.verifyConnectivity();
+      return client instanceof EmbeddedGraphStore ? "embedded" : "neo4j";
     } finally {
       await client.close();
     }
   }
 
-  async sync(): Promise<GraphSyncResult> {
-    const client = new Neo4jClient(this.config.neo4j);
+  /**
+   * Opens a client on the configured backend for graph queries. An embedded
+   * store that was never synced, or was synced from different seed files, is
+   * synced from the seed first so it answers like a freshly synced Neo4j.
+   * The caller closes the client.
+   */
+  async connect(): Promise<GraphClient> {
+    const client = await this.openClient();
     try {
-      await client.verifyConnectivity();
-      await this.dropAll(client);
-      const appliedCypherStatements = await this.rebuildIndexes(client);
-      const seededRows = await this.upsertSeed(client);
-      // Sync is a full graph rebuild; clear export watermark so next export is deterministic.
-      await this.writeWatermark({ lastExportAt: "" });
-      return { appliedCypherStatements, seededRows };
+      if (client instanceof EmbeddedGraphStore && await client.loadedSeedFingerprint() !== await this.seedFingerprint()) {
+        await this.applySeed(client, false);
+      }
+      return client;
+    } catch (error) {
+      await client.close();
+      throw error;
+    }
+  }
+
+  /**
+   * Brings the graph in line with the seed. By default only rows whose content
+   * changed since the last sync into this graph are upserted or deleted, so
+   * nodes other tools wrote survive. `full` — or a graph with no sync manifest
+   * or no nodes — drops everything and reloads instead.
+   */
+  async sync(options: { full?: boolean } = {}): Promise<GraphSyncResult> {
+    const client = await this.openClient();
+    try {
+      return await this.applySeed(client, options.full === true);
     } finally {
       await client.close();
     }
   }
 
   async exportSnapshot(tag = "delta"): Promise<{ files: string[]; nodeCount: number; relationshipCount: number }> {
-    const client = new Neo4jClient(this.config.neo4j);
+    const client = await this.connect();
     try {
-      await client.verifyConnectivity();
-
       const watermark = await this.readWatermark();
       const since = watermark.lastExportAt ?? "";
       const now = new Date().toISOString();
@@ -126,29 +210,151 @@ export class GraphOpsService {
     }
   }
 
-  private async dropAll(client: Neo4jClient): Promise<void> {
-    await client.runWrite("MATCH (n) DETACH DELETE n");
+  private async openClient(): Promise<GraphClient> {
+    if (this.config.backend !== "embedded") {
+      const neo4j = new Neo4jClient(this.config.neo4j);
+      try {
+        await neo4j.verifyConnectivity();
+        return neo4j;
+      } catch (error) {
+        await neo4j.close();
+        if (this.config.backend === "neo4j") {
+          throw error;
+        }
+      }
+    }
+    const store = new EmbeddedGraphStore({ storePath: this.config.storePath });
+    await store.verifyConnectivity();
+    return store;
   }
 
-  private async rebuildIndexes(client: Neo4jClient): Promise<number> {
-    const scriptFiles = await listCypherFiles(this.config.cypherRoot);
-    let applied = 0;
-    for (const scriptFile of scriptFiles) {
-      const content = await readFile(scriptFile, "utf8");
-      const statements = splitCypherStatements(content);
-      for (const statement of statements) {
-        await client.runWrite(statement);
-        applied += 1;
+  private async applySeed(client: GraphClient, full: boolean): Promise<GraphSyncResult> {
+    const seed = await this.readSeed();
+    const manifest = await this.readManifest();
+    const target = this.manifestTarget(client);
+    const previous = manifest.targets[target];
+    const syncedAt = new Date().toISOString();
+
+    let result: GraphSyncResult;
+    if (full) {
+      result = await this.fullSync(client, seed, syncedAt, "requested");
+    } else if (!previous) {
+      result = await this.fullSync(client, seed, syncedAt, "no sync manifest for this graph");
+    } else if ((await client.runRead("MATCH (n) RETURN n.id AS id LIMIT 1")).length === 0) {
+      result = await this.fullSync(client, seed, syncedAt, "graph is empty");
+    } else {
+      result = await this.incrementalSync(client, seed, previous, syncedAt);
+    }
+
+    manifest.targets[target] = syncedGraphOf(seed, syncedAt);
+    await this.writeManifest(manifest);
+    if (client instanceof EmbeddedGraphStore) {
+      await client.markSeedLoaded(await this.seedFingerprint());
+    }
+    return result;
+  }
+
+  private async fullSync(client: GraphClient, seed: SeedContents, syncedAt: string, reason: string): Promise<GraphSyncResult> {
+    await this.dropAll(client);
+    const appliedCypherStatements = await this.rebuildIndexes(client, seed.cypherStatements);
+    const changes = emptyChanges();
+    for (const row of seed.directQueries) {
+      await client.runWrite(row.query, row.params ?? {});
+      changes.queriesApplied += 1;
+    }
+    for (const row of seed.keyedRows.values()) {
+      await this.upsertRow(client, row, syncedAt, [], changes);
+    }
+    // A full sync rebuilds the graph; clear export watermark so next export is deterministic.
+    await this.writeWatermark({ lastExportAt: "" });
+    return { mode: "full", fullReason: reason, appliedCypherStatements, seededRows: rowsWritten(changes), changes };
+  }
+
+  /**
+   * Applies the diff between the seed and what the last sync loaded. The whole
+   * plan is built before the first write so a version violation aborts cleanly.
+   * The export watermark is kept: upserted rows carry a fresh
+   * _graphops_updated_at and show up in the next delta export.
+   */
+  private async incrementalSync(
+    client: GraphClient,
+    seed: SeedContents,
+    previous: SyncedGraph,
+    syncedAt: string
+  ): Promise<GraphSyncResult> {
+    const changes = emptyChanges();
+    const deletes = Object.entries(previous.rows)
+      .filter(([key]) => !seed.keyedRows.has(key))
+      .map(([, synced]) => synced.ref)
+      .sort((a, b) => Number(a.kind === "node") - Number(b.kind === "node"));
+    // DETACH DELETE takes every relationship of a removed node with it, including still-seeded ones
+    const deletedNodeIds = new Set(deletes.filter((ref) => ref.kind === "node").map((ref) => ref.id));
+
+    const upserts: Array<{ row: KeyedSeedRow; removedKeys: string[] }> = [];
+    for (const [key, row] of seed.keyedRows) {
+      const synced = previous.rows[key];
+      const detached = row.kind !== "node" && (deletedNodeIds.has(row.from.id) || deletedNodeIds.has(row.to.id));
+      if (synced?.hash === rowHash(row) && !detached) {
+        changes.unchangedRows += 1;
+        continue;
+      }
+      if (synced) {
+        assertVersionIncreased(key, synced, row);
       }
+      const properties = row.properties ?? {};
+      upserts.push({ row, removedKeys: synced ? synced.keys.filter((name) => !(name in properties)) : [] });
     }
-    return applied;
+    upserts.sort((a, b) => Number(a.row.kind !== "node") - Number(b.row.kind !== "node"));
+
+    const appliedCypherStatements = hashOf(seed.cypherStatements) === previous.cypherHash
+      ? 0
+      : await this.rebuildIndexes(client, seed.cypherStatements);
+    for (const ref of deletes) {
+      await this.deleteRow(client, ref, changes);
+    }
+    const queriesRun = new Set(previous.queries);
+    for (const row of seed.directQueries) {
+      if (!queriesRun.has(hashOf(row))) {
+        await client.runWrite(row.query, row.params ?? {});
+        changes.queriesApplied += 1;
+      }
+    }
+    for (const { row, removedKeys } of upserts) {
+      await this.upsertRow(client, row, syncedAt, removedKeys, changes);
+    }
+    return { mode: "incremental", appliedCypherStatements, seededRows: rowsWritten(changes), changes };
   }
 
-  private async upsertSeed(client: Neo4jClient): Promise<number> {
-    const syncedAt = new Date().toISOString();
+  /** Identifies the current seed and schema scripts by path, size and modification time. */
+  private async seedFingerprint(): Promise<string> {
+    const hash = createHash("sha256");
+    for (const file of [...await listJsonlFiles(this.config.seedRoot), ...await listCypherFiles(this.config.cypherRoot)]) {
+      const info = await stat(file);
+      hash.update(`${file}\0${info.size}\0${info.mtimeMs}\n`);
+    }
+    return hash.digest("hex");
+  }
+
+  private async dropAll(client: GraphClient): Promise<void> {
+    await client.runWrite("MATCH (n) DETACH DELETE n");
+  }
+
+  private async rebuildIndexes(client: GraphClient, statements: string[]): Promise<number> {
+    for (const statement of statements) {
+      await client.runWrite(statement);
+    }
+    return statements.length;
+  }
+
+  private async readSeed(): Promise<SeedContents> {
+    const cypherStatements: string[] = [];
+    for (const scriptFile of await listCypherFiles(this.config.cypherRoot)) {
+      cypherStatements.push(...splitCypherStatements(await readFile(scriptFile, "utf8")));
+    }
+
     const files = await listJsonlFiles(this.config.seedRoot);
-    const directQueries: Array<Extract<SeedRow, { kind: "cypher" | "query" }>> = [];
-    const keyedRows = new Map<string, Extract<SeedRow, { kind: "node" | "relationship" | "rel" }>>();
+    const directQueries: QuerySeedRow[] = [];
+    const keyedRows = new Map<string, KeyedSeedRow>();
 
     for (const file of files) {
       const lines = (await readFile(file, "utf8"))
@@ -161,7 +367,7 @@ export class GraphOpsService {
           continue;
         }
         if (row.kind === "cypher" || row.kind === "query") {
-          directQueries.push(row as Extract<SeedRow, { kind: "cypher" | "query" }>);
+          directQueries.push(row as QuerySeedRow);
           continue;
         }
         if (row.kind === "node" && isPolicyOrRecipeNode(row)) {
@@ -169,7 +375,7 @@ export class GraphOpsService {
         }
         const key = seedRowKey(row);
         if (key) {
-          const candidate = row as Extract<SeedRow, { kind: "node" | "relationship" | "rel" }>;
+          const candidate = row as KeyedSeedRow;
           const existing = keyedRows.get(key);
           if (!existing) {
             keyedRows.set(key, candidate);
@@ -180,30 +386,53 @@ export class GraphOpsService {
       }
     }
 
-    let applied = 0;
-    for (const row of directQueries) {
-      await client.runWrite(row.query, row.params ?? {});
-      applied += 1;
+    return { cypherStatements, directQueries, keyedRows };
+  }
+
+  private async upsertRow(
+    client: GraphClient,
+    row: KeyedSeedRow,
+    syncedAt: string,
+    removedKeys: string[],
+    changes: GraphSyncChanges
+  ): Promise<void> {
+    if (row.kind === "node") {
+      await this.upsertNode(client, row, syncedAt, removedKeys);
+      changes.nodesUpserted += 1;
+    } else {
+      await this.upsertRelationship(client, row, syncedAt, removedKeys);
+      changes.relationshipsUpserted += 1;
     }
-    for (const row of keyedRows.values()) {
-      if (row.kind === "node") {
-        await this.upsertNode(client, row, syncedAt);
-      } else {
-        await this.upsertRelationship(client, row, syncedAt);
-      }
-      applied += 1;
+  }
+
+  /** Deletes a row that left the seed; matching mirrors the MERGE patterns of the upserts. */
+  private async deleteRow(client: GraphClient, ref: KeyedSeedRow, changes: GraphSyncChanges): Promise<void> {
+    if (ref.kind === "node") {
+      const labelFragment = sanitizeLabels(ref.labels ?? [ref.label ?? "Entity"]).map((label) => `:${label}`).join("");
+      await client.runWrite(`MATCH (n${labelFragment} {id: $id}) DETACH DELETE n`, { id: ref.id });
+      changes.nodesDeleted += 1;
+      return;
     }
-    return applied;
+    const fromLabel = sanitizeLabel(ref.from.label ?? "Entity");
+    const toLabel = sanitizeLabel(ref.to.label ?? "Entity");
+    const relType = sanitizeLabel(ref.relType ?? ref.type ?? "RELATED_TO");
+    const query = ref.id
+      ? `MATCH (a:${fromLabel} {id: $fromId})-[r:${relType} {id: $relId}]->(b:${toLabel} {id: $toId}) DELETE r`
+      : `MATCH (a:${fromLabel} {id: $fromId})-[r:${relType}]->(b:${toLabel} {id: $toId}) WHERE r.id IS NULL DELETE r`;
+    await client.runWrite(query, { fromId: ref.from.id, toId: ref.to.id, relId: ref.id ?? null });
+    changes.relationshipsDeleted += 1;
   }
 
   private async upsertNode(
-    client: Neo4jClient,
+    client: GraphClient,
     row: Extract<SeedRow, { kind: "node" }>,
-    syncedAt: string
+    syncedAt: string,
+    removedKeys: string[]
   ): Promise<void> {
     const labels = sanitizeLabels(row.labels ?? [row.label ?? "Entity"]);
     const labelFragment = labels.map((label) => `:${label}`).join("");
     const props = {
+      ...nullProperties(removedKeys),
       ...(row.properties ?? {}),
       id: row.id,
       _graphops_updated_at: syncedAt
@@ -213,14 +442,16 @@ export class GraphOpsService {
   }
 
   private async upsertRelationship(
-    client: Neo4jClient,
+    client: GraphClient,
     row: Extract<SeedRow, { kind: "relationship" | "rel" }>,
-    syncedAt: string
+    syncedAt: string,
+    removedKeys: string[]
   ): Promise<void> {
     const fromLabel = sanitizeLabel(row.from.label ?? "Entity");
     const toLabel = sanitizeLabel(row.to.label ?? "Entity");
     const relType = sanitizeLabel(row.relType ?? row.type ?? "RELATED_TO");
     const relProps = {
+      ...nullProperties(removedKeys),
       ...(row.properties ?? {}),
       _graphops_updated_at: syncedAt
     };
@@ -328,6 +559,34 @@ export class GraphOpsService {
     await writeFile(filePath, JSON.stringify(value, null, 2), "utf8");
   }
 
+  private manifestPath(): string {
+    return path.join(path.dirname(this.config.storePath), "sync-manifest.json");
+  }
+
+  /** Names the graph a client writes to, so manifests of different graphs never mix. */
+  private manifestTarget(client: GraphClient): string {
+    return client instanceof EmbeddedGraphStore
+      ? `embedded:${path.resolve(this.config.storePath)}`
+      : `neo4j:${this.config.neo4j.uri}/${this.config.neo4j.database}`;
+  }
+
+  private async readManifest(): Promise<SyncManifest> {
+    try {
+      const parsed = JSON.parse(await readFile(this.manifestPath(), "utf8")) as SyncManifest;
+      if (parsed.version === 1 && isRecord(parsed.targets)) {
+        return parsed;
+      }
+    } catch {
+      // No manifest yet — every graph gets a full sync
+    }
+    return { version: 1, targets: {} };
+  }
+
+  private async writeManifest(manifest: SyncManifest): Promise<void> {
+    await ensureDir(path.dirname(this.manifestPath()));
+    await writeFile(this.manifestPath(), JSON.stringify(manifest), "utf8");
+  }
+
   private assertPathIsolation(): void {
     if (pathsOverlap(this.seedRootAbs, this.outRootAbs)) {
       throw new Error("GRAPHOPS_PATH_COLLISION: graph.outRoot must not overlap graph.seedRoot.");
@@ -335,6 +594,9 @@ export class GraphOpsService {
     if (pathsOverlap(this.seedRootAbs, this.cypherRootAbs)) {
       throw new Error("GRAPHOPS_PATH_COLLISION: graph.cypherRoot must not overlap graph.seedRoot.");
     }
+    if (pathsOverlap(this.seedRootAbs, this.config.storePath)) {
+      throw new Error("GRAPHOPS_PATH_COLLISION: graph.storePath must not be inside graph.seedRoot.");
+    }
   }
 }
 
@@ -402,7 +664,7 @@ function parseSeedRow(line: string): SeedRow | null {
         id: parsed.id,
         labels: asStringArray(parsed.labels),
         label: typeof parsed.label === "string" ? parsed.label : undefined,
-        properties: isRecord(parsed.properties) ? parsed.properties : undefined
+        properties: isRecord(parsed.properties) ? storableProperties(parsed.properties) : undefined
       };
     }
     if ((parsed.kind === "relationship" || parsed.kind === "rel") && isRecord(parsed.from) && isRecord(parsed.to)) {
@@ -422,7 +684,7 @@ function parseSeedRow(line: string): SeedRow | null {
           id: parsed.to.id,
           label: typeof parsed.to.label === "string" ? parsed.to.label : undefined
         },
-        properties: isRecord(parsed.properties) ? parsed.properties : undefined
+        properties: isRecord(parsed.properties) ? storableProperties(parsed.properties) : undefined
       };
     }
     return null;
@@ -513,6 +775,57 @@ function extractConflictMeta(
   };
 }
 
+function syncedGraphOf(seed: SeedContents, syncedAt: string): SyncedGraph {
+  const rows: Record<string, SyncedRow> = {};
+  for (const [key, row] of seed.keyedRows) {
+    rows[key] = {
+      hash: rowHash(row),
+      keys: Object.keys(row.properties ?? {}),
+      version: extractConflictMeta(row)?.version ?? null,
+      ref: { ...row, properties: undefined }
+    };
+  }
+  return {
+    syncedAt,
+    cypherHash: hashOf(seed.cypherStatements),
+    queries: seed.directQueries.map((row) => hashOf(row)),
+    rows
+  };
+}
+
+/** Same rule resolveConflict applies between seed files, applied against the last synced row. */
+function assertVersionIncreased(key: string, synced: SyncedRow, row: KeyedSeedRow): void {
+  const candidateMeta = extractConflictMeta(row);
+  if (synced.version !== null && candidateMeta && candidateMeta.version <= synced.version) {
+    throw new Error(
+      `GRAPH_SEED_VERSION_NOT_INCREMENTED ${key} changed since the last sync but version did not increase (synced=${synced.version} candidate=${candidateMeta.version}).`
+    );
+  }
+}
+
+/** seed-facts restamps updated_at on every run; a restamp alone is not a change. */
+function rowHash(row: KeyedSeedRow): string {
+  const { updated_at: _restamp, ...properties } = row.properties ?? {};
+  return hashOf({ ...row, properties });
+}
+
+function hashOf(value: unknown): string {
+  return createHash("sha256").update(JSON.stringify(value)).digest("hex");
+}
+
+/** SET n += $props removes every key mapped to null. */
+function nullProperties(keys: string[]): Record<string, null> {
+  return Object.fromEntries(keys.map((key) => [key, null]));
+}
+
+function emptyChanges(): GraphSyncChanges {
+  return { nodesUpserted: 0, nodesDeleted: 0, relationshipsUpserted: 0, relationshipsDeleted: 0, queriesApplied: 0, unchangedRows: 0 };
+}
+
+function rowsWritten(changes: GraphSyncChanges): number {
+  return changes.queriesApplied + changes.nodesUpserted + changes.relationshipsUpserted;
+}
+
 function splitCypherStatements(content: string): string[] {
   return content
     .split(";")
@@ -542,6 +855,16 @@ function isRecord(value: unknown): value is Record<string, unknown> {
   return Boolean(value) && typeof value === "object" && !Array.isArray(value);
 }
 
+/**
+ * Graph properties cannot hold maps, so a map-valued seed property `key` is
+ * stored as the JSON string `keyJson` (e.g. a MigrationRule's propMappings).
+ */
+function storableProperties(properties: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(properties).map(([key, value]) => isRecord(value) ? [`${key}Json`, JSON.stringify(value)] : [key, value])
+  );
+}
+
 function bucketForLabels(labels: string[]): string {
   const lower = labels.map((item) => item.toLowerCase());
   if (lower.some((item) => item.includes("policy"))) {
@@ -8,8 +8,16 @@
  *   4. UsageExample nodes  (from IndexingService.getTemplateUsageFacts)
  *   5. RouteGuard nodes  (from ResolvedGuard[])
  *   6. TemplateDirective nodes  (from ResolvedDirective[])
- *   7. Edges: FILE_DECLARES_SYMBOL, IN_ANCHOR, USES_COMPONENT, HAS_USAGE,
- *            GUARDED_BY, GUARD_DEFINED_IN, USES_DIRECTIVE, DIRECTIVE_DEFINED_IN
+ *   7. ApiEndpoint / ApiSchema / ApiParameter / ApiResponse / ApiCapability
+ *      nodes  (from OpenAPI specs under swagger.roots)
+ *   8. NgModule / AngularDeclarable / Injectable / InjectionToken nodes
+ *      (from IndexingService NgModule / DI facts)
+ *   9. Edges: FILE_DECLARES_SYMBOL, IN_ANCHOR, USES_COMPONENT, HAS_USAGE,
+ *            GUARDED_BY, GUARD_DEFINED_IN, USES_DIRECTIVE, DIRECTIVE_DEFINED_IN,
+ *            HAS_PARAMETER, HAS_RESPONSE, ACCEPTS, RETURNS, EXPOSES,
+ *            MAPS_TO_SYMBOL, CALLS_ENDPOINT, MODULE_DECLARES, MODULE_IMPORTS,
+ *            MODULE_EXPORTS, STANDALONE_IMPORTS, PROVIDES, PROVIDED_IN,
+ *            DECLARABLE_DEFINED_IN, USES_DECLARABLE
  *
  * JOIN KEY RULES:
  *   - All IDs are DERIVED from extracted facts, never invented
@@ -29,7 +37,12 @@ import path from "node:path";
 import { writeFile } from "node:fs/promises";
 import { ensureDir } from "../../shared/fileStore";
 import { scanAnchors, resolveAnchorsForFiles, type AnchorSeedResult } from "../memory/anchorSeeder";
-import type { SymbolHeader, TemplateUsageFact, ParsedRoute, TemplateRouterLinkFact, DirectiveUsageFact, ResolvedGuard, ResolvedDirective } from "../indexing/indexingService";
+import type {
+  SymbolHeader, TemplateUsageFact, ParsedRoute, TemplateRouterLinkFact, DirectiveUsageFact, ResolvedGuard, ResolvedDirective,
+  HttpClientCallFact, AngularDiFacts, AngularProviderFact, TemplateSelectorResolution,
+} from "../indexing/indexingService";
+import { linkApiContracts, type ApiSpecDocument } from "../indexing/openApiParser";
+import { isStandaloneDeclarable } from "../indexing/ngModuleParser";
 import type { DomainAnchor } from "../../contracts/memoryRecord";
 
 /* ── Types ───────────────────────────────────────────────── */
@@ -59,6 +72,12 @@ export interface SeedFactsResult {
   routeCount: number;
   guardCount: number;
   directiveCount: number;
+  apiEndpointCount: number;
+  apiSchemaCount: number;
+  ngModuleCount: number;
+  angularDeclarableCount: number;
+  /** Template usages of in-repo selectors their host's scope does not make available */
+  outOfScopeUsageCount: number;
   edgeCount: number;
   files: string[];
 }
@@ -78,6 +97,10 @@ export interface SeedFactsResult {
  * @param directiveUsages From IndexingService.getDirectiveUsages()
  * @param resolvedGuards  From IndexingService.getResolvedGuards() — for derived join keys
  * @param resolvedDirectives From IndexingService.getResolvedDirectives() — for derived join keys
+ * @param apiSpecs    From loadOpenApiSpecs(repoRoot, config.swagger.roots)
+ * @param httpCalls   From IndexingService.getHttpClientCalls() — matched to endpoints
+ * @param angularDi   From IndexingService getNgModules / getAngularDeclarables / getInjectables / getInjectionTokens
+ * @param selectorResolutions From IndexingService.getTemplateSelectorResolutions()
  */
 export async function generateFactSeedFiles(
   repoRoot: string,
@@ -90,6 +113,10 @@ export async function generateFactSeedFiles(
   directiveUsages: DirectiveUsageFact[] = [],
   resolvedGuards: ResolvedGuard[] = [],
   resolvedDirectives: ResolvedDirective[] = [],
+  apiSpecs: ApiSpecDocument[] = [],
+  httpCalls: HttpClientCallFact[] = [],
+  angularDi: AngularDiFacts = { modules: [], declarables: [], injectables: [], injectionTokens: [] },
+  selectorResolutions: TemplateSelectorResolution[] = [],
 ): Promise<SeedFactsResult> {
   const factDir = path.join(seedRoot, "fact");
   await ensureDir(factDir);
@@ -121,12 +148,24 @@ export async function generateFactSeedFiles(
   const directiveFile = path.join(factDir, "directives.jsonl");
   await writeJsonlFile(directiveFile, directiveResult.nodes);
 
+  /* ── 4c. API contract nodes + edges ────────────────────── */
+  const apiResult = buildApiRows(apiSpecs, httpCalls, symbols, repoRoot, now);
+  const apiFile = path.join(factDir, "api.jsonl");
+  await writeJsonlFile(apiFile, apiResult.nodes);
+
+  /* ── 4d. NgModule / DI nodes + edges ───────────────────── */
+  const angularResult = buildAngularRows(angularDi, selectorResolutions, repoRoot, now);
+  const angularFile = path.join(factDir, "angular.jsonl");
+  await writeJsonlFile(angularFile, angularResult.nodes);
+
   /* ── 5. All edges ──────────────────────────────────────── */
   const allEdges: SeedRow[] = [
     ...symbolRows.edges,
     ...componentResult.edges,
     ...routeResult.edges,
     ...directiveResult.edges,
+    ...apiResult.edges,
+    ...angularResult.edges,
   ];
   const edgeFile = path.join(factDir, "edges.jsonl");
   await writeJsonlFile(edgeFile, allEdges);
@@ -139,8 +178,13 @@ export async function generateFactSeedFiles(
     routeCount: routeResult.routeCount,
     guardCount: routeResult.guardCount,
     directiveCount: directiveResult.directiveCount,
+    apiEndpointCount: apiResult.endpointCount,
+    apiSchemaCount: apiResult.schemaCount,
+    ngModuleCount: angularDi.modules.length,
+    angularDeclarableCount: angularDi.declarables.length,
+    outOfScopeUsageCount: selectorResolutions.filter((resolution) => resolution.status === "not_in_scope").length,
     edgeCount: allEdges.length,
-    files: [anchorFile, symbolFile, componentFile, routeFile, directiveFile, edgeFile],
+    files: [anchorFile, symbolFile, componentFile, routeFile, directiveFile, apiFile, angularFile, edgeFile],
   };
 }
 
@@ -646,6 +690,344 @@ function buildDirectiveRows(
   return { nodes, edges, directiveCount: seenDirectives.size };
 }
 
+/* ── API contract rows ───────────────────────────────────── */
+
+/**
+ * Build API contract nodes and edges from parsed OpenAPI specs:
+ *   - ApiEndpoint nodes (one per operation), ApiParameter / ApiResponse children
+ *   - ApiSchema nodes (definitions / components.schemas — the DTOs)
+ *   - ApiCapability nodes (one per operation tag) with EXPOSES edges
+ *   - ACCEPTS (endpoint → request schema), RETURNS (response → schema)
+ *   - MAPS_TO_SYMBOL (schema → SymbolDefinition of the same-named TS DTO)
+ *   - CALLS_ENDPOINT (file → endpoint, one per matching HttpClient call site)
+ *
+ * IDs are scoped by spec file so two specs may declare the same path or schema.
+ */
+function buildApiRows(
+  specs: ApiSpecDocument[],
+  httpCalls: HttpClientCallFact[],
+  symbols: SymbolHeader[],
+  repoRoot: string,
+  now: string,
+): { nodes: SeedRow[]; edges: SeedRow[]; endpointCount: number; schemaCount: number } {
+  const nodes: SeedRow[] = [];
+  const edges: SeedRow[] = [];
+  const seen = new Set<string>();
+  const stamp = { updated_at: now, updated_by: "seed-facts" };
+  const edge = (from: { id: string; label: string }, to: { id: string; label: string }, relType: string, properties: Record<string, unknown> = {}) => {
+    edges.push({ kind: "relationship", from, to, relType, properties: { ...properties, ...stamp } });
+  };
+  const endpointIdOf = (specFile: string, method: string, fullPath: string) => `endpoint:${specFile}#${method} ${fullPath}`;
+  let endpointCount = 0;
+  let schemaCount = 0;
+
+  for (const spec of specs) {
+    const schemaNames = new Set(spec.schemas.map((schema) => schema.name));
+    const schemaRef = (type: string | null) => {
+      const name = type?.replace(/\[\]$/, "");
+      return name && schemaNames.has(name) ? { id: `apischema:${spec.specFile}#${name}`, label: "ApiSchema" } : null;
+    };
+
+    for (const schema of spec.schemas) {
+      const schemaId = `apischema:${spec.specFile}#${schema.name}`;
+      if (seen.has(schemaId)) continue;
+      seen.add(schemaId);
+      schemaCount++;
+      nodes.push({
+        kind: "node",
+        id: schemaId,
+        labels: ["ApiSchema"],
+        properties: {
+          id: schemaId,
+          name: schema.name,
+          type: schema.type,
+          specFile: spec.specFile,
+          properties: schema.properties.map((property) => `${property.name}: ${property.type}`),   // native string[]
+          requiredProperties: schema.properties.filter((property) => property.required).map((property) => property.name),
+          ...stamp,
+        },
+      });
+    }
+
+    for (const endpoint of spec.endpoints) {
+      const endpointId = endpointIdOf(spec.specFile, endpoint.method, endpoint.fullPath);
+      if (seen.has(endpointId)) continue;
+      seen.add(endpointId);
+      endpointCount++;
+      const endpointRef = { id: endpointId, label: "ApiEndpoint" };
+      nodes.push({
+        kind: "node",
+        id: endpointId,
+        labels: ["ApiEndpoint"],
+        properties: {
+          id: endpointId,
+          method: endpoint.method,
+          path: endpoint.fullPath,
+          declaredPath: endpoint.path,
+          operationId: endpoint.operationId,
+          summary: endpoint.summary,
+          tags: endpoint.tags,
+          deprecated: endpoint.deprecated,
+          requestSchema: endpoint.requestSchema ?? "",
+          specFile: spec.specFile,
+          specTitle: spec.title,
+          specVersion: spec.version,
+          ...stamp,
+        },
+      });
+
+      for (const parameter of endpoint.parameters) {
+        const parameterId = `${endpointId}:param:${parameter.in}:${parameter.name}`;
+        nodes.push({
+          kind: "node",
+          id: parameterId,
+          labels: ["ApiParameter"],
+          properties: { id: parameterId, name: parameter.name, in: parameter.in, required: parameter.required, type: parameter.type, ...stamp },
+        });
+        edge(endpointRef, { id: parameterId, label: "ApiParameter" }, "HAS_PARAMETER");
+      }
+
+      const requestSchema = schemaRef(endpoint.requestSchema);
+      if (requestSchema) edge(endpointRef, requestSchema, "ACCEPTS");
+
+      for (const response of endpoint.responses) {
+        const responseId = `${endpointId}:response:${response.status}`;
+        nodes.push({
+          kind: "node",
+          id: responseId,
+          labels: ["ApiResponse"],
+          properties: { id: responseId, status: response.status, description: response.description, schema: response.schema ?? "", ...stamp },
+        });
+        edge(endpointRef, { id: responseId, label: "ApiResponse" }, "HAS_RESPONSE");
+        const responseSchema = schemaRef(response.schema);
+        if (responseSchema) edge({ id: responseId, label: "ApiResponse" }, responseSchema, "RETURNS");
+      }
+
+      for (const tag of endpoint.tags) {
+        const capabilityId = `capability:${spec.specFile}#${tag}`;
+        if (!seen.has(capabilityId)) {
+          seen.add(capabilityId);
+          nodes.push({
+            kind: "node",
+            id: capabilityId,
+            labels: ["ApiCapability"],
+            properties: { id: capabilityId, name: tag, specFile: spec.specFile, ...stamp },
+          });
+        }
+        edge({ id: capabilityId, label: "ApiCapability" }, endpointRef, "EXPOSES");
+      }
+    }
+  }
+
+  // Join keys are DERIVED from indexed facts: symbol IDs use the SymbolDefinition
+  // formula, call sites use the indexed file path — nothing is guessed by name alone.
+  const links = linkApiContracts(specs, httpCalls, symbols);
+  for (const link of links.schemaSymbols) {
+    const relativePath = normalizeToRelative(link.symbol.filePath, repoRoot);
+    edge(
+      { id: `apischema:${link.specFile}#${link.schema}`, label: "ApiSchema" },
+      { id: `sym:${link.symbol.kind}:${relativePath}#${link.symbol.symbol}`, label: "SymbolDefinition" },
+      "MAPS_TO_SYMBOL",
+      { match: link.match },
+    );
+  }
+  for (const link of links.endpointCalls) {
+    const relativePath = normalizeToRelative(link.call.filePath, repoRoot);
+    edge(
+      { id: `file:${relativePath}`, label: "File" },
+      { id: endpointIdOf(link.specFile, link.endpoint.method, link.endpoint.fullPath), label: "ApiEndpoint" },
+      "CALLS_ENDPOINT",
+      {
+        line: link.call.line,
+        urlTemplate: link.call.urlTemplate,
+        className: link.call.className ?? "",
+        memberName: link.call.memberName ?? "",
+        responseType: link.call.responseType ?? "",
+      },
+    );
+  }
+
+  return { nodes, edges, endpointCount, schemaCount };
+}
+
+/* ── Angular module / DI rows ────────────────────────────── */
+
+/**
+ * Build Angular compilation-scope and DI nodes and edges:
+ *   - NgModule, AngularDeclarable, Injectable and InjectionToken nodes
+ *   - MODULE_DECLARES / MODULE_IMPORTS / MODULE_EXPORTS (NgModule → NgModule | AngularDeclarable)
+ *   - STANDALONE_IMPORTS (standalone AngularDeclarable → NgModule | AngularDeclarable)
+ *   - PROVIDES (NgModule | AngularDeclarable → Injectable | InjectionToken)
+ *   - PROVIDED_IN (Injectable | InjectionToken → NgModule, for module-scoped providedIn)
+ *   - DECLARABLE_DEFINED_IN (AngularDeclarable → SymbolDefinition)
+ *   - USES_DECLARABLE (template File → AngularDeclarable, with the scope check result)
+ *
+ * Names resolve to in-repo classes only; library modules (CommonModule,
+ * RouterModule, …) and providers stay in the string[] properties without an edge.
+ */
+function buildAngularRows(
+  facts: AngularDiFacts,
+  resolutions: TemplateSelectorResolution[],
+  repoRoot: string,
+  now: string,
+): { nodes: SeedRow[]; edges: SeedRow[] } {
+  const nodes: SeedRow[] = [];
+  const edges: SeedRow[] = [];
+  const stamp = { updated_at: now, updated_by: "seed-facts" };
+  const edge = (from: { id: string; label: string }, to: { id: string; label: string }, relType: string, properties: Record<string, unknown> = {}) => {
+    edges.push({ kind: "relationship", from, to, relType, properties: { ...properties, ...stamp } });
+  };
+  // Name → node ref; the first class of a name wins, matching scope resolution
+  const refs = new Map<string, { id: string; label: string }>();
+  const register = (name: string, ref: { id: string; label: string }) => {
+    if (!refs.has(name)) refs.set(name, ref);
+  };
+  const refOf = (prefix: string, label: string, fact: { name: string; filePath: string }) =>
+    ({ id: `${prefix}:${normalizeToRelative(fact.filePath, repoRoot)}#${fact.name}`, label });
+  const providerTokens = (providers: AngularProviderFact[]) => providers.map((provider) => provider.token);
+  const declaredByModule = new Set(facts.modules.flatMap((module) => module.declarations));
+
+  for (const module of facts.modules) {
+    const ref = refOf("ngmodule", "NgModule", module);
+    register(module.name, ref);
+    nodes.push({
+      kind: "node",
+      id: ref.id,
+      labels: ["NgModule"],
+      properties: {
+        id: ref.id,
+        name: module.name,
+        filePath: normalizeToRelative(module.filePath, repoRoot),
+        line: module.line,
+        declarations: module.declarations,      // native string[]
+        imports: module.imports,
+        exports: module.exports,
+        providers: providerTokens(module.providers),
+        bootstrap: module.bootstrap,
+        ...stamp,
+      },
+    });
+  }
+  for (const declarable of facts.declarables) {
+    const ref = refOf("ngdeclarable", "AngularDeclarable", declarable);
+    register(declarable.name, ref);
+    nodes.push({
+      kind: "node",
+      id: ref.id,
+      labels: ["AngularDeclarable"],
+      properties: {
+        id: ref.id,
+        name: declarable.name,
+        kind: declarable.kind,
+        selector: declarable.selector ?? "",
+        exportAs: declarable.exportAs ?? "",
+        standalone: isStandaloneDeclarable(declarable, declaredByModule.has(declarable.name), facts.standaloneDefault ?? null),
+        filePath: normalizeToRelative(declarable.filePath, repoRoot),
+        line: declarable.line,
+        templateFile: declarable.templateFile ? normalizeToRelative(declarable.templateFile, repoRoot) : "",
+        imports: declarable.imports,
+        providers: providerTokens([...declarable.providers, ...declarable.viewProviders]),
+        ...stamp,
+      },
+    });
+    // DERIVED join key: SymbolDefinition formula for the class
+    edge(ref, { id: `sym:class:${normalizeToRelative(declarable.filePath, repoRoot)}#${declarable.name}`, label: "SymbolDefinition" }, "DECLARABLE_DEFINED_IN");
+  }
+  for (const injectable of facts.injectables) {
+    const ref = refOf("injectable", "Injectable", injectable);
+    register(injectable.name, ref);
+    nodes.push({
+      kind: "node",
+      id: ref.id,
+      labels: ["Injectable"],
+      properties: {
+        id: ref.id,
+        name: injectable.name,
+        filePath: normalizeToRelative(injectable.filePath, repoRoot),
+        line: injectable.line,
+        providedIn: injectable.providedIn ?? "",
+        ...stamp,
+      },
+    });
+  }
+  for (const token of facts.injectionTokens) {
+    const ref = refOf("injectiontoken", "InjectionToken", token);
+    register(token.name, ref);
+    nodes.push({
+      kind: "node",
+      id: ref.id,
+      labels: ["InjectionToken"],
+      properties: {
+        id: ref.id,
+        name: token.name,
+        filePath: normalizeToRelative(token.filePath, repoRoot),
+        line: token.line,
+        typeText: token.typeText ?? "",
+        description: token.description ?? "",
+        providedIn: token.providedIn ?? "",
+        hasFactory: token.hasFactory,
+        ...stamp,
+      },
+    });
+  }
+
+  const link = (from: { id: string; label: string }, names: string[], relType: string) => {
+    for (const name of names) {
+      const to = refs.get(name);
+      if (to && (to.label === "NgModule" || to.label === "AngularDeclarable")) edge(from, to, relType);
+    }
+  };
+  const provide = (from: { id: string; label: string }, providers: AngularProviderFact[], viewProvider: boolean) => {
+    for (const provider of providers) {
+      const to = refs.get(provider.token);
+      if (to && (to.label === "Injectable" || to.label === "InjectionToken")) {
+        edge(from, to, "PROVIDES", { providerKind: provider.kind, target: provider.target ?? "", multi: provider.multi, viewProvider });
+      }
+    }
+  };
+  for (const module of facts.modules) {
+    const ref = refOf("ngmodule", "NgModule", module);
+    link(ref, module.declarations, "MODULE_DECLARES");
+    link(ref, module.imports, "MODULE_IMPORTS");
+    link(ref, module.exports, "MODULE_EXPORTS");
+    provide(ref, module.providers, false);
+  }
+  for (const declarable of facts.declarables) {
+    const ref = refOf("ngdeclarable", "AngularDeclarable", declarable);
+    link(ref, declarable.imports, "STANDALONE_IMPORTS");
+    provide(ref, declarable.providers, false);
+    provide(ref, declarable.viewProviders, true);
+  }
+  for (const fact of [...facts.injectables.map((item) => ({ fact: item, prefix: "injectable", label: "Injectable" })),
+    ...facts.injectionTokens.map((item) => ({ fact: item, prefix: "injectiontoken", label: "InjectionToken" }))]) {
+    const module = fact.fact.providedIn ? refs.get(fact.fact.providedIn) : undefined;
+    if (module?.label === "NgModule") edge(refOf(fact.prefix, fact.label, fact.fact), module, "PROVIDED_IN");
+  }
+
+  // USES_DECLARABLE: one edge per template file and declarable, failing if any usage is out of scope
+  const usages = new Map<string, { file: string; declarable: { id: string; label: string }; resolutions: TemplateSelectorResolution[] }>();
+  for (const resolution of resolutions) {
+    const file = normalizeToRelative(resolution.filePath, repoRoot);
+    const declarable = refOf("ngdeclarable", "AngularDeclarable", { name: resolution.declarable, filePath: resolution.declarableFile });
+    const key = `${file}\0${declarable.id}`;
+    const entry = usages.get(key) ?? { file, declarable, resolutions: [] };
+    entry.resolutions.push(resolution);
+    usages.set(key, entry);
+  }
+  for (const { file, declarable, resolutions: grouped } of usages.values()) {
+    const failing = grouped.find((resolution) => resolution.status !== "available") ?? grouped[0];
+    edge({ id: `file:${file}`, label: "File" }, declarable, "USES_DECLARABLE", {
+      status: failing.status,
+      via: failing.via ?? "",
+      host: failing.host ?? "",
+      lines: grouped.map((resolution) => resolution.line),   // native number[]
+      candidates: failing.candidates,
+    });
+  }
+
+  return { nodes, edges };
+}
+
 /* ── Helpers ─────────────────────────────────────────────── */
 
 /**
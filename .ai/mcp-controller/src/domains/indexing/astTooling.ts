@@ -137,7 +137,13 @@ function collectElementUsage(
       const tag = node.name;
       // Only capture custom elements (contain a hyphen) to filter out native HTML
       if (tag.includes("-")) {
-        const attrs = (node.attributes ?? []).map((a: { name: string }) => a.name);
+        const attrs = [
+          ...(node.attributes ?? []).map((a: { name: string }) => a.name),
+          // [x] property bindings and (x) events, as written; [(x)] yields [x] and (xChange).
+          // [attr.x], [class.x], [style.x], animations and window:/document: listeners target the host, not the component.
+          ...(node.inputs ?? []).filter((input) => input.type === PROPERTY_BINDING).map((input) => `[${input.name}]`),
+          ...(node.outputs ?? []).filter((output) => output.type === REGULAR_EVENT && !output.target).map((output) => `(${output.name})`),
+        ];
         facts.push({
           tag,
           filePath,
@@ -161,6 +167,10 @@ function collectElementUsage(
   }
 }
 
+// BindingType and ParsedEventType are const enums in @angular/compiler typings, so compare against Property / Regular (0) directly
+const PROPERTY_BINDING = 0;
+const REGULAR_EVENT = 0;
+
 function isTemplateElement(node: unknown): node is TmplAstElement {
   return node !== null
     && typeof node === "object"
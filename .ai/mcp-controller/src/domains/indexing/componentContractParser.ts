@@ -0,0 +1,503 @@
+/**
+ * Angular Component Contract Parser — the in-repo counterpart of sdfContractParser.
+ *
+ * Extracts a contract for every `@Component` / `@Directive` that has a selector:
+ *   - `@Input()` / `@Input('alias')` / `@Input({ alias, required })` on properties and accessors
+ *   - `@Output()` / `@Output('alias')`
+ *   - signal members: `input()`, `input.required()`, `model()`, `model.required()`, `output()`
+ *   - decorator `inputs` / `outputs` arrays (`'member: alias'` or `{ name, alias, required }`)
+ *   - `selector` and `exportAs`
+ *
+ * Contracts use the SdfComponentContract shape so in-repo and SDF components
+ * answer the same prop questions. `checkTemplateBindings` cross-checks the
+ * attributes of template tag usages against them. Types are read from the
+ * source as written. Inherited bindings are merged by `resolveContractInheritance`
+ * from in-repo base classes (`parseContractBases`) and the inputs/outputs a
+ * component's `hostDirectives` expose; heritage outside the repo stays unknown.
+ *
+ * [REF:COMPONENT-CONTRACTS]
+ */
+
+import { Node, SyntaxKind, type ClassDeclaration, type Expression, type ObjectLiteralExpression, type SourceFile } from "ts-morph";
+import type { SdfComponentContract, SdfPropContract } from "./sdfContractParser";
+
+/* ── Public types ────────────────────────────────────────── */
+
+export interface AngularPropContract extends SdfPropContract {
+  /** A "model" prop is bound as `[name]` and emits `(nameChange)` */
+  direction: "input" | "output" | "model";
+  /** Class member behind the binding; differs from `name` when aliased */
+  member: string;
+}
+
+export interface AngularComponentContract extends SdfComponentContract {
+  /** Class name */
+  name: string;
+  kind: "component" | "directive";
+  filePath: string;
+  /** Line number (0-based) of the class declaration */
+  line: number;
+  selector: string;
+  exportAs: string | null;
+  props: AngularPropContract[];
+  /** Base class named in `extends`, without type arguments; null without one */
+  extends: string | null;
+  hostDirectives: HostDirectiveRef[];
+  /** Base classes and host directives no in-repo class declares; set by resolveContractInheritance */
+  unresolvedHeritage?: string[];
+}
+
+/** A `hostDirectives` entry and the bindings it exposes on the host (`'name'` or `'name: alias'`) */
+export interface HostDirectiveRef {
+  directive: string;
+  inputs: string[];
+  outputs: string[];
+}
+
+/** A class contracts can inherit bindings from: an undecorated or selector-less base */
+export interface ComponentContractBase {
+  name: string;
+  filePath: string;
+  extends: string | null;
+  props: AngularPropContract[];
+}
+
+/** A template tag whose bindings do not fit the contracts applied to it */
+export interface TemplateBindingIssue {
+  /** unknown_input / unknown_output: no applied contract declares the binding; missing_required: a required input nothing binds */
+  kind: "unknown_input" | "unknown_output" | "missing_required";
+  tag: string;
+  filePath: string;
+  /** Line number (0-based) in the template */
+  line: number;
+  /** Binding or prop name */
+  name: string;
+  /** The component for unknown bindings; the component or directive declaring a missing required input */
+  contract: string;
+  contractFile: string;
+  /** "warning" for an unknown binding an applied contract may inherit from heritage outside the repo */
+  severity: "error" | "warning";
+}
+
+/* ── Public API ──────────────────────────────────────────── */
+
+export function parseComponentContracts(sourceFile: SourceFile): AngularComponentContract[] {
+  const contracts: AngularComponentContract[] = [];
+  const filePath = sourceFile.getFilePath();
+
+  for (const cls of sourceFile.getClasses()) {
+    const name = cls.getName();
+    if (!name) continue;
+    for (const kind of ["component", "directive"] as const) {
+      const decorator = cls.getDecorator(kind === "component" ? "Component" : "Directive");
+      if (!decorator) continue;
+      const argument = decorator.getArguments()[0];
+      const config = Node.isObjectLiteralExpression(argument) ? argument : null;
+      // Selector-less directives are abstract bases; no template can use them directly
+      const selector = stringProperty(config, "selector");
+      if (!selector) continue;
+      contracts.push({
+        tag: contractTag(selector),
+        description: jsDocDescription(cls),
+        name,
+        kind,
+        filePath,
+        line: cls.getStartLineNumber() - 1,
+        selector,
+        exportAs: stringProperty(config, "exportAs"),
+        props: classProps(cls, config),
+        extends: baseClassName(cls),
+        hostDirectives: hostDirectiveRefs(config),
+      });
+    }
+  }
+  return contracts;
+}
+
+/**
+ * Classes without a selector that declare bindings or extend another class —
+ * the bases `resolveContractInheritance` walks. Classes with a selector are
+ * contracts, not bases.
+ */
+export function parseContractBases(sourceFile: SourceFile): ComponentContractBase[] {
+  const bases: ComponentContractBase[] = [];
+  for (const cls of sourceFile.getClasses()) {
+    const name = cls.getName();
+    if (!name) continue;
+    const argument = (cls.getDecorator("Directive") ?? cls.getDecorator("Component"))?.getArguments()[0];
+    const config = Node.isObjectLiteralExpression(argument) ? argument : null;
+    if (stringProperty(config, "selector")) continue;
+    const props = classProps(cls, config);
+    const base = baseClassName(cls);
+    if (props.length > 0 || base) {
+      bases.push({ name, filePath: sourceFile.getFilePath(), extends: base, props });
+    }
+  }
+  return bases;
+}
+
+/**
+ * Merge inherited bindings into each contract: props of its `extends` chain
+ * (a redeclared member wins) and what its host directives expose, aliased.
+ * Classes resolve by name across `contracts` and `bases`, like the rest of the
+ * indexer; names that resolve to nothing are listed in `unresolvedHeritage`.
+ */
+export function resolveContractInheritance(
+  contracts: AngularComponentContract[],
+  bases: ComponentContractBase[],
+): AngularComponentContract[] {
+  const classes = new Map<string, { extends: string | null; props: AngularPropContract[]; hostDirectives: HostDirectiveRef[] }>();
+  for (const item of [...contracts, ...bases.map((base) => ({ ...base, hostDirectives: [] }))]) {
+    if (!classes.has(item.name)) classes.set(item.name, item);
+  }
+
+  const resolve = (
+    cls: { extends: string | null; props: AngularPropContract[]; hostDirectives: HostDirectiveRef[] },
+    seen: Set<string>,
+  ): { props: AngularPropContract[]; unresolved: string[] } => {
+    const props = [...cls.props];
+    const unresolved: string[] = [];
+    const inherit = (name: string, pick: (inherited: AngularPropContract[]) => AngularPropContract[]) => {
+      const target = classes.get(name);
+      if (!target) {
+        unresolved.push(name);
+        return;
+      }
+      if (seen.has(name)) return;
+      const inherited = resolve(target, new Set([...seen, name]));
+      unresolved.push(...inherited.unresolved);
+      for (const prop of pick(inherited.props)) {
+        if (!props.some((own) => own.member === prop.member && own.direction === prop.direction)) props.push(prop);
+      }
+    };
+    if (cls.extends) inherit(cls.extends, (inherited) => inherited);
+    for (const host of cls.hostDirectives) {
+      inherit(host.directive, (inherited) => [
+        ...exposedProps(inherited, host.inputs, ["input", "model"]),
+        ...exposedProps(inherited, host.outputs, ["output"]),
+      ]);
+    }
+    return { props, unresolved };
+  };
+
+  return contracts.map((contract) => {
+    const { props, unresolved } = resolve(contract, new Set([contract.name]));
+    return unresolved.length > 0 ? { ...contract, props, unresolvedHeritage: [...new Set(unresolved)] } : { ...contract, props };
+  });
+}
+
+/**
+ * Quick check: can this file declare a component, a directive or a base class
+ * with bindings? Used to filter files before the AST walk.
+ */
+export function isLikelyComponentContractFile(content: string): boolean {
+  return /@(Component|Directive|Input|Output)\s*\(/.test(content);
+}
+
+/**
+ * Check tag usages against the contracts that apply to each tag: the in-repo
+ * component whose selector matches it plus in-repo directives matched by its
+ * attributes. Tags without an in-repo component (library or native) are
+ * skipped. Usage attributes are read as written: `name` is static, `[name]` a
+ * property binding, `(name)` an event binding.
+ *
+ * Unknown bindings are property bindings no applied contract declares, and
+ * camelCase events no applied contract emits — lower-case event names may be
+ * DOM events. A required input counts as bound by a static attribute too.
+ */
+export function checkTemplateBindings(
+  contracts: AngularComponentContract[],
+  usages: Array<{ tag: string; filePath: string; line: number; attributes: string[] }>,
+): TemplateBindingIssue[] {
+  const components = contracts.filter((contract) => contract.kind === "component");
+  const directives = contracts.filter((contract) => contract.kind === "directive");
+  const issues: TemplateBindingIssue[] = [];
+
+  for (const usage of usages) {
+    const bindings = readBindings(usage.attributes);
+    const component = components.find((contract) => selectorApplies(contract.selector, usage.tag, bindings.present));
+    if (!component) continue;
+    const applied = [component, ...directives.filter((contract) => selectorApplies(contract.selector, usage.tag, bindings.present))];
+    const props = applied.flatMap((contract) => contract.props);
+    const inputs = new Set(props.filter((prop) => prop.direction !== "output").map((prop) => prop.name));
+    const outputs = new Set(props.flatMap((prop) => {
+      if (prop.direction === "output") return [prop.name];
+      return prop.direction === "model" ? [`${prop.name}Change`] : [];
+    }));
+    const at = { tag: usage.tag, filePath: usage.filePath, line: usage.line, contract: component.name, contractFile: component.filePath };
+    // An unknown binding may be declared by heritage the repo does not contain
+    const unknownSeverity = applied.some((contract) => contract.unresolvedHeritage?.length) ? "warning" : "error";
+
+    for (const name of bindings.inputs) {
+      if (!inputs.has(name) && !COMMON_BINDINGS.has(name)) {
+        issues.push({ kind: "unknown_input", ...at, name, severity: unknownSeverity });
+      }
+    }
+    for (const name of bindings.outputs) {
+      if (!outputs.has(name) && /[A-Z]/.test(name) && !COMMON_BINDINGS.has(name)) {
+        issues.push({ kind: "unknown_output", ...at, name, severity: unknownSeverity });
+      }
+    }
+    for (const contract of applied) {
+      for (const prop of contract.props) {
+        if (prop.required && prop.direction !== "output" && !bindings.present.has(prop.name)) {
+          issues.push({ kind: "missing_required", ...at, name: prop.name, contract: contract.name, contractFile: contract.filePath, severity: "error" });
+        }
+      }
+    }
+  }
+  return issues;
+}
+
+/* ── Contract extraction ─────────────────────────────────── */
+
+function classProps(cls: ClassDeclaration, config: ObjectLiteralExpression | null): AngularPropContract[] {
+  return [
+    ...memberProps(cls),
+    ...decoratorListProps(cls, config, "inputs", "input"),
+    ...decoratorListProps(cls, config, "outputs", "output"),
+  ];
+}
+
+/** `extends Base<T>` → "Base"; a qualified `ns.Base` keeps its last name */
+function baseClassName(cls: ClassDeclaration): string | null {
+  const expression = cls.getExtends()?.getExpression();
+  if (!expression) return null;
+  return Node.isPropertyAccessExpression(expression) ? expression.getName() : expression.getText();
+}
+
+/** `hostDirectives: [Tooltip, { directive: Menu, inputs: ['items: menuItems'], outputs: ['closed'] }]` */
+function hostDirectiveRefs(config: ObjectLiteralExpression | null): HostDirectiveRef[] {
+  const list = propertyInitializer(config, "hostDirectives");
+  if (!Node.isArrayLiteralExpression(list)) return [];
+  return list.getElements().flatMap((element) => {
+    if (Node.isIdentifier(element)) return [{ directive: element.getText(), inputs: [], outputs: [] }];
+    if (!Node.isObjectLiteralExpression(element)) return [];
+    const directive = propertyInitializer(element, "directive");
+    if (!directive) return [];
+    const entries = (key: string) => {
+      const entryList = propertyInitializer(element, key);
+      return Node.isArrayLiteralExpression(entryList)
+        ? entryList.getElements().flatMap((entry) => literalText(entry) ?? [])
+        : [];
+    };
+    return [{ directive: directive.getText(), inputs: entries("inputs"), outputs: entries("outputs") }];
+  });
+}
+
+/** Host directive props its host exposes: entries are the directive's binding name, optionally `: alias` */
+function exposedProps(
+  props: AngularPropContract[],
+  entries: string[],
+  directions: Array<AngularPropContract["direction"]>,
+): AngularPropContract[] {
+  return entries.flatMap((entry) => {
+    const [name, alias] = entry.split(":").map((part) => part.trim());
+    const prop = props.find((candidate) => candidate.name === name && directions.includes(candidate.direction));
+    return prop ? [{ ...prop, name: alias || name }] : [];
+  });
+}
+
+/** Signal member functions and what they declare */
+const SIGNAL_MEMBERS: Record<string, { direction: AngularPropContract["direction"]; required: boolean }> = {
+  "input": { direction: "input", required: false },
+  "input.required": { direction: "input", required: true },
+  "model": { direction: "model", required: false },
+  "model.required": { direction: "model", required: true },
+  "output": { direction: "output", required: false },
+};
+
+function memberProps(cls: ClassDeclaration): AngularPropContract[] {
+  const props: AngularPropContract[] = [];
+  for (const member of cls.getMembers()) {
+    if (!Node.isPropertyDeclaration(member) && !Node.isSetAccessorDeclaration(member) && !Node.isGetAccessorDeclaration(member)) continue;
+    const memberName = member.getName();
+    const description = jsDocDescription(member);
+
+    for (const direction of ["input", "output"] as const) {
+      const decorator = member.getDecorator(direction === "input" ? "Input" : "Output");
+      if (!decorator) continue;
+      const argument = decorator.getArguments()[0];
+      const options = Node.isObjectLiteralExpression(argument) ? argument : null;
+      props.push({
+        name: literalText(argument) ?? stringProperty(options, "alias") ?? memberName,
+        member: memberName,
+        direction,
+        type: declaredType(member),
+        required: booleanProperty(options, "required") === true,
+        description,
+      });
+    }
+
+    const initializer = Node.isPropertyDeclaration(member) ? member.getInitializer() : undefined;
+    const signal = Node.isCallExpression(initializer) ? SIGNAL_MEMBERS[initializer.getExpression().getText()] : undefined;
+    if (!signal || !Node.isCallExpression(initializer)) continue;
+    // input(initial, options) and model(initial, options); the required variants and output() take only options
+    const args = initializer.getArguments();
+    const optionsArgument = signal.required || signal.direction === "output" ? args[0] : args[1];
+    const typeArgument = initializer.getTypeArguments()[0]?.getText();
+    props.push({
+      name: stringProperty(Node.isObjectLiteralExpression(optionsArgument) ? optionsArgument : null, "alias") ?? memberName,
+      member: memberName,
+      direction: signal.direction,
+      type: signal.direction === "output"
+        ? `OutputEmitterRef<${typeArgument ?? "void"}>`
+        : typeArgument ?? (signal.required ? "unknown" : valueType(args[0])),
+      required: signal.required,
+      description,
+    });
+  }
+  return props;
+}
+
+/** `inputs: ['value', 'label: title']` — entries are `member` or `member: alias` */
+function decoratorListProps(
+  cls: ClassDeclaration,
+  config: ObjectLiteralExpression | null,
+  key: "inputs" | "outputs",
+  direction: "input" | "output",
+): AngularPropContract[] {
+  const list = propertyInitializer(config, key);
+  if (!Node.isArrayLiteralExpression(list)) return [];
+  return list.getElements().flatMap((element) => {
+    let member: string | null;
+    let alias: string | null = null;
+    let required = false;
+    if (Node.isObjectLiteralExpression(element)) {
+      member = stringProperty(element, "name");
+      alias = stringProperty(element, "alias");
+      required = booleanProperty(element, "required") === true;
+    } else {
+      const [name, aliasText] = (literalText(element) ?? "").split(":").map((part) => part.trim());
+      member = name || null;
+      alias = aliasText || null;
+    }
+    if (!member) return [];
+    const declaration = cls.getProperty(member) ?? cls.getSetAccessor(member);
+    return [{
+      name: alias ?? member,
+      member,
+      direction,
+      type: declaration ? declaredType(declaration) : "unknown",
+      required,
+      description: declaration ? jsDocDescription(declaration) : "",
+    }];
+  });
+}
+
+/** Type as written on the member, else what its initializer literally is. */
+function declaredType(member: Node): string {
+  if (Node.isSetAccessorDeclaration(member)) {
+    return member.getParameters()[0]?.getTypeNode()?.getText() ?? "unknown";
+  }
+  if (Node.isGetAccessorDeclaration(member)) {
+    return member.getReturnTypeNode()?.getText() ?? "unknown";
+  }
+  if (Node.isPropertyDeclaration(member)) {
+    return member.getTypeNode()?.getText() ?? valueType(member.getInitializer());
+  }
+  return "unknown";
+}
+
+function valueType(node: Node | undefined): string {
+  if (!node) return "unknown";
+  if (Node.isStringLiteral(node) || Node.isNoSubstitutionTemplateLiteral(node) || Node.isTemplateExpression(node)) return "string";
+  if (Node.isNumericLiteral(node)) return "number";
+  if (node.getKind() === SyntaxKind.TrueKeyword || node.getKind() === SyntaxKind.FalseKeyword) return "boolean";
+  if (Node.isNewExpression(node)) {
+    const typeArguments = node.getTypeArguments().map((item) => item.getText());
+    return `${node.getExpression().getText()}${typeArguments.length > 0 ? `<${typeArguments.join(", ")}>` : ""}`;
+  }
+  return "unknown";
+}
+
+/** Element name of the first selector part that has one, else the selector as written. */
+function contractTag(selector: string): string {
+  for (const part of selectorParts(selector)) {
+    const element = elementName(part);
+    if (element) return element;
+  }
+  return selector;
+}
+
+/* ── Selector matching ───────────────────────────────────── */
+
+/** Library and DOM property bindings commonly placed on component tags */
+const COMMON_BINDINGS = new Set([
+  "ngClass", "ngStyle", "ngModel", "ngModelOptions", "ngModelChange",
+  "formControl", "formControlName", "formGroup", "formGroupName", "formArrayName",
+  "routerLink", "routerLinkActive", "routerLinkActiveOptions", "queryParams", "queryParamsHandling",
+  "fragment", "state", "preserveFragment", "skipLocationChange", "replaceUrl",
+  "ngTemplateOutlet", "ngTemplateOutletContext",
+  "id", "hidden", "title", "tabIndex", "innerHTML", "innerText", "textContent", "className",
+]);
+
+/** Names a tag carries (static attributes and property bindings) plus its bound inputs and events. */
+function readBindings(attributes: string[]): { present: Set<string>; inputs: string[]; outputs: string[] } {
+  const present = new Set<string>();
+  const inputs: string[] = [];
+  const outputs: string[] = [];
+  for (const attribute of attributes) {
+    const bound = /^\[(.+)\]$/.exec(attribute);
+    const event = /^\((.+)\)$/.exec(attribute);
+    if (bound) {
+      inputs.push(bound[1]);
+      present.add(bound[1]);
+    } else if (event) {
+      outputs.push(event[1]);
+    } else {
+      present.add(attribute);
+    }
+  }
+  return { present, inputs, outputs };
+}
+
+/** A selector part applies when its element name (if any) is the tag and all its `[attr]`s are present. */
+function selectorApplies(selector: string, tag: string, present: Set<string>): boolean {
+  return selectorParts(selector).some((part) => {
+    const element = elementName(part);
+    const attributes = [...part.matchAll(/\[([^\]=~|^$*]+)/g)].map((match) => match[1].trim());
+    if (!element && attributes.length === 0) return false;
+    return (!element || element === tag) && attributes.every((name) => present.has(name));
+  });
+}
+
+/** "app-card, [appCard]:not(.x)" → ["app-card", "[appCard]"] */
+function selectorParts(selector: string): string[] {
+  return selector
+    .split(",")
+    .map((part) => part.replace(/:not\([^)]*\)/g, "").trim())
+    .filter((part) => part.length > 0);
+}
+
+function elementName(part: string): string | null {
+  return /^[a-zA-Z][\w-]*/.exec(part)?.[0] ?? null;
+}
+
+/* ── Helpers ─────────────────────────────────────────────── */
+
+function propertyInitializer(config: ObjectLiteralExpression | null, key: string): Expression | undefined {
+  const property = config?.getProperty(key);
+  return Node.isPropertyAssignment(property) ? property.getInitializer() : undefined;
+}
+
+function stringProperty(config: ObjectLiteralExpression | null, key: string): string | null {
+  return literalText(propertyInitializer(config, key));
+}
+
+function booleanProperty(config: ObjectLiteralExpression | null, key: string): boolean | null {
+  const kind = propertyInitializer(config, key)?.getKind();
+  if (kind === SyntaxKind.TrueKeyword) return true;
+  if (kind === SyntaxKind.FalseKeyword) return false;
+  return null;
+}
+
+function literalText(node: Node | undefined): string | null {
+  if (Node.isStringLiteral(node) || Node.isNoSubstitutionTemplateLiteral(node)) return node.getLiteralText();
+  return null;
+}
+
+function jsDocDescription(node: Node): string {
+  if (!Node.isJSDocable(node)) return "";
+  return node.getJsDocs().map((doc) => doc.getDescription()).join(" ").replace(/\s+/g, " ").trim();
+}
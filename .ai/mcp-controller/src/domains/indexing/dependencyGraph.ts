@@ -0,0 +1,615 @@
+/**
+ * Dependency Graph — import / call / reference edges between files and symbols.
+ *
+ * Two stages, matching the rest of the indexer:
+ *   1. `extractDependencyFacts(sourceFile)` — purely syntactic, per file, so the
+ *      result can live in the per-file index cache. Names stay unresolved.
+ *   2. `buildDependencyGraph(files)` — resolves names across files (relative
+ *      imports, barrel re-exports, `this.<injected>.method()` receivers,
+ *      template tags to component selectors) into one directed graph.
+ *
+ * Node ids: a file is its absolute path; a symbol is `<file>#<Name>` or
+ * `<file>#<Class>.<member>`; a package import is `module:<specifier>`.
+ * Resolution is name-based (no type checker): calls through untyped locals,
+ * path aliases and overloaded names are not resolved and produce no edge.
+ *
+ * [REF:DEPENDENCY-GRAPH]
+ */
+
+import path from "node:path";
+import {
+  Node,
+  SyntaxKind,
+  type CallExpression,
+  type ClassDeclaration,
+  type Decorator,
+  type NewExpression,
+  type SourceFile,
+} from "ts-morph";
+
+/* ── Public types ────────────────────────────────────────── */
+
+export type DependencyEdgeKind =
+  | "imports"
+  | "re_exports"
+  | "calls"
+  | "extends"
+  | "implements"
+  | "injects"
+  | "template_uses";
+
+export interface DependencyEdge {
+  from: string;
+  to: string;
+  kind: DependencyEdgeKind;
+  /** File in which the edge is written */
+  filePath: string;
+  /** 1-based line of the import, call, heritage clause or template tag */
+  line: number;
+  /** Imported / re-exported names (imports, re_exports) */
+  names?: string[];
+  typeOnly?: boolean;
+}
+
+export interface DependencyNode {
+  id: string;
+  kind: "file" | "symbol" | "module";
+  filePath: string | null;
+  symbol?: string;
+}
+
+/** Unresolved facts for one TS/JS file (cached with the file's index record). */
+export interface DependencyFacts {
+  imports: Array<{
+    specifier: string;
+    /** `imported` is "default" for default imports and "*" for namespace imports */
+    names: Array<{ imported: string; local: string }>;
+    typeOnly: boolean;
+    dynamic: boolean;
+    line: number;
+  }>;
+  reExports: Array<{
+    specifier: string;
+    /** Empty for `export * from` */
+    names: Array<{ imported: string; exported: string }>;
+    line: number;
+  }>;
+  /** Top-level class -> member names, and property name -> declared/injected type */
+  classes: Array<{
+    name: string;
+    members: string[];
+    propertyTypes: Record<string, string>;
+    extends: string | null;
+    implements: string[];
+    injects: Array<{ typeName: string; line: number }>;
+    /** Angular @Component/@Directive selector and templateUrl, when decorated */
+    selector: string | null;
+    templateUrl: string | null;
+    hasInlineTemplate: boolean;
+    line: number;
+  }>;
+  calls: Array<{
+    /** Enclosing declaration: "fn", "Class.member", or "" for module level */
+    from: string;
+    callee: string;
+    /** `Ident` in `Ident.callee()`, `this` in `this.callee()`, or `this.<prop>` */
+    receiver?: string;
+    line: number;
+  }>;
+}
+
+/** Everything buildDependencyGraph needs from one indexed file */
+export interface DependencyGraphInput {
+  filePath: string;
+  /** Top-level declared names (classes, functions, variables, …) */
+  declarations: string[];
+  dependencies?: DependencyFacts;
+  /** Custom element tags used in the file's templates */
+  templateTags: Array<{ tag: string; line: number }>;
+  /** Attribute directives used in the file's templates */
+  templateDirectives: Array<{ name: string; line: number }>;
+}
+
+export type DependencyRelation =
+  | "callers"
+  | "callees"
+  | "importers"
+  | "imports"
+  | "dependents"
+  | "dependencies"
+  | "neighbors";
+
+export interface DependencyQuery {
+  symbol?: string;
+  /** Absolute path of an indexed file */
+  filePath?: string;
+  relation: DependencyRelation;
+  /** Hops to follow; 1 = direct neighbours */
+  depth: number;
+  limit: number;
+}
+
+export interface DependencyQueryResult {
+  /** Ids the traversal started from */
+  anchors: string[];
+  nodes: DependencyNode[];
+  /** Edges in traversal order, each with the hop distance from the anchors */
+  edges: Array<DependencyEdge & { depth: number; direction: "in" | "out" }>;
+  truncated: boolean;
+}
+
+const RELATIONS: Record<DependencyRelation, { kinds: DependencyEdgeKind[] | null; in: boolean; out: boolean; fileLevel: boolean }> = {
+  callers: { kinds: ["calls"], in: true, out: false, fileLevel: false },
+  callees: { kinds: ["calls"], in: false, out: true, fileLevel: false },
+  importers: { kinds: ["imports", "re_exports"], in: true, out: false, fileLevel: true },
+  imports: { kinds: ["imports", "re_exports"], in: false, out: true, fileLevel: true },
+  dependents: { kinds: null, in: true, out: false, fileLevel: false },
+  dependencies: { kinds: null, in: false, out: true, fileLevel: false },
+  neighbors: { kinds: null, in: true, out: true, fileLevel: false },
+};
+
+export const DEPENDENCY_RELATIONS = Object.keys(RELATIONS) as DependencyRelation[];
+
+/* ── Stage 1: per-file extraction ────────────────────────── */
+
+export function extractDependencyFacts(sourceFile: SourceFile): DependencyFacts {
+  const facts: DependencyFacts = { imports: [], reExports: [], classes: [], calls: [] };
+
+  for (const declaration of sourceFile.getImportDeclarations()) {
+    const names: Array<{ imported: string; local: string }> = [];
+    const defaultImport = declaration.getDefaultImport();
+    if (defaultImport) names.push({ imported: "default", local: defaultImport.getText() });
+    const namespaceImport = declaration.getNamespaceImport();
+    if (namespaceImport) names.push({ imported: "*", local: namespaceImport.getText() });
+    for (const named of declaration.getNamedImports()) {
+      names.push({ imported: named.getName(), local: named.getAliasNode()?.getText() ?? named.getName() });
+    }
+    facts.imports.push({
+      specifier: declaration.getModuleSpecifierValue(),
+      names,
+      typeOnly: declaration.isTypeOnly(),
+      dynamic: false,
+      line: declaration.getStartLineNumber(),
+    });
+  }
+
+  for (const declaration of sourceFile.getExportDeclarations()) {
+    const specifier = declaration.getModuleSpecifierValue();
+    if (!specifier) continue;
+    facts.reExports.push({
+      specifier,
+      names: declaration.getNamedExports().map((named) => ({
+        imported: named.getName(),
+        exported: named.getAliasNode()?.getText() ?? named.getName(),
+      })),
+      line: declaration.getStartLineNumber(),
+    });
+  }
+
+  for (const classDeclaration of sourceFile.getClasses()) {
+    const name = classDeclaration.getName();
+    if (name) facts.classes.push(extractClassFacts(classDeclaration, name));
+  }
+
+  sourceFile.forEachDescendant((node) => {
+    if (Node.isCallExpression(node)) {
+      if (node.getExpression().getKind() === SyntaxKind.ImportKeyword) {
+        const [argument] = node.getArguments();
+        if (argument && Node.isStringLiteral(argument)) {
+          facts.imports.push({ specifier: argument.getLiteralValue(), names: [], typeOnly: false, dynamic: true, line: node.getStartLineNumber() });
+        }
+        return;
+      }
+      addCallFact(facts, node);
+    } else if (Node.isNewExpression(node)) {
+      addCallFact(facts, node);
+    }
+  });
+
+  return facts;
+}
+
+function extractClassFacts(classDeclaration: ClassDeclaration, name: string): DependencyFacts["classes"][number] {
+  const propertyTypes: Record<string, string> = {};
+  const injects: Array<{ typeName: string; line: number }> = [];
+  const members = [
+    ...classDeclaration.getMethods().map((method) => method.getName()),
+    ...classDeclaration.getProperties().map((property) => property.getName()),
+    ...classDeclaration.getGetAccessors().map((accessor) => accessor.getName()),
+    ...(classDeclaration.getConstructors().length > 0 ? ["constructor"] : []),
+  ];
+
+  for (const constructorDeclaration of classDeclaration.getConstructors()) {
+    for (const parameter of constructorDeclaration.getParameters()) {
+      const typeName = typeReferenceName(parameter.getTypeNode()) ?? injectTokenName(parameter.getDecorator("Inject"));
+      if (!typeName) continue;
+      injects.push({ typeName, line: parameter.getStartLineNumber() });
+      if (parameter.isParameterProperty()) {
+        propertyTypes[parameter.getName()] = typeName;
+        members.push(parameter.getName());
+      }
+    }
+  }
+  for (const property of classDeclaration.getProperties()) {
+    const initializer = property.getInitializer();
+    const injected = initializer && Node.isCallExpression(initializer) && initializer.getExpression().getText() === "inject"
+      ? typeNameFromExpression(initializer.getArguments()[0])
+      : null;
+    if (injected) injects.push({ typeName: injected, line: property.getStartLineNumber() });
+    const typeName = typeReferenceName(property.getTypeNode()) ?? injected;
+    if (typeName) propertyTypes[property.getName()] = typeName;
+  }
+
+  const extendsExpression = classDeclaration.getExtends()?.getExpression();
+  const decorator = classDeclaration.getDecorator("Component") ?? classDeclaration.getDecorator("Directive");
+  const decoratorConfig = decorator?.getArguments()[0];
+  const configValue = (key: string): string | null => {
+    if (!decoratorConfig || !Node.isObjectLiteralExpression(decoratorConfig)) return null;
+    const property = decoratorConfig.getProperty(key);
+    if (!property || !Node.isPropertyAssignment(property)) return null;
+    const initializer = property.getInitializer();
+    return initializer && (Node.isStringLiteral(initializer) || Node.isNoSubstitutionTemplateLiteral(initializer))
+      ? initializer.getLiteralValue()
+      : null;
+  };
+
+  return {
+    name,
+    members: [...new Set(members)],
+    propertyTypes,
+    extends: extendsExpression ? lastSegment(extendsExpression.getText()) : null,
+    implements: classDeclaration.getImplements().map((clause) => lastSegment(clause.getExpression().getText())),
+    injects,
+    selector: configValue("selector"),
+    templateUrl: configValue("templateUrl"),
+    hasInlineTemplate: Boolean(decoratorConfig && Node.isObjectLiteralExpression(decoratorConfig) && decoratorConfig.getProperty("template")),
+    line: classDeclaration.getStartLineNumber(),
+  };
+}
+
+function addCallFact(facts: DependencyFacts, node: CallExpression | NewExpression): void {
+  const expression = node.getExpression();
+  const from = enclosingDeclaration(node);
+  const line = node.getStartLineNumber();
+  if (Node.isIdentifier(expression)) {
+    facts.calls.push({ from, callee: expression.getText(), line });
+    return;
+  }
+  if (!Node.isPropertyAccessExpression(expression)) return;
+  const callee = expression.getName();
+  const receiver = expression.getExpression();
+  if (receiver.getKind() === SyntaxKind.ThisKeyword) {
+    facts.calls.push({ from, callee, receiver: "this", line });
+  } else if (Node.isPropertyAccessExpression(receiver) && receiver.getExpression().getKind() === SyntaxKind.ThisKeyword) {
+    facts.calls.push({ from, callee, receiver: `this.${receiver.getName()}`, line });
+  } else if (Node.isIdentifier(receiver)) {
+    facts.calls.push({ from, callee, receiver: receiver.getText(), line });
+  }
+}
+
+/** "Class.member", "functionName", "variableName" or "" (module level). */
+function enclosingDeclaration(node: Node): string {
+  for (let current = node.getParent(); current; current = current.getParent()) {
+    if (Node.isMethodDeclaration(current) || Node.isPropertyDeclaration(current) || Node.isGetAccessorDeclaration(current) || Node.isSetAccessorDeclaration(current) || Node.isConstructorDeclaration(current)) {
+      const owner = current.getParent();
+      const member = Node.isConstructorDeclaration(current) ? "constructor" : current.getName();
+      if (Node.isClassDeclaration(owner) && owner.getName() && Node.isSourceFile(owner.getParent())) {
+        return `${owner.getName()}.${member}`;
+      }
+    }
+    if (Node.isFunctionDeclaration(current) && Node.isSourceFile(current.getParent())) {
+      return current.getName() ?? "";
+    }
+    if (Node.isVariableDeclaration(current) && current.getVariableStatement()?.getParent() && Node.isSourceFile(current.getVariableStatement()!.getParent())) {
+      return current.getName();
+    }
+  }
+  return "";
+}
+
+function typeReferenceName(typeNode: Node | undefined): string | null {
+  if (!typeNode || !Node.isTypeReference(typeNode)) return null;
+  return lastSegment(typeNode.getTypeName().getText());
+}
+
+function injectTokenName(decorator: Decorator | undefined): string | null {
+  return decorator ? typeNameFromExpression(decorator.getArguments()[0]) : null;
+}
+
+function typeNameFromExpression(expression: Node | undefined): string | null {
+  return expression && (Node.isIdentifier(expression) || Node.isPropertyAccessExpression(expression))
+    ? lastSegment(expression.getText())
+    : null;
+}
+
+function lastSegment(name: string): string {
+  const withoutTypeArgs = name.replace(/<[\s\S]*$/, "");
+  return withoutTypeArgs.slice(withoutTypeArgs.lastIndexOf(".") + 1);
+}
+
+/* ── Stage 2: cross-file resolution ──────────────────────── */
+
+const RESOLVE_EXTENSIONS = [".ts", ".tsx", ".js", ".mjs", ".cjs", "/index.ts", "/index.tsx", "/index.js"];
+
+export class DependencyGraph {
+  private readonly nodes = new Map<string, DependencyNode>();
+  private readonly outgoing = new Map<string, DependencyEdge[]>();
+  private readonly incoming = new Map<string, DependencyEdge[]>();
+  /** symbol name (and "Class.member") -> node ids */
+  private readonly bySymbol = new Map<string, string[]>();
+  private edgeCount = 0;
+
+  get size(): { nodes: number; edges: number } {
+    return { nodes: this.nodes.size, edges: this.edgeCount };
+  }
+
+  addNode(node: DependencyNode): void {
+    if (this.nodes.has(node.id)) return;
+    this.nodes.set(node.id, node);
+    if (node.symbol) {
+      const ids = this.bySymbol.get(node.symbol) ?? [];
+      ids.push(node.id);
+      this.bySymbol.set(node.symbol, ids);
+    }
+  }
+
+  addEdge(edge: DependencyEdge): void {
+    if (edge.from === edge.to) return;
+    const existing = this.outgoing.get(edge.from) ?? [];
+    if (existing.some((item) => item.to === edge.to && item.kind === edge.kind && item.line === edge.line)) return;
+    existing.push(edge);
+    this.outgoing.set(edge.from, existing);
+    const reverse = this.incoming.get(edge.to) ?? [];
+    reverse.push(edge);
+    this.incoming.set(edge.to, reverse);
+    this.edgeCount += 1;
+  }
+
+  getNode(id: string): DependencyNode | undefined {
+    return this.nodes.get(id);
+  }
+
+  edgesFrom(id: string): DependencyEdge[] {
+    return this.outgoing.get(id) ?? [];
+  }
+
+  edgesTo(id: string): DependencyEdge[] {
+    return this.incoming.get(id) ?? [];
+  }
+
+  /**
+   * Breadth-first traversal from the anchor. A class anchor includes its
+   * members; import relations start from the declaring files; a file anchor
+   * includes the symbols declared in it for symbol-level relations.
+   */
+  query(query: DependencyQuery): DependencyQueryResult {
+    const relation = RELATIONS[query.relation];
+    const anchors = new Set<string>();
+    if (query.symbol) {
+      const symbolIds = [
+        ...(this.bySymbol.get(query.symbol) ?? []),
+        ...[...this.bySymbol.entries()].filter(([name]) => name.startsWith(`${query.symbol}.`)).flatMap(([, ids]) => ids),
+      ];
+      for (const id of symbolIds) {
+        const node = this.nodes.get(id);
+        if (relation.fileLevel && node?.filePath) anchors.add(node.filePath);
+        else anchors.add(id);
+      }
+    }
+    if (query.filePath && this.nodes.has(query.filePath)) {
+      anchors.add(query.filePath);
+      if (!relation.fileLevel) {
+        for (const node of this.nodes.values()) {
+          if (node.kind === "symbol" && node.filePath === query.filePath) anchors.add(node.id);
+        }
+      }
+    }
+
+    const admits = (edge: DependencyEdge) => !relation.kinds || relation.kinds.includes(edge.kind);
+    const visited = new Set(anchors);
+    const edges: DependencyQueryResult["edges"] = [];
+    const seenEdges = new Set<DependencyEdge>();
+    let frontier = [...anchors];
+    let truncated = false;
+    for (let depth = 1; depth <= Math.max(1, query.depth) && frontier.length > 0 && !truncated; depth += 1) {
+      const next: string[] = [];
+      for (const id of frontier) {
+        const steps: Array<[DependencyEdge, "in" | "out", string]> = [
+          ...(relation.in ? this.edgesTo(id).filter(admits).map((edge) => [edge, "in", edge.from] as [DependencyEdge, "in", string]) : []),
+          ...(relation.out ? this.edgesFrom(id).filter(admits).map((edge) => [edge, "out", edge.to] as [DependencyEdge, "out", string]) : []),
+        ];
+        for (const [edge, direction, other] of steps) {
+          if (seenEdges.has(edge)) continue;
+          if (edges.length >= query.limit) {
+            truncated = true;
+            break;
+          }
+          seenEdges.add(edge);
+          edges.push({ ...edge, depth, direction });
+          if (!visited.has(other)) {
+            visited.add(other);
+            next.push(other);
+          }
+        }
+        if (truncated) break;
+      }
+      frontier = next;
+    }
+
+    const nodeIds = new Set<string>([...anchors]);
+    for (const edge of edges) {
+      nodeIds.add(edge.from);
+      nodeIds.add(edge.to);
+    }
+    return {
+      anchors: [...anchors],
+      nodes: [...nodeIds].map((id) => this.nodes.get(id)).filter((node): node is DependencyNode => Boolean(node)),
+      edges,
+      truncated,
+    };
+  }
+}
+
+export function buildDependencyGraph(files: DependencyGraphInput[]): DependencyGraph {
+  const graph = new DependencyGraph();
+  const byPath = new Map(files.map((file) => [file.filePath, file]));
+  const resolveModule = (specifier: string, fromFile: string): string | null => {
+    if (!specifier.startsWith(".")) return null;
+    const base = path.resolve(path.dirname(fromFile), specifier);
+    const stripped = base.replace(/\.(js|mjs|cjs)$/, "");
+    for (const candidate of [base, ...RESOLVE_EXTENSIONS.map((ext) => `${stripped}${ext}`)]) {
+      if (byPath.has(candidate)) return candidate;
+    }
+    return null;
+  };
+
+  // Nodes: every file, its top-level declarations and class members
+  for (const file of files) {
+    graph.addNode({ id: file.filePath, kind: "file", filePath: file.filePath });
+    for (const name of file.declarations) {
+      graph.addNode({ id: `${file.filePath}#${name}`, kind: "symbol", filePath: file.filePath, symbol: name });
+    }
+    for (const classFacts of file.dependencies?.classes ?? []) {
+      for (const member of classFacts.members) {
+        const symbol = `${classFacts.name}.${member}`;
+        graph.addNode({ id: `${file.filePath}#${symbol}`, kind: "symbol", filePath: file.filePath, symbol });
+      }
+    }
+  }
+
+  /** Follow re-exports until the file that declares `name`. */
+  const resolveExport = (filePath: string, name: string, seen = new Set<string>()): string | null => {
+    const key = `${filePath}#${name}`;
+    if (seen.has(key)) return null;
+    seen.add(key);
+    const file = byPath.get(filePath);
+    if (!file) return null;
+    if (file.declarations.includes(name)) return key;
+    for (const reExport of file.dependencies?.reExports ?? []) {
+      const target = resolveModule(reExport.specifier, filePath);
+      if (!target) continue;
+      if (reExport.names.length === 0) {
+        const resolved = resolveExport(target, name, seen);
+        if (resolved) return resolved;
+        continue;
+      }
+      const named = reExport.names.find((item) => item.exported === name);
+      if (named) return resolveExport(target, named.imported, seen);
+    }
+    return null;
+  };
+
+  /** Resolve a local name in `file` to a symbol id: own declaration first, then imports. */
+  const resolveLocal = (file: DependencyGraphInput, name: string): string | null => {
+    if (file.declarations.includes(name)) return `${file.filePath}#${name}`;
+    for (const entry of file.dependencies?.imports ?? []) {
+      const imported = entry.names.find((item) => item.local === name);
+      if (!imported || imported.imported === "*") continue;
+      const target = resolveModule(entry.specifier, file.filePath);
+      return target ? resolveExport(target, imported.imported) : null;
+    }
+    return null;
+  };
+
+  /** `Class.member` id for a resolved class id, if the member exists. */
+  const memberOf = (classId: string | null, member: string): string | null => {
+    if (!classId) return null;
+    const id = `${classId}.${member}`;
+    return graph.getNode(id) ? id : null;
+  };
+
+  const selectorOwners = new Map<string, string>();
+  for (const file of files) {
+    for (const classFacts of file.dependencies?.classes ?? []) {
+      for (const part of (classFacts.selector ?? "").split(",")) {
+        const selector = part.trim();
+        if (selector) selectorOwners.set(selector, `${file.filePath}#${classFacts.name}`);
+      }
+    }
+  }
+
+  // Template owners: html files claimed by a component's templateUrl
+  const templateOwners = new Map<string, string>();
+  for (const file of files) {
+    for (const classFacts of file.dependencies?.classes ?? []) {
+      if (classFacts.templateUrl) {
+        templateOwners.set(path.resolve(path.dirname(file.filePath), classFacts.templateUrl), `${file.filePath}#${classFacts.name}`);
+      }
+    }
+  }
+
+  for (const file of files) {
+    const facts = file.dependencies;
+    const symbolId = (name: string) => (name ? `${file.filePath}#${name}` : file.filePath);
+
+    for (const entry of facts?.imports ?? []) {
+      const target = resolveModule(entry.specifier, file.filePath);
+      const to = target ?? (entry.specifier.startsWith(".") ? null : `module:${entry.specifier}`);
+      if (!to) continue;
+      if (!target) graph.addNode({ id: to, kind: "module", filePath: null });
+      graph.addEdge({
+        from: file.filePath, to, kind: "imports", filePath: file.filePath, line: entry.line,
+        names: entry.names.map((item) => item.imported), typeOnly: entry.typeOnly || undefined,
+      });
+    }
+    for (const entry of facts?.reExports ?? []) {
+      const target = resolveModule(entry.specifier, file.filePath);
+      if (!target) continue;
+      graph.addEdge({
+        from: file.filePath, to: target, kind: "re_exports", filePath: file.filePath, line: entry.line,
+        names: entry.names.length > 0 ? entry.names.map((item) => item.exported) : ["*"],
+      });
+    }
+
+    for (const classFacts of facts?.classes ?? []) {
+      const classId = symbolId(classFacts.name);
+      const heritage: Array<[string, "extends" | "implements"]> = [
+        ...(classFacts.extends ? [[classFacts.extends, "extends"] as [string, "extends"]] : []),
+        ...classFacts.implements.map((name) => [name, "implements"] as [string, "implements"]),
+      ];
+      for (const [name, kind] of heritage) {
+        const target = resolveLocal(file, name);
+        if (target) graph.addEdge({ from: classId, to: target, kind, filePath: file.filePath, line: classFacts.line });
+      }
+      for (const injection of classFacts.injects) {
+        const target = resolveLocal(file, injection.typeName);
+        if (target) graph.addEdge({ from: classId, to: target, kind: "injects", filePath: file.filePath, line: injection.line });
+      }
+    }
+
+    for (const call of facts?.calls ?? []) {
+      const from = graph.getNode(symbolId(call.from)) ? symbolId(call.from) : file.filePath;
+      let target: string | null = null;
+      if (!call.receiver) {
+        target = resolveLocal(file, call.callee);
+      } else if (call.receiver === "this") {
+        target = memberOf(symbolId(call.from.split(".")[0]), call.callee);
+      } else if (call.receiver.startsWith("this.")) {
+        const ownerClass = facts?.classes.find((item) => item.name === call.from.split(".")[0]);
+        const typeName = ownerClass?.propertyTypes[call.receiver.slice("this.".length)];
+        target = typeName ? memberOf(resolveLocal(file, typeName), call.callee) : null;
+      } else {
+        const namespaceImport = facts?.imports.find((entry) => entry.names.some((item) => item.local === call.receiver && item.imported === "*"));
+        const namespaceTarget = namespaceImport ? resolveModule(namespaceImport.specifier, file.filePath) : null;
+        target = namespaceTarget
+          ? resolveExport(namespaceTarget, call.callee)
+          : memberOf(resolveLocal(file, call.receiver), call.callee);
+      }
+      if (target) graph.addEdge({ from, to: target, kind: "calls", filePath: file.filePath, line: call.line });
+    }
+
+    // Template usage: the owning component (templateUrl or inline template) renders the tag's component
+    const inlineOwner = facts?.classes.find((item) => item.hasInlineTemplate);
+    const owner = templateOwners.get(file.filePath) ?? (inlineOwner ? symbolId(inlineOwner.name) : file.filePath);
+    for (const usage of file.templateTags) {
+      const target = selectorOwners.get(usage.tag);
+      if (target) graph.addEdge({ from: owner, to: target, kind: "template_uses", filePath: file.filePath, line: usage.line });
+    }
+    for (const usage of file.templateDirectives) {
+      const target = selectorOwners.get(`[${usage.name}]`);
+      if (target) graph.addEdge({ from: owner, to: target, kind: "template_uses", filePath: file.filePath, line: usage.line });
+    }
+  }
+
+  return graph;
+}
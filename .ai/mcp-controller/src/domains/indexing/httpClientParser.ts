@@ -0,0 +1,150 @@
+/**
+ * Angular HttpClient Call Parser — extracts HTTP call sites from TypeScript source.
+ *
+ * Handles:
+ *   - Constructor injection (`constructor(private http: HttpClient)`)
+ *   - Field injection (`private http = inject(HttpClient)`, `http: HttpClient`)
+ *   - Function-scoped `const http = inject(HttpClient)`
+ *   - `get/post/put/patch/delete/head/options<T>(url, ...)` and `request<T>(method, url, ...)`
+ *
+ * URLs are reduced to templates: string literals are kept, template-literal
+ * interpolations and non-literal operands become `{}` so call sites can be
+ * matched against OpenAPI paths (`/accounts/{id}`) without resolving values.
+ *
+ * [REF:HTTP-CLIENT-PARSER]
+ */
+
+import { Node, SyntaxKind, type CallExpression, type Expression, type SourceFile } from "ts-morph";
+
+/* ── Public types ────────────────────────────────────────── */
+
+export interface HttpClientCallFact {
+  /** Upper-case HTTP method ("GET", "POST", …); "" when `request()` takes a non-literal method */
+  method: string;
+  /** URL template with interpolations replaced by `{}` (e.g. "{}/accounts/{}"); "" when nothing is literal */
+  urlTemplate: string;
+  /** Generic type argument text (e.g. "AccountDto[]"), null when the call is untyped */
+  responseType: string | null;
+  /** Source file of the call */
+  filePath: string;
+  /** Line number (0-based) of the call expression */
+  line: number;
+  /** Enclosing class, if any */
+  className: string | null;
+  /** Enclosing method, property or function name, if any */
+  memberName: string | null;
+}
+
+const SHORTHAND_METHODS = new Set(["get", "post", "put", "patch", "delete", "head", "options", "jsonp"]);
+
+/* ── Public API ──────────────────────────────────────────── */
+
+export function parseHttpClientCalls(sourceFile: SourceFile): HttpClientCallFact[] {
+  const clientNames = collectHttpClientNames(sourceFile);
+  if (clientNames.size === 0) return [];
+
+  const facts: HttpClientCallFact[] = [];
+  for (const call of sourceFile.getDescendantsOfKind(SyntaxKind.CallExpression)) {
+    const callee = call.getExpression();
+    if (!Node.isPropertyAccessExpression(callee)) continue;
+    const methodName = callee.getName();
+    if (methodName !== "request" && !SHORTHAND_METHODS.has(methodName)) continue;
+    if (!clientNames.has(receiverName(callee.getExpression()) ?? "")) continue;
+
+    const args = call.getArguments() as Expression[];
+    const urlArg = methodName === "request" ? args[1] : args[0];
+    if (!urlArg) continue;
+    const method = methodName === "request" ? literalText(args[0])?.toUpperCase() ?? "" : methodName.toUpperCase();
+    facts.push({
+      method: method === "JSONP" ? "GET" : method,
+      urlTemplate: urlTemplate(urlArg),
+      responseType: call.getTypeArguments()[0]?.getText() ?? null,
+      filePath: sourceFile.getFilePath(),
+      line: call.getStartLineNumber() - 1,
+      ...enclosingNames(call),
+    });
+  }
+  return facts;
+}
+
+/**
+ * Quick check: can this file contain HttpClient calls?
+ * Used to filter files before the AST walk.
+ */
+export function isLikelyHttpClientFile(content: string): boolean {
+  return content.includes("HttpClient");
+}
+
+/* ── Internals ───────────────────────────────────────────── */
+
+/** Names bound to an HttpClient: constructor params, class fields and inject() locals. */
+function collectHttpClientNames(sourceFile: SourceFile): Set<string> {
+  const names = new Set<string>();
+  const isClientType = (text: string | undefined) => text?.replace(/\s/g, "") === "HttpClient";
+  const isInjectCall = (node: Node | undefined) =>
+    Node.isCallExpression(node)
+    && node.getExpression().getText() === "inject"
+    && node.getArguments()[0]?.getText() === "HttpClient";
+
+  for (const parameter of sourceFile.getDescendantsOfKind(SyntaxKind.Parameter)) {
+    if (isClientType(parameter.getTypeNode()?.getText())) names.add(parameter.getName());
+  }
+  for (const property of sourceFile.getDescendantsOfKind(SyntaxKind.PropertyDeclaration)) {
+    if (isClientType(property.getTypeNode()?.getText()) || isInjectCall(property.getInitializer())) {
+      names.add(property.getName());
+    }
+  }
+  for (const variable of sourceFile.getDescendantsOfKind(SyntaxKind.VariableDeclaration)) {
+    if (isClientType(variable.getTypeNode()?.getText()) || isInjectCall(variable.getInitializer())) {
+      names.add(variable.getName());
+    }
+  }
+  return names;
+}
+
+/** `this.http` → "http", `http` → "http"; anything deeper is not a client reference. */
+function receiverName(expression: Node): string | null {
+  if (Node.isIdentifier(expression)) return expression.getText();
+  if (Node.isPropertyAccessExpression(expression) && expression.getExpression().getKind() === SyntaxKind.ThisKeyword) {
+    return expression.getName();
+  }
+  return null;
+}
+
+function literalText(node: Node | undefined): string | null {
+  if (Node.isStringLiteral(node) || Node.isNoSubstitutionTemplateLiteral(node)) return node.getLiteralText();
+  return null;
+}
+
+function urlTemplate(node: Node): string {
+  const template = templatePart(node);
+  // A URL with no literal part at all carries no matching signal
+  return /^(\{\})*$/.test(template) ? "" : template;
+}
+
+function templatePart(node: Node): string {
+  const literal = literalText(node);
+  if (literal !== null) return literal;
+  if (Node.isTemplateExpression(node)) {
+    return node.getHead().getLiteralText()
+      + node.getTemplateSpans().map((span) => `{}${span.getLiteral().getLiteralText()}`).join("");
+  }
+  if (Node.isBinaryExpression(node) && node.getOperatorToken().getKind() === SyntaxKind.PlusToken) {
+    return `${templatePart(node.getLeft())}${templatePart(node.getRight())}`.replace(/(\{\})+/g, "{}");
+  }
+  if (Node.isParenthesizedExpression(node)) return templatePart(node.getExpression());
+  return "{}";
+}
+
+function enclosingNames(call: CallExpression): Pick<HttpClientCallFact, "className" | "memberName"> {
+  let memberName: string | null = null;
+  for (const ancestor of call.getAncestors()) {
+    if (memberName === null && (Node.isMethodDeclaration(ancestor) || Node.isPropertyDeclaration(ancestor) || Node.isFunctionDeclaration(ancestor))) {
+      memberName = ancestor.getName() ?? null;
+    }
+    if (Node.isClassDeclaration(ancestor)) {
+      return { className: ancestor.getName() ?? null, memberName };
+    }
+  }
+  return { className: null, memberName };
+}
@@ -1,13 +1,40 @@
 import path from "node:path";
+import { createHash } from "node:crypto";
 import { readdir, readFile } from "node:fs/promises";
-import { existsSync } from "node:fs";
+import { existsSync, watch, type FSWatcher } from "node:fs";
+import { Project, type SourceFile } from "ts-morph";
 import type { GatewayConfig } from "../../config/types";
 import { LexicalIndex, type LexicalHit } from "../../infrastructure/lexical-index/lexicalIndex";
-import { resolveRepoRoot, resolveTargetRepoRoot } from "../../shared/fsPaths";
+import { writeText } from "../../shared/fileStore";
+import { createGlobFilter } from "../../shared/globMatch";
+import { indexCacheRoot, resolveRepoRoot, resolveTargetRepoRoot } from "../../shared/fsPaths";
 import { loadGitignoreFilterWithAncestors, type GitignoreFilter } from "../../shared/gitignoreFilter";
 import { replaceWithGuard } from "../../shared/replaceGuard";
 import { createTsMorphProject, parseAngularTemplate, parseAngularTemplateUsage, parseAngularTemplateNav, parseAngularTemplateDirectives, extractInlineTemplates, type TemplateNavFacts, type TemplateDirectiveUsage } from "./astTooling";
 import { parseRouteConfig, isLikelyRouteFile, type ParsedRoute, type RouteParseResult, type GuardDetail } from "./routeParser";
+import { buildDependencyGraph, extractDependencyFacts, DependencyGraph, type DependencyFacts, type DependencyGraphInput, type DependencyQuery, type DependencyQueryResult } from "./dependencyGraph";
+import { parseHttpClientCalls, isLikelyHttpClientFile, type HttpClientCallFact } from "./httpClientParser";
+import {
+  parseAngularDiFacts,
+  isLikelyAngularDiFile,
+  emptyAngularDiFacts,
+  resolveTemplateScopes,
+  resolveTemplateSelectors,
+  standaloneDefaultFor,
+  type AngularDiFacts,
+  type TemplateScope,
+  type TemplateSelectorResolution,
+} from "./ngModuleParser";
+import {
+  parseComponentContracts,
+  parseContractBases,
+  resolveContractInheritance,
+  isLikelyComponentContractFile,
+  checkTemplateBindings,
+  type AngularComponentContract,
+  type ComponentContractBase,
+  type TemplateBindingIssue,
+} from "./componentContractParser";
 
 export interface SymbolHit {
   symbol: string;
@@ -15,6 +42,12 @@ export interface SymbolHit {
   kind: "class" | "function" | "interface" | "enum" | "type" | "variable";
 }
 
+/** Glob filters for searchLexical, matched against repo-relative paths */
+export interface LexicalPathFilters {
+  include?: string[];
+  exclude?: string[];
+}
+
 /** High-signal symbol extracted during indexing — suitable for graph ingestion */
 export interface SymbolHeader {
   symbol: string;
@@ -29,6 +62,7 @@ export interface TemplateUsageFact {
   tag: string;
   filePath: string;
   line: number;
+  /** As written: static `name`, property binding `[name]`, event binding `(name)`; `[(name)]` yields `[name]` and `(nameChange)` */
   attributes: string[];
   /** Whether the tag is from the ADP library */
   isAdp: boolean;
@@ -43,8 +77,23 @@ export interface IndexingFailure {
 
 /** Route fact re-exported so consumers don't need to import routeParser directly */
 export type { ParsedRoute, GuardDetail } from "./routeParser";
+/** HttpClient call-site fact re-exported for seed generation and API contract linking */
+export type { HttpClientCallFact } from "./httpClientParser";
 /** Template directive type re-exported from astTooling */
 export type { TemplateDirectiveUsage } from "./astTooling";
+/** NgModule / DI facts re-exported for seed generation */
+export type {
+  AngularDiFacts,
+  AngularDeclarableFact,
+  AngularProviderFact,
+  NgModuleFact,
+  InjectableFact,
+  InjectionTokenFact,
+  TemplateScope,
+  TemplateSelectorResolution,
+} from "./ngModuleParser";
+/** Component contract facts re-exported for binding checks */
+export type { AngularComponentContract, AngularPropContract, TemplateBindingIssue } from "./componentContractParser";
 
 /**
  * Resolved guard — links a guard name back to its definition file and
@@ -128,6 +177,77 @@ export interface ResolvedDirective {
   usedInTemplates: string[];
 }
 
+/**
+ * Everything extracted from one file. The index is the union of these records;
+ * they are what the on-disk cache stores, keyed by content hash.
+ */
+interface IndexedFileRecord {
+  filePath: string;
+  /** sha256 of the content the facts were extracted from ("" when unreadable) */
+  hash: string;
+  symbols: SymbolHit[];
+  templateUsage: TemplateUsageFact[];
+  routerLinks: TemplateRouterLinkFact[];
+  hasRouterOutlet: boolean;
+  directiveUsages: DirectiveUsageFact[];
+  routes: ParsedRoute[];
+  routeNotes: string[];
+  httpCalls: HttpClientCallFact[];
+  /** NgModules, declarables, injectables and InjectionTokens; absent for files without any */
+  angularDi?: AngularDiFacts;
+  /** @Input/@Output contracts of the file's components and directives; absent for files without any */
+  componentContracts?: AngularComponentContract[];
+  /** Selector-less classes contracts may inherit bindings from; absent for files without any */
+  contractBases?: ComponentContractBase[];
+  /** Unresolved import/call/heritage facts; absent for non-script files */
+  dependencies?: DependencyFacts;
+  failures: IndexingFailure[];
+}
+
+/**
+ * A work item's checkout seen through the index: the worktree versions of the
+ * files an agent changed there, keyed by the live path they stand for.
+ */
+interface WorktreeOverlay {
+  lexicalIndex: LexicalIndex;
+  /** null marks a live file the worktree deleted */
+  records: Map<string, IndexedFileRecord | null>;
+  /** Dependency graph of the checkout, built on first query against the live graph it was derived from */
+  dependencyGraph?: { live: DependencyGraph; graph: DependencyGraph };
+}
+
+interface IndexCacheFile {
+  version: number;
+  repoRoot: string;
+  savedAt: string;
+  records: IndexedFileRecord[];
+}
+
+/** Counters from the last rebuild()/updateFiles() */
+export interface IndexBuildStats {
+  files: number;
+  /** Files whose facts were extracted again */
+  parsed: number;
+  /** Files whose cached facts matched their content hash */
+  reused: number;
+  removed: number;
+}
+
+export interface IndexUpdateResult {
+  updated: string[];
+  removed: string[];
+}
+
+export interface IndexWatchHandle {
+  close(): void;
+}
+
+/** Bump when IndexedFileRecord or any extractor's output changes shape. */
+const INDEX_CACHE_VERSION = 6;
+
+/** How long watch-mode updates may leave the cache file behind the in-memory index. */
+const WATCH_CACHE_SAVE_DELAY_MS = 30_000;
+
 /**
  * @deprecated — Retained only as a fallback reference. Actual exclusion is now
  * handled by `loadGitignoreFilterWithAncestors()` in `shared/gitignoreFilter.ts`,
@@ -161,6 +281,7 @@ const INGESTION_ALLOWED_EXTENSIONS = [
 
 export class IndexingService {
   private readonly lexicalIndex = new LexicalIndex();
+  private readonly fileRecords = new Map<string, IndexedFileRecord>();
   private readonly symbolMap = new Map<string, SymbolHit[]>();
   private readonly failures: IndexingFailure[] = [];
   private readonly templateUsageFacts: TemplateUsageFact[] = [];
@@ -169,117 +290,331 @@ export class IndexingService {
   private readonly templateRouterLinks: TemplateRouterLinkFact[] = [];
   private readonly routerOutletFiles = new Set<string>();
   private readonly directiveUsages: DirectiveUsageFact[] = [];
+  private readonly httpCalls: HttpClientCallFact[] = [];
+  private angularDi: AngularDiFacts = emptyAngularDiFacts();
+  private templateScopes: TemplateScope[] = [];
+  private templateSelectorResolutions: TemplateSelectorResolution[] = [];
+  private componentContracts: AngularComponentContract[] = [];
+  private templateBindingIssues: TemplateBindingIssue[] = [];
+  private dependencyGraph = new DependencyGraph();
   private indexedFilePaths: string[] = [];
   private indexedAt = "";
+  private repoRoot: string | null = null;
+  /** Major version of the target repo's `@angular/core`; null when unknown */
+  private angularMajor: number | null = null;
+  private ingestionRoots: string[] = [];
+  private gitFilter: GitignoreFilter | null = null;
+  private parserProject: Project | null = null;
+  private lastStats: IndexBuildStats = { files: 0, parsed: 0, reused: 0, removed: 0 };
+  /** Per-worktree overlays, keyed by absolute worktree root */
+  private readonly overlays = new Map<string, WorktreeOverlay>();
+  /** Serializes rebuild/update work so watch events never interleave */
+  private pending: Promise<unknown> = Promise.resolve();
+  /** Records changed since the cache file was last written (watch mode defers saving) */
+  private cacheDirty = false;
 
-  constructor(private readonly config: GatewayConfig) {}
-
-  async rebuild(repoRoot = resolveTargetRepoRoot()): Promise<void> {
-    this.lexicalIndex.clear();
-    this.symbolMap.clear();
-    this.failures.length = 0;
-    this.templateUsageFacts.length = 0;
-    this.parsedRoutes.length = 0;
-    this.routeParseNotes.length = 0;
-    this.templateRouterLinks.length = 0;
-    this.routerOutletFiles.clear();
-    this.directiveUsages.length = 0;
-    this.indexedFilePaths = [];
+  /**
+   * @param cacheRoot Directory for the per-repo index cache; null keeps the
+   *   index in memory only. Ignored when `indexing.persistCache` is false.
+   */
+  constructor(
+    private readonly config: GatewayConfig,
+    private readonly cacheRoot: string | null = indexCacheRoot(),
+  ) {}
 
-    const roots = resolveIngestionRoots(repoRoot, this.config);
-    const gitFilter = loadGitignoreFilterWithAncestors(repoRoot, resolveRepoRoot());
-    const files = await collectFilesAcrossRoots(roots, this.config.ingestion.excludes, repoRoot, gitFilter);
-    this.indexedFilePaths = files;
-    for (const filePath of files) {
-      try {
-        const content = await readFile(filePath, "utf8");
+  /**
+   * Index every ingestible file under `repoRoot`. Files are always re-read and
+   * hashed (the lexical index needs their text), but symbol/template/route
+   * extraction is reused from the on-disk cache when the hash is unchanged.
+   */
+  rebuild(repoRoot = resolveTargetRepoRoot()): Promise<void> {
+    return this.enqueue(async () => {
+      this.lexicalIndex.clear();
+      this.fileRecords.clear();
+      this.repoRoot = repoRoot;
+      this.angularMajor = await readAngularMajorVersion(repoRoot);
+      this.ingestionRoots = resolveIngestionRoots(repoRoot, this.config);
+      this.gitFilter = loadGitignoreFilterWithAncestors(repoRoot, resolveRepoRoot());
+
+      const files = await collectFilesAcrossRoots(this.ingestionRoots, this.config.ingestion.excludes, repoRoot, this.gitFilter);
+      const cached = await this.loadCache(repoRoot);
+      const stats: IndexBuildStats = { files: files.length, parsed: 0, reused: 0, removed: 0 };
+      for (const filePath of files) {
+        const content = await readOptionalText(filePath);
+        if (content === null) {
+          this.fileRecords.set(filePath, unreadableRecord(filePath));
+          continue;
+        }
         this.lexicalIndex.addDocument(filePath, content);
-
-        // Determine template sources to parse:
-        //  - .html files: the whole file is a template
-        //  - .ts files: extract inline `template: \`...\`` strings
-        const templateSources: string[] = [];
-        if (filePath.endsWith(".html")) {
-          templateSources.push(content);
-        } else if (filePath.endsWith(".ts")) {
-          templateSources.push(...extractInlineTemplates(content));
+        const hash = hashContent(content);
+        const hit = cached.get(filePath);
+        if (hit && hit.hash === hash) {
+          this.fileRecords.set(filePath, hit);
+          stats.reused += 1;
+        } else {
+          this.fileRecords.set(filePath, this.extractFileFacts(filePath, content, hash));
+          stats.parsed += 1;
         }
+      }
+      this.indexedFilePaths = files;
+      this.lastStats = stats;
+      this.rebuildAggregates();
+      this.indexedAt = new Date().toISOString();
+      await this.saveCache();
+    });
+  }
 
-        for (const templateContent of templateSources) {
-          const template = parseAngularTemplate(templateContent);
-          if (template.errors.length > 0) {
-            this.failures.push({
-              filePath,
-              reason: template.errors.join(" | ")
-            });
-          }
-          // Phase 4: Extract component usage facts from templates
-          const usageFacts = parseAngularTemplateUsage(templateContent, filePath);
-          this.templateUsageFacts.push(...usageFacts);
-          // Phase 5: Extract navigation facts (routerLink, router-outlet)
-          const navFacts = parseAngularTemplateNav(templateContent, filePath);
-          if (navFacts.hasRouterOutlet) {
-            this.routerOutletFiles.add(filePath);
-          }
-          for (const link of navFacts.routerLinks) {
-            this.templateRouterLinks.push({
-              routePath: link.routePath,
-              filePath,
-              line: link.line,
-              hostTag: link.hostTag,
-              isBound: link.isBound,
-            });
-          }
-          // Phase 6: Extract custom directive usages from templates
-          const directiveFacts = parseAngularTemplateDirectives(templateContent, filePath);
-          for (const usage of directiveFacts.usages) {
-            this.directiveUsages.push({
-              directiveName: usage.directiveName,
-              boundExpression: usage.boundExpression,
-              filePath,
-              line: usage.line,
-              hostTag: usage.hostTag,
-              isStructural: usage.isStructural,
-            });
+  /**
+   * Re-index individual files after they changed on disk. Paths may be
+   * absolute or relative to the indexed repo; paths outside the ingestion
+   * roots (or excluded/ignored) are skipped, missing files are dropped.
+   * With `persist: false` the cache file is left for a later flushCache().
+   */
+  updateFiles(filePaths: string[], options: { persist?: boolean } = {}): Promise<IndexUpdateResult> {
+    return this.enqueue(async () => {
+      const result: IndexUpdateResult = { updated: [], removed: [] };
+      const repoRoot = this.repoRoot;
+      if (!repoRoot) {
+        return result;
+      }
+      for (const absolute of new Set(filePaths.map((item) => path.resolve(repoRoot, item)))) {
+        if (!this.isIndexablePath(absolute)) {
+          continue;
+        }
+        const content = await readOptionalText(absolute);
+        if (content === null) {
+          if (this.fileRecords.delete(absolute)) {
+            this.lexicalIndex.removeDocument(absolute);
+            result.removed.push(absolute);
           }
+          continue;
+        }
+        const hash = hashContent(content);
+        if (this.fileRecords.get(absolute)?.hash === hash) {
+          continue;
+        }
+        this.lexicalIndex.removeDocument(absolute);
+        this.lexicalIndex.addDocument(absolute, content);
+        this.fileRecords.set(absolute, this.extractFileFacts(absolute, content, hash));
+        result.updated.push(absolute);
+      }
+      if (result.updated.length === 0 && result.removed.length === 0) {
+        return result;
+      }
+      this.indexedFilePaths = [...this.fileRecords.keys()].sort((a, b) => a.localeCompare(b));
+      this.lastStats = { files: this.indexedFilePaths.length, parsed: result.updated.length, reused: 0, removed: result.removed.length };
+      this.angularMajor = await readAngularMajorVersion(repoRoot);
+      this.rebuildAggregates();
+      this.indexedAt = new Date().toISOString();
+      if (options.persist === false) {
+        this.cacheDirty = true;
+      } else {
+        await this.saveCache();
+      }
+      return result;
+    });
+  }
+
+  /** Write the cache file if updates were applied without persisting it. */
+  flushCache(): Promise<void> {
+    return this.enqueue(async () => {
+      if (this.cacheDirty) {
+        await this.saveCache();
+      }
+    });
+  }
+
+  /**
+   * Re-index files of a work item's checkout (`.ai/tmp/work/<workId>/repo`).
+   * The live index is left alone: the worktree versions go into that
+   * checkout's overlay under the live path they mirror, and `searchLexical` /
+   * `searchSymbol` answer from it when given the same `worktreeRoot`. Paths
+   * are admitted by the same ingestion rules as their live counterparts; a
+   * file whose content matches the live repo again leaves the overlay.
+   */
+  updateWorktreeFiles(worktreeRoot: string, filePaths: string[]): Promise<IndexUpdateResult> {
+    return this.enqueue(async () => {
+      const result: IndexUpdateResult = { updated: [], removed: [] };
+      const repoRoot = this.repoRoot;
+      if (!repoRoot) {
+        return result;
+      }
+      const root = path.resolve(worktreeRoot);
+      const overlay: WorktreeOverlay = this.overlays.get(root) ?? { lexicalIndex: new LexicalIndex(), records: new Map() };
+      this.overlays.set(root, overlay);
+      for (const absolute of new Set(filePaths.map((item) => path.resolve(root, item)))) {
+        const relative = path.relative(root, absolute);
+        if (relative.startsWith("..") || path.isAbsolute(relative)) {
+          continue;
+        }
+        const livePath = path.join(repoRoot, relative);
+        if (!this.isIndexablePath(livePath)) {
+          continue;
+        }
+        const content = await readOptionalText(absolute);
+        if (content === null) {
+          overlay.lexicalIndex.removeDocument(livePath);
+          overlay.dependencyGraph = undefined;
+          if (this.fileRecords.has(livePath)) overlay.records.set(livePath, null);
+          else overlay.records.delete(livePath);
+          result.removed.push(livePath);
+          continue;
+        }
+        const hash = hashContent(content);
+        if (overlay.records.get(livePath)?.hash === hash) {
+          continue;
+        }
+        overlay.lexicalIndex.removeDocument(livePath);
+        overlay.dependencyGraph = undefined;
+        if (this.fileRecords.get(livePath)?.hash === hash) {
+          if (overlay.records.delete(livePath)) result.updated.push(livePath);
+        } else {
+          overlay.lexicalIndex.addDocument(livePath, content);
+          overlay.records.set(livePath, this.extractFileFacts(livePath, content, hash));
+          result.updated.push(livePath);
         }
+      }
+      return result;
+    });
+  }
+
+  /**
+   * Watch the ingestion roots and apply `updateFiles` for changed paths,
+   * batched per `debounceMs`. Rewriting the whole cache file per batch would
+   * cost more than the update itself, so it is saved at most once per
+   * `saveDelayMs` and on close(). Requires a prior rebuild(). The watchers do
+   * not keep the process alive; an unsaved cache only costs re-parsing the
+   * changed files on the next rebuild.
+   */
+  watch(options: {
+    debounceMs?: number;
+    saveDelayMs?: number;
+    onUpdate?: (result: IndexUpdateResult) => void;
+    onError?: (error: unknown) => void;
+  } = {}): IndexWatchHandle {
+    if (!this.repoRoot) {
+      throw new Error("INDEX_NOT_BUILT");
+    }
+    const debounceMs = options.debounceMs ?? this.config.indexing.watchDebounceMs;
+    const saveDelayMs = options.saveDelayMs ?? WATCH_CACHE_SAVE_DELAY_MS;
+    const changed = new Set<string>();
+    let timer: NodeJS.Timeout | null = null;
+    let saveTimer: NodeJS.Timeout | null = null;
+    const save = () => {
+      saveTimer = null;
+      this.flushCache().catch((error: unknown) => options.onError?.(error));
+    };
+    const flush = () => {
+      timer = null;
+      const batch = [...changed];
+      changed.clear();
+      this.updateFiles(batch, { persist: false }).then(
+        (result) => {
+          if (result.updated.length === 0 && result.removed.length === 0) return;
+          if (!saveTimer) {
+            saveTimer = setTimeout(save, saveDelayMs);
+            saveTimer.unref();
+          }
+          options.onUpdate?.(result);
+        },
+        (error: unknown) => options.onError?.(error),
+      );
+    };
+    const watchers: FSWatcher[] = [];
+    for (const root of this.ingestionRoots) {
+      try {
+        watchers.push(watch(root, { recursive: true, persistent: false }, (_event, fileName) => {
+          if (!fileName) return;
+          changed.add(path.join(root, fileName.toString()));
+          if (timer) clearTimeout(timer);
+          timer = setTimeout(flush, debounceMs);
+        }));
       } catch (error) {
-        this.failures.push({
-          filePath,
-          reason: error instanceof Error ? error.message : "READ_FAILED"
-        });
+        options.onError?.(error);
       }
     }
+    return {
+      close: () => {
+        if (timer) clearTimeout(timer);
+        if (saveTimer) clearTimeout(saveTimer);
+        for (const watcher of watchers) watcher.close();
+        save();
+      },
+    };
+  }
 
-    await this.rebuildSymbolIndex(repoRoot, files.filter((item) => item.endsWith(".ts") || item.endsWith(".js")));
-    await this.rebuildRouteIndex(repoRoot, files.filter((item) => item.endsWith(".ts")));
-    this.indexedAt = new Date().toISOString();
+  getIndexStats(): IndexBuildStats {
+    return { ...this.lastStats };
   }
 
-  searchLexical(query: string, limit = 20): LexicalHit[] {
-    return this.lexicalIndex.searchLexeme(query, limit);
+  /**
+   * BM25-ranked line search (see LexicalIndex for the query syntax).
+   * `include` / `exclude` globs are matched against repo-relative paths.
+   * With `worktreeRoot`, files changed in that checkout are searched in their
+   * worktree version (see updateWorktreeFiles); hits keep live paths.
+   */
+  searchLexical(query: string, limit = 20, filters: LexicalPathFilters = {}, worktreeRoot?: string): LexicalHit[] {
+    const include = filters.include ?? [];
+    const exclude = filters.exclude ?? [];
+    const overlay = this.overlayFor(worktreeRoot);
+    if (include.length === 0 && exclude.length === 0 && !overlay) {
+      return this.lexicalIndex.searchLexeme(query, limit);
+    }
+    const repoRoot = this.repoRoot;
+    const admits = createGlobFilter(include, exclude);
+    const admitted = (filePath: string) => admits(repoRoot ? normalizeSlashes(path.relative(repoRoot, filePath)) : normalizeSlashes(filePath));
+    if (!overlay) {
+      return this.lexicalIndex.searchLexeme(query, { limit, fileFilter: admitted });
+    }
+    const live = this.lexicalIndex.searchLexeme(query, { limit, fileFilter: (filePath) => !overlay.records.has(filePath) && admitted(filePath) });
+    const local = overlay.lexicalIndex.searchLexeme(query, { limit, fileFilter: admitted });
+    return [...local, ...live].sort((left, right) => right.score - left.score).slice(0, limit);
+  }
+
+  /**
+   * Directional traversal of the import/call/reference graph (see
+   * dependencyGraph.ts). `filePath` may be absolute or repo-relative.
+   * `worktreeRoot` as for searchLexical: the checkout's changed files replace
+   * their live versions, so edges the agent's patches added are followed.
+   */
+  queryDependencies(query: DependencyQuery, worktreeRoot?: string): DependencyQueryResult {
+    const filePath = query.filePath && this.repoRoot ? path.resolve(this.repoRoot, query.filePath) : query.filePath;
+    const overlay = this.overlayFor(worktreeRoot);
+    if (!overlay) {
+      return this.dependencyGraph.query({ ...query, filePath });
+    }
+    if (overlay.dependencyGraph?.live !== this.dependencyGraph) {
+      const filePaths = [
+        ...this.indexedFilePaths.filter((livePath) => overlay.records.get(livePath) !== null),
+        ...[...overlay.records.keys()].filter((livePath) => !this.fileRecords.has(livePath)),
+      ];
+      const recordFor = (livePath: string) => (overlay.records.has(livePath) ? overlay.records.get(livePath) : this.fileRecords.get(livePath)) ?? undefined;
+      overlay.dependencyGraph = { live: this.dependencyGraph, graph: buildDependencyGraph(this.dependencyInputs(filePaths, recordFor)) };
+    }
+    return overlay.dependencyGraph.graph.query({ ...query, filePath });
   }
 
-  searchSymbol(query: string, limit = 20): SymbolHit[] {
+  /** Exact then substring symbol matches; `worktreeRoot` as for searchLexical. */
+  searchSymbol(query: string, limit = 20, worktreeRoot?: string): SymbolHit[] {
     const key = query.trim().toLowerCase();
     if (!key) {
       return [];
     }
-    const exact = this.symbolMap.get(key) ?? [];
-    if (exact.length >= limit) {
-      return exact.slice(0, limit);
+    const overlay = this.overlayFor(worktreeRoot);
+    if (!overlay) {
+      return matchSymbols(this.symbolMap, key, limit);
     }
-    const fuzzy: SymbolHit[] = [];
-    for (const [symbol, hits] of this.symbolMap.entries()) {
-      if (!symbol.includes(key) || symbol === key) {
-        continue;
-      }
-      fuzzy.push(...hits);
-      if (exact.length + fuzzy.length >= limit) {
-        break;
+    const symbols = new Map<string, SymbolHit[]>();
+    for (const [symbol, hits] of this.symbolMap) {
+      const kept = hits.filter((hit) => !overlay.records.has(hit.filePath));
+      if (kept.length > 0) symbols.set(symbol, kept);
+    }
+    for (const record of overlay.records.values()) {
+      for (const hit of record?.symbols ?? []) {
+        symbols.set(hit.symbol.toLowerCase(), [...(symbols.get(hit.symbol.toLowerCase()) ?? []), hit]);
       }
     }
-    return [...exact, ...fuzzy].slice(0, limit);
+    return matchSymbols(symbols, key, limit);
   }
 
   getFailures(limit = 100): IndexingFailure[] {
@@ -364,6 +699,93 @@ export class IndexingService {
     return this.directiveUsages.slice(0, limit);
   }
 
+  /**
+   * Phase 7: Returns HttpClient call sites (method, URL template, response type).
+   * Matched against OpenAPI endpoints when API contract facts are seeded.
+   */
+  getHttpClientCalls(limit = 2000): HttpClientCallFact[] {
+    return this.httpCalls.slice(0, limit);
+  }
+
+  /**
+   * Phase 8: Returns @NgModule facts (declarations, imports, exports, providers,
+   * bootstrap) in file order.
+   */
+  getNgModules(): AngularDiFacts["modules"] {
+    return [...this.angularDi.modules];
+  }
+
+  /**
+   * Phase 8: Returns every @Component, @Directive and @Pipe class with its
+   * selector, standalone flag, standalone imports and providers.
+   */
+  getAngularDeclarables(): AngularDiFacts["declarables"] {
+    return [...this.angularDi.declarables];
+  }
+
+  /** Phase 8: Returns @Injectable classes with their `providedIn`. */
+  getInjectables(): AngularDiFacts["injectables"] {
+    return [...this.angularDi.injectables];
+  }
+
+  /** Phase 8: Returns `new InjectionToken(...)` declarations. */
+  getInjectionTokens(): AngularDiFacts["injectionTokens"] {
+    return [...this.angularDi.injectionTokens];
+  }
+
+  /**
+   * Phase 8: What an omitted `standalone` means in the indexed repo — from its
+   * `@angular/core` major version; null when that version is unknown.
+   */
+  getAngularStandaloneDefault(): boolean | null {
+    return this.angularDi.standaloneDefault ?? null;
+  }
+
+  /**
+   * Phase 8: Returns the compilation scope of every component template —
+   * which declarables it may use and which NgModule or standalone import
+   * provides each.
+   */
+  getTemplateScopes(): TemplateScope[] {
+    return [...this.templateScopes];
+  }
+
+  /**
+   * Phase 8: Returns the scope of one template. `filePath` may be absolute or
+   * repo-relative: an .html templateUrl, or a component file with an inline template.
+   */
+  getTemplateScope(filePath: string): TemplateScope | null {
+    const absolute = this.repoRoot ? path.resolve(this.repoRoot, filePath) : filePath;
+    return this.templateScopes.find((scope) => scope.templateFile === absolute) ?? null;
+  }
+
+  /**
+   * Phase 8: Template tags and attribute directives that match an in-repo
+   * selector, each checked against its host's scope. `not_in_scope` entries
+   * are usages the host's module or standalone imports do not make available.
+   */
+  getTemplateSelectorResolutions(): TemplateSelectorResolution[] {
+    return [...this.templateSelectorResolutions];
+  }
+
+  /**
+   * Phase 9: Returns the @Input/@Output contract of every in-repo component
+   * and directive with a selector, in the SdfComponentContract shape, with
+   * bindings inherited from in-repo base classes and host directives merged in.
+   */
+  getComponentContracts(): AngularComponentContract[] {
+    return [...this.componentContracts];
+  }
+
+  /**
+   * Phase 9: Template tags of in-repo components whose bindings do not fit
+   * the contracts applied to them: unknown inputs/outputs and required
+   * inputs nothing binds.
+   */
+  getTemplateBindingIssues(): TemplateBindingIssue[] {
+    return [...this.templateBindingIssues];
+  }
+
   /**
    * Phase 6: Resolve directive names from template usages to their @Directive
    * class definitions and trace imports to discover dependency files.
@@ -537,75 +959,346 @@ export class IndexingService {
     return [...guardMap.values()];
   }
 
-  private async rebuildSymbolIndex(repoRoot: string, files: string[]): Promise<void> {
-    const project = createTsMorphProject(resolveTsConfigPath(repoRoot));
-    for (const filePath of files) {
+  private enqueue<T>(work: () => Promise<T>): Promise<T> {
+    const next = this.pending.then(work, work);
+    this.pending = next.catch(() => undefined);
+    return next;
+  }
+
+  /** Extract template, symbol and route facts for one file. Failures are recorded, not thrown. */
+  private extractFileFacts(filePath: string, content: string, hash: string): IndexedFileRecord {
+    const record: IndexedFileRecord = {
+      filePath,
+      hash,
+      symbols: [],
+      templateUsage: [],
+      routerLinks: [],
+      hasRouterOutlet: false,
+      directiveUsages: [],
+      routes: [],
+      routeNotes: [],
+      httpCalls: [],
+      failures: [],
+    };
+
+    try {
+      // Determine template sources to parse:
+      //  - .html files: the whole file is a template
+      //  - .ts files: extract inline `template: \`...\`` strings
+      const templateSources: string[] = [];
+      if (filePath.endsWith(".html")) {
+        templateSources.push(content);
+      } else if (filePath.endsWith(".ts")) {
+        templateSources.push(...extractInlineTemplates(content));
+      }
+
+      for (const templateContent of templateSources) {
+        const template = parseAngularTemplate(templateContent);
+        if (template.errors.length > 0) {
+          record.failures.push({
+            filePath,
+            reason: template.errors.join(" | ")
+          });
+        }
+        // Phase 4: Extract component usage facts from templates
+        record.templateUsage.push(...parseAngularTemplateUsage(templateContent, filePath));
+        // Phase 5: Extract navigation facts (routerLink, router-outlet)
+        const navFacts = parseAngularTemplateNav(templateContent, filePath);
+        if (navFacts.hasRouterOutlet) {
+          record.hasRouterOutlet = true;
+        }
+        for (const link of navFacts.routerLinks) {
+          record.routerLinks.push({
+            routePath: link.routePath,
+            filePath,
+            line: link.line,
+            hostTag: link.hostTag,
+            isBound: link.isBound,
+          });
+        }
+        // Phase 6: Extract custom directive usages from templates
+        const directiveFacts = parseAngularTemplateDirectives(templateContent, filePath);
+        for (const usage of directiveFacts.usages) {
+          record.directiveUsages.push({
+            directiveName: usage.directiveName,
+            boundExpression: usage.boundExpression,
+            filePath,
+            line: usage.line,
+            hostTag: usage.hostTag,
+            isStructural: usage.isStructural,
+          });
+        }
+      }
+    } catch (error) {
+      record.failures.push({
+        filePath,
+        reason: error instanceof Error ? error.message : "TEMPLATE_INDEX_FAILED"
+      });
+    }
+
+    if (!filePath.endsWith(".ts") && !filePath.endsWith(".js")) {
+      return record;
+    }
+
+    let sourceFile: SourceFile | null = null;
+    try {
+      sourceFile = this.getParserProject().createSourceFile(filePath, content, { overwrite: true });
+      const classNames = sourceFile.getClasses().map((item) => item.getName()).filter(isString);
+      const functionNames = sourceFile
+        .getFunctions()
+        .map((item) => item.getName())
+        .filter(isString);
+      const interfaceNames = sourceFile.getInterfaces().map((item) => item.getName()).filter(isString);
+      const enumNames = sourceFile.getEnums().map((item) => item.getName()).filter(isString);
+      const typeAliases = sourceFile.getTypeAliases().map((item) => item.getName()).filter(isString);
+      const variableNames = sourceFile
+        .getVariableDeclarations()
+        .map((item) => item.getName())
+        .filter(isString);
+
+      addSymbolHits(record.symbols, classNames, filePath, "class");
+      addSymbolHits(record.symbols, functionNames, filePath, "function");
+      addSymbolHits(record.symbols, interfaceNames, filePath, "interface");
+      addSymbolHits(record.symbols, enumNames, filePath, "enum");
+      addSymbolHits(record.symbols, typeAliases, filePath, "type");
+      addSymbolHits(record.symbols, variableNames, filePath, "variable");
+      record.dependencies = extractDependencyFacts(sourceFile);
+    } catch (error) {
+      record.failures.push({
+        filePath,
+        reason: error instanceof Error ? error.message : "SYMBOL_INDEX_FAILED"
+      });
+    }
+
+    // Phase 5: Angular route definitions (Routes arrays, provideRouter, RouterModule).
+    // Quick content check to avoid walking every .ts file for routes
+    if (sourceFile && filePath.endsWith(".ts") && isLikelyRouteFile(filePath, content)) {
       try {
-        const sourceFile = project.addSourceFileAtPathIfExists(filePath);
-        if (!sourceFile) {
-          continue;
+        const result = parseRouteConfig(sourceFile);
+        record.routes.push(...result.routes);
+        record.routeNotes.push(...result.notes);
+      } catch (error) {
+        record.failures.push({
+          filePath,
+          reason: error instanceof Error ? error.message : "ROUTE_INDEX_FAILED",
+        });
+      }
+    }
+    // Phase 7: HttpClient call sites, matched against OpenAPI endpoints at seed time
+    if (sourceFile && filePath.endsWith(".ts") && isLikelyHttpClientFile(content)) {
+      try {
+        record.httpCalls.push(...parseHttpClientCalls(sourceFile));
+      } catch (error) {
+        record.failures.push({
+          filePath,
+          reason: error instanceof Error ? error.message : "HTTP_CALL_INDEX_FAILED",
+        });
+      }
+    }
+    // Phase 8: NgModule scopes, standalone imports, providers and injection tokens
+    if (sourceFile && filePath.endsWith(".ts") && isLikelyAngularDiFile(content)) {
+      try {
+        const facts = parseAngularDiFacts(sourceFile);
+        if (Object.values(facts).some((list) => list.length > 0)) {
+          record.angularDi = facts;
         }
-        const classNames = sourceFile.getClasses().map((item) => item.getName()).filter(isString);
-        const functionNames = sourceFile
-          .getFunctions()
-          .map((item) => item.getName())
-          .filter(isString);
-        const interfaceNames = sourceFile.getInterfaces().map((item) => item.getName()).filter(isString);
-        const enumNames = sourceFile.getEnums().map((item) => item.getName()).filter(isString);
-        const typeAliases = sourceFile.getTypeAliases().map((item) => item.getName()).filter(isString);
-        const variableNames = sourceFile
-          .getVariableDeclarations()
-          .map((item) => item.getName())
-          .filter(isString);
-
-        addSymbols(this.symbolMap, classNames, filePath, "class");
-        addSymbols(this.symbolMap, functionNames, filePath, "function");
-        addSymbols(this.symbolMap, interfaceNames, filePath, "interface");
-        addSymbols(this.symbolMap, enumNames, filePath, "enum");
-        addSymbols(this.symbolMap, typeAliases, filePath, "type");
-        addSymbols(this.symbolMap, variableNames, filePath, "variable");
       } catch (error) {
-        this.failures.push({
+        record.failures.push({
           filePath,
-          reason: error instanceof Error ? error.message : "SYMBOL_INDEX_FAILED"
+          reason: error instanceof Error ? error.message : "NG_MODULE_INDEX_FAILED",
         });
       }
     }
+    // Phase 9: @Input/@Output contracts of components and directives
+    if (sourceFile && filePath.endsWith(".ts") && isLikelyComponentContractFile(content)) {
+      try {
+        const contracts = parseComponentContracts(sourceFile);
+        if (contracts.length > 0) {
+          record.componentContracts = contracts;
+        }
+        const bases = parseContractBases(sourceFile);
+        if (bases.length > 0) {
+          record.contractBases = bases;
+        }
+      } catch (error) {
+        record.failures.push({
+          filePath,
+          reason: error instanceof Error ? error.message : "COMPONENT_CONTRACT_INDEX_FAILED",
+        });
+      }
+    }
+    if (sourceFile) {
+      this.getParserProject().removeSourceFile(sourceFile);
+    }
+    return record;
   }
 
   /**
-   * Phase 5: Parse route configuration files.
-   * Scans .ts files for Angular route definitions (Routes arrays, provideRouter, RouterModule).
+   * Extraction is purely syntactic, so one in-memory project is reused for
+   * every file instead of loading the repo's tsconfig program.
    */
-  private async rebuildRouteIndex(repoRoot: string, tsFiles: string[]): Promise<void> {
-    const project = createTsMorphProject(resolveTsConfigPath(repoRoot));
+  private getParserProject(): Project {
+    if (!this.parserProject) {
+      this.parserProject = new Project({
+        useInMemoryFileSystem: true,
+        skipAddingFilesFromTsConfig: true,
+        compilerOptions: { allowJs: true },
+      });
+    }
+    return this.parserProject;
+  }
 
-    for (const filePath of tsFiles) {
-      try {
-        // Quick content check to avoid parsing every .ts file with ts-morph
-        const content = await readFile(filePath, "utf8");
-        if (!isLikelyRouteFile(filePath, content)) continue;
+  /** Recompute the public fact lists from the per-file records, in file order. */
+  private rebuildAggregates(): void {
+    this.symbolMap.clear();
+    this.failures.length = 0;
+    this.templateUsageFacts.length = 0;
+    this.parsedRoutes.length = 0;
+    this.routeParseNotes.length = 0;
+    this.templateRouterLinks.length = 0;
+    this.routerOutletFiles.clear();
+    this.directiveUsages.length = 0;
+    this.httpCalls.length = 0;
+    this.angularDi = { ...emptyAngularDiFacts(), standaloneDefault: standaloneDefaultFor(this.angularMajor) };
+    const contracts: AngularComponentContract[] = [];
+    const contractBases: ComponentContractBase[] = [];
+    for (const filePath of this.indexedFilePaths) {
+      const record = this.fileRecords.get(filePath);
+      if (!record) continue;
+      for (const hit of record.symbols) {
+        const key = hit.symbol.toLowerCase();
+        const current = this.symbolMap.get(key) ?? [];
+        current.push(hit);
+        this.symbolMap.set(key, current);
+      }
+      this.failures.push(...record.failures);
+      this.templateUsageFacts.push(...record.templateUsage);
+      this.parsedRoutes.push(...record.routes);
+      this.routeParseNotes.push(...record.routeNotes);
+      this.templateRouterLinks.push(...record.routerLinks);
+      if (record.hasRouterOutlet) this.routerOutletFiles.add(filePath);
+      this.directiveUsages.push(...record.directiveUsages);
+      this.httpCalls.push(...record.httpCalls);
+      if (record.angularDi) {
+        this.angularDi.modules.push(...record.angularDi.modules);
+        this.angularDi.declarables.push(...record.angularDi.declarables);
+        this.angularDi.injectables.push(...record.angularDi.injectables);
+        this.angularDi.injectionTokens.push(...record.angularDi.injectionTokens);
+      }
+      contracts.push(...(record.componentContracts ?? []));
+      contractBases.push(...(record.contractBases ?? []));
+    }
+    this.componentContracts = resolveContractInheritance(contracts, contractBases);
+    this.templateScopes = resolveTemplateScopes(this.angularDi);
+    this.templateSelectorResolutions = resolveTemplateSelectors(this.angularDi, this.templateScopes, [
+      ...this.templateUsageFacts.map((usage) => ({ kind: "element" as const, name: usage.tag, filePath: usage.filePath, line: usage.line })),
+      ...this.directiveUsages.map((usage) => ({ kind: "attribute" as const, name: usage.directiveName, filePath: usage.filePath, line: usage.line })),
+    ]);
+    this.templateBindingIssues = checkTemplateBindings(this.componentContracts, this.templateUsageFacts);
+    this.dependencyGraph = buildDependencyGraph(this.dependencyInputs(this.indexedFilePaths, (filePath) => this.fileRecords.get(filePath)));
+  }
 
-        const sourceFile = project.addSourceFileAtPathIfExists(filePath);
-        if (!sourceFile) continue;
+  private dependencyInputs(filePaths: string[], recordFor: (filePath: string) => IndexedFileRecord | undefined): DependencyGraphInput[] {
+    return filePaths.flatMap((filePath) => {
+      const record = recordFor(filePath);
+      return record
+        ? [{
+            filePath,
+            declarations: record.symbols.map((hit) => hit.symbol),
+            dependencies: record.dependencies,
+            templateTags: record.templateUsage.map((usage) => ({ tag: usage.tag, line: usage.line + 1 })),
+            templateDirectives: record.directiveUsages.map((usage) => ({ name: usage.directiveName, line: usage.line + 1 })),
+          }]
+        : [];
+    });
+  }
 
-        const result = parseRouteConfig(sourceFile);
-        if (result.routes.length > 0) {
-          this.parsedRoutes.push(...result.routes);
-        }
-        if (result.notes.length > 0) {
-          this.routeParseNotes.push(...result.notes);
-        }
-      } catch (error) {
-        this.failures.push({
-          filePath,
-          reason: error instanceof Error ? error.message : "ROUTE_INDEX_FAILED",
-        });
+  private overlayFor(worktreeRoot: string | undefined): WorktreeOverlay | null {
+    const overlay = worktreeRoot ? this.overlays.get(path.resolve(worktreeRoot)) : undefined;
+    return overlay && overlay.records.size > 0 ? overlay : null;
+  }
+
+  private isIndexablePath(absolutePath: string): boolean {
+    if (!this.repoRoot || !this.gitFilter || !isIngestionAllowedFile(absolutePath)) {
+      return false;
+    }
+    if (!this.ingestionRoots.some((root) => absolutePath.startsWith(root + path.sep))) {
+      return false;
+    }
+    const normalized = normalizeSlashes(absolutePath);
+    const relative = normalizeSlashes(path.relative(this.repoRoot, absolutePath));
+    return !this.gitFilter.isIgnored(relative)
+      && !shouldHardExcludePath(relative)
+      && !this.config.ingestion.excludes.some((pattern) => matchLooseGlob(normalized, pattern));
+  }
+
+  private cachePath(repoRoot: string): string | null {
+    if (!this.cacheRoot || !this.config.indexing.persistCache) {
+      return null;
+    }
+    const key = createHash("sha256").update(path.resolve(repoRoot)).digest("hex").slice(0, 16);
+    return path.join(this.cacheRoot, `${key}.json`);
+  }
+
+  /** Cached records by file path; empty when missing, stale or for another repo. */
+  private async loadCache(repoRoot: string): Promise<Map<string, IndexedFileRecord>> {
+    const cachePath = this.cachePath(repoRoot);
+    const records = new Map<string, IndexedFileRecord>();
+    if (!cachePath) {
+      return records;
+    }
+    const raw = await readOptionalText(cachePath);
+    if (!raw) {
+      return records;
+    }
+    try {
+      const parsed = JSON.parse(raw) as IndexCacheFile;
+      if (parsed.version !== INDEX_CACHE_VERSION || parsed.repoRoot !== path.resolve(repoRoot)) {
+        return records;
+      }
+      for (const record of parsed.records) {
+        records.set(record.filePath, record);
       }
+    } catch {
+      // Corrupt cache — fall back to a full parse
+    }
+    return records;
+  }
+
+  private async saveCache(): Promise<void> {
+    const cachePath = this.repoRoot ? this.cachePath(this.repoRoot) : null;
+    if (!cachePath || !this.repoRoot) {
+      return;
     }
+    const cache: IndexCacheFile = {
+      version: INDEX_CACHE_VERSION,
+      repoRoot: path.resolve(this.repoRoot),
+      savedAt: new Date().toISOString(),
+      records: [...this.fileRecords.values()].filter((record) => record.hash.length > 0),
+    };
+    this.cacheDirty = false;
+    await writeText(cachePath, JSON.stringify(cache));
   }
 }
 
+function matchSymbols(symbolMap: Map<string, SymbolHit[]>, key: string, limit: number): SymbolHit[] {
+  const exact = symbolMap.get(key) ?? [];
+  if (exact.length >= limit) {
+    return exact.slice(0, limit);
+  }
+  const fuzzy: SymbolHit[] = [];
+  for (const [symbol, hits] of symbolMap.entries()) {
+    if (!symbol.includes(key) || symbol === key) {
+      continue;
+    }
+    fuzzy.push(...hits);
+    if (exact.length + fuzzy.length >= limit) {
+      break;
+    }
+  }
+  return [...exact, ...fuzzy].slice(0, limit);
+}
+
 function resolveTsConfigPath(repoRoot: string): string {
   const primary = path.join(repoRoot, "tsconfig.json");
   if (existsSync(primary)) {
@@ -649,8 +1342,9 @@ async function collectFiles(
         continue;
       }
 
-      // Legacy hard-exclude check (belt + suspenders)
-      if (shouldHardExcludePath(normalized)) {
+      // Legacy hard-exclude check (belt + suspenders). Repo-relative, so a
+      // checkout that itself lives under e.g. /tmp or /build is still indexed.
+      if (shouldHardExcludePath(relative)) {
         continue;
       }
       if (excludes.some((pattern) => matchLooseGlob(normalized, pattern))) {
@@ -792,21 +1486,71 @@ function isIngestionAllowedFile(filePath: string): boolean {
   return INGESTION_ALLOWED_EXTENSIONS.some((extension) => lower.endsWith(extension));
 }
 
-function addSymbols(
-  map: Map<string, SymbolHit[]>,
+function addSymbolHits(
+  hits: SymbolHit[],
   names: string[],
   filePath: string,
   kind: SymbolHit["kind"]
 ): void {
   for (const name of names) {
-    const key = name.toLowerCase();
-    const current = map.get(key) ?? [];
-    current.push({
+    hits.push({
       symbol: name,
       filePath,
       kind
     });
-    map.set(key, current);
+  }
+}
+
+function unreadableRecord(filePath: string): IndexedFileRecord {
+  return {
+    filePath,
+    hash: "",
+    symbols: [],
+    templateUsage: [],
+    routerLinks: [],
+    hasRouterOutlet: false,
+    directiveUsages: [],
+    routes: [],
+    routeNotes: [],
+    httpCalls: [],
+    failures: [{ filePath, reason: "READ_FAILED" }],
+  };
+}
+
+function hashContent(content: string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * Major version of `@angular/core`: the installed package when there is one,
+ * otherwise the first number in the range the repo's package.json asks for.
+ */
+async function readAngularMajorVersion(repoRoot: string): Promise<number | null> {
+  const installed = parseJsonObject(await readOptionalText(path.join(repoRoot, "node_modules", "@angular", "core", "package.json")));
+  const manifest = parseJsonObject(await readOptionalText(path.join(repoRoot, "package.json")));
+  const declared = ["dependencies", "devDependencies", "peerDependencies"]
+    .map((field) => (manifest?.[field] as Record<string, unknown> | undefined)?.["@angular/core"])
+    .find((range) => typeof range === "string");
+  const version = typeof installed?.version === "string" ? installed.version : declared;
+  const major = typeof version === "string" ? /(\d+)/.exec(version)?.[1] : undefined;
+  return major ? Number(major) : null;
+}
+
+function parseJsonObject(raw: string | null): Record<string, unknown> | null {
+  if (raw === null) return null;
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed as Record<string, unknown> : null;
+  } catch {
+    return null;
+  }
+}
+
+async function readOptionalText(filePath: string): Promise<string | null> {
+  try {
+    return await readFile(filePath, "utf8");
+  } catch {
+    return null;
   }
 }
 
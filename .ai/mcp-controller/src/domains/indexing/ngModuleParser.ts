@@ -0,0 +1,513 @@
+/**
+ * Angular NgModule / DI Parser — extracts compilation scopes and providers from TypeScript source.
+ *
+ * Handles:
+ *   - `@NgModule({ declarations, imports, exports, providers, bootstrap })`
+ *   - `@Component` / `@Directive` / `@Pipe`: selector (the pipe name for pipes), `exportAs`,
+ *     `standalone`, standalone `imports`, `providers` / `viewProviders`, `templateUrl` / `template`
+ *   - `@Injectable({ providedIn })`
+ *   - `new InjectionToken<T>(description, { providedIn, factory })`
+ *
+ * Array entries are recorded by name: `RouterModule.forChild(routes)` becomes
+ * `RouterModule`, and spreads or references of same-file `const` arrays are
+ * expanded. Anything else is kept as its source text, which never resolves.
+ *
+ * Scope resolution runs over the facts of all files (`resolveTemplateScopes`):
+ * it finds the component that owns each template and which components,
+ * directives and pipes its compilation scope makes available — and through
+ * which NgModule or standalone import. Resolution is name-based like the rest
+ * of the indexer; a class name declared in two files resolves to the first.
+ *
+ * [REF:NG-MODULE-PARSER]
+ */
+
+import path from "node:path";
+import { Node, SyntaxKind, type ClassDeclaration, type Expression, type ObjectLiteralExpression, type SourceFile } from "ts-morph";
+
+/* ── Public types ────────────────────────────────────────── */
+
+export interface AngularProviderFact {
+  /** Provided token: a class, an InjectionToken constant, a string token, or the provider function name */
+  token: string;
+  /** Bare class, `{ provide, use* }` literal, or a provider function call such as `provideHttpClient()` */
+  kind: "class" | "useClass" | "useValue" | "useFactory" | "useExisting" | "function";
+  /** Class or function named by useClass / useExisting / useFactory, when it is an identifier */
+  target: string | null;
+  multi: boolean;
+}
+
+export interface NgModuleFact {
+  name: string;
+  filePath: string;
+  /** Line number (0-based) of the class declaration */
+  line: number;
+  declarations: string[];
+  imports: string[];
+  exports: string[];
+  providers: AngularProviderFact[];
+  bootstrap: string[];
+}
+
+/** A @Component, @Directive or @Pipe class */
+export interface AngularDeclarableFact {
+  name: string;
+  kind: "component" | "directive" | "pipe";
+  filePath: string;
+  /** Line number (0-based) of the class declaration */
+  line: number;
+  /** Component/directive selector, or the pipe name */
+  selector: string | null;
+  exportAs: string | null;
+  /** `standalone` as written; null when the decorator does not say */
+  standalone: boolean | null;
+  /** Standalone `imports` */
+  imports: string[];
+  providers: AngularProviderFact[];
+  viewProviders: AngularProviderFact[];
+  /** Absolute path of the template: the templateUrl, or this file for an inline template */
+  templateFile: string | null;
+}
+
+export interface InjectableFact {
+  name: string;
+  filePath: string;
+  line: number;
+  /** "root" / "platform" / "any", an NgModule name, or null when not tree-shakable */
+  providedIn: string | null;
+}
+
+export interface InjectionTokenFact {
+  name: string;
+  filePath: string;
+  line: number;
+  /** Generic argument text (e.g. "AppConfig"), null when untyped */
+  typeText: string | null;
+  description: string | null;
+  providedIn: string | null;
+  hasFactory: boolean;
+}
+
+/** Everything one file (or, once merged, the whole repo) declares for Angular DI */
+export interface AngularDiFacts {
+  modules: NgModuleFact[];
+  declarables: AngularDeclarableFact[];
+  injectables: InjectableFact[];
+  injectionTokens: InjectionTokenFact[];
+  /**
+   * Repo-wide: what an omitted `standalone` means for the repo's Angular
+   * version (`standaloneDefaultFor`); null or absent when the version is unknown
+   */
+  standaloneDefault?: boolean | null;
+}
+
+/** One component, directive or pipe a template can use, and what brought it into scope */
+export interface ScopeEntry {
+  declarable: string;
+  declarableFile: string;
+  kind: AngularDeclarableFact["kind"];
+  selector: string;
+  /** NgModule or standalone class listed by the scope owner that makes it available; the owner itself for own declarations */
+  via: string;
+}
+
+export interface TemplateScope {
+  /** Absolute path of the template (.html, or the component file for inline templates) */
+  templateFile: string;
+  host: { name: string; filePath: string };
+  /** The host itself when standalone, otherwise the NgModule declaring it; null when no module declares a non-standalone host */
+  owner: { kind: "standalone" | "ngmodule"; name: string; filePath: string } | null;
+  available: ScopeEntry[];
+}
+
+/** A template tag or attribute that matches an in-repo component/directive selector */
+export interface TemplateSelectorResolution {
+  kind: "element" | "attribute";
+  /** Tag name or attribute directive name as written in the template */
+  name: string;
+  filePath: string;
+  /** Line number (0-based) in the template */
+  line: number;
+  host: string | null;
+  declarable: string;
+  declarableFile: string;
+  /** "not_in_scope": the host's module / standalone imports do not make it available */
+  status: "available" | "not_in_scope" | "no_host";
+  via: string | null;
+  /** What the scope owner could import to fix a not_in_scope usage: the standalone class and/or exporting modules */
+  candidates: string[];
+}
+
+/* ── Public API ──────────────────────────────────────────── */
+
+export function parseAngularDiFacts(sourceFile: SourceFile): AngularDiFacts {
+  const facts = emptyAngularDiFacts();
+  const filePath = sourceFile.getFilePath();
+  const arrays = new ConstArrays(sourceFile);
+
+  for (const cls of sourceFile.getClasses()) {
+    const name = cls.getName();
+    if (!name) continue;
+    const line = cls.getStartLineNumber() - 1;
+
+    const ngModule = decoratorConfig(cls, "NgModule");
+    if (ngModule !== undefined) {
+      facts.modules.push({
+        name,
+        filePath,
+        line,
+        declarations: arrays.names(ngModule, "declarations"),
+        imports: arrays.names(ngModule, "imports"),
+        exports: arrays.names(ngModule, "exports"),
+        providers: arrays.providers(ngModule, "providers"),
+        bootstrap: arrays.names(ngModule, "bootstrap"),
+      });
+    }
+
+    for (const kind of ["component", "directive", "pipe"] as const) {
+      const config = decoratorConfig(cls, capitalize(kind));
+      if (config === undefined) continue;
+      const templateUrl = stringProperty(config, "templateUrl");
+      facts.declarables.push({
+        name,
+        kind,
+        filePath,
+        line,
+        selector: stringProperty(config, kind === "pipe" ? "name" : "selector"),
+        exportAs: stringProperty(config, "exportAs"),
+        standalone: booleanProperty(config, "standalone"),
+        imports: arrays.names(config, "imports"),
+        providers: arrays.providers(config, "providers"),
+        viewProviders: arrays.providers(config, "viewProviders"),
+        templateFile: kind !== "component"
+          ? null
+          : templateUrl
+            ? path.resolve(path.dirname(filePath), templateUrl)
+            : config?.getProperty("template") ? filePath : null,
+      });
+    }
+
+    const injectable = decoratorConfig(cls, "Injectable");
+    if (injectable !== undefined) {
+      facts.injectables.push({ name, filePath, line, providedIn: tokenProperty(injectable, "providedIn") });
+    }
+  }
+
+  for (const variable of sourceFile.getVariableDeclarations()) {
+    const initializer = variable.getInitializer();
+    if (!Node.isNewExpression(initializer) || initializer.getExpression().getText() !== "InjectionToken") continue;
+    const [description, options] = initializer.getArguments();
+    const optionsObject = Node.isObjectLiteralExpression(options) ? options : null;
+    facts.injectionTokens.push({
+      name: variable.getName(),
+      filePath,
+      line: variable.getStartLineNumber() - 1,
+      typeText: initializer.getTypeArguments()[0]?.getText() ?? null,
+      description: literalText(description),
+      providedIn: tokenProperty(optionsObject, "providedIn"),
+      hasFactory: Boolean(optionsObject?.getProperty("factory")),
+    });
+  }
+  return facts;
+}
+
+/**
+ * Quick check: can this file declare modules, declarables or injectables?
+ * Used to filter files before the AST walk.
+ */
+export function isLikelyAngularDiFile(content: string): boolean {
+  return /@(NgModule|Component|Directive|Pipe|Injectable)\s*\(|new\s+InjectionToken\b/.test(content);
+}
+
+export function emptyAngularDiFacts(): AngularDiFacts {
+  return { modules: [], declarables: [], injectables: [], injectionTokens: [] };
+}
+
+/**
+ * What an omitted `standalone` means for an `@angular/core` major version:
+ * true from Angular 19 on, false before; null when the version is unknown.
+ */
+export function standaloneDefaultFor(angularMajor: number | null): boolean | null {
+  return angularMajor === null ? null : angularMajor >= 19;
+}
+
+/**
+ * Whether Angular compiles a declarable as standalone: `standalone` as written,
+ * else the version default, else (version unknown) standalone unless some
+ * NgModule declares it.
+ */
+export function isStandaloneDeclarable(
+  declarable: AngularDeclarableFact,
+  declaredByModule: boolean,
+  standaloneDefault: boolean | null = null,
+): boolean {
+  return declarable.standalone ?? standaloneDefault ?? !declaredByModule;
+}
+
+/**
+ * Compilation scope of every component template. A standalone host sees itself
+ * plus its `imports`; a module-scoped host sees its module's declarations plus
+ * what the module's imports export (transitively through re-exported modules).
+ * Declarables whose decorator omits `standalone` follow `isStandaloneDeclarable`.
+ */
+export function resolveTemplateScopes(facts: AngularDiFacts): TemplateScope[] {
+  const index = new ScopeIndex(facts);
+  const scopes: TemplateScope[] = [];
+  for (const host of facts.declarables) {
+    if (!host.templateFile) continue;
+    scopes.push({
+      templateFile: host.templateFile,
+      host: { name: host.name, filePath: host.filePath },
+      ...index.scopeOf(host),
+    });
+  }
+  return scopes;
+}
+
+/**
+ * Match template tags and attribute directives against in-repo selectors and
+ * check each against the scope of the template's host component. Tags and
+ * attributes no in-repo declarable claims (library or native) are skipped.
+ */
+export function resolveTemplateSelectors(
+  facts: AngularDiFacts,
+  scopes: TemplateScope[],
+  usages: Array<{ kind: "element" | "attribute"; name: string; filePath: string; line: number }>,
+): TemplateSelectorResolution[] {
+  const index = new ScopeIndex(facts);
+  const scopeByTemplate = new Map<string, TemplateScope>();
+  for (const scope of scopes) {
+    if (!scopeByTemplate.has(scope.templateFile)) scopeByTemplate.set(scope.templateFile, scope);
+  }
+
+  const resolutions: TemplateSelectorResolution[] = [];
+  for (const usage of usages) {
+    const declarable = facts.declarables.find((item) => item.kind !== "pipe" && selectorMatches(item.selector, usage.kind, usage.name));
+    if (!declarable) continue;
+    const scope = scopeByTemplate.get(usage.filePath);
+    const entry = scope?.available.find((item) => item.declarable === declarable.name && item.declarableFile === declarable.filePath);
+    resolutions.push({
+      ...usage,
+      host: scope?.host.name ?? null,
+      declarable: declarable.name,
+      declarableFile: declarable.filePath,
+      status: !scope ? "no_host" : entry ? "available" : "not_in_scope",
+      via: entry?.via ?? null,
+      candidates: entry ? [] : index.providersOf(declarable),
+    });
+  }
+  return resolutions;
+}
+
+/* ── Scope resolution ────────────────────────────────────── */
+
+class ScopeIndex {
+  private readonly modules = new Map<string, NgModuleFact>();
+  private readonly declarables = new Map<string, AngularDeclarableFact>();
+  private readonly declaringModule = new Map<AngularDeclarableFact, NgModuleFact>();
+  private readonly standaloneDefault: boolean | null;
+
+  constructor(facts: AngularDiFacts) {
+    this.standaloneDefault = facts.standaloneDefault ?? null;
+    for (const module of facts.modules) {
+      if (!this.modules.has(module.name)) this.modules.set(module.name, module);
+    }
+    for (const declarable of facts.declarables) {
+      if (!this.declarables.has(declarable.name)) this.declarables.set(declarable.name, declarable);
+    }
+    for (const module of this.modules.values()) {
+      for (const name of module.declarations) {
+        const declarable = this.declarables.get(name);
+        if (declarable && !this.declaringModule.has(declarable)) this.declaringModule.set(declarable, module);
+      }
+    }
+  }
+
+  scopeOf(host: AngularDeclarableFact): Pick<TemplateScope, "owner" | "available"> {
+    const available: ScopeEntry[] = [];
+    const add = (declarable: AngularDeclarableFact, via: string) => {
+      if (!available.some((entry) => entry.declarable === declarable.name && entry.declarableFile === declarable.filePath)) {
+        for (const selector of splitSelector(declarable.selector)) {
+          available.push({ declarable: declarable.name, declarableFile: declarable.filePath, kind: declarable.kind, selector, via });
+        }
+      }
+    };
+    const addImports = (imports: string[]) => {
+      for (const name of imports) {
+        const module = this.modules.get(name);
+        if (module) {
+          for (const declarable of this.exportedBy(module, new Set())) add(declarable, name);
+          continue;
+        }
+        const declarable = this.declarables.get(name);
+        if (declarable && this.isStandalone(declarable)) add(declarable, name);
+      }
+    };
+
+    if (this.isStandalone(host)) {
+      add(host, host.name);
+      addImports(host.imports);
+      return { owner: { kind: "standalone", name: host.name, filePath: host.filePath }, available };
+    }
+    const module = this.declaringModule.get(host);
+    if (!module) {
+      return { owner: null, available };
+    }
+    for (const name of module.declarations) {
+      const declarable = this.declarables.get(name);
+      if (declarable) add(declarable, module.name);
+    }
+    addImports(module.imports);
+    return { owner: { kind: "ngmodule", name: module.name, filePath: module.filePath }, available };
+  }
+
+  /** The standalone class itself, or the modules that export it. */
+  providersOf(declarable: AngularDeclarableFact): string[] {
+    if (this.isStandalone(declarable)) return [declarable.name];
+    return [...this.modules.values()]
+      .filter((module) => this.exportedBy(module, new Set()).includes(declarable))
+      .map((module) => module.name);
+  }
+
+  private isStandalone(declarable: AngularDeclarableFact): boolean {
+    return isStandaloneDeclarable(declarable, this.declaringModule.has(declarable), this.standaloneDefault);
+  }
+
+  /** Declarables a module's exports make available, following re-exported modules. */
+  private exportedBy(module: NgModuleFact, visited: Set<string>): AngularDeclarableFact[] {
+    if (visited.has(module.name)) return [];
+    visited.add(module.name);
+    const exported: AngularDeclarableFact[] = [];
+    for (const name of module.exports) {
+      const reExported = this.modules.get(name);
+      if (reExported) {
+        exported.push(...this.exportedBy(reExported, visited));
+        continue;
+      }
+      const declarable = this.declarables.get(name);
+      if (declarable) exported.push(declarable);
+    }
+    return exported;
+  }
+}
+
+/** "app-card, [appCard]" → ["app-card", "[appCard]"] */
+function splitSelector(selector: string | null): string[] {
+  return (selector ?? "").split(",").map((part) => part.trim()).filter((part) => part.length > 0);
+}
+
+/** Element usages match a selector's element name; attribute usages match any `[attr]` in it. */
+function selectorMatches(selector: string | null, kind: "element" | "attribute", name: string): boolean {
+  return splitSelector(selector).some((part) => {
+    if (kind === "element") {
+      return /^[a-zA-Z][\w-]*/.exec(part)?.[0] === name;
+    }
+    return [...part.matchAll(/\[([^\]=~|^$*]+)/g)].some((match) => match[1].trim() === name);
+  });
+}
+
+/* ── Decorator helpers ───────────────────────────────────── */
+
+/** The decorator's object argument; null when it has none; undefined when the class lacks the decorator. */
+function decoratorConfig(cls: ClassDeclaration, decoratorName: string): ObjectLiteralExpression | null | undefined {
+  const decorator = cls.getDecorator(decoratorName);
+  if (!decorator) return undefined;
+  const config = decorator.getArguments()[0];
+  return Node.isObjectLiteralExpression(config) ? config : null;
+}
+
+function propertyInitializer(config: ObjectLiteralExpression | null, key: string): Expression | undefined {
+  const property = config?.getProperty(key);
+  return Node.isPropertyAssignment(property) ? property.getInitializer() : undefined;
+}
+
+function stringProperty(config: ObjectLiteralExpression | null, key: string): string | null {
+  return literalText(propertyInitializer(config, key));
+}
+
+function booleanProperty(config: ObjectLiteralExpression | null, key: string): boolean | null {
+  const kind = propertyInitializer(config, key)?.getKind();
+  if (kind === SyntaxKind.TrueKeyword) return true;
+  if (kind === SyntaxKind.FalseKeyword) return false;
+  return null;
+}
+
+/** String literal value or identifier name (`providedIn: 'root'`, `providedIn: CoreModule`). */
+function tokenProperty(config: ObjectLiteralExpression | null, key: string): string | null {
+  const initializer = propertyInitializer(config, key);
+  if (!initializer || initializer.getKind() === SyntaxKind.NullKeyword) return null;
+  return literalText(initializer) ?? initializer.getText();
+}
+
+function literalText(node: Node | undefined): string | null {
+  if (Node.isStringLiteral(node) || Node.isNoSubstitutionTemplateLiteral(node)) return node.getLiteralText();
+  return null;
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+/** Reads decorator arrays, expanding same-file `const X = [...]` references and spreads. */
+class ConstArrays {
+  private readonly constants = new Map<string, Expression>();
+
+  constructor(sourceFile: SourceFile) {
+    for (const variable of sourceFile.getVariableDeclarations()) {
+      const initializer = variable.getInitializer();
+      if (initializer) this.constants.set(variable.getName(), initializer);
+    }
+  }
+
+  names(config: ObjectLiteralExpression | null, key: string): string[] {
+    return this.elements(propertyInitializer(config, key), new Set()).map((element) => entryName(element));
+  }
+
+  providers(config: ObjectLiteralExpression | null, key: string): AngularProviderFact[] {
+    return this.elements(propertyInitializer(config, key), new Set()).map((element) => providerOf(element));
+  }
+
+  private elements(node: Node | undefined, visited: Set<string>): Node[] {
+    if (!node) return [];
+    if (Node.isAsExpression(node) || Node.isParenthesizedExpression(node)) {
+      return this.elements(node.getExpression(), visited);
+    }
+    if (Node.isIdentifier(node) && this.constants.has(node.getText()) && !visited.has(node.getText())) {
+      visited.add(node.getText());
+      return this.elements(this.constants.get(node.getText()), visited);
+    }
+    if (!Node.isArrayLiteralExpression(node)) return [node];
+    return node.getElements().flatMap((element) => {
+      if (Node.isSpreadElement(element)) return this.elements(element.getExpression(), visited);
+      if (Node.isArrayLiteralExpression(element) || (Node.isIdentifier(element) && Node.isArrayLiteralExpression(this.constants.get(element.getText())))) {
+        return this.elements(element, visited);
+      }
+      return [element];
+    });
+  }
+}
+
+/** `RouterModule.forChild(routes)` → "RouterModule"; identifiers by name; anything else as written. */
+function entryName(node: Node): string {
+  if (Node.isCallExpression(node)) {
+    const callee = node.getExpression();
+    if (Node.isPropertyAccessExpression(callee)) return callee.getExpression().getText();
+  }
+  return node.getText();
+}
+
+function providerOf(node: Node): AngularProviderFact {
+  if (Node.isObjectLiteralExpression(node) && node.getProperty("provide")) {
+    const kind = (["useClass", "useExisting", "useFactory", "useValue"] as const).find((key) => node.getProperty(key)) ?? "useValue";
+    const target = propertyInitializer(node, kind);
+    return {
+      token: tokenProperty(node, "provide") ?? "",
+      kind,
+      target: kind !== "useValue" && Node.isIdentifier(target) ? target.getText() : null,
+      multi: propertyInitializer(node, "multi")?.getKind() === SyntaxKind.TrueKeyword,
+    };
+  }
+  if (Node.isCallExpression(node)) {
+    return { token: node.getExpression().getText(), kind: "function", target: null, multi: false };
+  }
+  return { token: node.getText(), kind: "class", target: null, multi: false };
+}
@@ -0,0 +1,409 @@
+/**
+ * Phase 7: OpenAPI / Swagger Parser
+ *
+ * Parses OpenAPI 2.0 (Swagger) and 3.x documents, JSON or YAML, into
+ * endpoint, schema (DTO), parameter and response contracts, and links them
+ * to the repo: schemas to TypeScript DTO symbols by name, endpoints to the
+ * HttpClient call sites whose URL template matches the endpoint path.
+ *
+ * Only local `$ref`s (`#/definitions/X`, `#/components/schemas/X`,
+ * `#/parameters/X`, `#/components/parameters/X`) are resolved; a schema is
+ * referred to by name, never inlined.
+ */
+import path from "node:path";
+import { existsSync } from "node:fs";
+import { readdir, readFile, stat } from "node:fs/promises";
+import { parse as parseYaml } from "yaml";
+import type { HttpClientCallFact } from "./httpClientParser";
+import type { SymbolHeader } from "./indexingService";
+
+export interface ApiSpecDocument {
+  /** Repo-relative spec path, or the URL a fetched spec came from */
+  specFile: string;
+  title: string;
+  /** `info.version` */
+  version: string;
+  /** `swagger` / `openapi` field, e.g. "2.0" or "3.0.3" */
+  specVersion: string;
+  /** v2 `basePath` or the path of the first v3 server URL ("" when none) */
+  basePath: string;
+  endpoints: ApiEndpointContract[];
+  schemas: ApiSchemaContract[];
+}
+
+export interface ApiEndpointContract {
+  /** Upper-case HTTP method */
+  method: string;
+  /** Path as declared under `paths` */
+  path: string;
+  /** basePath + path — what a client actually requests */
+  fullPath: string;
+  operationId: string;
+  summary: string;
+  tags: string[];
+  deprecated: boolean;
+  parameters: ApiParameterContract[];
+  /** Request body type (schema name for `$ref`s), null when the operation takes no body */
+  requestSchema: string | null;
+  responses: ApiResponseContract[];
+}
+
+export interface ApiParameterContract {
+  name: string;
+  /** path | query | header | cookie | formData */
+  in: string;
+  required: boolean;
+  type: string;
+}
+
+export interface ApiResponseContract {
+  /** Status code or "default" */
+  status: string;
+  description: string;
+  schema: string | null;
+}
+
+export interface ApiSchemaContract {
+  name: string;
+  type: string;
+  properties: ApiSchemaProperty[];
+}
+
+export interface ApiSchemaProperty {
+  name: string;
+  type: string;
+  required: boolean;
+}
+
+export interface ApiSpecLoadResult {
+  specs: ApiSpecDocument[];
+  failures: Array<{ specFile: string; reason: string }>;
+}
+
+export interface ApiEndpointCallLink {
+  specFile: string;
+  endpoint: ApiEndpointContract;
+  call: HttpClientCallFact;
+}
+
+export interface ApiSchemaSymbolLink {
+  specFile: string;
+  schema: string;
+  symbol: SymbolHeader;
+  /** "exact" = same name; "normalized" = same name ignoring case and a Dto/Model suffix */
+  match: "exact" | "normalized";
+}
+
+export interface ApiContractLinks {
+  endpointCalls: ApiEndpointCallLink[];
+  schemaSymbols: ApiSchemaSymbolLink[];
+}
+
+type JsonObject = Record<string, unknown>;
+
+const HTTP_METHODS = ["get", "put", "post", "delete", "options", "head", "patch", "trace"];
+const SPEC_EXTENSIONS = new Set([".json", ".yaml", ".yml"]);
+const SKIPPED_DIRECTORIES = new Set(["node_modules", "dist", "coverage", "build", "tmp"]);
+const DTO_SYMBOL_KINDS = new Set<SymbolHeader["kind"]>(["interface", "type", "class", "enum"]);
+
+/* ── Parsing ─────────────────────────────────────────────── */
+
+/** Parse spec text (JSON or YAML). Returns null when it is not an OpenAPI/Swagger document. */
+export function parseOpenApiSource(source: string, specFile: string): ApiSpecDocument | null {
+  const trimmed = source.trimStart();
+  const document: unknown = trimmed.startsWith("{") ? JSON.parse(source) : parseYaml(source);
+  return parseOpenApiDocument(document, specFile);
+}
+
+/** Parse an already-decoded document. Returns null when it has no `swagger` / `openapi` field. */
+export function parseOpenApiDocument(document: unknown, specFile: string): ApiSpecDocument | null {
+  if (!isObject(document)) return null;
+  const specVersion = String(document.openapi ?? document.swagger ?? "");
+  if (!specVersion) return null;
+  const isV2 = document.swagger !== undefined;
+  const info = asObject(document.info);
+  const basePath = trimTrailingSlash(isV2 ? asString(document.basePath) : serverPath(document.servers));
+
+  const sharedParameters = asObject(isV2 ? document.parameters : objectAt(document, "components", "parameters"));
+  const schemaTable = asObject(isV2 ? document.definitions : objectAt(document, "components", "schemas"));
+
+  const endpoints: ApiEndpointContract[] = [];
+  for (const [apiPath, pathItem] of Object.entries(asObject(document.paths))) {
+    if (!isObject(pathItem)) continue;
+    const pathParameters = asArray(pathItem.parameters);
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method];
+      if (!isObject(operation)) continue;
+      const parameters = mergeParameters(pathParameters, asArray(operation.parameters), sharedParameters);
+      const bodyParameter = parameters.find((parameter) => parameter.in === "body");
+      endpoints.push({
+        method: method.toUpperCase(),
+        path: apiPath,
+        fullPath: `${basePath}${apiPath.startsWith("/") ? "" : "/"}${apiPath}`,
+        operationId: asString(operation.operationId),
+        summary: asString(operation.summary),
+        tags: asArray(operation.tags).filter((tag): tag is string => typeof tag === "string"),
+        deprecated: operation.deprecated === true,
+        parameters: parameters.filter((parameter) => parameter.in !== "body"),
+        requestSchema: isV2
+          ? bodyParameter?.type ?? null
+          : contentSchema(resolveRef(operation.requestBody, document)),
+        responses: Object.entries(asObject(operation.responses)).map(([status, response]) => {
+          const resolved = resolveRef(response, document);
+          return {
+            status,
+            description: asString(resolved?.description),
+            schema: isV2 ? (resolved?.schema !== undefined ? schemaType(resolved.schema) : null) : contentSchema(resolved),
+          };
+        }),
+      });
+    }
+  }
+
+  const schemas: ApiSchemaContract[] = Object.entries(schemaTable)
+    .filter((entry): entry is [string, JsonObject] => isObject(entry[1]))
+    .map(([name, schema]) => ({ name, type: schemaType(schema), properties: schemaProperties(schema) }));
+
+  return {
+    specFile,
+    title: asString(info.title),
+    version: asString(info.version),
+    specVersion,
+    basePath,
+    endpoints,
+    schemas,
+  };
+}
+
+/**
+ * Load every spec under `roots` (repo-relative or absolute files/directories).
+ * Directories are walked for .json/.yaml/.yml files and non-OpenAPI files in
+ * them are skipped; a listed file that is missing or not a spec is a failure.
+ */
+export async function loadOpenApiSpecs(repoRoot: string, roots: string[]): Promise<ApiSpecLoadResult> {
+  const result: ApiSpecLoadResult = { specs: [], failures: [] };
+  for (const root of roots) {
+    if (/^https?:\/\//i.test(root)) {
+      result.failures.push({ specFile: root, reason: "swagger.roots takes local files or directories; remote specs are fetched as Swagger refs" });
+      continue;
+    }
+    const absolute = path.resolve(repoRoot, root);
+    if (!existsSync(absolute)) {
+      result.failures.push({ specFile: root, reason: "Spec root does not exist" });
+      continue;
+    }
+    const explicit = !(await stat(absolute)).isDirectory();
+    const files = explicit ? [absolute] : await collectSpecFiles(absolute);
+    for (const file of files) {
+      const specFile = path.relative(repoRoot, file).replace(/\\/g, "/");
+      try {
+        const spec = parseOpenApiSource(await readFile(file, "utf8"), specFile);
+        if (spec) {
+          result.specs.push(spec);
+        } else if (explicit) {
+          result.failures.push({ specFile, reason: "No swagger/openapi version field" });
+        }
+      } catch (error) {
+        if (explicit) {
+          result.failures.push({ specFile, reason: error instanceof Error ? error.message : String(error) });
+        }
+      }
+    }
+  }
+  return result;
+}
+
+/* ── Linking ─────────────────────────────────────────────── */
+
+/** Link endpoints to matching HttpClient call sites and schemas to same-named DTO symbols. */
+export function linkApiContracts(
+  specs: ApiSpecDocument[],
+  httpCalls: HttpClientCallFact[],
+  symbols: SymbolHeader[],
+): ApiContractLinks {
+  const endpointCalls: ApiEndpointCallLink[] = [];
+  for (const spec of specs) {
+    for (const endpoint of spec.endpoints) {
+      for (const call of httpCalls) {
+        if (matchesHttpCall(endpoint, spec.basePath, call)) endpointCalls.push({ specFile: spec.specFile, endpoint, call });
+      }
+    }
+  }
+
+  const schemaSymbols: ApiSchemaSymbolLink[] = [];
+  const candidates = symbols.filter((symbol) => DTO_SYMBOL_KINDS.has(symbol.kind));
+  for (const spec of specs) {
+    for (const schema of spec.schemas) {
+      const normalized = normalizeDtoName(schema.name);
+      for (const symbol of candidates) {
+        if (symbol.symbol === schema.name) {
+          schemaSymbols.push({ specFile: spec.specFile, schema: schema.name, symbol, match: "exact" });
+        } else if (normalizeDtoName(symbol.symbol) === normalized) {
+          schemaSymbols.push({ specFile: spec.specFile, schema: schema.name, symbol, match: "normalized" });
+        }
+      }
+    }
+  }
+  return { endpointCalls, schemaSymbols };
+}
+
+/**
+ * A call matches when the methods agree and its URL template equals the
+ * endpoint path segment by segment, optionally behind one leading base-URL
+ * placeholder. `{}` and `{param}` segments match anything; at least one
+ * literal segment must agree so bare placeholders never match.
+ */
+export function matchesHttpCall(endpoint: ApiEndpointContract, basePath: string, call: HttpClientCallFact): boolean {
+  if (call.method && call.method !== endpoint.method) return false;
+  const callSegments = urlSegments(call.urlTemplate);
+  if (callSegments.length === 0) return false;
+  const candidates = basePath ? [urlSegments(endpoint.fullPath), urlSegments(endpoint.path)] : [urlSegments(endpoint.path)];
+  return candidates.some((endpointSegments) =>
+    segmentsMatch(callSegments, endpointSegments)
+    || (callSegments[0] === "{}" && segmentsMatch(callSegments.slice(1), endpointSegments)));
+}
+
+/* ── Helpers ─────────────────────────────────────────────── */
+
+function segmentsMatch(callSegments: string[], endpointSegments: string[]): boolean {
+  if (callSegments.length !== endpointSegments.length) return false;
+  let literalMatches = 0;
+  for (let index = 0; index < callSegments.length; index += 1) {
+    const left = callSegments[index];
+    const right = endpointSegments[index];
+    if (left === "{}" || right === "{}") continue;
+    if (left !== right) return false;
+    literalMatches += 1;
+  }
+  return literalMatches > 0;
+}
+
+function urlSegments(url: string): string[] {
+  return url
+    .replace(/^[a-z][a-z0-9+.-]*:\/\/[^/]+/i, "")
+    .replace(/[?#].*$/, "")
+    .split("/")
+    .filter((segment) => segment.length > 0)
+    .map((segment) => (/\{[^}]*\}|^:/.test(segment) ? "{}" : segment));
+}
+
+function normalizeDtoName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, "").replace(/(dto|model)$/, "");
+}
+
+function mergeParameters(pathLevel: unknown[], operationLevel: unknown[], shared: JsonObject): ApiParameterContract[] {
+  const byKey = new Map<string, ApiParameterContract>();
+  for (const raw of [...pathLevel, ...operationLevel]) {
+    const parameter = resolveSharedParameter(raw, shared);
+    if (!parameter) continue;
+    const name = asString(parameter.name);
+    const location = asString(parameter.in);
+    if (!name || !location) continue;
+    byKey.set(`${location}:${name}`, {
+      name,
+      in: location,
+      required: parameter.required === true || location === "path",
+      type: schemaType(parameter.schema ?? parameter),
+    });
+  }
+  return [...byKey.values()];
+}
+
+function resolveSharedParameter(raw: unknown, shared: JsonObject): JsonObject | null {
+  if (!isObject(raw)) return null;
+  if (typeof raw.$ref !== "string") return raw;
+  const resolved = shared[refName(raw.$ref)];
+  return isObject(resolved) ? resolved : null;
+}
+
+/** Resolve a local `#/a/b/c` ref against the document; non-refs are returned as is. */
+function resolveRef(value: unknown, document: JsonObject): JsonObject | null {
+  if (!isObject(value)) return null;
+  if (typeof value.$ref !== "string" || !value.$ref.startsWith("#/")) return value;
+  let current: unknown = document;
+  for (const key of value.$ref.slice(2).split("/")) {
+    current = isObject(current) ? current[key.replace(/~1/g, "/").replace(/~0/g, "~")] : undefined;
+  }
+  return isObject(current) ? current : null;
+}
+
+/** v3 request body / response: schema of the JSON media type, else the first one. */
+function contentSchema(holder: JsonObject | null): string | null {
+  if (!holder || !isObject(holder.content)) return null;
+  const entries = Object.entries(holder.content);
+  const preferred = entries.find(([mediaType]) => mediaType.includes("json")) ?? entries[0];
+  return preferred && isObject(preferred[1]) && preferred[1].schema !== undefined ? schemaType(preferred[1].schema) : null;
+}
+
+function schemaType(schema: unknown): string {
+  if (!isObject(schema)) return "unknown";
+  if (typeof schema.$ref === "string") return refName(schema.$ref);
+  for (const [key, joiner] of [["allOf", " & "], ["oneOf", " | "], ["anyOf", " | "]] as const) {
+    if (Array.isArray(schema[key])) return (schema[key] as unknown[]).map(schemaType).join(joiner);
+  }
+  if (schema.type === "array") return `${schemaType(schema.items)}[]`;
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) return schema.enum.map((value) => JSON.stringify(value)).join(" | ");
+  return typeof schema.type === "string" ? schema.type : "object";
+}
+
+function schemaProperties(schema: JsonObject): ApiSchemaProperty[] {
+  const parts = Array.isArray(schema.allOf) ? [schema, ...schema.allOf.filter(isObject)] : [schema];
+  const properties: ApiSchemaProperty[] = [];
+  for (const part of parts) {
+    const required = new Set(asArray(part.required).filter((name): name is string => typeof name === "string"));
+    for (const [name, property] of Object.entries(asObject(part.properties))) {
+      properties.push({ name, type: schemaType(property), required: required.has(name) });
+    }
+  }
+  return properties;
+}
+
+function serverPath(servers: unknown): string {
+  const first = asArray(servers)[0];
+  const url = isObject(first) ? asString(first.url) : "";
+  return url.replace(/^[a-z][a-z0-9+.-]*:\/\/[^/]+/i, "");
+}
+
+async function collectSpecFiles(directory: string): Promise<string[]> {
+  const files: string[] = [];
+  for (const entry of await readdir(directory, { withFileTypes: true })) {
+    if (entry.name.startsWith(".") || SKIPPED_DIRECTORIES.has(entry.name)) continue;
+    const full = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...await collectSpecFiles(full));
+    } else if (SPEC_EXTENSIONS.has(path.extname(entry.name).toLowerCase())) {
+      files.push(full);
+    }
+  }
+  return files.sort();
+}
+
+function refName(ref: string): string {
+  return ref.slice(ref.lastIndexOf("/") + 1);
+}
+
+function trimTrailingSlash(value: string): string {
+  return value.replace(/\/+$/, "");
+}
+
+function objectAt(document: JsonObject, ...keys: string[]): unknown {
+  let current: unknown = document;
+  for (const key of keys) current = isObject(current) ? current[key] : undefined;
+  return current;
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function asObject(value: unknown): JsonObject {
+  return isObject(value) ? value : {};
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function asString(value: unknown): string {
+  return typeof value === "string" ? value : "";
+}
@@ -113,7 +113,7 @@ export function parseContractsFromSource(
  */
 function parseContractsFromRegex(source: string): SdfComponentContract[] {
   const contracts: SdfComponentContract[] = [];
-  const interfacePattern = /interface\s+(Sdf[A-Z][a-zA-Z]*?)(Props|Attributes|Config)\s*\{([^}]*)\}/g;
+  const interfacePattern = /interface\s+Sdf([A-Z][a-zA-Z]*?)(Props|Attributes|Config)\s*\{([^}]*)\}/g;
 
   let match: RegExpExecArray | null;
   while ((match = interfacePattern.exec(source)) !== null) {
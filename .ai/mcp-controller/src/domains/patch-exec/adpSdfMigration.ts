@@ -0,0 +1,359 @@
+import path from "node:path";
+import { readdir, readFile } from "node:fs/promises";
+import {
+  parseTemplate,
+  TmplAstElement,
+  TmplAstText,
+  type ParseSourceSpan,
+  type TmplAstBoundAttribute,
+  type TmplAstBoundEvent,
+  type TmplAstTextAttribute
+} from "@angular/compiler";
+import { parseAngularTemplate } from "../indexing/astTooling";
+import { parseSdfContracts, type SdfComponentContract } from "../indexing/sdfContractParser";
+import { migrationRuleFromProperties, type MigrationRuleNode } from "../plan-graph/enforcementBundle";
+
+/**
+ * ADP → SDF template migration driven by MigrationRule nodes and parsed SDF
+ * contracts. The codemod renames the tag, maps attributes, property bindings
+ * and event bindings through the rule's propMappings / eventMappings, and only
+ * emits names the SDF contract declares. Anything without a legal equivalent is
+ * left in place and flagged in the migration report.
+ *
+ * Sources: MigrationRule rows under `<seedRoot>/policy/*.jsonl` and SDF
+ * `components.d.ts` files registered at bootstrap; rules from the session's
+ * enforcement bundle (graph) take precedence by id.
+ */
+
+const PROPERTY_BINDING = 0;
+
+export interface MigrationMapping {
+  line: number;
+  kind: MigrationBindingKind;
+  from: string;
+  to: string;
+}
+
+export interface MigrationFlag {
+  line: number;
+  kind: MigrationBindingKind;
+  name: string;
+  /** no_mapping: nothing maps it and the contract has no prop of that name; not_in_contract: the mapped prop is not declared; children_conflict: the element already has content */
+  reason: "no_mapping" | "not_in_contract" | "children_conflict";
+}
+
+export type MigrationBindingKind = "attribute" | "property" | "event";
+
+export interface MigrationReport {
+  ruleId: string;
+  fromTag: string;
+  toTag: string;
+  targetFile: string;
+  elementsMigrated: number;
+  mapped: MigrationMapping[];
+  flagged: MigrationFlag[];
+  /** Required contract props that no migrated binding provides */
+  missingRequiredProps: Array<{ line: number; prop: string }>;
+  /** Carried from the rule; wrappers are not inserted automatically */
+  requiredWrappers: string[];
+  constraints: string[];
+}
+
+export interface MigrationSourceLoadResult {
+  rules: string[];
+  contracts: string[];
+  failures: Array<{ source: string; reason: string }>;
+}
+
+const CHILDREN = "children";
+/** Attributes every element accepts; they are carried over untouched */
+const GLOBAL_ATTRIBUTES = new Set(["class", "id", "style", "slot", "hidden", "role", "tabindex", "title", "lang", "dir"]);
+
+const migrationRules = new Map<string, MigrationRuleNode>();
+const sdfContracts = new Map<string, SdfComponentContract>();
+
+export function registerMigrationRule(rule: MigrationRuleNode): void {
+  migrationRules.set(rule.id, rule);
+}
+
+export function registerSdfContracts(contracts: SdfComponentContract[]): void {
+  for (const contract of contracts) {
+    sdfContracts.set(contract.tag, contract);
+  }
+}
+
+export function clearMigrationSources(): void {
+  migrationRules.clear();
+  sdfContracts.clear();
+}
+
+/** Register MigrationRule seed rows and the configured SDF contract files. */
+export async function loadMigrationSources(input: {
+  seedRoot: string;
+  sdfContractFiles: string[];
+}): Promise<MigrationSourceLoadResult> {
+  const outcome: MigrationSourceLoadResult = { rules: [], contracts: [], failures: [] };
+
+  const policyDir = path.join(input.seedRoot, "policy");
+  let files: string[] = [];
+  try {
+    files = (await readdir(policyDir)).filter((name) => name.endsWith(".jsonl")).sort();
+  } catch {
+    // No policy seeds — no rules
+  }
+  for (const file of files) {
+    const lines = (await readFile(path.join(policyDir, file), "utf8")).split("\n");
+    lines.forEach((line, index) => {
+      if (line.trim().length === 0) return;
+      const source = `${file}:${index + 1}`;
+      try {
+        const row = JSON.parse(line) as { kind?: string; id?: string; labels?: string[]; properties?: Record<string, unknown> };
+        if (row.kind !== "node" || !row.labels?.includes("MigrationRule")) return;
+        const rule = migrationRuleFromProperties({ id: row.id, ...row.properties });
+        if (!rule) {
+          outcome.failures.push({ source, reason: "MigrationRule rows need an id and fromTag" });
+          return;
+        }
+        registerMigrationRule(rule);
+        outcome.rules.push(rule.id);
+      } catch (error) {
+        outcome.failures.push({ source, reason: error instanceof Error ? error.message : String(error) });
+      }
+    });
+  }
+
+  for (const file of input.sdfContractFiles) {
+    const contracts = await parseSdfContracts(file);
+    if (contracts.length === 0) {
+      outcome.failures.push({ source: file, reason: "No Sdf*Props / Sdf*Attributes interfaces found (missing or unparseable file)" });
+      continue;
+    }
+    registerSdfContracts(contracts);
+    outcome.contracts.push(...contracts.map((contract) => contract.tag));
+  }
+  return outcome;
+}
+
+/**
+ * Migrate every `rule.fromTag` element in one Angular template. The rule must
+ * be approved and cited by the plan node, and an SDF contract for its toTag
+ * must be registered. Input and output are parse-checked.
+ */
+export function applyAdpToSdfMigration(input: {
+  targetFile: string;
+  before: string;
+  params: Record<string, unknown>;
+  /** The change node's policyRefs and citations */
+  citedRefs: string[];
+  /** Rules from the session's enforcement bundle; override registered seed rules by id */
+  sessionRules?: MigrationRuleNode[];
+}): { after: string; replacements: number; report: MigrationReport } {
+  const ruleId = typeof input.params.ruleId === "string" ? input.params.ruleId.trim() : "";
+  const rule = input.sessionRules?.find((candidate) => candidate.id === ruleId) ?? migrationRules.get(ruleId);
+  if (!rule || !input.citedRefs.some((ref) => ref === rule.id || ref.startsWith(`${rule.id}@`))) {
+    throw new Error("PLAN_MIGRATION_RULE_MISSING");
+  }
+  if (rule.status !== "approved" || !rule.toTag) {
+    // candidate / unknown / no_analog rules need a human decision first
+    throw new Error("PLAN_POLICY_VIOLATION");
+  }
+  const contract = sdfContracts.get(rule.toTag);
+  if (!contract) {
+    // Without the contract no prop can be shown to be legal
+    throw new Error("PLAN_VERIFICATION_WEAK");
+  }
+  if (parseAngularTemplate(input.before).errors.length > 0) {
+    throw new Error("PLAN_VERIFICATION_WEAK");
+  }
+
+  const source = expandSelfClosing(input.before, rule.fromTag);
+  const parsed = parseTemplate(source, input.targetFile, { preserveWhitespaces: true });
+  if ((parsed.errors ?? []).length > 0) {
+    throw new Error("PLAN_VERIFICATION_WEAK");
+  }
+
+  const report: MigrationReport = {
+    ruleId: rule.id,
+    fromTag: rule.fromTag,
+    toTag: rule.toTag,
+    targetFile: input.targetFile,
+    elementsMigrated: 0,
+    mapped: [],
+    flagged: [],
+    missingRequiredProps: [],
+    requiredWrappers: [...(rule.requiredWrappers ?? [])],
+    constraints: [...(rule.constraints ?? [])]
+  };
+  const edits: TextEdit[] = [];
+  for (const element of collectElements(parsed.nodes, rule.fromTag)) {
+    edits.push(...migrateElement(element, source, rule, contract, report));
+    report.elementsMigrated += 1;
+  }
+  if (report.elementsMigrated === 0) {
+    return { after: input.before, replacements: 0, report };
+  }
+
+  const after = applyEdits(source, edits);
+  if (parseAngularTemplate(after).errors.length > 0) {
+    throw new Error("PLAN_VERIFICATION_WEAK");
+  }
+  return { after, replacements: report.elementsMigrated + report.mapped.length, report };
+}
+
+/* ── Element migration ────────────────────────────────────── */
+
+interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+function migrateElement(
+  element: TmplAstElement,
+  source: string,
+  rule: MigrationRuleNode,
+  contract: SdfComponentContract,
+  report: MigrationReport
+): TextEdit[] {
+  const edits: TextEdit[] = [];
+  const line = element.startSourceSpan.start.line + 1;
+  const declared = new Set(contract.props.map((prop) => prop.name));
+  const provided = new Set<string>();
+  const propMappings = rule.propMappings ?? {};
+  const eventMappings = rule.eventMappings ?? {};
+
+  // Tag names: `<adp-x` and, unless void, `</adp-x`
+  const openName = element.startSourceSpan.start.offset + 1;
+  edits.push({ start: openName, end: openName + rule.fromTag.length, text: rule.toTag });
+  if (element.endSourceSpan && element.endSourceSpan.start.offset !== element.startSourceSpan.start.offset) {
+    const closeName = element.endSourceSpan.start.offset + 2;
+    edits.push({ start: closeName, end: closeName + rule.fromTag.length, text: rule.toTag });
+  }
+
+  const hasContent = element.children.some((child) => !(child instanceof TmplAstText) || child.value.trim().length > 0);
+  let projected = false;
+  const mapName = (kind: MigrationBindingKind, name: string, keySpan: ParseSourceSpan | undefined, wholeSpan: ParseSourceSpan, content: () => string) => {
+    const mappings = kind === "event" ? eventMappings : propMappings;
+    const target = Object.prototype.hasOwnProperty.call(mappings, name) ? mappings[name] : declared.has(name) ? name : undefined;
+    if (!target) {
+      report.flagged.push({ line, kind, name, reason: "no_mapping" });
+      return;
+    }
+    if (target === CHILDREN && kind !== "event") {
+      if (hasContent || projected) {
+        report.flagged.push({ line, kind, name, reason: "children_conflict" });
+        return;
+      }
+      projected = true;
+      edits.push({ start: leadingWhitespaceStart(source, wholeSpan.start.offset), end: wholeSpan.end.offset, text: "" });
+      edits.push({ start: element.startSourceSpan.end.offset, end: element.startSourceSpan.end.offset, text: content() });
+      report.mapped.push({ line, kind, from: name, to: CHILDREN });
+      return;
+    }
+    if (!declared.has(target)) {
+      report.flagged.push({ line, kind, name, reason: "not_in_contract" });
+      return;
+    }
+    provided.add(target);
+    if (target !== name && keySpan) {
+      edits.push({ start: keySpan.start.offset, end: keySpan.end.offset, text: target });
+    }
+    report.mapped.push({ line, kind, from: name, to: target });
+  };
+
+  for (const attribute of element.attributes as TmplAstTextAttribute[]) {
+    if (isGlobalAttribute(attribute.name)) continue;
+    mapName("attribute", attribute.name, attribute.keySpan, attribute.sourceSpan, () => escapeText(attribute.value));
+  }
+  const twoWayKeys = new Set<number>();
+  for (const input of element.inputs as TmplAstBoundAttribute[]) {
+    // [attr.x], [class.x], [style.x] and animations target the host element, not the component.
+    // BindingType is a const enum in @angular/compiler typings, so compare against Property (0) directly.
+    if (input.type !== PROPERTY_BINDING) continue;
+    const keySpan = input.keySpan;
+    if (keySpan && source.slice(input.sourceSpan.start.offset, input.sourceSpan.start.offset + 2) === "[(") {
+      twoWayKeys.add(keySpan.start.offset);
+    }
+    mapName("property", input.name, keySpan, input.sourceSpan, () => `{{ ${boundExpression(source, input.sourceSpan)} }}`);
+  }
+  for (const output of element.outputs as TmplAstBoundEvent[]) {
+    // The output half of [(x)] follows its input's mapping
+    if (output.keySpan && twoWayKeys.has(output.keySpan.start.offset)) continue;
+    mapName("event", output.name, output.keySpan, output.sourceSpan, () => "");
+  }
+
+  for (const prop of contract.props) {
+    if (prop.required && prop.name !== CHILDREN && !provided.has(prop.name)) {
+      report.missingRequiredProps.push({ line, prop: prop.name });
+    }
+  }
+  return edits;
+}
+
+function collectElements(nodes: unknown[], tag: string): TmplAstElement[] {
+  const found: TmplAstElement[] = [];
+  for (const node of nodes) {
+    if (node instanceof TmplAstElement && node.name === tag) {
+      found.push(node);
+    }
+    // Elements, <ng-template> and structural-directive wrappers all carry children
+    const children = (node as { children?: unknown[] }).children;
+    if (Array.isArray(children)) {
+      found.push(...collectElements(children, tag));
+    }
+  }
+  // A `*ngIf` host appears both as the Template wrapper's child and on its own; keep one per span
+  const seen = new Set<number>();
+  return found.filter((element) => {
+    const offset = element.startSourceSpan.start.offset;
+    if (seen.has(offset)) return false;
+    seen.add(offset);
+    return true;
+  });
+}
+
+/* ── Text helpers ─────────────────────────────────────────── */
+
+/** The Angular 14 template parser rejects self-closing custom elements; expand the migrated tag first. */
+function expandSelfClosing(template: string, tag: string): string {
+  const pattern = new RegExp(`<${escapeRegex(tag)}(\\s[^>]*?)?\\s*\\/>`, "g");
+  return template.replace(pattern, (_match, attributes: string | undefined) => `<${tag}${attributes ?? ""}></${tag}>`);
+}
+
+function applyEdits(source: string, edits: TextEdit[]): string {
+  const ordered = [...edits].sort((left, right) => right.start - left.start || right.end - left.end);
+  let output = source;
+  let floor = Number.POSITIVE_INFINITY;
+  for (const edit of ordered) {
+    if (edit.end > floor) {
+      throw new Error("PLAN_VERIFICATION_WEAK"); // overlapping edits would corrupt the template
+    }
+    output = output.slice(0, edit.start) + edit.text + output.slice(edit.end);
+    floor = edit.start;
+  }
+  return output;
+}
+
+function boundExpression(source: string, span: ParseSourceSpan): string {
+  const text = source.slice(span.start.offset, span.end.offset);
+  const match = text.match(/=\s*(["'])([\s\S]*)\1\s*$/);
+  return (match ? match[2] : "").trim();
+}
+
+function leadingWhitespaceStart(source: string, offset: number): number {
+  let start = offset;
+  while (start > 0 && /\s/.test(source[start - 1])) start -= 1;
+  return start;
+}
+
+function isGlobalAttribute(name: string): boolean {
+  return GLOBAL_ATTRIBUTES.has(name) || name.startsWith("aria-") || name.startsWith("data-") || name.startsWith("i18n");
+}
+
+function escapeText(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -0,0 +1,649 @@
+import path from "node:path";
+import {
+  IndentationText,
+  Node,
+  Project,
+  QuoteKind,
+  ScriptKind,
+  SyntaxKind,
+  type ArrayLiteralExpression,
+  type ClassDeclaration,
+  type ObjectLiteralExpression,
+  type SourceFile
+} from "ts-morph";
+import { parseAngularTemplate } from "../indexing/astTooling";
+import { readText } from "../../shared/fileStore";
+import { normalizeSafePath } from "../../shared/fsPaths";
+import type { RenameSymbolFileEdit } from "./renameSymbolCodemod";
+
+/**
+ * Angular codemod pack: NgModule declarations, standalone conversion, providers,
+ * component inputs/outputs and route entries. Every codemod parse-checks its
+ * input before editing and its output after (TS syntactic diagnostics, Angular
+ * template parser); either failing throws PLAN_VERIFICATION_WEAK so nothing is
+ * written. Codemods are idempotent: an entry that is already present is a no-op.
+ */
+
+export type AngularCodemodId =
+  | "add_ngmodule_declaration"
+  | "remove_ngmodule_declaration"
+  | "convert_to_standalone"
+  | "add_provider"
+  | "add_route";
+
+interface CodemodEdit {
+  after: string;
+  replacements: number;
+}
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+const NGMODULE_ARRAYS = ["declarations", "imports", "exports", "bootstrap"] as const;
+const ANGULAR_CORE = "@angular/core";
+
+/** Where the usual standalone imports live, so `convert_to_standalone` can import them by bare name. */
+const KNOWN_ANGULAR_IMPORTS: Record<string, string> = {
+  CommonModule: "@angular/common",
+  NgIf: "@angular/common",
+  NgFor: "@angular/common",
+  NgForOf: "@angular/common",
+  NgClass: "@angular/common",
+  NgStyle: "@angular/common",
+  NgSwitch: "@angular/common",
+  NgSwitchCase: "@angular/common",
+  NgSwitchDefault: "@angular/common",
+  NgTemplateOutlet: "@angular/common",
+  AsyncPipe: "@angular/common",
+  DatePipe: "@angular/common",
+  DecimalPipe: "@angular/common",
+  CurrencyPipe: "@angular/common",
+  PercentPipe: "@angular/common",
+  JsonPipe: "@angular/common",
+  KeyValuePipe: "@angular/common",
+  SlicePipe: "@angular/common",
+  UpperCasePipe: "@angular/common",
+  LowerCasePipe: "@angular/common",
+  TitleCasePipe: "@angular/common",
+  FormsModule: "@angular/forms",
+  ReactiveFormsModule: "@angular/forms",
+  RouterModule: "@angular/router",
+  RouterLink: "@angular/router",
+  RouterLinkActive: "@angular/router",
+  RouterOutlet: "@angular/router"
+};
+
+/** Run one single-file Angular codemod against a TS file's content. */
+export function applyAngularCodemod(input: {
+  codemodId: AngularCodemodId;
+  safePath: string;
+  before: string;
+  params: Record<string, unknown>;
+}): CodemodEdit {
+  const sourceFile = parseChecked(input.safePath, input.before);
+  let replacements: number;
+  switch (input.codemodId) {
+    case "add_ngmodule_declaration":
+      replacements = addNgModuleEntry(sourceFile, input.params);
+      break;
+    case "remove_ngmodule_declaration":
+      replacements = removeNgModuleEntry(sourceFile, input.params);
+      break;
+    case "convert_to_standalone":
+      replacements = convertToStandalone(sourceFile, input.params);
+      break;
+    case "add_provider":
+      replacements = addProvider(sourceFile, input.params);
+      break;
+    case "add_route":
+      replacements = addRoute(sourceFile, input.params);
+      break;
+  }
+
+  const after = sourceFile.getFullText();
+  if (after !== input.before) {
+    parseChecked(input.safePath, after);
+  }
+  return { after, replacements };
+}
+
+/**
+ * `add_component_io`: add an `@Input()` or `@Output()` to the component in the
+ * target file and bind it on every usage of the component's selector in the
+ * listed consumer templates. Nothing is written here — the caller scope-checks
+ * each consumer template like `rename_symbol` importers.
+ */
+export async function planAddComponentIo(input: {
+  worktreeRoot: string;
+  safePath: string;
+  params: Record<string, unknown>;
+}): Promise<RenameSymbolFileEdit[]> {
+  if (!/\.(ts|mts|cts)$/i.test(input.safePath)) {
+    throw new Error("PLAN_POLICY_VIOLATION");
+  }
+  const componentName = identifierParam(input.params, "component");
+  const name = identifierParam(input.params, "name");
+  const kind = stringParam(input.params, "kind");
+  if (kind !== "input" && kind !== "output") {
+    throw new Error("PLAN_MISSING_REQUIRED_FIELDS");
+  }
+  const consumerTemplates = listParam(input.params.consumerTemplates);
+  const binding = optionalStringParam(input.params, "binding");
+  if (consumerTemplates.length > 0 && !binding) {
+    throw new Error("PLAN_MISSING_REQUIRED_FIELDS");
+  }
+
+  const before = await readText(input.safePath);
+  const sourceFile = parseChecked(input.safePath, before);
+  const component = findDecoratedClass(sourceFile, "Component", componentName);
+  if (!component) {
+    return [];
+  }
+
+  let replacements = 0;
+  if (!component.classDeclaration.getMember(name)) {
+    replacements += addIoMember(sourceFile, component.classDeclaration, name, kind, input.params);
+  }
+  const after = sourceFile.getFullText();
+  if (after !== before) {
+    parseChecked(input.safePath, after);
+  }
+  const edits: RenameSymbolFileEdit[] = [{ absolutePath: input.safePath, before, after, replacements }];
+
+  if (consumerTemplates.length === 0) {
+    return edits;
+  }
+  const selector = elementSelector(component.config);
+  if (!selector) {
+    // Attribute and class selectors cannot be matched by tag name
+    throw new Error("PLAN_POLICY_VIOLATION");
+  }
+  const attribute = kind === "input" ? `[${name}]` : `(${name})`;
+  for (const templateFile of consumerTemplates) {
+    if (!templateFile.toLowerCase().endsWith(".html")) {
+      throw new Error("PLAN_POLICY_VIOLATION");
+    }
+    const absolutePath = normalizeSafePath(input.worktreeRoot, templateFile);
+    const template = await readText(absolutePath);
+    edits.push({ absolutePath, before: template, ...bindOnSelector(template, selector, attribute, binding!) });
+  }
+  return edits;
+}
+
+/* ── NgModule arrays ──────────────────────────────────────── */
+
+function addNgModuleEntry(sourceFile: SourceFile, params: Record<string, unknown>): number {
+  const symbol = identifierParam(params, "symbol");
+  const arrayName = ngModuleArrayParam(params) ?? "declarations";
+  const ngModule = findDecoratedClass(sourceFile, "NgModule", optionalIdentifierParam(params, "module"));
+  if (!ngModule) {
+    return 0;
+  }
+
+  let replacements = 0;
+  const array = arrayProperty(ngModule.config, arrayName, true)!;
+  if (!hasElement(array, symbol)) {
+    addElement(array, symbol);
+    replacements += 1;
+  }
+  const importPath = optionalStringParam(params, "importPath");
+  if (importPath && ensureNamedImport(sourceFile, symbol, importPath)) {
+    replacements += 1;
+  }
+  return replacements;
+}
+
+function removeNgModuleEntry(sourceFile: SourceFile, params: Record<string, unknown>): number {
+  const symbol = identifierParam(params, "symbol");
+  const explicitArray = ngModuleArrayParam(params);
+  // A removed declaration must not stay exported, so the default covers both arrays
+  const arrayNames = explicitArray ? [explicitArray] : ["declarations", "exports"];
+  const ngModule = findDecoratedClass(sourceFile, "NgModule", optionalIdentifierParam(params, "module"));
+  if (!ngModule) {
+    return 0;
+  }
+
+  let replacements = 0;
+  for (const arrayName of arrayNames) {
+    const array = arrayProperty(ngModule.config, arrayName, false);
+    for (const element of array?.getElements() ?? []) {
+      if (element.getText() === symbol) {
+        array!.removeElement(element);
+        replacements += 1;
+      }
+    }
+  }
+  if (replacements > 0 && removeUnusedImport(sourceFile, symbol)) {
+    replacements += 1;
+  }
+  return replacements;
+}
+
+/* ── Standalone conversion ────────────────────────────────── */
+
+function convertToStandalone(sourceFile: SourceFile, params: Record<string, unknown>): number {
+  const component = findDecoratedClass(sourceFile, "Component", identifierParam(params, "component"));
+  if (!component) {
+    return 0;
+  }
+  const imports = listParam(params.imports).map(parseImportEntry);
+
+  let replacements = 0;
+  const standalone = component.config.getProperty("standalone");
+  if (!standalone) {
+    const selector = component.config.getProperty("selector");
+    component.config.insertPropertyAssignment(selector ? selector.getChildIndex() + 1 : 0, { name: "standalone", initializer: "true" });
+    replacements += 1;
+  } else if (Node.isPropertyAssignment(standalone) && standalone.getInitializer()?.getText() !== "true") {
+    standalone.setInitializer("true");
+    replacements += 1;
+  }
+
+  if (imports.length > 0) {
+    const array = arrayProperty(component.config, "imports", true)!;
+    for (const entry of imports) {
+      if (!hasElement(array, entry.symbol)) {
+        addElement(array, entry.symbol);
+        replacements += 1;
+      }
+      if (ensureNamedImport(sourceFile, entry.symbol, entry.moduleSpecifier)) {
+        replacements += 1;
+      }
+    }
+  }
+  return replacements;
+}
+
+/** "Symbol" (known Angular symbols only) or "Symbol:module-specifier". */
+function parseImportEntry(entry: string): { symbol: string; moduleSpecifier: string } {
+  const separator = entry.indexOf(":");
+  const symbol = (separator >= 0 ? entry.slice(0, separator) : entry).trim();
+  const moduleSpecifier = separator >= 0 ? entry.slice(separator + 1).trim() : KNOWN_ANGULAR_IMPORTS[symbol];
+  if (!IDENTIFIER_PATTERN.test(symbol) || !moduleSpecifier) {
+    throw new Error("PLAN_MISSING_REQUIRED_FIELDS");
+  }
+  return { symbol, moduleSpecifier };
+}
+
+/* ── Providers ────────────────────────────────────────────── */
+
+function addProvider(sourceFile: SourceFile, params: Record<string, unknown>): number {
+  const provider = stringParam(params, "provider");
+  assertSingleExpression(provider);
+  const providers = findProvidersArray(sourceFile, optionalIdentifierParam(params, "target"));
+  if (!providers) {
+    return 0;
+  }
+
+  let replacements = 0;
+  if (!hasElement(providers, provider)) {
+    addElement(providers, provider);
+    replacements += 1;
+  }
+  const importPath = optionalStringParam(params, "importPath");
+  if (importPath) {
+    const importSymbol = optionalIdentifierParam(params, "importSymbol") ?? provider.match(/^[A-Za-z_$][A-Za-z0-9_$]*/)?.[0];
+    if (!importSymbol) {
+      throw new Error("PLAN_MISSING_REQUIRED_FIELDS");
+    }
+    if (ensureNamedImport(sourceFile, importSymbol, importPath)) {
+      replacements += 1;
+    }
+  }
+  return replacements;
+}
+
+/**
+ * The `providers` array of the target: a class decorated with @NgModule,
+ * @Component or @Directive, or a variable holding a config object
+ * (`ApplicationConfig`) or a bare providers array. Without a target the first
+ * NgModule, then Component, then config object in the file is used.
+ */
+function findProvidersArray(sourceFile: SourceFile, target: string | undefined): ArrayLiteralExpression | undefined {
+  for (const decoratorName of ["NgModule", "Component", "Directive"]) {
+    const decorated = findDecoratedClass(sourceFile, decoratorName, target);
+    if (decorated) {
+      return arrayProperty(decorated.config, "providers", true);
+    }
+  }
+  for (const declaration of sourceFile.getVariableDeclarations()) {
+    if (target && declaration.getName() !== target) continue;
+    const initializer = declaration.getInitializer();
+    if (target && initializer && Node.isArrayLiteralExpression(initializer)) {
+      return initializer;
+    }
+    if (initializer && Node.isObjectLiteralExpression(initializer)
+      && (target || declaration.getTypeNode()?.getText() === "ApplicationConfig" || initializer.getProperty("providers"))) {
+      return arrayProperty(initializer, "providers", true);
+    }
+  }
+  return undefined;
+}
+
+function assertSingleExpression(expression: string): void {
+  const probe = createSourceFile("provider-probe.ts", `const probe = [${expression}];\n`);
+  const initializer = probe.getVariableDeclarations()[0]?.getInitializer();
+  if (syntacticErrorCount(probe) > 0 || !initializer || !Node.isArrayLiteralExpression(initializer) || initializer.getElements().length !== 1) {
+    throw new Error("PLAN_VERIFICATION_WEAK");
+  }
+}
+
+/* ── Component inputs / outputs ───────────────────────────── */
+
+function addIoMember(
+  sourceFile: SourceFile,
+  classDeclaration: ClassDeclaration,
+  name: string,
+  kind: "input" | "output",
+  params: Record<string, unknown>
+): number {
+  const type = optionalStringParam(params, "type");
+  const initializer = optionalStringParam(params, "initializer");
+  const decoratorName = kind === "input" ? "Input" : "Output";
+
+  // New members go after the last existing @Input/@Output so they stay grouped
+  const members = classDeclaration.getMembers();
+  const lastIo = [...members].reverse().find((member) => Node.isPropertyDeclaration(member)
+    && member.getDecorators().some((decorator) => decorator.getName() === "Input" || decorator.getName() === "Output"));
+  const index = lastIo ? members.indexOf(lastIo) + 1 : 0;
+
+  // Written as text so the decorator stays on the member's line, as Angular code usually has it
+  if (kind === "input") {
+    if (!type && !initializer) {
+      throw new Error("PLAN_MISSING_REQUIRED_FIELDS");
+    }
+    const declaration = initializer
+      ? `${name}${type ? `: ${type}` : ""} = ${initializer}`
+      : `${name}!: ${type}`;
+    classDeclaration.insertMember(index, `@${decoratorName}() ${declaration};`);
+  } else {
+    classDeclaration.insertMember(index, `@${decoratorName}() ${name} = ${initializer ?? `new EventEmitter<${type ?? "void"}>()`};`);
+  }
+
+  let replacements = 1;
+  if (ensureNamedImport(sourceFile, decoratorName, ANGULAR_CORE)) replacements += 1;
+  if (kind === "output" && !initializer && ensureNamedImport(sourceFile, "EventEmitter", ANGULAR_CORE)) replacements += 1;
+  return replacements;
+}
+
+/** The tag name of an element selector (`app-user-card`); undefined for attribute/class selectors. */
+function elementSelector(config: ObjectLiteralExpression): string | undefined {
+  const property = config.getProperty("selector");
+  const initializer = property && Node.isPropertyAssignment(property) ? property.getInitializer() : undefined;
+  if (!initializer || !Node.isStringLiteral(initializer)) {
+    return undefined;
+  }
+  const selector = initializer.getLiteralText().split(",")[0].trim();
+  return /^[a-zA-Z][\w-]*$/.test(selector) ? selector : undefined;
+}
+
+/** Add `attribute="binding"` to each opening tag of `selector` that does not bind it yet. */
+function bindOnSelector(template: string, selector: string, attribute: string, binding: string): CodemodEdit {
+  if (parseAngularTemplate(template).errors.length > 0) {
+    throw new Error("PLAN_VERIFICATION_WEAK");
+  }
+  const openingTag = new RegExp(`<${escapeRegex(selector)}(?=[\\s/>])[^>]*>`, "g");
+  let replacements = 0;
+  const after = template.replace(openingTag, (tag) => {
+    if (tag.includes(`${attribute}=`)) {
+      return tag;
+    }
+    replacements += 1;
+    return `<${selector} ${attribute}="${binding.replace(/"/g, "'")}"${tag.slice(selector.length + 1)}`;
+  });
+  if (after !== template && parseAngularTemplate(after).errors.length > 0) {
+    throw new Error("PLAN_VERIFICATION_WEAK");
+  }
+  return { after, replacements };
+}
+
+/* ── Routes ───────────────────────────────────────────────── */
+
+function addRoute(sourceFile: SourceFile, params: Record<string, unknown>): number {
+  const routePath = typeof params.path === "string" ? params.path.trim() : undefined;
+  if (routePath === undefined) {
+    throw new Error("PLAN_MISSING_REQUIRED_FIELDS");
+  }
+  const targets = (["component", "loadComponent", "loadChildren", "redirectTo"] as const)
+    .filter((key) => optionalStringParam(params, key) !== undefined);
+  if (targets.length !== 1) {
+    throw new Error("PLAN_MISSING_REQUIRED_FIELDS");
+  }
+  const routes = findRoutesArray(sourceFile, optionalIdentifierParam(params, "routesVariable"));
+  if (!routes) {
+    return 0;
+  }
+
+  const elements = routes.getElements();
+  if (elements.some((element) => routePathOf(element) === routePath)) {
+    return 0;
+  }
+
+  const quote = sourceFile.getDescendantsOfKind(SyntaxKind.StringLiteral)[0]?.getQuoteKind() ?? QuoteKind.Single;
+  const literal = (value: string) => `${quote}${value.replace(new RegExp(quote, "g"), `\\${quote}`)}${quote}`;
+  const properties = [`path: ${literal(routePath)}`];
+  let replacements = 1;
+  const target = targets[0];
+  const value = optionalStringParam(params, target)!;
+  if (target === "component") {
+    if (!IDENTIFIER_PATTERN.test(value)) {
+      throw new Error("PLAN_MISSING_REQUIRED_FIELDS");
+    }
+    properties.push(`component: ${value}`);
+    const importPath = optionalStringParam(params, "importPath");
+    if (importPath && ensureNamedImport(sourceFile, value, importPath)) {
+      replacements += 1;
+    }
+  } else if (target === "redirectTo") {
+    properties.push(`redirectTo: ${literal(value)}`, `pathMatch: ${literal(optionalStringParam(params, "pathMatch") ?? "full")}`);
+  } else {
+    // "./admin/admin.routes#ADMIN_ROUTES" → import('./admin/admin.routes').then((m) => m.ADMIN_ROUTES)
+    const [modulePath, exportName] = value.split("#");
+    if (exportName !== undefined && !IDENTIFIER_PATTERN.test(exportName)) {
+      throw new Error("PLAN_MISSING_REQUIRED_FIELDS");
+    }
+    const loader = exportName ? `import(${literal(modulePath)}).then((m) => m.${exportName})` : `import(${literal(modulePath)})`;
+    properties.push(`${target}: () => ${loader}`);
+  }
+  if (target !== "redirectTo" && optionalStringParam(params, "pathMatch")) {
+    properties.push(`pathMatch: ${literal(optionalStringParam(params, "pathMatch")!)}`);
+  }
+
+  // Keep the wildcard route last so the new entry is reachable
+  const wildcard = elements.findIndex((element) => routePathOf(element) === "**");
+  const entry = `{ ${properties.join(", ")} }`;
+  const useNewLines = routes.getText().includes("\n") || elements.length === 0;
+  if (wildcard >= 0) {
+    routes.insertElement(wildcard, entry, { useNewLines });
+  } else {
+    routes.addElement(entry, { useNewLines });
+  }
+  return replacements;
+}
+
+/**
+ * The routes array: `routesVariable`, else the first variable typed `Routes` /
+ * `Route[]` or named `routes`, else the array passed to `RouterModule.forRoot`,
+ * `RouterModule.forChild` or `provideRouter`.
+ */
+function findRoutesArray(sourceFile: SourceFile, variableName: string | undefined): ArrayLiteralExpression | undefined {
+  const declarations = sourceFile.getVariableDeclarations().filter((declaration) => {
+    if (variableName) return declaration.getName() === variableName;
+    const typeText = declaration.getTypeNode()?.getText();
+    return typeText === "Routes" || typeText === "Route[]" || declaration.getName() === "routes";
+  });
+  for (const declaration of declarations) {
+    const initializer = declaration.getInitializer();
+    if (initializer && Node.isArrayLiteralExpression(initializer)) {
+      return initializer;
+    }
+  }
+  if (variableName) {
+    return undefined;
+  }
+  for (const call of sourceFile.getDescendantsOfKind(SyntaxKind.CallExpression)) {
+    const callee = call.getExpression().getText();
+    const first = call.getArguments()[0];
+    if ((callee === "RouterModule.forRoot" || callee === "RouterModule.forChild" || callee === "provideRouter")
+      && first && Node.isArrayLiteralExpression(first)) {
+      return first;
+    }
+  }
+  return undefined;
+}
+
+function routePathOf(element: Node): string | undefined {
+  if (!Node.isObjectLiteralExpression(element)) {
+    return undefined;
+  }
+  const property = element.getProperty("path");
+  const initializer = property && Node.isPropertyAssignment(property) ? property.getInitializer() : undefined;
+  return initializer && Node.isStringLiteral(initializer) ? initializer.getLiteralText() : undefined;
+}
+
+/* ── ts-morph helpers ─────────────────────────────────────── */
+
+function findDecoratedClass(
+  sourceFile: SourceFile,
+  decoratorName: string,
+  className: string | undefined
+): { classDeclaration: ClassDeclaration; config: ObjectLiteralExpression } | undefined {
+  for (const classDeclaration of sourceFile.getClasses()) {
+    if (className && classDeclaration.getName() !== className) continue;
+    const decorator = classDeclaration.getDecorator(decoratorName);
+    const config = decorator?.getArguments()[0];
+    if (config && Node.isObjectLiteralExpression(config)) {
+      return { classDeclaration, config };
+    }
+  }
+  return undefined;
+}
+
+/** The array literal behind `name:`; created when missing and `create` is set. Non-literal values are refused. */
+function arrayProperty(config: ObjectLiteralExpression, name: string, create: boolean): ArrayLiteralExpression | undefined {
+  const property = config.getProperty(name);
+  if (!property) {
+    return create
+      ? config.addPropertyAssignment({ name, initializer: "[]" }).getInitializerIfKindOrThrow(SyntaxKind.ArrayLiteralExpression)
+      : undefined;
+  }
+  const initializer = Node.isPropertyAssignment(property) ? property.getInitializer() : undefined;
+  if (!initializer || !Node.isArrayLiteralExpression(initializer)) {
+    // `providers: SHARED_PROVIDERS` and the like cannot be edited in place safely
+    throw new Error("PLAN_POLICY_VIOLATION");
+  }
+  return initializer;
+}
+
+function hasElement(array: ArrayLiteralExpression, text: string): boolean {
+  const normalized = text.replace(/\s+/g, "");
+  return array.getElements().some((element) => element.getText().replace(/\s+/g, "") === normalized);
+}
+
+function addElement(array: ArrayLiteralExpression, text: string): void {
+  array.addElement(text, { useNewLines: array.getText().includes("\n") });
+}
+
+/** Import `symbol` from `moduleSpecifier` unless the file already imports that name. */
+function ensureNamedImport(sourceFile: SourceFile, symbol: string, moduleSpecifier: string): boolean {
+  const alreadyImported = sourceFile.getImportDeclarations()
+    .some((declaration) => declaration.getNamedImports().some((named) => (named.getAliasNode() ?? named.getNameNode()).getText() === symbol));
+  if (alreadyImported) {
+    return false;
+  }
+  const existing = sourceFile.getImportDeclaration((declaration) => declaration.getModuleSpecifierValue() === moduleSpecifier
+    && !declaration.isTypeOnly() && !declaration.getNamespaceImport());
+  if (existing) {
+    existing.addNamedImport(symbol);
+  } else {
+    sourceFile.addImportDeclaration({ namedImports: [symbol], moduleSpecifier });
+  }
+  return true;
+}
+
+/** Drop the named import of `symbol` once nothing else in the file references it. */
+function removeUnusedImport(sourceFile: SourceFile, symbol: string): boolean {
+  const stillUsed = sourceFile.getDescendantsOfKind(SyntaxKind.Identifier)
+    .some((identifier) => identifier.getText() === symbol && !identifier.getFirstAncestorByKind(SyntaxKind.ImportDeclaration));
+  if (stillUsed) {
+    return false;
+  }
+  for (const declaration of sourceFile.getImportDeclarations()) {
+    const named = declaration.getNamedImports().find((item) => (item.getAliasNode() ?? item.getNameNode()).getText() === symbol);
+    if (!named) continue;
+    if (declaration.getNamedImports().length === 1 && !declaration.getDefaultImport()) {
+      declaration.remove();
+    } else {
+      named.remove();
+    }
+    return true;
+  }
+  return false;
+}
+
+function parseChecked(safePath: string, content: string): SourceFile {
+  const sourceFile = createSourceFile(path.basename(safePath), content);
+  if (syntacticErrorCount(sourceFile) > 0) {
+    throw new Error("PLAN_VERIFICATION_WEAK");
+  }
+  return sourceFile;
+}
+
+function createSourceFile(fileName: string, content: string): SourceFile {
+  const project = new Project({
+    useInMemoryFileSystem: true,
+    skipAddingFilesFromTsConfig: true,
+    manipulationSettings: {
+      indentationText: content.includes("\n    ") && !content.includes("\n  ") ? IndentationText.FourSpaces : IndentationText.TwoSpaces,
+      quoteKind: /^import [^\n]*"[^"\n]*";?$/m.test(content) ? QuoteKind.Double : QuoteKind.Single
+    }
+  });
+  return project.createSourceFile(fileName, content, { overwrite: true, scriptKind: ScriptKind.TS });
+}
+
+function syntacticErrorCount(sourceFile: SourceFile): number {
+  return sourceFile.getProject().getProgram().getSyntacticDiagnostics(sourceFile).length;
+}
+
+/* ── Params ───────────────────────────────────────────────── */
+
+function stringParam(params: Record<string, unknown>, key: string): string {
+  const value = optionalStringParam(params, key);
+  if (value === undefined) {
+    throw new Error("PLAN_MISSING_REQUIRED_FIELDS");
+  }
+  return value;
+}
+
+function optionalStringParam(params: Record<string, unknown>, key: string): string | undefined {
+  const value = params[key];
+  return typeof value === "string" && value.trim().length > 0 ? value.trim() : undefined;
+}
+
+function identifierParam(params: Record<string, unknown>, key: string): string {
+  const value = stringParam(params, key);
+  if (!IDENTIFIER_PATTERN.test(value)) {
+    throw new Error("PLAN_MISSING_REQUIRED_FIELDS");
+  }
+  return value;
+}
+
+function optionalIdentifierParam(params: Record<string, unknown>, key: string): string | undefined {
+  return optionalStringParam(params, key) === undefined ? undefined : identifierParam(params, key);
+}
+
+function ngModuleArrayParam(params: Record<string, unknown>): string | undefined {
+  const value = optionalStringParam(params, "array");
+  if (value !== undefined && !(NGMODULE_ARRAYS as readonly string[]).includes(value)) {
+    throw new Error("PLAN_MISSING_REQUIRED_FIELDS");
+  }
+  return value;
+}
+
+/** Accepts a string array or a comma-separated string. */
+function listParam(value: unknown): string[] {
+  const items = Array.isArray(value) ? value : typeof value === "string" ? value.split(",") : [];
+  return items.filter((item): item is string => typeof item === "string").map((item) => item.trim()).filter(Boolean);
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
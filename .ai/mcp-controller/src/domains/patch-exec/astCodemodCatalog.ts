@@ -2,7 +2,15 @@ export type AstCodemodId =
   | "rename_identifier_in_file"
   | "update_import_specifier"
   | "update_route_path_literal"
-  | "rewrite_template_tag";
+  | "rewrite_template_tag"
+  | "rename_symbol"
+  | "add_ngmodule_declaration"
+  | "remove_ngmodule_declaration"
+  | "convert_to_standalone"
+  | "add_provider"
+  | "add_component_io"
+  | "add_route"
+  | "migrate_adp_to_sdf";
 
 export interface AstCodemodDescriptor {
   id: AstCodemodId;
@@ -45,6 +53,70 @@ export const AST_CODEMOD_CATALOG: AstCodemodDescriptor[] = [
     targetFileKinds: ["html"],
     requiredParams: ["fromTag", "toTag"],
     citationToken: "codemod:rewrite_template_tag"
+  },
+  {
+    id: "rename_symbol",
+    title: "Rename Symbol Across Project",
+    description: "Resolves the symbol declared (or imported) in the target file through a ts-morph Project loaded from the worktree tsconfig and renames every reference, import and export across the worktree. Optional param: tsconfig (worktree-relative path).",
+    targetFileKinds: ["ts", "js"],
+    requiredParams: ["from", "to"],
+    citationToken: "codemod:rename_symbol"
+  },
+  {
+    id: "add_ngmodule_declaration",
+    title: "Add NgModule Entry",
+    description: "Adds a symbol to an @NgModule array. Optional params: module (class name, default the first NgModule in the file), array (declarations | imports | exports | bootstrap, default declarations), importPath (adds the named import).",
+    targetFileKinds: ["ts"],
+    requiredParams: ["symbol"],
+    citationToken: "codemod:add_ngmodule_declaration"
+  },
+  {
+    id: "remove_ngmodule_declaration",
+    title: "Remove NgModule Entry",
+    description: "Removes a symbol from an @NgModule's declarations and exports (or only `array` when given) and drops its import once unreferenced. Optional params: module, array.",
+    targetFileKinds: ["ts"],
+    requiredParams: ["symbol"],
+    citationToken: "codemod:remove_ngmodule_declaration"
+  },
+  {
+    id: "convert_to_standalone",
+    title: "Convert Component To Standalone",
+    description: "Sets standalone: true on a @Component and merges `imports` (array or comma list of Symbol or Symbol:module; common, forms and router symbols resolve by name) into its imports array and the file's import declarations. Pair with remove_ngmodule_declaration / add_ngmodule_declaration (array: imports) on the owning module.",
+    targetFileKinds: ["ts"],
+    requiredParams: ["component"],
+    citationToken: "codemod:convert_to_standalone"
+  },
+  {
+    id: "add_provider",
+    title: "Add Provider",
+    description: "Appends a provider expression to the providers array of an @NgModule, @Component or @Directive, or of an ApplicationConfig / providers array variable. Optional params: target (class or variable name), importPath and importSymbol (defaults to the expression's leading identifier).",
+    targetFileKinds: ["ts"],
+    requiredParams: ["provider"],
+    citationToken: "codemod:add_provider"
+  },
+  {
+    id: "add_component_io",
+    title: "Add Component Input/Output",
+    description: "Adds an @Input() (kind: input; needs type or initializer) or @Output() EventEmitter (kind: output; type is the event type) to a component and binds it as [name]=\"binding\" or (name)=\"binding\" on every selector usage in consumerTemplates (multi-file). Optional params: type, initializer, consumerTemplates, binding.",
+    targetFileKinds: ["ts"],
+    requiredParams: ["component", "name", "kind"],
+    citationToken: "codemod:add_component_io"
+  },
+  {
+    id: "add_route",
+    title: "Add Route",
+    description: "Adds a route to a Routes array (routesVariable, a variable typed Routes, or the array passed to RouterModule.forRoot/forChild or provideRouter), before any ** route. Params: path (may be empty) and exactly one of component (with optional importPath), loadComponent / loadChildren (module#Export), redirectTo; optional pathMatch.",
+    targetFileKinds: ["ts"],
+    requiredParams: [],
+    citationToken: "codemod:add_route"
+  },
+  {
+    id: "migrate_adp_to_sdf",
+    title: "Migrate ADP Tag To SDF",
+    description: "Rewrites every fromTag element of the approved MigrationRule `ruleId` (which the change node must cite) to its SDF toTag, mapping attributes, property bindings and event bindings through the rule's propMappings / eventMappings onto props the SDF contract declares. Unmappable bindings stay in place and are flagged in the migration report.",
+    targetFileKinds: ["html"],
+    requiredParams: ["ruleId"],
+    citationToken: "codemod:migrate_adp_to_sdf"
   }
 ];
 
@@ -18,6 +18,26 @@ export class CollisionGuard {
     operationId: string;
     effects: IntendedEffectSet;
     approvedExternalGates: string[];
+  }): { ok: true } | { ok: false; rejectionCode: "EXEC_SIDE_EFFECT_COLLISION" | "EXEC_UNGATED_SIDE_EFFECT"; reason: string } {
+    const verdict = this.check(input);
+    if (!verdict.ok) {
+      return verdict;
+    }
+    const current = this.reservations.get(input.sessionKey) ?? [];
+    current.push({
+      operationId: input.operationId,
+      effects: normalizeEffects(input.effects)
+    });
+    this.reservations.set(input.sessionKey, current);
+    return { ok: true };
+  }
+
+  /** The verdict `assertAndReserve` would give, without reserving anything. */
+  check(input: {
+    sessionKey: string;
+    operationId: string;
+    effects: IntendedEffectSet;
+    approvedExternalGates: string[];
   }): { ok: true } | { ok: false; rejectionCode: "EXEC_SIDE_EFFECT_COLLISION" | "EXEC_UNGATED_SIDE_EFFECT"; reason: string } {
     if (input.effects.externalSideEffects.length > 0) {
       const unauthorized = input.effects.externalSideEffects.filter(
@@ -66,14 +86,16 @@ export class CollisionGuard {
         };
       }
     }
-
-    current.push({
-      operationId: input.operationId,
-      effects: normalizeEffects(input.effects)
-    });
-    this.reservations.set(input.sessionKey, current);
     return { ok: true };
   }
+
+  /** Drop the reservations of finished operations so later nodes may touch the same effects. */
+  release(sessionKey: string, operationIds: string[]): number {
+    const current = this.reservations.get(sessionKey) ?? [];
+    const kept = current.filter((reservation) => !operationIds.includes(reservation.operationId));
+    this.reservations.set(sessionKey, kept);
+    return current.length - kept.length;
+  }
 }
 
 function hasIntersection(left: string[], right: string[]): boolean {
@@ -0,0 +1,344 @@
+import path from "node:path";
+import { readdir, readFile } from "node:fs/promises";
+import { Project, ScriptKind, SyntaxKind } from "ts-morph";
+import type { MemoryRecord } from "../../contracts/memoryRecord";
+import { parseAngularTemplate } from "../indexing/astTooling";
+import {
+  AST_CODEMOD_CATALOG,
+  registerCustomCodemod,
+  type AstCodemodDescriptor
+} from "./astCodemodCatalog";
+
+/**
+ * Declarative codemods: data-only transforms executed by a generic engine.
+ *
+ * A definition is a list of rules applied in order. Each rule either selects
+ * ts-morph nodes by SyntaxKind (plus optional text/parent filters) and replaces
+ * their text, or runs a regex rewrite over an Angular template. `{{param}}`
+ * placeholders in any rule string are filled from `codemodParams`; values are
+ * inserted literally, so regex metacharacters in a pattern and `$` in a
+ * replacement never change what the rule matches or writes.
+ *
+ * Sources: seed JSONL rows labelled `Codemod` under `<seedRoot>/codemod/`, and
+ * approved MemoryRecords carrying `metadata.declarativeCodemod`.
+ */
+
+export interface TsNodeCodemodRule {
+  kind: "ts_node";
+  /** ts-morph `SyntaxKind` name, e.g. "StringLiteral", "CallExpression" */
+  syntaxKind: string;
+  /** Exact node text to match (after placeholder substitution) */
+  text?: string;
+  /** Regex over node text; capture groups are available as $1.. in replaceWith */
+  textPattern?: string;
+  /** Only match nodes whose direct parent has this SyntaxKind */
+  parentSyntaxKind?: string;
+  /** Only match nodes with an ancestor of this SyntaxKind */
+  ancestorSyntaxKind?: string;
+  /** Replacement text; `{{text}}` expands to the matched node's text */
+  replaceWith: string;
+}
+
+export interface TemplateTextCodemodRule {
+  kind: "template_text";
+  /** Regex source */
+  find: string;
+  replace: string;
+  flags?: string;
+}
+
+export type DeclarativeCodemodRule = TsNodeCodemodRule | TemplateTextCodemodRule;
+
+export interface DeclarativeCodemodDefinition {
+  id: string;
+  title?: string;
+  description: string;
+  targetFileKinds: Array<"ts" | "js" | "html">;
+  requiredParams: string[];
+  rules: DeclarativeCodemodRule[];
+}
+
+export interface DeclarativeCodemodLoadResult {
+  registered: string[];
+  failures: Array<{ source: string; reason: string }>;
+}
+
+const definitions = new Map<string, DeclarativeCodemodDefinition>();
+
+/**
+ * Validate and register a declarative codemod. Throws PLAN_POLICY_VIOLATION
+ * for malformed definitions or ids that shadow a built-in codemod.
+ */
+export function registerDeclarativeCodemod(definition: DeclarativeCodemodDefinition): AstCodemodDescriptor {
+  assertValidDefinition(definition);
+  const descriptor: AstCodemodDescriptor = {
+    id: definition.id as AstCodemodDescriptor["id"],
+    title: definition.title ?? definition.id,
+    description: definition.description,
+    targetFileKinds: [...definition.targetFileKinds],
+    requiredParams: [...definition.requiredParams],
+    citationToken: `codemod:${definition.id}`
+  };
+  definitions.set(definition.id, definition);
+  registerCustomCodemod(descriptor);
+  return descriptor;
+}
+
+export function resolveDeclarativeCodemod(codemodId: string): DeclarativeCodemodDefinition | undefined {
+  return definitions.get(codemodId);
+}
+
+export function clearDeclarativeCodemods(): void {
+  definitions.clear();
+}
+
+/**
+ * Run a declarative codemod against one file's content. Input is parse-checked
+ * before the first rule and output after the last; either failing throws
+ * PLAN_VERIFICATION_WEAK so nothing is written.
+ */
+export function applyDeclarativeCodemod(input: {
+  definition: DeclarativeCodemodDefinition;
+  safePath: string;
+  before: string;
+  fileKind: "ts" | "js" | "html";
+  params: Record<string, unknown>;
+}): { after: string; replacements: number } {
+  const params = stringParams(input.definition, input.params);
+  assertParses(input.before, input.fileKind, input.safePath);
+
+  let current = input.before;
+  let replacements = 0;
+  for (const rule of input.definition.rules) {
+    const applied = rule.kind === "ts_node"
+      ? applyTsNodeRule(current, input.safePath, input.fileKind, rule, params)
+      : applyTemplateTextRule(current, rule, params);
+    current = applied.after;
+    replacements += applied.replacements;
+  }
+
+  if (current !== input.before) {
+    assertParses(current, input.fileKind, input.safePath);
+  }
+  return { after: current, replacements };
+}
+
+/** Register every declarative codemod found in seed JSONL and approved memory records. */
+export async function loadDeclarativeCodemods(input: {
+  seedRoot: string;
+  memoryRecords?: MemoryRecord[];
+}): Promise<DeclarativeCodemodLoadResult> {
+  const outcome: DeclarativeCodemodLoadResult = { registered: [], failures: [] };
+  const tryRegister = (source: string, candidate: unknown) => {
+    try {
+      outcome.registered.push(registerDeclarativeCodemod(toDefinition(candidate)).id);
+    } catch (error) {
+      outcome.failures.push({ source, reason: error instanceof Error ? error.message : String(error) });
+    }
+  };
+
+  const codemodDir = path.join(input.seedRoot, "codemod");
+  let files: string[] = [];
+  try {
+    files = (await readdir(codemodDir)).filter((name) => name.endsWith(".jsonl")).sort();
+  } catch {
+    // No codemod seeds — nothing to load
+  }
+  for (const file of files) {
+    const lines = (await readFile(path.join(codemodDir, file), "utf8")).split("\n");
+    lines.forEach((line, index) => {
+      if (line.trim().length === 0) return;
+      const source = `${file}:${index + 1}`;
+      try {
+        const row = JSON.parse(line) as { kind?: string; labels?: string[]; properties?: Record<string, unknown> };
+        if (row.kind !== "node" || !row.labels?.includes("Codemod")) return;
+        tryRegister(source, row.properties);
+      } catch (error) {
+        outcome.failures.push({ source, reason: error instanceof Error ? error.message : String(error) });
+      }
+    });
+  }
+
+  for (const record of input.memoryRecords ?? []) {
+    if (record.state !== "approved" || !record.metadata?.declarativeCodemod) continue;
+    tryRegister(record.id, record.metadata.declarativeCodemod);
+  }
+  return outcome;
+}
+
+/* ── Rule engines ─────────────────────────────────────────── */
+
+function applyTsNodeRule(
+  content: string,
+  safePath: string,
+  fileKind: "ts" | "js" | "html",
+  rule: TsNodeCodemodRule,
+  params: Record<string, string>
+): { after: string; replacements: number } {
+  if (fileKind === "html") {
+    throw new Error("PLAN_POLICY_VIOLATION");
+  }
+  const sourceFile = createSourceFile(content, safePath, fileKind);
+  const kind = SyntaxKind[rule.syntaxKind as keyof typeof SyntaxKind] as SyntaxKind;
+  const text = rule.text === undefined ? undefined : fillPlaceholders(rule.text, params);
+  const pattern = rule.textPattern === undefined ? undefined : new RegExp(fillPlaceholders(rule.textPattern, params, escapeRegExp));
+  const parentKind = rule.parentSyntaxKind ? SyntaxKind[rule.parentSyntaxKind as keyof typeof SyntaxKind] : undefined;
+  const ancestorKind = rule.ancestorSyntaxKind ? SyntaxKind[rule.ancestorSyntaxKind as keyof typeof SyntaxKind] : undefined;
+
+  const edits: Array<{ start: number; end: number; replacement: string }> = [];
+  for (const node of sourceFile.getDescendantsOfKind(kind)) {
+    const nodeText = node.getText();
+    if (text !== undefined && nodeText !== text) continue;
+    const match = pattern ? pattern.exec(nodeText) : null;
+    if (pattern && !match) continue;
+    if (parentKind !== undefined && node.getParent()?.getKind() !== parentKind) continue;
+    if (ancestorKind !== undefined && !node.getFirstAncestorByKind(ancestorKind)) continue;
+    // Outer matches win; a node nested in an already-selected one is skipped
+    const start = node.getStart();
+    const end = node.getEnd();
+    if (edits.some((edit) => start >= edit.start && end <= edit.end)) continue;
+
+    // Placeholders and capture groups are expanded in one pass so neither can inject the other
+    const values: Record<string, string> = { ...params, text: nodeText };
+    const replacement = rule.replaceWith.replace(/\{\{(\w+)\}\}|\$(\d+)/g, (whole, key: string | undefined, group: string | undefined) => {
+      if (key !== undefined) return values[key] ?? whole;
+      return match ? match[Number(group)] ?? "" : whole;
+    });
+    edits.push({ start, end, replacement });
+  }
+
+  let after = content;
+  for (const edit of [...edits].sort((left, right) => right.start - left.start)) {
+    after = `${after.slice(0, edit.start)}${edit.replacement}${after.slice(edit.end)}`;
+  }
+  return { after, replacements: edits.length };
+}
+
+function applyTemplateTextRule(
+  content: string,
+  rule: TemplateTextCodemodRule,
+  params: Record<string, string>
+): { after: string; replacements: number } {
+  const flags = rule.flags?.includes("g") ? rule.flags : `${rule.flags ?? ""}g`;
+  const pattern = new RegExp(fillPlaceholders(rule.find, params, escapeRegExp), flags);
+  const replacements = [...content.matchAll(pattern)].length;
+  if (replacements === 0) {
+    return { after: content, replacements: 0 };
+  }
+  return { after: content.replace(pattern, fillPlaceholders(rule.replace, params, escapeReplacement)), replacements };
+}
+
+/* ── Validation helpers ───────────────────────────────────── */
+
+function assertParses(content: string, fileKind: "ts" | "js" | "html", safePath: string): void {
+  if (fileKind === "html") {
+    if (parseAngularTemplate(content).errors.length > 0) {
+      throw new Error("PLAN_VERIFICATION_WEAK");
+    }
+    return;
+  }
+  const sourceFile = createSourceFile(content, safePath, fileKind);
+  const diagnostics = sourceFile.getProject().getProgram().getSyntacticDiagnostics(sourceFile);
+  if (diagnostics.length > 0) {
+    throw new Error("PLAN_VERIFICATION_WEAK");
+  }
+}
+
+function assertValidDefinition(definition: DeclarativeCodemodDefinition): void {
+  if (!definition.id || !/^[a-z][a-z0-9_]*$/.test(definition.id)) {
+    throw new Error("PLAN_POLICY_VIOLATION");
+  }
+  if (AST_CODEMOD_CATALOG.some((item) => item.id === definition.id)) {
+    throw new Error("PLAN_POLICY_VIOLATION"); // built-in ids cannot be redefined
+  }
+  if (definition.targetFileKinds.length === 0 || definition.rules.length === 0) {
+    throw new Error("PLAN_MISSING_REQUIRED_FIELDS");
+  }
+  for (const rule of definition.rules) {
+    if (rule.kind === "ts_node") {
+      for (const kindName of [rule.syntaxKind, rule.parentSyntaxKind, rule.ancestorSyntaxKind]) {
+        if (kindName !== undefined && typeof SyntaxKind[kindName as keyof typeof SyntaxKind] !== "number") {
+          throw new Error("PLAN_POLICY_VIOLATION");
+        }
+      }
+      if (definition.targetFileKinds.includes("html") || typeof rule.replaceWith !== "string") {
+        throw new Error("PLAN_POLICY_VIOLATION");
+      }
+      if (rule.textPattern !== undefined) assertRegex(rule.textPattern);
+    } else if (rule.kind === "template_text") {
+      if (typeof rule.find !== "string" || rule.find.length === 0 || typeof rule.replace !== "string") {
+        throw new Error("PLAN_MISSING_REQUIRED_FIELDS");
+      }
+      assertRegex(rule.find, rule.flags);
+    } else {
+      throw new Error("PLAN_POLICY_VIOLATION");
+    }
+  }
+}
+
+function assertRegex(source: string, flags?: string): void {
+  try {
+    // Placeholders are syntactically neutral, so checking the raw source is enough
+    new RegExp(source.replace(/\{\{\w+\}\}/g, "x"), flags);
+  } catch {
+    throw new Error("PLAN_POLICY_VIOLATION");
+  }
+}
+
+function toDefinition(candidate: unknown): DeclarativeCodemodDefinition {
+  if (!candidate || typeof candidate !== "object") {
+    throw new Error("PLAN_MISSING_REQUIRED_FIELDS");
+  }
+  const raw = candidate as Record<string, unknown>;
+  // Graph-synced rows store rules as a JSON string because Neo4j properties cannot nest
+  const rules = typeof raw.rulesJson === "string" ? JSON.parse(raw.rulesJson) : raw.rules;
+  const id = typeof raw.codemodId === "string" ? raw.codemodId : raw.id;
+  if (typeof id !== "string" || typeof raw.description !== "string" || !Array.isArray(rules)) {
+    throw new Error("PLAN_MISSING_REQUIRED_FIELDS");
+  }
+  return {
+    id,
+    title: typeof raw.title === "string" ? raw.title : undefined,
+    description: raw.description,
+    targetFileKinds: (Array.isArray(raw.targetFileKinds) ? raw.targetFileKinds : ["ts"]) as DeclarativeCodemodDefinition["targetFileKinds"],
+    requiredParams: Array.isArray(raw.requiredParams) ? raw.requiredParams.map(String) : [],
+    rules: rules as DeclarativeCodemodRule[]
+  };
+}
+
+function stringParams(definition: DeclarativeCodemodDefinition, params: Record<string, unknown>): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const key of definition.requiredParams) {
+    const value = params[key];
+    if (typeof value !== "string" || value.trim().length === 0) {
+      throw new Error("PLAN_MISSING_REQUIRED_FIELDS");
+    }
+    values[key] = value.trim();
+  }
+  return values;
+}
+
+function fillPlaceholders(
+  template: string,
+  values: Record<string, string>,
+  encode: (value: string) => string = (value) => value
+): string {
+  return template.replace(/\{\{(\w+)\}\}/g, (whole, key: string) => (values[key] === undefined ? whole : encode(values[key])));
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** `$` is special in a String.replace replacement; `$$` writes a literal dollar */
+function escapeReplacement(value: string): string {
+  return value.replace(/\$/g, "$$$$");
+}
+
+function createSourceFile(content: string, safePath: string, fileKind: "ts" | "js") {
+  const project = new Project({ useInMemoryFileSystem: true, skipAddingFilesFromTsConfig: true });
+  return project.createSourceFile(path.basename(safePath), content, {
+    overwrite: true,
+    scriptKind: fileKind === "js" ? ScriptKind.JS : ScriptKind.TS
+  });
+}
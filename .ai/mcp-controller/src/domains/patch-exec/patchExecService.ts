@@ -5,12 +5,19 @@ import { readText, writeText } from "../../shared/fileStore";
 import { normalizeSafePath } from "../../shared/fsPaths";
 import { replaceWithGuard } from "../../shared/replaceGuard";
 import type { ChangePlanNode } from "../../contracts/planGraph";
+import type { MigrationRuleNode } from "../plan-graph/enforcementBundle";
 import {
-  AST_CODEMOD_CATALOG,
   type AstCodemodId,
   isSupportedAstCodemodId,
-  listAstCodemods
+  listAstCodemods,
+  resolveCodemodDescriptor
 } from "./astCodemodCatalog";
+import { applyAdpToSdfMigration, type MigrationReport } from "./adpSdfMigration";
+import { applyAngularCodemod, planAddComponentIo } from "./angularCodemods";
+import { applyDeclarativeCodemod, resolveDeclarativeCodemod } from "./declarativeCodemod";
+import { applyUnifiedDiff, parseUnifiedDiff, type RejectedHunk } from "./unifiedDiff";
+import type { PatchJournal } from "./patchJournal";
+import { planRenameSymbol, type RenameSymbolFileEdit } from "./renameSymbolCodemod";
 
 export interface ReplaceTextPatchApplyRequest {
   nodeId: string;
@@ -30,24 +37,65 @@ export interface AstCodemodPatchApplyRequest {
   codemodParams: Record<string, unknown>;
 }
 
-export type PatchApplyRequest = ReplaceTextPatchApplyRequest | AstCodemodPatchApplyRequest;
+export interface UnifiedDiffPatchApplyRequest {
+  nodeId: string;
+  targetFile: string;
+  targetSymbols: string[];
+  operation: "unified_diff";
+  diff: string;
+}
+
+export type PatchApplyRequest = ReplaceTextPatchApplyRequest | AstCodemodPatchApplyRequest | UnifiedDiffPatchApplyRequest;
 
 export interface PatchApplyResult {
   changed: boolean;
   targetFile: string;
+  /** Text replacements, codemod edits, or applied hunks depending on operation */
   replacements: number;
   bytesBefore: number;
   bytesAfter: number;
   lineDelta: number;
-  operation: "replace_text" | "ast_codemod";
+  operation: PatchApplyRequest["operation"];
   codemodId?: string;
+  /** unified_diff only: hunks that did not match. When non-empty nothing was written. */
+  rejectedHunks?: RejectedHunk[];
+  /** Set when a journal was supplied and the write was recorded for revert_code_patch */
+  journalEntryId?: string;
+  /** Multi-file codemods only: per-file breakdown (top-level counters are totals) */
+  files?: PatchFileChange[];
+  /** Multi-file codemods only: files that failed scope checks. When non-empty nothing was written. */
+  scopeViolations?: PatchScopeViolation[];
+  /** migrate_adp_to_sdf only: what was mapped and what needs a human */
+  migrationReport?: MigrationReport;
 }
 
+export interface PatchFileChange {
+  targetFile: string;
+  replacements: number;
+  bytesBefore: number;
+  bytesAfter: number;
+  lineDelta: number;
+  journalEntryId?: string;
+}
+
+export interface PatchScopeViolation {
+  targetFile: string;
+  rejectionCode: string;
+  reason: string;
+}
+
+export type PatchFileAuthorization = { ok: true } | { ok: false; rejectionCode: string; reason: string };
+
 export function listPatchApplyOptions(): {
   replaceText: {
     operation: "replace_text";
     requiredFields: string[];
   };
+  unifiedDiff: {
+    operation: "unified_diff";
+    requiredFields: string[];
+    note: string;
+  };
   astCodemods: ReturnType<typeof listAstCodemods>;
   customCodemodsAllowed: boolean;
   customCodemodNote?: string;
@@ -58,10 +106,15 @@ export function listPatchApplyOptions(): {
       operation: "replace_text",
       requiredFields: ["nodeId", "targetFile", "targetSymbols", "find", "replace"]
     },
+    unifiedDiff: {
+      operation: "unified_diff",
+      requiredFields: ["nodeId", "targetFile", "targetSymbols", "diff"],
+      note: "Single-file unified diff. Every hunk's context must match the file; hunks apply atomically and rejected hunks are reported without writing."
+    },
     astCodemods: listAstCodemods(),
     customCodemodsAllowed: true,
-    customCodemodNote: "Custom codemods can be registered via memory records or seed data. They follow the same sandbox verification as built-in codemods.",
-    citationRule: "When operation=ast_codemod, change-node citations must include codemod:<codemodId>."
+    customCodemodNote: "Custom codemods are declarative rule sets loaded from seed JSONL (<seedRoot>/codemod/*.jsonl, label Codemod) or approved memory records (metadata.declarativeCodemod). Input and output are parse-validated like rewrite_template_tag.",
+    citationRule: "When operation=ast_codemod, change-node citations must include codemod:<codemodId>. rename_symbol and add_component_io may edit files beyond targetFile; each must be in the context pack and scope allowlist."
   };
 }
 
@@ -69,33 +122,96 @@ export async function applyStructuredPatch(input: {
   worktreeRoot: string;
   request: PatchApplyRequest;
   approvedNode: ChangePlanNode;
+  journal?: PatchJournal;
+  /** Scope check for files beyond the node's targetFile (multi-file codemods). Required to touch them. */
+  authorizeFile?: (relativeFile: string) => PatchFileAuthorization;
+  /** Reserve the files beyond targetFile; called once, only after every one passed `authorizeFile` */
+  reserveFiles?: (relativeFiles: string[]) => PatchFileAuthorization;
+  /** MigrationRules from the session's enforcement bundle, for migrate_adp_to_sdf */
+  migrationRules?: MigrationRuleNode[];
 }): Promise<PatchApplyResult> {
   validatePatchRequest(input.request, input.approvedNode);
 
   const safePath = normalizeSafePath(input.worktreeRoot, input.request.targetFile);
+
+  if (input.request.operation === "ast_codemod" && input.request.codemodId === "rename_symbol") {
+    return applyMultiFileEdits(input, safePath, planRenameSymbol({
+      worktreeRoot: input.worktreeRoot,
+      safePath,
+      params: input.request.codemodParams
+    }));
+  }
+
+  if (input.request.operation === "ast_codemod" && input.request.codemodId === "add_component_io") {
+    return applyMultiFileEdits(input, safePath, await planAddComponentIo({
+      worktreeRoot: input.worktreeRoot,
+      safePath,
+      params: input.request.codemodParams
+    }));
+  }
+
   const before = await readText(safePath);
 
   let after = before;
   let replacements = 0;
+  let rejectedHunks: RejectedHunk[] | undefined;
+  let migrationReport: MigrationReport | undefined;
 
   if (input.request.operation === "replace_text") {
     replacements = countOccurrences(before, input.request.find);
     after = replacements > 0 ? before.split(input.request.find).join(input.request.replace) : before;
+  } else if (input.request.operation === "unified_diff") {
+    const applied = applyUnifiedDiff(before, parseUnifiedDiff(input.request.diff));
+    if (applied.ok) {
+      after = applied.after;
+      replacements = applied.appliedHunks;
+    } else {
+      rejectedHunks = applied.rejectedHunks;
+    }
   } else {
     if (!isSupportedAstCodemodId(input.request.codemodId)) {
       throw new Error("PLAN_POLICY_VIOLATION");
     }
-    const codemodResult = applyAstCodemod({
-      safePath,
-      before,
-      codemodId: input.request.codemodId,
-      params: input.request.codemodParams
-    });
-    after = codemodResult.after;
-    replacements = codemodResult.replacements;
+    if (input.request.codemodId === "migrate_adp_to_sdf") {
+      if (inferFileKind(safePath) !== "html") {
+        throw new Error("PLAN_POLICY_VIOLATION");
+      }
+      const migration = applyAdpToSdfMigration({
+        targetFile: input.request.targetFile,
+        before,
+        params: input.request.codemodParams,
+        citedRefs: [...input.approvedNode.policyRefs, ...input.approvedNode.citations],
+        sessionRules: input.migrationRules
+      });
+      after = migration.after;
+      replacements = migration.replacements;
+      migrationReport = migration.report;
+    } else {
+      const codemodResult = applyAstCodemod({
+        safePath,
+        before,
+        codemodId: input.request.codemodId,
+        params: input.request.codemodParams
+      });
+      after = codemodResult.after;
+      replacements = codemodResult.replacements;
+    }
   }
 
+  let journalEntryId: string | undefined;
   if (after !== before) {
+    // Journal first so a crash between the two writes never leaves an unrecorded edit
+    if (input.journal) {
+      const entry = await input.journal.record({
+        nodeId: input.request.nodeId,
+        targetFile: input.request.targetFile,
+        absolutePath: safePath,
+        operation: input.request.operation,
+        before,
+        after
+      });
+      journalEntryId = entry.entryId;
+    }
     await writeText(safePath, after);
   }
 
@@ -107,7 +223,110 @@ export async function applyStructuredPatch(input: {
     bytesAfter: Buffer.byteLength(after, "utf8"),
     lineDelta: lineCount(after) - lineCount(before),
     operation: input.request.operation,
-    codemodId: input.request.operation === "ast_codemod" ? input.request.codemodId : undefined
+    codemodId: input.request.operation === "ast_codemod" ? input.request.codemodId : undefined,
+    rejectedHunks,
+    journalEntryId,
+    migrationReport
+  };
+}
+
+/**
+ * Commit a multi-file codemod. Every file other than the node's targetFile must pass
+ * `authorizeFile`; on any violation nothing is written or reserved. Only then are they
+ * reserved together via `reserveFiles`. Writes are rolled back if one fails.
+ */
+async function applyMultiFileEdits(
+  input: {
+    worktreeRoot: string;
+    request: PatchApplyRequest;
+    journal?: PatchJournal;
+    authorizeFile?: (relativeFile: string) => PatchFileAuthorization;
+    reserveFiles?: (relativeFiles: string[]) => PatchFileAuthorization;
+  },
+  safePath: string,
+  edits: RenameSymbolFileEdit[]
+): Promise<PatchApplyResult> {
+  const root = path.resolve(input.worktreeRoot);
+  const changedEdits = edits.filter((edit) => edit.after !== edit.before);
+  const toRelative = (absolutePath: string) => path.relative(root, absolutePath).split(path.sep).join("/");
+
+  const scopeViolations: PatchScopeViolation[] = [];
+  const extraFiles = changedEdits.filter((edit) => edit.absolutePath !== safePath).map((edit) => toRelative(edit.absolutePath));
+  for (const relativeFile of extraFiles) {
+    const verdict = input.authorizeFile
+      ? input.authorizeFile(relativeFile)
+      : { ok: false as const, rejectionCode: "PLAN_SCOPE_VIOLATION", reason: "No file authorizer supplied for a multi-file codemod." };
+    if (!verdict.ok) {
+      scopeViolations.push({ targetFile: relativeFile, rejectionCode: verdict.rejectionCode, reason: verdict.reason });
+    }
+  }
+  if (scopeViolations.length === 0 && extraFiles.length > 0 && input.reserveFiles) {
+    const reserved = input.reserveFiles(extraFiles);
+    if (!reserved.ok) {
+      scopeViolations.push(...extraFiles.map((targetFile) => ({ targetFile, rejectionCode: reserved.rejectionCode, reason: reserved.reason })));
+    }
+  }
+
+  const totals = {
+    replacements: edits.reduce((sum, edit) => sum + edit.replacements, 0),
+    bytesBefore: edits.reduce((sum, edit) => sum + Buffer.byteLength(edit.before, "utf8"), 0),
+    bytesAfter: edits.reduce((sum, edit) => sum + Buffer.byteLength(edit.after, "utf8"), 0),
+    lineDelta: edits.reduce((sum, edit) => sum + lineCount(edit.after) - lineCount(edit.before), 0)
+  };
+  const codemodId = input.request.operation === "ast_codemod" ? input.request.codemodId : undefined;
+
+  if (scopeViolations.length > 0) {
+    return {
+      changed: false,
+      targetFile: safePath,
+      ...totals,
+      operation: input.request.operation,
+      codemodId,
+      scopeViolations
+    };
+  }
+
+  const files: PatchFileChange[] = [];
+  const written: RenameSymbolFileEdit[] = [];
+  try {
+    for (const edit of changedEdits) {
+      const relativeFile = edit.absolutePath === safePath ? input.request.targetFile : toRelative(edit.absolutePath);
+      const entry = input.journal
+        ? await input.journal.record({
+          nodeId: input.request.nodeId,
+          targetFile: relativeFile,
+          absolutePath: edit.absolutePath,
+          operation: input.request.operation,
+          before: edit.before,
+          after: edit.after
+        })
+        : undefined;
+      await writeText(edit.absolutePath, edit.after);
+      written.push(edit);
+      files.push({
+        targetFile: relativeFile,
+        replacements: edit.replacements,
+        bytesBefore: Buffer.byteLength(edit.before, "utf8"),
+        bytesAfter: Buffer.byteLength(edit.after, "utf8"),
+        lineDelta: lineCount(edit.after) - lineCount(edit.before),
+        journalEntryId: entry?.entryId
+      });
+    }
+  } catch (error) {
+    for (const edit of written.reverse()) {
+      await writeText(edit.absolutePath, edit.before).catch(() => undefined);
+    }
+    throw error;
+  }
+
+  return {
+    changed: files.length > 0,
+    targetFile: safePath,
+    ...totals,
+    operation: input.request.operation,
+    codemodId,
+    journalEntryId: files.find((file) => file.targetFile === input.request.targetFile)?.journalEntryId,
+    files
   };
 }
 
@@ -129,10 +348,24 @@ function validatePatchRequest(request: PatchApplyRequest, node: ChangePlanNode):
     return;
   }
 
+  if (request.operation === "unified_diff") {
+    if (request.diff.trim().length === 0) {
+      throw new Error("PLAN_MISSING_REQUIRED_FIELDS");
+    }
+    const parsed = parseUnifiedDiff(request.diff);
+    // File headers are optional, but when present they must name the approved node's file
+    for (const headerPath of [parsed.oldFile, parsed.newFile]) {
+      if (headerPath && !sameRelativePath(headerPath, node.targetFile)) {
+        throw new Error("PLAN_SCOPE_VIOLATION");
+      }
+    }
+    return;
+  }
+
   if (!isSupportedAstCodemodId(request.codemodId)) {
     throw new Error("PLAN_POLICY_VIOLATION");
   }
-  const descriptor = AST_CODEMOD_CATALOG.find((item) => item.id === request.codemodId);
+  const descriptor = resolveCodemodDescriptor(request.codemodId);
   if (!descriptor) {
     throw new Error("PLAN_POLICY_VIOLATION");
   }
@@ -151,7 +384,7 @@ function applyAstCodemod(input: {
   params: Record<string, unknown>;
 }): { after: string; replacements: number } {
   const kind = inferFileKind(input.safePath);
-  const descriptor = AST_CODEMOD_CATALOG.find((item) => item.id === input.codemodId);
+  const descriptor = resolveCodemodDescriptor(input.codemodId);
   if (!descriptor) {
     throw new Error("PLAN_POLICY_VIOLATION");
   }
@@ -168,8 +401,31 @@ function applyAstCodemod(input: {
       return applyUpdateRoutePathLiteral(input.safePath, input.before, input.params);
     case "rewrite_template_tag":
       return applyTemplateTagRewrite(input.before, input.params);
-    default:
-      throw new Error("PLAN_POLICY_VIOLATION");
+    case "add_ngmodule_declaration":
+    case "remove_ngmodule_declaration":
+    case "convert_to_standalone":
+    case "add_provider":
+    case "add_route":
+      return applyAngularCodemod({
+        codemodId: input.codemodId,
+        safePath: input.safePath,
+        before: input.before,
+        params: input.params
+      });
+    default: {
+      // Custom ids only execute when a declarative definition backs the descriptor
+      const definition = resolveDeclarativeCodemod(input.codemodId);
+      if (!definition) {
+        throw new Error("PLAN_POLICY_VIOLATION");
+      }
+      return applyDeclarativeCodemod({
+        definition,
+        safePath: input.safePath,
+        before: input.before,
+        fileKind: kind,
+        params: input.params
+      });
+    }
   }
 }
 
@@ -330,6 +586,10 @@ function inferFileKind(filePath: string): "ts" | "js" | "html" {
   return "ts";
 }
 
+function sameRelativePath(left: string, right: string): boolean {
+  return path.posix.normalize(left.replace(/\\/g, "/")) === path.posix.normalize(right.replace(/\\/g, "/"));
+}
+
 function countOccurrences(content: string, token: string): number {
   if (!token) {
     return 0;
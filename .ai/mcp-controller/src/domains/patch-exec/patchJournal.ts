@@ -0,0 +1,226 @@
+import path from "node:path";
+import { createHash } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import { appendJsonl, readText, writeText } from "../../shared/fileStore";
+import { ensureId } from "../../shared/ids";
+import { workRoot } from "../../shared/fsPaths";
+
+/** One applied patch: the before/after images of a single file write. */
+export interface PatchJournalEntry {
+  kind: "apply";
+  entryId: string;
+  ts: string;
+  nodeId: string;
+  /** Repo/worktree-relative path as requested by the agent */
+  targetFile: string;
+  /** Absolute path that was written */
+  absolutePath: string;
+  operation: string;
+  beforeHash: string;
+  afterHash: string;
+  bytesBefore: number;
+  bytesAfter: number;
+}
+
+/** Marks previously applied entries as rolled back. */
+export interface PatchJournalRevertEntry {
+  kind: "revert";
+  ts: string;
+  revertedEntryIds: string[];
+  scope: "node" | "plan";
+  nodeId?: string;
+}
+
+type JournalRow = PatchJournalEntry | PatchJournalRevertEntry;
+
+export interface PatchRevertConflict {
+  targetFile: string;
+  expectedHash: string;
+  actualHash: string | null;
+}
+
+export type PatchRevertOutcome =
+  | {
+      ok: true;
+      revertedEntryIds: string[];
+      revertedNodeIds: string[];
+      restoredFiles: Array<{ targetFile: string; absolutePath: string; restoredHash: string }>;
+    }
+  | { ok: false; rejectionCode: "PLAN_SCOPE_VIOLATION" | "EXEC_SIDE_EFFECT_COLLISION"; reason: string; conflicts?: PatchRevertConflict[] };
+
+/**
+ * Per-workId undo journal for `apply_code_patch`.
+ *
+ * Layout under `.ai/tmp/work/<workId>/patch-journal/`:
+ *   - `journal.jsonl` — append-only apply/revert rows
+ *   - `blobs/<sha256>` — content-addressed before/after file images
+ *
+ * Blobs are written before the target file so every journaled write can be
+ * undone. Reverts only proceed when each file still matches the hash the
+ * journal last wrote, so edits made outside the journal are never clobbered.
+ */
+export class PatchJournal {
+  private readonly root: string;
+
+  constructor(workId: string) {
+    this.root = path.join(workRoot(workId), "patch-journal");
+  }
+
+  async record(input: {
+    nodeId: string;
+    targetFile: string;
+    absolutePath: string;
+    operation: string;
+    before: string;
+    after: string;
+  }): Promise<PatchJournalEntry> {
+    const beforeHash = await this.storeBlob(input.before);
+    const afterHash = await this.storeBlob(input.after);
+    const entry: PatchJournalEntry = {
+      kind: "apply",
+      entryId: ensureId(undefined, "patch"),
+      ts: new Date().toISOString(),
+      nodeId: input.nodeId,
+      targetFile: input.targetFile,
+      absolutePath: input.absolutePath,
+      operation: input.operation,
+      beforeHash,
+      afterHash,
+      bytesBefore: Buffer.byteLength(input.before, "utf8"),
+      bytesAfter: Buffer.byteLength(input.after, "utf8"),
+    };
+    await appendJsonl(this.journalPath(), entry);
+    return entry;
+  }
+
+  /** Applied entries that have not been reverted, oldest first. */
+  async activeEntries(): Promise<PatchJournalEntry[]> {
+    const rows = await this.readRows();
+    const reverted = new Set(
+      rows.flatMap((row) => (row.kind === "revert" ? row.revertedEntryIds : [])),
+    );
+    return rows.filter((row): row is PatchJournalEntry => row.kind === "apply" && !reverted.has(row.entryId));
+  }
+
+  /**
+   * Roll back one node's edits (`nodeId` given) or every active edit in the plan.
+   * All files are checked before any is written; a failed write mid-way
+   * restores the files already rolled back.
+   */
+  async revert(input: { nodeId?: string }): Promise<PatchRevertOutcome> {
+    const active = await this.activeEntries();
+    const selected = input.nodeId
+      ? active.filter((entry) => entry.nodeId === input.nodeId)
+      : active;
+    if (selected.length === 0) {
+      return {
+        ok: false,
+        rejectionCode: "PLAN_SCOPE_VIOLATION",
+        reason: input.nodeId
+          ? `No journaled edits to revert for nodeId='${input.nodeId}'.`
+          : "No journaled edits to revert in this work item.",
+      };
+    }
+
+    // Group by file: restore the earliest before-image, require the latest after-image
+    const byFile = new Map<string, PatchJournalEntry[]>();
+    for (const entry of selected) {
+      const list = byFile.get(entry.absolutePath) ?? [];
+      list.push(entry);
+      byFile.set(entry.absolutePath, list);
+    }
+
+    const conflicts: PatchRevertConflict[] = [];
+    const plan: Array<{ entries: PatchJournalEntry[]; current: string; restore: string }> = [];
+    for (const [absolutePath, entries] of byFile) {
+      const latestActiveForFile = active.filter((entry) => entry.absolutePath === absolutePath).at(-1)!;
+      const latestSelected = entries[entries.length - 1];
+      const current = await readOptional(absolutePath);
+      const actualHash = current === null ? null : hashContent(current);
+      // A later active edit from another node sits on top of this one
+      if (latestActiveForFile.entryId !== latestSelected.entryId || actualHash !== latestSelected.afterHash) {
+        conflicts.push({ targetFile: latestSelected.targetFile, expectedHash: latestSelected.afterHash, actualHash });
+        continue;
+      }
+      plan.push({ entries, current: current ?? "", restore: await this.readBlob(entries[0].beforeHash) });
+    }
+
+    if (conflicts.length > 0) {
+      return {
+        ok: false,
+        rejectionCode: "EXEC_SIDE_EFFECT_COLLISION",
+        reason: `${conflicts.length} file(s) changed after the journaled edit (or carry a later edit from another node). Revert the later edit first or restore the files manually.`,
+        conflicts,
+      };
+    }
+
+    const written: Array<{ absolutePath: string; current: string }> = [];
+    try {
+      for (const item of plan) {
+        await writeText(item.entries[0].absolutePath, item.restore);
+        written.push({ absolutePath: item.entries[0].absolutePath, current: item.current });
+      }
+    } catch (error) {
+      for (const done of written.reverse()) {
+        await writeText(done.absolutePath, done.current).catch(() => undefined);
+      }
+      throw error;
+    }
+
+    const revertedEntryIds = selected.map((entry) => entry.entryId);
+    await appendJsonl(this.journalPath(), {
+      kind: "revert",
+      ts: new Date().toISOString(),
+      revertedEntryIds,
+      scope: input.nodeId ? "node" : "plan",
+      nodeId: input.nodeId,
+    } satisfies PatchJournalRevertEntry);
+
+    return {
+      ok: true,
+      revertedEntryIds,
+      revertedNodeIds: [...new Set(selected.map((entry) => entry.nodeId))],
+      restoredFiles: plan.map((item) => ({
+        targetFile: item.entries[0].targetFile,
+        absolutePath: item.entries[0].absolutePath,
+        restoredHash: item.entries[0].beforeHash,
+      })),
+    };
+  }
+
+  private journalPath(): string {
+    return path.join(this.root, "journal.jsonl");
+  }
+
+  private async storeBlob(content: string): Promise<string> {
+    const hash = hashContent(content);
+    await writeText(path.join(this.root, "blobs", hash), content);
+    return hash;
+  }
+
+  /** File image recorded under `hash` (a before or after image). */
+  async readBlob(hash: string): Promise<string> {
+    return readText(path.join(this.root, "blobs", hash));
+  }
+
+  private async readRows(): Promise<JournalRow[]> {
+    const raw = await readOptional(this.journalPath());
+    if (!raw) return [];
+    return raw
+      .split("\n")
+      .filter((line) => line.trim().length > 0)
+      .map((line) => JSON.parse(line) as JournalRow);
+  }
+}
+
+export function hashContent(content: string): string {
+  return createHash("sha256").update(content, "utf8").digest("hex");
+}
+
+async function readOptional(filePath: string): Promise<string | null> {
+  try {
+    return await readFile(filePath, "utf8");
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,135 @@
+import path from "node:path";
+import { existsSync } from "node:fs";
+import { Node, Project, SyntaxKind, ts, type Identifier, type SourceFile } from "ts-morph";
+import { normalizeSafePath } from "../../shared/fsPaths";
+
+export interface RenameSymbolFileEdit {
+  absolutePath: string;
+  before: string;
+  after: string;
+  replacements: number;
+}
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/**
+ * Project-wide symbol rename through the TypeScript language service.
+ *
+ * The declaration is resolved from `from` inside the plan node's target file,
+ * then every rename location (references, imports, re-exports) across the
+ * loaded project is rewritten. Nothing is written here — the caller scope-checks
+ * each returned file before committing the edits.
+ */
+export function planRenameSymbol(input: {
+  worktreeRoot: string;
+  safePath: string;
+  params: Record<string, unknown>;
+}): RenameSymbolFileEdit[] {
+  const from = requiredIdentifierParam(input.params, "from");
+  const to = requiredIdentifierParam(input.params, "to");
+  const root = path.resolve(input.worktreeRoot);
+
+  const project = loadProject(root, input.params.tsconfig);
+  const sourceFile = project.getSourceFile(input.safePath);
+  if (!sourceFile) {
+    // Outside the loaded program its importers are unknown, so a rename would silently miss them
+    throw new Error("PLAN_MISSING_REQUIRED_FIELDS");
+  }
+  const anchor = findRenameAnchor(sourceFile, from);
+  if (!anchor) {
+    return [];
+  }
+
+  const counts = new Map<string, number>();
+  const snapshots = new Map<string, string>();
+  for (const location of project.getLanguageService().findRenameLocations(anchor)) {
+    const file = location.getSourceFile();
+    const absolutePath = path.resolve(file.getFilePath());
+    if (!isInsideWorktree(root, absolutePath)) {
+      // A rename that reaches into node_modules or outside the worktree is never safe
+      throw new Error("PLAN_SCOPE_VIOLATION");
+    }
+    if (!snapshots.has(absolutePath)) {
+      snapshots.set(absolutePath, file.getFullText());
+    }
+    counts.set(absolutePath, (counts.get(absolutePath) ?? 0) + 1);
+  }
+
+  anchor.rename(to, { usePrefixAndSuffixText: false });
+
+  return [...snapshots.entries()].map(([absolutePath, before]) => ({
+    absolutePath,
+    before,
+    after: project.getSourceFileOrThrow(absolutePath).getFullText(),
+    replacements: counts.get(absolutePath) ?? 0,
+  }));
+}
+
+/**
+ * Load the worktree's tsconfig (or `params.tsconfig`) so importers are part of the
+ * program, following `references` so a solution-style root tsconfig (`files: []`,
+ * the Angular CLI default) loads its app and spec projects. Without a tsconfig
+ * every TS/JS file outside node_modules is added.
+ */
+function loadProject(root: string, tsconfigParam: unknown): Project {
+  const tsconfigRel = typeof tsconfigParam === "string" && tsconfigParam.trim().length > 0
+    ? tsconfigParam.trim()
+    : "tsconfig.json";
+  const tsconfigPath = normalizeSafePath(root, tsconfigRel);
+  if (existsSync(tsconfigPath)) {
+    const project = new Project({ tsConfigFilePath: tsconfigPath, skipFileDependencyResolution: true });
+    addReferencedProjects(project, tsconfigPath, new Set([path.resolve(tsconfigPath)]));
+    return project;
+  }
+  if (typeof tsconfigParam === "string" && tsconfigParam.trim().length > 0) {
+    // An explicitly named tsconfig that does not exist is a plan error, not a fallback
+    throw new Error("PLAN_MISSING_REQUIRED_FIELDS");
+  }
+  const project = new Project({ skipAddingFilesFromTsConfig: true, compilerOptions: { allowJs: true } });
+  const posixRoot = root.split(path.sep).join("/");
+  project.addSourceFilesAtPaths([
+    `${posixRoot}/**/*.{ts,tsx,mts,cts,js,mjs,cjs}`,
+    `!${posixRoot}/**/node_modules/**`,
+  ]);
+  return project;
+}
+
+function addReferencedProjects(project: Project, tsconfigPath: string, visited: Set<string>): void {
+  const config = ts.readConfigFile(tsconfigPath, ts.sys.readFile);
+  const parsed = ts.parseJsonConfigFileContent(config.config ?? {}, ts.sys, path.dirname(tsconfigPath));
+  for (const reference of parsed.projectReferences ?? []) {
+    const referencedPath = path.resolve(ts.resolveProjectReferencePath(reference));
+    if (visited.has(referencedPath) || !existsSync(referencedPath)) continue;
+    visited.add(referencedPath);
+    project.addSourceFilesFromTsConfig(referencedPath);
+    addReferencedProjects(project, referencedPath, visited);
+  }
+}
+
+/** Prefer the declaration name in the target file; fall back to any resolvable reference. */
+function findRenameAnchor(sourceFile: SourceFile, name: string): Identifier | undefined {
+  const candidates = sourceFile
+    .getDescendantsOfKind(SyntaxKind.Identifier)
+    .filter((identifier) => identifier.getText() === name);
+  const declarationName = candidates.find((identifier) => {
+    const parent = identifier.getParent();
+    return Node.hasName(parent) && parent.getNameNode() === identifier;
+  });
+  return declarationName ?? candidates.find((identifier) => (identifier.getSymbol()?.getDeclarations().length ?? 0) > 0);
+}
+
+function isInsideWorktree(root: string, absolutePath: string): boolean {
+  const relative = path.relative(root, absolutePath);
+  return relative.length > 0
+    && !relative.startsWith("..")
+    && !path.isAbsolute(relative)
+    && !relative.split(path.sep).includes("node_modules");
+}
+
+function requiredIdentifierParam(params: Record<string, unknown>, key: string): string {
+  const value = params[key];
+  if (typeof value !== "string" || !IDENTIFIER_PATTERN.test(value.trim())) {
+    throw new Error("PLAN_MISSING_REQUIRED_FIELDS");
+  }
+  return value.trim();
+}
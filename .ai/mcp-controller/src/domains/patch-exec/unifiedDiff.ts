@@ -0,0 +1,207 @@
+/**
+ * Minimal unified-diff parser/applier for single-file patches.
+ *
+ * Hunks are checked against the current file content (context + removed lines
+ * must match exactly). A hunk whose expected position has drifted is searched
+ * for nearby, like `patch` without fuzz. Application is all-or-nothing: if any
+ * hunk is rejected the caller gets the rejection list and no content.
+ *
+ * Lines are compared without their line ending, so a diff written with LF
+ * applies to a CRLF file. Untouched lines keep their own ending; added lines
+ * take the file's (CRLF when any line has one).
+ */
+
+export interface UnifiedDiffHunk {
+  /** 1-based index of the hunk within the diff */
+  index: number;
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  header: string;
+  lines: Array<{ op: " " | "-" | "+"; text: string }>;
+  /** Set when the hunk's new side ends with "\ No newline at end of file" */
+  newSideNoNewlineAtEof: boolean;
+}
+
+export interface ParsedUnifiedDiff {
+  oldFile: string | null;
+  newFile: string | null;
+  hunks: UnifiedDiffHunk[];
+}
+
+export interface RejectedHunk {
+  index: number;
+  header: string;
+  reason: string;
+}
+
+export type UnifiedDiffApplyResult =
+  | { ok: true; after: string; appliedHunks: number; offsets: number[] }
+  | { ok: false; rejectedHunks: RejectedHunk[] };
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/** How far (in lines) a hunk may have drifted from its declared position. */
+const MAX_HUNK_OFFSET = 200;
+
+export function parseUnifiedDiff(diff: string): ParsedUnifiedDiff {
+  const rows = diff.replace(/\r\n/g, "\n").split("\n");
+  const parsed: ParsedUnifiedDiff = { oldFile: null, newFile: null, hunks: [] };
+  let current: UnifiedDiffHunk | null = null;
+  let lastOp: " " | "-" | "+" | null = null;
+
+  for (const row of rows) {
+    if (row.startsWith("--- ") && (!current || hunkComplete(current))) {
+      if (parsed.hunks.length > 0 || parsed.oldFile !== null) {
+        throw new Error("PLAN_SCOPE_VIOLATION"); // multi-file diffs are not allowed
+      }
+      parsed.oldFile = stripDiffPathPrefix(row.slice(4));
+      current = null;
+      continue;
+    }
+    if (row.startsWith("+++ ") && (!current || hunkComplete(current))) {
+      parsed.newFile = stripDiffPathPrefix(row.slice(4));
+      current = null;
+      continue;
+    }
+    const header = HUNK_HEADER.exec(row);
+    if (header) {
+      current = {
+        index: parsed.hunks.length + 1,
+        oldStart: Number(header[1]),
+        oldLines: header[2] === undefined ? 1 : Number(header[2]),
+        newStart: Number(header[3]),
+        newLines: header[4] === undefined ? 1 : Number(header[4]),
+        header: row,
+        lines: [],
+        newSideNoNewlineAtEof: false,
+      };
+      parsed.hunks.push(current);
+      lastOp = null;
+      continue;
+    }
+    if (!current) {
+      // Preamble (diff --git, index, etc.) is ignored
+      continue;
+    }
+    if (row.startsWith("\\")) {
+      if (lastOp === "+" || lastOp === " ") current.newSideNoNewlineAtEof = true;
+      continue;
+    }
+    const op = row.charAt(0);
+    if (op === " " || op === "-" || op === "+") {
+      current.lines.push({ op, text: row.slice(1) });
+      lastOp = op;
+    } else if (row.length === 0 && !hunkComplete(current)) {
+      // Some tools strip the leading space from blank context lines
+      current.lines.push({ op: " ", text: "" });
+      lastOp = " ";
+    }
+  }
+
+  if (parsed.hunks.length === 0) {
+    throw new Error("PLAN_MISSING_REQUIRED_FIELDS");
+  }
+  for (const hunk of parsed.hunks) {
+    const oldCount = hunk.lines.filter((line) => line.op !== "+").length;
+    const newCount = hunk.lines.filter((line) => line.op !== "-").length;
+    if (oldCount !== hunk.oldLines || newCount !== hunk.newLines) {
+      throw new Error("PLAN_MISSING_REQUIRED_FIELDS");
+    }
+  }
+  return parsed;
+}
+
+export function applyUnifiedDiff(before: string, diff: ParsedUnifiedDiff): UnifiedDiffApplyResult {
+  const hadTrailingNewline = before.endsWith("\n");
+  const rawLines = before.split("\n");
+  if (hadTrailingNewline) rawLines.pop();
+  // Per-line `\r` flags run parallel to the bare lines; the last line's only counts when a newline follows it
+  const carriageReturns = rawLines.map((line, index) => line.endsWith("\r") && (hadTrailingNewline || index < rawLines.length - 1));
+  const lines = rawLines.map((line, index) => (carriageReturns[index] ? line.slice(0, -1) : line));
+  const fileUsesCrlf = carriageReturns.some(Boolean);
+
+  const rejectedHunks: RejectedHunk[] = [];
+  const offsets: number[] = [];
+  const placements: Array<{ hunk: UnifiedDiffHunk; at: number }> = [];
+  let minStart = 0;
+
+  for (const hunk of diff.hunks) {
+    const expected = hunk.lines.filter((line) => line.op !== "+").map((line) => line.text);
+    // Pure-insertion hunks use "-N,0", meaning "after line N"
+    const declared = hunk.oldLines === 0 ? hunk.oldStart : hunk.oldStart - 1;
+    const at = locateHunk(lines, expected, declared, minStart);
+    if (at < 0) {
+      rejectedHunks.push({ index: hunk.index, header: hunk.header, reason: "Context or removed lines do not match the current file." });
+      continue;
+    }
+    placements.push({ hunk, at });
+    offsets.push(at - declared);
+    minStart = at + expected.length;
+  }
+
+  if (rejectedHunks.length > 0) {
+    return { ok: false, rejectedHunks };
+  }
+
+  // Apply bottom-up so earlier placements stay valid
+  let trailingNewline = hadTrailingNewline;
+  for (const { hunk, at } of [...placements].reverse()) {
+    const removedCount = hunk.lines.filter((line) => line.op !== "+").length;
+    const replacement = hunk.lines.filter((line) => line.op !== "-").map((line) => line.text);
+    const touchesEof = at + removedCount === lines.length;
+    lines.splice(at, removedCount, ...replacement);
+    carriageReturns.splice(at, removedCount, ...replacement.map(() => fileUsesCrlf));
+    if (touchesEof) {
+      trailingNewline = !hunk.newSideNoNewlineAtEof && (hadTrailingNewline || replacement.length > 0);
+    }
+  }
+
+  const joined = lines.map((line, index) => {
+    const isLast = index === lines.length - 1;
+    if (isLast && !trailingNewline) return line;
+    return `${line}${carriageReturns[index] ? "\r\n" : "\n"}`;
+  }).join("");
+  return {
+    ok: true,
+    after: joined,
+    appliedHunks: placements.length,
+    offsets,
+  };
+}
+
+function locateHunk(lines: string[], expected: string[], declared: number, minStart: number): number {
+  if (matchesAt(lines, expected, declared) && declared >= minStart) {
+    return declared;
+  }
+  for (let delta = 1; delta <= MAX_HUNK_OFFSET; delta += 1) {
+    for (const candidate of [declared - delta, declared + delta]) {
+      if (candidate >= minStart && matchesAt(lines, expected, candidate)) {
+        return candidate;
+      }
+    }
+  }
+  return -1;
+}
+
+function matchesAt(lines: string[], expected: string[], at: number): boolean {
+  if (at < 0 || at + expected.length > lines.length) {
+    return false;
+  }
+  return expected.every((text, offset) => lines[at + offset] === text);
+}
+
+function hunkComplete(hunk: UnifiedDiffHunk): boolean {
+  const oldCount = hunk.lines.filter((line) => line.op !== "+").length;
+  const newCount = hunk.lines.filter((line) => line.op !== "-").length;
+  return oldCount >= hunk.oldLines && newCount >= hunk.newLines;
+}
+
+function stripDiffPathPrefix(value: string): string | null {
+  const pathPart = value.split("\t")[0].trim();
+  if (pathPart === "/dev/null") {
+    return null;
+  }
+  return pathPart.replace(/^[ab]\//, "");
+}
@@ -37,6 +37,50 @@ export interface MigrationRuleNode {
   fromTag: string;
   toTag: string;
   status: "approved" | "candidate" | "unknown" | "no_analog";
+  /** ADP attribute/input name → SDF prop name ("children" projects the value as content) */
+  propMappings?: Record<string, string>;
+  /** ADP output name → SDF event name */
+  eventMappings?: Record<string, string>;
+  /** SDF wrapper elements the migrated tag must sit inside */
+  requiredWrappers?: string[];
+  constraints?: string[];
+}
+
+const MIGRATION_RULE_STATUSES: ReadonlyArray<MigrationRuleNode["status"]> = ["approved", "candidate", "unknown", "no_analog"];
+
+/**
+ * Build a MigrationRuleNode from seed-row or graph-node properties. Maps may
+ * arrive as objects (seed JSONL) or as `propMappingsJson` / `eventMappingsJson`
+ * strings (graph nodes, which cannot hold maps). Returns undefined without an id or fromTag.
+ */
+export function migrationRuleFromProperties(properties: Record<string, unknown>): MigrationRuleNode | undefined {
+  const id = typeof properties.id === "string" ? properties.id : "";
+  const fromTag = typeof properties.fromTag === "string" ? properties.fromTag : "";
+  if (!id || !fromTag) return undefined;
+  const status = MIGRATION_RULE_STATUSES.find((candidate) => candidate === properties.status) ?? "unknown";
+  return {
+    id,
+    fromTag,
+    toTag: typeof properties.toTag === "string" ? properties.toTag : "",
+    status,
+    propMappings: stringMap(properties.propMappings ?? properties.propMappingsJson),
+    eventMappings: stringMap(properties.eventMappings ?? properties.eventMappingsJson),
+    requiredWrappers: stringList(properties.requiredWrappers),
+    constraints: stringList(properties.constraints),
+  };
+}
+
+function stringMap(value: unknown): Record<string, string> {
+  let parsed = value;
+  if (typeof value === "string") {
+    try { parsed = JSON.parse(value); } catch { return {}; }
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) return {};
+  return Object.fromEntries(Object.entries(parsed).filter((entry): entry is [string, string] => typeof entry[1] === "string"));
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : [];
 }
 
 /** The enforcement bundle passed to planGraphValidator */
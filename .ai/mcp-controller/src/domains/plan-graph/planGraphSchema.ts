@@ -0,0 +1,135 @@
+import type { JsonSchema } from "../../shared/jsonSchema";
+
+/**
+ * JSON Schema for PlanGraphDocument and its nodes. It checks shape only —
+ * presence and types of the fields initialize_work lists in
+ * planGraphSchema.requiredFields; evidence, atomicity and policy rules stay
+ * with planGraphValidator. Extra fields (targetTags, fewShotRefs, ...) are
+ * allowed.
+ */
+
+const stringList: JsonSchema = { type: "array", items: { type: "string" } };
+
+const atomicityBoundary: JsonSchema = {
+  type: "object",
+  required: ["inScopeAcceptanceCriteriaIds", "outOfScopeAcceptanceCriteriaIds", "inScopeModules", "outOfScopeModules"],
+  properties: {
+    inScopeAcceptanceCriteriaIds: stringList,
+    outOfScopeAcceptanceCriteriaIds: stringList,
+    inScopeModules: stringList,
+    outOfScopeModules: stringList,
+  },
+};
+
+const commonNodeFields = ["nodeId", "kind", "dependsOn", "atomicityBoundary", "expectedFailureSignatures"];
+
+function kindRule(kind: string, required: string[], properties: Record<string, JsonSchema>): JsonSchema {
+  return {
+    if: { properties: { kind: { const: kind } } },
+    then: { required, properties },
+  };
+}
+
+export const PLAN_NODE_JSON_SCHEMA: JsonSchema = {
+  type: "object",
+  description: "One plan node; the fields required depend on kind.",
+  required: commonNodeFields,
+  properties: {
+    nodeId: { type: "string", minLength: 1 },
+    kind: { enum: ["change", "validate", "escalate", "side_effect"] },
+    dependsOn: stringList,
+    atomicityBoundary,
+    expectedFailureSignatures: stringList,
+    correctionCandidateOnFail: { type: "boolean" },
+  },
+  allOf: [
+    kindRule("change", ["operation", "targetFile", "targetSymbols", "whyThisFile", "editIntent", "escalateIf", "citations", "codeEvidence", "artifactRefs", "policyRefs", "verificationHooks"], {
+      operation: { enum: ["create", "modify", "delete"] },
+      targetFile: { type: "string", minLength: 1 },
+      targetSymbols: stringList,
+      whyThisFile: { type: "string" },
+      editIntent: { type: "string" },
+      escalateIf: stringList,
+      citations: stringList,
+      codeEvidence: stringList,
+      artifactRefs: stringList,
+      policyRefs: stringList,
+      verificationHooks: stringList,
+      fewShotRefs: stringList,
+      recipeRefs: stringList,
+      lowEvidenceGuard: { type: "boolean" },
+      uncertaintyNote: { type: "string" },
+      requiresHumanReview: { type: "boolean" },
+    }),
+    kindRule("validate", ["verificationHooks", "mapsToNodeIds", "successCriteria"], {
+      verificationHooks: stringList,
+      mapsToNodeIds: stringList,
+      successCriteria: { type: "string" },
+    }),
+    kindRule("escalate", ["requestedEvidence", "blockingReasons"], {
+      requestedEvidence: {
+        type: "array",
+        items: {
+          type: "object",
+          required: ["type", "detail"],
+          properties: {
+            type: { enum: ["artifact_fetch", "graph_expand", "pack_rebuild", "scope_expand"] },
+            detail: { type: "string" },
+          },
+        },
+      },
+      blockingReasons: stringList,
+      proposedNextStrategyId: { type: "string" },
+    }),
+    kindRule("side_effect", ["sideEffectType", "sideEffectPayloadRef", "commitGateId"], {
+      sideEffectType: { type: "string", minLength: 1 },
+      sideEffectPayloadRef: { type: "string" },
+      commitGateId: { type: "string", minLength: 1 },
+    }),
+  ],
+};
+
+export const PLAN_GRAPH_JSON_SCHEMA: JsonSchema = {
+  type: "object",
+  description: "PlanGraphDocument: the envelope echoes the session and contextPack, nodes carry the work.",
+  required: [
+    "workId", "agentId", "runSessionId", "repoSnapshotId", "worktreeRoot", "contextPackRef", "contextPackHash",
+    "scopeAllowlistRef", "knowledgeStrategyId", "knowledgeStrategyReasons", "evidencePolicy", "planFingerprint",
+    "sourceTraceRefs", "schemaVersion", "nodes",
+  ],
+  properties: {
+    workId: { type: "string" },
+    agentId: { type: "string" },
+    runSessionId: { type: "string" },
+    repoSnapshotId: { type: "string" },
+    worktreeRoot: { type: "string" },
+    contextPackRef: { type: "string" },
+    contextPackHash: { type: "string" },
+    policyVersionSet: { type: "object", additionalProperties: { type: "string" } },
+    scopeAllowlistRef: { type: "string" },
+    knowledgeStrategyId: { type: "string" },
+    knowledgeStrategyReasons: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["reason", "evidenceRef"],
+        properties: { reason: { type: "string" }, evidenceRef: { type: "string" } },
+      },
+    },
+    evidencePolicy: {
+      type: "object",
+      properties: {
+        minRequirementSources: { type: "number" },
+        minCodeEvidenceSources: { type: "number" },
+        minPolicySources: { type: "number" },
+        allowSingleSourceWithGuard: { type: "boolean" },
+        lowEvidenceGuardRules: stringList,
+        distinctSourceDefinition: { type: "string" },
+      },
+    },
+    planFingerprint: { type: "string" },
+    sourceTraceRefs: stringList,
+    schemaVersion: { type: "string" },
+    nodes: { type: "array", items: PLAN_NODE_JSON_SCHEMA },
+  },
+};
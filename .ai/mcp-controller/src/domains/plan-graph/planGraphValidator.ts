@@ -2,6 +2,7 @@ import type { PlanGraphDocument, PlanNode, ChangePlanNode } from "../../contract
 import type { MemoryRecord } from "../../contracts/memoryRecord";
 import { validateChangeEvidencePolicy } from "../evidence-policy/evidencePolicyService";
 import { isSupportedAstCodemodId } from "../patch-exec/astCodemodCatalog";
+import { resolveVerificationHooks } from "../verification/verificationHookRegistry";
 import type { EnforcementBundle, EphemeralPlanRule } from "./enforcementBundle";
 import { checkMigrationRuleCoverage } from "./enforcementBundle";
 
@@ -29,17 +30,34 @@ export interface GraphPolicyResult {
   denyCode: string;
 }
 
+export interface ValidationOptions {
+  /**
+   * Plan amendments: node-level checks (fields, evidence, hooks, citations)
+   * run only for these nodes and the envelope is not re-checked. Graph
+   * integrity (ids, cycles, dependencies, validate coverage) and plan-level
+   * rules still cover the whole plan.
+   */
+  onlyNodeIds?: ReadonlySet<string>;
+}
+
 export function validatePlanGraph(
   plan: PlanGraphDocument,
   activeMemories?: MemoryRecord[],
   enforcementBundle?: EnforcementBundle,
+  options: ValidationOptions = {},
 ): ValidationResult {
   const rejectionCodes: string[] = [];
+  const inScope = (node: PlanNode): boolean => !options.onlyNodeIds || options.onlyNodeIds.has(node.nodeId);
+  const checkedNodes = plan.nodes.filter(inScope);
 
-  validateEnvelope(plan, rejectionCodes);
+  if (!options.onlyNodeIds) {
+    validateEnvelope(plan, rejectionCodes);
+  }
   const graphFacts = validateNodeGraph(plan.nodes, rejectionCodes);
-  validateStrategyReasons(plan, rejectionCodes);
-  validateNodes(plan.nodes, plan.evidencePolicy, graphFacts, rejectionCodes);
+  if (!options.onlyNodeIds) {
+    validateStrategyReasons(plan, rejectionCodes);
+  }
+  validateNodes(plan.nodes, plan.evidencePolicy, graphFacts, rejectionCodes, inScope);
 
   // Apply memory-carried plan rules [REF:MEMORY-PLAN-RULES]
   const memoryRuleResults = validateMemoryRules(plan, activeMemories ?? []);
@@ -60,10 +78,10 @@ export function validatePlanGraph(
   }
 
   // Phase 6: Validate attachment artifactRef coverage
-  validateAttachmentArtifactRefs(plan.nodes, rejectionCodes);
+  validateAttachmentArtifactRefs(checkedNodes, rejectionCodes);
 
   // Phase 7: Validate migration_rule_citation when strategy requires it
-  validateMigrationRuleCitations(plan, rejectionCodes);
+  validateMigrationRuleCitations({ ...plan, nodes: checkedNodes }, rejectionCodes);
 
   // Phase 7b: Enforcement-bundle-aware migration rule coverage (#29)
   // Verifies cited migration rules match Neo4j-sourced rules for adp-* tags
@@ -136,7 +154,8 @@ function validateNodes(
     changeNodeIds: Set<string>;
     validateNodeIds: Set<string>;
   },
-  rejectionCodes: string[]
+  rejectionCodes: string[],
+  inScope: (node: PlanNode) => boolean = () => true
 ): void {
   if (!nodes.length) {
     rejectionCodes.push("PLAN_MISSING_REQUIRED_FIELDS");
@@ -145,7 +164,8 @@ function validateNodes(
   const mappedChangeIds = new Set<string>();
 
   for (const node of nodes) {
-    if (!validateCommonNodeFields(node)) {
+    const checked = inScope(node);
+    if (checked && !validateCommonNodeFields(node)) {
       rejectionCodes.push("PLAN_MISSING_REQUIRED_FIELDS");
       continue;
     }
@@ -154,6 +174,22 @@ function validateNodes(
       rejectionCodes.push("PLAN_NOT_ATOMIC");
     }
 
+    // Nodes outside the checked subgraph passed before; only their links can have broken
+    if (!checked) {
+      if (node.kind === "validate") {
+        for (const targetId of node.mapsToNodeIds) {
+          if (graphFacts.changeNodeIds.has(targetId)) mappedChangeIds.add(targetId);
+          else rejectionCodes.push("PLAN_NOT_ATOMIC");
+        }
+      }
+      continue;
+    }
+
+    // `hook:<id>` must name a registered runner, otherwise it could never pass
+    if ((node.kind === "change" || node.kind === "validate") && resolveVerificationHooks(node.verificationHooks ?? []).unknown.length > 0) {
+      rejectionCodes.push("PLAN_VERIFICATION_WEAK");
+    }
+
     switch (node.kind) {
       case "change":
         validateChangeNode(node, evidencePolicy, rejectionCodes);
@@ -1,5 +1,5 @@
 /**
- * Proof Chain Builder — traverses Neo4j graph to construct:
+ * Proof Chain Builder — traverses the graph (Neo4j or the embedded store) to construct:
  *   1. ag-Grid UI origin chain [REF:CHAIN-AGGRID]
  *      Table → ColumnDef → CellRenderer → NavTrigger → Route → Component → Service → DTO
  *   2. Federation proof chain [REF:CHAIN-FEDERATION]
@@ -10,9 +10,10 @@
  * reported so the caller can escalate. [REF:ESCALATE-NO-GUESS]
  */
 
-import { Neo4jClient, type Neo4jConnectionConfig } from "../../infrastructure/neo4j/client";
+import { Neo4jClient, type GraphClient, type Neo4jConnectionConfig } from "../../infrastructure/neo4j/client";
+import { GraphOpsService, type GraphOpsConfig } from "../graph-ops/graphOpsService";
 import type { IndexingService } from "../indexing/indexingService";
-import type { GraphPolicyNode, MigrationRuleNode } from "../plan-graph/enforcementBundle";
+import { migrationRuleFromProperties, type GraphPolicyNode, type MigrationRuleNode } from "../plan-graph/enforcementBundle";
 
 /* ── Public types ─────────────────────────────────────────── */
 
@@ -44,6 +45,8 @@ export interface ProofChainResult {
 
 export interface ProofChainBuilderConfig {
   neo4j: Neo4jConnectionConfig;
+  /** Backend selection and embedded store; without it only a live Neo4j is queried */
+  graph?: Omit<GraphOpsConfig, "neo4j">;
 }
 
 /* ── ag-Grid chain spec (the expected node kinds in order) ── */
@@ -87,10 +90,9 @@ export class ProofChainBuilder {
     const chain: ChainLink[] = [];
     const missingLinks: string[] = [];
 
-    let client: Neo4jClient | null = null;
+    let client: GraphClient | null = null;
     try {
-      client = new Neo4jClient(this.config.neo4j);
-      await client.verifyConnectivity();
+      client = await this.connect();
 
       // 1. Find the ag-Grid table node
       const tables = await client.runRead<{ id: string; label: string; filePath: string }>(
@@ -207,10 +209,9 @@ export class ProofChainBuilder {
     const chain: ChainLink[] = [];
     const missingLinks: string[] = [];
 
-    let client: Neo4jClient | null = null;
+    let client: GraphClient | null = null;
     try {
-      client = new Neo4jClient(this.config.neo4j);
-      await client.verifyConnectivity();
+      client = await this.connect();
 
       // 1. Find the host route
       const hostRoutes = await client.runRead<{ id: string; label: string; filePath: string }>(
@@ -339,10 +340,21 @@ export class ProofChainBuilder {
     };
   }
 
+  /* ── Private: graph connection ──────────────────────────── */
+
+  private async connect(): Promise<GraphClient> {
+    if (!this.config.graph) {
+      const client = new Neo4jClient(this.config.neo4j);
+      await client.verifyConnectivity();
+      return client;
+    }
+    return new GraphOpsService({ neo4j: this.config.neo4j, ...this.config.graph }).connect();
+  }
+
   /* ── Private: resolve Route → Component → Service → Definition ── */
 
   private async resolveRouteChain(
-    client: Neo4jClient,
+    client: GraphClient,
     chain: ChainLink[],
     missingLinks: string[],
     notes: string[],
@@ -415,7 +427,7 @@ export class ProofChainBuilder {
   /* ── Private: federation fallback when host route is missing ─── */
 
   private async resolveFederationFallback(
-    client: Neo4jClient,
+    client: GraphClient,
     chain: ChainLink[],
     missingLinks: string[],
     notes: string[],
@@ -494,20 +506,19 @@ export class ProofChainBuilder {
   }
 
   /**
-   * Query Neo4j for graph-derived policy nodes and migration rules.
+   * Query the graph for graph-derived policy nodes and migration rules.
    * Returns empty arrays when the graph is unavailable (non-fatal).
    */
   async queryGraphPolicies(): Promise<{
     graphPolicies: GraphPolicyNode[];
     migrationRules: MigrationRuleNode[];
   }> {
-    let client: Neo4jClient | null = null;
+    let client: GraphClient | null = null;
     const graphPolicies: GraphPolicyNode[] = [];
     const migrationRules: MigrationRuleNode[] = [];
 
     try {
-      client = new Neo4jClient(this.config.neo4j);
-      await client.verifyConnectivity();
+      client = await this.connect();
 
       // Query UIIntent, ComponentIntent, MacroConstraint policy nodes
       const policyRecords = await client.runRead<{
@@ -544,25 +555,18 @@ export class ProofChainBuilder {
       }
 
       // Query MigrationRule nodes
-      const migrationRecords = await client.runRead<{
-        id: string; fromTag: string; toTag: string; status: string;
-      }>(
+      const migrationRecords = await client.runRead<{ properties: Record<string, unknown> }>(
         `MATCH (m:MigrationRule)
-         RETURN m.id AS id, m.fromTag AS fromTag, m.toTag AS toTag,
-                coalesce(m.status, 'unknown') AS status
+         RETURN properties(m) AS properties
          LIMIT 200`,
         {},
       );
       for (const r of migrationRecords) {
-        migrationRules.push({
-          id: r.id,
-          fromTag: r.fromTag,
-          toTag: r.toTag,
-          status: r.status as MigrationRuleNode["status"],
-        });
+        const rule = migrationRuleFromProperties(r.properties);
+        if (rule) migrationRules.push(rule);
       }
     } catch {
-      // Neo4j unavailable — return empty (non-fatal)
+      // Graph unavailable — return empty (non-fatal)
     } finally {
       if (client) {
         try { await client.close(); } catch { /* ignore */ }
@@ -1,7 +1,51 @@
+import { readFile } from "node:fs/promises";
+
+/**
+ * One step of a recipe. String fields may hold `{{param}}` placeholders; a
+ * field that is exactly one placeholder takes the param's value as-is
+ * (arrays, objects), and placeholders for absent params drop the field.
+ */
+export type RecipeStep =
+  | {
+      op: "patch";
+      /** Plan node the step runs under; defaults to the run's planNodeId */
+      nodeId?: string;
+      targetFile: string;
+      targetSymbols?: unknown;
+      operation?: "replace_text" | "unified_diff";
+      find?: string;
+      replace?: string;
+      diff?: string;
+    }
+  | {
+      op: "codemod";
+      nodeId?: string;
+      targetFile: string;
+      targetSymbols?: unknown;
+      codemodId: string;
+      codemodParams?: unknown;
+    }
+  | {
+      op: "validate";
+      nodeId?: string;
+      /** Command line exec'd in the process sandbox; must be one of the node's verification hooks */
+      command: string;
+      artifactOutputRef?: string;
+      timeoutMs?: number;
+    };
+
 export interface RecipeDefinition {
   id: string;
   description: string;
   requiredParams: string[];
+  steps: RecipeStep[];
+  /** "builtin" or the manifest line the recipe was loaded from */
+  source?: string;
+}
+
+export interface RecipeLoadResult {
+  registered: string[];
+  failures: Array<{ source: string; reason: string }>;
 }
 
 export interface RecipeUsageEvent {
@@ -16,16 +60,26 @@ export interface RecipeUsageEvent {
   failureSignature?: string;
 }
 
+const STEP_OPS = new Set(["patch", "codemod", "validate"]);
+
 const BUILTIN_RECIPES: RecipeDefinition[] = [
   {
     id: "replace_lexeme_in_file",
     description: "Replace a lexeme in a target file using structured patch rules.",
-    requiredParams: ["targetFile", "find", "replace"]
+    requiredParams: ["targetFile", "find", "replace"],
+    steps: [
+      { op: "patch", targetFile: "{{targetFile}}", targetSymbols: "{{targetSymbols}}", operation: "replace_text", find: "{{find}}", replace: "{{replace}}" }
+    ],
+    source: "builtin"
   },
   {
     id: "run_targeted_validation",
     description: "Run deterministic validation command and capture artifact output.",
-    requiredParams: ["command", "artifactOutputRef"]
+    requiredParams: ["command", "artifactOutputRef"],
+    steps: [
+      { op: "validate", nodeId: "{{nodeId}}", command: "{{command}}", artifactOutputRef: "{{artifactOutputRef}}" }
+    ],
+    source: "builtin"
   }
 ];
 
@@ -36,10 +90,14 @@ export class RecipeRegistry {
     return [...this.definitions.values()];
   }
 
+  get(recipeId: string): RecipeDefinition | undefined {
+    return this.definitions.get(recipeId);
+  }
+
   validate(recipeId: string, params: Record<string, unknown>): { ok: boolean; reason?: string } {
     const recipe = this.definitions.get(recipeId);
     if (!recipe) {
-      return { ok: false, reason: "Unknown recipeId." };
+      return { ok: false, reason: `Unknown recipeId. Available recipes: ${[...this.definitions.keys()].join(", ")}.` };
     }
     for (const key of recipe.requiredParams) {
       if (!(key in params)) {
@@ -48,6 +106,59 @@ export class RecipeRegistry {
     }
     return { ok: true };
   }
+
+  /**
+   * Add a recipe. Throws PLAN_POLICY_VIOLATION for ids that shadow a built-in
+   * and PLAN_MISSING_REQUIRED_FIELDS for recipes without valid steps.
+   */
+  register(definition: RecipeDefinition): RecipeDefinition {
+    if (!definition.id || !/^[a-z][a-z0-9_]*$/.test(definition.id)) {
+      throw new Error("PLAN_POLICY_VIOLATION");
+    }
+    if (this.definitions.get(definition.id)?.source === "builtin") {
+      throw new Error("PLAN_POLICY_VIOLATION");
+    }
+    if (definition.steps.length === 0 || definition.steps.some((step) => !isValidStep(step))) {
+      throw new Error("PLAN_MISSING_REQUIRED_FIELDS");
+    }
+    this.definitions.set(definition.id, definition);
+    return definition;
+  }
+
+  /**
+   * Register the Recipe rows of a seed manifest (config.recipes.manifestPath).
+   * `steps` is a JSON-encoded string so the row stays a Neo4j-legal seed;
+   * rows without steps only describe a built-in and are skipped. A missing
+   * manifest loads nothing.
+   */
+  async loadManifest(manifestPath: string): Promise<RecipeLoadResult> {
+    const outcome: RecipeLoadResult = { registered: [], failures: [] };
+    let raw = "";
+    try {
+      raw = await readFile(manifestPath, "utf8");
+    } catch {
+      return outcome;
+    }
+    raw.split("\n").forEach((line, index) => {
+      if (line.trim().length === 0) return;
+      const source = `${manifestPath}:${index + 1}`;
+      try {
+        const row = JSON.parse(line) as { kind?: string; labels?: string[]; properties?: Record<string, unknown> };
+        if (row.kind !== "node" || !row.labels?.includes("Recipe")) return;
+        const props = row.properties ?? {};
+        if (props.steps === undefined && this.definitions.get(recipeIdFromRow(props))?.source === "builtin") return;
+        outcome.registered.push(this.register(toDefinition(props, source)).id);
+      } catch (error) {
+        outcome.failures.push({ source, reason: error instanceof Error ? error.message : String(error) });
+      }
+    });
+    return outcome;
+  }
+}
+
+/** The recipe's steps with `{{param}}` placeholders filled from `params`. */
+export function expandRecipeSteps(recipe: RecipeDefinition, params: Record<string, unknown>): RecipeStep[] {
+  return recipe.steps.map((step) => fillStep(step, params) as RecipeStep);
 }
 
 export function buildRecipeUsageEvent(input: RecipeUsageEvent): RecipeUsageEvent {
@@ -63,3 +174,49 @@ export function buildRecipeUsageEvent(input: RecipeUsageEvent): RecipeUsageEvent
     failureSignature: input.failureSignature
   };
 }
+
+function recipeIdFromRow(props: Record<string, unknown>): string {
+  return String(props.name ?? props.id ?? "").replace(/^recipe:/, "");
+}
+
+function toDefinition(props: Record<string, unknown>, source: string): RecipeDefinition {
+  const steps = typeof props.steps === "string" ? JSON.parse(props.steps) : props.steps;
+  const requiredParams = props.requiredParams ?? [];
+  if (!Array.isArray(steps) || !Array.isArray(requiredParams)) {
+    throw new Error("PLAN_MISSING_REQUIRED_FIELDS");
+  }
+  return {
+    id: recipeIdFromRow(props),
+    description: String(props.description ?? ""),
+    requiredParams: requiredParams.map(String),
+    steps: steps as RecipeStep[],
+    source
+  };
+}
+
+function isValidStep(step: RecipeStep): boolean {
+  if (!step || typeof step !== "object" || !STEP_OPS.has(step.op)) return false;
+  if (step.op === "validate") return typeof step.command === "string" && step.command.length > 0;
+  if (typeof step.targetFile !== "string" || step.targetFile.length === 0) return false;
+  return step.op !== "codemod" || (typeof step.codemodId === "string" && step.codemodId.length > 0);
+}
+
+function fillStep(value: unknown, params: Record<string, unknown>): unknown {
+  if (typeof value === "string") {
+    const whole = /^\{\{(\w+)\}\}$/.exec(value);
+    if (whole) return params[whole[1]];
+    return value.replace(/\{\{(\w+)\}\}/g, (_, key: string) => (params[key] === undefined ? "" : String(params[key])));
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => fillStep(item, params));
+  }
+  if (value && typeof value === "object") {
+    const filled: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      const next = fillStep(item, params);
+      if (next !== undefined) filled[key] = next;
+    }
+    return filled;
+  }
+  return value;
+}
@@ -0,0 +1,291 @@
+import path from "node:path";
+import type { ChangePlanNode, ValidatePlanNode } from "../../contracts/planGraph";
+import type { JiraCommentConnector } from "../connectors/connectorRegistry";
+import type { IndexingService } from "../indexing/indexingService";
+import { generateFactSeedFiles } from "../graph-ops/seedFactsFromIndex";
+import { loadOpenApiSpecs } from "../indexing/openApiParser";
+import { PatchJournal } from "../patch-exec/patchJournal";
+import type { CommitSeriesEntry, WorkWorktree, WorktreeManager } from "../../infrastructure/git/worktreeManager";
+import { writeText } from "../../shared/fileStore";
+import { normalizeSafePath, resolveTargetRepoRoot, workRoot } from "../../shared/fsPaths";
+import type { SideEffectContext, SideEffectDriver } from "./sideEffectRegistry";
+
+export interface BuiltinDriverDeps {
+  worktrees: WorktreeManager | null;
+  jira: JiraCommentConnector | null;
+  indexing: IndexingService | null;
+  /** Absolute graph seed root (config.graph.seedRoot) */
+  seedRoot: string;
+  /** OpenAPI spec files/directories (config.swagger.roots), relative to the target repo */
+  swaggerRoots?: string[];
+}
+
+const ISSUE_KEY_PATTERN = /^[A-Z][A-Z0-9_]+-\d+$/;
+const SEED_FACT_FILES = ["anchors.jsonl", "symbols.jsonl", "components.jsonl", "routes.jsonl", "directives.jsonl", "api.jsonl", "edges.jsonl"];
+
+/**
+ * The side effects the controller can perform behind a commit gate. Git
+ * drivers only ever act on the work item's isolated checkout (its refs are
+ * shared with the target repository in git_worktree mode).
+ */
+export function createBuiltinSideEffectDrivers(deps: BuiltinDriverDeps): SideEffectDriver[] {
+  const checkout = (context: SideEffectContext, type: string): { worktree: WorkWorktree; worktrees: WorktreeManager } => {
+    if (!context.worktree || !deps.worktrees) {
+      throw new Error(`PLAN_SCOPE_VIOLATION: sideEffectType='${type}' acts on the work item's isolated worktree, but this session has none (repo.isolation is 'none' or initialize_work could not create it). Nothing was changed.`);
+    }
+    return { worktree: context.worktree, worktrees: deps.worktrees };
+  };
+
+  const finalize: SideEffectDriver = {
+    type: "finalize",
+    description: "Commit the isolated worktree to its branch, one commit per change node, and return the diff for review.",
+    async preview(context) {
+      const { worktree, worktrees } = checkout(context, "finalize");
+      const series = await buildCommitSeries(context, worktree);
+      return {
+        summary: `Commit ${series.length} change node(s) and any remaining edits to ${worktree.branch}.`,
+        detail: {
+          branch: worktree.branch,
+          baseRef: worktree.baseRef,
+          commits: series.map((entry) => ({ subject: entry.message.split("\n")[0], files: entry.files.map((file) => file.relativePath) })),
+          pendingFiles: await worktrees.pendingChanges(worktree),
+        },
+      };
+    },
+    async execute(context) {
+      const { worktree, worktrees } = checkout(context, "finalize");
+      const remainderMessage = optionalString(context.payload, "message") ?? `${context.workId}: changes made outside apply_code_patch`;
+      const outcome = await worktrees.finalize(worktree, await buildCommitSeries(context, worktree), remainderMessage);
+      return {
+        summary: `Committed ${outcome.commits.length} commit(s) to ${outcome.branch}.`,
+        detail: { branch: outcome.branch, baseRef: outcome.baseRef, headRef: outcome.headRef, commits: outcome.commits, diffStat: outcome.diffStat },
+        artifacts: [{ key: "diffRef", fileName: "finalize.diff", content: outcome.diff }],
+      };
+    },
+  };
+
+  const gitCommit: SideEffectDriver = {
+    type: "git_commit",
+    description: "Commit the worktree's pending changes (payload: message, paths?) to the work branch.",
+    async preview(context) {
+      const { worktree, worktrees } = checkout(context, "git_commit");
+      const message = requiredString(context.payload, "message", "git_commit");
+      const paths = stringList(context.payload.paths);
+      const files = (await worktrees.pendingChanges(worktree))
+        .filter((file) => paths.length === 0 || paths.some((prefix) => file === prefix || file.startsWith(`${prefix.replace(/\/$/, "")}/`)));
+      return { summary: `Commit ${files.length} file(s) to ${worktree.branch}.`, detail: { branch: worktree.branch, message, files } };
+    },
+    async execute(context) {
+      const { worktree, worktrees } = checkout(context, "git_commit");
+      const paths = stringList(context.payload.paths);
+      for (const item of paths) {
+        try {
+          normalizeSafePath(worktree.root, item);
+        } catch {
+          throw new Error(`PLAN_SCOPE_VIOLATION: git_commit path '${item}' is outside the worktree.`);
+        }
+      }
+      const commit = await worktrees.commit(worktree, requiredString(context.payload, "message", "git_commit"), paths);
+      if (!commit) {
+        throw new Error(`EXEC_SIDE_EFFECT_FAILED: nothing to commit in ${worktree.root}.`);
+      }
+      return { summary: `Committed ${commit.sha.slice(0, 12)} to ${worktree.branch}.`, detail: { branch: worktree.branch, ...commit } };
+    },
+  };
+
+  const refDriver = (kind: "branch" | "tag"): SideEffectDriver => {
+    const type = `git_${kind}`;
+    const plan = async (context: SideEffectContext) => {
+      const { worktree, worktrees } = checkout(context, type);
+      const name = requiredString(context.payload, "name", type);
+      const ref = optionalString(context.payload, "ref") ?? "HEAD";
+      const message = kind === "tag" ? optionalString(context.payload, "message") : undefined;
+      const sha = await worktrees.resolveRef(worktree, ref);
+      if (!sha) {
+        throw new Error(`EXEC_SIDE_EFFECT_FAILED: ref '${ref}' does not resolve to a commit in the worktree.`);
+      }
+      if (!(await worktrees.isNewRefName(worktree, kind, name))) {
+        throw new Error(`PLAN_POLICY_VIOLATION: '${name}' is not a legal ${kind} name or the ${kind} already exists. Existing refs are never moved.`);
+      }
+      return { worktree, worktrees, name, ref, sha, message };
+    };
+    return {
+      type,
+      description: kind === "branch"
+        ? "Create a branch (payload: name, ref?) at a worktree commit; never moves an existing branch."
+        : "Create a tag (payload: name, ref?, message? for an annotated tag) at a worktree commit; never moves an existing tag.",
+      async preview(context) {
+        const { name, ref, sha, message } = await plan(context);
+        return { summary: `Create ${kind} '${name}' at ${sha.slice(0, 12)}.`, detail: { kind, name, ref, sha, annotated: Boolean(message) } };
+      },
+      async execute(context) {
+        const { worktree, worktrees, name, sha, message } = await plan(context);
+        const created = await worktrees.createRef(worktree, { kind, name, ref: sha, message });
+        return { summary: `Created ${kind} '${name}' at ${created.slice(0, 12)}.`, detail: { kind, name, sha: created, annotated: Boolean(message) } };
+      },
+    };
+  };
+
+  const prDescription: SideEffectDriver = {
+    type: "pr_description",
+    description: "Write a pull request description built from the plan (payload: title?, body?, path? under the work directory).",
+    async preview(context) {
+      const { file, title, content } = renderPrDescription(context);
+      return { summary: `Write PR description '${title}' to ${file}.`, detail: { path: file, title, content } };
+    },
+    async execute(context) {
+      const { file, title, content } = renderPrDescription(context);
+      await writeText(file, content);
+      return {
+        summary: `Wrote PR description '${title}' to ${file}.`,
+        detail: { path: file, title, bytes: Buffer.byteLength(content, "utf8") },
+        artifacts: [{ key: "descriptionRef", fileName: "pr-description.md", content }],
+      };
+    },
+  };
+
+  const jiraComment: SideEffectDriver = {
+    type: "jira_comment",
+    description: "Post a comment (payload: issueKey, body) on a Jira issue through the connector.",
+    async preview(context) {
+      const { issueKey, body } = jiraCommentInput(context);
+      return { summary: `Post a ${body.length}-character comment on ${issueKey}.`, detail: { issueKey, body } };
+    },
+    async execute(context) {
+      const { issueKey, body } = jiraCommentInput(context);
+      if (!deps.jira) {
+        throw new Error("EXEC_SIDE_EFFECT_FAILED: no Jira connector is configured for this controller.");
+      }
+      const receipt = await deps.jira.postJiraComment(issueKey, body);
+      return { summary: `Comment ${receipt.mode === "placeholder" ? "recorded (placeholder, jira.baseUrl is empty)" : "posted"} on ${issueKey}.`, detail: { ...receipt } };
+    },
+  };
+
+  const regenerateSeeds: SideEffectDriver = {
+    type: "regenerate_graph_seeds",
+    description: "Rewrite the fact seed JSONL files under graph.seedRoot from the current index.",
+    async preview() {
+      const indexing = requireIndexing();
+      return {
+        summary: `Rewrite ${SEED_FACT_FILES.length} fact seed files under ${path.join(deps.seedRoot, "fact")}.`,
+        detail: {
+          seedRoot: deps.seedRoot,
+          files: SEED_FACT_FILES.map((name) => path.join(deps.seedRoot, "fact", name)),
+          symbols: indexing.getSymbolHeaders(2000).length,
+          templateUsages: indexing.getTemplateUsageFacts(5000).length,
+          routes: indexing.getParsedRoutes().length,
+          httpCalls: indexing.getHttpClientCalls().length,
+          swaggerRoots: deps.swaggerRoots ?? [],
+        },
+      };
+    },
+    async execute() {
+      const indexing = requireIndexing();
+      const targetRoot = resolveTargetRepoRoot();
+      const apiSpecs = await loadOpenApiSpecs(targetRoot, deps.swaggerRoots ?? []);
+      const result = await generateFactSeedFiles(
+        targetRoot, deps.seedRoot, indexing.getSymbolHeaders(2000), indexing.getTemplateUsageFacts(5000),
+        indexing.getParsedRoutes(), indexing.getTemplateRouterLinks(2000), indexing.getRouterOutletFiles(),
+        indexing.getDirectiveUsages(), indexing.getResolvedGuards(), indexing.getResolvedDirectives(),
+        apiSpecs.specs, indexing.getHttpClientCalls(),
+      );
+      return {
+        summary: `Rewrote ${result.files.length} fact seed files; run graphops:sync to load them.`,
+        detail: { ...result, apiSpecFailures: apiSpecs.failures },
+      };
+    },
+  };
+
+  const requireIndexing = (): IndexingService => {
+    if (!deps.indexing) {
+      throw new Error("EXEC_SIDE_EFFECT_FAILED: regenerate_graph_seeds needs the indexing service, which this controller was started without.");
+    }
+    return deps.indexing;
+  };
+
+  return [finalize, gitCommit, refDriver("branch"), refDriver("tag"), prDescription, jiraComment, regenerateSeeds];
+}
+
+/**
+ * One commit per change node, in the order the nodes were first patched.
+ * Each commit carries the node's last journaled image of every file it
+ * touched, so the series replays the work node by node even when several
+ * nodes edited the same file.
+ */
+async function buildCommitSeries(context: SideEffectContext, worktree: WorkWorktree): Promise<CommitSeriesEntry[]> {
+  const root = path.resolve(worktree.root);
+  const journal = new PatchJournal(context.workId);
+  const byNode = new Map<string, Map<string, string>>();
+  for (const entry of await journal.activeEntries()) {
+    const relativePath = path.relative(root, entry.absolutePath);
+    if (relativePath.startsWith("..") || path.isAbsolute(relativePath)) continue;
+    const files = byNode.get(entry.nodeId) ?? new Map<string, string>();
+    files.set(relativePath.split(path.sep).join("/"), entry.afterHash);
+    byNode.set(entry.nodeId, files);
+  }
+
+  const series: CommitSeriesEntry[] = [];
+  for (const [nodeId, files] of byNode) {
+    const node = changeNodes(context).find((candidate) => candidate.nodeId === nodeId);
+    const subject = node?.editIntent?.trim().split("\n")[0] || `${nodeId}: update ${[...files.keys()].join(", ")}`;
+    series.push({
+      message: `${subject}\n\nPlan node: ${nodeId}\nWork item: ${context.workId}\n`,
+      files: await Promise.all([...files].map(async ([relativePath, hash]) => ({ relativePath, content: await journal.readBlob(hash) }))),
+    });
+  }
+  return series;
+}
+
+function renderPrDescription(context: SideEffectContext): { file: string; title: string; content: string } {
+  const changes = changeNodes(context);
+  const validations = (context.planGraph.nodes ?? []).filter((node): node is ValidatePlanNode => node.kind === "validate");
+  const title = optionalString(context.payload, "title") ?? changes[0]?.editIntent?.trim().split("\n")[0] ?? context.workId;
+  let file: string;
+  try {
+    file = normalizeSafePath(workRoot(context.workId), optionalString(context.payload, "path") ?? "pr-description.md");
+  } catch {
+    throw new Error("PLAN_SCOPE_VIOLATION: pr_description payload.path must stay inside the work directory.");
+  }
+
+  const lines = [`# ${title}`, ""];
+  const body = optionalString(context.payload, "body");
+  if (body) lines.push(body, "");
+  lines.push("## Changes", "");
+  lines.push(...(changes.length > 0 ? changes.map((node) => `- ${node.editIntent} — \`${node.targetFile}\` (${node.nodeId})`) : ["- No change nodes in the plan."]), "");
+  if (validations.length > 0) {
+    lines.push("## Validation", "");
+    lines.push(...validations.map((node) => `- ${node.successCriteria} (${node.verificationHooks.join(", ") || "no hooks"})`), "");
+  }
+  lines.push(`Work item: ${context.workId}`);
+  if (context.worktree) lines.push(`Branch: \`${context.worktree.branch}\` from ${context.worktree.baseRef.slice(0, 12)}`);
+  return { file, title, content: `${lines.join("\n")}\n` };
+}
+
+function jiraCommentInput(context: SideEffectContext): { issueKey: string; body: string } {
+  const issueKey = requiredString(context.payload, "issueKey", "jira_comment");
+  if (!ISSUE_KEY_PATTERN.test(issueKey)) {
+    throw new Error(`PLAN_POLICY_VIOLATION: '${issueKey}' is not a Jira issue key (e.g. ORD-42).`);
+  }
+  return { issueKey, body: requiredString(context.payload, "body", "jira_comment") };
+}
+
+function changeNodes(context: SideEffectContext): ChangePlanNode[] {
+  return (context.planGraph.nodes ?? []).filter((node): node is ChangePlanNode => node.kind === "change");
+}
+
+function requiredString(payload: Record<string, unknown>, key: string, type: string): string {
+  const value = optionalString(payload, key);
+  if (!value) {
+    throw new Error(`PLAN_MISSING_REQUIRED_FIELDS: ${type} payload needs a non-empty '${key}'.`);
+  }
+  return value;
+}
+
+function optionalString(payload: Record<string, unknown>, key: string): string | undefined {
+  const value = payload[key];
+  return typeof value === "string" && value.trim().length > 0 ? value : undefined;
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === "string" && item.length > 0) : [];
+}
@@ -0,0 +1,167 @@
+import path from "node:path";
+import { createHash } from "node:crypto";
+import type { PlanGraphDocument } from "../../contracts/planGraph";
+import type { WorkWorktree } from "../../infrastructure/git/worktreeManager";
+import { readText, writeText } from "../../shared/fileStore";
+import { normalizeSafePath, scratchRoot, workRoot } from "../../shared/fsPaths";
+
+/** What a driver sees of the session: the approved plan, the isolated checkout and the node's payload. */
+export interface SideEffectContext {
+  workId: string;
+  runSessionId: string;
+  nodeId: string;
+  planGraph: PlanGraphDocument;
+  worktree: WorkWorktree | null;
+  payload: Record<string, unknown>;
+}
+
+export interface SideEffectPreview {
+  summary: string;
+  detail: Record<string, unknown>;
+}
+
+export interface SideEffectOutcome {
+  summary: string;
+  detail: Record<string, unknown>;
+  /** Files written into the artifact bundle; `key` names the ref added to the outcome detail */
+  artifacts?: Array<{ key: string; fileName: string; content: string }>;
+}
+
+/**
+ * One kind of external action behind `execute_gated_side_effect`. `preview`
+ * must not change anything (it backs `dryRun: true`); `execute` performs the
+ * action. Both report refusals by throwing `Error("<DENY_CODE>: <reason>")`.
+ */
+export interface SideEffectDriver {
+  type: string;
+  description: string;
+  preview(context: SideEffectContext): Promise<SideEffectPreview>;
+  execute(context: SideEffectContext): Promise<SideEffectOutcome>;
+}
+
+/** Ledger row for an executed side effect; a repeat with the same key replays it. */
+export interface SideEffectRecord {
+  idempotencyKey: string;
+  sideEffectType: string;
+  nodeId: string;
+  runSessionId: string;
+  executedAt: string;
+  artifactBundleRef: string;
+  summary: string;
+  outcome: Record<string, unknown>;
+}
+
+export class SideEffectDriverRegistry {
+  private readonly drivers = new Map<string, SideEffectDriver>();
+
+  constructor(drivers: SideEffectDriver[] = []) {
+    for (const driver of drivers) this.register(driver);
+  }
+
+  list(): SideEffectDriver[] {
+    return [...this.drivers.values()];
+  }
+
+  get(type: string): SideEffectDriver | undefined {
+    return this.drivers.get(type);
+  }
+
+  /** Throws PLAN_POLICY_VIOLATION when `type` already has a driver. */
+  register(driver: SideEffectDriver): SideEffectDriver {
+    if (this.drivers.has(driver.type)) {
+      throw new Error("PLAN_POLICY_VIOLATION");
+    }
+    this.drivers.set(driver.type, driver);
+    return driver;
+  }
+}
+
+/** Executed side effects of one work item, one JSON file per idempotency key. */
+export class SideEffectLedger {
+  private readonly root: string;
+
+  constructor(workId: string) {
+    this.root = path.join(workRoot(workId), "side-effects");
+  }
+
+  async read(idempotencyKey: string): Promise<SideEffectRecord | null> {
+    try {
+      return JSON.parse(await readText(this.recordPath(idempotencyKey))) as SideEffectRecord;
+    } catch {
+      return null;
+    }
+  }
+
+  async record(entry: SideEffectRecord): Promise<void> {
+    await writeText(this.recordPath(entry.idempotencyKey), `${JSON.stringify(entry, null, 2)}\n`);
+  }
+
+  private recordPath(idempotencyKey: string): string {
+    return path.join(this.root, `${idempotencyKey.replace(/[^A-Za-z0-9._-]/g, "_")}.json`);
+  }
+}
+
+/** Same work item, node, type and payload → same key, so a retried call cannot act twice. */
+export function sideEffectIdempotencyKey(input: { workId: string; nodeId: string; sideEffectType: string; payload: Record<string, unknown> }): string {
+  const digest = createHash("sha256")
+    .update(stableJson([input.workId, input.nodeId, input.sideEffectType, input.payload]))
+    .digest("hex");
+  return `se_${digest.slice(0, 32)}`;
+}
+
+/** A `sideEffectPayloadRef` with this prefix lets the call supply the payload inline */
+export const INLINE_PAYLOAD_REF_PREFIX = "inline:";
+
+/**
+ * The node's payload: `sideEffectPayloadRef` names a JSON file in the work
+ * item's scratch directory (written with write_scratch_file before the plan
+ * was submitted, so the gate approves its content). The call's inline
+ * `payload` is used only when the approved ref says so (`inline:<label>`);
+ * a ref that does not resolve is denied with PLAN_MISSING_REQUIRED_FIELDS.
+ */
+export async function loadSideEffectPayload(
+  workId: string,
+  payloadRef: string,
+  inline: unknown
+): Promise<{ payload: Record<string, unknown>; source: string }> {
+  if (payloadRef.startsWith(INLINE_PAYLOAD_REF_PREFIX)) {
+    if (!isPlainObject(inline)) {
+      throw new Error(`PLAN_MISSING_REQUIRED_FIELDS: sideEffectPayloadRef '${payloadRef}' takes its payload from args.payload, which must be a JSON object.`);
+    }
+    return { payload: inline, source: "args.payload" };
+  }
+  const scratch = await readScratchPayload(workId, payloadRef);
+  if (!scratch) {
+    throw new Error(`PLAN_MISSING_REQUIRED_FIELDS: sideEffectPayloadRef '${payloadRef}' is not a JSON object file in the work item's scratch directory. Write it with write_scratch_file, or plan the node with '${INLINE_PAYLOAD_REF_PREFIX}<label>' to pass args.payload.`);
+  }
+  return scratch;
+}
+
+async function readScratchPayload(workId: string, payloadRef: string): Promise<{ payload: Record<string, unknown>; source: string } | null> {
+  try {
+    const file = normalizeSafePath(scratchRoot(workId), payloadRef.replace(/^scratch:/, ""));
+    const parsed = JSON.parse(await readText(file)) as unknown;
+    return isPlainObject(parsed) ? { payload: parsed, source: file } : null;
+  } catch {
+    return null;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+/** Split a driver error into its deny code and reason; untagged errors are EXEC_SIDE_EFFECT_FAILED. */
+export function sideEffectDenial(error: unknown): { code: string; reason: string } {
+  const message = error instanceof Error ? error.message : String(error);
+  const tagged = /^((?:PLAN|EXEC)_[A-Z_]+):\s*(.*)$/s.exec(message);
+  return tagged ? { code: tagged[1], reason: tagged[2] } : { code: "EXEC_SIDE_EFFECT_FAILED", reason: message };
+}
+
+function stableJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value).sort().map((key) => `${JSON.stringify(key)}:${stableJson((value as Record<string, unknown>)[key])}`).join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
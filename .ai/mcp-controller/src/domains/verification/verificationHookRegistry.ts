@@ -0,0 +1,443 @@
+import path from "node:path";
+import { existsSync } from "node:fs";
+import { readdir, readFile } from "node:fs/promises";
+import { createRequire } from "node:module";
+import { Project, ts } from "ts-morph";
+import { extractInlineTemplates, parseAngularTemplate, parseAngularTemplateUsage } from "../indexing/astTooling";
+import {
+  checkTemplateBindings,
+  isLikelyComponentContractFile,
+  parseComponentContracts,
+  parseContractBases,
+  resolveContractInheritance,
+  type AngularComponentContract,
+  type ComponentContractBase,
+} from "../indexing/componentContractParser";
+import { loadGitignoreFilter } from "../../shared/gitignoreFilter";
+
+export type VerificationHookId = "typecheck" | "template_parse" | "lint" | "unit_test_discovery" | "component_contracts";
+
+/** Input for one hook run: the worktree and the files the mapped change nodes touched. */
+export interface VerificationHookContext {
+  worktreeRoot: string;
+  /** Worktree-relative paths, forward slashes */
+  changedFiles: string[];
+}
+
+export interface VerificationDiagnostic {
+  file: string;
+  line?: number;
+  message: string;
+}
+
+export interface VerificationHookOutcome {
+  /** The hook string as written in the plan node */
+  hook: string;
+  hookId: string;
+  ok: boolean;
+  summary: string;
+  diagnostics: VerificationDiagnostic[];
+  /** Hook-specific extras, e.g. discovered spec files */
+  details?: Record<string, unknown>;
+}
+
+export interface VerificationHookRunner {
+  id: string;
+  title: string;
+  description: string;
+  run(context: VerificationHookContext): Promise<Omit<VerificationHookOutcome, "hook" | "hookId">>;
+}
+
+/** Plan nodes reference registered hooks as `hook:<id>`; anything else is a command line. */
+export const VERIFICATION_HOOK_PREFIX = "hook:";
+
+/** Cap on diagnostics returned per hook so results stay readable. */
+const MAX_DIAGNOSTICS = 50;
+
+const TS_FILE = /\.(ts|tsx|mts|cts)$/;
+const SPEC_FILE = /\.(spec|test)\.(ts|tsx|js|mjs|cjs)$/;
+
+/* ── Built-in runners ─────────────────────────────────────── */
+
+const typecheckRunner: VerificationHookRunner = {
+  id: "typecheck",
+  title: "TypeScript Type-Check",
+  description: "Type-checks the changed TS files against the worktree tsconfig (noEmit). Only diagnostics located in the changed files fail the hook.",
+  async run(context) {
+    const files = context.changedFiles.filter((file) => TS_FILE.test(file) && !file.endsWith(".d.ts"));
+    if (files.length === 0) {
+      return { ok: true, summary: "No TypeScript files changed.", diagnostics: [] };
+    }
+    const root = path.resolve(context.worktreeRoot);
+    const absoluteFiles = files.map((file) => path.join(root, file));
+    const options = loadCompilerOptions(root);
+    const program = ts.createProgram(absoluteFiles, { ...options, noEmit: true });
+    const changed = new Set(absoluteFiles.map((file) => path.normalize(file)));
+    const diagnostics: VerificationDiagnostic[] = [];
+    for (const diagnostic of ts.getPreEmitDiagnostics(program)) {
+      if (diagnostic.category !== ts.DiagnosticCategory.Error || !diagnostic.file) continue;
+      if (!changed.has(path.normalize(diagnostic.file.fileName))) continue;
+      const position = diagnostic.start !== undefined
+        ? diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start)
+        : undefined;
+      diagnostics.push({
+        file: toRelative(root, diagnostic.file.fileName),
+        line: position ? position.line + 1 : undefined,
+        message: `TS${diagnostic.code}: ${ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n")}`,
+      });
+    }
+    return {
+      ok: diagnostics.length === 0,
+      summary: diagnostics.length === 0
+        ? `Type-checked ${files.length} file(s) without errors.`
+        : `${diagnostics.length} type error(s) in ${files.length} changed file(s).`,
+      diagnostics: diagnostics.slice(0, MAX_DIAGNOSTICS),
+    };
+  },
+};
+
+const templateParseRunner: VerificationHookRunner = {
+  id: "template_parse",
+  title: "Angular Template Parse",
+  description: "Parses changed .html templates and inline component templates with the Angular compiler.",
+  async run(context) {
+    const root = path.resolve(context.worktreeRoot);
+    const diagnostics: VerificationDiagnostic[] = [];
+    let parsed = 0;
+    for (const file of context.changedFiles) {
+      const isHtml = file.endsWith(".html");
+      if (!isHtml && !TS_FILE.test(file)) continue;
+      const content = await readOptional(path.join(root, file));
+      if (content === null) continue;
+      const templates = isHtml ? [content] : extractInlineTemplates(content);
+      for (const template of templates) {
+        parsed += 1;
+        for (const error of parseAngularTemplate(template).errors) {
+          diagnostics.push({ file, message: error });
+        }
+      }
+    }
+    return {
+      ok: diagnostics.length === 0,
+      summary: parsed === 0
+        ? "No templates changed."
+        : diagnostics.length === 0
+          ? `Parsed ${parsed} template(s) without errors.`
+          : `${diagnostics.length} template parse error(s).`,
+      diagnostics: diagnostics.slice(0, MAX_DIAGNOSTICS),
+    };
+  },
+};
+
+const lintRunner: VerificationHookRunner = {
+  id: "lint",
+  title: "ESLint",
+  description: "Lints the changed TS/JS files with the ESLint installed in the worktree and its own config. Fails when ESLint is not installed there.",
+  async run(context) {
+    const root = path.resolve(context.worktreeRoot);
+    const files = context.changedFiles.filter((file) => /\.(ts|tsx|js|jsx|mjs|cjs)$/.test(file));
+    if (files.length === 0) {
+      return { ok: true, summary: "No lintable files changed.", diagnostics: [] };
+    }
+    let eslintModule: { ESLint?: new (options: { cwd: string }) => EslintInstance };
+    try {
+      eslintModule = createRequire(path.join(root, "package.json"))("eslint");
+    } catch {
+      return {
+        ok: false,
+        summary: "ESLint is not installed in the worktree; remove hook:lint or install eslint.",
+        diagnostics: [],
+      };
+    }
+    if (!eslintModule.ESLint) {
+      return { ok: false, summary: "Installed eslint package does not expose the ESLint API.", diagnostics: [] };
+    }
+    const eslint = new eslintModule.ESLint({ cwd: root });
+    const results = await eslint.lintFiles(files);
+    const diagnostics: VerificationDiagnostic[] = [];
+    for (const fileResult of results) {
+      for (const message of fileResult.messages) {
+        if (message.severity < 2) continue;
+        diagnostics.push({
+          file: toRelative(root, fileResult.filePath),
+          line: message.line,
+          message: message.ruleId ? `${message.ruleId}: ${message.message}` : message.message,
+        });
+      }
+    }
+    return {
+      ok: diagnostics.length === 0,
+      summary: diagnostics.length === 0
+        ? `Linted ${files.length} file(s) without errors.`
+        : `${diagnostics.length} lint error(s).`,
+      diagnostics: diagnostics.slice(0, MAX_DIAGNOSTICS),
+    };
+  },
+};
+
+const unitTestDiscoveryRunner: VerificationHookRunner = {
+  id: "unit_test_discovery",
+  title: "Unit Test Discovery",
+  description: "Finds the spec files covering each changed source file (sibling <name>.spec/test file, or a spec that imports it). Fails when a changed source file has none.",
+  async run(context) {
+    const root = path.resolve(context.worktreeRoot);
+    const sources = context.changedFiles.filter((file) => TS_FILE.test(file) && !SPEC_FILE.test(file) && !file.endsWith(".d.ts"));
+    if (sources.length === 0) {
+      return { ok: true, summary: "No changed source files need specs.", diagnostics: [] };
+    }
+    const specFiles = await listWorktreeFiles(root, SPEC_FILE);
+    const specContents = new Map<string, string>();
+    const coverage: Record<string, string[]> = {};
+    const diagnostics: VerificationDiagnostic[] = [];
+    for (const source of sources) {
+      const stem = source.replace(TS_FILE, "");
+      const moduleName = path.posix.basename(stem);
+      const found: string[] = [];
+      for (const spec of specFiles) {
+        if (spec.replace(SPEC_FILE, "") === stem) {
+          found.push(spec);
+          continue;
+        }
+        let content = specContents.get(spec);
+        if (content === undefined) {
+          content = (await readOptional(path.join(root, spec))) ?? "";
+          specContents.set(spec, content);
+        }
+        if (importsModule(content, path.posix.dirname(spec), stem, moduleName)) found.push(spec);
+      }
+      coverage[source] = found;
+      if (found.length === 0) {
+        diagnostics.push({ file: source, message: "No spec file found for this changed source file." });
+      }
+    }
+    return {
+      ok: diagnostics.length === 0,
+      summary: diagnostics.length === 0
+        ? `Found specs for all ${sources.length} changed source file(s).`
+        : `${diagnostics.length} of ${sources.length} changed source file(s) have no spec.`,
+      diagnostics: diagnostics.slice(0, MAX_DIAGNOSTICS),
+      details: { specFiles: coverage },
+    };
+  },
+};
+
+const componentContractsRunner: VerificationHookRunner = {
+  id: "component_contracts",
+  title: "Angular Component Contracts",
+  description: "Checks the bindings on in-repo component tags against the components' @Input/@Output contracts (including bindings inherited from in-repo base classes and host directives), in changed templates and in every template using a component whose file changed. Unknown inputs or outputs and unbound required inputs fail the hook; unknown bindings on a component whose base class or host directive is outside the repo are warnings.",
+  async run(context) {
+    const root = path.resolve(context.worktreeRoot);
+    const files = await listWorktreeFiles(root, /\.(ts|html)$/);
+    const project = new Project({ useInMemoryFileSystem: true, skipAddingFilesFromTsConfig: true });
+    const parsed: AngularComponentContract[] = [];
+    const bases: ComponentContractBase[] = [];
+    for (const file of files) {
+      if (!file.endsWith(".ts") || file.endsWith(".d.ts") || SPEC_FILE.test(file)) continue;
+      const content = await readOptional(path.join(root, file));
+      if (content === null || !isLikelyComponentContractFile(content)) continue;
+      const sourceFile = project.createSourceFile(path.join(root, file), content, { overwrite: true });
+      parsed.push(...parseComponentContracts(sourceFile));
+      bases.push(...parseContractBases(sourceFile));
+    }
+    const contracts = resolveContractInheritance(parsed, bases);
+
+    // Changed templates, plus templates using a component whose contract may have changed
+    const changed = new Set(context.changedFiles);
+    const changedTags = contracts
+      .filter((contract) => contract.kind === "component" && changed.has(toRelative(root, contract.filePath)))
+      .map((contract) => `<${contract.tag}`);
+    const diagnostics: VerificationDiagnostic[] = [];
+    const warnings: VerificationDiagnostic[] = [];
+    const checked: string[] = [];
+    for (const file of files) {
+      const content = await readOptional(path.join(root, file));
+      if (content === null) continue;
+      if (!changed.has(file) && !changedTags.some((tag) => content.includes(tag))) continue;
+      const isHtml = file.endsWith(".html");
+      const templates = isHtml ? [content] : extractInlineTemplates(content);
+      if (templates.length === 0) continue;
+      checked.push(file);
+      for (const template of templates) {
+        for (const issue of checkTemplateBindings(contracts, parseAngularTemplateUsage(template, file))) {
+          (issue.severity === "warning" ? warnings : diagnostics).push({
+            file,
+            // Inline template lines are relative to the template, not the file
+            line: isHtml ? issue.line + 1 : undefined,
+            message: issue.kind === "missing_required"
+              ? `<${issue.tag}> does not bind required input '${issue.name}' of ${issue.contract}.`
+              : `${issue.kind === "unknown_input" ? `[${issue.name}]` : `(${issue.name})`} is not an ${issue.kind === "unknown_input" ? "input" : "output"} of <${issue.tag}> (${issue.contract})` +
+                (issue.severity === "warning" ? "; it may be inherited from a base class or host directive outside the repo." : "."),
+          });
+        }
+      }
+    }
+    const warned = warnings.length > 0 ? ` ${warnings.length} unknown binding(s) on components with heritage outside the repo are warnings.` : "";
+    return {
+      ok: diagnostics.length === 0,
+      summary: checked.length === 0
+        ? "No templates to check against component contracts."
+        : (diagnostics.length === 0
+          ? `Checked ${checked.length} template file(s) against ${contracts.length} component contract(s) without binding issues.`
+          : `${diagnostics.length} binding issue(s) in ${checked.length} template file(s).`) + warned,
+      diagnostics: diagnostics.slice(0, MAX_DIAGNOSTICS),
+      details: { templateFiles: checked, contracts: contracts.length, warnings: warnings.slice(0, MAX_DIAGNOSTICS) },
+    };
+  },
+};
+
+const BUILTIN_HOOKS: VerificationHookRunner[] = [
+  typecheckRunner,
+  templateParseRunner,
+  lintRunner,
+  unitTestDiscoveryRunner,
+  componentContractsRunner,
+];
+
+/* ── Registry ─────────────────────────────────────────────── */
+
+const customHooks = new Map<string, VerificationHookRunner>();
+
+/**
+ * Register an additional hook runner. Built-in ids cannot be replaced so a
+ * plan's `hook:typecheck` always means the same check.
+ */
+export function registerVerificationHook(runner: VerificationHookRunner): void {
+  if (BUILTIN_HOOKS.some((item) => item.id === runner.id)) {
+    throw new Error("PLAN_POLICY_VIOLATION");
+  }
+  customHooks.set(runner.id, runner);
+}
+
+export function clearVerificationHooks(): void {
+  customHooks.clear();
+}
+
+export function listVerificationHooks(): Array<Pick<VerificationHookRunner, "id" | "title" | "description">> {
+  return [...BUILTIN_HOOKS, ...customHooks.values()].map(({ id, title, description }) => ({ id, title, description }));
+}
+
+/**
+ * Split a plan node's `verificationHooks` into registered runners
+ * (`hook:<id>`) and command lines. Unknown `hook:` ids are reported so the
+ * caller can reject them instead of silently passing.
+ */
+export function resolveVerificationHooks(hooks: string[]): {
+  runners: Array<{ hook: string; runner: VerificationHookRunner }>;
+  commands: string[];
+  unknown: string[];
+} {
+  const runners: Array<{ hook: string; runner: VerificationHookRunner }> = [];
+  const commands: string[] = [];
+  const unknown: string[] = [];
+  for (const hook of hooks) {
+    const trimmed = hook.trim();
+    if (!trimmed.startsWith(VERIFICATION_HOOK_PREFIX)) {
+      commands.push(trimmed);
+      continue;
+    }
+    const id = trimmed.slice(VERIFICATION_HOOK_PREFIX.length).trim();
+    const runner = BUILTIN_HOOKS.find((item) => item.id === id) ?? customHooks.get(id);
+    if (runner) runners.push({ hook: trimmed, runner });
+    else unknown.push(trimmed);
+  }
+  return { runners, commands, unknown };
+}
+
+/**
+ * Run the registered hooks among `hooks` against the changed files.
+ * A runner that throws counts as a failed hook, never as a pass.
+ */
+export async function runVerificationHooks(
+  hooks: string[],
+  context: VerificationHookContext
+): Promise<VerificationHookOutcome[]> {
+  const { runners, unknown } = resolveVerificationHooks(hooks);
+  const outcomes: VerificationHookOutcome[] = unknown.map((hook) => ({
+    hook,
+    hookId: hook.slice(VERIFICATION_HOOK_PREFIX.length),
+    ok: false,
+    summary: `Unknown verification hook. Registered hooks: ${listVerificationHooks().map((item) => item.id).join(", ")}.`,
+    diagnostics: [],
+  }));
+  for (const { hook, runner } of runners) {
+    try {
+      outcomes.push({ hook, hookId: runner.id, ...(await runner.run(context)) });
+    } catch (error) {
+      outcomes.push({
+        hook,
+        hookId: runner.id,
+        ok: false,
+        summary: `Hook runner failed: ${error instanceof Error ? error.message : String(error)}`,
+        diagnostics: [],
+      });
+    }
+  }
+  return outcomes;
+}
+
+/* ── Helpers ──────────────────────────────────────────────── */
+
+interface EslintInstance {
+  lintFiles(patterns: string[]): Promise<Array<{
+    filePath: string;
+    messages: Array<{ ruleId: string | null; severity: number; message: string; line?: number }>;
+  }>>;
+}
+
+function loadCompilerOptions(root: string): ts.CompilerOptions {
+  const configPath = ts.findConfigFile(root, ts.sys.fileExists, "tsconfig.json");
+  if (!configPath || !path.resolve(configPath).startsWith(root)) {
+    return { strict: true, target: ts.ScriptTarget.ES2022, module: ts.ModuleKind.CommonJS, skipLibCheck: true };
+  }
+  const config = ts.readConfigFile(configPath, ts.sys.readFile);
+  const parsed = ts.parseJsonConfigFileContent(config.config ?? {}, ts.sys, path.dirname(configPath));
+  return { ...parsed.options, skipLibCheck: true };
+}
+
+/** Worktree-relative files whose name matches `pattern`, skipping gitignored paths. */
+async function listWorktreeFiles(root: string, pattern: RegExp): Promise<string[]> {
+  const filter = loadGitignoreFilter(root);
+  const found: string[] = [];
+  const queue = [""];
+  while (queue.length > 0) {
+    const current = queue.shift() as string;
+    let entries;
+    try {
+      entries = await readdir(path.join(root, current), { withFileTypes: true });
+    } catch {
+      continue;
+    }
+    for (const entry of entries) {
+      const relative = current ? `${current}/${entry.name}` : entry.name;
+      if (filter.isIgnored(relative)) continue;
+      if (entry.isDirectory()) queue.push(relative);
+      else if (entry.isFile() && pattern.test(entry.name)) found.push(relative);
+    }
+  }
+  return found.sort();
+}
+
+function importsModule(specSource: string, specDir: string, stem: string, moduleName: string): boolean {
+  if (!specSource.includes(moduleName)) return false;
+  const importPattern = /(?:from\s+|import\s*\(\s*|require\s*\(\s*)["']([^"']+)["']/g;
+  for (const match of specSource.matchAll(importPattern)) {
+    const specifier = match[1];
+    if (!specifier.startsWith(".")) continue;
+    const resolved = path.posix.normalize(path.posix.join(specDir, specifier)).replace(/\.(js|ts)$/, "");
+    if (resolved === stem || resolved === `${stem}/index`) return true;
+  }
+  return false;
+}
+
+function toRelative(root: string, filePath: string): string {
+  return path.relative(root, filePath).split(path.sep).join("/");
+}
+
+async function readOptional(filePath: string): Promise<string | null> {
+  if (!existsSync(filePath)) return null;
+  try {
+    return await readFile(filePath, "utf8");
+  } catch {
+    return null;
+  }
+}
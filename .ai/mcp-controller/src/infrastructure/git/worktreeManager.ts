@@ -0,0 +1,336 @@
+import path from "node:path";
+import { spawn } from "node:child_process";
+import { constants as fsConstants, existsSync } from "node:fs";
+import { copyFile, lstat, mkdir, readdir, readlink, symlink } from "node:fs/promises";
+import type { GatewayConfig } from "../../config/types";
+import { readText, writeText } from "../../shared/fileStore";
+import { resolveTargetRepoRoot, workRoot, worktreeCheckoutRoot } from "../../shared/fsPaths";
+
+/** The isolated checkout a work item reads, patches and runs sandboxed code in. */
+export interface WorkWorktree {
+  workId: string;
+  /** Absolute checkout root; plans must keep worktreeRoot inside it */
+  root: string;
+  branch: string;
+  /** Commit the branch started from; finalize diffs against it */
+  baseRef: string;
+  /** git_worktree: linked worktree of the target repo; copy: standalone clone with its own repository */
+  mode: "git_worktree" | "copy";
+  /** Why a configured git_worktree became a copy (not a git repository, or `git worktree add` failed) */
+  fallbackReason?: string;
+  sourceRoot: string;
+  createdAt: string;
+}
+
+/** One commit of the finalize series: whole-file images staged without touching the checkout. */
+export interface CommitSeriesEntry {
+  message: string;
+  files: Array<{ relativePath: string; content: string }>;
+}
+
+export interface FinalizeOutcome {
+  branch: string;
+  baseRef: string;
+  headRef: string;
+  commits: Array<{ sha: string; subject: string; files: string[] }>;
+  diff: string;
+  diffStat: string;
+}
+
+const COPY_EXCLUDES = new Set([".git", "node_modules", "dist", ".angular"]);
+const FALLBACK_IDENTITY = { name: "MCP Controller", email: "mcp-controller@localhost" };
+
+/**
+ * Creates one isolated checkout per workId under `.ai/tmp/work/<workId>/repo`
+ * so agent patches never land in the live repository. The checkout is a
+ * `git worktree` on a per-work branch when the target is a git repository
+ * (mode "copy", a non-git target, or a failing `git worktree add` falls back
+ * to a copy-on-write clone with a baseline commit). Either way the target's installed `node_modules` is
+ * linked into the checkout rather than copied. `worktree.json` next to the
+ * checkout lets restarts and the dashboard find it again.
+ */
+export class WorktreeManager {
+  constructor(private readonly config: GatewayConfig["repo"]) {}
+
+  get enabled(): boolean {
+    return this.config.isolation !== "none";
+  }
+
+  /** Create the work item's checkout, or return the one already recorded. */
+  async provision(input: { workId: string; ticketKey?: string; sourceRoot?: string }): Promise<WorkWorktree | null> {
+    if (!this.enabled) return null;
+    const existing = await readWorktreeRecord(input.workId);
+    if (existing && existsSync(existing.root)) return existing;
+
+    const sourceRoot = path.resolve(input.sourceRoot ?? resolveTargetRepoRoot());
+    const checkout = worktreeCheckoutRoot(input.workId);
+    let root = checkout;
+    let useGit = this.config.isolation === "git_worktree" && await isGitRepository(sourceRoot);
+    const branch = await this.uniqueBranchName(useGit ? sourceRoot : null, input.ticketKey ?? input.workId, input.workId);
+
+    let baseRef = "";
+    let fallbackReason = this.config.isolation === "git_worktree" && !useGit ? `${sourceRoot} is not a git repository` : undefined;
+    if (useGit) {
+      try {
+        baseRef = (await runGit(sourceRoot, ["rev-parse", "HEAD"])).trim();
+        await runGit(sourceRoot, ["worktree", "add", "-q", "-b", branch, checkout, baseRef]);
+        // A target nested inside a larger repository maps to the same subdirectory of the checkout
+        root = path.resolve(checkout, (await runGit(sourceRoot, ["rev-parse", "--show-prefix"])).trim());
+      } catch (error) {
+        // e.g. no commit yet, or the branch is checked out elsewhere: a copy still isolates the work
+        fallbackReason = error instanceof Error ? error.message : String(error);
+        useGit = false;
+      }
+    }
+    if (!useGit) {
+      await copyTree(sourceRoot, sourceRoot, root);
+      await runGit(root, ["init", "-q", "-b", branch]);
+      await runGit(root, ["add", "-A"]);
+      await runGit(root, ["commit", "-q", "--allow-empty", "-m", `Baseline copy of ${sourceRoot}`], { env: await commitEnv(root) });
+      baseRef = (await runGit(root, ["rev-parse", "HEAD"])).trim();
+    }
+    await linkDependencies(sourceRoot, root);
+
+    const record: WorkWorktree = {
+      workId: input.workId,
+      root,
+      branch,
+      baseRef,
+      mode: useGit ? "git_worktree" : "copy",
+      ...(fallbackReason ? { fallbackReason } : {}),
+      sourceRoot,
+      createdAt: new Date().toISOString(),
+    };
+    await writeText(worktreeRecordPath(input.workId), `${JSON.stringify(record, null, 2)}\n`);
+    return record;
+  }
+
+  /**
+   * Commit `series` in order, then anything else left in the checkout as a
+   * final commit, and return the branch's diff against its base for review.
+   */
+  async finalize(worktree: WorkWorktree, series: CommitSeriesEntry[], remainderMessage: string): Promise<FinalizeOutcome> {
+    const env = await commitEnv(worktree.root);
+    const commits: FinalizeOutcome["commits"] = [];
+    for (const entry of series) {
+      for (const file of entry.files) {
+        const blob = (await runGit(worktree.root, ["hash-object", "-w", "--stdin"], { input: file.content })).trim();
+        const mode = await indexMode(worktree.root, file.relativePath);
+        await runGit(worktree.root, ["update-index", "--add", "--cacheinfo", `${mode},${blob},${file.relativePath}`]);
+      }
+      const commit = await commitStaged(worktree.root, entry.message, env);
+      if (commit) commits.push(commit);
+    }
+
+    await runGit(worktree.root, ["add", "-A"]);
+    const remainder = await commitStaged(worktree.root, remainderMessage, env);
+    if (remainder) commits.push(remainder);
+
+    const headRef = (await runGit(worktree.root, ["rev-parse", "HEAD"])).trim();
+    return {
+      branch: worktree.branch,
+      baseRef: worktree.baseRef,
+      headRef,
+      commits,
+      diff: await runGit(worktree.root, ["diff", `${worktree.baseRef}..${headRef}`]),
+      diffStat: (await runGit(worktree.root, ["diff", "--stat", `${worktree.baseRef}..${headRef}`])).trim(),
+    };
+  }
+
+  /** Paths with uncommitted changes in the checkout (staged, unstaged or untracked). */
+  async pendingChanges(worktree: WorkWorktree): Promise<string[]> {
+    // --short (unlike --porcelain) honours relativePaths, so nested targets get checkout-relative paths
+    const status = await runGit(worktree.root, ["-c", "status.relativePaths=true", "-c", "color.status=false", "status", "--short", "--untracked-files=all", "--", "."]);
+    return status.split("\n").filter(Boolean).map((line) => line.slice(3).replace(/^.* -> /, ""));
+  }
+
+  /** Paths that differ from the base commit, whether committed on the work branch or still pending. */
+  async changedFiles(worktree: WorkWorktree): Promise<string[]> {
+    const committed = await runGit(worktree.root, ["diff", "--name-only", "--relative", `${worktree.baseRef}..HEAD`]);
+    return [...new Set([...committed.split("\n").filter(Boolean), ...await this.pendingChanges(worktree)])];
+  }
+
+  /** Commit the checkout's changes (limited to `paths` when given); null when there is nothing to commit. */
+  async commit(worktree: WorkWorktree, message: string, paths: string[] = []): Promise<{ sha: string; subject: string; files: string[] } | null> {
+    await runGit(worktree.root, ["add", "-A", "--", ...(paths.length > 0 ? paths : ["."])]);
+    return commitStaged(worktree.root, message, await commitEnv(worktree.root));
+  }
+
+  /** Full sha of `ref` in the checkout, or null when it does not resolve. */
+  async resolveRef(worktree: WorkWorktree, ref: string): Promise<string | null> {
+    try {
+      return (await runGit(worktree.root, ["rev-parse", "--verify", "--quiet", `${ref}^{commit}`])).trim();
+    } catch {
+      return null;
+    }
+  }
+
+  /** True when `name` is a legal, not yet existing branch or tag name. */
+  async isNewRefName(worktree: WorkWorktree, kind: "branch" | "tag", name: string): Promise<boolean> {
+    const fullName = kind === "branch" ? `refs/heads/${name}` : `refs/tags/${name}`;
+    try {
+      await runGit(worktree.root, ["check-ref-format", fullName]);
+    } catch {
+      return false;
+    }
+    return (await this.resolveRef(worktree, fullName)) === null;
+  }
+
+  /** Create a branch or tag at `ref`; a tag with a message is annotated. */
+  async createRef(worktree: WorkWorktree, input: { kind: "branch" | "tag"; name: string; ref: string; message?: string }): Promise<string> {
+    if (input.kind === "branch") {
+      await runGit(worktree.root, ["branch", input.name, input.ref]);
+    } else if (input.message) {
+      await runGit(worktree.root, ["tag", "-a", input.name, "-F", "-", input.ref], { input: input.message, env: await commitEnv(worktree.root) });
+    } else {
+      await runGit(worktree.root, ["tag", input.name, input.ref]);
+    }
+    return (await runGit(worktree.root, ["rev-parse", `${input.name}^{commit}`])).trim();
+  }
+
+  private async uniqueBranchName(repoRoot: string | null, label: string, workId: string): Promise<string> {
+    const slug = label.toLowerCase().replace(/[^a-z0-9._-]+/g, "-").replace(/^[-.]+|[-.]+$/g, "").slice(0, 60) || "work";
+    const branch = `${this.config.branchPrefix}${slug}`;
+    if (!repoRoot || !(await branchExists(repoRoot, branch))) return branch;
+    // A branch for this ticket already exists (an earlier work item); keep it and fork a new one
+    return `${branch}-${workId.toLowerCase().replace(/[^a-z0-9]+/g, "").slice(-8)}`;
+  }
+}
+
+export function worktreeRecordPath(workId: string): string {
+  return path.join(workRoot(workId), "worktree.json");
+}
+
+export async function readWorktreeRecord(workId: string): Promise<WorkWorktree | null> {
+  try {
+    return JSON.parse(await readText(worktreeRecordPath(workId))) as WorkWorktree;
+  } catch {
+    return null;
+  }
+}
+
+async function commitStaged(
+  cwd: string,
+  message: string,
+  env: NodeJS.ProcessEnv
+): Promise<{ sha: string; subject: string; files: string[] } | null> {
+  const files = (await runGit(cwd, ["diff", "--cached", "--name-only"])).split("\n").filter(Boolean);
+  if (files.length === 0) return null;
+  await runGit(cwd, ["commit", "-q", "-F", "-"], { input: message, env });
+  return {
+    sha: (await runGit(cwd, ["rev-parse", "HEAD"])).trim(),
+    subject: message.split("\n")[0],
+    files,
+  };
+}
+
+async function indexMode(cwd: string, relativePath: string): Promise<string> {
+  const staged = (await runGit(cwd, ["ls-files", "-s", "--", relativePath])).trim();
+  return staged ? staged.split(/\s+/)[0] : "100644";
+}
+
+async function isGitRepository(root: string): Promise<boolean> {
+  try {
+    return (await runGit(root, ["rev-parse", "--is-inside-work-tree"])).trim() === "true";
+  } catch {
+    return false;
+  }
+}
+
+async function branchExists(root: string, branch: string): Promise<boolean> {
+  try {
+    await runGit(root, ["rev-parse", "--verify", "--quiet", `refs/heads/${branch}`]);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** The checkout's configured identity, or a controller identity when git has none. */
+async function commitEnv(cwd: string): Promise<NodeJS.ProcessEnv> {
+  try {
+    if ((await runGit(cwd, ["config", "user.email"])).trim()) return process.env;
+  } catch {
+    // No identity configured
+  }
+  return {
+    ...process.env,
+    GIT_AUTHOR_NAME: FALLBACK_IDENTITY.name,
+    GIT_AUTHOR_EMAIL: FALLBACK_IDENTITY.email,
+    GIT_COMMITTER_NAME: FALLBACK_IDENTITY.name,
+    GIT_COMMITTER_EMAIL: FALLBACK_IDENTITY.email,
+  };
+}
+
+/**
+ * Copy the target repo file by file, cloning extents where the filesystem
+ * supports it. fs.cp refuses here because the checkout sits inside the
+ * source tree (under .ai/tmp), which the exclusions skip.
+ */
+async function copyTree(sourceRoot: string, from: string, to: string): Promise<void> {
+  await mkdir(to, { recursive: true });
+  for (const entry of await readdir(from, { withFileTypes: true })) {
+    const source = path.join(from, entry.name);
+    if (isExcludedFromCopy(sourceRoot, source)) continue;
+    const target = path.join(to, entry.name);
+    if (entry.isDirectory()) {
+      await copyTree(sourceRoot, source, target);
+    } else if (entry.isSymbolicLink()) {
+      await symlink(await readlink(source), target);
+    } else if (entry.isFile()) {
+      await copyFile(source, target, fsConstants.COPYFILE_FICLONE);
+    }
+  }
+}
+
+/**
+ * Link the target's installed dependencies into the checkout (a junction on
+ * Windows) so hooks and sandboxed runs resolve packages without an install.
+ * The link is listed in the repository's info/exclude: a `node_modules/`
+ * gitignore entry only matches directories, and finalize must not stage it.
+ */
+async function linkDependencies(sourceRoot: string, root: string): Promise<void> {
+  const installed = path.join(sourceRoot, "node_modules");
+  const link = path.join(root, "node_modules");
+  if (!existsSync(installed) || await lstat(link).then(() => true, () => false)) return;
+  await symlink(installed, link, process.platform === "win32" ? "junction" : "dir");
+  const excludeFile = path.resolve(root, (await runGit(root, ["rev-parse", "--git-path", "info/exclude"])).trim());
+  const current = existsSync(excludeFile) ? await readText(excludeFile) : "";
+  if (!current.split(/\r?\n/).includes("node_modules")) {
+    await writeText(excludeFile, `${current}${current && !current.endsWith("\n") ? "\n" : ""}node_modules\n`);
+  }
+}
+
+function isExcludedFromCopy(sourceRoot: string, source: string): boolean {
+  const relative = path.relative(sourceRoot, source).replace(/\\/g, "/");
+  if (!relative) return false;
+  if (relative === ".ai/tmp" || relative.startsWith(".ai/tmp/")) return true;
+  return relative.split("/").some((segment) => COPY_EXCLUDES.has(segment));
+}
+
+function runGit(cwd: string, args: string[], options: { input?: string; env?: NodeJS.ProcessEnv } = {}): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn("git", args, {
+      cwd,
+      env: options.env ?? process.env,
+      stdio: [options.input === undefined ? "ignore" : "pipe", "pipe", "pipe"],
+    });
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+    child.stdout!.on("data", (chunk: Buffer) => stdout.push(chunk));
+    child.stderr!.on("data", (chunk: Buffer) => stderr.push(chunk));
+    child.on("error", reject);
+    child.on("close", (code) => {
+      if (code === 0) {
+        resolve(Buffer.concat(stdout).toString("utf8"));
+      } else {
+        reject(new Error(`git ${args[0]} failed (${code}): ${Buffer.concat(stderr).toString("utf8").trim()}`));
+      }
+    });
+    if (options.input !== undefined) {
+      // git exits (and closes stdin) on its own errors; the exit code reports those
+      child.stdin!.on("error", () => undefined);
+      child.stdin!.end(options.input);
+    }
+  });
+}
@@ -0,0 +1,1119 @@
+/**
+ * Cypher subset — parses and evaluates the statements the controller sends to
+ * the graph, so the embedded store can answer them without Neo4j.
+ *
+ * Supported:
+ *   - MATCH with comma-separated path patterns and WHERE
+ *   - Node patterns `(n:A:B {key: expr})`, relationship patterns in any
+ *     direction with type alternation `[:A|B]` and variable length `[:T*1..3]`
+ *   - MERGE, CREATE, SET (`n += map`, `n = map`, `n.key = expr`, `n:Label`),
+ *     DELETE and DETACH DELETE
+ *   - RETURN [DISTINCT] … [ORDER BY …] [SKIP n] [LIMIT n]
+ *   - Expressions: literals, parameters, lists, maps, property access, label
+ *     predicates, AND/OR/XOR/NOT, comparisons, CONTAINS, STARTS/ENDS WITH, IN,
+ *     =~, IS [NOT] NULL, arithmetic and the scalar functions in FUNCTIONS
+ *   - CREATE/DROP CONSTRAINT and INDEX are accepted and ignored
+ *
+ * Anything else (OPTIONAL MATCH, WITH, UNWIND, aggregation, …) is rejected
+ * with EMBEDDED_GRAPH_UNSUPPORTED_CYPHER rather than answered approximately.
+ * Null handling follows Cypher's three-valued logic.
+ *
+ * [REF:EMBEDDED-GRAPH]
+ */
+
+import { GraphNode, GraphRelationship, type PropertyGraph } from "./propertyGraph";
+
+/* ── Public API ──────────────────────────────────────────── */
+
+export interface ExecuteOptions {
+  /** Reject statements that would change the graph (read sessions) */
+  readOnly?: boolean;
+}
+
+/** Runs one statement and returns its RETURN rows (empty when it has none). */
+export function executeCypher(
+  graph: PropertyGraph,
+  query: string,
+  params: Record<string, unknown> = {},
+  options: ExecuteOptions = {},
+): Array<Record<string, unknown>> {
+  const clauses = parseCypher(query);
+  if (options.readOnly && clauses.some((clause) => WRITE_CLAUSES.has(clause.kind))) {
+    throw new Error("Writing in read access mode not allowed.");
+  }
+  const context: EvalContext = { graph, params };
+  let rows: Row[] = [new Map()];
+  for (const clause of clauses) {
+    switch (clause.kind) {
+      case "schema":
+        break;
+      case "match":
+        rows = rows.flatMap((row) => matchPatterns(context, clause.patterns, row))
+          .filter((row) => clause.where === undefined || evaluate(context, clause.where, row) === true);
+        break;
+      case "merge":
+        rows = rows.flatMap((row) => mergePattern(context, clause.pattern, row));
+        break;
+      case "create":
+        rows = rows.map((row) => createPatterns(context, clause.patterns, row));
+        break;
+      case "set":
+        for (const row of rows) applySet(context, clause.items, row);
+        break;
+      case "delete":
+        applyDelete(context, clause, rows);
+        break;
+      case "return":
+        return project(context, clause, rows);
+    }
+  }
+  return [];
+}
+
+/** Parses a statement; results are cached because seeding repeats the same few queries. */
+export function parseCypher(query: string): Clause[] {
+  const cached = parseCache.get(query);
+  if (cached) return cached;
+  const clauses = new Parser(query).parseStatement();
+  if (parseCache.size >= PARSE_CACHE_LIMIT) parseCache.clear();
+  parseCache.set(query, clauses);
+  return clauses;
+}
+
+/* ── AST ─────────────────────────────────────────────────── */
+
+type Expr =
+  | { kind: "literal"; value: unknown }
+  | { kind: "param"; name: string }
+  | { kind: "variable"; name: string }
+  | { kind: "property"; target: Expr; key: string }
+  | { kind: "list"; items: Expr[] }
+  | { kind: "map"; entries: Array<[string, Expr]> }
+  | { kind: "call"; name: string; args: Expr[] }
+  | { kind: "hasLabels"; target: Expr; labels: string[] }
+  | { kind: "not"; operand: Expr }
+  | { kind: "negate"; operand: Expr }
+  | { kind: "isNull"; operand: Expr; negated: boolean }
+  | { kind: "binary"; op: BinaryOp; left: Expr; right: Expr };
+
+type BinaryOp =
+  | "OR" | "XOR" | "AND"
+  | "=" | "<>" | "<" | ">" | "<=" | ">="
+  | "CONTAINS" | "STARTS WITH" | "ENDS WITH" | "IN" | "=~"
+  | "+" | "-" | "*" | "/" | "%";
+
+interface NodePattern {
+  variable: string;
+  labels: string[];
+  properties?: Expr;
+}
+
+interface RelationshipPattern {
+  variable: string;
+  types: string[];
+  direction: "out" | "in" | "both";
+  /** null for a single hop; otherwise the hop range of a variable-length pattern */
+  hops: { min: number; max: number } | null;
+  properties?: Expr;
+}
+
+interface PathPattern {
+  start: NodePattern;
+  steps: Array<{ relationship: RelationshipPattern; node: NodePattern }>;
+}
+
+type SetItem =
+  | { kind: "merge" | "replace"; variable: string; value: Expr }
+  | { kind: "property"; variable: string; key: string; value: Expr }
+  | { kind: "labels"; variable: string; labels: string[] };
+
+interface ReturnClause {
+  kind: "return";
+  distinct: boolean;
+  items: Array<{ expr: Expr; alias: string }>;
+  orderBy: Array<{ expr: Expr; descending: boolean }>;
+  skip?: Expr;
+  limit?: Expr;
+}
+
+type Clause =
+  | { kind: "schema" }
+  | { kind: "match"; patterns: PathPattern[]; where?: Expr }
+  | { kind: "merge"; pattern: PathPattern }
+  | { kind: "create"; patterns: PathPattern[] }
+  | { kind: "set"; items: SetItem[] }
+  | { kind: "delete"; detach: boolean; targets: Expr[] }
+  | ReturnClause;
+
+const WRITE_CLAUSES = new Set<Clause["kind"]>(["merge", "create", "set", "delete"]);
+const PARSE_CACHE_LIMIT = 256;
+const parseCache = new Map<string, Clause[]>();
+
+/* ── Tokenizer ───────────────────────────────────────────── */
+
+interface Token {
+  type: "ident" | "string" | "number" | "param" | "punct" | "eof";
+  value: string;
+  /** Backtick-quoted identifiers are never keywords */
+  quoted?: boolean;
+  start: number;
+  end: number;
+}
+
+const TWO_CHAR_PUNCT = new Set(["<>", "<=", ">=", "=~", "+=", ".."]);
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+  while (index < query.length) {
+    const char = query[index];
+    if (/\s/.test(char)) {
+      index += 1;
+      continue;
+    }
+    if (query.startsWith("//", index)) {
+      const newline = query.indexOf("\n", index);
+      index = newline === -1 ? query.length : newline;
+      continue;
+    }
+    if (query.startsWith("/*", index)) {
+      const close = query.indexOf("*/", index + 2);
+      index = close === -1 ? query.length : close + 2;
+      continue;
+    }
+    const start = index;
+    if (char === "'" || char === "\"") {
+      let value = "";
+      index += 1;
+      while (index < query.length && query[index] !== char) {
+        if (query[index] === "\\" && index + 1 < query.length) {
+          const escaped = query[index + 1];
+          value += escaped === "n" ? "\n" : escaped === "t" ? "\t" : escaped;
+          index += 2;
+        } else {
+          value += query[index];
+          index += 1;
+        }
+      }
+      if (index >= query.length) throw syntaxError(query, start, "unterminated string literal");
+      index += 1;
+      tokens.push({ type: "string", value, start, end: index });
+      continue;
+    }
+    if (char === "`") {
+      const close = query.indexOf("`", index + 1);
+      if (close === -1) throw syntaxError(query, start, "unterminated quoted identifier");
+      index = close + 1;
+      tokens.push({ type: "ident", value: query.slice(start + 1, close), quoted: true, start, end: index });
+      continue;
+    }
+    const number = /^\d+(\.\d+)?([eE][+-]?\d+)?/.exec(query.slice(index));
+    if (number) {
+      index += number[0].length;
+      tokens.push({ type: "number", value: number[0], start, end: index });
+      continue;
+    }
+    const word = /^[A-Za-z_][A-Za-z0-9_]*/.exec(query.slice(index + (char === "$" ? 1 : 0)));
+    if (char === "$") {
+      if (!word) throw syntaxError(query, start, "expected a parameter name after '$'");
+      index += 1 + word[0].length;
+      tokens.push({ type: "param", value: word[0], start, end: index });
+      continue;
+    }
+    if (word) {
+      index += word[0].length;
+      tokens.push({ type: "ident", value: word[0], start, end: index });
+      continue;
+    }
+    const pair = query.slice(index, index + 2);
+    const value = TWO_CHAR_PUNCT.has(pair) ? pair : char;
+    index += value.length;
+    tokens.push({ type: "punct", value, start, end: index });
+  }
+  tokens.push({ type: "eof", value: "", start: query.length, end: query.length });
+  return tokens;
+}
+
+/* ── Parser ──────────────────────────────────────────────── */
+
+class Parser {
+  private readonly tokens: Token[];
+  private position = 0;
+  private anonymousCount = 0;
+
+  constructor(private readonly query: string) {
+    this.tokens = tokenize(query);
+  }
+
+  parseStatement(): Clause[] {
+    if (this.isSchemaStatement()) return [{ kind: "schema" }];
+    const clauses: Clause[] = [];
+    while (!this.atEnd()) {
+      if (this.acceptKeyword("MATCH")) {
+        const patterns = this.parsePatternList();
+        const where = this.acceptKeyword("WHERE") ? this.parseExpression() : undefined;
+        clauses.push({ kind: "match", patterns, where });
+      } else if (this.acceptKeyword("MERGE")) {
+        clauses.push({ kind: "merge", pattern: this.parsePathPattern() });
+      } else if (this.acceptKeyword("CREATE")) {
+        clauses.push({ kind: "create", patterns: this.parsePatternList() });
+      } else if (this.acceptKeyword("SET")) {
+        clauses.push({ kind: "set", items: this.parseSetItems() });
+      } else if (this.peekKeyword("DETACH") || this.peekKeyword("DELETE")) {
+        const detach = this.acceptKeyword("DETACH");
+        this.expectKeyword("DELETE");
+        clauses.push({ kind: "delete", detach, targets: this.parseExpressionList() });
+      } else if (this.acceptKeyword("RETURN")) {
+        clauses.push(this.parseReturn());
+        if (!this.atEnd()) throw this.unsupported("clauses after RETURN");
+      } else {
+        throw this.unsupported(`clause '${this.peek().value}'`);
+      }
+    }
+    if (clauses.length === 0) throw this.error("empty statement");
+    return clauses;
+  }
+
+  /* ── Clauses ── */
+
+  private isSchemaStatement(): boolean {
+    const [first, second] = [this.tokens[0], this.tokens[1]];
+    return isKeyword(first, "CREATE", "DROP") && isKeyword(second, "CONSTRAINT", "INDEX");
+  }
+
+  private parseReturn(): ReturnClause {
+    const distinct = this.acceptKeyword("DISTINCT");
+    const items: ReturnClause["items"] = [];
+    do {
+      const startToken = this.peek();
+      const expr = this.parseExpression();
+      const alias = this.acceptKeyword("AS")
+        ? this.expectIdentifier()
+        : this.query.slice(startToken.start, this.tokens[this.position - 1].end);
+      items.push({ expr, alias });
+    } while (this.acceptPunct(","));
+
+    const orderBy: ReturnClause["orderBy"] = [];
+    if (this.acceptKeyword("ORDER")) {
+      this.expectKeyword("BY");
+      do {
+        const expr = this.parseExpression();
+        const descending = this.acceptKeyword("DESC") || this.acceptKeyword("DESCENDING");
+        if (!descending && !this.acceptKeyword("ASC")) this.acceptKeyword("ASCENDING");
+        orderBy.push({ expr, descending });
+      } while (this.acceptPunct(","));
+    }
+    const skip = this.acceptKeyword("SKIP") ? this.parseExpression() : undefined;
+    const limit = this.acceptKeyword("LIMIT") ? this.parseExpression() : undefined;
+    return { kind: "return", distinct, items, orderBy, skip, limit };
+  }
+
+  private parseSetItems(): SetItem[] {
+    const items: SetItem[] = [];
+    do {
+      const variable = this.expectIdentifier();
+      if (this.acceptPunct("+=")) {
+        items.push({ kind: "merge", variable, value: this.parseExpression() });
+      } else if (this.acceptPunct("=")) {
+        items.push({ kind: "replace", variable, value: this.parseExpression() });
+      } else if (this.acceptPunct(".")) {
+        const key = this.expectIdentifier();
+        this.expectPunct("=");
+        items.push({ kind: "property", variable, key, value: this.parseExpression() });
+      } else if (this.peekPunct(":")) {
+        items.push({ kind: "labels", variable, labels: this.parseLabels() });
+      } else {
+        throw this.error("expected '+=', '=', '.' or ':' in SET");
+      }
+    } while (this.acceptPunct(","));
+    return items;
+  }
+
+  /* ── Patterns ── */
+
+  private parsePatternList(): PathPattern[] {
+    const patterns = [this.parsePathPattern()];
+    while (this.acceptPunct(",")) patterns.push(this.parsePathPattern());
+    return patterns;
+  }
+
+  private parsePathPattern(): PathPattern {
+    if (this.peek().type === "ident" && this.peekAt(1).value === "=") throw this.unsupported("named paths");
+    const start = this.parseNodePattern();
+    const steps: PathPattern["steps"] = [];
+    while (this.peekPunct("-") || this.peekPunct("<")) {
+      const relationship = this.parseRelationshipPattern();
+      steps.push({ relationship, node: this.parseNodePattern() });
+    }
+    return { start, steps };
+  }
+
+  private parseNodePattern(): NodePattern {
+    this.expectPunct("(");
+    const variable = this.peek().type === "ident" ? this.expectIdentifier() : this.anonymous();
+    const labels = this.peekPunct(":") ? this.parseLabels() : [];
+    const properties = this.peekPunct("{") ? this.parseMap() : undefined;
+    this.expectPunct(")");
+    return { variable, labels, properties };
+  }
+
+  private parseRelationshipPattern(): RelationshipPattern {
+    const pointsLeft = this.acceptPunct("<");
+    this.expectPunct("-");
+    let variable = this.anonymous();
+    let types: string[] = [];
+    let hops: RelationshipPattern["hops"] = null;
+    let properties: Expr | undefined;
+    if (this.acceptPunct("[")) {
+      if (this.peek().type === "ident") variable = this.expectIdentifier();
+      if (this.acceptPunct(":")) {
+        types.push(this.expectIdentifier());
+        while (this.acceptPunct("|")) {
+          this.acceptPunct(":");
+          types.push(this.expectIdentifier());
+        }
+      }
+      if (this.acceptPunct("*")) hops = this.parseHops();
+      if (this.peekPunct("{")) properties = this.parseMap();
+      this.expectPunct("]");
+    }
+    this.expectPunct("-");
+    const pointsRight = this.acceptPunct(">");
+    if (pointsLeft && pointsRight) throw this.error("a relationship pattern cannot point both ways");
+    types = [...new Set(types)];
+    const direction = pointsRight ? "out" : pointsLeft ? "in" : "both";
+    return { variable, types, direction, hops, properties };
+  }
+
+  private parseHops(): { min: number; max: number } {
+    const lower = this.peek().type === "number" ? Number(this.next().value) : null;
+    if (!this.acceptPunct("..")) {
+      return lower === null ? { min: 1, max: Infinity } : { min: lower, max: lower };
+    }
+    const upper = this.peek().type === "number" ? Number(this.next().value) : Infinity;
+    return { min: lower ?? 1, max: upper };
+  }
+
+  private parseLabels(): string[] {
+    const labels: string[] = [];
+    while (this.acceptPunct(":")) labels.push(this.expectIdentifier());
+    return labels;
+  }
+
+  /* ── Expressions (lowest to highest precedence) ── */
+
+  private parseExpressionList(): Expr[] {
+    const list = [this.parseExpression()];
+    while (this.acceptPunct(",")) list.push(this.parseExpression());
+    return list;
+  }
+
+  private parseExpression(): Expr {
+    return this.parseBinaryKeyword(["OR"], () => this.parseBinaryKeyword(["XOR"], () => this.parseBinaryKeyword(["AND"], () => this.parseNot())));
+  }
+
+  private parseBinaryKeyword(ops: Array<"OR" | "XOR" | "AND">, operand: () => Expr): Expr {
+    let left = operand();
+    for (;;) {
+      const op = ops.find((candidate) => this.acceptKeyword(candidate));
+      if (!op) return left;
+      left = { kind: "binary", op, left, right: operand() };
+    }
+  }
+
+  private parseNot(): Expr {
+    if (this.acceptKeyword("NOT")) return { kind: "not", operand: this.parseNot() };
+    return this.parseComparison();
+  }
+
+  private parseComparison(): Expr {
+    let left = this.parseAdditive();
+    for (;;) {
+      const punct = ["=", "<>", "<", ">", "<=", ">=", "=~"].find((op) => this.acceptPunct(op));
+      if (punct) {
+        left = { kind: "binary", op: punct as BinaryOp, left, right: this.parseAdditive() };
+      } else if (this.acceptKeyword("CONTAINS")) {
+        left = { kind: "binary", op: "CONTAINS", left, right: this.parseAdditive() };
+      } else if (this.peekKeyword("STARTS") || this.peekKeyword("ENDS")) {
+        const op = this.next().value.toUpperCase() === "STARTS" ? "STARTS WITH" : "ENDS WITH";
+        this.expectKeyword("WITH");
+        left = { kind: "binary", op, left, right: this.parseAdditive() };
+      } else if (this.acceptKeyword("IN")) {
+        left = { kind: "binary", op: "IN", left, right: this.parseAdditive() };
+      } else if (this.acceptKeyword("IS")) {
+        const negated = this.acceptKeyword("NOT");
+        this.expectKeyword("NULL");
+        left = { kind: "isNull", operand: left, negated };
+      } else {
+        return left;
+      }
+    }
+  }
+
+  private parseAdditive(): Expr {
+    let left = this.parseMultiplicative();
+    for (;;) {
+      const op = ["+", "-"].find((candidate) => this.acceptPunct(candidate));
+      if (!op) return left;
+      left = { kind: "binary", op: op as BinaryOp, left, right: this.parseMultiplicative() };
+    }
+  }
+
+  private parseMultiplicative(): Expr {
+    let left = this.parseUnary();
+    for (;;) {
+      const op = ["*", "/", "%"].find((candidate) => this.acceptPunct(candidate));
+      if (!op) return left;
+      left = { kind: "binary", op: op as BinaryOp, left, right: this.parseUnary() };
+    }
+  }
+
+  private parseUnary(): Expr {
+    if (this.acceptPunct("-")) return { kind: "negate", operand: this.parseUnary() };
+    if (this.acceptPunct("+")) return this.parseUnary();
+    return this.parsePostfix(this.parseAtom());
+  }
+
+  private parsePostfix(atom: Expr): Expr {
+    let expr = atom;
+    for (;;) {
+      if (this.acceptPunct(".")) {
+        expr = { kind: "property", target: expr, key: this.expectIdentifier() };
+      } else if (this.peekPunct(":") && expr.kind === "variable") {
+        expr = { kind: "hasLabels", target: expr, labels: this.parseLabels() };
+      } else {
+        return expr;
+      }
+    }
+  }
+
+  private parseAtom(): Expr {
+    const token = this.peek();
+    if (token.type === "string") {
+      this.next();
+      return { kind: "literal", value: token.value };
+    }
+    if (token.type === "number") {
+      this.next();
+      return { kind: "literal", value: Number(token.value) };
+    }
+    if (token.type === "param") {
+      this.next();
+      return { kind: "param", name: token.value };
+    }
+    if (this.acceptPunct("(")) {
+      const inner = this.parseExpression();
+      this.expectPunct(")");
+      return inner;
+    }
+    if (this.acceptPunct("[")) {
+      const items = this.peekPunct("]") ? [] : this.parseExpressionList();
+      this.expectPunct("]");
+      return { kind: "list", items };
+    }
+    if (this.peekPunct("{")) return this.parseMap();
+    if (token.type === "ident") {
+      if (!token.quoted) {
+        const upper = token.value.toUpperCase();
+        if (upper === "TRUE" || upper === "FALSE") {
+          this.next();
+          return { kind: "literal", value: upper === "TRUE" };
+        }
+        if (upper === "NULL") {
+          this.next();
+          return { kind: "literal", value: null };
+        }
+        if (upper === "CASE" || upper === "EXISTS") throw this.unsupported(`'${token.value}' expressions`);
+      }
+      this.next();
+      if (this.acceptPunct("(")) {
+        const name = token.value.toLowerCase();
+        if (!(name in FUNCTIONS)) throw this.unsupported(`function '${token.value}'`);
+        const args = this.peekPunct(")") ? [] : this.parseExpressionList();
+        this.expectPunct(")");
+        return { kind: "call", name, args };
+      }
+      return { kind: "variable", name: token.value };
+    }
+    throw this.error(`unexpected '${token.value || "end of statement"}'`);
+  }
+
+  private parseMap(): Expr {
+    this.expectPunct("{");
+    const entries: Array<[string, Expr]> = [];
+    if (!this.peekPunct("}")) {
+      do {
+        const keyToken = this.next();
+        if (keyToken.type !== "ident" && keyToken.type !== "string") throw this.error("expected a map key");
+        this.expectPunct(":");
+        entries.push([keyToken.value, this.parseExpression()]);
+      } while (this.acceptPunct(","));
+    }
+    this.expectPunct("}");
+    return { kind: "map", entries };
+  }
+
+  /* ── Token helpers ── */
+
+  private anonymous(): string {
+    this.anonymousCount += 1;
+    return `  anon_${this.anonymousCount}`;
+  }
+
+  private atEnd(): boolean {
+    while (this.peekPunct(";")) this.next();
+    return this.peek().type === "eof";
+  }
+
+  private peek(): Token {
+    return this.tokens[this.position];
+  }
+
+  private peekAt(offset: number): Token {
+    return this.tokens[Math.min(this.position + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.position];
+    if (token.type !== "eof") this.position += 1;
+    return token;
+  }
+
+  private peekPunct(value: string): boolean {
+    const token = this.peek();
+    return token.type === "punct" && token.value === value;
+  }
+
+  private acceptPunct(value: string): boolean {
+    if (!this.peekPunct(value)) return false;
+    this.next();
+    return true;
+  }
+
+  private expectPunct(value: string): void {
+    if (!this.acceptPunct(value)) throw this.error(`expected '${value}'`);
+  }
+
+  private peekKeyword(keyword: string): boolean {
+    return isKeyword(this.peek(), keyword);
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    if (!this.peekKeyword(keyword)) return false;
+    this.next();
+    return true;
+  }
+
+  private expectKeyword(keyword: string): void {
+    if (!this.acceptKeyword(keyword)) throw this.error(`expected ${keyword}`);
+  }
+
+  private expectIdentifier(): string {
+    const token = this.next();
+    if (token.type !== "ident") throw this.error(`expected an identifier, got '${token.value || "end of statement"}'`);
+    return token.value;
+  }
+
+  private error(message: string): Error {
+    return syntaxError(this.query, this.peek().start, message);
+  }
+
+  private unsupported(what: string): Error {
+    return new Error(`EMBEDDED_GRAPH_UNSUPPORTED_CYPHER: ${what} at offset ${this.peek().start} are not supported by the embedded graph store.`);
+  }
+}
+
+function isKeyword(token: Token | undefined, ...keywords: string[]): boolean {
+  return Boolean(token && token.type === "ident" && !token.quoted && keywords.includes(token.value.toUpperCase()));
+}
+
+function syntaxError(query: string, offset: number, message: string): Error {
+  return new Error(`EMBEDDED_GRAPH_SYNTAX_ERROR: ${message} at offset ${offset} in: ${query.trim().slice(0, 200)}`);
+}
+
+/* ── Evaluation ──────────────────────────────────────────── */
+
+type Row = Map<string, unknown>;
+
+interface EvalContext {
+  graph: PropertyGraph;
+  params: Record<string, unknown>;
+}
+
+const FUNCTIONS: Record<string, (args: unknown[]) => unknown> = {
+  coalesce: (args) => args.find((value) => value !== null && value !== undefined) ?? null,
+  labels: ([value]) => (value instanceof GraphNode ? [...value.labels] : nullOr(value, "labels()")),
+  type: ([value]) => (value instanceof GraphRelationship ? value.type : nullOr(value, "type()")),
+  properties: ([value]) => {
+    if (value instanceof GraphNode || value instanceof GraphRelationship) return { ...value.properties };
+    return isPlainMap(value) ? { ...value } : nullOr(value, "properties()");
+  },
+  keys: ([value]) => {
+    if (value instanceof GraphNode || value instanceof GraphRelationship) return Object.keys(value.properties);
+    return isPlainMap(value) ? Object.keys(value) : nullOr(value, "keys()");
+  },
+  id: ([value]) => (value instanceof GraphNode || value instanceof GraphRelationship ? value.key : nullOr(value, "id()")),
+  elementid: ([value]) => (value instanceof GraphNode || value instanceof GraphRelationship ? String(value.key) : nullOr(value, "elementId()")),
+  tolower: ([value]) => (typeof value === "string" ? value.toLowerCase() : nullOr(value, "toLower()")),
+  toupper: ([value]) => (typeof value === "string" ? value.toUpperCase() : nullOr(value, "toUpper()")),
+  trim: ([value]) => (typeof value === "string" ? value.trim() : nullOr(value, "trim()")),
+  tostring: ([value]) => (value === null || value === undefined ? null : typeof value === "object" ? nullOr(value, "toString()") : String(value)),
+  size: ([value]) => (typeof value === "string" || Array.isArray(value) ? value.length : nullOr(value, "size()")),
+};
+
+function nullOr(value: unknown, fn: string): null {
+  if (value === null || value === undefined) return null;
+  throw new Error(`Type mismatch: ${fn} does not accept ${describe(value)}.`);
+}
+
+function evaluate(context: EvalContext, expr: Expr, row: Row): unknown {
+  switch (expr.kind) {
+    case "literal":
+      return expr.value;
+    case "param":
+      if (!(expr.name in context.params)) throw new Error(`Expected parameter(s): ${expr.name}`);
+      return context.params[expr.name] ?? null;
+    case "variable":
+      if (!row.has(expr.name)) throw new Error(`Variable \`${expr.name}\` not defined.`);
+      return row.get(expr.name);
+    case "property": {
+      const target = evaluate(context, expr.target, row);
+      if (target === null || target === undefined) return null;
+      if (target instanceof GraphNode || target instanceof GraphRelationship) return target.properties[expr.key] ?? null;
+      if (isPlainMap(target)) return target[expr.key] ?? null;
+      throw new Error(`Type mismatch: cannot read property '${expr.key}' of ${describe(target)}.`);
+    }
+    case "list":
+      return expr.items.map((item) => evaluate(context, item, row));
+    case "map":
+      return Object.fromEntries(expr.entries.map(([key, value]) => [key, evaluate(context, value, row)]));
+    case "call":
+      return FUNCTIONS[expr.name](expr.args.map((arg) => evaluate(context, arg, row)));
+    case "hasLabels": {
+      const target = evaluate(context, expr.target, row);
+      if (target === null || target === undefined) return null;
+      return target instanceof GraphNode && expr.labels.every((label) => target.labels.includes(label));
+    }
+    case "not": {
+      const value = evaluate(context, expr.operand, row);
+      return value === null || value === undefined ? null : !truthy(value);
+    }
+    case "negate": {
+      const value = evaluate(context, expr.operand, row);
+      return typeof value === "number" ? -value : nullOr(value, "unary minus");
+    }
+    case "isNull": {
+      const value = evaluate(context, expr.operand, row);
+      const isNull = value === null || value === undefined;
+      return expr.negated ? !isNull : isNull;
+    }
+    case "binary":
+      return evaluateBinary(context, expr, row);
+  }
+}
+
+function evaluateBinary(context: EvalContext, expr: Extract<Expr, { kind: "binary" }>, row: Row): unknown {
+  if (expr.op === "AND" || expr.op === "OR" || expr.op === "XOR") {
+    const left = toTernary(evaluate(context, expr.left, row));
+    if (expr.op === "AND" && left === false) return false;
+    if (expr.op === "OR" && left === true) return true;
+    const right = toTernary(evaluate(context, expr.right, row));
+    if (expr.op === "AND") return right === false ? false : left === null || right === null ? null : true;
+    if (expr.op === "OR") return right === true ? true : left === null || right === null ? null : false;
+    return left === null || right === null ? null : left !== right;
+  }
+
+  const left = evaluate(context, expr.left, row) ?? null;
+  const right = evaluate(context, expr.right, row) ?? null;
+  switch (expr.op) {
+    case "=":
+      return cypherEquals(left, right);
+    case "<>": {
+      const equal = cypherEquals(left, right);
+      return equal === null ? null : !equal;
+    }
+    case "<":
+    case ">":
+    case "<=":
+    case ">=": {
+      const order = compareValues(left, right);
+      if (order === null) return null;
+      return expr.op === "<" ? order < 0 : expr.op === ">" ? order > 0 : expr.op === "<=" ? order <= 0 : order >= 0;
+    }
+    case "CONTAINS":
+    case "STARTS WITH":
+    case "ENDS WITH":
+      if (typeof left !== "string" || typeof right !== "string") return null;
+      return expr.op === "CONTAINS" ? left.includes(right) : expr.op === "STARTS WITH" ? left.startsWith(right) : left.endsWith(right);
+    case "=~":
+      if (typeof left !== "string" || typeof right !== "string") return null;
+      return new RegExp(`^(?:${right})$`).test(left);
+    case "IN": {
+      if (right === null) return null;
+      if (!Array.isArray(right)) throw new Error(`Type mismatch: IN expects a list, got ${describe(right)}.`);
+      let sawNull = false;
+      for (const item of right) {
+        const equal = cypherEquals(left, item);
+        if (equal === true) return true;
+        if (equal === null) sawNull = true;
+      }
+      return sawNull ? null : false;
+    }
+    default:
+      return arithmetic(expr.op, left, right);
+  }
+}
+
+function arithmetic(op: BinaryOp, left: unknown, right: unknown): unknown {
+  if (left === null || right === null) return null;
+  if (op === "+") {
+    if (Array.isArray(left)) return Array.isArray(right) ? [...left, ...right] : [...left, right];
+    if (Array.isArray(right)) return [left, ...right];
+    if (typeof left === "string" || typeof right === "string") {
+      if (typeof left === "object" || typeof right === "object") throw new Error("Type mismatch: cannot add a map or graph entity to a string.");
+      return `${String(left)}${String(right)}`;
+    }
+  }
+  if (typeof left !== "number" || typeof right !== "number") {
+    throw new Error(`Type mismatch: cannot apply '${op}' to ${describe(left)} and ${describe(right)}.`);
+  }
+  switch (op) {
+    case "+": return left + right;
+    case "-": return left - right;
+    case "*": return left * right;
+    case "/": return Number.isInteger(left) && Number.isInteger(right) ? Math.trunc(left / right) : left / right;
+    default: return left % right;
+  }
+}
+
+function toTernary(value: unknown): boolean | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value !== "boolean") throw new Error(`Type mismatch: expected a boolean, got ${describe(value)}.`);
+  return value;
+}
+
+function truthy(value: unknown): boolean {
+  return toTernary(value) === true;
+}
+
+/** Cypher equality: null when either side is null, element-wise for lists and maps. */
+function cypherEquals(left: unknown, right: unknown): boolean | null {
+  if (left === null || left === undefined || right === null || right === undefined) return null;
+  if (left instanceof GraphNode || left instanceof GraphRelationship) return left === right;
+  if (Array.isArray(left) || Array.isArray(right)) {
+    if (!Array.isArray(left) || !Array.isArray(right) || left.length !== right.length) return false;
+    let result: boolean | null = true;
+    for (let index = 0; index < left.length; index += 1) {
+      const equal = cypherEquals(left[index], right[index]);
+      if (equal === false) return false;
+      if (equal === null) result = null;
+    }
+    return result;
+  }
+  if (isPlainMap(left) || isPlainMap(right)) {
+    if (!isPlainMap(left) || !isPlainMap(right)) return false;
+    const keys = Object.keys(left);
+    if (keys.length !== Object.keys(right).length) return false;
+    return cypherEquals(keys.map((key) => left[key]), keys.map((key) => right[key]));
+  }
+  return left === right;
+}
+
+/** Ordering for comparison operators: null when the values are not comparable. */
+function compareValues(left: unknown, right: unknown): number | null {
+  if (left === null || right === null) return null;
+  if (typeof left !== typeof right || !["string", "number", "boolean"].includes(typeof left)) return null;
+  if (typeof left === "string") return left < (right as string) ? -1 : left > (right as string) ? 1 : 0;
+  return Number(left) - Number(right);
+}
+
+/** ORDER BY ordering: total, with nulls sorted last ascending. */
+function orderValues(left: unknown, right: unknown): number {
+  const leftNull = left === null || left === undefined;
+  const rightNull = right === null || right === undefined;
+  if (leftNull || rightNull) return leftNull === rightNull ? 0 : leftNull ? 1 : -1;
+  const compared = compareValues(left, right);
+  if (compared !== null) return compared;
+  const rank = (value: unknown) => (Array.isArray(value) ? 0 : typeof value === "string" ? 2 : typeof value === "boolean" ? 3 : typeof value === "number" ? 4 : 1);
+  return rank(left) - rank(right) || JSON.stringify(toResultValue(left)).localeCompare(JSON.stringify(toResultValue(right)));
+}
+
+/* ── Pattern matching ────────────────────────────────────── */
+
+function matchPatterns(context: EvalContext, patterns: PathPattern[], row: Row): Row[] {
+  // Relationship uniqueness spans every pattern of one MATCH clause, as in Neo4j
+  let partial: Array<{ row: Row; used: Set<number> }> = [{ row, used: new Set() }];
+  for (const pattern of patterns) {
+    partial = partial.flatMap((entry) => matchPath(context, pattern, entry.row, entry.used));
+  }
+  return partial.map((entry) => entry.row);
+}
+
+function matchPath(context: EvalContext, pattern: PathPattern, row: Row, used: Set<number>): Array<{ row: Row; used: Set<number> }> {
+  const results: Array<{ row: Row; used: Set<number> }> = [];
+  const extend = (stepIndex: number, current: GraphNode, bound: Row, usedSoFar: Set<number>): void => {
+    if (stepIndex === pattern.steps.length) {
+      results.push({ row: bound, used: usedSoFar });
+      return;
+    }
+    const { relationship, node } = pattern.steps[stepIndex];
+    for (const hop of expandRelationship(context, relationship, current, bound, usedSoFar)) {
+      if (!nodeMatches(context, node, hop.end, bound)) continue;
+      const next = new Map(bound);
+      next.set(node.variable, hop.end);
+      next.set(relationship.variable, relationship.hops ? hop.path : hop.path[0]);
+      extend(stepIndex + 1, hop.end, next, new Set([...usedSoFar, ...hop.path.map((item) => item.key)]));
+    }
+  };
+  for (const start of nodeCandidates(context, pattern.start, row)) {
+    const bound = new Map(row);
+    bound.set(pattern.start.variable, start);
+    extend(0, start, bound, used);
+  }
+  return results;
+}
+
+function nodeCandidates(context: EvalContext, pattern: NodePattern, row: Row): GraphNode[] {
+  if (row.has(pattern.variable)) {
+    const bound = row.get(pattern.variable);
+    if (bound === null || bound === undefined) return [];
+    if (!(bound instanceof GraphNode)) throw new Error(`Type mismatch: \`${pattern.variable}\` is not a node.`);
+    return nodeMatches(context, pattern, bound, row) ? [bound] : [];
+  }
+  const properties = patternProperties(context, pattern.properties, row);
+  const pool = properties && "id" in properties ? context.graph.nodesWithId(properties.id) : context.graph.nodes();
+  return pool.filter((node) => nodeHas(node, pattern.labels, properties));
+}
+
+function nodeMatches(context: EvalContext, pattern: NodePattern, node: GraphNode, row: Row): boolean {
+  if (row.has(pattern.variable) && row.get(pattern.variable) !== node) return false;
+  return nodeHas(node, pattern.labels, patternProperties(context, pattern.properties, row));
+}
+
+function nodeHas(node: GraphNode, labels: string[], properties: Record<string, unknown> | null): boolean {
+  return labels.every((label) => node.labels.includes(label)) && propertiesMatch(node.properties, properties);
+}
+
+function propertiesMatch(actual: Record<string, unknown>, expected: Record<string, unknown> | null): boolean {
+  if (!expected) return true;
+  return Object.entries(expected).every(([key, value]) => cypherEquals(actual[key] ?? null, value) === true);
+}
+
+function patternProperties(context: EvalContext, expr: Expr | undefined, row: Row): Record<string, unknown> | null {
+  if (!expr) return null;
+  const value = evaluate(context, expr, row);
+  if (!isPlainMap(value)) throw new Error("Pattern properties must be a map.");
+  return value;
+}
+
+/** Every way to walk `pattern` from `from`: one hop, or each path within the hop range for variable length. */
+function expandRelationship(
+  context: EvalContext,
+  pattern: RelationshipPattern,
+  from: GraphNode,
+  row: Row,
+  used: Set<number>,
+): Array<{ end: GraphNode; path: GraphRelationship[] }> {
+  const properties = patternProperties(context, pattern.properties, row);
+  const bound = row.get(pattern.variable);
+  const fits = (relationship: GraphRelationship): boolean =>
+    (pattern.types.length === 0 || pattern.types.includes(relationship.type))
+    && propertiesMatch(relationship.properties, properties)
+    && (!pattern.hops && row.has(pattern.variable) ? bound === relationship : true);
+  const neighbours = (node: GraphNode): Array<{ relationship: GraphRelationship; other: GraphNode }> => {
+    const out = pattern.direction === "in" ? [] : context.graph.relationshipsOf(node, "out")
+      .map((relationship) => ({ relationship, other: context.graph.node(relationship.end) as GraphNode }));
+    const incoming = pattern.direction === "out" ? [] : context.graph.relationshipsOf(node, "in")
+      // A self-loop already appeared among the outgoing relationships
+      .filter((relationship) => !(pattern.direction === "both" && relationship.start === relationship.end))
+      .map((relationship) => ({ relationship, other: context.graph.node(relationship.start) as GraphNode }));
+    return [...out, ...incoming].filter((entry) => fits(entry.relationship));
+  };
+
+  if (!pattern.hops) {
+    return neighbours(from)
+      .filter((entry) => !used.has(entry.relationship.key))
+      .map((entry) => ({ end: entry.other, path: [entry.relationship] }));
+  }
+
+  const { min, max } = pattern.hops;
+  const results: Array<{ end: GraphNode; path: GraphRelationship[] }> = [];
+  const walk = (node: GraphNode, path: GraphRelationship[]): void => {
+    if (path.length >= min) results.push({ end: node, path });
+    if (path.length >= max) return;
+    for (const entry of neighbours(node)) {
+      if (used.has(entry.relationship.key) || path.includes(entry.relationship)) continue;
+      walk(entry.other, [...path, entry.relationship]);
+    }
+  };
+  walk(from, []);
+  return results;
+}
+
+/* ── Writes ──────────────────────────────────────────────── */
+
+function mergePattern(context: EvalContext, pattern: PathPattern, row: Row): Row[] {
+  const matches = matchPath(context, pattern, row, new Set()).map((entry) => entry.row);
+  return matches.length > 0 ? matches : [createPath(context, pattern, row)];
+}
+
+function createPatterns(context: EvalContext, patterns: PathPattern[], row: Row): Row {
+  return patterns.reduce((bound, pattern) => createPath(context, pattern, bound), row);
+}
+
+function createPath(context: EvalContext, pattern: PathPattern, row: Row): Row {
+  const bound = new Map(row);
+  let current = bindOrCreateNode(context, pattern.start, bound);
+  for (const { relationship, node } of pattern.steps) {
+    if (relationship.hops) throw new Error("EMBEDDED_GRAPH_UNSUPPORTED_CYPHER: variable-length relationships cannot be created.");
+    if (relationship.types.length !== 1) throw new Error("Exactly one relationship type must be specified for CREATE and MERGE.");
+    if (bound.has(relationship.variable)) throw new Error(`Variable \`${relationship.variable}\` already declared.`);
+    const end = bindOrCreateNode(context, node, bound);
+    const properties = patternProperties(context, relationship.properties, bound) ?? {};
+    // An undirected MERGE creates the relationship left to right, as Neo4j does
+    const [start, finish] = relationship.direction === "in" ? [end, current] : [current, end];
+    bound.set(relationship.variable, context.graph.createRelationship(relationship.types[0], start, finish, properties));
+    current = end;
+  }
+  return bound;
+}
+
+function bindOrCreateNode(context: EvalContext, pattern: NodePattern, bound: Row): GraphNode {
+  if (bound.has(pattern.variable)) {
+    const existing = bound.get(pattern.variable);
+    if (!(existing instanceof GraphNode)) throw new Error(`Type mismatch: \`${pattern.variable}\` is not a node.`);
+    return existing;
+  }
+  const node = context.graph.createNode(pattern.labels, patternProperties(context, pattern.properties, bound) ?? {});
+  bound.set(pattern.variable, node);
+  return node;
+}
+
+function applySet(context: EvalContext, items: SetItem[], row: Row): void {
+  for (const item of items) {
+    const target = row.get(item.variable);
+    if (!row.has(item.variable)) throw new Error(`Variable \`${item.variable}\` not defined.`);
+    if (target === null || target === undefined) continue;
+    if (!(target instanceof GraphNode) && !(target instanceof GraphRelationship)) {
+      throw new Error(`Type mismatch: SET expects a node or relationship for \`${item.variable}\`.`);
+    }
+    if (item.kind === "labels") {
+      if (!(target instanceof GraphNode)) throw new Error("Type mismatch: labels can only be set on nodes.");
+      for (const label of item.labels) context.graph.addLabel(target, label);
+      continue;
+    }
+    if (item.kind === "property") {
+      context.graph.setProperty(target, item.key, evaluate(context, item.value, row));
+      continue;
+    }
+    const value = evaluate(context, item.value, row);
+    const properties = value instanceof GraphNode || value instanceof GraphRelationship ? { ...value.properties } : value;
+    if (!isPlainMap(properties)) throw new Error(`Type mismatch: SET ${item.variable} ${item.kind === "merge" ? "+=" : "="} expects a map.`);
+    if (item.kind === "replace") {
+      for (const key of Object.keys(target.properties)) {
+        if (!(key in properties)) context.graph.setProperty(target, key, null);
+      }
+    }
+    for (const [key, propertyValue] of Object.entries(properties)) context.graph.setProperty(target, key, propertyValue);
+  }
+}
+
+function applyDelete(context: EvalContext, clause: Extract<Clause, { kind: "delete" }>, rows: Row[]): void {
+  const nodes = new Set<GraphNode>();
+  const relationships = new Set<GraphRelationship>();
+  const collect = (value: unknown): void => {
+    if (value instanceof GraphNode) nodes.add(value);
+    else if (value instanceof GraphRelationship) relationships.add(value);
+    else if (Array.isArray(value)) value.forEach(collect);
+    else if (value !== null && value !== undefined) throw new Error(`Type mismatch: cannot delete ${describe(value)}.`);
+  };
+  for (const row of rows) {
+    for (const target of clause.targets) collect(evaluate(context, target, row));
+  }
+  for (const relationship of relationships) context.graph.deleteRelationship(relationship);
+  for (const node of nodes) context.graph.deleteNode(node, clause.detach);
+}
+
+/* ── Projection ──────────────────────────────────────────── */
+
+function project(context: EvalContext, clause: ReturnClause, rows: Row[]): Array<Record<string, unknown>> {
+  let projected = rows.map((row) => {
+    const values = clause.items.map((item) => evaluate(context, item.expr, row));
+    // ORDER BY may refer to return aliases as well as to the matched variables
+    const scope = new Map(row);
+    clause.items.forEach((item, index) => scope.set(item.alias, values[index]));
+    return { values, scope };
+  });
+
+  if (clause.distinct) {
+    const seen = new Set<string>();
+    projected = projected.filter((entry) => {
+      const key = JSON.stringify(entry.values.map(toResultValue));
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+  if (clause.orderBy.length > 0) {
+    const keyed = projected.map((entry) => ({ entry, keys: clause.orderBy.map((order) => evaluate(context, order.expr, entry.scope)) }));
+    keyed.sort((left, right) => {
+      for (let index = 0; index < clause.orderBy.length; index += 1) {
+        const order = orderValues(left.keys[index], right.keys[index]);
+        if (order !== 0) return clause.orderBy[index].descending ? -order : order;
+      }
+      return 0;
+    });
+    projected = keyed.map((item) => item.entry);
+  }
+  const skip = clause.skip ? nonNegativeInteger(evaluate(context, clause.skip, new Map()), "SKIP") : 0;
+  const limit = clause.limit ? nonNegativeInteger(evaluate(context, clause.limit, new Map()), "LIMIT") : Infinity;
+
+  return projected.slice(skip, skip + limit).map((entry) =>
+    Object.fromEntries(clause.items.map((item, index) => [item.alias, toResultValue(entry.values[index])])),
+  );
+}
+
+function nonNegativeInteger(value: unknown, clause: string): number {
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+    throw new Error(`${clause} expects a non-negative integer, got ${describe(value)}.`);
+  }
+  return value;
+}
+
+/** Detaches results from the live graph; entities take the shape neo4j-driver's toObject() gives them. */
+function toResultValue(value: unknown): unknown {
+  if (value === undefined) return null;
+  if (value instanceof GraphNode) {
+    return { identity: value.key, labels: [...value.labels], properties: cloneProperties(value.properties), elementId: String(value.key) };
+  }
+  if (value instanceof GraphRelationship) {
+    return {
+      identity: value.key,
+      type: value.type,
+      start: value.start,
+      end: value.end,
+      properties: cloneProperties(value.properties),
+      elementId: String(value.key),
+    };
+  }
+  if (Array.isArray(value)) return value.map(toResultValue);
+  if (isPlainMap(value)) return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, toResultValue(item)]));
+  return value;
+}
+
+function cloneProperties(properties: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(properties).map(([key, value]) => [key, Array.isArray(value) ? [...value] : value]));
+}
+
+function isPlainMap(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value)
+    && !(value instanceof GraphNode) && !(value instanceof GraphRelationship);
+}
+
+function describe(value: unknown): string {
+  if (value instanceof GraphNode) return "a node";
+  if (value instanceof GraphRelationship) return "a relationship";
+  if (Array.isArray(value)) return "a list";
+  if (value === null || value === undefined) return "null";
+  return typeof value === "object" ? "a map" : `${typeof value} ${JSON.stringify(value)}`;
+}
@@ -0,0 +1,187 @@
+/**
+ * Embedded graph store — a file-backed stand-in for Neo4j.
+ *
+ * Implements the same GraphClient surface as Neo4jClient over an in-memory
+ * PropertyGraph, answering the Cypher subset in cypherSubset.ts. The graph is
+ * read from a JSON snapshot on first use and written back on close() when a
+ * write changed it. Separate processes (graphops CLI, controller) can share a
+ * snapshot: close() holds a lock file while it saves, and when another process
+ * saved after this one loaded, its writes are replayed on the newer snapshot
+ * instead of overwriting it. There is no isolation beyond that — a store reads
+ * the snapshot as of its first query until it is closed.
+ *
+ * [REF:EMBEDDED-GRAPH]
+ */
+
+import path from "node:path";
+import { open, readFile, rename, stat, unlink, writeFile } from "node:fs/promises";
+import { ensureDir } from "../../shared/fileStore";
+import type { GraphClient, GraphRecord } from "../neo4j/client";
+import { executeCypher } from "./cypherSubset";
+import { PropertyGraph, type GraphSnapshot } from "./propertyGraph";
+
+export interface EmbeddedGraphStoreConfig {
+  /** Snapshot file; created on the first close() after a write */
+  storePath: string;
+  /** How long close() waits for another process's save lock; default 10s */
+  lockTimeoutMs?: number;
+}
+
+/** A save lock older than this is left over from a crashed process. */
+const STALE_LOCK_MS = 30_000;
+const LOCK_RETRY_MS = 25;
+
+export class EmbeddedGraphStore implements GraphClient {
+  private graph: PropertyGraph | null = null;
+  private seedFingerprint: string | null = null;
+  /** savedAt of the snapshot the graph was loaded from; null when none existed */
+  private loadedSavedAt: string | null = null;
+  /** Writes since the graph was loaded, replayed when another process saved in between */
+  private writes: Array<{ query: string; params: Record<string, unknown> }> = [];
+  private seedMarked = false;
+
+  constructor(private readonly config: EmbeddedGraphStoreConfig) {}
+
+  async verifyConnectivity(): Promise<void> {
+    await this.ensureGraph();
+  }
+
+  /** Fingerprint of the seed the graph reflects; null when it was never loaded from one. */
+  async loadedSeedFingerprint(): Promise<string | null> {
+    await this.ensureGraph();
+    return this.seedFingerprint;
+  }
+
+  /** Records which seed the graph now reflects; persisted with the next snapshot. */
+  async markSeedLoaded(fingerprint: string): Promise<void> {
+    const graph = await this.ensureGraph();
+    this.seedFingerprint = fingerprint;
+    this.seedMarked = true;
+    graph.dirty = true;
+  }
+
+  async runWrite<T = unknown>(
+    query: string,
+    params: Record<string, unknown> = {},
+    mapper?: (record: GraphRecord) => T
+  ): Promise<T[]> {
+    const graph = await this.ensureGraph();
+    const rows = graph.transaction(() => executeCypher(graph, query, params));
+    this.writes.push({ query, params: structuredClone(params) });
+    return toRecords(rows, mapper);
+  }
+
+  async runRead<T = unknown>(
+    query: string,
+    params: Record<string, unknown> = {},
+    mapper?: (record: GraphRecord) => T
+  ): Promise<T[]> {
+    const graph = await this.ensureGraph();
+    return toRecords(executeCypher(graph, query, params, { readOnly: true }), mapper);
+  }
+
+  async close(): Promise<void> {
+    try {
+      if (this.graph?.dirty) {
+        await ensureDir(path.dirname(this.config.storePath));
+        const releaseLock = await this.acquireLock();
+        try {
+          const graph = await this.rebaseOnLatestSnapshot(this.graph);
+          const snapshot = graph.toSnapshot(new Date().toISOString(), this.seedFingerprint);
+          // Write-then-rename so a concurrent reader never sees a half-written snapshot
+          const tempPath = `${this.config.storePath}.${process.pid}.tmp`;
+          await writeFile(tempPath, JSON.stringify(snapshot), "utf8");
+          await rename(tempPath, this.config.storePath);
+        } finally {
+          await releaseLock();
+        }
+      }
+    } finally {
+      this.graph = null;
+      this.seedFingerprint = null;
+      this.loadedSavedAt = null;
+      this.writes = [];
+      this.seedMarked = false;
+    }
+  }
+
+  private async ensureGraph(): Promise<PropertyGraph> {
+    if (this.graph) {
+      return this.graph;
+    }
+    const snapshot = await this.readSnapshot();
+    this.graph = snapshot ? PropertyGraph.fromSnapshot(snapshot) : new PropertyGraph();
+    this.seedFingerprint = snapshot?.seedFingerprint ?? null;
+    this.loadedSavedAt = snapshot?.savedAt ?? null;
+    return this.graph;
+  }
+
+  private async readSnapshot(): Promise<GraphSnapshot | null> {
+    let raw: string;
+    try {
+      raw = await readFile(this.config.storePath, "utf8");
+    } catch {
+      // No snapshot yet — start empty
+      return null;
+    }
+    const snapshot = JSON.parse(raw) as GraphSnapshot;
+    if (snapshot.version !== 1 || !Array.isArray(snapshot.nodes) || !Array.isArray(snapshot.relationships)) {
+      throw new Error(`EMBEDDED_GRAPH_SNAPSHOT_INVALID: ${this.config.storePath} is not a graph store snapshot.`);
+    }
+    return snapshot;
+  }
+
+  /**
+   * Returns the graph to save. When another process saved since this store
+   * loaded, this store's writes are replayed on that snapshot so neither
+   * process's writes are lost; the caller holds the save lock.
+   */
+  private async rebaseOnLatestSnapshot(graph: PropertyGraph): Promise<PropertyGraph> {
+    const latest = await this.readSnapshot();
+    if ((latest?.savedAt ?? null) === this.loadedSavedAt) {
+      return graph;
+    }
+    const rebased = latest ? PropertyGraph.fromSnapshot(latest) : new PropertyGraph();
+    for (const write of this.writes) {
+      rebased.transaction(() => executeCypher(rebased, write.query, write.params));
+    }
+    if (!this.seedMarked) {
+      this.seedFingerprint = latest?.seedFingerprint ?? null;
+    }
+    return rebased;
+  }
+
+  /** Takes `<storePath>.lock`, waiting for another process's save; returns the release. */
+  private async acquireLock(): Promise<() => Promise<void>> {
+    const lockPath = `${this.config.storePath}.lock`;
+    const deadline = Date.now() + (this.config.lockTimeoutMs ?? 10_000);
+    for (;;) {
+      try {
+        const handle = await open(lockPath, "wx");
+        await handle.writeFile(String(process.pid), "utf8");
+        await handle.close();
+        return () => unlink(lockPath).catch(() => undefined);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+          throw error;
+        }
+      }
+      const lockedAt = await stat(lockPath).then((info) => info.mtimeMs, () => null);
+      if (lockedAt !== null && Date.now() - lockedAt > STALE_LOCK_MS) {
+        await unlink(lockPath).catch(() => undefined);
+        continue;
+      }
+      if (Date.now() > deadline) {
+        throw new Error(`EMBEDDED_GRAPH_LOCKED: ${lockPath} is held by another process; remove it if no graph store is saving.`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+  }
+}
+
+function toRecords<T>(rows: Array<Record<string, unknown>>, mapper?: (record: GraphRecord) => T): T[] {
+  if (!mapper) {
+    return rows as T[];
+  }
+  return rows.map((row) => mapper({ toObject: () => row, get: (key) => row[key] }));
+}
@@ -0,0 +1,241 @@
+/**
+ * In-memory property graph backing the embedded graph store.
+ *
+ * Nodes carry labels and properties, relationships carry a type and
+ * properties, and both follow Neo4j's property rules: values are primitives
+ * or homogeneous arrays of primitives, and setting a property to null removes
+ * it. Nodes are indexed by their `id` property because every MERGE the
+ * controller issues keys on it. Mutations inside transaction() are journaled
+ * so a failing statement leaves the graph as it was, like a Neo4j transaction.
+ *
+ * [REF:EMBEDDED-GRAPH]
+ */
+
+export type PropertyValue = string | number | boolean | string[] | number[] | boolean[];
+
+export class GraphNode {
+  constructor(
+    readonly key: number,
+    readonly labels: string[],
+    readonly properties: Record<string, PropertyValue>,
+  ) {}
+}
+
+export class GraphRelationship {
+  constructor(
+    readonly key: number,
+    readonly type: string,
+    readonly start: number,
+    readonly end: number,
+    readonly properties: Record<string, PropertyValue>,
+  ) {}
+}
+
+/** On-disk form: relationship endpoints are indexes into `nodes`. */
+export interface GraphSnapshot {
+  version: 1;
+  savedAt: string;
+  /** Fingerprint of the seed files the graph was last loaded from, if any */
+  seedFingerprint: string | null;
+  nodes: Array<{ labels: string[]; properties: Record<string, PropertyValue> }>;
+  relationships: Array<{ type: string; start: number; end: number; properties: Record<string, PropertyValue> }>;
+}
+
+export class PropertyGraph {
+  private readonly nodeMap = new Map<number, GraphNode>();
+  private readonly relationshipMap = new Map<number, GraphRelationship>();
+  private readonly outgoing = new Map<number, Set<number>>();
+  private readonly incoming = new Map<number, Set<number>>();
+  private readonly nodesByIdProperty = new Map<unknown, Set<number>>();
+  private nextKey = 0;
+  private journal: Array<() => void> | null = null;
+  /** Set by every mutation; the store persists only dirty graphs */
+  dirty = false;
+
+  /** Runs `work`; if it throws, every mutation it made is undone before rethrowing. */
+  transaction<T>(work: () => T): T {
+    const journal: Array<() => void> = [];
+    const wasDirty = this.dirty;
+    this.journal = journal;
+    try {
+      return work();
+    } catch (error) {
+      this.journal = null;
+      for (const undo of journal.reverse()) undo();
+      this.dirty = wasDirty;
+      throw error;
+    } finally {
+      this.journal = null;
+    }
+  }
+
+  get nodeCount(): number {
+    return this.nodeMap.size;
+  }
+
+  get relationshipCount(): number {
+    return this.relationshipMap.size;
+  }
+
+  nodes(): GraphNode[] {
+    return [...this.nodeMap.values()];
+  }
+
+  relationships(): GraphRelationship[] {
+    return [...this.relationshipMap.values()];
+  }
+
+  node(key: number): GraphNode | undefined {
+    return this.nodeMap.get(key);
+  }
+
+  /** Nodes whose `id` property equals `value`. */
+  nodesWithId(value: unknown): GraphNode[] {
+    const keys = this.nodesByIdProperty.get(value);
+    return keys ? [...keys].map((key) => this.nodeMap.get(key) as GraphNode) : [];
+  }
+
+  relationshipsOf(node: GraphNode, direction: "out" | "in"): GraphRelationship[] {
+    const keys = (direction === "out" ? this.outgoing : this.incoming).get(node.key);
+    return keys ? [...keys].map((key) => this.relationshipMap.get(key) as GraphRelationship) : [];
+  }
+
+  createNode(labels: string[], properties: Record<string, unknown>): GraphNode {
+    const node = new GraphNode(this.nextKey++, [...new Set(labels)], {});
+    this.nodeMap.set(node.key, node);
+    this.journal?.push(() => this.nodeMap.delete(node.key));
+    for (const [key, value] of Object.entries(properties)) this.setProperty(node, key, value);
+    this.dirty = true;
+    return node;
+  }
+
+  createRelationship(type: string, start: GraphNode, end: GraphNode, properties: Record<string, unknown>): GraphRelationship {
+    const relationship = new GraphRelationship(this.nextKey++, type, start.key, end.key, {});
+    this.attachRelationship(relationship);
+    this.journal?.push(() => this.detachRelationship(relationship));
+    for (const [key, value] of Object.entries(properties)) this.setProperty(relationship, key, value);
+    this.dirty = true;
+    return relationship;
+  }
+
+  /** Sets one property; null or undefined removes it. Throws on values Neo4j would reject. */
+  setProperty(entity: GraphNode | GraphRelationship, key: string, value: unknown): void {
+    const next = value === null || value === undefined ? undefined : toPropertyValue(key, value);
+    const previous = entity.properties[key];
+    this.writeProperty(entity, key, next);
+    this.journal?.push(() => this.writeProperty(entity, key, previous));
+    this.dirty = true;
+  }
+
+  addLabel(node: GraphNode, label: string): void {
+    if (node.labels.includes(label)) return;
+    node.labels.push(label);
+    this.journal?.push(() => node.labels.pop());
+    this.dirty = true;
+  }
+
+  deleteRelationship(relationship: GraphRelationship): void {
+    if (!this.relationshipMap.has(relationship.key)) return;
+    this.detachRelationship(relationship);
+    this.journal?.push(() => this.attachRelationship(relationship));
+    this.dirty = true;
+  }
+
+  /** Deletes a node; without `detach` a node that still has relationships is refused like Neo4j does. */
+  deleteNode(node: GraphNode, detach: boolean): void {
+    if (!this.nodeMap.has(node.key)) return;
+    const attached = [...this.relationshipsOf(node, "out"), ...this.relationshipsOf(node, "in")];
+    if (attached.length > 0 && !detach) {
+      throw new Error(`Cannot delete node<${node.key}>, because it still has relationships. To delete this node, you must first delete its relationships.`);
+    }
+    for (const relationship of attached) this.deleteRelationship(relationship);
+    if ("id" in node.properties) removeFromIndex(this.nodesByIdProperty, node.properties.id, node.key);
+    this.nodeMap.delete(node.key);
+    this.journal?.push(() => {
+      this.nodeMap.set(node.key, node);
+      if ("id" in node.properties) addToIndex(this.nodesByIdProperty, node.properties.id, node.key);
+    });
+    this.dirty = true;
+  }
+
+  toSnapshot(savedAt: string, seedFingerprint: string | null): GraphSnapshot {
+    const positions = new Map<number, number>();
+    const nodes = this.nodes().map((node, index) => {
+      positions.set(node.key, index);
+      return { labels: [...node.labels], properties: { ...node.properties } };
+    });
+    return {
+      version: 1,
+      savedAt,
+      seedFingerprint,
+      nodes,
+      relationships: this.relationships().map((relationship) => ({
+        type: relationship.type,
+        start: positions.get(relationship.start) as number,
+        end: positions.get(relationship.end) as number,
+        properties: { ...relationship.properties },
+      })),
+    };
+  }
+
+  private writeProperty(entity: GraphNode | GraphRelationship, key: string, value: PropertyValue | undefined): void {
+    const indexed = entity instanceof GraphNode && key === "id";
+    if (indexed && "id" in entity.properties) removeFromIndex(this.nodesByIdProperty, entity.properties.id, entity.key);
+    if (value === undefined) {
+      delete entity.properties[key];
+      return;
+    }
+    entity.properties[key] = value;
+    if (indexed && !Array.isArray(value)) addToIndex(this.nodesByIdProperty, value, entity.key);
+  }
+
+  private attachRelationship(relationship: GraphRelationship): void {
+    this.relationshipMap.set(relationship.key, relationship);
+    addToIndex(this.outgoing, relationship.start, relationship.key);
+    addToIndex(this.incoming, relationship.end, relationship.key);
+  }
+
+  private detachRelationship(relationship: GraphRelationship): void {
+    this.relationshipMap.delete(relationship.key);
+    removeFromIndex(this.outgoing, relationship.start, relationship.key);
+    removeFromIndex(this.incoming, relationship.end, relationship.key);
+  }
+
+  static fromSnapshot(snapshot: GraphSnapshot): PropertyGraph {
+    const graph = new PropertyGraph();
+    const nodes = snapshot.nodes.map((node) => graph.createNode(node.labels, node.properties));
+    for (const relationship of snapshot.relationships) {
+      const start = nodes[relationship.start];
+      const end = nodes[relationship.end];
+      if (start && end) graph.createRelationship(relationship.type, start, end, relationship.properties);
+    }
+    graph.dirty = false;
+    return graph;
+  }
+}
+
+function toPropertyValue(key: string, value: unknown): PropertyValue {
+  if (typeof value === "string" || typeof value === "boolean") return value;
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  if (Array.isArray(value)) {
+    const kinds = new Set(value.map((item) => typeof item));
+    if (kinds.size <= 1 && value.every((item) => ["string", "number", "boolean"].includes(typeof item))) {
+      return [...value] as PropertyValue;
+    }
+    throw new Error(`Collections containing mixed types or nested values can not be stored in properties (property '${key}').`);
+  }
+  throw new Error(`Property values can only be of primitive types or arrays thereof (property '${key}').`);
+}
+
+function addToIndex<K>(index: Map<K, Set<number>>, key: K, value: number): void {
+  const set = index.get(key) ?? new Set<number>();
+  set.add(value);
+  index.set(key, set);
+}
+
+function removeFromIndex<K>(index: Map<K, Set<number>>, key: K, value: number): void {
+  const set = index.get(key);
+  if (!set) return;
+  set.delete(value);
+  if (set.size === 0) index.delete(key);
+}
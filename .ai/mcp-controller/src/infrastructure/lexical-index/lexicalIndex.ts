@@ -2,66 +2,317 @@ export interface LexicalHit {
   filePath: string;
   line: number;
   preview: string;
+  /** BM25 score relative to the best hit of the same query (0..1]; regex and phrase-only hits score 1 */
   score: number;
 }
 
+export interface LexicalSearchOptions {
+  limit?: number;
+  /** Return false to drop a file before ranking, so `limit` counts only admitted hits */
+  fileFilter?: (filePath: string) => boolean;
+}
+
+/**
+ * Parsed search query:
+ * - `/pattern/flags` — the whole query is a regex scanned line by line
+ * - `"quoted text"` — every phrase must occur in the line (case-insensitive)
+ * - remaining words — BM25-ranked terms, any of which may match
+ */
+export interface LexicalQuery {
+  terms: string[];
+  phrases: string[];
+  regex: RegExp | null;
+}
+
 interface IndexedLine {
   filePath: string;
   line: number;
   text: string;
-  tokens: Set<string>;
+  length: number;
 }
 
+/** BM25 term-frequency saturation and length normalisation */
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/**
+ * Regex queries run on the controller's event loop, shared by every client,
+ * so their cost is bounded: short patterns without nested quantifiers, at
+ * most this many admitted lines scanned, each tested up to a length cap.
+ */
+const MAX_REGEX_PATTERN_LENGTH = 256;
+const MAX_REGEX_SCANNED_LINES = 250_000;
+const MAX_REGEX_LINE_LENGTH = 2_000;
+
 export class LexicalIndex {
-  private readonly lines: IndexedLine[] = [];
+  private lines = new Map<number, IndexedLine>();
+  /** token -> lineId -> term frequency */
+  private postings = new Map<string, Map<number, number>>();
+  /** Line ids grouped per file so a single document can be replaced in place */
+  private readonly documents = new Map<string, number[]>();
+  private nextLineId = 0;
+  private totalLength = 0;
 
   clear(): void {
-    this.lines.length = 0;
+    this.lines = new Map();
+    this.postings = new Map();
+    this.documents.clear();
+    this.nextLineId = 0;
+    this.totalLength = 0;
   }
 
   addDocument(filePath: string, content: string): void {
+    const lineIds = this.documents.get(filePath) ?? [];
     const rows = content.split("\n");
     for (let i = 0; i < rows.length; i += 1) {
       const lineText = rows[i];
-      const tokens = new Set(tokenize(lineText));
-      if (tokens.size === 0) {
+      const tokens = tokenizeForIndex(lineText);
+      if (tokens.length === 0) {
         continue;
       }
-      this.lines.push({
-        filePath,
-        line: i + 1,
-        text: lineText,
-        tokens
-      });
+      const lineId = this.nextLineId++;
+      this.lines.set(lineId, { filePath, line: i + 1, text: lineText, length: tokens.length });
+      this.totalLength += tokens.length;
+      for (const token of tokens) {
+        let posting = this.postings.get(token);
+        if (!posting) {
+          posting = new Map();
+          this.postings.set(token, posting);
+        }
+        posting.set(lineId, (posting.get(lineId) ?? 0) + 1);
+      }
+      lineIds.push(lineId);
     }
+    this.documents.set(filePath, lineIds);
   }
 
-  searchLexeme(query: string, limit = 20): LexicalHit[] {
-    const queryTokens = tokenize(query);
-    if (queryTokens.length === 0) {
+  removeDocument(filePath: string): boolean {
+    const lineIds = this.documents.get(filePath);
+    if (!lineIds) {
+      return false;
+    }
+    for (const lineId of lineIds) {
+      const row = this.lines.get(lineId);
+      if (!row) {
+        continue;
+      }
+      for (const token of new Set(tokenizeForIndex(row.text))) {
+        const posting = this.postings.get(token);
+        posting?.delete(lineId);
+        if (posting && posting.size === 0) {
+          this.postings.delete(token);
+        }
+      }
+      this.totalLength -= row.length;
+      this.lines.delete(lineId);
+    }
+    return this.documents.delete(filePath);
+  }
+
+  searchLexeme(query: string, limitOrOptions: number | LexicalSearchOptions = 20): LexicalHit[] {
+    const options = typeof limitOrOptions === "number" ? { limit: limitOrOptions } : limitOrOptions;
+    const limit = Math.max(1, options.limit ?? 20);
+    const parsed = parseLexicalQuery(query);
+    const admits = (row: IndexedLine) => !options.fileFilter || options.fileFilter(row.filePath);
+
+    if (parsed.regex) {
+      return this.scanRegex(parsed.regex, limit, options.fileFilter);
+    }
+    if (parsed.terms.length === 0 && parsed.phrases.length === 0) {
       return [];
     }
+
+    const phrases = parsed.phrases.map((phrase) => phrase.toLowerCase());
+    const matchesPhrases = (row: IndexedLine) => {
+      const lower = row.text.toLowerCase();
+      return phrases.every((phrase) => lower.includes(phrase));
+    };
+
+    const scores = new Map<number, number>();
+    if (phrases.length > 0) {
+      for (const [lineId, row] of this.lines) {
+        if (matchesPhrases(row) && admits(row)) {
+          scores.set(lineId, 0);
+        }
+      }
+    }
+    const lineCount = this.lines.size;
+    const avgLength = lineCount > 0 ? this.totalLength / lineCount : 1;
+    for (const term of new Set(parsed.terms)) {
+      const posting = this.postings.get(term);
+      if (!posting) {
+        continue;
+      }
+      const idf = Math.log(1 + (lineCount - posting.size + 0.5) / (posting.size + 0.5));
+      for (const [lineId, tf] of posting) {
+        const current = scores.get(lineId);
+        if (phrases.length > 0 && current === undefined) {
+          continue;
+        }
+        const row = this.lines.get(lineId);
+        if (!row || (current === undefined && !admits(row))) {
+          continue;
+        }
+        const norm = tf + BM25_K1 * (1 - BM25_B + BM25_B * (row.length / avgLength));
+        scores.set(lineId, (current ?? 0) + idf * ((tf * (BM25_K1 + 1)) / norm));
+      }
+    }
+
+    let best = 0;
+    for (const raw of scores.values()) {
+      best = Math.max(best, raw);
+    }
+    const hits: LexicalHit[] = [];
+    for (const [lineId, raw] of scores) {
+      const row = this.lines.get(lineId);
+      if (row) {
+        hits.push(toHit(row, best > 0 ? raw / best : 1));
+      }
+    }
+    return hits.sort(compareHits).slice(0, limit);
+  }
+
+  /**
+   * Regex hits all score 1, so they rank by path and line: walking files in
+   * that order lets the scan stop at `limit`. Filtered-out files are skipped
+   * before any line is tested.
+   */
+  private scanRegex(regex: RegExp, limit: number, fileFilter?: (filePath: string) => boolean): LexicalHit[] {
     const hits: LexicalHit[] = [];
-    for (const row of this.lines) {
-      const overlap = queryTokens.filter((token) => row.tokens.has(token)).length;
-      if (overlap === 0) {
+    let scanned = 0;
+    const filePaths = [...this.documents.keys()].sort((a, b) => a.localeCompare(b));
+    for (const filePath of filePaths) {
+      if (fileFilter && !fileFilter(filePath)) {
         continue;
       }
-      hits.push({
-        filePath: row.filePath,
-        line: row.line,
-        preview: row.text.trim().slice(0, 240),
-        score: overlap / queryTokens.length
-      });
-    }
-    return hits.sort((a, b) => b.score - a.score).slice(0, Math.max(1, limit));
+      const rows = (this.documents.get(filePath) ?? [])
+        .map((lineId) => this.lines.get(lineId))
+        .filter((row): row is IndexedLine => Boolean(row))
+        .sort((a, b) => a.line - b.line);
+      for (const row of rows) {
+        if (scanned++ >= MAX_REGEX_SCANNED_LINES) {
+          return hits;
+        }
+        if (regex.test(row.text.slice(0, MAX_REGEX_LINE_LENGTH))) {
+          hits.push(toHit(row, 1));
+          if (hits.length >= limit) {
+            return hits;
+          }
+        }
+      }
+    }
+    return hits;
+  }
+}
+
+/**
+ * Split a query into regex, quoted phrases and terms. Terms keep the whole
+ * identifier (`loadOrders` only matches that identifier); the index also
+ * stores the sub-tokens, so a query for `orders` still finds `loadOrders`.
+ * Throws LEXICAL_QUERY_INVALID for a malformed regex, one longer than
+ * MAX_REGEX_PATTERN_LENGTH, or one with a quantified group that itself
+ * contains a quantifier (`(a+)+`), which can backtrack exponentially.
+ */
+export function parseLexicalQuery(query: string): LexicalQuery {
+  const trimmed = query.trim();
+  const regexMatch = /^\/(.+)\/([a-z]*)$/s.exec(trimmed);
+  if (regexMatch) {
+    if (regexMatch[1].length > MAX_REGEX_PATTERN_LENGTH) {
+      throw new Error(`LEXICAL_QUERY_INVALID: regex is longer than ${MAX_REGEX_PATTERN_LENGTH} characters`);
+    }
+    if (hasNestedQuantifier(regexMatch[1])) {
+      throw new Error("LEXICAL_QUERY_INVALID: regex repeats a group that already contains a quantifier; drop the inner or outer repetition");
+    }
+    try {
+      const flags = regexMatch[2].replace(/[gy]/g, "");
+      return { terms: [], phrases: [], regex: new RegExp(regexMatch[1], flags) };
+    } catch (error) {
+      throw new Error(`LEXICAL_QUERY_INVALID: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  const phrases: string[] = [];
+  const rest = trimmed.replace(/"([^"]+)"/g, (_match, phrase: string) => {
+    phrases.push(phrase);
+    return " ";
+  });
+  return { terms: words(rest).map((word) => word.toLowerCase()), phrases, regex: null };
+}
+
+/**
+ * Index tokens for one line: each word in full plus its kebab-case parts and
+ * camelCase / snake_case sub-tokens, lowercased, at least two characters.
+ */
+export function tokenizeForIndex(value: string): string[] {
+  const tokens: string[] = [];
+  for (const word of words(value)) {
+    const parts = new Set<string>([word.toLowerCase()]);
+    for (const kebab of word.split("-")) {
+      parts.add(kebab.toLowerCase());
+      for (const sub of splitIdentifier(kebab)) {
+        parts.add(sub.toLowerCase());
+      }
+    }
+    for (const part of parts) {
+      if (part.length >= 2) {
+        tokens.push(part);
+      }
+    }
   }
+  return tokens;
 }
 
-function tokenize(value: string): string[] {
+/** True when a group holding a quantifier is itself followed by `*`, `+` or `{`. */
+function hasNestedQuantifier(pattern: string): boolean {
+  const groups: boolean[] = [];
+  let quantified = false;
+  for (let i = 0; i < pattern.length; i += 1) {
+    const char = pattern[i];
+    if (char === "\\") {
+      i += 1;
+      continue;
+    }
+    if (char === "[") {
+      // Skip the character class; quantifier characters inside it are literals
+      for (i += 1; i < pattern.length && pattern[i] !== "]"; i += 1) {
+        if (pattern[i] === "\\") i += 1;
+      }
+      continue;
+    }
+    if (char === "(") {
+      groups.push(quantified);
+      quantified = false;
+    } else if (char === ")") {
+      const inner: boolean = quantified;
+      quantified = (groups.pop() ?? false) || inner;
+      if (inner && /[*+{]/.test(pattern[i + 1] ?? "")) {
+        return true;
+      }
+    } else if (char === "*" || char === "+" || char === "{") {
+      quantified = true;
+    }
+  }
+  return false;
+}
+
+function words(value: string): string[] {
+  return value.match(/[A-Za-z0-9_]+(?:-[A-Za-z0-9_]+)*/g) ?? [];
+}
+
+function splitIdentifier(value: string): string[] {
   return value
-    .toLowerCase()
-    .split(/[^a-z0-9_]+/)
-    .map((item) => item.trim())
-    .filter((item) => item.length >= 2);
+    .split("_")
+    .flatMap((segment) => segment.match(/[A-Z]+(?![a-z])|[A-Z]?[a-z]+|[0-9]+/g) ?? []);
+}
+
+function toHit(row: IndexedLine, score: number): LexicalHit {
+  return {
+    filePath: row.filePath,
+    line: row.line,
+    preview: row.text.trim().slice(0, 240),
+    score
+  };
+}
+
+function compareHits(a: LexicalHit, b: LexicalHit): number {
+  return b.score - a.score || a.filePath.localeCompare(b.filePath) || a.line - b.line;
 }
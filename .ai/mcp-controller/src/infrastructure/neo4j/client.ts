@@ -18,7 +18,18 @@ export interface Neo4jConnectionConfig {
 /* ── Minimal type aliases so the rest of the file compiles
       without a top-level import of neo4j-driver. ────────── */
 type Driver = { session: (opts: Record<string, unknown>) => any; close: () => Promise<void>; verifyConnectivity: () => Promise<void> };
-type Neo4jRecord = { toObject: () => unknown };
+export type GraphRecord = { toObject: () => unknown; get: (key: string) => unknown };
+
+/**
+ * Query surface shared by Neo4jClient and the embedded graph store, so graph
+ * consumers run the same Cypher against either backend. [REF:EMBEDDED-GRAPH]
+ */
+export interface GraphClient {
+  verifyConnectivity(): Promise<void>;
+  runWrite<T = unknown>(query: string, params?: Record<string, unknown>, mapper?: (record: GraphRecord) => T): Promise<T[]>;
+  runRead<T = unknown>(query: string, params?: Record<string, unknown>, mapper?: (record: GraphRecord) => T): Promise<T[]>;
+  close(): Promise<void>;
+}
 
 /** Cached reference to the neo4j-driver default export (loaded once). */
 let _neo4j: any = null;
@@ -30,7 +41,7 @@ async function loadNeo4j(): Promise<any> {
   return _neo4j;
 }
 
-export class Neo4jClient {
+export class Neo4jClient implements GraphClient {
   private driver: Driver | null = null;
   private activeUri: string | null = null;
 
@@ -43,7 +54,7 @@ export class Neo4jClient {
   async runWrite<T = unknown>(
     query: string,
     params: Record<string, unknown> = {},
-    mapper?: (record: Neo4jRecord) => T
+    mapper?: (record: GraphRecord) => T
   ): Promise<T[]> {
     const neo4j = await loadNeo4j();
     const driver = await this.ensureDriver();
@@ -51,9 +62,9 @@ export class Neo4jClient {
     try {
       const result = await session.run(query, params);
       if (!mapper) {
-        return result.records.map((record: Neo4jRecord) => record.toObject() as T);
+        return result.records.map((record: GraphRecord) => record.toObject() as T);
       }
-      return result.records.map((record: Neo4jRecord) => mapper(record));
+      return result.records.map((record: GraphRecord) => mapper(record));
     } finally {
       await session.close();
     }
@@ -62,7 +73,7 @@ export class Neo4jClient {
   async runRead<T = unknown>(
     query: string,
     params: Record<string, unknown> = {},
-    mapper?: (record: Neo4jRecord) => T
+    mapper?: (record: GraphRecord) => T
   ): Promise<T[]> {
     const neo4j = await loadNeo4j();
     const driver = await this.ensureDriver();
@@ -70,9 +81,9 @@ export class Neo4jClient {
     try {
       const result = await session.run(query, params);
       if (!mapper) {
-        return result.records.map((record: Neo4jRecord) => record.toObject() as T);
+        return result.records.map((record: GraphRecord) => record.toObject() as T);
       }
-      return result.records.map((record: Neo4jRecord) => mapper(record));
+      return result.records.map((record: GraphRecord) => mapper(record));
     } finally {
       await session.close();
     }
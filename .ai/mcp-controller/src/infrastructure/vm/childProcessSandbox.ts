@@ -0,0 +1,300 @@
+import { spawn, type ChildProcess } from "node:child_process";
+
+export interface ChildProcessSandboxPolicy {
+  /** cwd of the child and base for the sandboxed `require` */
+  worktreeRoot: string;
+  /** Absolute paths the child may read (Node permission model) */
+  readPaths: string[];
+  /** Absolute paths the child may write */
+  writePaths: string[];
+  /** Exact specifiers the sandboxed `require` may load */
+  allowedModules: string[];
+  /** Command lines `exec()` may start; the argv must equal an entry's whitespace-separated words */
+  allowedCommands: string[];
+  /** Environment passed to the child; everything else is dropped */
+  env: Record<string, string>;
+  timeoutMs: number;
+  memoryCapMb: number;
+}
+
+export interface SandboxCommandRecord {
+  command: string;
+  exitCode: number | null;
+  stdout: string;
+  stderr: string;
+}
+
+export interface ChildProcessRunResult {
+  ok: boolean;
+  value?: unknown;
+  error?: string;
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  timedOut: boolean;
+  durationMs: number;
+  /** False when the running Node has no permission model (< v20); fs allowlists were not enforced */
+  fsPolicyEnforced: boolean;
+  commands: SandboxCommandRecord[];
+}
+
+/** Cap for captured stdout/stderr per stream; the tail is kept. */
+const MAX_CAPTURE_CHARS = 512_000;
+
+/**
+ * Child bootstrap. Receives the job over IPC, exposes `require` (module
+ * allowlist) and `exec` as globals next to the declared inputs, evaluates the
+ * IIFE and posts the settled value back. `exec` is a request to the parent,
+ * which checks the command allowlist and runs it.
+ *
+ * Before the IIFE runs, every global that can load modules around the
+ * allowlist (`process.getBuiltinModule`, `process.binding`, `module.require`,
+ * the `-e` `require` and builtin-module globals) is removed, and `process` is replaced by a frozen object
+ * with the env, cwd and runtime version only. The bootstrap keeps the real
+ * process in a closure for IPC.
+ */
+const CHILD_BOOTSTRAP = `
+"use strict";
+const vm = require("node:vm");
+const path = require("node:path");
+const { createRequire, builtinModules } = require("node:module");
+const host = process;
+const pending = new Map();
+let nextExecId = 0;
+host.on("message", (message) => {
+  if (message.type === "job") runJob(message);
+  if (message.type === "exec_result" && pending.has(message.id)) {
+    const { resolve, reject } = pending.get(message.id);
+    pending.delete(message.id);
+    if (message.error) reject(new Error(message.error));
+    else resolve(message.record);
+  }
+});
+// Runs per job, not at startup: \`-e\` puts \`module\` back once the bootstrap has been evaluated
+function lockDownGlobals(worktreeRoot) {
+  for (const name of ["getBuiltinModule", "binding", "_linkedBinding", "dlopen", "mainModule"]) {
+    try { delete host[name]; } catch {}
+  }
+  // \`-e\` also installs every builtin module (\`fs\`, \`child_process\`, ...) as a lazy global
+  const names = ["module", "exports", "require", "__filename", "__dirname", ...builtinModules];
+  for (const name of names.filter((name) => name !== "console" && name !== "crypto")) {
+    delete globalThis[name];
+  }
+  Object.defineProperty(globalThis, "process", { value: sandboxProcess(worktreeRoot), writable: false, configurable: false });
+}
+function sandboxProcess(worktreeRoot) {
+  return Object.freeze({
+    env: Object.freeze({ ...host.env }),
+    cwd: () => worktreeRoot,
+    platform: host.platform,
+    arch: host.arch,
+    version: host.version,
+    versions: Object.freeze({ ...host.versions }),
+  });
+}
+async function runJob(job) {
+  const baseRequire = createRequire(path.join(job.worktreeRoot, "__sandbox__.js"));
+  const sandboxRequire = (specifier) => {
+    if (!job.allowedModules.includes(specifier)) throw new Error("SANDBOX_MODULE_DENIED: " + specifier);
+    return baseRequire(specifier);
+  };
+  const exec = (command, args = []) => new Promise((resolve, reject) => {
+    const id = nextExecId++;
+    pending.set(id, { resolve, reject });
+    host.send({ type: "exec", id, command: String(command), args: args.map(String) });
+  });
+  lockDownGlobals(job.worktreeRoot);
+  Object.assign(globalThis, job.context, { require: sandboxRequire, exec });
+  try {
+    const value = await vm.runInThisContext(job.iife, { filename: "code_run.iife.js" });
+    host.send({ type: "result", ok: true, value }, () => host.exit(0));
+  } catch (error) {
+    host.send({ type: "result", ok: false, error: (error && error.message) || String(error) }, () => host.exit(1));
+  }
+}
+`;
+
+/**
+ * Run an async IIFE in a separate Node process.
+ *
+ * Boundaries: the Node permission model restricts the child's fs reads/writes
+ * to the policy paths and forbids it from spawning processes; the environment
+ * is replaced wholesale; everything is killed at the wall-clock limit.
+ * `exec(command, args)` is brokered by this (parent) process: only allowlisted
+ * command lines run, with the scrubbed env and the worktree as cwd, but as
+ * ordinary OS processes outside the permission model.
+ */
+export function runInChildProcess(input: {
+  iife: string;
+  context: Record<string, unknown>;
+  policy: ChildProcessSandboxPolicy;
+}): Promise<ChildProcessRunResult> {
+  const { policy } = input;
+  const permissionFlag = permissionFlagForRuntime();
+  const args = [
+    "--no-warnings",
+    `--max-old-space-size=${Math.max(16, Math.floor(policy.memoryCapMb))}`,
+  ];
+  if (permissionFlag) {
+    args.push(permissionFlag);
+    for (const readPath of new Set([...policy.readPaths, ...policy.writePaths])) {
+      args.push(`--allow-fs-read=${readPath}`);
+    }
+    for (const writePath of new Set(policy.writePaths)) {
+      args.push(`--allow-fs-write=${writePath}`);
+    }
+  }
+  args.push("-e", CHILD_BOOTSTRAP);
+
+  const startedAt = Date.now();
+  return new Promise((resolve) => {
+    const child = spawn(process.execPath, args, {
+      cwd: policy.worktreeRoot,
+      env: policy.env,
+      stdio: ["ignore", "pipe", "pipe", "ipc"],
+    });
+    const commandProcesses = new Set<ChildProcess>();
+    const commands: SandboxCommandRecord[] = [];
+
+    let stdout = "";
+    let stderr = "";
+    let settled: { ok: boolean; value?: unknown; error?: string } | null = null;
+    let timedOut = false;
+    child.stdout?.on("data", (chunk) => { stdout = (stdout + chunk).slice(-MAX_CAPTURE_CHARS); });
+    child.stderr?.on("data", (chunk) => { stderr = (stderr + chunk).slice(-MAX_CAPTURE_CHARS); });
+    child.on("message", (payload) => {
+      const message = payload as { type: string; id?: number; command?: string; args?: string[]; ok?: boolean; value?: unknown; error?: string };
+      if (message.type === "result") {
+        settled = { ok: Boolean(message.ok), value: message.value, error: message.error };
+        return;
+      }
+      if (message.type === "exec") {
+        void runAllowlistedCommand(message.command ?? "", message.args ?? [], policy, commandProcesses).then(
+          (record) => {
+            commands.push(record);
+            if (child.connected) child.send({ type: "exec_result", id: message.id, record });
+          },
+          (error: unknown) => {
+            if (child.connected) child.send({ type: "exec_result", id: message.id, error: error instanceof Error ? error.message : String(error) });
+          }
+        );
+      }
+    });
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      for (const commandProcess of commandProcesses) killTree(commandProcess);
+      child.kill("SIGKILL");
+    }, policy.timeoutMs);
+
+    const finish = (exitCode: number | null, spawnError?: Error) => {
+      clearTimeout(timer);
+      for (const commandProcess of commandProcesses) killTree(commandProcess);
+      const result = settled as typeof settled;
+      resolve({
+        ok: !timedOut && !spawnError && Boolean(result?.ok),
+        value: result?.ok ? result.value : undefined,
+        error: timedOut
+          ? `Code run exceeded timeout of ${policy.timeoutMs}ms`
+          : spawnError?.message ?? result?.error ?? (result ? undefined : `Sandbox process exited with code ${exitCode} before reporting a result`),
+        stdout,
+        stderr,
+        exitCode,
+        timedOut,
+        durationMs: Date.now() - startedAt,
+        fsPolicyEnforced: permissionFlag !== null,
+        commands,
+      });
+    };
+    child.on("error", (error) => finish(null, error));
+    child.on("close", (exitCode) => finish(exitCode));
+
+    child.send({
+      type: "job",
+      iife: input.iife,
+      context: input.context,
+      worktreeRoot: policy.worktreeRoot,
+      allowedModules: policy.allowedModules,
+    });
+  });
+}
+
+/** Split a configured command line into its argv words. */
+export function commandArgv(commandLine: string): string[] {
+  return commandLine.trim().split(/\s+/).filter(Boolean);
+}
+
+/**
+ * An allowlist entry matches only the identical argv: no appended args, and an
+ * arg holding whitespace or shell syntax never equals one of the entry's words.
+ */
+export function isCommandAllowed(argv: string[], allowedCommands: string[]): boolean {
+  return allowedCommands.some((allowed) => {
+    const words = commandArgv(allowed);
+    return words.length === argv.length && words.every((word, index) => word === argv[index]);
+  });
+}
+
+function runAllowlistedCommand(
+  command: string,
+  args: string[],
+  policy: ChildProcessSandboxPolicy,
+  running: Set<ChildProcess>
+): Promise<SandboxCommandRecord> {
+  const line = [command, ...args].join(" ");
+  if (!isCommandAllowed([command, ...args], policy.allowedCommands)) {
+    return Promise.reject(new Error(`SANDBOX_COMMAND_DENIED: ${line}`));
+  }
+  return new Promise((resolve, reject) => {
+    const commandProcess = spawn(command, args, {
+      cwd: policy.worktreeRoot,
+      env: policy.env,
+      shell: process.platform === "win32",
+      // Own process group so the timeout also reaps whatever the command spawns
+      detached: process.platform !== "win32",
+    });
+    running.add(commandProcess);
+    let stdout = "";
+    let stderr = "";
+    commandProcess.stdout?.on("data", (chunk) => { stdout = (stdout + chunk).slice(-MAX_CAPTURE_CHARS); });
+    commandProcess.stderr?.on("data", (chunk) => { stderr = (stderr + chunk).slice(-MAX_CAPTURE_CHARS); });
+    commandProcess.on("error", (error) => {
+      running.delete(commandProcess);
+      reject(error);
+    });
+    commandProcess.on("close", (exitCode) => {
+      running.delete(commandProcess);
+      resolve({ command: line, exitCode, stdout, stderr });
+    });
+  });
+}
+
+/** Build the child environment from an allowlist of variable names. */
+export function scrubEnv(allowlist: string[], overrides: Record<string, string> = {}): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const key of allowlist) {
+    const value = process.env[key];
+    if (typeof value === "string") env[key] = value;
+  }
+  return { ...env, ...overrides };
+}
+
+function permissionFlagForRuntime(): string | null {
+  const major = Number(process.versions.node.split(".")[0]);
+  if (major >= 23) return "--permission";
+  if (major >= 20) return "--experimental-permission";
+  return null;
+}
+
+function killTree(commandProcess: ChildProcess): void {
+  const pid = commandProcess.pid;
+  if (pid !== undefined && process.platform !== "win32") {
+    try {
+      process.kill(-pid, "SIGKILL");
+      return;
+    } catch {
+      // Group already gone; fall through to the direct kill
+    }
+  }
+  commandProcess.kill("SIGKILL");
+}
@@ -1,5 +1,7 @@
 import type { TurnRequest, TurnResponse } from "../contracts/controller";
 import { TOOL_NAME } from "../shared/constants";
+import { catalogVerbs, verbDescriptionsForCapabilities } from "../shared/verbCatalog";
+import { verbArgSchema } from "../domains/controller/verbArgSchemas";
 
 /**
  * JSON-Schema for the single controller.turn tool input.
@@ -14,7 +16,7 @@ export const CONTROLLER_TURN_INPUT_SCHEMA = {
     agentId: { type: "string", description: "Agent identifier for multi-agent tracking." },
     originalPrompt: { type: "string", description: "The original user prompt for this work unit." },
     verb: { type: "string", description: "The command verb to execute." },
-    args: { type: "object", additionalProperties: true, description: "Verb-specific arguments." },
+    args: { type: "object", additionalProperties: true, description: "Verb-specific arguments. Each verb's args schema is published on its own tool when verb tools are exposed; invalid args are denied with path-level argErrors." },
     traceMeta: { type: "object", additionalProperties: true, description: "Optional trace metadata forwarded from caller." },
   },
   required: ["verb"],
@@ -27,6 +29,51 @@ export const TOOL_DESCRIPTION =
   "Start every session with verb='initialize_work' to receive a contextPack, strategy, and planGraphSchema. " +
   "All subsequent reads are pack-scoped. Use 'escalate' to request additional context.";
 
+export interface McpToolDescriptor {
+  name: string;
+  description: string;
+  inputSchema: Record<string, unknown>;
+}
+
+/**
+ * Tools for tools/list: always controller_turn, plus one tool per verb when
+ * `exposeVerbTools` is set. A verb tool takes the controller_turn envelope
+ * without `verb`, and its `args` carry that verb's own schema.
+ */
+export function listTools(options: { exposeVerbTools?: boolean } = {}): McpToolDescriptor[] {
+  const tools: McpToolDescriptor[] = [{ name: TOOL_NAME, description: TOOL_DESCRIPTION, inputSchema: CONTROLLER_TURN_INPUT_SCHEMA }];
+  if (!options.exposeVerbTools) return tools;
+
+  const { verb: _verb, args: _args, ...envelope } = CONTROLLER_TURN_INPUT_SCHEMA.properties;
+  const descriptors = verbDescriptionsForCapabilities(catalogVerbs());
+  for (const [verb, descriptor] of Object.entries(descriptors)) {
+    const argsSchema = verbArgSchema(verb);
+    if (!argsSchema) continue;
+    tools.push({
+      name: verb,
+      description: `${descriptor.description} ${descriptor.whenToUse} Same as ${TOOL_NAME} with verb='${verb}'.`,
+      inputSchema: {
+        type: "object",
+        additionalProperties: false,
+        properties: { ...envelope, args: argsSchema },
+        required: argsSchema.required?.length ? ["args"] : [],
+      },
+    });
+  }
+  return tools;
+}
+
+/**
+ * Turn a tools/call into a TurnRequest. Verb tools are accepted whenever the
+ * name is a verb with an args schema, whether or not they were listed, so a
+ * client never breaks when the option flips. Null for unknown tool names.
+ */
+export function resolveToolCall(name: string, raw: Record<string, unknown>): TurnRequest | null {
+  if (name === TOOL_NAME) return parseTurnRequest(raw);
+  if (!verbArgSchema(name)) return null;
+  return parseTurnRequest({ ...raw, verb: name });
+}
+
 /**
  * Parse raw tool arguments into a typed TurnRequest.
  */
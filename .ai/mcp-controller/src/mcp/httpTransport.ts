@@ -0,0 +1,241 @@
+import type { Express, Request, Response } from "express";
+import type { GatewayConfig } from "../config/types";
+import type { TurnController } from "../domains/controller/turnController";
+import { ensureId } from "../shared/ids";
+import {
+  SUPPORTED_PROTOCOL_VERSIONS,
+  handleMcpMethod,
+  isJsonRpcMessage,
+  jsonRpcError,
+  normalizeJsonRpcError,
+  verbToolsEnabled,
+  type JsonRpcFailure,
+  type JsonRpcNotification,
+  type JsonRpcSuccess,
+} from "./protocol";
+
+export const SESSION_HEADER = "mcp-session-id";
+/** Sent with `initialize` to join an existing run (e.g. a teammate's) instead of starting a new one. */
+export const RUN_SESSION_HEADER = "mcp-run-session-id";
+const PROTOCOL_VERSION_HEADER = "mcp-protocol-version";
+const KEEPALIVE_MS = 25_000;
+
+interface McpHttpSession {
+  id: string;
+  runSessionId: string;
+  lastSeen: number;
+  /** Open GET streams; they receive notifications of calls answered with plain JSON */
+  streams: Set<Response>;
+}
+
+/**
+ * MCP Streamable HTTP transport: JSON-RPC over POST, answered with JSON or,
+ * for tools/call from clients that accept it, an SSE stream carrying progress
+ * notifications before the result. `initialize` opens a session whose id
+ * (Mcp-Session-Id) maps to a controller runSessionId, so several editor
+ * clients share one controller and its warm index while keeping their runs
+ * apart. Sessions live in memory; after a restart clients initialize again.
+ */
+export class McpHttpTransport {
+  private readonly sessions = new Map<string, McpHttpSession>();
+
+  constructor(
+    private readonly input: {
+      controller: TurnController;
+      config: GatewayConfig["mcpHttp"];
+      exposeVerbTools?: boolean;
+      now?: () => number;
+    }
+  ) {}
+
+  mount(app: Express): void {
+    const route = this.input.config.path;
+    app.post(route, (req, res) => void this.handlePost(req, res));
+    app.get(route, (req, res) => this.handleGet(req, res));
+    app.delete(route, (req, res) => this.handleDelete(req, res));
+  }
+
+  /** Live session count, for the dashboard and tests. */
+  sessionCount(): number {
+    this.prune();
+    return this.sessions.size;
+  }
+
+  private async handlePost(req: Request, res: Response): Promise<void> {
+    if (!this.checkHeaders(req, res)) return;
+    const message = req.body as unknown;
+    if (Array.isArray(message)) {
+      res.status(400).json(failure(null, -32600, "JSON-RPC batches are not supported; send one message per POST."));
+      return;
+    }
+    if (!isJsonRpcMessage(message)) {
+      // Client responses to server requests need no answer; anything else is malformed
+      const isResponse = Boolean(message) && typeof message === "object" && "id" in (message as object);
+      if (isResponse) res.status(202).end();
+      else res.status(400).json(failure(null, -32600, "Invalid JSON-RPC envelope."));
+      return;
+    }
+
+    const id = "id" in message && message.id !== undefined ? message.id : undefined;
+    let session: McpHttpSession;
+    if (message.method === "initialize") {
+      session = this.openSession(headerValue(req, RUN_SESSION_HEADER));
+      res.setHeader("Mcp-Session-Id", session.id);
+    } else {
+      const found = this.sessionFor(req, res);
+      if (!found) return;
+      session = found;
+    }
+
+    const streamResult = id !== undefined && message.method === "tools/call" && accepts(req, "text/event-stream");
+    if (streamResult) openEventStream(res);
+    const notify = (notification: JsonRpcNotification): void => {
+      if (streamResult) writeEvent(res, notification);
+      else for (const stream of session.streams) writeEvent(stream, notification);
+    };
+
+    let reply: JsonRpcSuccess | JsonRpcFailure | null = null;
+    try {
+      const result = await handleMcpMethod(message.method, message.params, {
+        controller: async () => this.input.controller,
+        exposeVerbTools: this.input.exposeVerbTools ?? verbToolsEnabled(),
+        runSessionId: session.runSessionId,
+        notify,
+      });
+      if (id !== undefined) reply = { jsonrpc: "2.0", id, result: result ?? {} };
+    } catch (error) {
+      if (id !== undefined) reply = { jsonrpc: "2.0", id, error: normalizeJsonRpcError(error) };
+    }
+    session.lastSeen = this.now();
+
+    if (!reply) {
+      res.status(202).end();
+    } else if (streamResult) {
+      writeEvent(res, reply);
+      res.end();
+    } else {
+      res.json(reply);
+    }
+  }
+
+  /** Open a stream for server notifications that have no POST stream to ride on. */
+  private handleGet(req: Request, res: Response): void {
+    if (!this.checkHeaders(req, res)) return;
+    if (!accepts(req, "text/event-stream")) {
+      res.status(406).json(failure(null, -32600, "GET requires Accept: text/event-stream."));
+      return;
+    }
+    const session = this.sessionFor(req, res);
+    if (!session) return;
+
+    openEventStream(res);
+    session.streams.add(res);
+    const keepalive = setInterval(() => res.write(": keepalive\n\n"), KEEPALIVE_MS);
+    keepalive.unref();
+    req.on("close", () => {
+      clearInterval(keepalive);
+      session.streams.delete(res);
+      session.lastSeen = this.now();
+      res.end();
+    });
+  }
+
+  private handleDelete(req: Request, res: Response): void {
+    if (!this.checkHeaders(req, res)) return;
+    const session = this.sessionFor(req, res);
+    if (!session) return;
+    for (const stream of session.streams) stream.end();
+    this.sessions.delete(session.id);
+    res.status(204).end();
+  }
+
+  /** Origin allowlist (DNS rebinding guard) and protocol version pinning. */
+  private checkHeaders(req: Request, res: Response): boolean {
+    const origin = headerValue(req, "origin");
+    if (origin && !this.originAllowed(origin)) {
+      res.status(403).json(failure(null, -32600, `Origin '${origin}' is not allowed; add it to mcpHttp.allowedOrigins.`));
+      return false;
+    }
+    const version = headerValue(req, PROTOCOL_VERSION_HEADER);
+    if (version && !(SUPPORTED_PROTOCOL_VERSIONS as readonly string[]).includes(version)) {
+      res.status(400).json(failure(null, -32600, `Unsupported MCP-Protocol-Version '${version}'. Supported: ${SUPPORTED_PROTOCOL_VERSIONS.join(", ")}.`));
+      return false;
+    }
+    return true;
+  }
+
+  private originAllowed(origin: string): boolean {
+    if (this.input.config.allowedOrigins.includes(origin)) return true;
+    try {
+      const hostname = new URL(origin).hostname;
+      return hostname === "localhost" || hostname === "127.0.0.1" || hostname === "[::1]";
+    } catch {
+      return false;
+    }
+  }
+
+  private openSession(runSessionId: string | undefined): McpHttpSession {
+    this.prune();
+    const id = ensureId(undefined, "mcp");
+    const session: McpHttpSession = { id, runSessionId: ensureId(runSessionId, "run"), lastSeen: this.now(), streams: new Set() };
+    this.sessions.set(id, session);
+    return session;
+  }
+
+  /** The request's session; answers 400 (no header) or 404 (unknown or expired) otherwise. */
+  private sessionFor(req: Request, res: Response): McpHttpSession | null {
+    const id = headerValue(req, SESSION_HEADER);
+    if (!id) {
+      res.status(400).json(failure(null, -32600, "Missing Mcp-Session-Id header; send initialize first."));
+      return null;
+    }
+    this.prune();
+    const session = this.sessions.get(id);
+    if (!session) {
+      res.status(404).json(failure(null, -32001, `Session '${id}' is unknown or expired; send initialize to start a new one.`));
+      return null;
+    }
+    session.lastSeen = this.now();
+    return session;
+  }
+
+  private prune(): void {
+    const cutoff = this.now() - this.input.config.sessionIdleMs;
+    for (const [id, session] of this.sessions) {
+      if (session.streams.size === 0 && session.lastSeen <= cutoff) this.sessions.delete(id);
+    }
+  }
+
+  private now(): number {
+    return (this.input.now ?? Date.now)();
+  }
+}
+
+/* ── Helpers ─────────────────────────────────────────────── */
+
+function failure(id: JsonRpcFailure["id"], code: number, message: string): JsonRpcFailure {
+  return { jsonrpc: "2.0", id, error: jsonRpcError(code, message) };
+}
+
+function headerValue(req: Request, name: string): string | undefined {
+  const value = req.headers[name];
+  const first = Array.isArray(value) ? value[0] : value;
+  return first?.trim() ? first.trim() : undefined;
+}
+
+function accepts(req: Request, mediaType: string): boolean {
+  return (headerValue(req, "accept") ?? "").split(",").some((entry) => entry.trim().startsWith(mediaType));
+}
+
+function openEventStream(res: Response): void {
+  res.status(200);
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache");
+  res.setHeader("Connection", "keep-alive");
+  res.flushHeaders();
+}
+
+function writeEvent(res: Response, message: unknown): void {
+  if (res.writableEnded) return;
+  res.write(`event: message\ndata: ${JSON.stringify(message)}\n\n`);
+}
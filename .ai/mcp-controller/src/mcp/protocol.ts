@@ -0,0 +1,122 @@
+import type { TurnProgress } from "../contracts/controller";
+import type { TurnController } from "../domains/controller/turnController";
+import { listTools, resolveToolCall, formatTurnResult } from "./handler";
+
+/* ── JSON-RPC types (hand-rolled, zero deps) ─────────────── */
+
+export type JsonRpcId = number | string | null;
+
+export interface JsonRpcRequest {
+  jsonrpc: "2.0";
+  id?: JsonRpcId;
+  method: string;
+  params?: unknown;
+}
+
+export interface JsonRpcNotification {
+  jsonrpc: "2.0";
+  method: string;
+  params?: unknown;
+}
+
+export interface JsonRpcSuccess {
+  jsonrpc: "2.0";
+  id: JsonRpcId;
+  result: unknown;
+}
+
+export interface JsonRpcFailure {
+  jsonrpc: "2.0";
+  id: JsonRpcId;
+  error: { code: number; message: string; data?: unknown };
+}
+
+/* ── MCP protocol method dispatch (shared by all transports) ── */
+
+export const MCP_PROTOCOL_VERSION = "2025-11-25";
+
+/** Versions a client may pin with the MCP-Protocol-Version header. */
+export const SUPPORTED_PROTOCOL_VERSIONS = [MCP_PROTOCOL_VERSION, "2025-06-18", "2025-03-26"] as const;
+
+export const MCP_SERVER_INFO = {
+  protocolVersion: MCP_PROTOCOL_VERSION,
+  capabilities: { tools: {} },
+  serverInfo: { name: "mcp-controller", version: "1.0.0" },
+};
+
+export interface McpMethodContext {
+  /** Resolves the controller; stdio boots the runtime lazily on first use */
+  controller: () => Promise<TurnController>;
+  exposeVerbTools: boolean;
+  /** runSessionId for tools/call that carry none (the HTTP transport maps its session header here) */
+  runSessionId?: string;
+  /** Sends a server notification to the client that made the call */
+  notify?: (message: JsonRpcNotification) => void;
+}
+
+export async function handleMcpMethod(method: string, params: unknown, context: McpMethodContext): Promise<unknown> {
+  switch (method) {
+    case "initialize":
+      return MCP_SERVER_INFO;
+    case "notifications/initialized":
+    case "initialized":
+      return {};
+    case "ping":
+      return {};
+    case "tools/list":
+      return { tools: listTools({ exposeVerbTools: context.exposeVerbTools }) };
+    case "tools/call": {
+      const p = params as { name?: string; arguments?: Record<string, unknown>; _meta?: { progressToken?: string | number } } | undefined;
+      const turnRequest = p?.name ? resolveToolCall(p.name, p.arguments ?? {}) : null;
+      if (!turnRequest) {
+        throw jsonRpcError(-32601, `Unknown tool '${p?.name ?? "(none)"}'.`);
+      }
+      if (!turnRequest.runSessionId && context.runSessionId) {
+        turnRequest.runSessionId = context.runSessionId;
+      }
+      const progressToken = p?._meta?.progressToken;
+      const onProgress = progressToken !== undefined && context.notify
+        ? (update: TurnProgress) => context.notify!({
+            jsonrpc: "2.0",
+            method: "notifications/progress",
+            params: { progressToken, progress: update.progress, total: update.total, message: update.message },
+          })
+        : undefined;
+      const controller = await context.controller();
+      const turnResponse = await controller.handleTurn(turnRequest, { onProgress });
+      return formatTurnResult(turnResponse);
+    }
+    default:
+      throw jsonRpcError(-32601, `Method not found: ${method}`);
+  }
+}
+
+/** Whether verbs are listed as their own tools; set with MCP_EXPOSE_VERB_TOOLS. */
+export function verbToolsEnabled(env: NodeJS.ProcessEnv = process.env): boolean {
+  return parseBool(env.MCP_EXPOSE_VERB_TOOLS);
+}
+
+/* ── Helpers ─────────────────────────────────────────────── */
+
+export function parseBool(value: string | undefined): boolean {
+  if (!value) return false;
+  const normalized = value.trim().toLowerCase();
+  return normalized === "1" || normalized === "true" || normalized === "yes" || normalized === "on";
+}
+
+export function isJsonRpcMessage(payload: unknown): payload is JsonRpcRequest | JsonRpcNotification {
+  if (!payload || typeof payload !== "object" || Array.isArray(payload)) return false;
+  const cast = payload as { jsonrpc?: unknown; method?: unknown };
+  return cast.jsonrpc === "2.0" && typeof cast.method === "string";
+}
+
+export function jsonRpcError(code: number, message: string, data?: unknown): { code: number; message: string; data?: unknown } {
+  return data !== undefined ? { code, message, data } : { code, message };
+}
+
+export function normalizeJsonRpcError(error: unknown): JsonRpcFailure["error"] {
+  if (error && typeof error === "object" && !Array.isArray(error) && "code" in error && "message" in error) {
+    return error as JsonRpcFailure["error"];
+  }
+  return { code: -32603, message: error instanceof Error ? error.message : String(error) };
+}
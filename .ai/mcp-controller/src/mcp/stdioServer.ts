@@ -1,86 +1,16 @@
 import { bootstrapRuntime, type RuntimeHandle } from "../runtime/bootstrapRuntime";
-import { TOOL_NAME } from "../shared/constants";
 import {
-  CONTROLLER_TURN_INPUT_SCHEMA,
-  TOOL_DESCRIPTION,
-  parseTurnRequest,
-  formatTurnResult,
-} from "./handler";
-
-/* ── JSON-RPC types (hand-rolled, zero deps) ─────────────── */
-
-type JsonRpcId = number | string | null;
-
-interface JsonRpcRequest {
-  jsonrpc: "2.0";
-  id?: JsonRpcId;
-  method: string;
-  params?: unknown;
-}
-
-interface JsonRpcNotification {
-  jsonrpc: "2.0";
-  method: string;
-  params?: unknown;
-}
-
-interface JsonRpcSuccess {
-  jsonrpc: "2.0";
-  id: JsonRpcId;
-  result: unknown;
-}
-
-interface JsonRpcFailure {
-  jsonrpc: "2.0";
-  id: JsonRpcId;
-  error: { code: number; message: string; data?: unknown };
-}
-
-/* ── MCP protocol method dispatch ────────────────────────── */
-
-const MCP_SERVER_INFO = {
-  protocolVersion: "2025-11-25",
-  capabilities: { tools: {} },
-  serverInfo: { name: "mcp-controller", version: "1.0.0" },
-};
-
-async function handleMcpMethod(
-  method: string,
-  params: unknown,
-  ensureRuntime: () => Promise<RuntimeHandle>,
-): Promise<unknown> {
-  switch (method) {
-    case "initialize":
-      return MCP_SERVER_INFO;
-    case "notifications/initialized":
-    case "initialized":
-      return {};
-    case "ping":
-      return {};
-    case "tools/list":
-      return {
-        tools: [
-          {
-            name: TOOL_NAME,
-            description: TOOL_DESCRIPTION,
-            inputSchema: CONTROLLER_TURN_INPUT_SCHEMA,
-          },
-        ],
-      };
-    case "tools/call": {
-      const p = params as { name?: string; arguments?: Record<string, unknown> } | undefined;
-      if (!p?.name || p.name !== TOOL_NAME) {
-        throw jsonRpcError(-32601, `Unknown tool '${p?.name ?? "(none)"}'.`);
-      }
-      const runtime = await ensureRuntime();
-      const turnRequest = parseTurnRequest(p.arguments ?? {});
-      const turnResponse = await runtime.controller.handleTurn(turnRequest);
-      return formatTurnResult(turnResponse);
-    }
-    default:
-      throw jsonRpcError(-32601, `Method not found: ${method}`);
-  }
-}
+  handleMcpMethod,
+  isJsonRpcMessage,
+  normalizeJsonRpcError,
+  parseBool,
+  verbToolsEnabled,
+  type JsonRpcFailure,
+  type JsonRpcId,
+  type JsonRpcNotification,
+  type JsonRpcRequest,
+  type JsonRpcSuccess,
+} from "./protocol";
 
 /* ── Content-Length framed stdio transport ────────────────── */
 
@@ -153,6 +83,11 @@ class StdioJsonRpcTransport {
     }
   }
 
+  /** Server-initiated notification, e.g. notifications/progress during a long tools/call. */
+  notify(message: JsonRpcNotification): void {
+    process.stdout.write(JSON.stringify(message) + "\n");
+  }
+
   private writeResponse(response: JsonRpcSuccess | JsonRpcFailure): void {
     process.stdout.write(JSON.stringify(response) + "\n");
   }
@@ -162,6 +97,7 @@ class StdioJsonRpcTransport {
 
 async function main(): Promise<void> {
   const enableDashboard = parseBool(process.env.MCP_ENABLE_DASHBOARD);
+  const exposeVerbTools = verbToolsEnabled();
   const dashboardPort = process.env.MCP_DASHBOARD_PORT?.trim()
     ? Number(process.env.MCP_DASHBOARD_PORT)
     : undefined;
@@ -180,37 +116,18 @@ async function main(): Promise<void> {
     return runtimePromise;
   };
 
-  const transport = new StdioJsonRpcTransport((request) =>
-    handleMcpMethod(request.method, request.params, ensureRuntime),
+  const transport: StdioJsonRpcTransport = new StdioJsonRpcTransport((request) =>
+    handleMcpMethod(request.method, request.params, {
+      controller: async () => (await ensureRuntime()).controller,
+      exposeVerbTools,
+      notify: (message) => transport.notify(message),
+    }),
   );
   transport.start();
 }
 
 /* ── Helpers ─────────────────────────────────────────────── */
 
-function parseBool(value: string | undefined): boolean {
-  if (!value) return false;
-  const normalized = value.trim().toLowerCase();
-  return normalized === "1" || normalized === "true" || normalized === "yes" || normalized === "on";
-}
-
-function isJsonRpcMessage(payload: unknown): payload is JsonRpcRequest | JsonRpcNotification {
-  if (!payload || typeof payload !== "object" || Array.isArray(payload)) return false;
-  const cast = payload as { jsonrpc?: unknown; method?: unknown };
-  return cast.jsonrpc === "2.0" && typeof cast.method === "string";
-}
-
-function jsonRpcError(code: number, message: string, data?: unknown): { code: number; message: string; data?: unknown } {
-  return data !== undefined ? { code, message, data } : { code, message };
-}
-
-function normalizeJsonRpcError(error: unknown): JsonRpcFailure["error"] {
-  if (error && typeof error === "object" && !Array.isArray(error) && "code" in error && "message" in error) {
-    return error as JsonRpcFailure["error"];
-  }
-  return { code: -32603, message: error instanceof Error ? error.message : String(error) };
-}
-
 function logError(error: unknown): void {
   process.stderr.write(`[mcp-stdio] ${error instanceof Error ? error.stack ?? error.message : String(error)}\n`);
 }
@@ -1,10 +1,21 @@
+import path from "node:path";
 import type { GatewayConfig } from "../config/types";
 import { loadGatewayConfig } from "../config/loadConfig";
 import { ConnectorRegistry } from "../domains/connectors/connectorRegistry";
+import { SessionStore } from "../domains/controller/sessionStore";
 import { TurnController } from "../domains/controller/turnController";
+import { WorkScopeCoordinator } from "../domains/coordination/workScopeCoordinator";
 import { startHttpServer } from "../domains/dashboard/httpServer";
 import { IndexingService } from "../domains/indexing/indexingService";
 import { EventStore } from "../domains/observability/eventStore";
+import { MemoryService } from "../domains/memory/memoryService";
+import { loadMigrationSources } from "../domains/patch-exec/adpSdfMigration";
+import { loadDeclarativeCodemods } from "../domains/patch-exec/declarativeCodemod";
+import { RecipeRegistry } from "../domains/recipes/recipeRegistry";
+import { createBuiltinSideEffectDrivers } from "../domains/side-effects/builtinDrivers";
+import { SideEffectDriverRegistry } from "../domains/side-effects/sideEffectRegistry";
+import { WorktreeManager } from "../infrastructure/git/worktreeManager";
+import { resolveRepoRoot, resolveTargetRepoRoot } from "../shared/fsPaths";
 
 export interface RuntimeBootstrapOptions {
   startDashboard?: boolean;
@@ -37,19 +48,98 @@ export async function bootstrapRuntime(options: RuntimeBootstrapOptions = {}): P
     });
   }
 
+  // Keep the index current while files change (agent patches, editor saves)
+  if (config.indexing.watch) {
+    indexing.watch({
+      onError: (error) => {
+        void events.append({
+          ts: new Date().toISOString(),
+          type: "indexing_failure",
+          runSessionId: "startup",
+          workId: "startup",
+          agentId: "system",
+          payload: { filePath: "", reason: error instanceof Error ? error.message : String(error) }
+        });
+      }
+    });
+  }
+
+  // Declarative codemods from seed JSONL + approved memory records become executable ast_codemod ids
+  const codemods = await loadDeclarativeCodemods({
+    seedRoot: path.resolve(resolveRepoRoot(), config.graph.seedRoot),
+    memoryRecords: await new MemoryService().findByState("approved"),
+  });
+  for (const failure of codemods.failures) {
+    await events.append({
+      ts: new Date().toISOString(),
+      type: "codemod_load_failure",
+      runSessionId: "startup",
+      workId: "startup",
+      agentId: "system",
+      payload: { ...failure }
+    });
+  }
+
+  // MigrationRule seeds + SDF contracts back migrate_adp_to_sdf when the graph is unavailable
+  const migrationSources = await loadMigrationSources({
+    seedRoot: path.resolve(resolveRepoRoot(), config.graph.seedRoot),
+    sdfContractFiles: config.migration.sdfContractFiles.map((file) => path.resolve(resolveTargetRepoRoot(), file)),
+  });
+  for (const failure of migrationSources.failures) {
+    await events.append({
+      ts: new Date().toISOString(),
+      type: "migration_source_load_failure",
+      runSessionId: "startup",
+      workId: "startup",
+      agentId: "system",
+      payload: { ...failure }
+    });
+  }
+
+  // Recipe manifest rows with steps become runnable run_automation_recipe ids
+  const recipes = new RecipeRegistry();
+  const recipeLoad = await recipes.loadManifest(path.resolve(resolveRepoRoot(), config.recipes.manifestPath));
+  for (const failure of recipeLoad.failures) {
+    await events.append({
+      ts: new Date().toISOString(),
+      type: "recipe_load_failure",
+      runSessionId: "startup",
+      workId: "startup",
+      agentId: "system",
+      payload: { ...failure }
+    });
+  }
+
+  const worktrees = new WorktreeManager(config.repo);
+  const sideEffectDrivers = new SideEffectDriverRegistry(createBuiltinSideEffectDrivers({
+    worktrees,
+    jira: connectors,
+    indexing,
+    seedRoot: path.resolve(resolveRepoRoot(), config.graph.seedRoot),
+    swaggerRoots: config.swagger.roots,
+  }));
+
   const controller = new TurnController(
     events,
     connectors,
     indexing,
     undefined, // memoryService — use default
-    undefined, // recipes — use default
+    recipes,
     config.neo4j, // pass Neo4j config for proof chain builder [REF:PROOF-CHAINS]
+    new SessionStore(), // persist sessions under .ai/tmp/sessions so restarts can resume
+    config.sandbox, // run_sandboxed_code isolation + allowlists
+    config.budget, // per-session token limits, warnings and extensions
+    worktrees, // one checkout + branch per workId (repo.isolation)
+    sideEffectDrivers, // git, PR description, Jira comment and seed drivers behind commit gates
+    new WorkScopeCoordinator(config.coordination), // node claims, file leases and handoffs between sibling agents
+    config.graph, // Neo4j, the embedded graph store, or Neo4j with embedded fallback [REF:EMBEDDED-GRAPH]
   );
   if (options.startDashboard ?? false) {
     await startHttpServer({
       controller,
       events,
-      port: options.dashboardPort ?? config.dashboardPort
+      port: options.dashboardPort ?? config.dashboardPort,
+      mcpHttp: config.mcpHttp
     });
   }
 
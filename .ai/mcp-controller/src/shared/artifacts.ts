@@ -1,17 +1,19 @@
 import path from "node:path";
 import { writeText } from "./fileStore";
-import { workRoot } from "./fsPaths";
+import { normalizeSafePath, workRoot } from "./fsPaths";
 
 export interface ArtifactBundleInput {
   workId: string;
   runSessionId: string;
   nodeId: string;
-  operation: "apply_code_patch" | "run_sandboxed_code" | "execute_gated_side_effect";
+  operation: "apply_code_patch" | "revert_code_patch" | "run_sandboxed_code" | "execute_gated_side_effect" | "run_automation_recipe";
   result: Record<string, unknown>;
   opLog: string;
   traceRefs: string[];
   validation: Record<string, unknown>;
   diffSummary?: Record<string, unknown>;
+  /** Per-file report of a migration codemod (migrate_adp_to_sdf) */
+  migrationReport?: Record<string, unknown>;
 }
 
 export interface ArtifactBundleOutput {
@@ -21,6 +23,7 @@ export interface ArtifactBundleOutput {
   traceRefsRef: string;
   validationRef: string;
   diffSummaryRef?: string;
+  migrationReportRef?: string;
 }
 
 export async function writeArtifactBundle(input: ArtifactBundleInput): Promise<ArtifactBundleOutput> {
@@ -47,12 +50,62 @@ export async function writeArtifactBundle(input: ArtifactBundleInput): Promise<A
     await writeText(diffSummaryRef, JSON.stringify(input.diffSummary, null, 2));
   }
 
+  let migrationReportRef: string | undefined;
+  if (input.migrationReport) {
+    migrationReportRef = path.join(bundleDir, "migration.report.json");
+    await writeText(migrationReportRef, JSON.stringify(input.migrationReport, null, 2));
+  }
+
   return {
     bundleDir,
     resultRef,
     opLogRef,
     traceRefsRef,
     validationRef,
-    diffSummaryRef
+    diffSummaryRef,
+    migrationReportRef
   };
 }
+
+export interface RunOutputArtifactsInput {
+  workId: string;
+  runSessionId: string;
+  nodeId: string;
+  /** Caller-chosen ref such as `artifact://lint/report`; the scheme is dropped */
+  artifactOutputRef: string;
+  /** File name → contents */
+  files: Record<string, string>;
+}
+
+export interface RunOutputArtifactsOutput {
+  outputDir: string;
+  refs: Record<string, string>;
+}
+
+/**
+ * Directory for a code run's outputs under its `artifactOutputRef`, next to
+ * the run_sandboxed_code bundle. Throws "PATH_SCOPE_VIOLATION" when the ref
+ * escapes it.
+ */
+export function resolveRunOutputDir(input: Omit<RunOutputArtifactsInput, "files">): string {
+  const outputsRoot = path.join(
+    workRoot(input.workId),
+    "artifacts",
+    input.runSessionId,
+    input.nodeId,
+    "run_sandboxed_code",
+    "outputs"
+  );
+  const relativeRef = input.artifactOutputRef.replace(/^[a-z][a-z0-9+.-]*:\/\//i, "").trim();
+  return normalizeSafePath(outputsRoot, relativeRef || "default");
+}
+
+export async function writeRunOutputArtifacts(input: RunOutputArtifactsInput): Promise<RunOutputArtifactsOutput> {
+  const outputDir = resolveRunOutputDir(input);
+  const refs: Record<string, string> = {};
+  for (const [name, content] of Object.entries(input.files)) {
+    refs[name] = normalizeSafePath(outputDir, name);
+    await writeText(refs[name], content);
+  }
+  return { outputDir, refs };
+}
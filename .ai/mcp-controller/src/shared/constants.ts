@@ -14,15 +14,19 @@ export const PRE_PLAN_CAPABILITIES = [
   "write_scratch_file",
   "submit_execution_plan",
   "escalate",
+  "request_budget_extension",
   "signal_task_complete"
 ] as const;
 
 export const POST_PLAN_CAPABILITIES = [
   ...PRE_PLAN_CAPABILITIES,
   "apply_code_patch",
+  "revert_code_patch",
   "run_sandboxed_code",
   "execute_gated_side_effect",
-  "run_automation_recipe"
+  "run_automation_recipe",
+  "amend_execution_plan",
+  "handoff"
 ] as const;
 
-export const PACK_BLOCKED_COMMANDS = ["apply_code_patch", "run_sandboxed_code", "execute_gated_side_effect", "run_automation_recipe"] as const;
+export const PACK_BLOCKED_COMMANDS = ["apply_code_patch", "revert_code_patch", "run_sandboxed_code", "execute_gated_side_effect", "run_automation_recipe"] as const;
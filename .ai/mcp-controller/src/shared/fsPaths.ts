@@ -36,6 +36,11 @@ export function workRoot(workId: string): string {
   return path.join(resolveRepoRoot(), ".ai", "tmp", "work", workId);
 }
 
+/** Isolated checkout (git worktree or copy-on-write clone) that a work item reads and patches */
+export function worktreeCheckoutRoot(workId: string): string {
+  return path.join(workRoot(workId), "repo");
+}
+
 export function scratchRoot(workId: string): string {
   return path.join(workRoot(workId), "scratch");
 }
@@ -44,6 +49,14 @@ export function contextRoot(runSessionId: string, workId: string): string {
   return path.join(resolveRepoRoot(), ".ai", "tmp", "context", runSessionId, workId);
 }
 
+export function sessionsRoot(): string {
+  return path.join(resolveRepoRoot(), ".ai", "tmp", "sessions");
+}
+
+export function indexCacheRoot(): string {
+  return path.join(resolveRepoRoot(), ".ai", "tmp", "index");
+}
+
 export function observabilityRoot(): string {
   return path.join(resolveRepoRoot(), ".ai", "tmp", "observability");
 }
@@ -0,0 +1,75 @@
+/**
+ * Minimal glob matching for repo-relative paths (forward slashes).
+ *
+ * Supports `**` (any depth), `*` and `?` (within one segment), `{a,b}`
+ * alternatives and `[...]` classes. A pattern without a slash matches the
+ * file name at any depth (`*.spec.ts`); a pattern naming a directory also
+ * matches everything below it (`libs/shared`).
+ */
+export function compileGlob(pattern: string): RegExp {
+  const normalized = pattern.trim().replace(/\\/g, "/").replace(/^\.\//, "").replace(/^\/+/, "");
+  const body = globBodyToRegex(normalized);
+  const prefix = normalized.includes("/") ? "^" : "(?:^|/)";
+  return new RegExp(`${prefix}${body}(?:/.*)?$`);
+}
+
+/** Build a predicate from include/exclude globs; an empty include list admits everything. */
+export function createGlobFilter(include: string[] = [], exclude: string[] = []): (relativePath: string) => boolean {
+  const includes = include.filter((item) => item.trim().length > 0).map(compileGlob);
+  const excludes = exclude.filter((item) => item.trim().length > 0).map(compileGlob);
+  return (relativePath: string) => {
+    const normalized = relativePath.replace(/\\/g, "/").replace(/^\/+/, "");
+    if (includes.length > 0 && !includes.some((regex) => regex.test(normalized))) {
+      return false;
+    }
+    return !excludes.some((regex) => regex.test(normalized));
+  };
+}
+
+function globBodyToRegex(pattern: string): string {
+  let result = "";
+  let i = 0;
+  while (i < pattern.length) {
+    const ch = pattern[i];
+    if (ch === "*") {
+      if (pattern[i + 1] === "*") {
+        if (pattern[i + 2] === "/") {
+          result += "(?:.+/)?";
+          i += 3;
+        } else {
+          result += ".*";
+          i += 2;
+        }
+      } else {
+        result += "[^/]*";
+        i += 1;
+      }
+    } else if (ch === "?") {
+      result += "[^/]";
+      i += 1;
+    } else if (ch === "[") {
+      const close = pattern.indexOf("]", i + 1);
+      if (close === -1) {
+        result += "\\[";
+        i += 1;
+      } else {
+        result += pattern.slice(i, close + 1);
+        i = close + 1;
+      }
+    } else if (ch === "{") {
+      const close = pattern.indexOf("}", i + 1);
+      if (close === -1) {
+        result += "\\{";
+        i += 1;
+      } else {
+        const options = pattern.slice(i + 1, close).split(",").map(globBodyToRegex);
+        result += `(?:${options.join("|")})`;
+        i = close + 1;
+      }
+    } else {
+      result += ch.replace(/[.+^$()|\\}\]]/g, "\\$&");
+      i += 1;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,116 @@
+/**
+ * The JSON Schema subset the controller publishes for verb arguments, and a
+ * validator for it. Supported keywords: type, properties, required,
+ * additionalProperties, items, enum, const, minLength, minimum, minItems,
+ * anyOf, allOf and if/then. `description` is carried for clients only.
+ */
+export interface JsonSchema {
+  type?: JsonType | JsonType[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: readonly unknown[];
+  const?: unknown;
+  minLength?: number;
+  minimum?: number;
+  minItems?: number;
+  anyOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  if?: JsonSchema;
+  then?: JsonSchema;
+}
+
+export type JsonType = "object" | "array" | "string" | "number" | "integer" | "boolean" | "null";
+
+/** One failed check; `path` is a JS-style accessor from the validated root, e.g. `args.planGraph.nodes[0].kind`. */
+export interface SchemaViolation {
+  path: string;
+  message: string;
+}
+
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path = "$"): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+  check(value, schema, path, violations);
+  return violations;
+}
+
+function check(value: unknown, schema: JsonSchema, path: string, out: SchemaViolation[]): void {
+  if (schema.type !== undefined) {
+    const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!allowed.some((type) => hasType(value, type))) {
+      out.push({ path, message: `must be ${allowed.join(" or ")}, got ${describeType(value)}` });
+      return;
+    }
+  }
+  if (schema.const !== undefined && value !== schema.const) {
+    out.push({ path, message: `must be ${JSON.stringify(schema.const)}` });
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    out.push({ path, message: `must be one of ${schema.enum.map((item) => JSON.stringify(item)).join(", ")}` });
+  }
+  if (typeof value === "string" && schema.minLength !== undefined && value.trim().length < schema.minLength) {
+    out.push({ path, message: schema.minLength === 1 ? "must not be empty" : `must have at least ${schema.minLength} characters` });
+  }
+  if (typeof value === "number" && schema.minimum !== undefined && value < schema.minimum) {
+    out.push({ path, message: `must be >= ${schema.minimum}` });
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      out.push({ path, message: `must have at least ${schema.minItems} item(s)` });
+    }
+    if (schema.items) {
+      value.forEach((item, index) => check(item, schema.items!, `${path}[${index}]`, out));
+    }
+  } else if (isObject(value)) {
+    for (const key of schema.required ?? []) {
+      if (value[key] === undefined) out.push({ path: `${path}.${key}`, message: "is required" });
+    }
+    for (const [key, item] of Object.entries(value)) {
+      const property = schema.properties?.[key];
+      if (property) {
+        if (item !== undefined) check(item, property, `${path}.${key}`, out);
+      } else if (schema.additionalProperties === false) {
+        out.push({ path: `${path}.${key}`, message: "is not an allowed property" });
+      } else if (typeof schema.additionalProperties === "object") {
+        check(item, schema.additionalProperties, `${path}.${key}`, out);
+      }
+    }
+  }
+
+  for (const branch of schema.allOf ?? []) {
+    check(value, branch, path, out);
+  }
+  if (schema.anyOf && !schema.anyOf.some((branch) => validateJsonSchema(value, branch, path).length === 0)) {
+    // Report the branch that came closest, so the agent sees concrete fixes
+    const attempts = schema.anyOf.map((branch) => validateJsonSchema(value, branch, path));
+    out.push(...attempts.reduce((best, attempt) => (attempt.length < best.length ? attempt : best)));
+  }
+  if (schema.if && schema.then && validateJsonSchema(value, schema.if, path).length === 0) {
+    check(value, schema.then, path, out);
+  }
+}
+
+function hasType(value: unknown, type: JsonType): boolean {
+  switch (type) {
+    case "object": return isObject(value);
+    case "array": return Array.isArray(value);
+    case "string": return typeof value === "string";
+    case "number": return typeof value === "number" && Number.isFinite(value);
+    case "integer": return Number.isInteger(value);
+    case "boolean": return typeof value === "boolean";
+    case "null": return value === null;
+  }
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
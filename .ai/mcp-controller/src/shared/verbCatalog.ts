@@ -20,7 +20,7 @@ const CATALOG: Record<string, VerbDescriptor> = {
     description: "Bootstrap a work session. Sends prompt + lexemes, receives contextPack + strategy + planGraphSchema.",
     whenToUse: "First call of every session. Only verb available in UNINITIALIZED state.",
     requiredArgs: [],
-    optionalArgs: ["lexemes", "attachments"],
+    optionalArgs: ["lexemes", "attachments", "budget"],
   },
   read_file_lines: {
     description: "Read a line range from a file within the allowed scope. Returns the source code content.",
@@ -35,16 +35,22 @@ const CATALOG: Record<string, VerbDescriptor> = {
     optionalArgs: ["limit"],
   },
   trace_symbol_graph: {
-    description: "Find symbols related to a given symbol via the code graph (callers, callees, imports, dependencies).",
-    whenToUse: "When tracing how a symbol is used or what depends on it.",
+    description: "Walk the import/call/reference graph from a symbol or file. relation: callers, callees, importers, imports, dependents, dependencies or neighbors (default); depth follows edges transitively. Edges carry kinds: imports, re_exports, calls, extends, implements, injects, template_uses.",
+    whenToUse: "Impact analysis before a change node: who calls X, what X imports, which files transitively import X.",
     requiredArgs: [],
-    optionalArgs: ["symbol", "targetFile", "query", "limit"],
+    optionalArgs: ["symbol", "targetFile", "query", "relation", "depth", "limit"],
   },
   search_codebase_text: {
-    description: "Search files for a text pattern within scope. Returns matching lines with context.",
+    description: "BM25-ranked search of indexed lines within scope. Supports \"quoted phrases\", /regex/flags and include/exclude path globs.",
     whenToUse: "When searching for code patterns, string literals, or identifiers across the codebase.",
     requiredArgs: ["query"],
-    optionalArgs: ["lexeme", "limit"],
+    optionalArgs: ["lexeme", "limit", "include", "exclude"],
+  },
+  request_budget_extension: {
+    description: "Raise this session's token threshold. Grants are capped by the configured extension allowance; a grant that clears the threshold lifts BLOCKED_BUDGET.",
+    whenToUse: "When budgetStatus.warning appears or the session is BLOCKED_BUDGET and the remaining nodes genuinely need more tokens.",
+    requiredArgs: ["additionalTokens", "reason"],
+    optionalArgs: [],
   },
   escalate: {
     description: "Request additional context. MCP searches and adds to contextPack.",
@@ -68,26 +74,44 @@ const CATALOG: Record<string, VerbDescriptor> = {
     description: "Apply a structured code patch to a file in the worktree. Requires an accepted execution plan.",
     whenToUse: "After your plan is accepted, to make the actual code changes.",
     requiredArgs: ["nodeId", "targetFile", "targetSymbols", "operation"],
-    optionalArgs: ["find", "replace", "codemodId", "codemodParams"],
+    optionalArgs: ["find", "replace", "diff", "codemodId", "codemodParams"],
+  },
+  revert_code_patch: {
+    description: "Roll back journaled apply_code_patch edits for one change node, or for the whole plan when nodeId is omitted. Reverted nodes become incomplete again.",
+    whenToUse: "When a patch turned out wrong and you want to restore the files before re-applying a corrected edit.",
+    requiredArgs: [],
+    optionalArgs: ["nodeId"],
   },
   run_sandboxed_code: {
     description: "Run a sandboxed code snippet (IIFE) in the project context. Requires an accepted execution plan.",
     whenToUse: "After your plan is accepted, to run builds, tests, or scripts.",
     requiredArgs: ["nodeId", "iife", "declaredInputs", "timeoutMs", "memoryCapMb", "artifactOutputRef", "expectedReturnShape"],
-    optionalArgs: ["externalSideEffects", "graphMutations"],
+    optionalArgs: ["externalSideEffects", "graphMutations", "isolation", "declaredPaths"],
   },
   execute_gated_side_effect: {
-    description: "Execute a gated side-effect action (e.g. git commit) that requires an approved commit gate. Requires an accepted execution plan.",
+    description: "Execute the gated side effect of a side_effect plan node (sideEffectType finalize, git_commit, git_branch, git_tag, pr_description, jira_comment or regenerate_graph_seeds). Requires an accepted execution plan. dryRun: true previews without acting; repeats with the same idempotency key replay the recorded outcome.",
     whenToUse: "After your plan is accepted, for operations that modify external state.",
     requiredArgs: ["nodeId", "commitGateId"],
-    optionalArgs: ["files", "symbols", "graphMutations", "externalSideEffects"],
+    optionalArgs: ["dryRun", "idempotencyKey", "payload", "files", "symbols", "graphMutations", "externalSideEffects"],
   },
   run_automation_recipe: {
-    description: "Run a named automation recipe (e.g. scaffold, migrate, replace_lexeme_in_file).",
+    description: "Run a named automation recipe (built-ins or manifest recipes) as a list of patch, codemod and validation steps under one plan node. Returns the run's artifact bundle, diff summary and validation outcome.",
     whenToUse: "When a pre-built recipe exists for the task.",
-    requiredArgs: ["recipeId", "planNodeId", "artifactBundleRef", "diffSummaryRef"],
+    requiredArgs: ["recipeId", "planNodeId"],
     optionalArgs: ["validatedParams"],
   },
+  amend_execution_plan: {
+    description: "Revise the accepted plan with a delta: add or remove nodes, change a change node's targetSymbols, a validate node's mapsToNodeIds or any node's dependsOn. Only the touched nodes are re-validated and untouched nodes keep their progress; the plan revision is bumped.",
+    whenToUse: "When execution shows the plan needs another file, symbol or validate node. Cheaper than resubmitting, which resets all progress.",
+    requiredArgs: ["reason"],
+    optionalArgs: ["addNodes", "removeNodeIds", "updateNodes", "baseRevision"],
+  },
+  handoff: {
+    description: "Pass a plan node you have claimed, with its file leases, to another agent of this work item. The note reaches that agent in its next response under coordination.handoffs.",
+    whenToUse: "When a sibling agent is better placed to finish a node you started, or you are about to stop with the node unfinished.",
+    requiredArgs: ["nodeId", "toAgentId"],
+    optionalArgs: ["note"],
+  },
   signal_task_complete: {
     description: "Signal that all implementation tasks are complete and trigger a session retrospective. Returns a friction digest, pending memory candidates, and suggestions for the user.",
     whenToUse: "When all planned implementation work is done and you want to generate a retrospective summary for the user.",
@@ -96,6 +120,11 @@ const CATALOG: Record<string, VerbDescriptor> = {
   },
 };
 
+/** Every verb the catalog describes. */
+export function catalogVerbs(): string[] {
+  return Object.keys(CATALOG);
+}
+
 /**
  * Return verb descriptors for the given list of capability names.
  * Unknown verbs are included with a generic fallback descriptor.
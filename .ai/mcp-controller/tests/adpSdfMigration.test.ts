@@ -0,0 +1,151 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import os from "node:os";
+import path from "node:path";
+import { mkdtemp } from "node:fs/promises";
+import { applyStructuredPatch } from "../src/domains/patch-exec/patchExecService";
+import { clearMigrationSources, loadMigrationSources } from "../src/domains/patch-exec/adpSdfMigration";
+import type { ChangePlanNode } from "../src/contracts/planGraph";
+import type { MigrationRuleNode } from "../src/domains/plan-graph/enforcementBundle";
+import { readText, writeText } from "../src/shared/fileStore";
+
+const SDF_CONTRACTS = [
+  "/** Inline status message. */",
+  "export interface SdfAlertProps {",
+  "  severity: 'info' | 'warning' | 'error';",
+  "  dismissible?: boolean;",
+  "  sdfDismiss?: CustomEvent<void>;",
+  "}",
+  "export interface SdfButtonProps {",
+  "  variant: 'primary' | 'secondary';",
+  "}",
+  ""
+].join("\n");
+
+function seedRule(id: string, properties: Record<string, unknown>): string {
+  return JSON.stringify({ kind: "node", id, labels: ["MigrationRule"], properties: { id, type: "migration_rule", ...properties } });
+}
+
+async function fixture(template: string): Promise<string> {
+  clearMigrationSources();
+  const root = await mkdtemp(path.join(os.tmpdir(), "adp-sdf-"));
+  await writeText(path.join(root, "contracts/components.d.ts"), SDF_CONTRACTS);
+  await writeText(path.join(root, "seed/policy/migration_rules.jsonl"), [
+    seedRule("migration:adp-alert:sdf-alert", {
+      fromTag: "adp-alert",
+      toTag: "sdf-alert",
+      status: "approved",
+      propMappings: { type: "severity", message: "children", closable: "dismissible", icon: "leadingIcon" },
+      eventMappings: { dismiss: "sdfDismiss" },
+      requiredWrappers: [],
+      constraints: ["check dismiss handlers"]
+    }),
+    seedRule("migration:adp-button:sdf-button", { fromTag: "adp-button", toTag: "sdf-button", status: "candidate", propMappings: { type: "variant" } }),
+    ""
+  ].join("\n"));
+  await writeText(path.join(root, "src/alerts.component.html"), template);
+  const loaded = await loadMigrationSources({
+    seedRoot: path.join(root, "seed"),
+    sdfContractFiles: [path.join(root, "contracts/components.d.ts"), path.join(root, "contracts/missing.d.ts")]
+  });
+  assert.deepEqual(loaded.rules, ["migration:adp-alert:sdf-alert", "migration:adp-button:sdf-button"]);
+  assert.deepEqual(loaded.contracts, ["sdf-alert", "sdf-button"]);
+  assert.equal(loaded.failures.length, 1);
+  return root;
+}
+
+function changeNode(policyRefs: string[]): ChangePlanNode {
+  return {
+    nodeId: "node_change",
+    kind: "change",
+    dependsOn: [],
+    atomicityBoundary: {
+      inScopeAcceptanceCriteriaIds: ["ac1"],
+      outOfScopeAcceptanceCriteriaIds: [],
+      inScopeModules: ["m1"],
+      outOfScopeModules: []
+    },
+    expectedFailureSignatures: [],
+    correctionCandidateOnFail: false,
+    operation: "modify",
+    targetFile: "src/alerts.component.html",
+    targetSymbols: [],
+    whyThisFile: "uses adp-alert",
+    editIntent: "migrate alerts to SDF",
+    escalateIf: [],
+    citations: ["codemod:migrate_adp_to_sdf"],
+    codeEvidence: ["template:adp-alert"],
+    artifactRefs: [],
+    policyRefs,
+    verificationHooks: []
+  };
+}
+
+function migrate(root: string, ruleId: string, policyRefs: string[] = [ruleId], migrationRules?: MigrationRuleNode[]) {
+  return applyStructuredPatch({
+    worktreeRoot: root,
+    request: {
+      nodeId: "node_change",
+      targetFile: "src/alerts.component.html",
+      targetSymbols: [],
+      operation: "ast_codemod",
+      codemodId: "migrate_adp_to_sdf",
+      codemodParams: { ruleId }
+    },
+    approvedNode: changeNode(policyRefs),
+    migrationRules
+  });
+}
+
+test("approved rule maps tags, attributes, bindings and events onto contract props", async () => {
+  const root = await fixture([
+    "<section>",
+    "  <adp-alert *ngIf=\"visible\" class=\"banner\" type=\"error\" [message]=\"errorText\" [closable]=\"true\" (dismiss)=\"hide()\" (hover)=\"peek()\" icon=\"warn\"></adp-alert>",
+    "  <adp-alert type=\"info\" message=\"Saved &amp; synced\"/>",
+    "  <adp-alert [type]=\"level\">Custom <b>body</b></adp-alert>",
+    "</section>",
+    ""
+  ].join("\n"));
+
+  const result = await migrate(root, "migration:adp-alert:sdf-alert");
+  assert.equal(result.changed, true);
+  assert.equal(await readText(path.join(root, "src/alerts.component.html")), [
+    "<section>",
+    "  <sdf-alert *ngIf=\"visible\" class=\"banner\" severity=\"error\" [dismissible]=\"true\" (sdfDismiss)=\"hide()\" (hover)=\"peek()\" icon=\"warn\">{{ errorText }}</sdf-alert>",
+    "  <sdf-alert severity=\"info\">Saved &amp; synced</sdf-alert>",
+    "  <sdf-alert [severity]=\"level\">Custom <b>body</b></sdf-alert>",
+    "</section>",
+    ""
+  ].join("\n"));
+
+  const report = result.migrationReport!;
+  assert.equal(report.elementsMigrated, 3);
+  assert.deepEqual(report.flagged, [
+    { line: 2, kind: "attribute", name: "icon", reason: "not_in_contract" },
+    { line: 2, kind: "event", name: "hover", reason: "no_mapping" }
+  ]);
+  assert.ok(report.mapped.some((item) => item.kind === "event" && item.from === "dismiss" && item.to === "sdfDismiss"));
+  assert.deepEqual(report.missingRequiredProps, []);
+  assert.deepEqual(report.constraints, ["check dismiss handlers"]);
+});
+
+test("rules that are not approved, not cited or lack a contract are refused", async () => {
+  const root = await fixture("<adp-button type=\"primary\">Go</adp-button>\n<adp-alert type=\"info\"></adp-alert>\n");
+  const before = await readText(path.join(root, "src/alerts.component.html"));
+
+  await assert.rejects(migrate(root, "migration:adp-button:sdf-button"), /PLAN_POLICY_VIOLATION/);
+  await assert.rejects(migrate(root, "migration:adp-alert:sdf-alert", ["migration:adp-button:sdf-button"]), /PLAN_MIGRATION_RULE_MISSING/);
+  await assert.rejects(migrate(root, "migration:adp-nope:sdf-nope"), /PLAN_MIGRATION_RULE_MISSING/);
+
+  // A graph rule from the session overrides the seed row with the same id
+  const sessionRule: MigrationRuleNode = { id: "migration:adp-alert:sdf-alert", fromTag: "adp-alert", toTag: "sdf-alert", status: "candidate" };
+  await assert.rejects(migrate(root, "migration:adp-alert:sdf-alert", undefined, [sessionRule]), /PLAN_POLICY_VIOLATION/);
+  const noContract: MigrationRuleNode = { ...sessionRule, toTag: "sdf-banner", status: "approved" };
+  await assert.rejects(migrate(root, "migration:adp-alert:sdf-alert", undefined, [noContract]), /PLAN_VERIFICATION_WEAK/);
+  assert.equal(await readText(path.join(root, "src/alerts.component.html")), before);
+
+  // Only the approved rule's tag is touched; the candidate-rule button stays ADP
+  const migrated = await migrate(root, "migration:adp-alert:sdf-alert", ["migration:adp-alert:sdf-alert@v1"]);
+  assert.equal(migrated.migrationReport?.elementsMigrated, 1);
+  assert.equal(await readText(path.join(root, "src/alerts.component.html")), "<adp-button type=\"primary\">Go</adp-button>\n<sdf-alert severity=\"info\"></sdf-alert>\n");
+});
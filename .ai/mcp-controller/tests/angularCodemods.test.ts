@@ -0,0 +1,194 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import os from "node:os";
+import path from "node:path";
+import { mkdtemp } from "node:fs/promises";
+import { applyStructuredPatch } from "../src/domains/patch-exec/patchExecService";
+import type { ChangePlanNode } from "../src/contracts/planGraph";
+import { readText, writeText } from "../src/shared/fileStore";
+
+function changeNode(targetFile: string, codemodId: string): ChangePlanNode {
+  return {
+    nodeId: "node_change",
+    kind: "change",
+    dependsOn: [],
+    atomicityBoundary: {
+      inScopeAcceptanceCriteriaIds: ["ac1"],
+      outOfScopeAcceptanceCriteriaIds: [],
+      inScopeModules: ["m1"],
+      outOfScopeModules: []
+    },
+    expectedFailureSignatures: [],
+    correctionCandidateOnFail: false,
+    operation: "modify",
+    targetFile,
+    targetSymbols: [],
+    whyThisFile: "angular wiring",
+    editIntent: "migrate to standalone",
+    escalateIf: [],
+    citations: [`codemod:${codemodId}`],
+    codeEvidence: ["src:app"],
+    artifactRefs: [],
+    policyRefs: [],
+    verificationHooks: []
+  };
+}
+
+async function runCodemod(root: string, targetFile: string, codemodId: string, codemodParams: Record<string, unknown>) {
+  return applyStructuredPatch({
+    worktreeRoot: root,
+    request: { nodeId: "node_change", targetFile, targetSymbols: [], operation: "ast_codemod", codemodId, codemodParams },
+    approvedNode: changeNode(targetFile, codemodId),
+    authorizeFile: () => ({ ok: true })
+  });
+}
+
+const APP_MODULE = [
+  "import { NgModule } from '@angular/core';",
+  "import { BrowserModule } from '@angular/platform-browser';",
+  "import { UserCardComponent } from './user-card.component';",
+  "",
+  "@NgModule({",
+  "  declarations: [UserCardComponent],",
+  "  imports: [BrowserModule],",
+  "  exports: [UserCardComponent]",
+  "})",
+  "export class AppModule {}",
+  ""
+].join("\n");
+
+const USER_CARD = [
+  "import { Component } from '@angular/core';",
+  "",
+  "@Component({",
+  "  selector: 'app-user-card',",
+  "  templateUrl: './user-card.component.html'",
+  "})",
+  "export class UserCardComponent {",
+  "  title = 'user';",
+  "}",
+  ""
+].join("\n");
+
+async function fixture(): Promise<string> {
+  const root = await mkdtemp(path.join(os.tmpdir(), "angular-codemod-"));
+  await writeText(path.join(root, "src/app.module.ts"), APP_MODULE);
+  await writeText(path.join(root, "src/user-card.component.ts"), USER_CARD);
+  await writeText(path.join(root, "src/user-list.component.html"), "<ul>\n  <app-user-card class=\"row\"></app-user-card>\n  <app-user-card/>\n</ul>\n");
+  await writeText(
+    path.join(root, "src/app.routes.ts"),
+    "import { Routes } from '@angular/router';\nimport { HomeComponent } from './home.component';\n\nexport const routes: Routes = [\n  { path: '', component: HomeComponent },\n  { path: '**', redirectTo: '' }\n];\n"
+  );
+  await writeText(
+    path.join(root, "src/app.config.ts"),
+    "import { ApplicationConfig } from '@angular/core';\nimport { provideRouter } from '@angular/router';\nimport { routes } from './app.routes';\n\nexport const appConfig: ApplicationConfig = {\n  providers: [provideRouter(routes)]\n};\n"
+  );
+  return root;
+}
+
+test("standalone migration: component gains standalone imports, module moves it from declarations to imports", async () => {
+  const root = await fixture();
+
+  const converted = await runCodemod(root, "src/user-card.component.ts", "convert_to_standalone", {
+    component: "UserCardComponent",
+    imports: ["NgIf", "AsyncPipe", "SharedPipe:./shared.pipe"]
+  });
+  assert.equal(converted.changed, true);
+  const component = await readText(path.join(root, "src/user-card.component.ts"));
+  assert.ok(component.includes("selector: 'app-user-card',\n  standalone: true,"));
+  assert.ok(component.includes("imports: [NgIf, AsyncPipe, SharedPipe]"));
+  assert.ok(component.includes("import { NgIf, AsyncPipe } from '@angular/common';"));
+  assert.ok(component.includes("import { SharedPipe } from './shared.pipe';"));
+
+  const removed = await runCodemod(root, "src/app.module.ts", "remove_ngmodule_declaration", { symbol: "UserCardComponent" });
+  assert.equal(removed.replacements, 3);
+  const added = await runCodemod(root, "src/app.module.ts", "add_ngmodule_declaration", {
+    symbol: "UserCardComponent",
+    array: "imports",
+    importPath: "./user-card.component"
+  });
+  assert.equal(added.replacements, 2);
+  const moduleSource = await readText(path.join(root, "src/app.module.ts"));
+  assert.ok(moduleSource.includes("declarations: [],"));
+  assert.ok(moduleSource.includes("imports: [BrowserModule, UserCardComponent],"));
+  assert.ok(moduleSource.includes("exports: []"));
+  assert.ok(moduleSource.includes("import { UserCardComponent } from './user-card.component';"));
+
+  // Re-running is a no-op
+  const again = await runCodemod(root, "src/user-card.component.ts", "convert_to_standalone", { component: "UserCardComponent", imports: "NgIf" });
+  assert.equal(again.changed, false);
+  await assert.rejects(
+    runCodemod(root, "src/user-card.component.ts", "convert_to_standalone", { component: "UserCardComponent", imports: "SomethingUnknown" }),
+    /PLAN_MISSING_REQUIRED_FIELDS/
+  );
+});
+
+test("add_provider and add_route edit config objects and route arrays", async () => {
+  const root = await fixture();
+
+  await runCodemod(root, "src/app.config.ts", "add_provider", { provider: "provideHttpClient(withFetch())", importPath: "@angular/common/http" });
+  const config = await readText(path.join(root, "src/app.config.ts"));
+  assert.ok(config.includes("providers: [provideRouter(routes), provideHttpClient(withFetch())]"));
+  assert.ok(config.includes("import { provideHttpClient } from '@angular/common/http';"));
+  await assert.rejects(
+    runCodemod(root, "src/app.config.ts", "add_provider", { provider: "a), (b" }),
+    /PLAN_VERIFICATION_WEAK/
+  );
+
+  const routed = await runCodemod(root, "src/app.routes.ts", "add_route", { path: "admin", loadChildren: "./admin/admin.routes#ADMIN_ROUTES" });
+  assert.equal(routed.replacements, 1);
+  const routes = await readText(path.join(root, "src/app.routes.ts"));
+  const adminAt = routes.indexOf("{ path: 'admin', loadChildren: () => import('./admin/admin.routes').then((m) => m.ADMIN_ROUTES) }");
+  assert.ok(adminAt > 0);
+  assert.ok(adminAt < routes.indexOf("path: '**'"), "new routes go before the wildcard");
+
+  const duplicate = await runCodemod(root, "src/app.routes.ts", "add_route", { path: "admin", component: "AdminComponent" });
+  assert.equal(duplicate.changed, false);
+  await assert.rejects(
+    runCodemod(root, "src/app.routes.ts", "add_route", { path: "x", component: "A", redirectTo: "y" }),
+    /PLAN_MISSING_REQUIRED_FIELDS/
+  );
+});
+
+test("add_component_io adds the decorator member and binds it in consumer templates", async () => {
+  const root = await fixture();
+  const authorized: string[] = [];
+
+  const result = await applyStructuredPatch({
+    worktreeRoot: root,
+    request: {
+      nodeId: "node_change",
+      targetFile: "src/user-card.component.ts",
+      targetSymbols: [],
+      operation: "ast_codemod",
+      codemodId: "add_component_io",
+      codemodParams: { component: "UserCardComponent", name: "selected", kind: "output", type: "string", consumerTemplates: "src/user-list.component.html", binding: "onSelect($event)" }
+    },
+    approvedNode: changeNode("src/user-card.component.ts", "add_component_io"),
+    authorizeFile: (file) => {
+      authorized.push(file);
+      return { ok: true };
+    }
+  });
+
+  assert.deepEqual(authorized, ["src/user-list.component.html"]);
+  assert.deepEqual(result.files?.map((file) => file.targetFile), ["src/user-card.component.ts", "src/user-list.component.html"]);
+  const component = await readText(path.join(root, "src/user-card.component.ts"));
+  assert.ok(component.includes("import { Component, Output, EventEmitter } from '@angular/core';"));
+  assert.ok(component.includes("@Output() selected = new EventEmitter<string>();"));
+  assert.equal(
+    await readText(path.join(root, "src/user-list.component.html")),
+    "<ul>\n  <app-user-card (selected)=\"onSelect($event)\" class=\"row\"></app-user-card>\n  <app-user-card (selected)=\"onSelect($event)\"/>\n</ul>\n"
+  );
+
+  // A template that no longer parses is refused before anything is written
+  await writeText(path.join(root, "src/broken.html"), "<app-user-card [x]=\"(\"></app-user-card>");
+  const before = await readText(path.join(root, "src/user-card.component.ts"));
+  await assert.rejects(
+    runCodemod(root, "src/user-card.component.ts", "add_component_io", {
+      component: "UserCardComponent", name: "userId", kind: "input", type: "string", consumerTemplates: ["src/broken.html"], binding: "id"
+    }),
+    /PLAN_VERIFICATION_WEAK/
+  );
+  assert.equal(await readText(path.join(root, "src/user-card.component.ts")), before);
+});
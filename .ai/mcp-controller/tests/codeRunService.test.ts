@@ -1,6 +1,11 @@
 import test from "node:test";
 import assert from "node:assert/strict";
+import os from "node:os";
+import path from "node:path";
+import { mkdtemp } from "node:fs/promises";
 import { executeCodeRun } from "../src/domains/code-run/codeRunService";
+import { scrubEnv } from "../src/infrastructure/vm/childProcessSandbox";
+import { writeText } from "../src/shared/fileStore";
 
 test("code_run rejects non-async-IIFE preflight", async () => {
   const result = await executeCodeRun({
@@ -35,3 +40,123 @@ test("code_run rejects placeholder returns", async () => {
   assert.equal(result.ok, false);
   assert.equal(result.rejectionCode, "PLAN_VERIFICATION_WEAK");
 });
+
+async function processPolicy(allowedCommands: string[] = []) {
+  const root = await mkdtemp(path.join(os.tmpdir(), "code-run-process-"));
+  const worktreeRoot = path.join(root, "worktree");
+  await writeText(path.join(worktreeRoot, "src/app.ts"), "export const answer = 42;\n");
+  await writeText(path.join(root, "outside.txt"), "secret");
+  return {
+    root,
+    policy: {
+      worktreeRoot,
+      readPaths: [worktreeRoot],
+      writePaths: [path.join(root, "tmp")],
+      allowedModules: ["node:fs", "node:path"],
+      allowedCommands,
+      env: scrubEnv(["PATH"])
+    }
+  };
+}
+
+test("code_run process isolation returns the value and captures stdout and allowlisted commands", async () => {
+  const { policy } = await processPolicy([`${process.execPath} -e process.exit(0)`]);
+  const result = await executeCodeRun(
+    {
+      nodeId: "node_c",
+      iife: `(async () => {
+        const fs = require("node:fs");
+        console.log("reading source");
+        const check = await exec(${JSON.stringify(process.execPath)}, ["-e", "process.exit(0)"]);
+        return { source: fs.readFileSync("src/app.ts", "utf8").trim(), checkExit: check.exitCode, label };
+      })()`,
+      declaredInputs: { label: "source check" },
+      timeoutMs: 10000,
+      memoryCapMb: 64,
+      artifactOutputRef: "artifact://out",
+      expectedReturnShape: { type: "object", requiredKeys: ["source", "checkExit"] },
+      isolation: "process"
+    },
+    { processPolicy: policy }
+  );
+
+  assert.equal(result.ok, true, result.reason);
+  assert.deepEqual(result.value, { source: "export const answer = 42;", checkExit: 0, label: "source check" });
+  assert.ok(result.processRun?.stdout.includes("reading source"));
+  assert.equal(result.processRun?.commands.length, 1);
+  assert.equal(result.processRun?.commands[0].exitCode, 0);
+});
+
+test("code_run process isolation denies unlisted modules, commands and reads outside the worktree", async () => {
+  const { root, policy } = await processPolicy(["npx tsc --noEmit"]);
+  const run = (iife: string) =>
+    executeCodeRun(
+      {
+        nodeId: "node_d",
+        iife,
+        declaredInputs: {},
+        timeoutMs: 10000,
+        memoryCapMb: 64,
+        artifactOutputRef: "artifact://out",
+        expectedReturnShape: { type: "string" },
+        isolation: "process"
+      },
+      { processPolicy: policy }
+    );
+
+  const moduleDenied = await run(`(async () => require("node:child_process").execSync("id").toString())()`);
+  assert.equal(moduleDenied.ok, false);
+  assert.match(moduleDenied.reason ?? "", /SANDBOX_MODULE_DENIED/);
+
+  const builtinBypass = await run(`(async () => process.getBuiltinModule("node:child_process").execSync("id").toString())()`);
+  assert.equal(builtinBypass.ok, false);
+  const moduleBypass = await run(`(async () => module.require("node:child_process").execSync("id").toString())()`);
+  assert.equal(moduleBypass.ok, false);
+  const globalBypass = await run(`(async () => child_process.execSync("id").toString())()`);
+  assert.equal(globalBypass.ok, false);
+  const exposed = await run(
+    `(async () => [typeof process.getBuiltinModule, typeof process.binding, typeof process.send, typeof module, typeof fs, Object.isFrozen(process), process.cwd() === ${JSON.stringify(policy.worktreeRoot)}].join())()`
+  );
+  assert.equal(exposed.value, "undefined,undefined,undefined,undefined,undefined,true,true");
+
+  const commandDenied = await run(`(async () => (await exec("rm", ["-rf", "src"])).stdout)()`);
+  assert.equal(commandDenied.ok, false);
+  assert.match(commandDenied.reason ?? "", /SANDBOX_COMMAND_DENIED/);
+  const appendedArgs = await run(`(async () => (await exec("npx", ["tsc", "--noEmit", "&", "calc"])).stdout)()`);
+  assert.match(appendedArgs.reason ?? "", /SANDBOX_COMMAND_DENIED/);
+  const joinedArgs = await run(`(async () => (await exec("npx", ["tsc --noEmit"])).stdout)()`);
+  assert.match(joinedArgs.reason ?? "", /SANDBOX_COMMAND_DENIED/);
+
+  const missingPolicy = await executeCodeRun({
+    nodeId: "node_d",
+    iife: "(async () => 'value')()",
+    declaredInputs: {},
+    timeoutMs: 1000,
+    memoryCapMb: 64,
+    artifactOutputRef: "artifact://out",
+    expectedReturnShape: { type: "string" },
+    isolation: "process"
+  });
+  assert.equal(missingPolicy.rejectionCode, "PLAN_MISSING_REQUIRED_FIELDS");
+
+  const timedOut = await executeCodeRun(
+    {
+      nodeId: "node_d",
+      iife: "(async () => { while (true) {} })()",
+      declaredInputs: {},
+      timeoutMs: 500,
+      memoryCapMb: 64,
+      artifactOutputRef: "artifact://out",
+      expectedReturnShape: { type: "string" },
+      isolation: "process"
+    },
+    { processPolicy: policy }
+  );
+  assert.equal(timedOut.processRun?.timedOut, true);
+
+  const readOutside = await run(`(async () => require("node:fs").readFileSync(${JSON.stringify(path.join(root, "outside.txt"))}, "utf8"))()`);
+  if (readOutside.processRun?.fsPolicyEnforced) {
+    assert.equal(readOutside.ok, false);
+    assert.equal(readOutside.rejectionCode, "PLAN_VERIFICATION_WEAK");
+  }
+});
@@ -0,0 +1,121 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import os from "node:os";
+import path from "node:path";
+import { mkdtemp } from "node:fs/promises";
+import { DEFAULT_CONFIG } from "../src/config/types";
+import { IndexingService } from "../src/domains/indexing/indexingService";
+import { writeText } from "../src/shared/fileStore";
+
+const FILES: Record<string, string> = {
+  "src/app/shared/card.component.ts": [
+    "import { Component, EventEmitter, Input, Output, input, model, output } from '@angular/core';",
+    "/** A titled card. */",
+    "@Component({ selector: 'app-card, [appCard]', exportAs: 'card', template: '<ng-content></ng-content>', inputs: ['tone: cardTone'] })",
+    "export class CardComponent {",
+    "  /** Card heading */",
+    "  @Input({ required: true }) title!: string;",
+    "  @Input('compact') isCompact = false;",
+    "  @Input() set badge(value: number | null) {}",
+    "  @Output() closed = new EventEmitter<void>();",
+    "  size = input<'s' | 'm'>('m');",
+    "  orderId = input.required<string>({ alias: 'order' });",
+    "  expanded = model(false);",
+    "  selected = output<string>();",
+    "  tone: 'info' | 'warn' = 'info';",
+    "}",
+  ].join("\n"),
+  "src/app/shared/tooltip.directive.ts": [
+    "import { Directive, input } from '@angular/core';",
+    "@Directive({ selector: '[appTooltip]', standalone: true })",
+    "export class TooltipDirective {",
+    "  tooltipText = input.required<string>();",
+    "  tooltipDelay = input(200);",
+    "}",
+    "@Directive({})",
+    "export abstract class BaseDirective {}",
+  ].join("\n"),
+  "src/app/orders/orders-page.component.ts": [
+    "import { Component } from '@angular/core';",
+    "@Component({ selector: 'app-orders-page', templateUrl: './orders-page.component.html' })",
+    "export class OrdersPageComponent {}",
+  ].join("\n"),
+  "src/app/orders/orders-page.component.html": [
+    "<app-card title=\"Orders\" [order]=\"id\" [(expanded)]=\"open\" (closed)=\"reset()\" (click)=\"noop()\" [ngClass]=\"css\"></app-card>",
+    "<app-card [title]=\"t\" [order]=\"id\" [subtitle]=\"s\" (selectedItem)=\"pick($event)\" [attr.role]=\"'region'\" appTooltip [tooltipDelay]=\"50\"></app-card>",
+    "<app-card [title]=\"t\"></app-card>",
+    "<lib-chip [anything]=\"x\"></lib-chip>",
+  ].join("\n"),
+};
+
+test("component contracts capture decorator and signal inputs, outputs, aliases and required flags", async () => {
+  const repoRoot = await mkdtemp(path.join(os.tmpdir(), "component-contracts-"));
+  for (const [file, content] of Object.entries(FILES)) {
+    await writeText(path.join(repoRoot, file), `${content}\n`);
+  }
+  const indexing = new IndexingService(DEFAULT_CONFIG, null);
+  await indexing.rebuild(repoRoot);
+
+  const contracts = indexing.getComponentContracts();
+  assert.deepEqual(contracts.map((contract) => [contract.name, contract.kind, contract.tag]), [
+    ["OrdersPageComponent", "component", "app-orders-page"],
+    ["CardComponent", "component", "app-card"],
+    ["TooltipDirective", "directive", "[appTooltip]"],
+  ]);
+  const card = contracts.find((contract) => contract.name === "CardComponent");
+  assert.deepEqual([card?.description, card?.exportAs, card?.selector], ["A titled card.", "card", "app-card, [appCard]"]);
+  assert.deepEqual(card?.props.map((prop) => [prop.name, prop.member, prop.direction, prop.type, prop.required]), [
+    ["title", "title", "input", "string", true],
+    ["compact", "isCompact", "input", "boolean", false],
+    ["badge", "badge", "input", "number | null", false],
+    ["closed", "closed", "output", "EventEmitter<void>", false],
+    ["size", "size", "input", "'s' | 'm'", false],
+    ["order", "orderId", "input", "string", true],
+    ["expanded", "expanded", "model", "boolean", false],
+    ["selected", "selected", "output", "OutputEmitterRef<string>", false],
+    ["cardTone", "tone", "input", "'info' | 'warn'", false],
+  ]);
+  assert.equal(card?.props[0].description, "Card heading");
+
+  const usage = indexing.getTemplateUsageFacts().find((fact) => fact.line === 0 && fact.tag === "app-card");
+  assert.deepEqual(usage?.attributes, ["title", "[order]", "[expanded]", "[ngClass]", "(expandedChange)", "(closed)", "(click)"]);
+
+  assert.deepEqual(
+    indexing.getTemplateBindingIssues().map((issue) => [issue.line, issue.kind, issue.name, issue.contract]),
+    [
+      [1, "unknown_input", "subtitle", "CardComponent"],
+      [1, "unknown_output", "selectedItem", "CardComponent"],
+      [1, "missing_required", "tooltipText", "TooltipDirective"],
+      [2, "missing_required", "order", "CardComponent"],
+    ]
+  );
+});
+
+test("contracts inherit bindings from in-repo base classes and exposed host directive inputs", async () => {
+  const repoRoot = await mkdtemp(path.join(os.tmpdir(), "component-heritage-"));
+  await writeText(path.join(repoRoot, "src/app/bases.ts"), [
+    "import { Directive, Input, Output, EventEmitter } from '@angular/core';",
+    "@Directive()",
+    "export abstract class BaseControl { @Input() disabled = false; @Output() touched = new EventEmitter<void>(); }",
+    "@Directive()",
+    "export abstract class LabelledControl extends BaseControl { @Input() label = ''; @Input() disabled = true; }",
+    "@Directive({ selector: '[appTip]' })",
+    "export class TipDirective { @Input() tip = ''; @Input() tipDelay = 0; }",
+  ].join("\n") + "\n");
+  await writeText(path.join(repoRoot, "src/app/switch.component.ts"), [
+    "import { Component } from '@angular/core';",
+    "@Component({ selector: 'app-switch', template: '', hostDirectives: [{ directive: TipDirective, inputs: ['tip: hint'] }, CdkDrag] })",
+    "export class SwitchComponent extends LabelledControl {}",
+  ].join("\n") + "\n");
+  const indexing = new IndexingService(DEFAULT_CONFIG, null);
+  await indexing.rebuild(repoRoot);
+
+  const control = indexing.getComponentContracts().find((contract) => contract.name === "SwitchComponent");
+  assert.deepEqual(control?.props.map((prop) => [prop.name, prop.direction, prop.type]), [
+    ["label", "input", "string"],
+    ["disabled", "input", "boolean"],
+    ["touched", "output", "EventEmitter<void>"],
+    ["hint", "input", "string"],
+  ]);
+  assert.deepEqual(control?.unresolvedHeritage, ["CdkDrag"]);
+});
@@ -13,6 +13,19 @@ test("config validator rejects blocked dashboard ports", () => {
   assert.ok(result.errors.some((entry) => entry.includes("must not be 4200 or 8080")));
 });
 
+test("config validator rejects sandbox commands with shell syntax", () => {
+  const config = {
+    ...DEFAULT_CONFIG,
+    sandbox: {
+      ...DEFAULT_CONFIG.sandbox,
+      allowedCommands: ["npx tsc --noEmit", "npx eslint . && node evil.js"]
+    }
+  };
+  const result = validateGatewayConfig(config);
+  assert.equal(result.ok, false);
+  assert.ok(result.errors.some((entry) => entry.includes("sandbox.allowedCommands[1]")));
+});
+
 test("config validator enforces jira pat path scope", () => {
   const config = {
     ...DEFAULT_CONFIG,
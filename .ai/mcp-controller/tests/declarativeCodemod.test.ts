@@ -0,0 +1,187 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import os from "node:os";
+import path from "node:path";
+import { mkdtemp } from "node:fs/promises";
+import { applyStructuredPatch } from "../src/domains/patch-exec/patchExecService";
+import {
+  clearDeclarativeCodemods,
+  loadDeclarativeCodemods,
+  registerDeclarativeCodemod
+} from "../src/domains/patch-exec/declarativeCodemod";
+import { clearCustomCodemods, isSupportedAstCodemodId } from "../src/domains/patch-exec/astCodemodCatalog";
+import type { ChangePlanNode } from "../src/contracts/planGraph";
+import { readText, writeText } from "../src/shared/fileStore";
+
+function changeNode(targetFile: string, codemodId: string): ChangePlanNode {
+  return {
+    nodeId: "node_change",
+    kind: "change",
+    dependsOn: [],
+    atomicityBoundary: {
+      inScopeAcceptanceCriteriaIds: ["ac1"],
+      outOfScopeAcceptanceCriteriaIds: [],
+      inScopeModules: ["m1"],
+      outOfScopeModules: []
+    },
+    expectedFailureSignatures: [],
+    correctionCandidateOnFail: false,
+    operation: "modify",
+    targetFile,
+    targetSymbols: ["AppModule"],
+    whyThisFile: "module imports",
+    editIntent: "migrate import",
+    escalateIf: [],
+    citations: [`codemod:${codemodId}`],
+    codeEvidence: ["src:AppModule"],
+    artifactRefs: [],
+    policyRefs: [],
+    verificationHooks: []
+  };
+}
+
+function reset(): void {
+  clearDeclarativeCodemods();
+  clearCustomCodemods();
+}
+
+test("declarative ts_node codemod loaded from seed JSONL rewrites matching nodes", async () => {
+  reset();
+  const root = await mkdtemp(path.join(os.tmpdir(), "declarative-codemod-"));
+  const seedRoot = path.join(root, "seed");
+  await writeText(
+    path.join(seedRoot, "codemod", "team.jsonl"),
+    `${JSON.stringify({
+      kind: "node",
+      id: "codemod:swap_module_specifier",
+      labels: ["Codemod"],
+      properties: {
+        codemodId: "swap_module_specifier",
+        description: "Point imports of one package at another.",
+        targetFileKinds: ["ts"],
+        requiredParams: ["fromModule", "toModule"],
+        rulesJson: JSON.stringify([
+          { kind: "ts_node", syntaxKind: "StringLiteral", parentSyntaxKind: "ImportDeclaration", text: "\"{{fromModule}}\"", replaceWith: "\"{{toModule}}\"" }
+        ])
+      }
+    })}\n${JSON.stringify({ kind: "node", id: "codemod:broken", labels: ["Codemod"], properties: { codemodId: "broken", description: "x", rules: [{ kind: "ts_node", syntaxKind: "NotAKind", replaceWith: "" }] } })}\n`
+  );
+
+  const loaded = await loadDeclarativeCodemods({ seedRoot });
+  assert.deepEqual(loaded.registered, ["swap_module_specifier"]);
+  assert.equal(loaded.failures.length, 1);
+  assert.equal(loaded.failures[0].reason, "PLAN_POLICY_VIOLATION");
+  assert.equal(isSupportedAstCodemodId("swap_module_specifier"), true);
+
+  const source = "import { A } from \"@adp/core\";\nconst label = \"@adp/core\";\nexport class AppModule {}\n";
+  await writeText(path.join(root, "src/app.module.ts"), source);
+  const result = await applyStructuredPatch({
+    worktreeRoot: root,
+    request: {
+      nodeId: "node_change",
+      targetFile: "src/app.module.ts",
+      targetSymbols: ["AppModule"],
+      operation: "ast_codemod",
+      codemodId: "swap_module_specifier",
+      codemodParams: { fromModule: "@adp/core", toModule: "@sdf/core" }
+    },
+    approvedNode: changeNode("src/app.module.ts", "swap_module_specifier")
+  });
+
+  assert.equal(result.replacements, 1);
+  const updated = await readText(path.join(root, "src/app.module.ts"));
+  assert.ok(updated.startsWith("import { A } from \"@sdf/core\";"));
+  assert.ok(updated.includes("const label = \"@adp/core\";"));
+  reset();
+});
+
+test("declarative codemod output that no longer parses is rejected without writing", async () => {
+  reset();
+  registerDeclarativeCodemod({
+    id: "break_class",
+    description: "Deliberately produces invalid syntax.",
+    targetFileKinds: ["ts"],
+    requiredParams: [],
+    rules: [{ kind: "ts_node", syntaxKind: "ClassDeclaration", replaceWith: "export class {" }]
+  });
+  const root = await mkdtemp(path.join(os.tmpdir(), "declarative-codemod-"));
+  const source = "export class AppModule {}\n";
+  await writeText(path.join(root, "src/app.module.ts"), source);
+
+  await assert.rejects(
+    applyStructuredPatch({
+      worktreeRoot: root,
+      request: {
+        nodeId: "node_change",
+        targetFile: "src/app.module.ts",
+        targetSymbols: ["AppModule"],
+        operation: "ast_codemod",
+        codemodId: "break_class",
+        codemodParams: {}
+      },
+      approvedNode: changeNode("src/app.module.ts", "break_class")
+    }),
+    /PLAN_VERIFICATION_WEAK/
+  );
+  assert.equal(await readText(path.join(root, "src/app.module.ts")), source);
+  assert.throws(
+    () => registerDeclarativeCodemod({ id: "rename_symbol", description: "shadow", targetFileKinds: ["ts"], requiredParams: [], rules: [{ kind: "template_text", find: "a", replace: "b" }] }),
+    /PLAN_POLICY_VIOLATION/
+  );
+  reset();
+});
+
+test("declarative codemod params are inserted literally into patterns and replacements", async () => {
+  reset();
+  registerDeclarativeCodemod({
+    id: "rename_label",
+    description: "Rename a label in templates.",
+    targetFileKinds: ["html"],
+    requiredParams: ["fromLabel", "toLabel"],
+    rules: [{ kind: "template_text", find: ">({{fromLabel}})<", replace: ">{{toLabel}}<" }]
+  });
+  registerDeclarativeCodemod({
+    id: "replace_string",
+    description: "Replace a string literal matched by pattern.",
+    targetFileKinds: ["ts"],
+    requiredParams: ["from", "to"],
+    rules: [{ kind: "ts_node", syntaxKind: "StringLiteral", textPattern: "^'({{from}})'$", replaceWith: "'{{to}} was $1'" }]
+  });
+  const root = await mkdtemp(path.join(os.tmpdir(), "declarative-codemod-"));
+  await writeText(path.join(root, "src/app.component.html"), "<p>Total (a.b)</p><p>Total Xa-b</p>\n");
+  await writeText(path.join(root, "src/app.module.ts"), "export const price = '(1+1)';\nexport const other = '11';\nexport class AppModule {}\n");
+
+  const html = await applyStructuredPatch({
+    worktreeRoot: root,
+    request: {
+      nodeId: "node_change",
+      targetFile: "src/app.component.html",
+      targetSymbols: ["AppModule"],
+      operation: "ast_codemod",
+      codemodId: "rename_label",
+      codemodParams: { fromLabel: "Total (a.b)", toLabel: "Sum $1 $& $$" }
+    },
+    approvedNode: changeNode("src/app.component.html", "rename_label")
+  });
+  assert.equal(html.replacements, 1);
+  assert.equal(await readText(path.join(root, "src/app.component.html")), "<p>Sum $1 $& $$</p><p>Total Xa-b</p>\n");
+
+  const ts = await applyStructuredPatch({
+    worktreeRoot: root,
+    request: {
+      nodeId: "node_change",
+      targetFile: "src/app.module.ts",
+      targetSymbols: ["AppModule"],
+      operation: "ast_codemod",
+      codemodId: "replace_string",
+      codemodParams: { from: "(1+1)", to: "$2 {{text}}" }
+    },
+    approvedNode: changeNode("src/app.module.ts", "replace_string")
+  });
+  assert.equal(ts.replacements, 1);
+  assert.equal(
+    await readText(path.join(root, "src/app.module.ts")),
+    "export const price = '$2 {{text}} was (1+1)';\nexport const other = '11';\nexport class AppModule {}\n"
+  );
+  reset();
+});
@@ -0,0 +1,126 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import os from "node:os";
+import path from "node:path";
+import { mkdtemp, rm } from "node:fs/promises";
+import { DEFAULT_CONFIG } from "../src/config/types";
+import { IndexingService } from "../src/domains/indexing/indexingService";
+import { writeText } from "../src/shared/fileStore";
+
+async function fixtureRepo(): Promise<string> {
+  const repoRoot = path.join(await mkdtemp(path.join(os.tmpdir(), "dependency-graph-")), "repo");
+  const files: Record<string, string> = {
+    "src/app/data/http.ts": "export function getJson(url: string) { return fetch(url); }\n",
+    "src/app/data/orders.service.ts": [
+      "import { getJson } from './http';",
+      "export abstract class BaseService {}",
+      "export class OrdersService extends BaseService {",
+      "  load() { return getJson('/api/orders'); }",
+      "}",
+    ].join("\n"),
+    "src/app/data/index.ts": "export { OrdersService } from './orders.service';\nexport * from './http';\n",
+    "src/app/orders/order-row.component.ts": [
+      "import { Component } from '@angular/core';",
+      "@Component({ selector: 'app-order-row', template: '<span></span>' })",
+      "export class OrderRowComponent {}",
+    ].join("\n"),
+    "src/app/orders/orders.component.ts": [
+      "import { Component, OnInit } from '@angular/core';",
+      "import { OrdersService } from '../data';",
+      "@Component({ selector: 'app-orders', templateUrl: './orders.component.html' })",
+      "export class OrdersComponent implements OnInit {",
+      "  constructor(private readonly orders: OrdersService) {}",
+      "  ngOnInit() { this.orders.load(); }",
+      "}",
+    ].join("\n"),
+    "src/app/orders/orders.component.html": "<ul>\n  <app-order-row></app-order-row>\n</ul>\n",
+  };
+  for (const [relative, content] of Object.entries(files)) {
+    await writeText(path.join(repoRoot, relative), content);
+  }
+  return repoRoot;
+}
+
+test("dependency graph resolves calls, injections, heritage and template usage across barrels", async () => {
+  const repoRoot = await fixtureRepo();
+  const indexing = new IndexingService(DEFAULT_CONFIG, null);
+  await indexing.rebuild(repoRoot);
+  const file = (relative: string) => path.join(repoRoot, relative);
+
+  const callers = indexing.queryDependencies({ symbol: "OrdersService", relation: "callers", depth: 1, limit: 50 });
+  assert.deepEqual(callers.edges.map((edge) => [edge.from, edge.to, edge.kind, edge.line]), [
+    [`${file("src/app/orders/orders.component.ts")}#OrdersComponent.ngOnInit`, `${file("src/app/data/orders.service.ts")}#OrdersService.load`, "calls", 6],
+  ]);
+
+  const dependents = indexing.queryDependencies({ symbol: "OrdersService", relation: "dependents", depth: 1, limit: 50 });
+  assert.deepEqual(new Set(dependents.edges.map((edge) => edge.kind)), new Set(["calls", "injects"]));
+
+  const callees = indexing.queryDependencies({ symbol: "OrdersComponent.ngOnInit", relation: "callees", depth: 2, limit: 50 });
+  assert.deepEqual(callees.edges.map((edge) => [edge.to, edge.depth]), [
+    [`${file("src/app/data/orders.service.ts")}#OrdersService.load`, 1],
+    [`${file("src/app/data/http.ts")}#getJson`, 2],
+  ]);
+
+  const heritage = indexing.queryDependencies({ symbol: "OrdersService", relation: "dependencies", depth: 1, limit: 50 });
+  assert.ok(heritage.edges.some((edge) => edge.kind === "extends" && edge.to === `${file("src/app/data/orders.service.ts")}#BaseService`));
+
+  const template = indexing.queryDependencies({ symbol: "OrderRowComponent", relation: "dependents", depth: 1, limit: 50 });
+  assert.deepEqual(template.edges.map((edge) => [edge.from, edge.kind, edge.filePath, edge.line]), [
+    [`${file("src/app/orders/orders.component.ts")}#OrdersComponent`, "template_uses", file("src/app/orders/orders.component.html"), 2],
+  ]);
+});
+
+test("importers follow re-exports transitively up to the requested depth", async () => {
+  const repoRoot = await fixtureRepo();
+  const indexing = new IndexingService(DEFAULT_CONFIG, null);
+  await indexing.rebuild(repoRoot);
+  const file = (relative: string) => path.join(repoRoot, relative);
+
+  const direct = indexing.queryDependencies({ filePath: "src/app/data/http.ts", relation: "importers", depth: 1, limit: 50 });
+  assert.deepEqual(direct.edges.map((edge) => [edge.from, edge.kind]).sort(), [
+    [file("src/app/data/index.ts"), "re_exports"],
+    [file("src/app/data/orders.service.ts"), "imports"],
+  ]);
+
+  const transitive = indexing.queryDependencies({ filePath: "src/app/data/http.ts", relation: "importers", depth: 3, limit: 50 });
+  const reached = transitive.edges.filter((edge) => edge.depth === 2).map((edge) => [edge.from, edge.to]);
+  assert.deepEqual(reached.sort(), [
+    [file("src/app/data/index.ts"), file("src/app/data/orders.service.ts")],
+    [file("src/app/orders/orders.component.ts"), file("src/app/data/index.ts")],
+  ]);
+
+  const imports = indexing.queryDependencies({ filePath: "src/app/orders/orders.component.ts", relation: "imports", depth: 1, limit: 50 });
+  assert.deepEqual(imports.edges.map((edge) => edge.to).sort(), [file("src/app/data/index.ts"), "module:@angular/core"]);
+});
+
+test("a worktree overlay answers dependency queries with the checkout's imports and calls", async () => {
+  const repoRoot = await fixtureRepo();
+  const indexing = new IndexingService(DEFAULT_CONFIG, null);
+  await indexing.rebuild(repoRoot);
+  const file = (relative: string) => path.join(repoRoot, relative);
+  const worktreeRoot = path.join(path.dirname(repoRoot), "work", "repo");
+  await writeText(path.join(worktreeRoot, "src/app/orders/order-row.component.ts"), [
+    "import { Component } from '@angular/core';",
+    "import { getJson } from '../data/http';",
+    "@Component({ selector: 'app-order-row', template: '<span></span>' })",
+    "export class OrderRowComponent {",
+    "  refresh() { return getJson('/api/rows'); }",
+    "}",
+  ].join("\n"));
+  await indexing.updateWorktreeFiles(worktreeRoot, ["src/app/orders/order-row.component.ts"]);
+
+  const importers = (worktree?: string) => indexing
+    .queryDependencies({ filePath: "src/app/data/http.ts", relation: "importers", depth: 1, limit: 50 }, worktree)
+    .edges.map((edge) => edge.from).sort();
+  assert.deepEqual(importers(worktreeRoot), [file("src/app/data/index.ts"), file("src/app/data/orders.service.ts"), file("src/app/orders/order-row.component.ts")]);
+  assert.deepEqual(importers(), [file("src/app/data/index.ts"), file("src/app/data/orders.service.ts")]);
+
+  const callers = indexing.queryDependencies({ symbol: "getJson", relation: "callers", depth: 1, limit: 50 }, worktreeRoot);
+  assert.ok(callers.edges.some((edge) => edge.from === `${file("src/app/orders/order-row.component.ts")}#OrderRowComponent.refresh`));
+
+  // Deleting the file in the checkout drops its edges from the overlay graph
+  await rm(path.join(worktreeRoot, "src/app/orders/order-row.component.ts"));
+  await indexing.updateWorktreeFiles(worktreeRoot, ["src/app/orders/order-row.component.ts"]);
+  const template = indexing.queryDependencies({ symbol: "OrderRowComponent", relation: "dependents", depth: 1, limit: 50 }, worktreeRoot);
+  assert.deepEqual(template.edges, []);
+});
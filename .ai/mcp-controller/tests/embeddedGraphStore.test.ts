@@ -0,0 +1,151 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import os from "node:os";
+import path from "node:path";
+import { mkdtemp, stat } from "node:fs/promises";
+import { DEFAULT_CONFIG } from "../src/config/types";
+import { EmbeddedGraphStore } from "../src/infrastructure/graph-store/embeddedGraphStore";
+import { GraphOpsService, type GraphOpsConfig } from "../src/domains/graph-ops/graphOpsService";
+import { ProofChainBuilder } from "../src/domains/proof-chains/proofChainBuilder";
+import { writeText } from "../src/shared/fileStore";
+
+function node(id: string, label: string, properties: Record<string, unknown> = {}): string {
+  return JSON.stringify({ kind: "node", id, labels: [label], properties: { id, ...properties } });
+}
+
+function rel(from: [string, string], relType: string, to: [string, string]): string {
+  return JSON.stringify({ kind: "relationship", relType, from: { id: from[0], label: from[1] }, to: { id: to[0], label: to[1] } });
+}
+
+async function seededGraph(): Promise<Omit<GraphOpsConfig, "neo4j">> {
+  const root = await mkdtemp(path.join(os.tmpdir(), "embedded-graph-"));
+  await writeText(path.join(root, "cypher/001_constraints.cypher"), "CREATE CONSTRAINT a IF NOT EXISTS\nFOR (n:Entity) REQUIRE n.id IS UNIQUE;\n");
+  await writeText(path.join(root, "seed/fact/chain.jsonl"), [
+    node("grid:orders", "agGridTable", { name: "ordersGrid", filePath: "src/orders.component.ts" }),
+    node("col:orders:id", "ColumnDef", { field: "orderId" }),
+    node("renderer:link", "CellRenderer", { name: "OrderLinkRenderer" }),
+    node("nav:open-order", "NavTrigger", { action: "openOrder", routePath: "orders/:id" }),
+    node("route:orders/:id", "AngularRoute", { path: "orders/:id" }),
+    node("cmp:order-detail", "AngularComponent", { selector: "app-order-detail", filePath: "src/order-detail.component.ts" }),
+    node("svc:orders", "Service", { name: "OrdersService" }),
+    node("sym:OrderDto", "Symbol", { name: "OrderDto", kind: "interface", filePath: "src/order.dto.ts" }),
+    node("sym:helper", "Symbol", { name: "formatOrder", kind: "function" }),
+    rel(["grid:orders", "agGridTable"], "HAS_COLUMN", ["col:orders:id", "ColumnDef"]),
+    rel(["col:orders:id", "ColumnDef"], "USES_RENDERER", ["renderer:link", "CellRenderer"]),
+    rel(["renderer:link", "CellRenderer"], "TRIGGERS_NAV", ["nav:open-order", "NavTrigger"]),
+    rel(["route:orders/:id", "AngularRoute"], "ROUTES_TO", ["cmp:order-detail", "AngularComponent"]),
+    rel(["cmp:order-detail", "AngularComponent"], "INJECTS", ["svc:orders", "Service"]),
+    rel(["svc:orders", "Service"], "IMPORTS", ["sym:helper", "Symbol"]),
+    rel(["svc:orders", "Service"], "DEFINES", ["sym:OrderDto", "Symbol"]),
+    ""
+  ].join("\n"));
+  await writeText(path.join(root, "seed/policy/intents.jsonl"), [
+    node("intent:no-raw-table", "UIIntent", { type: "ui_intent", grounded: true, condition: "tables use ag-grid", enforcement: "hard_deny", forbiddenComponents: ["table"] }),
+    node("migration:adp-alert:sdf-alert", "MigrationRule", { type: "migration_rule", fromTag: "adp-alert", toTag: "sdf-alert", status: "approved", propMappings: { type: "severity" } }),
+    ""
+  ].join("\n"));
+  return {
+    seedRoot: path.join(root, "seed"),
+    outRoot: path.join(root, "out"),
+    cypherRoot: path.join(root, "cypher"),
+    backend: "embedded",
+    storePath: path.join(root, "store/graph.json")
+  };
+}
+
+test("embedded backend answers proof chains and graph policies from the seed", async () => {
+  const graph = await seededGraph();
+  const builder = new ProofChainBuilder({ neo4j: DEFAULT_CONFIG.neo4j, graph });
+
+  const chain = await builder.buildAgGridOriginChain("orders");
+  assert.deepEqual(chain.chain.map((link) => [link.kind, link.id, link.source]), [
+    ["agGridTable", "grid:orders", "graph"],
+    ["ColumnDef", "col:orders:id", "graph"],
+    ["CellRenderer", "renderer:link", "graph"],
+    ["NavTrigger", "nav:open-order", "graph"],
+    ["Route", "route:orders/:id", "graph"],
+    ["Component", "cmp:order-detail", "graph"],
+    ["Service", "svc:orders", "graph"],
+    ["Definition", "sym:OrderDto", "graph"]
+  ]);
+  assert.equal(chain.complete, true);
+
+  // The first connection loaded the seed and persisted it; later ones reuse the snapshot
+  const savedAt = (await stat(graph.storePath)).mtimeMs;
+  const policies = await builder.queryGraphPolicies();
+  assert.equal((await stat(graph.storePath)).mtimeMs, savedAt);
+  assert.deepEqual(policies.graphPolicies.map((policy) => [policy.id, policy.enforcement, policy.forbiddenComponents]), [
+    ["intent:no-raw-table", "hard_deny", ["table"]]
+  ]);
+  assert.deepEqual(policies.migrationRules.map((rule) => [rule.id, rule.status, rule.propMappings]), [["migration:adp-alert:sdf-alert", "approved", { type: "severity" }]]);
+
+  // Seed edits after the last load are picked up without an explicit sync
+  await writeText(path.join(graph.seedRoot, "policy/more.jsonl"), `${node("intent:late", "ComponentIntent", { type: "component_intent" })}\n`);
+  const refreshed = await builder.queryGraphPolicies();
+  assert.deepEqual(refreshed.graphPolicies.map((policy) => policy.id).sort(), ["intent:late", "intent:no-raw-table"]);
+
+  const service = new GraphOpsService({ neo4j: DEFAULT_CONFIG.neo4j, ...graph });
+  assert.equal(await service.checkConnectivity(), "embedded");
+  const exported = await service.exportSnapshot("full");
+  assert.equal(exported.nodeCount, 12);
+  assert.equal(exported.relationshipCount, 7);
+});
+
+test("Cypher subset covers MERGE idempotency, variable-length paths and read-only sessions", async () => {
+  const store = new EmbeddedGraphStore({ storePath: path.join(await mkdtemp(path.join(os.tmpdir(), "embedded-cypher-")), "graph.json") });
+  for (const [from, to] of [["a", "b"], ["b", "c"], ["c", "d"], ["a", "b"]]) {
+    await store.runWrite(
+      "MERGE (x:Step {id: $from}) MERGE (y:Step {id: $to}) MERGE (x)-[r:NEXT]->(y) SET r += $props",
+      { from, to, props: { weight: 1, note: null } }
+    );
+  }
+  const counts = await store.runRead<{ id: string; labels: string[] }>("MATCH (n) RETURN n.id AS id, labels(n) AS labels ORDER BY id DESC LIMIT 2");
+  assert.deepEqual(counts, [{ id: "d", labels: ["Step"] }, { id: "c", labels: ["Step"] }]);
+
+  const reachable = await store.runRead<{ id: string; hops: number }>(
+    "MATCH (s:Step {id: 'a'})-[path:NEXT*2..]->(t) RETURN t.id AS id, size(path) AS hops ORDER BY hops"
+  );
+  assert.deepEqual(reachable, [{ id: "c", hops: 2 }, { id: "d", hops: 3 }]);
+  const upstream = await store.runRead<{ id: string }>("MATCH (t {id: $id})<-[:NEXT*]-(s) WHERE NOT s.id IN $skip RETURN DISTINCT s.id AS id", { id: "d", skip: ["b"] });
+  assert.deepEqual(upstream.map((row) => row.id).sort(), ["a", "c"]);
+
+  await assert.rejects(store.runRead("MATCH (n) DETACH DELETE n"), /read access mode/);
+  await assert.rejects(store.runRead("MATCH (n) WITH n RETURN n"), /EMBEDDED_GRAPH_UNSUPPORTED_CYPHER/);
+  await assert.rejects(store.runWrite("MERGE (n:Bad {id: 'x'}) SET n += $props", { props: { nested: { a: 1 } } }), /primitive types/);
+  assert.deepEqual(await store.runRead("MATCH (n:Bad) RETURN n.id AS id"), [], "a failed statement is rolled back");
+  await store.close();
+
+  const reopened = await store.runRead<{ total: number }>("MATCH (:Step)-[r:NEXT]->(:Step) RETURN r.weight AS total");
+  assert.deepEqual(reopened, [{ total: 1 }, { total: 1 }, { total: 1 }]);
+});
+
+test("stores sharing a snapshot keep each other's writes", async () => {
+  const storePath = path.join(await mkdtemp(path.join(os.tmpdir(), "embedded-shared-")), "graph.json");
+  const seeded = new EmbeddedGraphStore({ storePath });
+  await seeded.runWrite("MERGE (n:Step {id: 'seed'})");
+  await seeded.close();
+
+  const first = new EmbeddedGraphStore({ storePath });
+  const second = new EmbeddedGraphStore({ storePath });
+  await first.runWrite("MERGE (n:Step {id: 'first'})");
+  await second.runWrite("MERGE (n:Step {id: 'second'}) SET n.note = $note", { note: "from second" });
+  await second.runWrite("MATCH (n:Step {id: 'seed'}) SET n.touched = true");
+  await first.close();
+  await second.close();
+
+  const reader = new EmbeddedGraphStore({ storePath });
+  const steps = await reader.runRead<{ id: string; note: string | null; touched: boolean | null }>(
+    "MATCH (n:Step) RETURN n.id AS id, n.note AS note, n.touched AS touched ORDER BY id"
+  );
+  assert.deepEqual(steps, [
+    { id: "first", note: null, touched: null },
+    { id: "second", note: "from second", touched: null },
+    { id: "seed", note: null, touched: true }
+  ]);
+  await reader.close();
+
+  await writeText(`${storePath}.lock`, "4242");
+  const blocked = new EmbeddedGraphStore({ storePath, lockTimeoutMs: 50 });
+  await blocked.runWrite("MERGE (n:Step {id: 'late'})");
+  await assert.rejects(blocked.close(), /EMBEDDED_GRAPH_LOCKED/);
+});
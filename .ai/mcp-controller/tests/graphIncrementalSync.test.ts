@@ -0,0 +1,110 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import os from "node:os";
+import path from "node:path";
+import { mkdtemp } from "node:fs/promises";
+import { DEFAULT_CONFIG } from "../src/config/types";
+import { EmbeddedGraphStore } from "../src/infrastructure/graph-store/embeddedGraphStore";
+import { GraphOpsService } from "../src/domains/graph-ops/graphOpsService";
+import { readText, writeText } from "../src/shared/fileStore";
+
+function node(id: string, label: string, properties: Record<string, unknown> = {}): string {
+  return JSON.stringify({ kind: "node", id, labels: [label], properties: { id, ...properties } });
+}
+
+function rel(from: string, relType: string, to: string): string {
+  return JSON.stringify({ kind: "relationship", relType, from: { id: from, label: "Symbol" }, to: { id: to, label: "Symbol" } });
+}
+
+function policy(version: number, condition: string): string {
+  return node("policy:no-raw-table", "UIPolicy", {
+    type: "ui_intent", condition, version, updated_at: `2026-10-0${version}T00:00:00Z`, updated_by: "alice"
+  });
+}
+
+test("sync applies only the seed diff, keeps foreign nodes and enforces version bumps", async () => {
+  const root = await mkdtemp(path.join(os.tmpdir(), "graph-sync-"));
+  const seedFile = path.join(root, "seed/fact/symbols.jsonl");
+  const policyFile = path.join(root, "seed/policy/policies.jsonl");
+  const writeSeed = (lines: string[]) => writeText(seedFile, `${lines.join("\n")}\n`);
+  await writeText(path.join(root, "cypher/001_constraints.cypher"), "CREATE CONSTRAINT a IF NOT EXISTS\nFOR (n:Symbol) REQUIRE n.id IS UNIQUE;\n");
+  await writeSeed([
+    node("sym:a", "Symbol", { name: "a", legacy: true, updated_at: "2026-10-01T00:00:00Z" }),
+    node("sym:b", "Symbol", { name: "b", updated_at: "2026-10-01T00:00:00Z" }),
+    node("sym:c", "Symbol", { name: "c" }),
+    rel("sym:a", "IMPORTS", "sym:b"),
+    rel("sym:b", "IMPORTS", "sym:c")
+  ]);
+  await writeText(policyFile, `${policy(1, "tables use ag-grid")}\n`);
+  const service = new GraphOpsService({
+    seedRoot: path.join(root, "seed"),
+    outRoot: path.join(root, "out"),
+    cypherRoot: path.join(root, "cypher"),
+    neo4j: DEFAULT_CONFIG.neo4j,
+    backend: "embedded",
+    storePath: path.join(root, "store/graph.json")
+  });
+
+  const first = await service.sync();
+  assert.equal(first.mode, "full");
+  assert.equal(first.fullReason, "no sync manifest for this graph");
+  assert.deepEqual([first.changes.nodesUpserted, first.changes.relationshipsUpserted], [4, 2]);
+
+  // Another tool writes a memory node into the same graph
+  const writer = await service.connect();
+  await writer.runWrite("MERGE (m:MemoryRecord {id: 'mem:1'}) SET m.note = 'keep me'");
+  await writer.close();
+  await service.exportSnapshot("delta");
+
+  // Edit a, restamp b, drop c and its edge, add d, bump the policy
+  await writeSeed([
+    node("sym:a", "Symbol", { name: "a2", updated_at: "2026-10-01T00:00:00Z" }),
+    node("sym:b", "Symbol", { name: "b", updated_at: "2026-10-19T00:00:00Z" }),
+    node("sym:d", "Symbol", { name: "d" }),
+    rel("sym:a", "IMPORTS", "sym:b")
+  ]);
+  await writeText(policyFile, `${policy(2, "tables and lists use ag-grid")}\n`);
+  const second = await service.sync();
+  assert.equal(second.mode, "incremental");
+  assert.equal(second.appliedCypherStatements, 0);
+  assert.deepEqual(second.changes, {
+    nodesUpserted: 3, nodesDeleted: 1, relationshipsUpserted: 0, relationshipsDeleted: 1, queriesApplied: 0, unchangedRows: 2
+  });
+
+  const reader = await service.connect();
+  const nodes = await reader.runRead<{ id: string; name: string | null; legacy: boolean | null }>(
+    "MATCH (n) RETURN n.id AS id, n.name AS name, n.legacy AS legacy ORDER BY id"
+  );
+  assert.deepEqual(nodes, [
+    { id: "mem:1", name: null, legacy: null },
+    { id: "policy:no-raw-table", name: null, legacy: null },
+    { id: "sym:a", name: "a2", legacy: null },
+    { id: "sym:b", name: "b", legacy: null },
+    { id: "sym:d", name: "d", legacy: null }
+  ]);
+  assert.deepEqual(await reader.runRead("MATCH (a)-[r:IMPORTS]->(b) RETURN a.id AS from, b.id AS to"), [{ from: "sym:a", to: "sym:b" }]);
+  await reader.close();
+  const watermark = JSON.parse(await readText(path.join(root, "out/_watermarks.json"))) as { lastExportAt: string };
+  assert.notEqual(watermark.lastExportAt, "", "an incremental sync keeps the export watermark");
+
+  // A changed policy that keeps its version is refused before anything is written
+  await writeText(policyFile, `${policy(2, "anything goes")}\n`);
+  await writeSeed([node("sym:e", "Symbol", { name: "e" })]);
+  await assert.rejects(service.sync(), /GRAPH_SEED_VERSION_NOT_INCREMENTED node:UIPolicy:policy:no-raw-table/);
+  const store = new EmbeddedGraphStore({ storePath: path.join(root, "store/graph.json") });
+  assert.deepEqual(await store.runRead("MATCH (n:Symbol {id: 'sym:e'}) RETURN n.id AS id"), []);
+  await store.close();
+
+  await writeText(policyFile, `${policy(2, "tables and lists use ag-grid")}\n`);
+  const full = await service.sync({ full: true });
+  assert.equal(full.mode, "full");
+  assert.equal(full.fullReason, "requested");
+  const rebuilt = await service.connect();
+  assert.deepEqual(await rebuilt.runRead("MATCH (n:MemoryRecord) RETURN n.id AS id"), [], "a full sync drops foreign nodes");
+  await rebuilt.close();
+
+  const idle = await service.sync();
+  assert.equal(idle.mode, "incremental");
+  assert.equal(idle.seededRows, 0);
+  assert.equal(idle.changes.unchangedRows, 2);
+});
@@ -0,0 +1,141 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import os from "node:os";
+import path from "node:path";
+import { mkdtemp, readdir, readFile, rm } from "node:fs/promises";
+import { DEFAULT_CONFIG } from "../src/config/types";
+import { IndexingService, type IndexUpdateResult } from "../src/domains/indexing/indexingService";
+import { writeText } from "../src/shared/fileStore";
+
+async function fixtureRepo(): Promise<{ repoRoot: string; cacheRoot: string }> {
+  const root = await mkdtemp(path.join(os.tmpdir(), "indexing-service-"));
+  const repoRoot = path.join(root, "repo");
+  await writeText(
+    path.join(repoRoot, "src/app/home.component.ts"),
+    "import { Component } from '@angular/core';\n@Component({ selector: 'app-home', template: `<a routerLink=\"/orders\">Orders</a><router-outlet></router-outlet>` })\nexport class HomeComponent {}\n"
+  );
+  await writeText(
+    path.join(repoRoot, "src/app/app.routes.ts"),
+    "import { Routes } from '@angular/router';\nexport const routes: Routes = [{ path: 'orders', loadComponent: () => import('./orders.component').then((m) => m.OrdersComponent) }];\n"
+  );
+  await writeText(path.join(repoRoot, "src/app/orders.service.ts"), "export class OrdersService {\n  loadOrders() { return []; }\n}\n");
+  return { repoRoot, cacheRoot: path.join(root, "cache") };
+}
+
+test("index cache reuses unchanged files across restarts and re-parses changed ones", async () => {
+  const { repoRoot, cacheRoot } = await fixtureRepo();
+
+  const first = new IndexingService(DEFAULT_CONFIG, cacheRoot);
+  await first.rebuild(repoRoot);
+  assert.deepEqual(first.getIndexStats(), { files: 3, parsed: 3, reused: 0, removed: 0 });
+  assert.equal(first.getParsedRoutes()[0].fullPath, "orders");
+
+  await writeText(path.join(repoRoot, "src/app/orders.service.ts"), "export class OrdersService {}\nexport interface OrderDto { id: string }\n");
+  const restarted = new IndexingService(DEFAULT_CONFIG, cacheRoot);
+  await restarted.rebuild(repoRoot);
+  assert.deepEqual(restarted.getIndexStats(), { files: 3, parsed: 1, reused: 2, removed: 0 });
+  assert.equal(restarted.searchSymbol("HomeComponent")[0].filePath, path.join(repoRoot, "src/app/home.component.ts"));
+  assert.equal(restarted.searchSymbol("OrderDto")[0].kind, "interface");
+  assert.equal(restarted.getTemplateRouterLinks()[0].routePath, "/orders");
+  assert.deepEqual(restarted.getRouterOutletFiles(), [path.join(repoRoot, "src/app/home.component.ts")]);
+  assert.equal(restarted.getParsedRoutes().length, 1);
+});
+
+test("updateFiles replaces one file's facts and drops deleted files", async () => {
+  const { repoRoot } = await fixtureRepo();
+  const indexing = new IndexingService(DEFAULT_CONFIG, null);
+  await indexing.rebuild(repoRoot);
+
+  await writeText(path.join(repoRoot, "src/app/orders.service.ts"), "export class InvoicesService {\n  loadInvoices() { return []; }\n}\n");
+  await rm(path.join(repoRoot, "src/app/app.routes.ts"));
+  await writeText(path.join(repoRoot, "notes/todo.ts"), "export const outsideRoots = 1;\n");
+  const result = await indexing.updateFiles(["src/app/orders.service.ts", "src/app/app.routes.ts", "notes/todo.ts"]);
+
+  assert.deepEqual(result.updated, [path.join(repoRoot, "src/app/orders.service.ts")]);
+  assert.deepEqual(result.removed, [path.join(repoRoot, "src/app/app.routes.ts")]);
+  assert.deepEqual(indexing.searchSymbol("OrdersService"), []);
+  assert.equal(indexing.searchSymbol("InvoicesService").length, 1);
+  assert.deepEqual(indexing.searchLexical("loadOrders"), []);
+  assert.equal(indexing.searchLexical("loadInvoices")[0].line, 2);
+  assert.deepEqual(indexing.getParsedRoutes(), []);
+  assert.equal(indexing.getIndexedFilePaths().length, 2);
+});
+
+test("watch mode re-indexes files as they change", async () => {
+  const { repoRoot } = await fixtureRepo();
+  const indexing = new IndexingService(DEFAULT_CONFIG, null);
+  await indexing.rebuild(repoRoot);
+
+  const updates: IndexUpdateResult[] = [];
+  const handle = indexing.watch({ debounceMs: 50, onUpdate: (result) => updates.push(result) });
+  try {
+    await writeText(path.join(repoRoot, "src/app/cart.service.ts"), "export class CartService {}\n");
+    const deadline = Date.now() + 5000;
+    while (indexing.searchSymbol("CartService").length === 0 && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+  } finally {
+    handle.close();
+  }
+
+  assert.equal(indexing.searchSymbol("CartService")[0].filePath, path.join(repoRoot, "src/app/cart.service.ts"));
+  assert.ok(updates.some((result) => result.updated.includes(path.join(repoRoot, "src/app/cart.service.ts"))));
+});
+
+test("watch mode defers the cache file write until the save delay or close", async () => {
+  const { repoRoot, cacheRoot } = await fixtureRepo();
+  const indexing = new IndexingService(DEFAULT_CONFIG, cacheRoot);
+  await indexing.rebuild(repoRoot);
+  const [cacheFile] = await readdir(cacheRoot);
+  const cachePath = path.join(cacheRoot, cacheFile);
+  const savedByRebuild = await readFile(cachePath, "utf8");
+
+  const handle = indexing.watch({ debounceMs: 50, saveDelayMs: 60_000 });
+  try {
+    await writeText(path.join(repoRoot, "src/app/cart.service.ts"), "export class CartService {}\n");
+    const deadline = Date.now() + 5000;
+    while (indexing.searchSymbol("CartService").length === 0 && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+    assert.equal(indexing.searchSymbol("CartService").length, 1);
+    assert.equal(await readFile(cachePath, "utf8"), savedByRebuild);
+  } finally {
+    handle.close();
+  }
+  await indexing.flushCache();
+
+  assert.match(await readFile(cachePath, "utf8"), /cart\.service\.ts/);
+});
+
+test("worktree overlays answer searches with the checkout's content and leave the live index alone", async () => {
+  const { repoRoot } = await fixtureRepo();
+  const indexing = new IndexingService(DEFAULT_CONFIG, null);
+  await indexing.rebuild(repoRoot);
+  const worktreeRoot = path.join(path.dirname(repoRoot), "work", "repo");
+  await writeText(path.join(worktreeRoot, "src/app/orders.service.ts"), "export class InvoicesService {\n  loadInvoices() { return []; }\n}\n");
+  await writeText(path.join(worktreeRoot, "src/app/home.component.ts"), await readFile(path.join(repoRoot, "src/app/home.component.ts"), "utf8"));
+
+  const result = await indexing.updateWorktreeFiles(worktreeRoot, [
+    path.join(worktreeRoot, "src/app/orders.service.ts"),
+    "src/app/home.component.ts",
+    "src/app/app.routes.ts",
+  ]);
+  const servicePath = path.join(repoRoot, "src/app/orders.service.ts");
+  assert.deepEqual(result, { updated: [servicePath], removed: [path.join(repoRoot, "src/app/app.routes.ts")] });
+
+  assert.deepEqual(indexing.searchSymbol("InvoicesService", 20, worktreeRoot), [{ symbol: "InvoicesService", filePath: servicePath, kind: "class" }]);
+  assert.deepEqual(indexing.searchSymbol("OrdersService", 20, worktreeRoot), []);
+  assert.deepEqual(indexing.searchSymbol("routes", 20, worktreeRoot), []);
+  assert.equal(indexing.searchSymbol("HomeComponent", 20, worktreeRoot).length, 1);
+  assert.deepEqual(indexing.searchLexical("loadInvoices", 20, {}, worktreeRoot).map((hit) => [hit.filePath, hit.line]), [[servicePath, 2]]);
+  assert.deepEqual(indexing.searchLexical("loadOrders", 20, {}, worktreeRoot), []);
+
+  // Without the worktree, and for the live repo, nothing changed
+  assert.equal(indexing.searchSymbol("OrdersService").length, 1);
+  assert.deepEqual(indexing.searchLexical("loadInvoices"), []);
+
+  // Restoring the live content drops the file from the overlay
+  await writeText(path.join(worktreeRoot, "src/app/orders.service.ts"), "export class OrdersService {\n  loadOrders() { return []; }\n}\n");
+  await indexing.updateWorktreeFiles(worktreeRoot, ["src/app/orders.service.ts"]);
+  assert.equal(indexing.searchSymbol("OrdersService", 20, worktreeRoot).length, 1);
+});
@@ -0,0 +1,88 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { LexicalIndex, parseLexicalQuery } from "../src/infrastructure/lexical-index/lexicalIndex";
+import { createGlobFilter } from "../src/shared/globMatch";
+
+function fixtureIndex(): LexicalIndex {
+  const index = new LexicalIndex();
+  index.addDocument("/repo/src/app/orders.service.ts", [
+    "import { HttpClient } from '@angular/common/http';",
+    "export class OrdersService {",
+    "  loadOrders() { return this.http.get('/api/orders'); }",
+    "  cancelOrder(id: string) { return this.http.delete(`/api/orders/${id}`); }",
+    "}"
+  ].join("\n"));
+  index.addDocument("/repo/src/app/order-list.component.html", [
+    "<app-order-list-item *ngFor=\"let order of orders\"></app-order-list-item>",
+    "<button (click)=\"refresh()\">Refresh orders</button>"
+  ].join("\n"));
+  index.addDocument("/repo/src/app/order-list.component.spec.ts", [
+    "describe('OrderListComponent', () => {",
+    "  it('renders orders', () => expect(ORDER_PAGE_SIZE).toBe(20));",
+    "});"
+  ].join("\n"));
+  return index;
+}
+
+test("BM25 ranks rare terms above common ones and matches identifier sub-tokens", () => {
+  const index = fixtureIndex();
+
+  const ranked = index.searchLexeme("orders cancel");
+  assert.equal(ranked[0].line, 4);
+  assert.equal(ranked[0].score, 1);
+  assert.ok(ranked.slice(1).every((hit) => hit.score < 1));
+
+  assert.deepEqual(index.searchLexeme("page").map((hit) => hit.line), [2]);
+  assert.deepEqual(index.searchLexeme("item").map((hit) => hit.filePath), ["/repo/src/app/order-list.component.html"]);
+  assert.equal(index.searchLexeme("app-order-list-item").length, 1);
+  assert.deepEqual(index.searchLexeme("loadOrders").map((hit) => hit.line), [3]);
+
+  index.removeDocument("/repo/src/app/orders.service.ts");
+  assert.deepEqual(index.searchLexeme("cancel"), []);
+});
+
+test("quoted phrases and /regex/ queries filter lines", () => {
+  const index = fixtureIndex();
+
+  assert.deepEqual(index.searchLexeme("\"refresh orders\"").map((hit) => hit.line), [2]);
+  assert.deepEqual(index.searchLexeme("\"this.http\" delete").map((hit) => hit.line), [4, 3]);
+  assert.deepEqual(index.searchLexeme("/http\\.(get|delete)\\(/").map((hit) => hit.line), [3, 4]);
+  assert.deepEqual(index.searchLexeme("/ORDER_[A-Z]+/").map((hit) => hit.filePath), ["/repo/src/app/order-list.component.spec.ts"]);
+  assert.throws(() => parseLexicalQuery("/(unclosed/"), /LEXICAL_QUERY_INVALID/);
+});
+
+test("regex queries refuse runaway patterns and stop at the limit", () => {
+  const index = fixtureIndex();
+
+  assert.throws(() => parseLexicalQuery("/(a+)+$/"), /LEXICAL_QUERY_INVALID/);
+  assert.throws(() => parseLexicalQuery("/((ab)*c)+/"), /LEXICAL_QUERY_INVALID/);
+  assert.throws(() => parseLexicalQuery(`/${"a".repeat(300)}/`), /LEXICAL_QUERY_INVALID/);
+  assert.ok(parseLexicalQuery("/(get|delete)+[+*]\\(+/").regex);
+
+  const scanned: string[] = [];
+  const first = index.searchLexeme("/orders/i", {
+    limit: 1,
+    fileFilter: (filePath) => {
+      scanned.push(filePath);
+      return !filePath.endsWith(".html");
+    }
+  });
+  assert.deepEqual(first.map((hit) => [hit.filePath, hit.line]), [["/repo/src/app/order-list.component.spec.ts", 2]]);
+  // The html file sorts first but is filtered out; the scan stops at the first admitted hit
+  assert.deepEqual(scanned, ["/repo/src/app/order-list.component.html", "/repo/src/app/order-list.component.spec.ts"]);
+});
+
+test("include and exclude globs drop files before ranking", () => {
+  const index = fixtureIndex();
+  const relative = (filter: (path: string) => boolean) => (filePath: string) => filter(filePath.replace("/repo/", ""));
+
+  const htmlOnly = index.searchLexeme("orders", { fileFilter: relative(createGlobFilter(["*.html"])) });
+  assert.deepEqual([...new Set(htmlOnly.map((hit) => hit.filePath))], ["/repo/src/app/order-list.component.html"]);
+
+  const noSpecs = index.searchLexeme("orders", { fileFilter: relative(createGlobFilter(["src/app/**"], ["**/*.spec.ts"])) });
+  assert.ok(noSpecs.length > 0);
+  assert.ok(noSpecs.every((hit) => !hit.filePath.endsWith(".spec.ts")));
+
+  const limited = index.searchLexeme("orders", { limit: 1, fileFilter: relative(createGlobFilter(["src/app/*.spec.{ts,js}"])) });
+  assert.deepEqual(limited.map((hit) => hit.filePath), ["/repo/src/app/order-list.component.spec.ts"]);
+});
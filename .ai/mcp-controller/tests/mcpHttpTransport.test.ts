@@ -0,0 +1,94 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import type { AddressInfo } from "node:net";
+import express from "express";
+import { EventStore } from "../src/domains/observability/eventStore";
+import { TurnController } from "../src/domains/controller/turnController";
+import { McpHttpTransport } from "../src/mcp/httpTransport";
+import { DEFAULT_CONFIG } from "../src/config/types";
+
+async function withServer(run: (url: string, transport: McpHttpTransport) => Promise<void>): Promise<void> {
+  const app = express();
+  app.use(express.json({ limit: "2mb" }));
+  const transport = new McpHttpTransport({ controller: new TurnController(new EventStore()), config: DEFAULT_CONFIG.mcpHttp, exposeVerbTools: false });
+  transport.mount(app);
+  const server = app.listen(0, "127.0.0.1");
+  await new Promise<void>((resolve) => server.once("listening", () => resolve()));
+  try {
+    await run(`http://127.0.0.1:${(server.address() as AddressInfo).port}/mcp`, transport);
+  } finally {
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+}
+
+function post(url: string, body: unknown, headers: Record<string, string> = {}): Promise<Response> {
+  return fetch(url, {
+    method: "POST",
+    headers: { "content-type": "application/json", accept: "application/json, text/event-stream", ...headers },
+    body: JSON.stringify(body),
+  });
+}
+
+function sseMessages(text: string): Array<Record<string, any>> {
+  return text.split("\n\n")
+    .map((block) => block.split("\n").find((line) => line.startsWith("data: ")))
+    .filter((line): line is string => Boolean(line))
+    .map((line) => JSON.parse(line.slice("data: ".length)));
+}
+
+test("initialize opens a session whose header maps tool calls to a runSessionId", async () => {
+  await withServer(async (url, transport) => {
+    const init = await post(url, { jsonrpc: "2.0", id: 1, method: "initialize", params: {} }, { "mcp-run-session-id": "run_shared_team" });
+    const sessionId = init.headers.get("mcp-session-id")!;
+    assert.match(sessionId, /^mcp_/);
+    assert.equal(((await init.json()) as { result: { protocolVersion: string } }).result.protocolVersion, "2025-11-25");
+    assert.equal(transport.sessionCount(), 1);
+
+    assert.equal((await post(url, { jsonrpc: "2.0", method: "notifications/initialized" }, { "mcp-session-id": sessionId })).status, 202);
+    const list = await post(url, { jsonrpc: "2.0", id: 2, method: "tools/list" }, { "mcp-session-id": sessionId, accept: "application/json" });
+    assert.deepEqual(((await list.json()) as { result: { tools: Array<{ name: string }> } }).result.tools.map((tool) => tool.name), ["controller_turn"]);
+
+    const call = await post(url, {
+      jsonrpc: "2.0", id: 3, method: "tools/call",
+      params: { name: "controller_turn", arguments: { verb: "read_file_lines", workId: "work_http_turn", args: { targetFile: "src/a.ts" } } },
+    }, { "mcp-session-id": sessionId, accept: "application/json" });
+    const reply = (await call.json()) as { result: { structuredContent: { runSessionId: string; denyReasons: string[] } } };
+    assert.equal(reply.result.structuredContent.runSessionId, "run_shared_team");
+    assert.deepEqual(reply.result.structuredContent.denyReasons, ["PLAN_SCOPE_VIOLATION"]);
+
+    assert.equal((await post(url, { jsonrpc: "2.0", id: 4, method: "tools/list" })).status, 400);
+    assert.equal((await post(url, { jsonrpc: "2.0", id: 5, method: "tools/list" }, { "mcp-session-id": "mcp_unknown" })).status, 404);
+    assert.equal((await post(url, [{ jsonrpc: "2.0", id: 6, method: "ping" }], { "mcp-session-id": sessionId })).status, 400);
+    assert.equal((await post(url, { jsonrpc: "2.0", id: 7, method: "ping" }, { "mcp-session-id": sessionId, origin: "https://evil.example" })).status, 403);
+    assert.equal((await post(url, { jsonrpc: "2.0", id: 8, method: "ping" }, { "mcp-session-id": sessionId, "mcp-protocol-version": "1999-01-01" })).status, 400);
+
+    assert.equal((await fetch(url, { method: "DELETE", headers: { "mcp-session-id": sessionId } })).status, 204);
+    assert.equal((await post(url, { jsonrpc: "2.0", id: 9, method: "ping" }, { "mcp-session-id": sessionId })).status, 404);
+  });
+});
+
+test("tools/call streams initialize_work progress before the result", async () => {
+  await withServer(async (url) => {
+    const init = await post(url, { jsonrpc: "2.0", id: 1, method: "initialize", params: {} });
+    const sessionId = init.headers.get("mcp-session-id")!;
+
+    const call = await post(url, {
+      jsonrpc: "2.0", id: 2, method: "tools/call",
+      params: {
+        name: "controller_turn",
+        arguments: { verb: "initialize_work", workId: `work_http_${Date.now().toString(36)}`, agentId: "agent_http", originalPrompt: "stream progress", args: {} },
+        _meta: { progressToken: "init-1" },
+      },
+    }, { "mcp-session-id": sessionId });
+    assert.equal(call.headers.get("content-type"), "text/event-stream");
+
+    const messages = sseMessages(await call.text());
+    const progress = messages.filter((message) => message.method === "notifications/progress");
+    assert.deepEqual(progress.map((message) => message.params.progress), [1, 2, 3, 4, 5, 6]);
+    assert.ok(progress.every((message) => message.params.progressToken === "init-1" && message.params.total === 6));
+    const result = messages.at(-1)!;
+    assert.equal(result.id, 2);
+    assert.equal(result.result.structuredContent.runSessionId.startsWith("run_"), true);
+  });
+});
@@ -0,0 +1,194 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import os from "node:os";
+import path from "node:path";
+import { mkdtemp } from "node:fs/promises";
+import { DEFAULT_CONFIG } from "../src/config/types";
+import { IndexingService } from "../src/domains/indexing/indexingService";
+import { generateFactSeedFiles } from "../src/domains/graph-ops/seedFactsFromIndex";
+import { readText, writeText } from "../src/shared/fileStore";
+
+const FILES: Record<string, string> = {
+  "src/app/shared/card.component.ts": [
+    "import { Component } from '@angular/core';",
+    "@Component({ selector: 'app-card', template: '<ng-content></ng-content>' })",
+    "export class CardComponent {}",
+  ].join("\n"),
+  "src/app/shared/highlight.directive.ts": [
+    "import { Directive } from '@angular/core';",
+    "@Directive({ selector: '[appHighlight]', standalone: true, exportAs: 'highlight' })",
+    "export class HighlightDirective {}",
+  ].join("\n"),
+  "src/app/shared/widgets.module.ts": [
+    "import { Component, NgModule } from '@angular/core';",
+    "@Component({ selector: 'app-chip', template: '' })",
+    "export class ChipComponent {}",
+    "@NgModule({ declarations: [ChipComponent], exports: [ChipComponent] })",
+    "export class WidgetsModule {}",
+  ].join("\n"),
+  "src/app/shared/shared.module.ts": [
+    "import { NgModule } from '@angular/core';",
+    "import { CommonModule } from '@angular/common';",
+    "const DECLARATIONS = [CardComponent];",
+    "@NgModule({",
+    "  declarations: [...DECLARATIONS],",
+    "  imports: [CommonModule],",
+    "  exports: [...DECLARATIONS, WidgetsModule],",
+    "  providers: [OrdersService, { provide: API_URL, useValue: '/api' }, { provide: LOGGER, useClass: ConsoleLogger, multi: true }, provideHttpClient()]",
+    "})",
+    "export class SharedModule {}",
+  ].join("\n"),
+  "src/app/core/tokens.ts": [
+    "import { InjectionToken } from '@angular/core';",
+    "export const API_URL = new InjectionToken<string>('api url', { providedIn: 'root', factory: () => '/api' });",
+    "export const LOGGER = new InjectionToken<Logger>('logger');",
+  ].join("\n"),
+  "src/app/core/orders.service.ts": [
+    "import { Injectable } from '@angular/core';",
+    "@Injectable({ providedIn: 'root' })",
+    "export class OrdersService {}",
+    "@Injectable({ providedIn: SharedModule })",
+    "export class ConsoleLogger {}",
+  ].join("\n"),
+  "src/app/orders/orders.module.ts": [
+    "import { NgModule } from '@angular/core';",
+    "@NgModule({ declarations: [OrdersPageComponent], imports: [SharedModule, RouterModule.forChild([])] })",
+    "export class OrdersModule {}",
+  ].join("\n"),
+  "src/app/orders/orders-page.component.ts": [
+    "import { Component } from '@angular/core';",
+    "@Component({ selector: 'app-orders-page', templateUrl: './orders-page.component.html' })",
+    "export class OrdersPageComponent {}",
+  ].join("\n"),
+  "src/app/orders/orders-page.component.html": "<app-card [appHighlight]=\"true\"></app-card>\n<app-chip></app-chip>\n",
+  "src/app/profile.component.ts": [
+    "import { Component } from '@angular/core';",
+    "@Component({",
+    "  selector: 'app-profile',",
+    "  standalone: true,",
+    "  imports: [HighlightDirective, WidgetsModule],",
+    "  viewProviders: [{ provide: LOGGER, useExisting: ConsoleLogger }],",
+    "  template: `<div [appHighlight]=\"on\"></div><app-chip></app-chip><app-card></app-card>`",
+    "})",
+    "export class ProfileComponent {}",
+  ].join("\n"),
+};
+
+async function indexedFixture(): Promise<{ repoRoot: string; indexing: IndexingService }> {
+  const repoRoot = await mkdtemp(path.join(os.tmpdir(), "ng-module-"));
+  for (const [file, content] of Object.entries(FILES)) {
+    await writeText(path.join(repoRoot, file), `${content}\n`);
+  }
+  const indexing = new IndexingService(DEFAULT_CONFIG, null);
+  await indexing.rebuild(repoRoot);
+  return { repoRoot, indexing };
+}
+
+test("NgModules, declarables, providers, providedIn and InjectionTokens are extracted", async () => {
+  const { repoRoot, indexing } = await indexedFixture();
+
+  const shared = indexing.getNgModules().find((module) => module.name === "SharedModule");
+  assert.deepEqual(shared && [shared.declarations, shared.imports, shared.exports], [["CardComponent"], ["CommonModule"], ["CardComponent", "WidgetsModule"]]);
+  assert.deepEqual(shared?.providers, [
+    { token: "OrdersService", kind: "class", target: null, multi: false },
+    { token: "API_URL", kind: "useValue", target: null, multi: false },
+    { token: "LOGGER", kind: "useClass", target: "ConsoleLogger", multi: true },
+    { token: "provideHttpClient", kind: "function", target: null, multi: false },
+  ]);
+  assert.deepEqual(indexing.getNgModules().find((module) => module.name === "OrdersModule")?.imports, ["SharedModule", "RouterModule"]);
+
+  const declarables = new Map(indexing.getAngularDeclarables().map((item) => [item.name, item]));
+  assert.deepEqual(
+    [...declarables.values()].map((item) => [item.name, item.kind, item.selector, item.standalone]).sort(),
+    [
+      ["CardComponent", "component", "app-card", null],
+      ["ChipComponent", "component", "app-chip", null],
+      ["HighlightDirective", "directive", "[appHighlight]", true],
+      ["OrdersPageComponent", "component", "app-orders-page", null],
+      ["ProfileComponent", "component", "app-profile", true],
+    ]
+  );
+  assert.equal(declarables.get("OrdersPageComponent")?.templateFile, path.join(repoRoot, "src/app/orders/orders-page.component.html"));
+  assert.deepEqual(declarables.get("ProfileComponent")?.viewProviders, [{ token: "LOGGER", kind: "useExisting", target: "ConsoleLogger", multi: false }]);
+
+  assert.deepEqual(indexing.getInjectables().map((item) => [item.name, item.providedIn]), [["OrdersService", "root"], ["ConsoleLogger", "SharedModule"]]);
+  assert.deepEqual(
+    indexing.getInjectionTokens().map((item) => [item.name, item.typeText, item.description, item.providedIn, item.hasFactory]),
+    [["API_URL", "string", "api url", "root", true], ["LOGGER", "Logger", "logger", null, false]]
+  );
+});
+
+test("template scopes resolve which module or standalone import makes a selector available", async () => {
+  const { repoRoot, indexing } = await indexedFixture();
+
+  const ordersScope = indexing.getTemplateScope("src/app/orders/orders-page.component.html");
+  assert.deepEqual(ordersScope?.owner?.name, "OrdersModule");
+  assert.deepEqual(ordersScope?.available.map((entry) => [entry.selector, entry.via]), [
+    ["app-orders-page", "OrdersModule"],
+    ["app-card", "SharedModule"],
+    ["app-chip", "SharedModule"],
+  ]);
+
+  const resolutions = indexing.getTemplateSelectorResolutions().map((item) => [
+    path.basename(item.filePath), item.kind, item.name, item.status, item.via, item.candidates,
+  ]);
+  assert.deepEqual(resolutions, [
+    ["orders-page.component.html", "element", "app-card", "available", "SharedModule", []],
+    ["orders-page.component.html", "element", "app-chip", "available", "SharedModule", []],
+    ["profile.component.ts", "element", "app-chip", "available", "WidgetsModule", []],
+    ["profile.component.ts", "element", "app-card", "not_in_scope", null, ["SharedModule"]],
+    ["orders-page.component.html", "attribute", "appHighlight", "not_in_scope", null, ["HighlightDirective"]],
+    ["profile.component.ts", "attribute", "appHighlight", "available", "HighlightDirective", []],
+  ]);
+
+  const seedRoot = path.join(repoRoot, ".seed");
+  const result = await generateFactSeedFiles(
+    repoRoot, seedRoot, indexing.getSymbolHeaders(), indexing.getTemplateUsageFacts(), [], [], [], indexing.getDirectiveUsages(), [], [], [], [],
+    {
+      modules: indexing.getNgModules(),
+      declarables: indexing.getAngularDeclarables(),
+      injectables: indexing.getInjectables(),
+      injectionTokens: indexing.getInjectionTokens(),
+    },
+    indexing.getTemplateSelectorResolutions(),
+  );
+  assert.deepEqual([result.ngModuleCount, result.angularDeclarableCount, result.outOfScopeUsageCount], [3, 5, 2]);
+
+  const nodes = (await readText(path.join(seedRoot, "fact/angular.jsonl"))).trim().split("\n").map((line) => JSON.parse(line));
+  const chip = nodes.find((node) => node.properties.name === "ChipComponent");
+  assert.equal(chip.id, "ngdeclarable:src/app/shared/widgets.module.ts#ChipComponent");
+  assert.equal(chip.properties.standalone, false);
+  assert.equal(nodes.find((node) => node.properties.name === "CardComponent").properties.standalone, false);
+
+  const edges = (await readText(path.join(seedRoot, "fact/edges.jsonl"))).trim().split("\n").map((line) => JSON.parse(line));
+  const pairs = (relType: string) => edges.filter((edge) => edge.relType === relType).map((edge) => `${edge.from.id.split("#")[1]}->${edge.to.id.split("#")[1]}`);
+  assert.deepEqual(pairs("MODULE_EXPORTS"), ["SharedModule->CardComponent", "SharedModule->WidgetsModule", "WidgetsModule->ChipComponent"]);
+  assert.deepEqual(pairs("STANDALONE_IMPORTS"), ["ProfileComponent->HighlightDirective", "ProfileComponent->WidgetsModule"]);
+  assert.deepEqual(pairs("PROVIDES"), ["SharedModule->OrdersService", "SharedModule->API_URL", "SharedModule->LOGGER", "ProfileComponent->LOGGER"]);
+  assert.deepEqual(pairs("PROVIDED_IN"), ["ConsoleLogger->SharedModule"]);
+  const outOfScope = edges.find((edge) => edge.relType === "USES_DECLARABLE" && edge.from.id === "file:src/app/profile.component.ts" && edge.properties.status === "not_in_scope");
+  assert.deepEqual(outOfScope?.properties.candidates, ["SharedModule"]);
+});
+
+test("an omitted standalone follows the repo's @angular/core major version", async () => {
+  const scopeOwner = async (angularCore: string | null) => {
+    const repoRoot = await mkdtemp(path.join(os.tmpdir(), "ng-standalone-"));
+    if (angularCore) {
+      await writeText(path.join(repoRoot, "package.json"), JSON.stringify({ dependencies: { "@angular/core": angularCore } }));
+    }
+    await writeText(path.join(repoRoot, "src/app/banner.component.ts"), [
+      "import { Component } from '@angular/core';",
+      "@Component({ selector: 'app-banner', template: '<p>banner</p>' })",
+      "export class BannerComponent {}",
+      "",
+    ].join("\n"));
+    const indexing = new IndexingService(DEFAULT_CONFIG, null);
+    await indexing.rebuild(repoRoot);
+    return [indexing.getAngularStandaloneDefault(), indexing.getTemplateScope("src/app/banner.component.ts")?.owner?.kind ?? null];
+  };
+
+  // Before Angular 19 a component is module-scoped unless it says standalone: true
+  assert.deepEqual(await scopeOwner("^14.3.0"), [false, null]);
+  assert.deepEqual(await scopeOwner("~19.1.0"), [true, "standalone"]);
+  assert.deepEqual(await scopeOwner(null), [null, "standalone"]);
+});
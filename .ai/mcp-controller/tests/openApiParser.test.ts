@@ -0,0 +1,176 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import os from "node:os";
+import path from "node:path";
+import { mkdtemp } from "node:fs/promises";
+import { DEFAULT_CONFIG } from "../src/config/types";
+import { IndexingService } from "../src/domains/indexing/indexingService";
+import { loadOpenApiSpecs, parseOpenApiSource } from "../src/domains/indexing/openApiParser";
+import { generateFactSeedFiles } from "../src/domains/graph-ops/seedFactsFromIndex";
+import { readText, writeText } from "../src/shared/fileStore";
+
+const SWAGGER_V2 = [
+  "swagger: '2.0'",
+  "info: { title: Accounts API, version: '2.1' }",
+  "basePath: /api/v2",
+  "parameters:",
+  "  accountId: { name: id, in: path, type: string }",
+  "paths:",
+  "  /accounts/{id}:",
+  "    parameters:",
+  "      - $ref: '#/parameters/accountId'",
+  "    get:",
+  "      operationId: getAccount",
+  "      tags: [accounts]",
+  "      responses:",
+  "        '200': { description: ok, schema: { $ref: '#/definitions/AccountDTO' } }",
+  "        '404': { description: missing }",
+  "    put:",
+  "      operationId: updateAccount",
+  "      tags: [accounts]",
+  "      parameters:",
+  "        - { name: body, in: body, required: true, schema: { $ref: '#/definitions/AccountDTO' } }",
+  "        - { name: dryRun, in: query, type: boolean }",
+  "      responses:",
+  "        '204': { description: saved }",
+  "definitions:",
+  "  AccountDTO:",
+  "    type: object",
+  "    required: [id]",
+  "    properties:",
+  "      id: { type: string }",
+  "      balances: { type: array, items: { $ref: '#/definitions/Balance' } }",
+  "  Balance: { type: object, properties: { amount: { type: number } } }",
+  ""
+].join("\n");
+
+const OPENAPI_V3 = JSON.stringify({
+  openapi: "3.0.3",
+  info: { title: "Orders", version: "1" },
+  servers: [{ url: "https://orders.example.com/api/" }],
+  paths: {
+    "/orders": {
+      post: {
+        operationId: "createOrder",
+        requestBody: { $ref: "#/components/requestBodies/NewOrder" },
+        responses: { "201": { description: "created", content: { "application/json": { schema: { $ref: "#/components/schemas/Order" } } } } }
+      }
+    }
+  },
+  components: {
+    requestBodies: { NewOrder: { content: { "application/json": { schema: { $ref: "#/components/schemas/NewOrder" } } } } },
+    schemas: {
+      Order: { type: "object", properties: { id: { type: "string" }, status: { enum: ["open", "paid"] } } },
+      NewOrder: { type: "object", properties: { sku: { type: "string" } } }
+    }
+  }
+});
+
+const ACCOUNT_SERVICE = [
+  "import { HttpClient } from '@angular/common/http';",
+  "import { inject } from '@angular/core';",
+  "export interface AccountDto { id: string }",
+  "export class AccountService {",
+  "  private readonly base = '/api/v2';",
+  "  constructor(private http: HttpClient) {}",
+  "  load(id: string) {",
+  "    return this.http.get<AccountDto>(`${this.base}/accounts/${id}`);",
+  "  }",
+  "  save(id: string, account: AccountDto) {",
+  "    return this.http.request('put', this.base + '/accounts/' + id, { body: account });",
+  "  }",
+  "  unrelated(id: string) {",
+  "    return this.http.get(`/users/${id}/accounts`);",
+  "  }",
+  "}",
+  "export function placeOrder() {",
+  "  const client = inject(HttpClient);",
+  "  return client.post<Order>('https://orders.example.com/api/orders', {});",
+  "}",
+  "export interface Order { id: string }",
+  ""
+].join("\n");
+
+async function fixtureRepo(): Promise<string> {
+  const repoRoot = await mkdtemp(path.join(os.tmpdir(), "openapi-"));
+  await writeText(path.join(repoRoot, "specs/accounts.yaml"), SWAGGER_V2);
+  await writeText(path.join(repoRoot, "specs/orders/openapi.json"), OPENAPI_V3);
+  await writeText(path.join(repoRoot, "specs/notes.json"), "{\"not\": \"a spec\"}");
+  await writeText(path.join(repoRoot, "src/app/account.service.ts"), ACCOUNT_SERVICE);
+  return repoRoot;
+}
+
+test("OpenAPI 2 YAML and 3 JSON specs parse into endpoints, parameters, responses and schemas", async () => {
+  const repoRoot = await fixtureRepo();
+  const loaded = await loadOpenApiSpecs(repoRoot, ["specs", "specs/notes.json", "specs/missing.yaml"]);
+
+  assert.deepEqual(loaded.specs.map((spec) => spec.specFile), ["specs/accounts.yaml", "specs/orders/openapi.json"]);
+  assert.deepEqual(loaded.failures.map((failure) => failure.specFile), ["specs/notes.json", "specs/missing.yaml"]);
+
+  const [accounts, orders] = loaded.specs;
+  assert.equal(accounts.basePath, "/api/v2");
+  assert.deepEqual(accounts.endpoints.map((endpoint) => `${endpoint.method} ${endpoint.fullPath}`), ["GET /api/v2/accounts/{id}", "PUT /api/v2/accounts/{id}"]);
+  const update = accounts.endpoints[1];
+  assert.equal(update.requestSchema, "AccountDTO");
+  assert.deepEqual(update.parameters, [
+    { name: "id", in: "path", required: true, type: "string" },
+    { name: "dryRun", in: "query", required: false, type: "boolean" }
+  ]);
+  assert.deepEqual(accounts.endpoints[0].responses, [
+    { status: "200", description: "ok", schema: "AccountDTO" },
+    { status: "404", description: "missing", schema: null }
+  ]);
+  assert.deepEqual(accounts.schemas[0].properties, [
+    { name: "id", type: "string", required: true },
+    { name: "balances", type: "Balance[]", required: false }
+  ]);
+
+  assert.equal(orders.basePath, "/api");
+  assert.equal(orders.endpoints[0].requestSchema, "NewOrder");
+  assert.equal(orders.endpoints[0].responses[0].schema, "Order");
+  assert.equal(orders.schemas[0].properties[1].type, "\"open\" | \"paid\"");
+  assert.equal(parseOpenApiSource("{\"name\": \"package\"}", "package.json"), null);
+});
+
+test("seed facts link endpoints to HttpClient call sites and schemas to DTO symbols", async () => {
+  const repoRoot = await fixtureRepo();
+  const indexing = new IndexingService(DEFAULT_CONFIG, null);
+  await indexing.rebuild(repoRoot);
+  const servicePath = path.join(repoRoot, "src/app/account.service.ts");
+  assert.deepEqual(indexing.getHttpClientCalls().map((call) => [call.method, call.urlTemplate, call.responseType, call.memberName]), [
+    ["GET", "{}/accounts/{}", "AccountDto", "load"],
+    ["PUT", "{}/accounts/{}", null, "save"],
+    ["GET", "/users/{}/accounts", null, "unrelated"],
+    ["POST", "https://orders.example.com/api/orders", "Order", "placeOrder"]
+  ]);
+
+  const { specs } = await loadOpenApiSpecs(repoRoot, ["specs"]);
+  const seedRoot = path.join(repoRoot, ".seed");
+  const result = await generateFactSeedFiles(
+    repoRoot, seedRoot, indexing.getSymbolHeaders(), [], [], [], [], [], [], [], specs, indexing.getHttpClientCalls()
+  );
+  assert.equal(result.apiEndpointCount, 3);
+  assert.equal(result.apiSchemaCount, 4);
+
+  const nodes = (await readText(path.join(seedRoot, "fact/api.jsonl"))).trim().split("\n").map((line) => JSON.parse(line));
+  assert.ok(nodes.some((node) => node.id === "endpoint:specs/accounts.yaml#GET /api/v2/accounts/{id}" && node.properties.operationId === "getAccount"));
+  assert.ok(nodes.some((node) => node.id === "capability:specs/accounts.yaml#accounts" && node.labels[0] === "ApiCapability"));
+
+  const edges = (await readText(path.join(seedRoot, "fact/edges.jsonl"))).trim().split("\n").map((line) => JSON.parse(line));
+  const calls = edges.filter((edge) => edge.relType === "CALLS_ENDPOINT");
+  assert.deepEqual(calls.map((edge) => [edge.to.id, edge.properties.line]), [
+    ["endpoint:specs/accounts.yaml#GET /api/v2/accounts/{id}", 7],
+    ["endpoint:specs/accounts.yaml#PUT /api/v2/accounts/{id}", 10],
+    ["endpoint:specs/orders/openapi.json#POST /api/orders", 18]
+  ]);
+  assert.ok(calls.every((edge) => edge.from.id === `file:${path.relative(repoRoot, servicePath)}`));
+  assert.deepEqual(
+    edges.filter((edge) => edge.relType === "MAPS_TO_SYMBOL").map((edge) => [edge.from.id, edge.to.id, edge.properties.match]),
+    [
+      ["apischema:specs/accounts.yaml#AccountDTO", "sym:interface:src/app/account.service.ts#AccountDto", "normalized"],
+      ["apischema:specs/orders/openapi.json#Order", "sym:interface:src/app/account.service.ts#Order", "exact"]
+    ]
+  );
+  assert.ok(edges.some((edge) => edge.relType === "ACCEPTS" && edge.to.id === "apischema:specs/orders/openapi.json#NewOrder"));
+  assert.ok(edges.some((edge) => edge.relType === "RETURNS" && edge.from.id === "endpoint:specs/accounts.yaml#GET /api/v2/accounts/{id}:response:200"));
+});
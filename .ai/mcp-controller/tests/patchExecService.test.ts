@@ -0,0 +1,301 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import os from "node:os";
+import path from "node:path";
+import { mkdtemp } from "node:fs/promises";
+import { randomUUID } from "node:crypto";
+import { applyStructuredPatch } from "../src/domains/patch-exec/patchExecService";
+import { PatchJournal } from "../src/domains/patch-exec/patchJournal";
+import type { ChangePlanNode } from "../src/contracts/planGraph";
+import { readText, writeText } from "../src/shared/fileStore";
+
+function changeNode(targetFile: string): ChangePlanNode {
+  return {
+    nodeId: "node_change",
+    kind: "change",
+    dependsOn: [],
+    atomicityBoundary: {
+      inScopeAcceptanceCriteriaIds: ["ac1"],
+      outOfScopeAcceptanceCriteriaIds: [],
+      inScopeModules: ["m1"],
+      outOfScopeModules: []
+    },
+    expectedFailureSignatures: [],
+    correctionCandidateOnFail: false,
+    operation: "modify",
+    targetFile,
+    targetSymbols: ["greet"],
+    whyThisFile: "contains greet",
+    editIntent: "rename greeting",
+    escalateIf: [],
+    citations: ["jira:1"],
+    codeEvidence: ["src:greet"],
+    artifactRefs: [],
+    policyRefs: [],
+    verificationHooks: []
+  };
+}
+
+const SOURCE = [
+  "export function greet(name: string) {",
+  "  return `hello ${name}`;",
+  "}",
+  "",
+  "export function part(name: string) {",
+  "  return `bye ${name}`;",
+  "}",
+  ""
+].join("\n");
+
+async function fixture(): Promise<string> {
+  const root = await mkdtemp(path.join(os.tmpdir(), "patch-exec-"));
+  await writeText(path.join(root, "src/greet.ts"), SOURCE);
+  return root;
+}
+
+test("unified_diff applies every hunk when context matches", async () => {
+  const root = await fixture();
+  const diff = [
+    "--- a/src/greet.ts",
+    "+++ b/src/greet.ts",
+    "@@ -1,3 +1,3 @@",
+    " export function greet(name: string) {",
+    "-  return `hello ${name}`;",
+    "+  return `hi ${name}`;",
+    " }",
+    "@@ -5,3 +5,3 @@",
+    " export function part(name: string) {",
+    "-  return `bye ${name}`;",
+    "+  return `later ${name}`;",
+    " }"
+  ].join("\n");
+
+  const result = await applyStructuredPatch({
+    worktreeRoot: root,
+    request: { nodeId: "node_change", targetFile: "src/greet.ts", targetSymbols: ["greet"], operation: "unified_diff", diff },
+    approvedNode: changeNode("src/greet.ts")
+  });
+
+  assert.equal(result.changed, true);
+  assert.equal(result.replacements, 2);
+  const updated = await readText(path.join(root, "src/greet.ts"));
+  assert.ok(updated.includes("hi ${name}"));
+  assert.ok(updated.includes("later ${name}"));
+  assert.ok(updated.endsWith("}\n"));
+});
+
+test("unified_diff applies an LF diff to a CRLF file and keeps its line endings", async () => {
+  const root = await fixture();
+  await writeText(path.join(root, "src/greet.ts"), SOURCE.replace(/\n/g, "\r\n"));
+  const diff = [
+    "--- a/src/greet.ts",
+    "+++ b/src/greet.ts",
+    "@@ -1,3 +1,4 @@",
+    " export function greet(name: string) {",
+    "-  return `hello ${name}`;",
+    "+  const greeting = `hi ${name}`;",
+    "+  return greeting;",
+    " }"
+  ].join("\n");
+
+  const result = await applyStructuredPatch({
+    worktreeRoot: root,
+    request: { nodeId: "node_change", targetFile: "src/greet.ts", targetSymbols: ["greet"], operation: "unified_diff", diff },
+    approvedNode: changeNode("src/greet.ts")
+  });
+
+  assert.equal(result.changed, true);
+  const expected = SOURCE.replace("  return `hello ${name}`;", "  const greeting = `hi ${name}`;\n  return greeting;").replace(/\n/g, "\r\n");
+  assert.equal(await readText(path.join(root, "src/greet.ts")), expected);
+});
+
+test("unified_diff writes nothing and reports rejected hunks on context mismatch", async () => {
+  const root = await fixture();
+  const diff = [
+    "@@ -1,3 +1,3 @@",
+    " export function greet(name: string) {",
+    "-  return `hello ${name}`;",
+    "+  return `hi ${name}`;",
+    " }",
+    "@@ -5,3 +5,3 @@",
+    " export function part(name: string) {",
+    "-  return `ciao ${name}`;",
+    "+  return `later ${name}`;",
+    " }"
+  ].join("\n");
+
+  const result = await applyStructuredPatch({
+    worktreeRoot: root,
+    request: { nodeId: "node_change", targetFile: "src/greet.ts", targetSymbols: ["greet"], operation: "unified_diff", diff },
+    approvedNode: changeNode("src/greet.ts")
+  });
+
+  assert.equal(result.changed, false);
+  assert.deepEqual(result.rejectedHunks?.map((hunk) => hunk.index), [2]);
+  assert.equal(await readText(path.join(root, "src/greet.ts")), SOURCE);
+});
+
+test("unified_diff rejects headers naming a file outside the plan node", async () => {
+  const root = await fixture();
+  const diff = [
+    "--- a/src/other.ts",
+    "+++ b/src/other.ts",
+    "@@ -1 +1 @@",
+    "-export function greet(name: string) {",
+    "+export function greet(who: string) {"
+  ].join("\n");
+
+  await assert.rejects(
+    applyStructuredPatch({
+      worktreeRoot: root,
+      request: { nodeId: "node_change", targetFile: "src/greet.ts", targetSymbols: ["greet"], operation: "unified_diff", diff },
+      approvedNode: changeNode("src/greet.ts")
+    }),
+    /PLAN_SCOPE_VIOLATION/
+  );
+});
+
+test("patch journal reverts a node's edits and refuses when the file drifted", async () => {
+  const root = await fixture();
+  const journal = new PatchJournal(`journal_test_${randomUUID()}`);
+  const filePath = path.join(root, "src/greet.ts");
+
+  const applied = await applyStructuredPatch({
+    worktreeRoot: root,
+    request: { nodeId: "node_change", targetFile: "src/greet.ts", targetSymbols: ["greet"], operation: "replace_text", find: "hello", replace: "hi" },
+    approvedNode: changeNode("src/greet.ts"),
+    journal
+  });
+  assert.ok(applied.journalEntryId);
+  assert.equal((await journal.activeEntries()).length, 1);
+
+  const patched = await readText(filePath);
+  await writeText(filePath, `${patched}// manual edit\n`);
+  const drifted = await journal.revert({ nodeId: "node_change" });
+  assert.equal(drifted.ok, false);
+  assert.equal(drifted.ok ? null : drifted.rejectionCode, "EXEC_SIDE_EFFECT_COLLISION");
+
+  await writeText(filePath, patched);
+  const reverted = await journal.revert({ nodeId: "node_change" });
+  assert.equal(reverted.ok, true);
+  assert.deepEqual(reverted.ok ? reverted.revertedNodeIds : [], ["node_change"]);
+  assert.equal(await readText(filePath), SOURCE);
+  assert.equal((await journal.activeEntries()).length, 0);
+
+  const again = await journal.revert({});
+  assert.equal(again.ok ? null : again.rejectionCode, "PLAN_SCOPE_VIOLATION");
+});
+
+async function renameFixture(): Promise<string> {
+  const root = await mkdtemp(path.join(os.tmpdir(), "patch-rename-"));
+  await writeText(path.join(root, "tsconfig.json"), JSON.stringify({ compilerOptions: { strict: true }, include: ["src"] }));
+  await writeText(path.join(root, "src/user.service.ts"), "export class UserService {\n  load() { return 1; }\n}\n");
+  await writeText(
+    path.join(root, "src/user.component.ts"),
+    "import { UserService } from \"./user.service\";\n\nconst UserServiceLabel = \"UserService\";\nexport function make(): UserService {\n  return new UserService();\n}\n"
+  );
+  return root;
+}
+
+function renameRequest() {
+  return {
+    nodeId: "node_change",
+    targetFile: "src/user.service.ts",
+    targetSymbols: ["UserService"],
+    operation: "ast_codemod" as const,
+    codemodId: "rename_symbol",
+    codemodParams: { from: "UserService", to: "AccountService" }
+  };
+}
+
+test("rename_symbol renames the declaration and its importers across the project", async () => {
+  const root = await renameFixture();
+  const node = changeNode("src/user.service.ts");
+  node.targetSymbols = ["UserService"];
+  const authorized: string[] = [];
+  const reserved: string[][] = [];
+
+  const result = await applyStructuredPatch({
+    worktreeRoot: root,
+    request: renameRequest(),
+    approvedNode: node,
+    authorizeFile: (file) => {
+      authorized.push(file);
+      return { ok: true };
+    },
+    reserveFiles: (files) => {
+      reserved.push(files);
+      return { ok: true };
+    }
+  });
+
+  assert.equal(result.changed, true);
+  assert.deepEqual(authorized, ["src/user.component.ts"]);
+  assert.deepEqual(reserved, [["src/user.component.ts"]]);
+  assert.deepEqual(result.files?.map((file) => file.targetFile).sort(), ["src/user.component.ts", "src/user.service.ts"]);
+  assert.equal(result.replacements, 4);
+  assert.ok((await readText(path.join(root, "src/user.service.ts"))).includes("export class AccountService"));
+  const component = await readText(path.join(root, "src/user.component.ts"));
+  assert.ok(component.includes("import { AccountService } from \"./user.service\";"));
+  assert.ok(component.includes("new AccountService()"));
+  // Unrelated identifiers and strings are untouched
+  assert.ok(component.includes("const UserServiceLabel = \"UserService\";"));
+});
+
+test("rename_symbol writes nothing when an importer fails the scope check", async () => {
+  const root = await renameFixture();
+  const node = changeNode("src/user.service.ts");
+  node.targetSymbols = ["UserService"];
+  const before = await readText(path.join(root, "src/user.service.ts"));
+  const reserved: string[][] = [];
+
+  const result = await applyStructuredPatch({
+    worktreeRoot: root,
+    request: renameRequest(),
+    approvedNode: node,
+    authorizeFile: () => ({ ok: false, rejectionCode: "PACK_SCOPE_VIOLATION", reason: "not in pack" }),
+    reserveFiles: (files) => {
+      reserved.push(files);
+      return { ok: true };
+    }
+  });
+
+  assert.equal(result.changed, false);
+  assert.deepEqual(result.scopeViolations?.map((violation) => violation.targetFile), ["src/user.component.ts"]);
+  assert.equal(await readText(path.join(root, "src/user.service.ts")), before);
+  // Nothing is reserved for a codemod that is rejected
+  assert.deepEqual(reserved, []);
+
+  const collided = await applyStructuredPatch({
+    worktreeRoot: root,
+    request: renameRequest(),
+    approvedNode: node,
+    authorizeFile: () => ({ ok: true }),
+    reserveFiles: () => ({ ok: false, rejectionCode: "EXEC_SIDE_EFFECT_COLLISION", reason: "File mutation collision detected." })
+  });
+  assert.equal(collided.changed, false);
+  assert.deepEqual(collided.scopeViolations?.map((violation) => violation.rejectionCode), ["EXEC_SIDE_EFFECT_COLLISION"]);
+  assert.equal(await readText(path.join(root, "src/user.service.ts")), before);
+});
+
+test("rename_symbol follows project references of a solution-style tsconfig and denies an empty program", async () => {
+  const root = await renameFixture();
+  await writeText(path.join(root, "tsconfig.json"), JSON.stringify({ files: [], references: [{ path: "./tsconfig.app.json" }] }));
+  await writeText(path.join(root, "tsconfig.app.json"), JSON.stringify({ compilerOptions: { strict: true }, include: ["src"] }));
+  const node = changeNode("src/user.service.ts");
+  node.targetSymbols = ["UserService"];
+
+  const result = await applyStructuredPatch({
+    worktreeRoot: root,
+    request: renameRequest(),
+    approvedNode: node,
+    authorizeFile: () => ({ ok: true })
+  });
+  assert.deepEqual(result.files?.map((file) => file.targetFile).sort(), ["src/user.component.ts", "src/user.service.ts"]);
+
+  await writeText(path.join(root, "tsconfig.json"), JSON.stringify({ files: [] }));
+  await assert.rejects(
+    applyStructuredPatch({ worktreeRoot: root, request: renameRequest(), approvedNode: node, authorizeFile: () => ({ ok: true }) }),
+    /PLAN_MISSING_REQUIRED_FIELDS/
+  );
+});
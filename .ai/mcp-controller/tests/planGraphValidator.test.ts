@@ -220,3 +220,18 @@ test("rejects unknown codemod citations", () => {
   assert.equal(result.ok, false);
   assert.ok(result.rejectionCodes.includes("PLAN_POLICY_VIOLATION"));
 });
+
+test("scoped validation checks only the named nodes but the whole graph's integrity", () => {
+  const plan = validPlan();
+  const change = plan.nodes[0];
+  if (change.kind === "change") {
+    change.codeEvidence = [];
+  }
+  assert.equal(validatePlanGraph(plan, undefined, undefined, { onlyNodeIds: new Set(["node_validate"]) }).ok, true);
+  assert.ok(validatePlanGraph(plan, undefined, undefined, { onlyNodeIds: new Set(["node_1"]) }).rejectionCodes.includes("PLAN_EVIDENCE_INSUFFICIENT"));
+
+  const orphaned = validPlan();
+  orphaned.nodes = orphaned.nodes.filter((node) => node.nodeId !== "node_validate");
+  const result = validatePlanGraph(orphaned, undefined, undefined, { onlyNodeIds: new Set() });
+  assert.ok(result.rejectionCodes.includes("PLAN_NOT_ATOMIC"));
+});
@@ -0,0 +1,52 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import os from "node:os";
+import path from "node:path";
+import { mkdtemp } from "node:fs/promises";
+import { RecipeRegistry, expandRecipeSteps } from "../src/domains/recipes/recipeRegistry";
+import { writeText } from "../src/shared/fileStore";
+
+function recipeRow(name: string, extra: Record<string, unknown>): string {
+  return JSON.stringify({
+    kind: "node",
+    id: `recipe:${name}`,
+    labels: ["Entity", "Recipe"],
+    properties: { id: `recipe:${name}`, type: "recipe", version: 1, updated_at: "2026-02-16T00:00:00.000Z", updated_by: "seed", name, ...extra },
+  });
+}
+
+test("manifest recipes register from JSON-encoded steps; built-ins cannot be replaced", async () => {
+  const manifestPath = path.join(await mkdtemp(path.join(os.tmpdir(), "recipe-manifest-")), "manifest.jsonl");
+  await writeText(manifestPath, [
+    recipeRow("replace_lexeme_in_file", { description: "Built-in description row." }),
+    recipeRow("rename_and_check", {
+      requiredParams: ["targetFile", "from", "to"],
+      steps: JSON.stringify([
+        { op: "codemod", targetFile: "{{targetFile}}", targetSymbols: "{{targetSymbols}}", codemodId: "rename_identifier_in_file", codemodParams: { from: "{{from}}", to: "{{to}}" } },
+        { op: "validate", command: "npm test -- {{targetFile}}" },
+      ]),
+    }),
+    recipeRow("run_targeted_validation", { steps: JSON.stringify([{ op: "validate", command: "npm test" }]) }),
+    recipeRow("broken", { steps: JSON.stringify([{ op: "patch" }]) }),
+  ].join("\n"));
+
+  const registry = new RecipeRegistry();
+  const loaded = await registry.loadManifest(manifestPath);
+  assert.deepEqual(loaded.registered, ["rename_and_check"]);
+  assert.deepEqual(loaded.failures.map((failure) => [path.basename(failure.source), failure.reason]), [
+    ["manifest.jsonl:3", "PLAN_POLICY_VIOLATION"],
+    ["manifest.jsonl:4", "PLAN_MISSING_REQUIRED_FIELDS"],
+  ]);
+  assert.equal(registry.get("run_targeted_validation")?.source, "builtin");
+
+  const recipe = registry.get("rename_and_check")!;
+  assert.deepEqual(registry.validate("rename_and_check", { targetFile: "src/a.ts", from: "A" }), { ok: false, reason: "Missing recipe param 'to'." });
+  assert.deepEqual(expandRecipeSteps(recipe, { targetFile: "src/a.ts", targetSymbols: ["A"], from: "A", to: "B" }), [
+    { op: "codemod", targetFile: "src/a.ts", targetSymbols: ["A"], codemodId: "rename_identifier_in_file", codemodParams: { from: "A", to: "B" } },
+    { op: "validate", command: "npm test -- src/a.ts" },
+  ]);
+  // Placeholders for absent params drop the field instead of passing "undefined"
+  assert.equal("targetSymbols" in expandRecipeSteps(recipe, { targetFile: "src/a.ts", from: "A", to: "B" })[0], false);
+
+  assert.deepEqual(await new RecipeRegistry().loadManifest(path.join(path.dirname(manifestPath), "missing.jsonl")), { registered: [], failures: [] });
+});
@@ -0,0 +1,136 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import os from "node:os";
+import path from "node:path";
+import { execFileSync } from "node:child_process";
+import { mkdtemp, readFile } from "node:fs/promises";
+import { DEFAULT_CONFIG } from "../src/config/types";
+import type { PlanGraphDocument } from "../src/contracts/planGraph";
+import { ConnectorRegistry, type JiraCommentConnector } from "../src/domains/connectors/connectorRegistry";
+import { createBuiltinSideEffectDrivers } from "../src/domains/side-effects/builtinDrivers";
+import {
+  SideEffectDriverRegistry,
+  SideEffectLedger,
+  loadSideEffectPayload,
+  sideEffectDenial,
+  sideEffectIdempotencyKey,
+  type SideEffectContext,
+} from "../src/domains/side-effects/sideEffectRegistry";
+import { WorktreeManager, type WorkWorktree } from "../src/infrastructure/git/worktreeManager";
+import { writeText } from "../src/shared/fileStore";
+import { scratchRoot, workRoot } from "../src/shared/fsPaths";
+
+const GIT_IDENTITY = ["-c", "user.name=Test", "-c", "user.email=test@example.com"];
+
+const planGraph = {
+  nodes: [
+    { nodeId: "node_change", kind: "change", targetFile: "src/app/orders.service.ts", editIntent: "Raise the orders page size", verificationHooks: ["npm test"] },
+    { nodeId: "node_validate", kind: "validate", successCriteria: "orders tests pass", verificationHooks: ["npm test"], mapsToNodeIds: ["node_change"] },
+  ],
+} as unknown as PlanGraphDocument;
+
+function uniqueWorkId(): string {
+  return `work-test-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function contextFor(workId: string, worktree: WorkWorktree | null) {
+  return (payload: Record<string, unknown>): SideEffectContext => ({ workId, runSessionId: "run_side_effects", nodeId: "node_side_effect", planGraph, worktree, payload });
+}
+
+async function denialOf(promise: Promise<unknown>): Promise<string> {
+  try {
+    await promise;
+  } catch (error) {
+    return sideEffectDenial(error).code;
+  }
+  return "none";
+}
+
+test("git and PR description drivers preview, act on the isolated worktree and refuse to move refs", async () => {
+  const repoRoot = await mkdtemp(path.join(os.tmpdir(), "side-effect-drivers-"));
+  await writeText(path.join(repoRoot, "src/app/orders.service.ts"), "export const pageSize = 10;\n");
+  execFileSync("git", ["init", "-q", "-b", "main"], { cwd: repoRoot });
+  execFileSync("git", ["add", "-A"], { cwd: repoRoot });
+  execFileSync("git", [...GIT_IDENTITY, "commit", "-q", "-m", "initial"], { cwd: repoRoot });
+
+  const workId = uniqueWorkId();
+  const worktrees = new WorktreeManager({ ...DEFAULT_CONFIG.repo, isolation: "git_worktree" });
+  const worktree = await worktrees.provision({ workId, ticketKey: "ORD-7", sourceRoot: repoRoot });
+  assert.ok(worktree);
+  const registry = new SideEffectDriverRegistry(createBuiltinSideEffectDrivers({ worktrees, jira: null, indexing: null, seedRoot: repoRoot }));
+  const context = contextFor(workId, worktree);
+
+  await writeText(path.join(worktree.root, "src/app/orders.service.ts"), "export const pageSize = 25;\n");
+  const commitDriver = registry.get("git_commit")!;
+  const preview = await commitDriver.preview(context({ message: "Raise page size" }));
+  assert.deepEqual(preview.detail.files, ["src/app/orders.service.ts"]);
+  assert.equal(execFileSync("git", ["rev-parse", "HEAD"], { cwd: worktree.root, encoding: "utf8" }).trim(), worktree.baseRef);
+
+  const committed = await commitDriver.execute(context({ message: "Raise page size" }));
+  assert.equal(committed.detail.subject, "Raise page size");
+  assert.deepEqual(committed.detail.files, ["src/app/orders.service.ts"]);
+  assert.equal(await denialOf(commitDriver.execute(context({ message: "Again" }))), "EXEC_SIDE_EFFECT_FAILED");
+  assert.equal(await denialOf(commitDriver.execute(context({}))), "PLAN_MISSING_REQUIRED_FIELDS");
+
+  const tagged = await registry.get("git_tag")!.execute(context({ name: "orders-v1", message: "Orders v1" }));
+  assert.equal(tagged.detail.sha, committed.detail.sha);
+  assert.equal(execFileSync("git", ["rev-parse", "orders-v1^{commit}"], { cwd: repoRoot, encoding: "utf8" }).trim(), committed.detail.sha);
+  assert.equal(await denialOf(registry.get("git_tag")!.preview(context({ name: "orders-v1" }))), "PLAN_POLICY_VIOLATION");
+  assert.equal(await denialOf(registry.get("git_branch")!.preview(context({ name: "bad..name" }))), "PLAN_POLICY_VIOLATION");
+  const branched = await registry.get("git_branch")!.execute(context({ name: "mcp/ord-7-review", ref: worktree.baseRef }));
+  assert.equal(branched.detail.sha, worktree.baseRef);
+
+  const described = await registry.get("pr_description")!.execute(context({ body: "Closes ORD-7." }));
+  const description = await readFile(path.join(workRoot(workId), "pr-description.md"), "utf8");
+  assert.equal(described.artifacts?.[0].content, description);
+  assert.match(description, /^# Raise the orders page size\n\nCloses ORD-7\.\n/);
+  assert.match(description, /- Raise the orders page size — `src\/app\/orders\.service\.ts` \(node_change\)/);
+  assert.match(description, /- orders tests pass \(npm test\)/);
+  assert.equal(await denialOf(registry.get("pr_description")!.execute(context({ path: "../escape.md" }))), "PLAN_SCOPE_VIOLATION");
+
+  const withoutWorktree = contextFor(workId, null);
+  assert.equal(await denialOf(registry.get("finalize")!.preview(withoutWorktree({}))), "PLAN_SCOPE_VIOLATION");
+  assert.throws(() => registry.register(commitDriver), /PLAN_POLICY_VIOLATION/);
+});
+
+test("jira comments go through the injected connector; keys, payloads and the ledger make runs repeatable", async () => {
+  const posted: Array<{ issueKey: string; body: string }> = [];
+  const jira: JiraCommentConnector = {
+    async postJiraComment(issueKey, body) {
+      posted.push({ issueKey, body });
+      return { ref: `jira:${issueKey}#comment-101`, issueKey, mode: "posted", commentId: "101", postedAt: new Date().toISOString() };
+    },
+  };
+  const workId = uniqueWorkId();
+  const registry = new SideEffectDriverRegistry(createBuiltinSideEffectDrivers({ worktrees: null, jira, indexing: null, seedRoot: os.tmpdir() }));
+  const context = contextFor(workId, null);
+  const comment = registry.get("jira_comment")!;
+
+  const preview = await comment.preview(context({ issueKey: "ORD-7", body: "Ready for review." }));
+  assert.deepEqual(preview.detail, { issueKey: "ORD-7", body: "Ready for review." });
+  assert.equal(posted.length, 0);
+  const outcome = await comment.execute(context({ issueKey: "ORD-7", body: "Ready for review." }));
+  assert.equal(outcome.detail.commentId, "101");
+  assert.deepEqual(posted, [{ issueKey: "ORD-7", body: "Ready for review." }]);
+  assert.equal(await denialOf(comment.execute(context({ issueKey: "not a key", body: "x" }))), "PLAN_POLICY_VIOLATION");
+  assert.equal((await new ConnectorRegistry(DEFAULT_CONFIG).postJiraComment("ORD-7", "x")).mode, "placeholder");
+  assert.equal(await denialOf(registry.get("regenerate_graph_seeds")!.preview(context({}))), "EXEC_SIDE_EFFECT_FAILED");
+
+  const key = sideEffectIdempotencyKey({ workId, nodeId: "n1", sideEffectType: "jira_comment", payload: { issueKey: "ORD-7", body: "x" } });
+  assert.equal(key, sideEffectIdempotencyKey({ workId, nodeId: "n1", sideEffectType: "jira_comment", payload: { body: "x", issueKey: "ORD-7" } }));
+  assert.notEqual(key, sideEffectIdempotencyKey({ workId, nodeId: "n2", sideEffectType: "jira_comment", payload: { issueKey: "ORD-7", body: "x" } }));
+
+  const ledger = new SideEffectLedger(workId);
+  assert.equal(await ledger.read(key), null);
+  const record = { idempotencyKey: key, sideEffectType: "jira_comment", nodeId: "n1", runSessionId: "run", executedAt: "2026-01-01T00:00:00.000Z", artifactBundleRef: "/bundle", summary: "posted", outcome: { commentId: "101" } };
+  await ledger.record(record);
+  assert.deepEqual(await ledger.read(key), record);
+
+  await writeText(path.join(scratchRoot(workId), "comment.json"), JSON.stringify({ issueKey: "ORD-7", body: "From scratch" }));
+  const fromRef = await loadSideEffectPayload(workId, "comment.json", { body: "inline" });
+  assert.deepEqual(fromRef.payload, { issueKey: "ORD-7", body: "From scratch" });
+  await assert.rejects(loadSideEffectPayload(workId, "payload://jira", { body: "inline" }), /PLAN_MISSING_REQUIRED_FIELDS/);
+  assert.deepEqual((await loadSideEffectPayload(workId, "inline:jira", { body: "inline" })).payload, { body: "inline" });
+  await assert.rejects(loadSideEffectPayload(workId, "inline:jira", undefined), /PLAN_MISSING_REQUIRED_FIELDS/);
+  assert.deepEqual(sideEffectDenial(new Error("boom")), { code: "EXEC_SIDE_EFFECT_FAILED", reason: "boom" });
+});
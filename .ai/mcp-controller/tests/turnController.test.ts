@@ -1,11 +1,16 @@
 import test from "node:test";
 import assert from "node:assert/strict";
 import path from "node:path";
+import os from "node:os";
+import { mkdtemp } from "node:fs/promises";
 import { EventStore } from "../src/domains/observability/eventStore";
 import { TurnController } from "../src/domains/controller/turnController";
+import { SessionStore } from "../src/domains/controller/sessionStore";
 import type { PlanGraphDocument } from "../src/contracts/planGraph";
 import { readText, writeText } from "../src/shared/fileStore";
 import { workRoot } from "../src/shared/fsPaths";
+import { SideEffectLedger } from "../src/domains/side-effects/sideEffectRegistry";
+import { DEFAULT_CONFIG } from "../src/config/types";
 
 function validPlan(input: { workId: string; runSessionId: string; agentId: string; targetFile: string }): PlanGraphDocument {
   return {
@@ -244,38 +249,53 @@ test("repeated failures create pending correction candidates", async () => {
 
 test("recipe usage emits episodic event with required refs", async () => {
   const events = new EventStore();
-  const controller = new TurnController(events);
-
-  // Bootstrap session first
-  await initSession(controller, { runSessionId: "run_recipe", workId: "work_recipe", agentId: "agent_recipe", prompt: "run recipe" });
+  const checks = [`${process.execPath} --version`, `${process.execPath} -e process.exit(3)`];
+  const controller = new TurnController(events, undefined, null, undefined, undefined, undefined, null, { ...DEFAULT_CONFIG.sandbox, allowedCommands: checks });
+  const ids = { runSessionId: "run_recipe", workId: "work_recipe", agentId: "agent_recipe" };
+
+  const init = await initSession(controller, { ...ids, prompt: "run recipe" });
+  const plan = validPlan({ ...ids, targetFile: "target.txt" });
+  plan.contextPackHash = String((init.result.contextPack as { hash?: string }).hash);
+  for (const node of plan.nodes) {
+    if (node.kind === "change" || node.kind === "validate") node.verificationHooks = [...checks, `${process.execPath} -e process.exit(0)`];
+  }
+  const accepted = await controller.handleTurn({ ...ids, verb: "submit_execution_plan", args: { planGraph: plan } });
+  assert.equal(accepted.state, "PLAN_ACCEPTED");
 
-  const response = await controller.handleTurn({
-    runSessionId: "run_recipe",
-    workId: "work_recipe",
-    agentId: "agent_recipe",
+  const runValidation = (command: string) => controller.handleTurn({
+    ...ids,
     originalPrompt: "run recipe",
     verb: "run_automation_recipe",
     args: {
-      ...anchors(),
-      recipeId: "replace_lexeme_in_file",
+      recipeId: "run_targeted_validation",
       planNodeId: "node_change",
-      validatedParams: {
-        targetFile: "src/app.ts",
-        find: "A",
-        replace: "B"
-      },
-      artifactBundleRef: "artifact://bundle",
-      diffSummaryRef: "artifact://bundle/diff.summary.json"
+      validatedParams: { command, artifactOutputRef: "artifact://recipe-check" }
     }
   });
 
+  const response = await runValidation(`${process.execPath} --version`);
   assert.equal(response.denyReasons.length, 0);
-  const recent = events.listRecent(20);
-  const usage = recent.find((event) => event.type === "recipe_usage");
+  const recipe = response.result.recipe as { validationOutcome: string; steps: Array<{ commands: Array<{ exitCode: number }> }> };
+  assert.equal(recipe.validationOutcome, "passed");
+  assert.equal(recipe.steps[0].commands[0].exitCode, 0);
+  const usage = events.listRecent(20).find((event) => event.type === "recipe_usage");
   assert.ok(usage);
-  assert.equal(String(usage?.payload.recipeId ?? ""), "replace_lexeme_in_file");
-  assert.equal(String(usage?.payload.artifactBundleRef ?? ""), "artifact://bundle");
-  assert.equal(String(usage?.payload.diffSummaryRef ?? ""), "artifact://bundle/diff.summary.json");
+  assert.equal(String(usage?.payload.recipeId ?? ""), "run_targeted_validation");
+  assert.match(String(usage?.payload.artifactBundleRef ?? ""), /node_change[\\/]run_automation_recipe$/);
+  assert.equal(JSON.parse(await readText(String(usage?.payload.diffSummaryRef))).recipeId, "run_targeted_validation");
+
+  const failing = await runValidation(`${process.execPath} -e process.exit(3)`);
+  assert.ok(failing.denyReasons.includes("PLAN_VERIFICATION_WEAK"));
+  assert.equal((failing.result.recipe as { validationOutcome: string }).validationOutcome, "failed");
+  const failedUsage = events.listRecent(20).filter((event) => event.type === "recipe_usage").at(-1);
+  assert.equal(String(failedUsage?.payload.failureSignature ?? ""), "PLAN_VERIFICATION_WEAK@step1:validate");
+
+  // A plan hook the config does not list is refused, as are extra args on a listed one
+  for (const command of [`${process.execPath} -e process.exit(0)`, `${process.execPath} --version --inspect`]) {
+    const refused = await runValidation(command);
+    assert.equal((refused.result.recipe as { validationOutcome: string }).validationOutcome, "failed");
+    assert.match(JSON.stringify(refused.result.recipe), /SANDBOX_COMMAND_DENIED/);
+  }
 });
 
 test("read_range returns scoped file content lines", async () => {
@@ -453,6 +473,64 @@ test("budget gate blocks non-safe verbs after threshold is exceeded", async () =
   assert.equal(safeVerb.denyReasons.length, 0);
 });
 
+test("per-work budget counts responses, warns, and lifts BLOCKED_BUDGET on extension", async () => {
+  const events = new EventStore();
+  const controller = new TurnController(events, undefined, null, undefined, undefined, undefined, null, undefined, {
+    ...DEFAULT_CONFIG.budget,
+    maxExtensionTokens: 50_000,
+  });
+  const ids = { runSessionId: "run_budget_ext", workId: "work_budget_ext", agentId: "agent_budget_ext" };
+
+  const init = await controller.handleTurn({
+    ...ids,
+    originalPrompt: "budgeted task",
+    verb: "initialize_work",
+    args: { ...anchors(), lexemes: ["test"], budget: { maxTokens: 20_000, thresholdPercent: 0.5, bogus: 1 } },
+  });
+  assert.deepEqual(init.result.budget, { maxTokens: 20_000, thresholdPercent: 0.5, source: "initialize_work" });
+  assert.equal(init.budgetStatus.thresholdTokens, 10_000);
+  assert.ok((init.budgetStatus.lastTurn?.responseTokens ?? 0) > 0);
+  assert.equal(init.budgetStatus.usedTokens, init.budgetStatus.lastTurn!.requestTokens + init.budgetStatus.lastTurn!.responseTokens);
+
+  const blocked = await controller.handleTurn({
+    ...ids,
+    verb: "search_codebase_text",
+    args: { query: "budget", padding: "y".repeat(48_000) },
+  });
+  assert.equal(blocked.state, "BLOCKED_BUDGET");
+  assert.ok(blocked.denyReasons.includes("BUDGET_THRESHOLD_EXCEEDED"));
+  assert.ok(blocked.capabilities.includes("request_budget_extension"));
+
+  const extended = await controller.handleTurn({
+    ...ids,
+    verb: "request_budget_extension",
+    args: { additionalTokens: 80_000, reason: "two validate nodes left" },
+  });
+  assert.equal(extended.denyReasons.length, 0);
+  assert.equal((extended.result.budgetExtension as { granted: number }).granted, 50_000);
+  assert.equal(extended.state, "PLANNING");
+  assert.equal(extended.budgetStatus.thresholdTokens, 60_000);
+  assert.equal(extended.budgetStatus.blocked, false);
+
+  const used = extended.budgetStatus.usedTokens;
+  const warned = await controller.handleTurn({
+    ...ids,
+    verb: "search_codebase_text",
+    args: { query: "budget", padding: "y".repeat((48_000 - used) * 4) },
+  });
+  assert.equal(warned.state, "PLANNING");
+  assert.match(warned.budgetStatus.warning ?? "", /request_budget_extension/);
+  const warningEvents = events.listRecent(5000).filter((event) => event.type === "budget_warning" && event.workId === ids.workId && event.payload.thresholdTokens === 60_000);
+  assert.deepEqual(warningEvents.map((event) => event.payload.percent), [0.75]);
+
+  const exhausted = await controller.handleTurn({
+    ...ids,
+    verb: "request_budget_extension",
+    args: { additionalTokens: 1_000, reason: "more" },
+  });
+  assert.ok(exhausted.denyReasons.includes("BUDGET_EXTENSION_DENIED"));
+});
+
 /* ── Phase 4 tests ───────────────────────────────────────── */
 
 test("initialize_work returns symbols array (Phase 4)", async () => {
@@ -708,6 +786,22 @@ test("read_file_lines is denied in UNINITIALIZED state", async () => {
   );
 });
 
+test("malformed verb args are denied with path-level argErrors", async () => {
+  const controller = new TurnController(new EventStore());
+  const base = { runSessionId: "run_arg_schema", workId: `work_arg_schema_${Date.now().toString(36)}`, agentId: "agent_arg_schema", originalPrompt: "check arg schemas" };
+  const init = await controller.handleTurn({ ...base, verb: "initialize_work", args: anchors() });
+  assert.equal(init.denyReasons.length, 0);
+
+  const response = await controller.handleTurn({ ...base, verb: "read_file_lines", args: { startLine: "1", endLine: 10 } });
+  assert.deepEqual(response.denyReasons, ["PLAN_MISSING_REQUIRED_FIELDS"]);
+  assert.deepEqual(response.result.argErrors, [
+    { path: "args.targetFile", message: "is required" },
+    { path: "args.startLine", message: "must be number, got string" },
+  ]);
+  assert.deepEqual(response.result.missingFields, ["targetFile"]);
+  assert.equal(response.state, "PLANNING");
+});
+
 /* ── #31: ConnectorRegistry + IndexingService integration ── */
 
 test("initialize_work uses connector deps when provided", async () => {
@@ -765,3 +859,415 @@ test("escalate uses indexing service for file discovery", async () => {
   // Without real indexing, no files would be added
   assert.ok(Array.isArray(packDelta.addedFiles));
 });
+
+/* ── Durable sessions ────────────────────────────────────── */
+
+test("persisted sessions resume accepted plan after controller restart", async () => {
+  const storeRoot = await mkdtemp(path.join(os.tmpdir(), "mcp-sessions-"));
+  const runSessionId = "run_durable";
+  const workId = "work_durable";
+  const agentId = "agent_durable";
+  const targetFile = "target.txt";
+  await writeText(path.join(workRoot(workId), targetFile), "const token = 'A';\n");
+
+  const first = new TurnController(new EventStore(), undefined, null, undefined, undefined, undefined, new SessionStore(storeRoot));
+  const init = await initSession(first, { runSessionId, workId, agentId });
+  const plan = validPlan({ workId, runSessionId, agentId, targetFile });
+  plan.contextPackHash = String((init.result.contextPack as { hash?: string }).hash);
+  const accepted = await first.handleTurn({
+    runSessionId,
+    workId,
+    agentId,
+    verb: "submit_execution_plan",
+    args: { planGraph: plan },
+  });
+  assert.equal(accepted.state, "PLAN_ACCEPTED");
+
+  // Simulate a restart: a fresh controller sharing only the on-disk store
+  const store = new SessionStore(storeRoot);
+  const restarted = new TurnController(new EventStore(), undefined, null, undefined, undefined, undefined, store);
+  const resumed = await restarted.handleTurn({
+    runSessionId,
+    workId,
+    agentId,
+    verb: "write_scratch_file",
+    args: { target: "notes.md", content: "resumed" },
+  });
+
+  assert.equal(resumed.state, "PLAN_ACCEPTED");
+  assert.equal(resumed.originalPrompt, "test task");
+  assert.equal(resumed.progress.totalNodes, 2);
+
+  const latest = await store.load(runSessionId, workId, agentId);
+  assert.equal(latest?.planGraph?.planFingerprint, "fp_test");
+  assert.equal(latest?.snapshotVersion, 3);
+});
+
+test("validate node completes only when its verification hooks pass", async () => {
+  const controller = new TurnController(new EventStore());
+  const runSessionId = "run_validate_hooks";
+  const workId = "work_validate_hooks";
+  const agentId = "agent_validate_hooks";
+  const targetFile = "target.ts";
+  await writeText(path.join(workRoot(workId), targetFile), "export const token: number = 'A';\n");
+
+  const init = await initSession(controller, { runSessionId, workId, agentId });
+  const plan = validPlan({ workId, runSessionId, agentId, targetFile });
+  plan.contextPackHash = String((init.result.contextPack as { hash?: string }).hash);
+  for (const node of plan.nodes) {
+    if (node.kind === "change" || node.kind === "validate") node.verificationHooks = ["hook:typecheck"];
+  }
+  const accepted = await controller.handleTurn({ runSessionId, workId, agentId, verb: "submit_execution_plan", args: { planGraph: plan } });
+  assert.equal(accepted.state, "PLAN_ACCEPTED");
+
+  const runValidate = () => controller.handleTurn({
+    runSessionId,
+    workId,
+    agentId,
+    verb: "run_sandboxed_code",
+    args: {
+      nodeId: "node_validate",
+      iife: "(async () => ({ checked: 'target.ts' }))()",
+      declaredInputs: {},
+      timeoutMs: 2000,
+      memoryCapMb: 64,
+      artifactOutputRef: "artifact://validate",
+      expectedReturnShape: { type: "object" }
+    }
+  });
+
+  const failing = await runValidate();
+  assert.ok(failing.denyReasons.includes("PLAN_VERIFICATION_WEAK"));
+  const outcomes = failing.result.verificationHooks as Array<{ hook: string; ok: boolean; diagnostics: Array<{ message: string }> }>;
+  assert.equal(outcomes[0].hook, "hook:typecheck");
+  assert.equal(outcomes[0].ok, false);
+  assert.match(outcomes[0].diagnostics[0].message, /TS2322/);
+
+  await writeText(path.join(workRoot(workId), targetFile), "export const token: string = 'A';\n");
+  const passing = await runValidate();
+  assert.deepEqual(passing.denyReasons, []);
+  assert.ok((passing.result.codeRun as Record<string, unknown>).artifactBundleRef);
+
+  plan.nodes[1] = { ...plan.nodes[1], verificationHooks: ["hook:does_not_exist"] } as typeof plan.nodes[1];
+  const rejected = await controller.handleTurn({ runSessionId, workId, agentId, verb: "submit_execution_plan", args: { planGraph: plan } });
+  assert.ok(rejected.denyReasons.includes("PLAN_VERIFICATION_WEAK"));
+});
+
+test("gated side effects preview on dryRun, record their outcome and replay on repeat", async () => {
+  const controller = new TurnController(new EventStore());
+  // The idempotency ledger outlives the test, so each run needs its own work item
+  const ids = { runSessionId: "run_side_effect", workId: `work_side_effect_${Date.now().toString(36)}`, agentId: "agent_side_effect" };
+
+  const init = await initSession(controller, ids);
+  const plan = validPlan({ ...ids, targetFile: "target.txt" });
+  plan.contextPackHash = String((init.result.contextPack as { hash?: string }).hash);
+  plan.nodes.push({
+    nodeId: "node_pr",
+    kind: "side_effect",
+    dependsOn: ["node_validate"],
+    atomicityBoundary: plan.nodes[0].atomicityBoundary,
+    expectedFailureSignatures: ["sig_c"],
+    correctionCandidateOnFail: false,
+    sideEffectType: "pr_description",
+    sideEffectPayloadRef: "pr.json",
+    commitGateId: "gate_pr",
+  });
+  await controller.handleTurn({ ...ids, verb: "write_scratch_file", args: { target: "pr.json", content: JSON.stringify({ title: "Swap token" }) } });
+  const accepted = await controller.handleTurn({ ...ids, verb: "submit_execution_plan", args: { planGraph: plan } });
+  assert.equal(accepted.state, "PLAN_ACCEPTED");
+
+  const execute = (extra: Record<string, unknown> = {}) => controller.handleTurn({
+    ...ids,
+    verb: "execute_gated_side_effect",
+    args: { nodeId: "node_pr", commitGateId: "gate_pr", ...extra },
+  });
+
+  const preview = await execute({ dryRun: true });
+  assert.deepEqual(preview.denyReasons, []);
+  const previewed = preview.result.sideEffect as { dryRun: boolean; alreadyApplied: boolean; idempotencyKey: string; detail: { title: string } };
+  assert.equal(previewed.dryRun, true);
+  assert.equal(previewed.alreadyApplied, false);
+  assert.equal(previewed.detail.title, "Swap token");
+
+  const applied = await execute();
+  const sideEffect = applied.result.sideEffect as { accepted: boolean; idempotencyKey: string; artifactBundleRef: string; outcome: { descriptionRef: string } };
+  assert.equal(sideEffect.accepted, true);
+  assert.equal(sideEffect.idempotencyKey, previewed.idempotencyKey);
+  assert.match(await readText(sideEffect.outcome.descriptionRef), /^# Swap token\n/);
+  const bundled = JSON.parse(await readText(path.join(sideEffect.artifactBundleRef, "result.json")));
+  assert.equal(bundled.outcome.title, "Swap token");
+
+  const repeated = await execute();
+  assert.equal((repeated.result.sideEffect as { replayed?: boolean }).replayed, true);
+
+  // A recorded key replays only the node and type it was recorded for
+  await new SideEffectLedger(ids.workId).record({
+    idempotencyKey: "se_foreign",
+    sideEffectType: "jira_comment",
+    nodeId: "node_other",
+    runSessionId: ids.runSessionId,
+    executedAt: new Date().toISOString(),
+    artifactBundleRef: "/bundle",
+    summary: "posted",
+    outcome: { commentId: "101" },
+  });
+  const foreign = await execute({ idempotencyKey: "se_foreign" });
+  assert.deepEqual(foreign.denyReasons, ["EXEC_SIDE_EFFECT_COLLISION"]);
+  assert.equal(foreign.result.sideEffect, undefined);
+
+  plan.nodes[2] = { ...plan.nodes[2], sideEffectType: "launch_rockets" } as typeof plan.nodes[2];
+  await controller.handleTurn({ ...ids, verb: "submit_execution_plan", args: { planGraph: plan } });
+  const unknown = await execute();
+  assert.ok(unknown.denyReasons.includes("EXEC_SIDE_EFFECT_FAILED"));
+
+  // The approved ref decides where the payload comes from; an unresolved ref is not replaced by args.payload
+  plan.nodes[2] = { ...plan.nodes[2], sideEffectType: "pr_description", sideEffectPayloadRef: "missing.json" } as typeof plan.nodes[2];
+  await controller.handleTurn({ ...ids, verb: "submit_execution_plan", args: { planGraph: plan } });
+  const unresolved = await execute({ payload: { title: "Injected" } });
+  assert.deepEqual(unresolved.denyReasons, ["PLAN_MISSING_REQUIRED_FIELDS"]);
+
+  plan.nodes[2] = { ...plan.nodes[2], sideEffectPayloadRef: "inline:pr" } as typeof plan.nodes[2];
+  await controller.handleTurn({ ...ids, verb: "submit_execution_plan", args: { planGraph: plan } });
+  const inline = await execute({ payload: { title: "Inline title" }, dryRun: true });
+  assert.deepEqual(inline.denyReasons, []);
+  assert.equal((inline.result.sideEffect as { payloadSource: string }).payloadSource, "args.payload");
+});
+
+test("sibling agents claim nodes, hand them off and share progress", async () => {
+  const events = new EventStore();
+  const controller = new TurnController(events);
+  const workId = `work_coordination_${Date.now().toString(36)}`;
+  const agentA = { runSessionId: "run_coordination", workId, agentId: "agent_coord_a" };
+  const agentB = { ...agentA, agentId: "agent_coord_b" };
+  await writeText(path.join(workRoot(workId), "target.ts"), "export const token: number = 'A';\n");
+
+  const init = await initSession(controller, agentA);
+  const plan = validPlan({ ...agentA, targetFile: "target.ts" });
+  plan.contextPackHash = String((init.result.contextPack as { hash?: string }).hash);
+  for (const node of plan.nodes) {
+    if (node.kind === "change" || node.kind === "validate") node.verificationHooks = ["hook:typecheck"];
+  }
+  await controller.handleTurn({ ...agentA, verb: "submit_execution_plan", args: { planGraph: plan } });
+
+  const validate = (ids: typeof agentA) => controller.handleTurn({
+    ...ids,
+    verb: "run_sandboxed_code",
+    args: {
+      nodeId: "node_validate",
+      iife: "(async () => ({ checked: 'target.ts' }))()",
+      declaredInputs: {},
+      timeoutMs: 2000,
+      memoryCapMb: 64,
+      artifactOutputRef: "artifact://validate",
+      expectedReturnShape: { type: "object" }
+    }
+  });
+
+  // A failed validation leaves agent A holding the node
+  const stuck = await validate(agentA);
+  assert.ok(stuck.denyReasons.includes("PLAN_VERIFICATION_WEAK"));
+
+  const blocked = await validate(agentB);
+  assert.deepEqual(blocked.denyReasons, ["EXEC_SIDE_EFFECT_COLLISION"]);
+  assert.equal((blocked.result.coordinationConflict as { holderAgentId: string }).holderAgentId, "agent_coord_a");
+  const view = blocked.result.coordination as { agents: Array<{ agentId: string; state: string }>; claims: Array<{ nodeId: string; agentId: string }> };
+  assert.deepEqual(view.agents, [{ agentId: "agent_coord_b", state: "PLAN_ACCEPTED" }, { agentId: "agent_coord_a", state: "PLAN_ACCEPTED" }]);
+  assert.deepEqual(view.claims.map((claim) => [claim.nodeId, claim.agentId]), [["node_validate", "agent_coord_a"]]);
+
+  const notMine = await controller.handleTurn({ ...agentB, verb: "handoff", args: { nodeId: "node_validate", toAgentId: "agent_coord_a" } });
+  assert.deepEqual(notMine.denyReasons, ["PLAN_SCOPE_VIOLATION"]);
+  const handed = await controller.handleTurn({ ...agentA, verb: "handoff", args: { nodeId: "node_validate", toAgentId: "agent_coord_b", note: "token must be a string" } });
+  assert.deepEqual(handed.denyReasons, []);
+  assert.ok(events.listRecent(50).some((event) => event.type === "node_handoff"));
+
+  await writeText(path.join(workRoot(workId), "target.ts"), "export const token: string = 'A';\n");
+  const passed = await validate(agentB);
+  assert.deepEqual(passed.denyReasons, []);
+  const coordination = passed.result.coordination as { claims: unknown[]; handoffs: Array<{ fromAgentId: string; note: string }> };
+  assert.deepEqual(coordination.handoffs.map((note) => [note.fromAgentId, note.note]), [["agent_coord_a", "token must be a string"]]);
+  assert.deepEqual(coordination.claims, []);
+
+  const synced = await controller.handleTurn({ ...agentA, verb: "read_file_lines", args: { targetFile: "target.ts" } });
+  assert.equal(synced.progress.completedNodes, 1);
+  const late = await controller.handleTurn({ ...agentA, verb: "handoff", args: { nodeId: "node_validate", toAgentId: "agent_coord_b" } });
+  assert.deepEqual(late.denyReasons, ["PLAN_SCOPE_VIOLATION"]);
+});
+
+test("run_automation_recipe claims every step's node and file before running", async () => {
+  const controller = new TurnController(new EventStore());
+  const workId = `work_recipe_claims_${Date.now().toString(36)}`;
+  const agentA = { runSessionId: "run_recipe_claims", workId, agentId: "agent_recipe_a" };
+  const agentB = { ...agentA, agentId: "agent_recipe_b" };
+  await writeText(path.join(workRoot(workId), "target.ts"), "export const token: string = 'A';\n");
+
+  const init = await initSession(controller, agentA);
+  const plan = validPlan({ ...agentA, targetFile: "target.ts" });
+  plan.contextPackHash = String((init.result.contextPack as { hash?: string }).hash);
+  for (const node of plan.nodes) {
+    if (node.kind === "change" || node.kind === "validate") node.verificationHooks = ["hook:typecheck"];
+  }
+  await controller.handleTurn({ ...agentA, verb: "submit_execution_plan", args: { planGraph: plan } });
+
+  // Agent A claims node_change, and with it a lease on target.ts, by a patch that finds nothing
+  const missed = await controller.handleTurn({
+    ...agentA,
+    verb: "apply_code_patch",
+    args: { ...anchors(), nodeId: "node_change", targetFile: "target.ts", targetSymbols: ["TargetSymbol"], operation: "replace_text", find: "'missing'", replace: "'B'" }
+  });
+  assert.ok(missed.denyReasons.length > 0);
+
+  const recipe = (recipeId: string, validatedParams: Record<string, unknown>) => controller.handleTurn({
+    ...agentB,
+    verb: "run_automation_recipe",
+    args: { recipeId, planNodeId: "node_validate", validatedParams }
+  });
+  const viaStepNode = await recipe("run_targeted_validation", { nodeId: "node_change", command: "npx tsc --noEmit", artifactOutputRef: "artifact://recipe-claims" });
+  assert.deepEqual(viaStepNode.denyReasons, ["EXEC_SIDE_EFFECT_COLLISION"]);
+  assert.deepEqual(viaStepNode.result.coordinationConflict, { ...(viaStepNode.result.coordinationConflict as object), kind: "claim", nodeId: "node_change", holderAgentId: "agent_recipe_a" });
+  assert.equal(viaStepNode.result.recipe, undefined);
+
+  const viaStepFile = await recipe("replace_lexeme_in_file", { targetFile: "target.ts", find: "'A'", replace: "'B'" });
+  assert.deepEqual(viaStepFile.denyReasons, ["EXEC_SIDE_EFFECT_COLLISION"]);
+  assert.equal((viaStepFile.result.coordinationConflict as { kind: string; file: string }).file, "target.ts");
+  assert.equal(await readText(path.join(workRoot(workId), "target.ts")), "export const token: string = 'A';\n");
+
+  // Nothing was taken for agent B by the denied recipes
+  const view = viaStepFile.result.coordination as { claims: Array<{ nodeId: string; agentId: string }> };
+  assert.deepEqual(view.claims.map((claim) => [claim.nodeId, claim.agentId]), [["node_change", "agent_recipe_a"]]);
+});
+
+test("amend_execution_plan revises the accepted plan and keeps untouched progress", async () => {
+  const events = new EventStore();
+  const controller = new TurnController(events);
+  const ids = { runSessionId: "run_amend", workId: `work_amend_${Date.now().toString(36)}`, agentId: "agent_amend" };
+  await writeText(path.join(workRoot(ids.workId), "target.ts"), "export const token: string = 'A';\n");
+  await writeText(path.join(workRoot(ids.workId), "extra.ts"), "export const copy: string = 'A';\n");
+  const allowlistRef = path.join(await mkdtemp(path.join(os.tmpdir(), "amend-scope-")), "allowlist.json");
+  await writeText(allowlistRef, JSON.stringify({ files: ["target.ts", "extra.ts"] }));
+
+  const init = await initSession(controller, ids);
+  const plan = validPlan({ ...ids, targetFile: "target.ts" });
+  plan.contextPackHash = String((init.result.contextPack as { hash?: string }).hash);
+  plan.scopeAllowlistRef = allowlistRef;
+  for (const node of plan.nodes) {
+    if (node.kind === "change" || node.kind === "validate") node.verificationHooks = ["hook:typecheck"];
+  }
+  const accepted = await controller.handleTurn({ ...ids, verb: "submit_execution_plan", args: { planGraph: plan } });
+  assert.equal(accepted.result.planRevision, 1);
+  const validated = await controller.handleTurn({
+    ...ids,
+    verb: "run_sandboxed_code",
+    args: { nodeId: "node_validate", iife: "(async () => ({ checked: true }))()", declaredInputs: {}, timeoutMs: 2000, memoryCapMb: 64, artifactOutputRef: "artifact://validate", expectedReturnShape: { type: "object" } }
+  });
+  assert.deepEqual(validated.denyReasons, []);
+
+  const amend = (args: Record<string, unknown>) => controller.handleTurn({ ...ids, verb: "amend_execution_plan", args });
+  const extraChange = { ...plan.nodes[0], nodeId: "node_extra", targetFile: "extra.ts" };
+  const extraValidate = { ...plan.nodes[1], nodeId: "node_validate_extra", dependsOn: ["node_extra"], mapsToNodeIds: ["node_extra"] };
+
+  const patchExtra = () => controller.handleTurn({
+    ...ids,
+    verb: "apply_code_patch",
+    args: { ...anchors(), nodeId: "node_extra", targetFile: "extra.ts", targetSymbols: ["TargetSymbol"], operation: "replace_text", find: "'A'", replace: "'B'" }
+  });
+  assert.deepEqual((await patchExtra()).denyReasons, ["PACK_SCOPE_VIOLATION"]);
+
+  // An amendment cannot widen the approved allowlist
+  const outside = await amend({ reason: "also touch secrets", addNodes: [{ ...extraChange, nodeId: "node_outside", targetFile: "outside.ts" }, { ...extraValidate, nodeId: "node_validate_outside", dependsOn: ["node_outside"], mapsToNodeIds: ["node_outside"] }] });
+  assert.deepEqual(outside.denyReasons, ["PLAN_SCOPE_VIOLATION"]);
+  assert.deepEqual(outside.result.outOfScopeFiles, ["outside.ts"]);
+  assert.equal(outside.result.planRevision, 1);
+
+  const added = await amend({ reason: "extra.ts also reads the token", addNodes: [extraChange, extraValidate] });
+  assert.deepEqual(added.denyReasons, []);
+  assert.equal(added.result.planRevision, 2);
+  assert.deepEqual(added.result.revalidatedNodeIds, ["node_extra", "node_validate_extra"]);
+  assert.deepEqual((added.result.amendment as { addedPackFiles: string[] }).addedPackFiles, ["extra.ts"]);
+  assert.equal(added.progress.totalNodes, 4);
+  assert.equal(added.progress.completedNodes, 1);
+  assert.ok(events.listRecent(50).some((event) => event.type === "plan_amended" && event.payload.reason === "extra.ts also reads the token"));
+
+  const patchedExtra = await patchExtra();
+  assert.deepEqual(patchedExtra.denyReasons, []);
+  assert.equal(await readText(path.join(workRoot(ids.workId), "extra.ts")), "export const copy: string = 'B';\n");
+  assert.equal(patchedExtra.progress.completedNodes, 2);
+
+  const stale = await amend({ reason: "retry", baseRevision: 1, removeNodeIds: ["node_validate_extra"] });
+  assert.deepEqual(stale.denyReasons, ["PLAN_SCOPE_VIOLATION"]);
+
+  const orphaning = await amend({ reason: "drop the validation", removeNodeIds: ["node_validate_extra"] });
+  assert.ok(orphaning.denyReasons.includes("PLAN_NOT_ATOMIC"));
+  assert.equal(orphaning.result.planRevision, 2);
+  const weak = await amend({ reason: "another check", addNodes: [{ ...extraValidate, nodeId: "node_weak", verificationHooks: [] }] });
+  assert.ok(weak.denyReasons.includes("PLAN_VERIFICATION_WEAK"));
+
+  const widened = await amend({ reason: "rename touches a second symbol", baseRevision: 2, updateNodes: [{ nodeId: "node_change", targetSymbols: ["TargetSymbol", "OtherSymbol"] }] });
+  assert.deepEqual(widened.denyReasons, []);
+  assert.deepEqual((widened.result.amendment as { reopenedNodeIds: string[] }).reopenedNodeIds, ["node_validate"]);
+  assert.equal(widened.progress.completedNodes, 1);
+  assert.equal(widened.state, "PLAN_ACCEPTED");
+});
+
+test("run_sandboxed_code cannot relax the configured process isolation to vm", async () => {
+  const events = new EventStore();
+  const controller = new TurnController(events, undefined, null, undefined, undefined, undefined, null, {
+    ...DEFAULT_CONFIG.sandbox,
+    defaultIsolation: "process"
+  });
+  const ids = { runSessionId: "run_isolation_floor", workId: `work_isolation_${Date.now().toString(36)}`, agentId: "agent_isolation" };
+  await writeText(path.join(workRoot(ids.workId), "target.ts"), "export const token: string = 'A';\n");
+
+  const init = await initSession(controller, ids);
+  const plan = validPlan({ ...ids, targetFile: "target.ts" });
+  plan.contextPackHash = String((init.result.contextPack as { hash?: string }).hash);
+  for (const node of plan.nodes) {
+    if (node.kind === "change" || node.kind === "validate") node.verificationHooks = ["hook:typecheck"];
+  }
+  await controller.handleTurn({ ...ids, verb: "submit_execution_plan", args: { planGraph: plan } });
+
+  const run = await controller.handleTurn({
+    ...ids,
+    verb: "run_sandboxed_code",
+    args: {
+      nodeId: "node_validate",
+      iife: "(async () => ({ checked: true }))()",
+      declaredInputs: {},
+      timeoutMs: 10000,
+      memoryCapMb: 64,
+      artifactOutputRef: "artifact://validate",
+      expectedReturnShape: { type: "object" },
+      isolation: "vm"
+    }
+  });
+  assert.deepEqual(run.denyReasons, []);
+  assert.equal((run.result.codeRun as { isolation: string }).isolation, "process");
+});
+
+test("submit_execution_plan warns about command hooks the sandbox will not run", async () => {
+  const ids = { runSessionId: "run_command_hooks", workId: `work_command_hooks_${Date.now().toString(36)}`, agentId: "agent_command_hooks" };
+  await writeText(path.join(workRoot(ids.workId), "target.ts"), "export const token: string = 'A';\n");
+  const submit = async (controller: TurnController) => {
+    const init = await initSession(controller, ids);
+    const plan = validPlan({ ...ids, targetFile: "target.ts" });
+    plan.contextPackHash = String((init.result.contextPack as { hash?: string }).hash);
+    return controller.handleTurn({ ...ids, verb: "submit_execution_plan", args: { planGraph: plan } });
+  };
+
+  const underVm = await submit(new TurnController(new EventStore()));
+  assert.equal(underVm.state, "PLAN_ACCEPTED");
+  const warning = underVm.result.commandHookWarning as { nodes: Array<{ nodeId: string; commands: string[] }> };
+  assert.deepEqual(warning.nodes, [{ nodeId: "node_validate", commands: ["npm test"] }]);
+  const disallowed = underVm.result.disallowedCommandHooks as { nodes: Array<{ nodeId: string; commands: string[] }> };
+  assert.deepEqual(disallowed.nodes, [{ nodeId: "node_validate", commands: ["npm test"] }]);
+
+  const underProcess = await submit(
+    new TurnController(new EventStore(), undefined, null, undefined, undefined, undefined, null, { ...DEFAULT_CONFIG.sandbox, defaultIsolation: "process" })
+  );
+  assert.equal(underProcess.state, "PLAN_ACCEPTED");
+  assert.equal(underProcess.result.commandHookWarning, undefined);
+
+  const allowed = await submit(
+    new TurnController(new EventStore(), undefined, null, undefined, undefined, undefined, null, { ...DEFAULT_CONFIG.sandbox, defaultIsolation: "process", allowedCommands: ["npm test"] })
+  );
+  assert.equal(allowed.result.disallowedCommandHooks, undefined);
+});
@@ -0,0 +1,91 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { validateVerbArgs, verbArgSchema } from "../src/domains/controller/verbArgSchemas";
+import { clearCustomCodemods, registerCustomCodemod } from "../src/domains/patch-exec/astCodemodCatalog";
+import { catalogVerbs, verbDescriptionsForCapabilities } from "../src/shared/verbCatalog";
+import { listTools, resolveToolCall } from "../src/mcp/handler";
+import { TOOL_NAME } from "../src/shared/constants";
+
+test("verb args are reported with their paths", () => {
+  assert.deepEqual(validateVerbArgs("read_file_lines", { targetFile: "src/a.ts", startLine: 3 }), []);
+  assert.deepEqual(validateVerbArgs("read_file_lines", { startLine: "3" }), [
+    { path: "args.targetFile", message: "is required" },
+    { path: "args.startLine", message: "must be number, got string" },
+  ]);
+  assert.deepEqual(validateVerbArgs("trace_symbol_graph", { symbol: "Orders", relation: "parents" }).map((item) => item.path), ["args.relation"]);
+  assert.deepEqual(validateVerbArgs("search_codebase_text", {}), [{ path: "args.query", message: "is required" }]);
+  assert.deepEqual(validateVerbArgs("search_codebase_text", { lexeme: "total", include: "src/**" }), []);
+  assert.deepEqual(validateVerbArgs("run_sandboxed_code", {
+    nodeId: "node_run", iife: "(() => 1)()", declaredInputs: {}, timeoutMs: 0, memoryCapMb: 64,
+    artifactOutputRef: "out.json", expectedReturnShape: { type: "map" },
+  }).map((item) => item.path), ["args.timeoutMs", "args.expectedReturnShape.type"]);
+  assert.deepEqual(validateVerbArgs("unknown_verb", { anything: true }), []);
+});
+
+test("nested plan graph nodes are checked by kind", () => {
+  const node = {
+    nodeId: "node_validate",
+    kind: "validate",
+    dependsOn: [],
+    atomicityBoundary: { inScopeAcceptanceCriteriaIds: [], outOfScopeAcceptanceCriteriaIds: [], inScopeModules: [], outOfScopeModules: [] },
+    expectedFailureSignatures: [],
+    verificationHooks: ["hook:typecheck"],
+    successCriteria: "types check",
+  };
+  assert.deepEqual(validateVerbArgs("amend_execution_plan", { reason: "cover totals", addNodes: [node] }), [
+    { path: "args.addNodes[0].mapsToNodeIds", message: "is required" },
+  ]);
+  assert.deepEqual(validateVerbArgs("amend_execution_plan", { reason: "cover totals", addNodes: [{ ...node, mapsToNodeIds: ["node_change"] }] }), []);
+
+  const errors = validateVerbArgs("submit_execution_plan", { planGraph: { workId: "work_a", nodes: [{ ...node, kind: "change", targetFile: 7 }] } });
+  assert.ok(errors.some((item) => item.path === "args.planGraph.contextPackHash" && item.message === "is required"));
+  assert.ok(errors.some((item) => item.path === "args.planGraph.nodes[0].targetFile" && item.message === "must be string, got number"));
+  assert.ok(errors.some((item) => item.path === "args.planGraph.nodes[0].editIntent"));
+});
+
+test("codemod params follow the codemod catalog, including custom codemods", () => {
+  const patch = { nodeId: "node_change", targetFile: "src/orders.ts", targetSymbols: ["loadOrders"], operation: "ast_codemod" };
+  assert.deepEqual(validateVerbArgs("apply_code_patch", { ...patch, codemodId: "update_import_specifier", codemodParams: { from: "a", to: "b" } }), [
+    { path: "args.codemodParams.moduleSpecifier", message: "is required" },
+  ]);
+  assert.deepEqual(validateVerbArgs("apply_code_patch", { nodeId: "node_change", targetFile: "src/orders.ts" }), [
+    { path: "args.find", message: "is required" },
+  ]);
+
+  registerCustomCodemod({ id: "wrap_in_signal" as never, title: "Wrap", description: "", targetFileKinds: ["ts"], requiredParams: ["field"], citationToken: "codemod:wrap_in_signal" });
+  try {
+    assert.deepEqual(validateVerbArgs("apply_code_patch", { ...patch, codemodId: "wrap_in_signal", codemodParams: {} }), [
+      { path: "args.codemodParams.field", message: "is required" },
+    ]);
+  } finally {
+    clearCustomCodemods();
+  }
+});
+
+test("every catalog verb has a schema that agrees with its catalog args", () => {
+  for (const [verb, descriptor] of Object.entries(verbDescriptionsForCapabilities(catalogVerbs()))) {
+    const schema = verbArgSchema(verb);
+    assert.ok(schema, verb);
+    for (const arg of [...descriptor.requiredArgs, ...descriptor.optionalArgs]) {
+      assert.ok(schema.properties?.[arg], `${verb}.${arg} is missing from the schema`);
+    }
+    for (const arg of schema.required ?? []) {
+      assert.ok(descriptor.requiredArgs.includes(arg), `${verb}.${arg} is required by the schema but not by the catalog`);
+    }
+  }
+});
+
+test("verb tools are listed on request and resolve to controller turns", () => {
+  assert.deepEqual(listTools().map((tool) => tool.name), [TOOL_NAME]);
+  const tools = listTools({ exposeVerbTools: true });
+  assert.deepEqual(tools.map((tool) => tool.name), [TOOL_NAME, ...catalogVerbs()]);
+  const handoff = tools.find((tool) => tool.name === "handoff")!;
+  assert.deepEqual((handoff.inputSchema as { required: string[] }).required, ["args"]);
+  assert.equal((handoff.inputSchema as { properties: Record<string, unknown> }).properties.verb, undefined);
+
+  assert.deepEqual(resolveToolCall("handoff", { workId: "work_a", verb: "escalate", args: { nodeId: "n1", toAgentId: "agent_b" } }), {
+    verb: "handoff", workId: "work_a", args: { nodeId: "n1", toAgentId: "agent_b" },
+  });
+  assert.equal(resolveToolCall(TOOL_NAME, { verb: "escalate" })?.verb, "escalate");
+  assert.equal(resolveToolCall("drop_tables", {}), null);
+});
@@ -0,0 +1,152 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import os from "node:os";
+import path from "node:path";
+import { mkdtemp } from "node:fs/promises";
+import {
+  registerVerificationHook,
+  resolveVerificationHooks,
+  runVerificationHooks
+} from "../src/domains/verification/verificationHookRegistry";
+import { writeText } from "../src/shared/fileStore";
+
+test("template_parse and unit_test_discovery report broken templates and uncovered sources", async () => {
+  const root = await mkdtemp(path.join(os.tmpdir(), "verification-hooks-"));
+  await writeText(path.join(root, "src/app/list.component.html"), "<div><span>{{ items.length }}</div>\n");
+  await writeText(path.join(root, "src/app/list.component.ts"), "export class ListComponent {}\n");
+  await writeText(path.join(root, "src/app/list.component.spec.ts"), "import { ListComponent } from './list.component';\n");
+  await writeText(path.join(root, "src/app/format.ts"), "export const format = (value: string) => value.trim();\n");
+  await writeText(path.join(root, "src/app/helpers.ts"), "export const helper = 1;\n");
+  await writeText(path.join(root, "test/format.test.ts"), "import { format } from '../src/app/format';\n");
+
+  const outcomes = await runVerificationHooks(["hook:template_parse", "hook:unit_test_discovery", "npm test"], {
+    worktreeRoot: root,
+    changedFiles: ["src/app/list.component.html", "src/app/list.component.ts", "src/app/format.ts", "src/app/helpers.ts"]
+  });
+
+  assert.equal(outcomes.length, 2);
+  const [template, discovery] = outcomes;
+  assert.equal(template.ok, false);
+  assert.equal(template.diagnostics[0].file, "src/app/list.component.html");
+  assert.equal(discovery.ok, false);
+  assert.deepEqual(discovery.diagnostics.map((item) => item.file), ["src/app/helpers.ts"]);
+  assert.deepEqual(discovery.details?.specFiles, {
+    "src/app/list.component.ts": ["src/app/list.component.spec.ts"],
+    "src/app/format.ts": ["test/format.test.ts"],
+    "src/app/helpers.ts": []
+  });
+});
+
+test("hook references resolve to runners, commands and unknown ids", async () => {
+  registerVerificationHook({
+    id: "always_green",
+    title: "Always Green",
+    description: "Test runner.",
+    run: async () => ({ ok: true, summary: "ok", diagnostics: [] })
+  });
+  const resolved = resolveVerificationHooks(["hook:typecheck", "hook:always_green", "npx tsc --noEmit", "hook:missing"]);
+  assert.deepEqual(resolved.runners.map((item) => item.runner.id), ["typecheck", "always_green"]);
+  assert.deepEqual(resolved.commands, ["npx tsc --noEmit"]);
+  assert.deepEqual(resolved.unknown, ["hook:missing"]);
+
+  const outcomes = await runVerificationHooks(["hook:missing", "hook:lint"], {
+    worktreeRoot: await mkdtemp(path.join(os.tmpdir(), "verification-hooks-")),
+    changedFiles: ["src/a.ts"]
+  });
+  assert.deepEqual(outcomes.map((item) => [item.hook, item.ok]), [["hook:missing", false], ["hook:lint", false]]);
+  assert.throws(
+    () => registerVerificationHook({ id: "typecheck", title: "x", description: "x", run: async () => ({ ok: true, summary: "", diagnostics: [] }) }),
+    /PLAN_POLICY_VIOLATION/
+  );
+});
+
+test("component_contracts checks templates that use a changed component against its contract", async () => {
+  const root = await mkdtemp(path.join(os.tmpdir(), "verification-hooks-"));
+  await writeText(path.join(root, "src/app/badge.component.ts"), [
+    "import { Component, Input, input } from '@angular/core';",
+    "@Component({ selector: 'app-badge', template: '' })",
+    "export class BadgeComponent {",
+    "  @Input() label = '';",
+    "  tone = input.required<string>();",
+    "}",
+    ""
+  ].join("\n"));
+  await writeText(path.join(root, "src/app/header.component.html"), "<h1>Orders</h1>\n<app-badge [label]=\"count\" tone=\"info\"></app-badge>\n");
+  await writeText(path.join(root, "src/app/list.component.html"), "<app-badge [label]=\"'new'\" [variant]=\"'x'\"></app-badge>\n");
+  await writeText(path.join(root, "src/app/footer.component.ts"), [
+    "import { Component } from '@angular/core';",
+    "@Component({ selector: 'app-footer', template: `<app-badge label=\"v1\"></app-badge>` })",
+    "export class FooterComponent {}",
+    ""
+  ].join("\n"));
+
+  const [outcome] = await runVerificationHooks(["hook:component_contracts"], {
+    worktreeRoot: root,
+    changedFiles: ["src/app/badge.component.ts"]
+  });
+  assert.equal(outcome.ok, false);
+  assert.deepEqual(outcome.details?.templateFiles, [
+    "src/app/badge.component.ts", "src/app/footer.component.ts", "src/app/header.component.html", "src/app/list.component.html"
+  ]);
+  assert.deepEqual(outcome.diagnostics.map((item) => [item.file, item.line, item.message]), [
+    ["src/app/footer.component.ts", undefined, "<app-badge> does not bind required input 'tone' of BadgeComponent."],
+    ["src/app/list.component.html", 1, "[variant] is not an input of <app-badge> (BadgeComponent)."],
+    ["src/app/list.component.html", 1, "<app-badge> does not bind required input 'tone' of BadgeComponent."]
+  ]);
+
+  const [unrelated] = await runVerificationHooks(["hook:component_contracts"], {
+    worktreeRoot: root,
+    changedFiles: ["src/app/header.component.html"]
+  });
+  assert.deepEqual([unrelated.ok, unrelated.details?.templateFiles], [true, ["src/app/header.component.html"]]);
+});
+
+test("component_contracts follows in-repo base classes and host directives and warns about the rest", async () => {
+  const root = await mkdtemp(path.join(os.tmpdir(), "verification-heritage-"));
+  await writeText(path.join(root, "src/app/field-base.ts"), [
+    "import { Directive, Input } from '@angular/core';",
+    "@Directive()",
+    "export abstract class FieldBase<T> {",
+    "  @Input() label = '';",
+    "  @Input({ required: true }) name!: string;",
+    "  value: T | null = null;",
+    "}",
+    ""
+  ].join("\n"));
+  await writeText(path.join(root, "src/app/focus.directive.ts"), [
+    "import { Directive, input } from '@angular/core';",
+    "@Directive({ selector: '[appFocus]', standalone: true })",
+    "export class FocusDirective {",
+    "  autoFocus = input(false);",
+    "}",
+    ""
+  ].join("\n"));
+  await writeText(path.join(root, "src/app/text-field.component.ts"), [
+    "import { Component } from '@angular/core';",
+    "import { MatFormFieldBase } from '@angular/material/form-field';",
+    "@Component({ selector: 'app-text-field', template: '', hostDirectives: [{ directive: FocusDirective, inputs: ['autoFocus: focus'] }] })",
+    "export class TextFieldComponent extends FieldBase<string> {}",
+    "@Component({ selector: 'app-mat-field', template: '' })",
+    "export class MatFieldComponent extends MatFormFieldBase {}",
+    ""
+  ].join("\n"));
+  await writeText(path.join(root, "src/app/form.component.html"), [
+    "<app-text-field [label]=\"l\" name=\"email\" [focus]=\"true\"></app-text-field>",
+    "<app-text-field [label]=\"l\" [autoFocus]=\"true\"></app-text-field>",
+    "<app-mat-field [appearance]=\"'fill'\"></app-mat-field>",
+    ""
+  ].join("\n"));
+
+  const [outcome] = await runVerificationHooks(["hook:component_contracts"], {
+    worktreeRoot: root,
+    changedFiles: ["src/app/form.component.html"]
+  });
+  assert.equal(outcome.ok, false);
+  assert.deepEqual(outcome.diagnostics.map((item) => [item.line, item.message]), [
+    [2, "[autoFocus] is not an input of <app-text-field> (TextFieldComponent)."],
+    [2, "<app-text-field> does not bind required input 'name' of TextFieldComponent."]
+  ]);
+  assert.deepEqual((outcome.details?.warnings as Array<{ line: number; message: string }>).map((item) => [item.line, item.message]), [
+    [3, "[appearance] is not an input of <app-mat-field> (MatFieldComponent); it may be inherited from a base class or host directive outside the repo."]
+  ]);
+});
@@ -0,0 +1,66 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { WorkScopeCoordinator } from "../src/domains/coordination/workScopeCoordinator";
+import { CollisionGuard } from "../src/domains/patch-exec/collisionGuard";
+
+const scope = "run_coord:work_coord";
+
+function clock(start = Date.parse("2026-01-01T00:00:00.000Z")) {
+  let now = start;
+  return { now: () => now, advance: (ms: number) => { now += ms; } };
+}
+
+test("claims and leases keep siblings apart until they complete or expire", () => {
+  const time = clock();
+  const coordinator = new WorkScopeCoordinator({ leaseTtlMs: 1_000 }, time.now);
+
+  const first = coordinator.acquire(scope, { agentId: "agent_a", nodeId: "node_orders", files: [{ file: "src/orders.ts", symbols: ["loadOrders"] }] });
+  assert.equal(first.ok, true);
+  assert.equal(coordinator.acquire(scope, { agentId: "agent_a", nodeId: "node_orders", files: [{ file: "src/orders.ts", symbols: ["loadOrders"] }] }).ok, true);
+
+  const sameNode = coordinator.acquire(scope, { agentId: "agent_b", nodeId: "node_orders", files: [] });
+  assert.deepEqual(sameNode.ok ? null : sameNode.conflict.kind, "claim");
+  const sameSymbol = coordinator.acquire(scope, { agentId: "agent_b", nodeId: "node_totals", files: [{ file: "src/orders.ts", symbols: ["loadOrders", "total"] }] });
+  assert.deepEqual(sameSymbol.ok ? null : { kind: sameSymbol.conflict.kind, holder: sameSymbol.conflict.holderAgentId, file: sameSymbol.conflict.file }, { kind: "lease", holder: "agent_a", file: "src/orders.ts" });
+  const wholeFile = coordinator.acquire(scope, { agentId: "agent_b", nodeId: "node_totals", files: [{ file: "src/orders.ts", symbols: [] }] });
+  assert.equal(wholeFile.ok, false);
+  assert.equal(coordinator.acquire(scope, { agentId: "agent_b", nodeId: "node_totals", files: [{ file: "src/orders.ts", symbols: ["total"] }] }).ok, true);
+  assert.equal(coordinator.acquire("run_coord:other_work", { agentId: "agent_b", nodeId: "node_orders", files: [] }).ok, true);
+
+  assert.deepEqual(coordinator.complete(scope, "node_orders"), { claimReleased: true, leasesReleased: 1 });
+  assert.equal(coordinator.acquire(scope, { agentId: "agent_c", nodeId: "node_orders", files: [{ file: "src/orders.ts", symbols: ["loadOrders"] }] }).ok, true);
+
+  time.advance(1_000);
+  assert.deepEqual(coordinator.snapshot(scope), { claims: [], leases: [] });
+  assert.equal(coordinator.acquire(scope, { agentId: "agent_a", nodeId: "node_totals", files: [{ file: "src/orders.ts", symbols: [] }] }).ok, true);
+});
+
+test("handoff moves a claim and its leases and delivers the note once", () => {
+  const time = clock();
+  const coordinator = new WorkScopeCoordinator({ leaseTtlMs: 1_000 }, time.now);
+  coordinator.acquire(scope, { agentId: "agent_a", nodeId: "node_orders", files: [{ file: "src/orders.ts", symbols: ["loadOrders"] }] });
+
+  const refused = coordinator.handoff(scope, { nodeId: "node_orders", fromAgentId: "agent_b", toAgentId: "agent_c" });
+  assert.equal(refused.ok, false);
+  assert.equal(coordinator.handoff(scope, { nodeId: "node_missing", fromAgentId: "agent_a", toAgentId: "agent_b" }).ok, false);
+
+  time.advance(500);
+  const handed = coordinator.handoff(scope, { nodeId: "node_orders", fromAgentId: "agent_a", toAgentId: "agent_b", note: "Parser done, tests left" });
+  assert.equal(handed.ok && handed.claim.handedOffFrom, "agent_a");
+  assert.equal(handed.ok && handed.claim.expiresAt, "2026-01-01T00:00:01.500Z");
+  assert.deepEqual(coordinator.snapshot(scope).leases.map((lease) => lease.agentId), ["agent_b"]);
+  assert.equal(coordinator.acquire(scope, { agentId: "agent_a", nodeId: "node_orders", files: [] }).ok, false);
+
+  assert.deepEqual(coordinator.takeHandoffs(scope, "agent_a"), []);
+  assert.deepEqual(coordinator.takeHandoffs(scope, "agent_b").map((note) => note.note), ["Parser done, tests left"]);
+  assert.deepEqual(coordinator.takeHandoffs(scope, "agent_b"), []);
+});
+
+test("collision guard releases the reservations of finished operations", () => {
+  const guard = new CollisionGuard();
+  const effects = { files: ["src/orders.ts"], symbols: [], graphMutations: [], externalSideEffects: [] };
+  assert.equal(guard.assertAndReserve({ sessionKey: scope, operationId: "patch:node_a", effects, approvedExternalGates: [] }).ok, true);
+  assert.equal(guard.assertAndReserve({ sessionKey: scope, operationId: "patch:node_b", effects, approvedExternalGates: [] }).ok, false);
+  assert.equal(guard.release(scope, ["patch:node_a", "code_run:node_a"]), 1);
+  assert.equal(guard.assertAndReserve({ sessionKey: scope, operationId: "patch:node_b", effects, approvedExternalGates: [] }).ok, true);
+});
@@ -0,0 +1,114 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import os from "node:os";
+import path from "node:path";
+import { execFileSync } from "node:child_process";
+import { lstat, mkdtemp, readFile } from "node:fs/promises";
+import { DEFAULT_CONFIG } from "../src/config/types";
+import { WorktreeManager, readWorktreeRecord } from "../src/infrastructure/git/worktreeManager";
+import { writeText } from "../src/shared/fileStore";
+import { worktreeCheckoutRoot } from "../src/shared/fsPaths";
+
+const GIT_IDENTITY = ["-c", "user.name=Test", "-c", "user.email=test@example.com"];
+
+async function fixtureRepo(withGit: boolean): Promise<string> {
+  const repoRoot = await mkdtemp(path.join(os.tmpdir(), "worktree-manager-"));
+  await writeText(path.join(repoRoot, "src/app/orders.service.ts"), "export const pageSize = 10;\n");
+  await writeText(path.join(repoRoot, "src/app/orders.component.ts"), "export class OrdersComponent {}\n");
+  await writeText(path.join(repoRoot, ".gitignore"), "node_modules/\n");
+  await writeText(path.join(repoRoot, "node_modules/lib/index.js"), "module.exports = 1;\n");
+  if (withGit) {
+    execFileSync("git", ["init", "-q", "-b", "main"], { cwd: repoRoot });
+    execFileSync("git", ["add", "-A"], { cwd: repoRoot });
+    execFileSync("git", [...GIT_IDENTITY, "commit", "-q", "-m", "initial"], { cwd: repoRoot });
+  }
+  return repoRoot;
+}
+
+function uniqueWorkId(): string {
+  return `work-test-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+test("git_worktree isolation branches from HEAD and finalize commits one node at a time", async () => {
+  const repoRoot = await fixtureRepo(true);
+  const workId = uniqueWorkId();
+  const manager = new WorktreeManager({ ...DEFAULT_CONFIG.repo, isolation: "git_worktree" });
+
+  const worktree = await manager.provision({ workId, ticketKey: "ORD-42", sourceRoot: repoRoot });
+  assert.ok(worktree);
+  assert.equal(worktree.mode, "git_worktree");
+  assert.equal(worktree.branch, "mcp/ord-42");
+  assert.equal(worktree.root, worktreeCheckoutRoot(workId));
+  assert.deepEqual(await readWorktreeRecord(workId), worktree);
+  assert.deepEqual(await manager.provision({ workId, ticketKey: "ORD-42", sourceRoot: repoRoot }), worktree);
+  assert.ok((await lstat(path.join(worktree.root, "node_modules"))).isSymbolicLink());
+  assert.equal(await readFile(path.join(worktree.root, "node_modules/lib/index.js"), "utf8"), "module.exports = 1;\n");
+
+  // Node images come from the journal; the checkout also holds an unjournaled edit
+  await writeText(path.join(worktree.root, "src/app/orders.service.ts"), "export const pageSize = 25;\n");
+  await writeText(path.join(worktree.root, "README.md"), "# Orders\n");
+  const outcome = await manager.finalize(worktree, [
+    { message: "Raise page size\n\nPlan node: n1\n", files: [{ relativePath: "src/app/orders.service.ts", content: "export const pageSize = 20;\n" }] },
+    { message: "Raise page size again", files: [{ relativePath: "src/app/orders.service.ts", content: "export const pageSize = 25;\n" }] },
+  ], "Remaining changes");
+
+  assert.deepEqual(outcome.commits.map((commit) => [commit.subject, commit.files]), [
+    ["Raise page size", ["src/app/orders.service.ts"]],
+    ["Raise page size again", ["src/app/orders.service.ts"]],
+    ["Remaining changes", ["README.md"]],
+  ]);
+  assert.equal(outcome.baseRef, worktree.baseRef);
+  assert.match(outcome.diff, /-export const pageSize = 10;\n\+export const pageSize = 25;/);
+  assert.match(outcome.diffStat, /2 files changed/);
+
+  // The live repository keeps its content and gains only the review branch
+  assert.equal(await readFile(path.join(repoRoot, "src/app/orders.service.ts"), "utf8"), "export const pageSize = 10;\n");
+  assert.equal(execFileSync("git", ["rev-parse", "mcp/ord-42"], { cwd: repoRoot, encoding: "utf8" }).trim(), outcome.headRef);
+  assert.equal(execFileSync("git", ["rev-parse", "main"], { cwd: repoRoot, encoding: "utf8" }).trim(), worktree.baseRef);
+
+  // A second work item on the same ticket gets its own branch
+  const second = await manager.provision({ workId: uniqueWorkId(), ticketKey: "ORD-42", sourceRoot: repoRoot });
+  assert.ok(second);
+  assert.notEqual(second.branch, worktree.branch);
+  assert.ok(second.branch.startsWith("mcp/ord-42-"));
+});
+
+test("targets outside git fall back to a copy with a baseline commit; isolation none provisions nothing", async () => {
+  const repoRoot = await fixtureRepo(false);
+  const workId = uniqueWorkId();
+  const manager = new WorktreeManager({ ...DEFAULT_CONFIG.repo, isolation: "git_worktree" });
+
+  const worktree = await manager.provision({ workId, sourceRoot: repoRoot });
+  assert.ok(worktree);
+  assert.equal(worktree.mode, "copy");
+  assert.equal(worktree.branch, `mcp/${workId}`);
+  assert.match(worktree.fallbackReason ?? "", /not a git repository/);
+  assert.equal(await readFile(path.join(worktree.root, "src/app/orders.component.ts"), "utf8"), "export class OrdersComponent {}\n");
+  // Dependencies are linked, not copied, and stay out of the baseline commit
+  assert.ok((await lstat(path.join(worktree.root, "node_modules"))).isSymbolicLink());
+  assert.equal(await readFile(path.join(worktree.root, "node_modules/lib/index.js"), "utf8"), "module.exports = 1;\n");
+  assert.equal(execFileSync("git", ["ls-files", "node_modules"], { cwd: worktree.root, encoding: "utf8" }), "");
+
+  await writeText(path.join(worktree.root, "src/app/orders.component.ts"), "export class OrdersComponent { title = 'Orders'; }\n");
+  const outcome = await manager.finalize(worktree, [], "Remaining changes");
+  assert.deepEqual(outcome.commits.map((commit) => commit.files), [["src/app/orders.component.ts"]]);
+  assert.equal(await readFile(path.join(repoRoot, "src/app/orders.component.ts"), "utf8"), "export class OrdersComponent {}\n");
+
+  const disabled = new WorktreeManager({ ...DEFAULT_CONFIG.repo, isolation: "none" });
+  assert.equal(disabled.enabled, false);
+  assert.equal(await disabled.provision({ workId: uniqueWorkId(), sourceRoot: repoRoot }), null);
+});
+
+test("a git target whose worktree cannot be added falls back to a copy and says why", async () => {
+  const repoRoot = await fixtureRepo(false);
+  // No commit yet, so there is no HEAD to branch from
+  execFileSync("git", ["init", "-q", "-b", "main"], { cwd: repoRoot });
+  const manager = new WorktreeManager({ ...DEFAULT_CONFIG.repo, isolation: "git_worktree" });
+
+  const worktree = await manager.provision({ workId: uniqueWorkId(), sourceRoot: repoRoot });
+  assert.ok(worktree);
+  assert.equal(worktree.mode, "copy");
+  assert.ok(worktree.fallbackReason);
+  assert.equal(await readFile(path.join(worktree.root, "src/app/orders.service.ts"), "utf8"), "export const pageSize = 10;\n");
+  assert.equal(DEFAULT_CONFIG.repo.isolation, "none");
+});